@@ -17,6 +17,12 @@ import CashReconciliation from './pages/CashReconciliation';
 import AITools from './pages/AITools';
 import ResultsVerification from './pages/ResultsVerification';
 import Settings from './pages/Settings';
+import QualityControl from './pages/QualityControl';
+import Instruments from './pages/Instruments';
+import Hl7Interface from './pages/Hl7Interface';
+import AIReview from './pages/AIReview';
+import AuditTrail from './pages/AuditTrail';
+import { ROUTE_PERMISSIONS } from './utils/permissions';
 
 const AppRoutes: React.FC = () => {
   const { user, loading } = useAuth();
@@ -52,14 +58,20 @@ const AppRoutes: React.FC = () => {
               <Route path="/tests" element={<Tests />} />
               <Route path="/orders" element={<Orders />} />
               <Route path="/results" element={<Results />} />
-              <Route path="/results-verification" element={<ResultsVerification />} />
+              <Route path="/results-verification" element={<ProtectedRoute permission={ROUTE_PERMISSIONS['/results-verification']}><ResultsVerification /></ProtectedRoute>} />
+              <Route path="/quality-control" element={<QualityControl />} />
+              <Route path="/instruments" element={<Instruments />} />
+              <Route path="/hl7" element={<Hl7Interface />} />
               <Route path="/reports" element={<Reports />} />
-              {/* Dev workflow demo route (no DB changes) */}
+              {/* Workflow preview; the order route runs the order's published workflow */}
               <Route path="/workflow-demo/peripheral-smear" element={<PeripheralSmearDemo />} />
-              <Route path="/billing" element={<Billing />} />
-              <Route path="/cash-reconciliation" element={<CashReconciliation />} />
+              <Route path="/orders/:orderId/workflow" element={<PeripheralSmearDemo />} />
+              <Route path="/billing" element={<ProtectedRoute permission={ROUTE_PERMISSIONS['/billing']}><Billing /></ProtectedRoute>} />
+              <Route path="/cash-reconciliation" element={<ProtectedRoute permission={ROUTE_PERMISSIONS['/cash-reconciliation']}><CashReconciliation /></ProtectedRoute>} />
               <Route path="/ai-tools" element={<AITools />} />
-              <Route path="/settings" element={<Settings />} />
+              <Route path="/ai-review" element={<AIReview />} />
+              <Route path="/audit-trail" element={<ProtectedRoute permission={ROUTE_PERMISSIONS['/audit-trail']}><AuditTrail /></ProtectedRoute>} />
+              <Route path="/settings" element={<ProtectedRoute permission={ROUTE_PERMISSIONS['/settings']}><Settings /></ProtectedRoute>} />
             </Routes>
           </Layout>
         </ProtectedRoute>
@@ -69,16 +69,9 @@ export const AITestConfigurator: React.FC<AITestConfiguratorProps> = ({
 
     try {
       // Get current user's lab ID (can be null for global configurations)
-      let labId = await database.getCurrentUserLabId();
+      const labId = await database.getCurrentUserLabId();
       
       console.log('Current user lab ID:', labId); // Debug log
-      console.log('Current user:', user); // Debug log
-      
-      // If no lab_id from the function, try to get it from user context
-      if (!labId && user?.user_metadata?.lab_id) {
-        labId = user.user_metadata.lab_id;
-        console.log('Using lab_id from user metadata:', labId);
-      }
       
       if (!labId) {
         console.warn('No lab associated with current user. Creating global test group and analytes.');
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { format, startOfDay, subDays } from 'date-fns';
+import { Activity, DollarSign, Timer, AlertTriangle, Gauge, Save, Loader2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import { AiUsageLog, AiUsageQuota, quotaMonthStart, quotaUsage, summarizeAiUsage, totalAiUsage } from '../../utils/aiUsage';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const tooltipStyle = { backgroundColor: '#ffffff', border: '1px solid #e5e7eb', borderRadius: '6px' };
+
+const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+const formatMs = (ms: number | null) => (ms === null ? '-' : ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`);
+const formatRate = (errors: number, calls: number) => (calls > 0 ? `${((errors / calls) * 100).toFixed(1)}%` : '-');
+
+const QuotaBar: React.FC<{ label: string; used: string; limit: string; share: number | null }> = ({ label, used, limit, share }) => (
+  <div>
+    <div className="flex justify-between text-sm mb-1">
+      <span className="text-gray-700">{label}</span>
+      <span className="text-gray-600">{share === null ? `${used} (no limit)` : `${used} of ${limit}`}</span>
+    </div>
+    <div className="w-full bg-gray-200 rounded-full h-2">
+      {share !== null && (
+        <div
+          className={`h-2 rounded-full ${share >= 1 ? 'bg-red-600' : share >= 0.8 ? 'bg-orange-500' : 'bg-green-600'}`}
+          style={{ width: `${Math.min(100, share * 100)}%` }}
+        />
+      )}
+    </div>
+  </div>
+);
+
+// Cost, latency and errors of the lab's AI calls, with its monthly quota
+const AIUsageDashboard: React.FC = () => {
+  const [days, setDays] = useState(30);
+  const [logs, setLogs] = useState<AiUsageLog[]>([]);
+  const [quota, setQuota] = useState<AiUsageQuota | null>(null);
+  const [limits, setLimits] = useState({ calls: '', cost: '' });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const since = useMemo(() => startOfDay(subDays(new Date(), days - 1)), [days]);
+  const monthStart = useMemo(() => quotaMonthStart(), []);
+  // Enough history for both the chosen range and the quota month
+  const fetchFrom = since < monthStart ? since : monthStart;
+
+  useEffect(() => {
+    setLoading(true);
+    database.aiUsage.getLogs(fetchFrom.toISOString()).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setLogs(data || []);
+      setLoading(false);
+    });
+  }, [fetchFrom]);
+
+  useEffect(() => {
+    database.aiUsage.getQuota().then(({ data, error }) => {
+      if (error) setError(error.message);
+      setQuota(data);
+      setLimits({
+        calls: data?.monthly_call_limit?.toString() ?? '',
+        cost: data?.monthly_cost_limit_usd?.toString() ?? '',
+      });
+    });
+  }, []);
+
+  const summary = useMemo(
+    () => summarizeAiUsage(logs.filter(l => new Date(l.created_at) >= since), since),
+    [logs, since]
+  );
+  const month = useMemo(() => totalAiUsage(logs.filter(l => new Date(l.created_at) >= monthStart)), [logs, monthStart]);
+  const share = quotaUsage(quota, month);
+  const chartData = summary.byDay.map(d => ({ ...d, label: format(new Date(`${d.day}T00:00:00`), 'dd MMM') }));
+
+  const handleSaveQuota = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const { data, error } = await database.aiUsage.saveQuota({
+      monthly_call_limit: limits.calls.trim() === '' ? null : Math.max(0, Math.round(Number(limits.calls))),
+      monthly_cost_limit_usd: limits.cost.trim() === '' ? null : Math.max(0, Number(limits.cost)),
+    });
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setQuota(data);
+  };
+
+  const { totals } = summary;
+  const cards = [
+    { label: 'AI Calls', value: totals.calls.toLocaleString(), sub: `${totals.tokens.toLocaleString()} tokens`, icon: Activity, color: 'blue' },
+    { label: 'Estimated Cost', value: formatCost(totals.cost), sub: totals.calls ? `${formatCost(totals.cost / totals.calls)} per call` : '', icon: DollarSign, color: 'green' },
+    { label: 'Latency', value: formatMs(totals.avgLatencyMs), sub: `p95 ${formatMs(totals.p95LatencyMs)}`, icon: Timer, color: 'purple' },
+    { label: 'Error Rate', value: formatRate(totals.errors, totals.calls), sub: `${totals.errors} failed calls`, icon: AlertTriangle, color: totals.errors ? 'red' : 'gray' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">AI Usage</h3>
+        <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+          <option value={7}>Last 7 days</option>
+          <option value={30}>Last 30 days</option>
+          <option value={90}>Last 90 days</option>
+        </select>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="text-2xl font-bold text-gray-900">{loading ? '…' : card.value}</div>
+                <div className="text-sm text-gray-600">{card.label}</div>
+                <div className="text-xs text-gray-500 mt-1">{loading ? '' : card.sub}</div>
+              </div>
+              <div className={`bg-${card.color}-100 p-3 rounded-lg`}>
+                <card.icon className={`h-6 w-6 text-${card.color}-600`} />
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h4 className="font-medium text-gray-900 mb-4">Daily cost and calls</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <YAxis yAxisId="cost" tick={{ fontSize: 11, fill: '#6b7280' }} tickFormatter={(value: number) => `$${value.toFixed(2)}`} />
+                <YAxis yAxisId="calls" orientation="right" allowDecimals={false} tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <Tooltip
+                  formatter={(value: number, name: string) => [name === 'Cost' ? formatCost(value) : value, name]}
+                  contentStyle={tooltipStyle}
+                />
+                <Legend />
+                <Bar yAxisId="cost" dataKey="cost" name="Cost" fill="#16a34a" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="calls" dataKey="calls" name="Calls" fill="#3b82f6" radius={[4, 4, 0, 0]} />
+                <Bar yAxisId="calls" dataKey="errors" name="Errors" fill="#dc2626" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h4 className="font-medium text-gray-900 mb-4">Daily latency</h4>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 10, left: 10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+                <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#6b7280' }} />
+                <YAxis tick={{ fontSize: 11, fill: '#6b7280' }} tickFormatter={(value: number) => formatMs(value)} />
+                <Tooltip formatter={(value: number, name: string) => [formatMs(value), name]} contentStyle={tooltipStyle} />
+                <Legend />
+                <Line type="monotone" dataKey="avgLatencyMs" name="Average" stroke="#7c3aed" dot={false} connectNulls />
+                <Line type="monotone" dataKey="p95LatencyMs" name="p95" stroke="#f59e0b" dot={false} connectNulls />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h4 className="font-medium text-gray-900 mb-4">By processing type</h4>
+          {summary.byProcessingType.length === 0 ? (
+            <p className="text-sm text-gray-500">No AI calls in this period.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Type</th>
+                  <th className="py-2 pr-4 text-right">Calls</th>
+                  <th className="py-2 pr-4 text-right">Tokens</th>
+                  <th className="py-2 pr-4 text-right">Cost</th>
+                  <th className="py-2 pr-4 text-right">Avg / p95</th>
+                  <th className="py-2 text-right">Errors</th>
+                </tr>
+              </thead>
+              <tbody>
+                {summary.byProcessingType.map(row => (
+                  <tr key={row.key} className="border-b last:border-0">
+                    <td className="py-2 pr-4 text-gray-900">{row.key.replace(/[_-]/g, ' ')}</td>
+                    <td className="py-2 pr-4 text-right">{row.calls.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{row.tokens.toLocaleString()}</td>
+                    <td className="py-2 pr-4 text-right">{formatCost(row.cost)}</td>
+                    <td className="py-2 pr-4 text-right">{formatMs(row.avgLatencyMs)} / {formatMs(row.p95LatencyMs)}</td>
+                    <td className={`py-2 text-right ${row.errors ? 'text-red-600' : ''}`}>{formatRate(row.errors, row.calls)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <form onSubmit={handleSaveQuota} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <h4 className="font-medium text-gray-900 flex items-center">
+            <Gauge className="h-5 w-5 mr-2 text-gray-600" />
+            Monthly quota
+          </h4>
+          <QuotaBar label="Calls" used={month.calls.toLocaleString()} limit={quota?.monthly_call_limit?.toLocaleString() ?? ''} share={share.calls} />
+          <QuotaBar label="Cost" used={formatCost(month.cost)} limit={formatCost(Number(quota?.monthly_cost_limit_usd) || 0)} share={share.cost} />
+          <p className="text-xs text-gray-500">
+            Since {format(monthStart, 'dd MMM yyyy')}. AI requests are refused once a limit is reached; leave a limit empty for none.
+          </p>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Call limit</label>
+              <input type="number" min={0} className={inputClass} value={limits.calls} onChange={(e) => setLimits(prev => ({ ...prev, calls: e.target.value }))} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Cost limit (USD)</label>
+              <input type="number" min={0} step="0.01" className={inputClass} value={limits.cost} onChange={(e) => setLimits(prev => ({ ...prev, cost: e.target.value }))} />
+            </div>
+          </div>
+          <button type="submit" disabled={saving} className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+            {saving ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+            Save quota
+          </button>
+        </form>
+      </div>
+
+      {summary.recentErrors.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h4 className="font-medium text-gray-900 mb-4">Recent errors</h4>
+          <div className="space-y-2">
+            {summary.recentErrors.map(log => (
+              <div key={log.id} className="text-sm border-l-4 border-red-400 pl-3">
+                <div className="text-gray-500 text-xs">
+                  {format(new Date(log.created_at), 'dd MMM yyyy HH:mm')} · {log.function_name || 'unknown'} · {log.processing_type}
+                </div>
+                <div className="text-red-700 break-words">{log.error_message}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AIUsageDashboard;
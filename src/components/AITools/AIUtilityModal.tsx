@@ -3,7 +3,7 @@ import { Dialog, Transition } from '@headlessui/react';
 import { Fragment } from 'react';
 import { X, Play, AlertTriangle } from 'lucide-react';
 import { supabase } from '../../utils/supabase';
-// import ProtocolFlowEngine from './ProtocolFlowEngine';
+import ProtocolFlowEngine from './ProtocolFlowEngine';
 
 interface AIProtocol {
   id: string;
@@ -277,16 +277,12 @@ const AIUtilityModal: React.FC<AIUtilityModalProps> = ({ isOpen, onClose, contex
                 )}
 
                 {view === 'execution' && selectedProtocol && currentSession && (
-                  <div className="text-center py-8">
-                    <p className="text-gray-600">Protocol Flow Engine will be implemented here</p>
-                    <p className="text-sm text-gray-500 mt-2">Protocol: {selectedProtocol.name}</p>
-                  </div>
-                  // <ProtocolFlowEngine
-                  //   protocol={selectedProtocol}
-                  //   session={currentSession}
-                  //   onComplete={handleSessionComplete}
-                  //   onCancel={handleModalClose}
-                  // />
+                  <ProtocolFlowEngine
+                    protocol={selectedProtocol}
+                    session={currentSession}
+                    onComplete={handleSessionComplete}
+                    onCancel={handleModalClose}
+                  />
                 )}
               </Dialog.Panel>
             </Transition.Child>
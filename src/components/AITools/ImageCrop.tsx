@@ -0,0 +1,46 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { ImageRegion } from '../../utils/aiConfidence';
+
+interface ImageCropProps {
+  src: string;
+  // Pixel region of the source image; the whole image when null
+  crop: ImageRegion | null;
+  width?: number;
+}
+
+// Draws one region of an uploaded document so a value can be checked against what was printed
+const ImageCrop: React.FC<ImageCropProps> = ({ src, crop, width = 360 }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    setFailed(false);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext('2d');
+      if (!canvas || !context) return;
+      const region = crop || { x: 0, y: 0, width: image.naturalWidth, height: image.naturalHeight };
+      // Small crops (one report line) are enlarged up to 3x to stay legible
+      const scale = Math.min(3, width / Math.max(1, region.width));
+      canvas.width = Math.round(region.width * scale);
+      canvas.height = Math.round(region.height * scale);
+      context.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+    };
+    image.onerror = () => setFailed(true);
+    image.src = src;
+  }, [src, crop, width]);
+
+  if (failed) {
+    return (
+      <a href={src} target="_blank" rel="noreferrer" className="flex items-center text-sm text-blue-600 hover:text-blue-800">
+        <ExternalLink className="h-4 w-4 mr-1" /> Open document
+      </a>
+    );
+  }
+
+  return <canvas ref={canvasRef} className="max-w-full border border-gray-200 rounded bg-white" />;
+};
+
+export default ImageCrop;
@@ -5,7 +5,7 @@ import { useAuth } from '../../contexts/AuthContext';
 import { calculateFlagsForResults } from '../../utils/flagCalculation';
 
 const OCRExtraction: React.FC = () => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [attachmentId, setAttachmentId] = useState<string | null>(null);
   const [extractionType, setExtractionType] = useState('instrument-screen');
@@ -86,7 +86,7 @@ const OCRExtraction: React.FC = () => {
           file_type: file.type,
           file_size: file.size,
           description: `OCR extraction document - ${extractionType}`,
-          uploaded_by: user?.id || null,
+          uploaded_by: profile?.id || null,
           upload_timestamp: new Date().toISOString()
         }])
         .select()
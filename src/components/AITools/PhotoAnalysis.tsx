@@ -4,7 +4,7 @@ import { supabase, uploadFile, generateFilePath, database } from '../../utils/su
 import { useAuth } from '../../contexts/AuthContext';
 
 const PhotoAnalysis: React.FC = () => {
-  const { user } = useAuth();
+  const { profile } = useAuth();
   const [selectedImageLeft, setSelectedImageLeft] = useState<string | null>(null);
   const [selectedImageRight, setSelectedImageRight] = useState<string | null>(null);
   const [leftFileAttachmentId, setLeftFileAttachmentId] = useState<string | null>(null);
@@ -97,7 +97,7 @@ const PhotoAnalysis: React.FC = () => {
           file_type: file.type,
           file_size: file.size,
           description: `AI analysis image - ${testType} (${side} tilt)`,
-          uploaded_by: user?.id || null,
+          uploaded_by: profile?.id || null,
           upload_timestamp: new Date().toISOString()
         }])
         .select()
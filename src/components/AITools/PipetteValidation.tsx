@@ -12,7 +12,7 @@ interface Patient {
 }
 
 const PipetteValidation: React.FC = () => {
-  const { user } = useAuth();
+  const { profile } = useAuth();
   const [selectedPipette, setSelectedPipette] = useState('1000ul');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
@@ -132,7 +132,7 @@ const PipetteValidation: React.FC = () => {
           file_type: file.type,
           file_size: file.size,
           description: `Pipette validation image for ${selectedPipette}`,
-          uploaded_by: user?.id || null,
+          uploaded_by: profile?.id || null,
           upload_timestamp: new Date().toISOString()
         }])
         .select()
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { FlaskConical, Play, Plus, Trash2, Loader2, ArrowUpCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { AIPromptVersion, AIProcessingType } from '../../utils/aiPromptResolver';
+import {
+  AIPromptBenchRun, AIPromptTestCase, BenchCaseOutcome, BENCH_PROCESSING_TYPES,
+  createPromptTestCaseFromOrder, deletePromptTestCase, getBenchRuns, getPromptTestCases,
+  runPromptBench, saveBenchRun, summarizeBench
+} from '../../utils/aiPromptBench';
+
+interface PromptBenchProps {
+  promptId: string;
+  processingType: AIProcessingType;
+  versions: AIPromptVersion[];
+  activeVersion: number | null;
+  onPromote: (versionId: string) => Promise<void>;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const accuracy = (correct: number, total: number) => (total > 0 ? `${Math.round((correct / total) * 100)}%` : '-');
+
+// Candidate versions are scored against the active version on the lab's test cases before promotion
+const PromptBench: React.FC<PromptBenchProps> = ({ promptId, processingType, versions, activeVersion, onPromote }) => {
+  const [cases, setCases] = useState<AIPromptTestCase[]>([]);
+  const [runs, setRuns] = useState<AIPromptBenchRun[]>([]);
+  const [candidateId, setCandidateId] = useState('');
+  const [newCase, setNewCase] = useState({ sampleId: '', name: '' });
+  const [outcomes, setOutcomes] = useState<BenchCaseOutcome[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const benchable = BENCH_PROCESSING_TYPES.includes(processingType);
+  const active = versions.find(v => v.version === activeVersion) || null;
+  const candidates = versions.filter(v => v.version !== activeVersion);
+  const candidate = versions.find(v => v.id === candidateId) || null;
+
+  useEffect(() => {
+    if (!benchable) return;
+    getPromptTestCases(processingType).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setCases(data || []);
+    });
+  }, [processingType, benchable]);
+
+  useEffect(() => {
+    setOutcomes(null);
+    setCandidateId('');
+    getBenchRuns(promptId).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setRuns(data || []);
+    });
+  }, [promptId]);
+
+  const handleAddCase = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const { data, error } = await createPromptTestCaseFromOrder(newCase.sampleId, processingType, newCase.name);
+    setBusy(false);
+    if (error || !data) {
+      setError(error?.message || 'Test case could not be created');
+      return;
+    }
+    setCases(prev => [...prev, data]);
+    setNewCase({ sampleId: '', name: '' });
+  };
+
+  const handleDeleteCase = async (id: string) => {
+    const { error } = await deletePromptTestCase(id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setCases(prev => prev.filter(c => c.id !== id));
+  };
+
+  const handleRun = async () => {
+    if (!candidate || !active) return;
+    setBusy(true);
+    setError(null);
+    setOutcomes(null);
+    setProgress({ done: 0, total: cases.length });
+    try {
+      const result = await runPromptBench(
+        processingType,
+        { baseline: active.prompt, candidate: candidate.prompt },
+        cases,
+        (done, total) => setProgress({ done, total })
+      );
+      setOutcomes(result);
+      const { data, error } = await saveBenchRun({
+        promptId,
+        candidateVersionId: candidate.id,
+        baselineVersionId: active.id,
+        outcomes: result
+      });
+      if (error) setError(`Bench run could not be saved: ${error.message}`);
+      if (data) setRuns(prev => [data, ...prev]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusy(false);
+      setProgress(null);
+    }
+  };
+
+  // The only way a newer version goes live; prompts the bench cannot score are promoted unscored after confirmation
+  const handlePromote = async () => {
+    if (!candidate) return;
+    if (benchable) {
+      if (!outcomes) return;
+      const summary = summarizeBench(outcomes);
+      if (summary.candidate_correct < summary.baseline_correct &&
+          !confirm(`Version ${candidate.version} scored lower than the active version. Promote it anyway?`)) return;
+    } else if (!confirm(`Version ${candidate.version} cannot be benched. Promote it without a bench run?`)) {
+      return;
+    }
+    setBusy(true);
+    await onPromote(candidate.id);
+    setBusy(false);
+    setOutcomes(null);
+    setCandidateId('');
+  };
+
+  const candidateSelect = (
+    <div className="flex-1">
+      <label className="block text-xs font-medium text-gray-700 mb-1">Candidate (against active v{activeVersion ?? '?'})</label>
+      <select className={inputClass} value={candidateId} onChange={(e) => { setCandidateId(e.target.value); setOutcomes(null); }}>
+        <option value="">Select version…</option>
+        {candidates.map(v => (
+          <option key={v.id} value={v.id}>v{v.version}{v.change_note ? ` - ${v.change_note}` : ''}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  if (!benchable) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-gray-500">The test bench scores extraction prompts; {processingType.replace(/_/g, ' ')} prompts cannot be benched.</p>
+        <div className="flex items-end space-x-2">
+          {candidateSelect}
+          <button
+            onClick={handlePromote}
+            disabled={busy || !candidate}
+            className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+          >
+            <ArrowUpCircle className="h-4 w-4 mr-1" /> Promote{candidate ? ` v${candidate.version}` : ''}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const summary = outcomes ? summarizeBench(outcomes) : null;
+  const versionNumber = (id: string | null) => versions.find(v => v.id === id)?.version ?? '?';
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <FlaskConical className="h-5 w-5 mr-2 text-purple-600" />
+        Test Bench
+      </h3>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="space-y-2">
+        <div className="text-sm font-medium text-gray-700">Test cases ({cases.length})</div>
+        {cases.length === 0 && <p className="text-sm text-gray-500">Add orders with an attached report and an approved result.</p>}
+        {cases.map(testCase => (
+          <div key={testCase.id} className="flex items-center justify-between text-sm border border-gray-200 rounded-md px-3 py-2">
+            <span>
+              {testCase.name}
+              <span className="ml-2 text-xs text-gray-500">{testCase.expected_values.length} known values</span>
+            </span>
+            <button onClick={() => handleDeleteCase(testCase.id)} className="text-red-600 hover:text-red-800" title="Remove">
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+        ))}
+        <form onSubmit={handleAddCase} className="flex items-end space-x-2">
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Sample ID</label>
+            <input className={inputClass} value={newCase.sampleId} onChange={(e) => setNewCase(prev => ({ ...prev, sampleId: e.target.value }))} />
+          </div>
+          <div className="flex-1">
+            <label className="block text-xs font-medium text-gray-700 mb-1">Name</label>
+            <input className={inputClass} value={newCase.name} placeholder="Optional" onChange={(e) => setNewCase(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !newCase.sampleId.trim()}
+            className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Plus className="h-4 w-4 mr-1" /> Add
+          </button>
+        </form>
+      </div>
+
+      <div className="flex items-end space-x-2">
+        {candidateSelect}
+        <button
+          onClick={handleRun}
+          disabled={busy || !candidate || !active || cases.length === 0}
+          className="flex items-center px-3 py-2 text-sm bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50"
+        >
+          {busy && progress ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Play className="h-4 w-4 mr-1" />}
+          {progress ? `Running ${progress.done}/${progress.total}` : 'Run bench'}
+        </button>
+      </div>
+
+      {summary && candidate && (
+        <div className="border border-gray-200 rounded-md p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="text-sm">
+              <span className="mr-4">Active v{activeVersion}: <strong>{accuracy(summary.baseline_correct, summary.field_count)}</strong></span>
+              <span>Candidate v{candidate.version}: <strong>{accuracy(summary.candidate_correct, summary.field_count)}</strong></span>
+              <span className="ml-4 text-gray-500">{summary.field_count} fields in {summary.case_count} cases</span>
+            </div>
+            <button
+              onClick={handlePromote}
+              disabled={busy}
+              className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+            >
+              <ArrowUpCircle className="h-4 w-4 mr-1" /> Promote v{candidate.version}
+            </button>
+          </div>
+          <table className="min-w-full text-xs">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-2 py-1">Case</th>
+                <th className="px-2 py-1">Field</th>
+                <th className="px-2 py-1">Expected</th>
+                <th className="px-2 py-1">Active</th>
+                <th className="px-2 py-1">Candidate</th>
+              </tr>
+            </thead>
+            <tbody>
+              {outcomes?.flatMap(outcome => [
+                ...(outcome.baseline_error || outcome.candidate_error ? [
+                  <tr key={`${outcome.case_id}-error`} className="border-b text-red-700">
+                    <td className="px-2 py-1">{outcome.name}</td>
+                    <td colSpan={4} className="px-2 py-1">{outcome.baseline_error && `Active: ${outcome.baseline_error} `}{outcome.candidate_error && `Candidate: ${outcome.candidate_error}`}</td>
+                  </tr>
+                ] : []),
+                // Only fields where the versions differ or either is wrong
+                ...outcome.fields.filter(f => !(f.baseline_correct && f.candidate_correct)).map(field => (
+                  <tr key={`${outcome.case_id}-${field.parameter}`} className="border-b">
+                    <td className="px-2 py-1">{outcome.name}</td>
+                    <td className="px-2 py-1">{field.parameter}</td>
+                    <td className="px-2 py-1">{field.expected} {field.unit}</td>
+                    <td className={`px-2 py-1 ${field.baseline_correct ? 'text-green-700' : 'text-red-700'}`}>{field.baseline ?? 'missing'}</td>
+                    <td className={`px-2 py-1 ${field.candidate_correct ? 'text-green-700' : 'text-red-700'}`}>{field.candidate ?? 'missing'}</td>
+                  </tr>
+                ))
+              ])}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {runs.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-sm font-medium text-gray-700">Previous runs</div>
+          {runs.slice(0, 10).map(run => (
+            <div key={run.id} className="text-xs text-gray-600">
+              {format(new Date(run.created_at), 'dd MMM yyyy HH:mm')}: v{versionNumber(run.candidate_version_id)} {accuracy(run.candidate_correct, run.field_count)}
+              {' '}vs v{versionNumber(run.baseline_version_id)} {accuracy(run.baseline_correct, run.field_count)}
+              {' '}({run.field_count} fields, {run.case_count} cases)
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptBench;
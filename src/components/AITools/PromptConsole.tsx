@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { MessageSquareCode, History, Save, RotateCcw, Plus, Loader2, ChevronDown, ChevronRight } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '../../utils/supabase';
+import {
+  AIPromptListItem, AIPromptVersion, AIProcessingType, activateAIPromptVersion, createAIPromptVersion,
+  getAIPromptVersions, getAIPrompts, upsertAIPrompt
+} from '../../utils/aiPromptResolver';
+import PromptBench from './PromptBench';
+
+const PROCESSING_TYPES: Array<{ value: AIProcessingType; label: string }> = [
+  { value: 'ocr', label: 'OCR' },
+  { value: 'document_analysis', label: 'Document analysis' },
+  { value: 'color_card', label: 'Color card' },
+  { value: 'test_suggestion', label: 'Test suggestion' },
+  { value: 'analyte_suggestion', label: 'Analyte suggestion' },
+];
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const typeLabel = (type: string) => PROCESSING_TYPES.find(t => t.value === type)?.label || type;
+
+const scopeOf = (prompt: AIPromptListItem) => {
+  const parts = [prompt.test_groups?.name, prompt.analytes?.name, prompt.labs?.name || (prompt.lab_id ? 'Lab' : null)].filter(Boolean);
+  return parts.length ? parts.join(' · ') : prompt.default ? 'System default' : 'All labs';
+};
+
+// Prompts in ai_prompts with their version history; edits are saved as new versions
+const PromptConsole: React.FC = () => {
+  const [prompts, setPrompts] = useState<AIPromptListItem[]>([]);
+  const [typeFilter, setTypeFilter] = useState<'' | AIProcessingType>('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [versions, setVersions] = useState<AIPromptVersion[]>([]);
+  const [draft, setDraft] = useState('');
+  const [changeNote, setChangeNote] = useState('');
+  const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
+  const [creating, setCreating] = useState(false);
+  const [newPrompt, setNewPrompt] = useState<{ type: AIProcessingType; labOnly: boolean; text: string }>({ type: 'ocr', labOnly: true, text: '' });
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const selected = prompts.find(p => p.id === selectedId) || null;
+
+  const loadPrompts = useCallback(async () => {
+    const labId = await database.getCurrentUserLabId();
+    const { data, error } = await getAIPrompts(typeFilter || undefined, labId || undefined);
+    if (error) setError(error.message);
+    setPrompts(data || []);
+    setLoading(false);
+  }, [typeFilter]);
+
+  useEffect(() => {
+    loadPrompts();
+  }, [loadPrompts]);
+
+  useEffect(() => {
+    if (!selectedId) return;
+    getAIPromptVersions(selectedId).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setVersions(data || []);
+    });
+  }, [selectedId]);
+
+  useEffect(() => {
+    setDraft(selected?.prompt || '');
+    setChangeNote('');
+  }, [selected?.id, selected?.prompt]);
+
+  const refreshSelected = async () => {
+    await loadPrompts();
+    if (!selectedId) return;
+    const { data } = await getAIPromptVersions(selectedId);
+    setVersions(data || []);
+  };
+
+  const handleSaveVersion = async () => {
+    if (!selected || !draft.trim()) return;
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    const { data: version, error } = await createAIPromptVersion(selected.id, draft, changeNote);
+    if (error || !version) {
+      setError(error?.message || 'Version could not be saved');
+      setBusy(false);
+      return;
+    }
+    await refreshSelected();
+    setBusy(false);
+    setNotice(`Version ${version.version} saved as a candidate; promote it from the test bench`);
+  };
+
+  const handleActivate = async (versionId: string) => {
+    if (!selected) return;
+    const version = versions.find(v => v.id === versionId);
+    setError(null);
+    setNotice(null);
+    const { error } = await activateAIPromptVersion(selected.id, versionId);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    await refreshSelected();
+    setNotice(`Version ${version?.version} is now active`);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    const labId = newPrompt.labOnly ? await database.getCurrentUserLabId() : null;
+    const { data, error } = await upsertAIPrompt(newPrompt.type, newPrompt.text, {
+      labId: labId || undefined,
+      changeNote: 'Initial version'
+    });
+    setBusy(false);
+    if (error || !data) {
+      setError(error?.message || 'Prompt could not be saved');
+      return;
+    }
+    setCreating(false);
+    setNewPrompt(prev => ({ ...prev, text: '' }));
+    await loadPrompts();
+    setSelectedId(data.id);
+  };
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+          <MessageSquareCode className="h-6 w-6 mr-2 text-blue-600" />
+          AI Prompts
+        </h2>
+        <div className="flex items-center space-x-2">
+          <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as typeof typeFilter)} className="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+            <option value="">All types</option>
+            {PROCESSING_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+          </select>
+          <button onClick={() => setCreating(!creating)} className="flex items-center px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-1" /> New prompt
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+      {notice && <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">{notice}</div>}
+
+      {creating && (
+        <form onSubmit={handleCreate} className="border border-gray-200 rounded-lg p-4 space-y-3">
+          <div className="flex items-center space-x-4">
+            <select className="px-3 py-2 border border-gray-300 rounded-md text-sm" value={newPrompt.type} onChange={(e) => setNewPrompt(prev => ({ ...prev, type: e.target.value as AIProcessingType }))}>
+              {PROCESSING_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+            </select>
+            <label className="flex items-center text-sm text-gray-700">
+              <input type="checkbox" className="mr-1" checked={newPrompt.labOnly} onChange={(e) => setNewPrompt(prev => ({ ...prev, labOnly: e.target.checked }))} />
+              This lab only
+            </label>
+          </div>
+          <textarea className={`${inputClass} font-mono`} rows={8} value={newPrompt.text} onChange={(e) => setNewPrompt(prev => ({ ...prev, text: e.target.value }))} />
+          <button type="submit" disabled={busy || !newPrompt.text.trim()} className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+            Create
+          </button>
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          {loading ? (
+            <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+          ) : prompts.length === 0 ? (
+            <p className="text-sm text-gray-500">No prompts configured; the AI functions use their built-in prompts.</p>
+          ) : prompts.map(prompt => (
+            <button
+              key={prompt.id}
+              onClick={() => setSelectedId(prompt.id)}
+              className={`w-full text-left border rounded-md px-3 py-2 text-sm ${prompt.id === selectedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'}`}
+            >
+              <div className="font-medium text-gray-900">{typeLabel(prompt.ai_processing_type)}</div>
+              <div className="text-xs text-gray-500">{scopeOf(prompt)} · v{prompt.active_version ?? 1}</div>
+            </button>
+          ))}
+        </div>
+
+        {selected && (
+          <div className="lg:col-span-2 space-y-6">
+            <div className="space-y-2">
+              <textarea className={`${inputClass} font-mono`} rows={12} value={draft} onChange={(e) => setDraft(e.target.value)} />
+              <input className={inputClass} placeholder="What changed (optional)" value={changeNote} onChange={(e) => setChangeNote(e.target.value)} />
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={handleSaveVersion}
+                  disabled={busy || !draft.trim() || draft === selected.prompt}
+                  className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  <Save className="h-4 w-4 mr-1" /> Save as candidate
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <History className="h-5 w-5 mr-2 text-gray-600" />
+                Versions
+              </h3>
+              {versions.map(version => {
+                const isActive = version.version === selected.active_version;
+                return (
+                  <div key={version.id} className="border border-gray-200 rounded-md">
+                    <div className="flex items-center justify-between px-3 py-2 text-sm">
+                      <button onClick={() => setExpandedVersion(expandedVersion === version.id ? null : version.id)} className="flex items-center text-left">
+                        {expandedVersion === version.id ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                        <span className="font-medium">v{version.version}</span>
+                        {isActive && <span className="ml-2 px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">active</span>}
+                        <span className="ml-2 text-gray-500">{version.change_note || ''}</span>
+                      </button>
+                      <div className="flex items-center space-x-3">
+                        <span className="text-xs text-gray-500">{format(new Date(version.created_at), 'dd MMM yyyy HH:mm')}</span>
+                        {/* Newer candidates go live only through the test bench */}
+                        {version.version < (selected.active_version ?? 0) && (
+                          <button onClick={() => handleActivate(version.id)} className="flex items-center text-xs text-blue-600 hover:text-blue-800">
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Roll back
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                    {expandedVersion === version.id && (
+                      <pre className="bg-gray-50 border-t border-gray-200 text-xs p-3 whitespace-pre-wrap">{version.prompt}</pre>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <PromptBench
+              promptId={selected.id}
+              processingType={selected.ai_processing_type}
+              versions={versions}
+              activeVersion={selected.active_version}
+              onPromote={handleActivate}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromptConsole;
@@ -1,16 +1,20 @@
 import React from 'react';
 import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldAlert, UserX } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { PermissionId } from '../../utils/permissions';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
+  // Required permission; with a list, any one of them grants access
+  permission?: PermissionId | PermissionId[];
 }
 
-const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children, permission }) => {
+  const { user, loading, profile, profileLoading, hasPermission, signOut } = useAuth();
   const location = useLocation();
 
-  if (loading) {
+  if (loading || (user && profileLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-600 border-t-transparent"></div>
@@ -23,7 +27,46 @@ const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
+  // Signed in, but no active LIMS user behind the account
+  if (!profile || profile.status !== 'Active') {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 p-4">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-8 max-w-md text-center">
+          <UserX className="h-12 w-12 text-orange-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            {profile?.status === 'Suspended' ? 'Account suspended' : 'Account awaiting activation'}
+          </h2>
+          <p className="text-sm text-gray-600 mb-6">
+            {profile?.status === 'Suspended'
+              ? 'Your account has been suspended. Contact your lab administrator.'
+              : 'An administrator needs to activate your account and assign your role before you can use the LIMS.'}
+          </p>
+          <button
+            onClick={() => signOut()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Sign out
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (permission && !hasPermission(permission)) {
+    return (
+      <div className="flex items-center justify-center py-24">
+        <div className="text-center max-w-md">
+          <ShieldAlert className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Access denied</h2>
+          <p className="text-sm text-gray-600">
+            Your role ({profile.role}) does not allow this page. Ask an administrator if you need access.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
 
-export default ProtectedRoute;
\ No newline at end of file
+export default ProtectedRoute;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { X, PenLine, Loader2 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { database } from '../../utils/supabase';
+import { SignatureRequest, SIGNATURE_MEANINGS } from '../../utils/electronicSignature';
+
+interface SignatureDialogProps extends SignatureRequest {
+  onClose: () => void;
+}
+
+const SignatureDialog: React.FC<SignatureDialogProps> = ({
+  meaning,
+  recordType,
+  recordIds,
+  subject,
+  defaultReason = '',
+  onSigned,
+  onClose
+}) => {
+  const { profile } = useAuth();
+  const [credential, setCredential] = useState('');
+  const [reason, setReason] = useState(defaultReason);
+  const [signing, setSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const reasonRequired = meaning === 'amendment';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!credential) {
+      setError('Enter your password or signing PIN');
+      return;
+    }
+    if (reasonRequired && !reason.trim()) {
+      setError('Enter the reason for the amendment');
+      return;
+    }
+
+    setSigning(true);
+    const { data, error } = await database.signatures.sign(recordType, recordIds, meaning, credential, reason.trim());
+    if (error) {
+      setSigning(false);
+      setError(error.message);
+      setCredential('');
+      return;
+    }
+    await onSigned(data || []);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <PenLine className="h-6 w-6 mr-2 text-blue-600" />
+              Electronic Signature
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">{subject}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-sm text-blue-900">
+            <div className="font-medium mb-1">
+              {SIGNATURE_MEANINGS[meaning].label} by {profile?.name || 'you'}{profile?.role ? ` (${profile.role})` : ''}
+            </div>
+            {SIGNATURE_MEANINGS[meaning].statement}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Reason{reasonRequired ? ' *' : ''}
+            </label>
+            <textarea
+              rows={2}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder={reasonRequired ? 'Why are these results being amended?' : 'Optional'}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Password or Signing PIN *</label>
+            <input
+              type="password"
+              autoComplete="current-password"
+              autoFocus
+              value={credential}
+              onChange={(e) => setCredential(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={signing}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+            >
+              {signing && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Sign
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default SignatureDialog;
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { X, KeyRound, Loader2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+
+interface SignaturePinModalProps {
+  onClose: () => void;
+}
+
+// Lets a user sign with a short PIN instead of their password
+const SignaturePinModal: React.FC<SignaturePinModalProps> = ({ onClose }) => {
+  const [hasPin, setHasPin] = useState(false);
+  const [form, setForm] = useState({ password: '', pin: '', confirmPin: '' });
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    database.signatures.hasPin().then(({ data }) => setHasPin(!!data));
+  }, []);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setForm(prev => ({ ...prev, [e.target.name]: e.target.value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!/^[0-9]{4,8}$/.test(form.pin)) {
+      setError('The PIN must be 4 to 8 digits');
+      return;
+    }
+    if (form.pin !== form.confirmPin) {
+      setError('The PINs do not match');
+      return;
+    }
+
+    setSaving(true);
+    const { error } = await database.signatures.setPin(form.password, form.pin);
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setSaved(true);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-md">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <KeyRound className="h-6 w-6 mr-2 text-blue-600" />
+            Signing PIN
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        {saved ? (
+          <div className="p-6 space-y-4">
+            <p className="text-sm text-gray-700">
+              Your signing PIN is set. You can enter it instead of your password when signing results and reports.
+            </p>
+            <div className="flex justify-end">
+              <button onClick={onClose} className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700">
+                Done
+              </button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              {hasPin
+                ? 'You already have a signing PIN. Setting a new one replaces it.'
+                : 'Set a PIN to sign approvals, releases and amendments without typing your password.'}
+            </p>
+
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Current Password *</label>
+              <input
+                type="password"
+                name="password"
+                autoComplete="current-password"
+                value={form.password}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">New PIN *</label>
+                <input
+                  type="password"
+                  name="pin"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={form.pin}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Confirm PIN *</label>
+                <input
+                  type="password"
+                  name="confirmPin"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  value={form.confirmPin}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end space-x-3">
+              <button
+                type="button"
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                Save PIN
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SignaturePinModal;
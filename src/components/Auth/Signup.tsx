@@ -63,7 +63,7 @@ const Signup: React.FC = () => {
     } else {
       navigate('/login', { 
         state: { 
-          message: 'Account created successfully! Please check your email to verify your account.' 
+          message: 'Account created successfully! Please check your email to verify your account. An administrator will confirm your role and activate your access.' 
         }
       });
     }
@@ -156,7 +156,7 @@ const Signup: React.FC = () => {
             <div className="grid grid-cols-2 gap-4">
               <div>
                 <label htmlFor="role" className="block text-sm font-medium text-gray-700 mb-2">
-                  Role
+                  Requested Role
                 </label>
                 <select
                   id="role"
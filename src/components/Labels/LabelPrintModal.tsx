@@ -0,0 +1,184 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, Printer, Download, Copy, Loader2, ExternalLink } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import { OrderSample } from '../../utils/sampleContainers';
+import {
+  buildOrderLabels, DEFAULT_LABEL_TEMPLATES, LabelFormat, LabelOrder, LabelPatient, LabelTemplate
+} from '../../labels/labelTemplate';
+import { renderLabels, RenderedLabels } from '../../labels/renderLabels';
+import { pdfToBlob } from '../../labels/labelSheetPdf';
+
+interface LabelPrintModalProps {
+  order: LabelOrder & { patient_id: string };
+  onClose: () => void;
+}
+
+const BUILT_IN_PREFIX = 'builtin:';
+
+const downloadContent = (rendered: RenderedLabels, filename: string) => {
+  const blob = rendered.format === 'pdf'
+    ? pdfToBlob(rendered.content)
+    : new Blob([rendered.content], { type: rendered.mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.${rendered.extension}`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const LabelPrintModal: React.FC<LabelPrintModalProps> = ({ order, onClose }) => {
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [selectedKey, setSelectedKey] = useState(`${BUILT_IN_PREFIX}pdf`);
+  const [samples, setSamples] = useState<OrderSample[]>([]);
+  const [patient, setPatient] = useState<LabelPatient | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    Promise.all([
+      database.labelTemplates.getAll(),
+      database.samples.getByOrderId(order.id),
+      database.patients.getById(order.patient_id)
+    ]).then(([templatesResult, samplesResult, patientResult]) => {
+      const saved = templatesResult.data || [];
+      setTemplates(saved);
+      const preferred = saved.find(t => t.is_default);
+      if (preferred?.id) setSelectedKey(preferred.id);
+      setSamples(samplesResult.data || []);
+      setPatient(patientResult.data ? { age: patientResult.data.age, gender: patientResult.data.gender } : null);
+      const loadError = templatesResult.error || samplesResult.error || patientResult.error;
+      if (loadError) setError(loadError.message);
+      setLoading(false);
+    });
+  }, [order.id, order.patient_id]);
+
+  const template: LabelTemplate = useMemo(() => {
+    if (selectedKey.startsWith(BUILT_IN_PREFIX)) {
+      return DEFAULT_LABEL_TEMPLATES[selectedKey.slice(BUILT_IN_PREFIX.length) as LabelFormat];
+    }
+    return templates.find(t => t.id === selectedKey) || DEFAULT_LABEL_TEMPLATES.pdf;
+  }, [selectedKey, templates]);
+
+  const labels = useMemo(() => buildOrderLabels(order, patient, samples), [order, patient, samples]);
+
+  const rendered = useMemo(() => {
+    try {
+      return { output: renderLabels(labels, template), renderError: null };
+    } catch (err) {
+      return { output: null, renderError: err instanceof Error ? err.message : 'Labels could not be rendered' };
+    }
+  }, [labels, template]);
+
+  const filename = `labels-${order.sample_id || order.id.slice(0, 8)}`;
+
+  const handleOpenPdf = () => {
+    if (!rendered.output) return;
+    const url = URL.createObjectURL(pdfToBlob(rendered.output.content));
+    window.open(url, '_blank');
+  };
+
+  const handleCopy = async () => {
+    if (!rendered.output) return;
+    await navigator.clipboard.writeText(rendered.output.content);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Printer className="h-5 w-5 mr-2 text-blue-600" />
+            Tube Labels
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+          ) : (
+            <>
+              <div className="flex items-center space-x-3">
+                <label className="text-sm font-medium text-gray-700">Template</label>
+                <select
+                  value={selectedKey}
+                  onChange={(e) => setSelectedKey(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  {templates.map(t => (
+                    <option key={t.id} value={t.id}>{t.name} ({t.format.toUpperCase()}){t.is_default ? ' - default' : ''}</option>
+                  ))}
+                  {(Object.keys(DEFAULT_LABEL_TEMPLATES) as LabelFormat[]).map(format => (
+                    <option key={format} value={`${BUILT_IN_PREFIX}${format}`}>
+                      {DEFAULT_LABEL_TEMPLATES[format].name} ({format.toUpperCase()}, built-in)
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="text-sm text-gray-600">
+                {labels.length} label{labels.length === 1 ? '' : 's'} · {template.width_mm} x {template.height_mm} mm
+                {template.copies > 1 && ` · ${template.copies} copies each`}
+              </div>
+
+              <ul className="text-xs text-gray-600 space-y-1">
+                {labels.map(label => (
+                  <li key={label.barcode} className="flex items-center">
+                    <span className="w-3 h-3 rounded-full mr-2 border border-gray-300" style={{ backgroundColor: label.tube_color.hex }} />
+                    <span className="font-mono mr-2">{label.barcode}</span>
+                    <span>{label.sample_type}{label.container_type && ` - ${label.container_type}`}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {(error || rendered.renderError) && (
+                <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{rendered.renderError || error}</div>
+              )}
+
+              {rendered.output && rendered.output.format !== 'pdf' && (
+                <pre className="bg-gray-900 text-green-200 text-xs rounded p-3 max-h-64 overflow-auto whitespace-pre">
+                  {rendered.output.content}
+                </pre>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-4 border-t">
+          {rendered.output?.format === 'pdf' ? (
+            <button
+              onClick={handleOpenPdf}
+              disabled={loading}
+              className="flex items-center px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ExternalLink className="h-4 w-4 mr-1" /> Open PDF
+            </button>
+          ) : (
+            <button
+              onClick={handleCopy}
+              disabled={loading || !rendered.output}
+              className="flex items-center px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Copy className="h-4 w-4 mr-1" /> {copied ? 'Copied' : 'Copy'}
+            </button>
+          )}
+          <button
+            onClick={() => rendered.output && downloadContent(rendered.output, filename)}
+            disabled={loading || !rendered.output}
+            className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" /> Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LabelPrintModal;
@@ -0,0 +1,226 @@
+import React, { useEffect, useState } from 'react';
+import { Tag, Plus, Edit, Trash2, Loader2, Star } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import {
+  DEFAULT_LABEL_TEMPLATES, LABEL_FIELDS, LabelField, LabelFormat, LabelTemplate
+} from '../../labels/labelTemplate';
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const LabelTemplateManager: React.FC = () => {
+  const [templates, setTemplates] = useState<LabelTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<LabelTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setLoading(true);
+    database.labelTemplates.getAll().then(({ data, error }) => {
+      if (error) setError(error.message);
+      setTemplates(data || []);
+      setLoading(false);
+    });
+  }, [reloadKey]);
+
+  const startNew = (format: LabelFormat) => setEditing({ ...DEFAULT_LABEL_TEMPLATES[format], name: '', is_default: false });
+
+  const update = (changes: Partial<LabelTemplate>) => setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+  const updateSheet = (changes: Partial<LabelTemplate['sheet']>) =>
+    setEditing(prev => (prev ? { ...prev, sheet: { ...prev.sheet, ...changes } } : prev));
+
+  const toggleField = (field: LabelField) => {
+    if (!editing) return;
+    const fields = editing.fields.includes(field)
+      ? editing.fields.filter(f => f !== field)
+      : [...editing.fields, field];
+    update({ fields });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setSaving(true);
+    setError(null);
+    const { error } = await database.labelTemplates.save(editing);
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setEditing(null);
+    setReloadKey(key => key + 1);
+  };
+
+  const handleDelete = async (template: LabelTemplate) => {
+    if (!template.id || !confirm(`Delete label template "${template.name}"?`)) return;
+    const { error } = await database.labelTemplates.delete(template.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Tag className="h-5 w-5 mr-2 text-blue-600" />
+          Label Templates
+        </h3>
+        <div className="flex space-x-2">
+          {(Object.keys(DEFAULT_LABEL_TEMPLATES) as LabelFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => startNew(format)}
+              className="flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              <Plus className="h-4 w-4 mr-1" /> {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+      ) : templates.length === 0 ? (
+        <p className="text-sm text-gray-500">No lab templates yet; the built-in ZPL, EPL and PDF templates are used.</p>
+      ) : (
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="px-3 py-2">Name</th>
+              <th className="px-3 py-2">Format</th>
+              <th className="px-3 py-2">Size</th>
+              <th className="px-3 py-2">Fields</th>
+              <th className="px-3 py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {templates.map(template => (
+              <tr key={template.id} className="border-b last:border-0">
+                <td className="px-3 py-2 font-medium">
+                  {template.name}
+                  {template.is_default && <Star className="inline h-3 w-3 ml-1 text-yellow-500" />}
+                </td>
+                <td className="px-3 py-2">{template.format.toUpperCase()}{template.format !== 'pdf' && ` · ${template.dpi} dpi`}</td>
+                <td className="px-3 py-2">{template.width_mm} x {template.height_mm} mm</td>
+                <td className="px-3 py-2 text-xs text-gray-600">{template.fields.map(f => LABEL_FIELDS[f]).join(', ')}</td>
+                <td className="px-3 py-2 text-right space-x-2">
+                  <button onClick={() => setEditing(template)} className="text-blue-600 hover:text-blue-800"><Edit className="h-4 w-4" /></button>
+                  <button onClick={() => handleDelete(template)} className="text-red-600 hover:text-red-800"><Trash2 className="h-4 w-4" /></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {editing && (
+        <form onSubmit={handleSave} className="border-t pt-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs font-medium text-gray-700 mb-1">Name *</label>
+              <input className={inputClass} value={editing.name} onChange={(e) => update({ name: e.target.value })} required />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+              <select className={inputClass} value={editing.format} onChange={(e) => update({ format: e.target.value as LabelFormat })}>
+                <option value="zpl">ZPL (Zebra)</option>
+                <option value="epl">EPL</option>
+                <option value="pdf">PDF sheet</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Copies per label</label>
+              <input type="number" min={1} className={inputClass} value={editing.copies} onChange={(e) => update({ copies: Number(e.target.value) || 1 })} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Width (mm)</label>
+              <input type="number" step="0.1" min={10} className={inputClass} value={editing.width_mm} onChange={(e) => update({ width_mm: Number(e.target.value) })} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Height (mm)</label>
+              <input type="number" step="0.1" min={10} className={inputClass} value={editing.height_mm} onChange={(e) => update({ height_mm: Number(e.target.value) })} />
+            </div>
+            {editing.format !== 'pdf' && (
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Printer resolution</label>
+                <select className={inputClass} value={editing.dpi} onChange={(e) => update({ dpi: Number(e.target.value) as 203 | 300 })}>
+                  <option value={203}>203 dpi</option>
+                  <option value={300}>300 dpi</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          {editing.format === 'pdf' && (
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Page</label>
+                <select className={inputClass} value={editing.sheet.page} onChange={(e) => updateSheet({ page: e.target.value as 'A4' | 'Letter' })}>
+                  <option value="A4">A4</option>
+                  <option value="Letter">Letter</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Columns</label>
+                <input type="number" min={1} className={inputClass} value={editing.sheet.columns} onChange={(e) => updateSheet({ columns: Number(e.target.value) || 1 })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Rows</label>
+                <input type="number" min={1} className={inputClass} value={editing.sheet.rows} onChange={(e) => updateSheet({ rows: Number(e.target.value) || 1 })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Margin (mm)</label>
+                <input type="number" step="0.1" min={0} className={inputClass} value={editing.sheet.margin_mm} onChange={(e) => updateSheet({ margin_mm: Number(e.target.value) })} />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-700 mb-1">Gap (mm)</label>
+                <input type="number" step="0.1" min={0} className={inputClass} value={editing.sheet.gap_mm} onChange={(e) => updateSheet({ gap_mm: Number(e.target.value) })} />
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs font-medium text-gray-700 mb-1">Printed fields</div>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(LABEL_FIELDS) as LabelField[]).map(field => (
+                <label key={field} className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" className="mr-1" checked={editing.fields.includes(field)} onChange={() => toggleField(field)} />
+                  {LABEL_FIELDS[field]}
+                </label>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-1">The Code 128 barcode is always printed.</p>
+          </div>
+
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" className="mr-2" checked={!!editing.is_default} onChange={(e) => update({ is_default: e.target.checked })} />
+            Default template for this lab
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !editing.name.trim()}
+              className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              Save Template
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default LabelTemplateManager;
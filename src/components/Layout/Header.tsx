@@ -1,13 +1,16 @@
-import React from 'react';
-import { Menu, Bell, Search, User, LogOut } from 'lucide-react';
+import React, { useState } from 'react';
+import { Menu, Bell, Search, User, LogOut, KeyRound } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import LabSwitcher from './LabSwitcher';
+import SignaturePinModal from '../Auth/SignaturePinModal';
 
 interface HeaderProps {
   onMenuClick: () => void;
 }
 
 const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
-  const { user, signOut } = useAuth();
+  const { user, profile, signOut } = useAuth();
+  const [showPinModal, setShowPinModal] = useState(false);
 
   const handleSignOut = async () => {
     await signOut();
@@ -37,6 +40,8 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
         </div>
         
         <div className="flex items-center space-x-4">
+          <LabSwitcher />
+
           <button className="p-2 text-gray-400 hover:text-gray-500 relative">
             <Bell className="h-6 w-6" />
             <span className="absolute top-0 right-0 h-2 w-2 bg-red-500 rounded-full"></span>
@@ -48,7 +53,7 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
                 {user?.user_metadata?.full_name || user?.email}
               </div>
               <div className="text-xs text-gray-500">
-                {user?.user_metadata?.role || 'User'}
+                {profile?.role || 'User'}
               </div>
             </div>
             <div className="h-8 w-8 bg-blue-500 rounded-full flex items-center justify-center">
@@ -66,6 +71,13 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
                   </div>
                   <div className="text-xs text-gray-500">{user?.email}</div>
                 </div>
+                <button
+                  onClick={() => setShowPinModal(true)}
+                  className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
+                >
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Signing PIN
+                </button>
                 <button
                   onClick={handleSignOut}
                   className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-100 flex items-center"
@@ -78,6 +90,8 @@ const Header: React.FC<HeaderProps> = ({ onMenuClick }) => {
           </div>
         </div>
       </div>
+
+      {showPinModal && <SignaturePinModal onClose={() => setShowPinModal(false)} />}
     </header>
   );
 };
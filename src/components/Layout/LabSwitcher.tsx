@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Building2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { LabSummary } from '../../utils/permissions';
+
+// Shown only to users who belong to more than one lab
+const LabSwitcher: React.FC = () => {
+  const { profile } = useAuth();
+  const [labs, setLabs] = useState<LabSummary[]>([]);
+  const [switching, setSwitching] = useState(false);
+
+  useEffect(() => {
+    if (!profile) return;
+    database.labs.getMine().then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading labs:', error);
+        return;
+      }
+      setLabs(data || []);
+    });
+  }, [profile]);
+
+  if (labs.length < 2) return null;
+
+  const handleSwitch = async (labId: string) => {
+    if (labId === profile?.lab_id) return;
+    setSwitching(true);
+    const { error } = await database.labs.switchTo(labId);
+    if (error) {
+      setSwitching(false);
+      alert(`Could not switch lab: ${error.message}`);
+      return;
+    }
+    // Every page holds data of the previous lab; start over in the new one
+    window.location.assign('/');
+  };
+
+  return (
+    <div className="flex items-center space-x-2">
+      <Building2 className="h-5 w-5 text-gray-400" />
+      <select
+        value={profile?.lab_id || ''}
+        onChange={(e) => handleSwitch(e.target.value)}
+        disabled={switching}
+        className="px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        title="Switch lab"
+      >
+        {!profile?.lab_id && <option value="">Select lab…</option>}
+        {labs.map(lab => (
+          <option key={lab.id} value={lab.id}>
+            {lab.name}{lab.code ? ` (${lab.code})` : ''}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default LabSwitcher;
@@ -12,8 +12,15 @@ import {
   Settings,
   X,
   Activity,
-  CheckCircle2
+  CheckCircle2,
+  ShieldCheck,
+  Cpu,
+  Network,
+  ScanEye,
+  History
 } from 'lucide-react';
+import { useAuth } from '../../contexts/AuthContext';
+import { ROUTE_PERMISSIONS } from '../../utils/permissions';
 
 interface SidebarProps {
   isOpen: boolean;
@@ -31,6 +38,9 @@ const navigation = [
   // Patient & Sample Management
   { name: 'Patients', href: '/patients', icon: Users, category: 'management' },
   { name: 'Tests & Samples', href: '/tests', icon: TestTube, category: 'management' },
+  { name: 'Quality Control', href: '/quality-control', icon: ShieldCheck, category: 'management' },
+  { name: 'Instruments', href: '/instruments', icon: Cpu, category: 'management' },
+  { name: 'HL7 Interface', href: '/hl7', icon: Network, category: 'management' },
   
   // Business & Administrative
   { name: 'Billing', href: '/billing', icon: Receipt, category: 'business' },
@@ -38,11 +48,17 @@ const navigation = [
   
   // Advanced Tools
   { name: 'AI Tools', href: '/ai-tools', icon: Brain, category: 'tools' },
+  { name: 'AI Review', href: '/ai-review', icon: ScanEye, category: 'tools' },
+  { name: 'Audit Trail', href: '/audit-trail', icon: History, category: 'tools' },
   { name: 'Settings', href: '/settings', icon: Settings, category: 'tools' },
 ];
 
 const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
   const location = useLocation();
+  const { hasPermission } = useAuth();
+
+  // Pages the user's role cannot open are left out of the menu
+  const visibleNavigation = navigation.filter(item => !ROUTE_PERMISSIONS[item.href] || hasPermission(ROUTE_PERMISSIONS[item.href]));
 
   return (
     <>
@@ -76,7 +92,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
             <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
               🔬 Daily Operations
             </h3>
-            {navigation.filter(item => item.category === 'core').map((item) => {
+            {visibleNavigation.filter(item => item.category === 'core').map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
@@ -104,7 +120,7 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
             <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
               👥 Patient Management
             </h3>
-            {navigation.filter(item => item.category === 'management').map((item) => {
+            {visibleNavigation.filter(item => item.category === 'management').map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
@@ -128,39 +144,41 @@ const Sidebar: React.FC<SidebarProps> = ({ isOpen, onToggle }) => {
           </div>
 
           {/* Business & Reports */}
-          <div className="mb-6">
-            <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
-              💼 Business & Reports
-            </h3>
-            {navigation.filter(item => item.category === 'business').map((item) => {
-              const isActive = location.pathname === item.href;
-              return (
-                <Link
-                  key={item.name}
-                  to={item.href}
-                  className={`
-                    flex items-center px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 mb-1
-                    border-l-4 border-l-purple-500
-                    ${isActive
-                      ? 'bg-purple-50 text-purple-700 border-l-purple-700'
-                      : 'text-gray-600 hover:bg-purple-50 hover:text-purple-700 border-l-transparent hover:border-l-purple-300'
-                    }
-                  `}
-                  onClick={() => window.innerWidth < 1024 && onToggle()}
-                >
-                  <item.icon className={`h-5 w-5 mr-3 ${isActive ? 'text-purple-700' : 'text-gray-400'}`} />
-                  {item.name}
-                </Link>
-              );
-            })}
-          </div>
+          {visibleNavigation.some(item => item.category === 'business') && (
+            <div className="mb-6">
+              <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
+                💼 Business & Reports
+              </h3>
+              {visibleNavigation.filter(item => item.category === 'business').map((item) => {
+                const isActive = location.pathname === item.href;
+                return (
+                  <Link
+                    key={item.name}
+                    to={item.href}
+                    className={`
+                      flex items-center px-4 py-3 rounded-lg text-sm font-medium transition-colors duration-200 mb-1
+                      border-l-4 border-l-purple-500
+                      ${isActive
+                        ? 'bg-purple-50 text-purple-700 border-l-purple-700'
+                        : 'text-gray-600 hover:bg-purple-50 hover:text-purple-700 border-l-transparent hover:border-l-purple-300'
+                      }
+                    `}
+                    onClick={() => window.innerWidth < 1024 && onToggle()}
+                  >
+                    <item.icon className={`h-5 w-5 mr-3 ${isActive ? 'text-purple-700' : 'text-gray-400'}`} />
+                    {item.name}
+                  </Link>
+                );
+              })}
+            </div>
+          )}
 
           {/* Tools & Settings */}
           <div>
             <h3 className="px-4 text-xs font-semibold text-gray-500 uppercase tracking-wider mb-3">
               🛠️ Tools & Settings
             </h3>
-            {navigation.filter(item => item.category === 'tools').map((item) => {
+            {visibleNavigation.filter(item => item.category === 'tools').map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { GitMerge, Loader2, Check, X } from 'lucide-react';
+import { database } from '../../utils/supabase';
+
+export interface AnalyteMatchCandidate {
+  analyte_id: string;
+  name: string;
+  unit: string | null;
+  score: number;
+  method: 'exact' | 'synonym' | 'alias' | 'abbreviation' | 'fuzzy';
+}
+
+export interface ReviewableParameter {
+  parameter: string;
+  value: string;
+  unit: string;
+  analyte_id?: string | null;
+  matched?: boolean;
+  match_score?: number;
+  match_method?: string;
+  match_candidates?: AnalyteMatchCandidate[];
+}
+
+interface AnalyteMatchReviewProps {
+  parameters: ReviewableParameter[];
+  // Analytes on the order; a confirmed value goes into the entry row for one of them
+  analytes: Array<{ id: string; name: string; unit?: string | null }>;
+  onConfirm: (parameter: string, analyteId: string) => void;
+  onDismiss: (parameter: string) => void;
+}
+
+const METHOD_LABELS: Record<string, string> = {
+  alias: 'common alias',
+  abbreviation: 'abbreviation',
+  fuzzy: 'similar name',
+};
+
+const AnalyteMatchReview: React.FC<AnalyteMatchReviewProps> = ({ parameters, analytes, onConfirm, onDismiss }) => {
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [remember, setRemember] = useState(true);
+  const [savingParameter, setSavingParameter] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (parameters.length === 0) return null;
+
+  // The order's analytes, best-scoring candidates first
+  const optionsFor = (param: ReviewableParameter) => {
+    const scores = new Map((param.match_candidates || []).map(c => [c.analyte_id, c.score]));
+    return [...analytes].sort((a, b) => (scores.get(b.id) ?? -1) - (scores.get(a.id) ?? -1)).map(analyte => ({
+      ...analyte,
+      score: scores.get(analyte.id),
+    }));
+  };
+
+  const selectionFor = (param: ReviewableParameter) => {
+    if (selected[param.parameter] !== undefined) return selected[param.parameter];
+    if (param.analyte_id && analytes.some(a => a.id === param.analyte_id)) return param.analyte_id;
+    const best = (param.match_candidates || []).find(c => analytes.some(a => a.id === c.analyte_id));
+    return best?.analyte_id || '';
+  };
+
+  const handleConfirm = async (param: ReviewableParameter) => {
+    const analyteId = selectionFor(param);
+    if (!analyteId) return;
+    setError(null);
+
+    if (remember) {
+      setSavingParameter(param.parameter);
+      const { error } = await database.analyteSynonyms.save({
+        analyte_id: analyteId,
+        synonym: param.parameter,
+        source: 'ai_review',
+      });
+      setSavingParameter(null);
+      if (error) {
+        setError(`Could not save "${param.parameter}" as a synonym: ${error.message}`);
+        return;
+      }
+    }
+
+    onConfirm(param.parameter, analyteId);
+  };
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-amber-900 flex items-center">
+          <GitMerge className="h-4 w-4 mr-2" />
+          Confirm analyte matches ({parameters.length})
+        </h4>
+        <label className="flex items-center text-xs text-amber-800">
+          <input
+            type="checkbox"
+            className="mr-1"
+            checked={remember}
+            onChange={(e) => setRemember(e.target.checked)}
+          />
+          Save confirmed names as synonyms
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        {parameters.map(param => {
+          const selection = selectionFor(param);
+          return (
+            <div key={param.parameter} className="flex flex-wrap items-center gap-2 bg-white border border-amber-100 rounded-md p-2 text-sm">
+              <div className="flex-1 min-w-[10rem]">
+                <div className="font-medium text-gray-900">{param.parameter}</div>
+                <div className="text-xs text-gray-500">
+                  {param.value} {param.unit}
+                  {param.matched && param.match_method && METHOD_LABELS[param.match_method] && (
+                    <> &middot; matched by {METHOD_LABELS[param.match_method]} ({Math.round((param.match_score || 0) * 100)}%)</>
+                  )}
+                  {!param.matched && <> &middot; no confident match</>}
+                </div>
+              </div>
+              <select
+                value={selection}
+                onChange={(e) => setSelected(prev => ({ ...prev, [param.parameter]: e.target.value }))}
+                className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="">Select analyte…</option>
+                {optionsFor(param).map(option => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}{option.unit ? ` (${option.unit})` : ''}
+                    {option.score !== undefined ? ` — ${Math.round(option.score * 100)}%` : ''}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => handleConfirm(param)}
+                disabled={!selection || savingParameter !== null}
+                className="flex items-center px-2 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+              >
+                {savingParameter === param.parameter
+                  ? <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  : <Check className="h-3 w-3 mr-1" />}
+                Confirm
+              </button>
+              <button
+                type="button"
+                onClick={() => onDismiss(param.parameter)}
+                className="p-1 text-gray-400 hover:text-gray-600"
+                title="Ignore this parameter"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <div className="mt-2 text-xs text-red-700">{error}</div>}
+    </div>
+  );
+};
+
+export default AnalyteMatchReview;
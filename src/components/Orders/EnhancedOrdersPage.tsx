@@ -7,7 +7,7 @@ interface Order {
   patient_id: string;
   patient_name: string;
   visit_group_id?: string;
-  order_type?: 'initial' | 'additional' | 'follow_up' | 'urgent';
+  order_type?: 'initial' | 'additional' | 'follow_up' | 'urgent' | 'recollection';
   parent_order_id?: string;
   status: string;
   total_amount: number;
@@ -62,6 +62,7 @@ const PatientVisitCard: React.FC<PatientVisitCardProps> = ({
       case 'additional': return '➕';
       case 'follow_up': return '🔄';
       case 'urgent': return '🚨';
+      case 'recollection': return '🧪';
       default: return '📋';
     }
   };
@@ -1,12 +1,22 @@
 import React, { useState } from 'react';
 import {
   X, Upload, FileText, Brain, Zap, CheckCircle, AlertTriangle, Target, Layers,
-  TestTube2, QrCode, Calendar, Clock, ArrowRight, Printer
+  TestTube2, QrCode, Calendar, Clock, ArrowRight, Printer, ShieldAlert, ScanEye
 } from 'lucide-react';
 import QRCodeLib from 'qrcode';
+import { Link } from 'react-router-dom';
 import { supabase, uploadFile, generateFilePath, database } from '../../utils/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { calculateFlagsForResults } from '../../utils/flagCalculation';
+import { calculateFlagsForResults, StructuredRangeContext } from '../../utils/flagCalculation';
+import { groupReferenceRangesByAnalyte } from '../../utils/referenceRanges';
+import { toCanonicalUnit } from '../../utils/unitConversion';
+import {
+  AiConfidenceThreshold, AiExtractionInput, OcrWord,
+  extractionConfidence, locateExtractedValue, promptKey, resolveConfidenceThreshold
+} from '../../utils/aiConfidence';
+import OrderSamplesPanel from './OrderSamplesPanel';
+import AnalyteMatchReview, { AnalyteMatchCandidate } from './AnalyteMatchReview';
+import LabelPrintModal from '../Labels/LabelPrintModal';
 
 interface WorkflowStep {
   name: string;
@@ -141,6 +151,27 @@ interface ExtractedValue {
   unit: string;
   reference: string;
   flag?: string;
+  analyte_id?: string | null;
+  matched?: boolean;
+  match_score?: number;
+  match_method?: string;
+  needs_review?: boolean;
+  match_candidates?: AnalyteMatchCandidate[];
+  // Confidence the model reported for the value, if any
+  model_confidence?: number;
+  // Gated confidence, shown in the extracted results table
+  confidence?: number;
+  // Gated confidence of the AI value an entry row was prefilled from
+  ai_confidence?: number | null;
+  manually_verified?: boolean;
+}
+
+// What a value's confidence is judged against for one AI run
+interface AiRunContext {
+  words?: OcrWord[];
+  documentConfidence?: number;
+  processingType: string;
+  promptKey: string;
 }
 
 interface Order {
@@ -160,6 +191,7 @@ interface Order {
   qr_code_data?: string;
   sample_collected_at?: string;
   sample_collected_by?: string;
+  pregnancy_trimester?: number | null;
 }
 
 interface OrderDetailsModalProps {
@@ -175,7 +207,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
   onUpdateStatus,
   onSubmitResults
 }) => {
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const [activeTab, setActiveTab] = useState<'details' | 'results'>('details');
   const [uploadedFile, setUploadedFile] = useState<File | null>(null);
   const [attachmentId, setAttachmentId] = useState<string | null>(null);
@@ -193,6 +225,12 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
   const [savingDraft, setSavingDraft] = useState(false);
   const [submittingResults, setSubmittingResults] = useState(false);
   const [saveMessage, setSaveMessage] = useState<string | null>(null);
+  // Analytes with an unresolved QC rejection; entry is locked until corrective action is logged
+  const [qcBlockedIds, setQcBlockedIds] = useState<Set<string>>(new Set());
+  const [confidenceThresholds, setConfidenceThresholds] = useState<AiConfidenceThreshold[]>([]);
+  const [aiRun, setAiRun] = useState<AiRunContext | null>(null);
+  // Parameters sent to the AI review queue by the last AI run
+  const [queuedForReview, setQueuedForReview] = useState<string[]>([]);
 
   // Function to generate QR code as data URL for display
   const generateQRCodeDataURL = async (data: string): Promise<string> => {
@@ -213,6 +251,22 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
 
   // State for QR code image
   const [qrCodeImage, setQrCodeImage] = useState<string>('');
+  const [showLabelPrint, setShowLabelPrint] = useState(false);
+  // Name of the workflow this order runs (already started, or published for one of its tests)
+  const [workflowName, setWorkflowName] = useState<string | null>(null);
+
+  React.useEffect(() => {
+    let cancelled = false;
+    const resolveWorkflow = async () => {
+      const { data: instance } = await database.workflows.getOrderWorkflowInstance(order.id);
+      const { data: version } = instance
+        ? await database.workflows.getWorkflowVersion(instance.workflow_version_id)
+        : await database.workflows.getForOrder(order.id);
+      if (!cancelled) setWorkflowName(version?.definition?.name || null);
+    };
+    resolveWorkflow();
+    return () => { cancelled = true; };
+  }, [order.id]);
 
   // Generate QR code when component mounts or QR data changes
   React.useEffect(() => {
@@ -258,6 +312,10 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
   React.useEffect(() => {
     fetchAllAnalytes();
     fetchOrderAnalytes();
+    database.aiReview.getThresholds().then(({ data, error }) => {
+      if (error) console.error('Error loading AI confidence thresholds:', error);
+      setConfidenceThresholds(data || []);
+    });
   }, []);
 
   React.useEffect(() => {
@@ -267,12 +325,32 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
         value: '',
         unit: analyte.unit || '',
         reference: analyte.reference_range || '',
-        flag: undefined
+        flag: undefined,
+        analyte_id: analyte.id
       })));
       fetchExistingResult();
     }
   }, [orderAnalytes]);
 
+  React.useEffect(() => {
+    if (orderAnalytes.length === 0) return;
+    database.qc.getBlockedAnalyteIds(orderAnalytes.map(a => a.id)).then(({ data, error }) => {
+      if (error) {
+        console.error('Error checking QC status:', error);
+        return;
+      }
+      setQcBlockedIds(new Set(data || []));
+    });
+  }, [orderAnalytes]);
+
+  // Refuses to save values for analytes on QC hold; returns false when blocked
+  const checkQcHold = (values: ExtractedValue[]) => {
+    const held = values.filter(v => v.analyte_id && qcBlockedIds.has(v.analyte_id));
+    if (held.length === 0) return true;
+    alert(`QC failure - result entry is blocked for: ${held.map(v => v.parameter).join(', ')}.\nLog a corrective action in Quality Control first.`);
+    return false;
+  };
+
   const fetchAllAnalytes = async () => {
     try {
       const { data, error } = await supabase
@@ -294,9 +372,9 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       const { data: testGroups, error: testGroupsError } = await supabase
         .from('test_groups')
         .select(`
-          id, name,
+          id, name, sample_type,
           test_group_analytes(
-            analytes(id, name, unit, reference_range, ai_processing_type, ai_prompt_override, group_ai_mode)
+            analytes(id, name, unit, reference_range, low_critical, high_critical, is_calculated, ai_processing_type, ai_prompt_override, group_ai_mode, alternate_unit, molar_mass, unit_conversion_factor)
           )
         `)
         .in('name', testNames);
@@ -305,7 +383,9 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       const collected: any[] = [];
       testNames.forEach((tn: string) => {
         const tg = testGroups?.find(t => t.name === tn);
-        if (tg?.test_group_analytes) collected.push(...tg.test_group_analytes.map((tga: any) => tga.analytes));
+        if (tg?.test_group_analytes) {
+          collected.push(...tg.test_group_analytes.map((tga: any) => ({ ...tga.analytes, sample_type: tg.sample_type })));
+        }
       });
       if (collected.length > 0) setOrderAnalytes(collected);
     } catch (err) {
@@ -334,7 +414,29 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       }
     } catch (err) {
       console.error('Error fetching existing result:', err);
+    } finally {
+      await fetchReviewedExtractions();
+    }
+  };
+
+  // Values accepted or corrected in the AI review queue fill rows that are still empty
+  const fetchReviewedExtractions = async () => {
+    const { data, error } = await database.aiReview.getReviewedForOrder(order.id);
+    if (error) {
+      console.error('Error fetching reviewed AI values:', error);
+      return;
     }
+    if (!data?.length) return;
+    setManualValues(prev => prev.map(row => {
+      const reviewed = data.filter(e => e.analyte_id === row.analyte_id).pop();
+      if (!reviewed || row.value.trim() !== '') return row;
+      return {
+        ...row,
+        value: reviewed.status === 'corrected' ? reviewed.corrected_value : reviewed.value,
+        ai_confidence: Number(reviewed.confidence),
+        manually_verified: true
+      };
+    }));
   };
 
   const handleFileUpload = async (file: File) => {
@@ -359,7 +461,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
           file_type: file.type,
           file_size: file.size,
           description: `Lab result document for order ${order.id}`,
-          uploaded_by: user?.id || null,
+          uploaded_by: profile?.id || null,
           upload_timestamp: new Date().toISOString()
         }])
         .select()
@@ -444,18 +546,37 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
           flag: p.flag || undefined,
           matched: !!p.matched,
           analyte_id: p.analyte_id || null,
-          confidence: p.confidence || 0.95
+          match_score: p.match_score,
+          match_method: p.match_method,
+          needs_review: !!p.needs_review,
+          match_candidates: p.match_candidates || [],
+          model_confidence: typeof p.confidence === 'number' ? p.confidence : undefined
         }));
-        setExtractedValues(extractedParams);
+        const run: AiRunContext = {
+          words: visionData.words,
+          documentConfidence: visionData.confidence || result.metadata?.ocrConfidence,
+          processingType,
+          promptKey: promptKey(processingType, customPrompt)
+        };
+        setAiRun(run);
         setOcrResults(result);
-        setManualValues(prev => {
-          const updated = [...prev];
-          extractedParams.forEach((ep: ExtractedValue) => {
-            const idx = updated.findIndex(v => v.parameter === ep.parameter);
-            if (idx !== -1) updated[idx] = { ...updated[idx], value: ep.value, flag: ep.flag };
-          });
-          return updated;
+        const unitErrors: string[] = [];
+        const extractions: AiExtractionInput[] = [];
+        const updated = [...manualValues];
+        const gatedParams = extractedParams.map((ep: ExtractedValue) => {
+          const { extraction, unitError } = gateExtractedValue(updated, ep, run);
+          if (unitError) unitErrors.push(unitError);
+          if (extraction) extractions.push(extraction);
+          return extraction ? { ...ep, confidence: extraction.confidence } : ep;
         });
+        setExtractedValues(gatedParams);
+        setManualValues(updated);
+        setQueuedForReview(extractions.filter(e => e.status === 'pending_review').map(e => e.parameter));
+        if (unitErrors.length > 0) {
+          setOcrError(`Some values were not filled in: ${unitErrors.join('; ')}. Please enter them manually.`);
+        }
+        const { error: recordError } = await database.aiReview.recordExtractions(extractions);
+        if (recordError) console.error('Error recording AI extracted values:', recordError);
       } else if (result?.rawText) {
         setOcrError('OCR extracted text but could not parse structured data. Please enter results manually.');
       } else {
@@ -469,13 +590,119 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
     }
   };
 
+  // Values whose confidence reaches the analyte's threshold are prefilled as drafts; the rest go to
+  // the AI review queue. Entry rows are in the analyte's canonical unit, so document values are
+  // converted before they are flagged, and ones in a unit that cannot be converted are left for
+  // manual entry (unitError is the reason). Returns the value to record, if it has an entry row.
+  const gateExtractedValue = (
+    rows: ExtractedValue[],
+    ep: ExtractedValue,
+    run: AiRunContext
+  ): { extraction: AiExtractionInput | null; unitError: string | null } => {
+    let idx = ep.analyte_id ? rows.findIndex(v => v.analyte_id === ep.analyte_id) : -1;
+    if (idx === -1) idx = rows.findIndex(v => v.parameter === ep.parameter);
+    if (idx === -1) return { extraction: null, unitError: null };
+
+    const analyteId = rows[idx].analyte_id || null;
+    const analyte = orderAnalytes.find(a => a.id === analyteId);
+    const canonical = analyte ? toCanonicalUnit({ value: ep.value, unit: ep.unit }, analyte) : null;
+    const { crop, ocrConfidence } = locateExtractedValue(run.words, ep.parameter, ep.value);
+    const confidence = Math.round(extractionConfidence({
+      ocrConfidence,
+      documentConfidence: run.documentConfidence,
+      modelConfidence: ep.model_confidence,
+      matchScore: ep.match_score
+    }) * 1000) / 1000;
+    const threshold = resolveConfidenceThreshold(confidenceThresholds, analyteId);
+    const converted = canonical && !canonical.error;
+
+    const extraction: AiExtractionInput = {
+      order_id: order.id,
+      attachment_id: attachmentId,
+      analyte_id: analyteId,
+      parameter: ep.parameter,
+      value: converted ? canonical.value : ep.value,
+      unit: (converted ? canonical.unit : ep.unit) || null,
+      confidence,
+      threshold,
+      crop,
+      ai_processing_type: run.processingType,
+      prompt_key: run.promptKey,
+      status: confidence >= threshold ? 'draft' : 'pending_review'
+    };
+    if (extraction.status === 'pending_review') return { extraction, unitError: null };
+    if (canonical?.error) return { extraction: null, unitError: canonical.error };
+
+    rows[idx] = { ...rows[idx], value: extraction.value, flag: ep.flag, ai_confidence: confidence, manually_verified: false };
+    return { extraction, unitError: null };
+  };
+
+  const handleConfirmMatch = async (parameter: string, analyteId: string) => {
+    const extracted = extractedValues.find(v => v.parameter === parameter);
+    if (!extracted || !aiRun) return;
+    // A technician confirmed the match, so it no longer lowers the value's confidence
+    const confirmed = { ...extracted, analyte_id: analyteId, matched: true, needs_review: false, match_score: 1 };
+    const updated = [...manualValues];
+    const { extraction, unitError } = gateExtractedValue(updated, confirmed, aiRun);
+    setExtractedValues(prev => prev.map(v => (v.parameter === parameter ? { ...confirmed, confidence: extraction?.confidence ?? confirmed.confidence } : v)));
+    setManualValues(updated);
+    if (unitError) setOcrError(`${parameter} was not filled in: ${unitError}. Please enter it manually.`);
+    if (!extraction) return;
+    setQueuedForReview(prev => (extraction.status === 'pending_review'
+      ? [...prev.filter(p => p !== parameter), parameter]
+      : prev.filter(p => p !== parameter)));
+    const { error } = await database.aiReview.recordExtractions([extraction]);
+    if (error) console.error('Error recording AI extracted value:', error);
+  };
+
+  const handleDismissMatch = (parameter: string) => {
+    setExtractedValues(prev => prev.map(v => (v.parameter === parameter ? { ...v, needs_review: false } : v)));
+  };
+
   const handleManualValueChange = (index: number, field: keyof ExtractedValue, value: string) => {
     setManualValues(prev => prev.map((item, i) => (i === index ? { ...item, [field]: value } : item)));
   };
 
+  // Patient demographics and structured reference ranges for the analytes on this order
+  const loadStructuredRangeContext = async (): Promise<StructuredRangeContext | undefined> => {
+    try {
+      const analyteIds = orderAnalytes.map(a => a.id).filter(Boolean);
+      const [{ data: patient }, labId] = await Promise.all([
+        database.patients.getById(order.patient_id),
+        database.getCurrentUserLabId()
+      ]);
+      const { data: ranges, error } = await database.referenceRanges.getByAnalyteIds(analyteIds, labId);
+      if (error) {
+        console.error('Error loading reference ranges:', error);
+        return undefined;
+      }
+
+      const specimenByAnalyte: Record<string, string> = {};
+      orderAnalytes.forEach(a => {
+        if (a.id && a.sample_type) specimenByAnalyte[a.id] = a.sample_type;
+      });
+
+      return {
+        rangesByAnalyte: groupReferenceRangesByAnalyte(ranges || []),
+        specimenByAnalyte,
+        patient: {
+          gender: patient?.gender,
+          age: patient?.age,
+          dateOfBirth: patient?.date_of_birth,
+          pregnancyTrimester: order.pregnancy_trimester,
+          labId
+        }
+      };
+    } catch (err) {
+      console.error('Error building reference range context:', err);
+      return undefined;
+    }
+  };
+
   const handleSaveDraft = async () => {
     const validResults = manualValues.filter(v => v.value.trim() !== '');
     if (!validResults.length) { alert('Please enter at least one test result before saving draft.'); return; }
+    if (!checkQcHold(validResults)) return;
 
     setSavingDraft(true);
     setSaveMessage(null);
@@ -486,9 +713,15 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
         value: item.value,
         unit: item.unit,
         reference_range: item.reference,
-        flag: item.flag
+        flag: item.flag,
+        analyte_id: item.analyte_id,
+        low_critical: orderAnalytes.find(a => a.id === item.analyte_id)?.low_critical,
+        high_critical: orderAnalytes.find(a => a.id === item.analyte_id)?.high_critical,
+        ai_confidence: item.ai_confidence,
+        manually_verified: item.manually_verified
       }));
-      const valuesWithFlags = calculateFlagsForResults(resultValues);
+      const rangeContext = await loadStructuredRangeContext();
+      const valuesWithFlags = calculateFlagsForResults(resultValues, rangeContext?.patient.gender ?? undefined, rangeContext);
 
       const resultData = {
         order_id: order.id,
@@ -501,17 +734,28 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
         values: valuesWithFlags
       };
 
-      if (existingResultId) {
-        const { error } = await database.results.update(existingResultId, resultData);
+      let resultId = existingResultId;
+      if (resultId) {
+        const { error } = await database.results.update(resultId, resultData);
         if (error) throw new Error(error.message);
       } else {
         const { data, error } = await database.results.create(resultData);
         if (error) throw new Error(error.message);
-        setExistingResultId(data.id);
+        resultId = data.id as string;
+        setExistingResultId(resultId);
       }
 
-      setSaveMessage('Draft saved successfully!');
-      setTimeout(() => setSaveMessage(null), 3000);
+      const { error: settleError } = await database.aiReview.settleForResult(order.id, resultId, validResults);
+      if (settleError) console.error('Error updating AI extracted values:', settleError);
+
+      const criticalCount = valuesWithFlags.filter(v => v.flag === 'C').length;
+      if (criticalCount > 0) {
+        setSaveMessage(`Draft saved. ${criticalCount} critical value(s) detected - a callback must be documented before the report can be released.`);
+        setTimeout(() => setSaveMessage(null), 8000);
+      } else {
+        setSaveMessage('Draft saved successfully!');
+        setTimeout(() => setSaveMessage(null), 3000);
+      }
     } catch (err) {
       console.error('Error saving draft:', err);
       setSaveMessage('Failed to save draft. Please try again.');
@@ -527,6 +771,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
       alert('Please enter at least one test result.'); 
       return; 
     }
+    if (!checkQcHold(validResults)) return;
 
     setSubmittingResults(true);
     setSaveMessage(null);
@@ -584,7 +829,9 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
               unit: result.unit || '',
               reference_range: result.reference || '',
               flag: result.flag || null,
-              sequence_number: index + 1
+              sequence_number: index + 1,
+              ai_confidence: result.ai_confidence ?? null,
+              manually_verified: !!result.manually_verified
             }));
 
             const { error: valuesError } = await supabase
@@ -596,6 +843,11 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
             }
           }
 
+          if (resultId) {
+            const { error: settleError } = await database.aiReview.settleForResult(order.id, resultId, testResults);
+            if (settleError) console.error('Error updating AI extracted values:', settleError);
+          }
+
           successCount++;
         } catch (testError) {
           console.error(`Error processing test ${testName}:`, testError);
@@ -702,9 +954,21 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
             <h2 className="text-xl font-semibold text-gray-900">Order Details</h2>
             <p className="text-sm text-gray-600 mt-1">Order ID: {order.id}</p>
           </div>
-          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
-            <X className="h-6 w-6" />
-          </button>
+          <div className="flex items-center space-x-2">
+            {workflowName && (
+              <Link
+                to={`/orders/${order.id}/workflow`}
+                title={workflowName}
+                className="flex items-center px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                <Layers className="h-4 w-4 mr-1" />
+                Run Workflow
+              </Link>
+            )}
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
         </div>
 
         {/* Tab Navigation */}
@@ -789,11 +1053,16 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                     <div>
                       <div className="text-sm font-medium text-gray-700 mb-2 flex items-center justify-between">
                         <div className="flex items-center"><QrCode className="h-4 w-4 mr-1" />QR Code</div>
-                        {order.qr_code_data && (
-                          <button onClick={handlePrintQRCode} className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors">
-                            <Printer className="h-3 w-3 mr-1" />Print Label
+                        <div className="flex items-center space-x-1">
+                          <button onClick={() => setShowLabelPrint(true)} className="flex items-center px-2 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors">
+                            <Printer className="h-3 w-3 mr-1" />Tube Labels
                           </button>
-                        )}
+                          {order.qr_code_data && (
+                            <button onClick={handlePrintQRCode} className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors">
+                              <Printer className="h-3 w-3 mr-1" />Print QR
+                            </button>
+                          )}
+                        </div>
                       </div>
                       {order.qr_code_data ? (
                         <div className="space-y-3">
@@ -851,6 +1120,9 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                 </div>
               )}
 
+              {/* Per-container samples */}
+              <OrderSamplesPanel orderId={order.id} />
+
               {/* Tests Ordered */}
               <div className="bg-white border border-gray-200 rounded-lg p-6">
                 <h3 className="text-lg font-semibold text-gray-900 mb-4">Tests Ordered</h3>
@@ -1035,6 +1307,16 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       </div>
                     </div>
                   )}
+
+                  {queuedForReview.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800 flex items-start">
+                      <ScanEye className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                      <span>
+                        {queuedForReview.join(', ')} {queuedForReview.length === 1 ? 'was' : 'were'} below the confidence threshold and
+                        {' '}{queuedForReview.length === 1 ? 'has' : 'have'} been sent to <Link to="/ai-review" className="font-medium underline">AI Review</Link> instead of being filled in.
+                      </span>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1073,6 +1355,14 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                       </tbody>
                     </table>
                   </div>
+                  <div className="mt-4">
+                    <AnalyteMatchReview
+                      parameters={extractedValues.filter(v => v.needs_review)}
+                      analytes={orderAnalytes}
+                      onConfirm={handleConfirmMatch}
+                      onDismiss={handleDismissMatch}
+                    />
+                  </div>
                 </div>
               )}
 
@@ -1096,9 +1386,16 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                     <tbody className="bg-white divide-y divide-gray-200">
                       {manualValues.map((value, index) => (
                         <tr key={index} className="hover:bg-gray-50">
-                          <td className="px-4 py-3 text-sm font-medium text-gray-900">{value.parameter}</td>
+                          <td className="px-4 py-3 text-sm font-medium text-gray-900">
+                            {value.parameter}
+                            {value.analyte_id && qcBlockedIds.has(value.analyte_id) && (
+                              <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-red-100 text-red-800" title="Unresolved QC failure - log a corrective action in Quality Control">
+                                <ShieldAlert className="h-3 w-3 mr-1" />QC hold
+                              </span>
+                            )}
+                          </td>
                           <td className="px-4 py-3">
-                            <input type="text" value={value.value} onChange={(e) => handleManualValueChange(index, 'value', e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500" placeholder="Enter value" />
+                            <input type="text" value={value.value} onChange={(e) => handleManualValueChange(index, 'value', e.target.value)} disabled={!!value.analyte_id && qcBlockedIds.has(value.analyte_id)} className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500 disabled:bg-gray-100 disabled:cursor-not-allowed" placeholder={value.analyte_id && qcBlockedIds.has(value.analyte_id) ? 'QC hold' : orderAnalytes.find(a => a.id === value.analyte_id)?.is_calculated ? 'Auto-calculated' : 'Enter value'} />
                           </td>
                           <td className="px-4 py-3">
                             <input type="text" value={value.unit} onChange={(e) => handleManualValueChange(index, 'unit', e.target.value)} className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500" placeholder="Unit" />
@@ -1139,6 +1436,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
           )}
         </div>
       </div>
+
+      {showLabelPrint && <LabelPrintModal order={order} onClose={() => setShowLabelPrint(false)} />}
     </div>
   );
 };
@@ -4,6 +4,7 @@ import QRCodeLib from 'qrcode';
 import { supabase, uploadFile, generateFilePath, database } from '../../utils/supabase';
 import { useAuth } from '../../contexts/AuthContext';
 import { calculateFlagsForResults } from '../../utils/flagCalculation';
+import LabelPrintModal from '../Labels/LabelPrintModal';
 
 interface WorkflowStep {
   name: string;
@@ -252,6 +253,7 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
 
   // State for QR code image
   const [qrCodeImage, setQrCodeImage] = useState<string>('');
+  const [showLabelPrint, setShowLabelPrint] = useState(false);
 
   // Generate QR code when component mounts or QR data changes
   React.useEffect(() => {
@@ -1095,15 +1097,24 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
                           <QrCode className="h-4 w-4 mr-1" />
                           QR Code
                         </div>
-                        {order.qr_code_data && (
+                        <div className="flex items-center space-x-1">
                           <button
-                            onClick={handlePrintQRCode}
-                            className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                            onClick={() => setShowLabelPrint(true)}
+                            className="flex items-center px-2 py-1 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 transition-colors"
                           >
                             <Printer className="h-3 w-3 mr-1" />
-                            Print Label
+                            Tube Labels
                           </button>
-                        )}
+                          {order.qr_code_data && (
+                            <button
+                              onClick={handlePrintQRCode}
+                              className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors"
+                            >
+                              <Printer className="h-3 w-3 mr-1" />
+                              Print QR
+                            </button>
+                          )}
+                        </div>
                       </div>
                       {order.qr_code_data ? (
                         <div className="space-y-3">
@@ -1682,6 +1693,8 @@ const OrderDetailsModal: React.FC<OrderDetailsModalProps> = ({
           )}
         </div>
       </div>
+
+      {showLabelPrint && <LabelPrintModal order={order} onClose={() => setShowLabelPrint(false)} />}
     </div>
   );
 };
@@ -19,6 +19,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onClose, onSubmit, preSelectedPat
     doctor: '',
     notes: '',
     expectedDate: '',
+    pregnancyTrimester: '',
   });
 
   const [patients, setPatients] = useState<any[]>([]);
@@ -105,6 +106,7 @@ const OrderForm: React.FC<OrderFormProps> = ({ onClose, onSubmit, preSelectedPat
       expected_date: formData.expectedDate,
       total_amount: totalAmount,
       doctor: formData.doctor,
+      pregnancy_trimester: formData.pregnancyTrimester ? parseInt(formData.pregnancyTrimester) : null,
     };
     
     onSubmit(orderData);
@@ -313,6 +315,25 @@ const OrderForm: React.FC<OrderFormProps> = ({ onClose, onSubmit, preSelectedPat
               </FormField>
             </div>
 
+            {selectedPatient?.gender === 'Female' && (
+              <FormField 
+                label="Pregnancy" 
+                hint="Selects trimester-specific reference ranges for antenatal panels"
+              >
+                <Select
+                  name="pregnancyTrimester"
+                  value={formData.pregnancyTrimester}
+                  onChange={handleChange}
+                  options={[
+                    { value: '', label: 'Not pregnant / unknown' },
+                    { value: '1', label: '1st trimester' },
+                    { value: '2', label: '2nd trimester' },
+                    { value: '3', label: '3rd trimester' },
+                  ]}
+                />
+              </FormField>
+            )}
+
             <FormField 
               label="Clinical Notes" 
               hint="Any special instructions or clinical notes"
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { TestTube2, Loader2, CheckCircle, Truck, Archive, Copy, Plus, XCircle, RotateCcw } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { rejectSampleWithRecollection } from '../../utils/patientWorkflow';
+import {
+  OrderSample, SAMPLE_REJECTION_REASONS, SAMPLE_STATUS_COLORS, SAMPLE_STATUS_LABELS, SampleRejectionCode
+} from '../../utils/sampleContainers';
+
+interface OrderSamplesPanelProps {
+  orderId: string;
+  onSamplesChanged?: () => void;
+}
+
+const OrderSamplesPanel: React.FC<OrderSamplesPanelProps> = ({ orderId, onSamplesChanged }) => {
+  const { user } = useAuth();
+  const [samples, setSamples] = useState<OrderSample[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [storageInputs, setStorageInputs] = useState<Record<string, string>>({});
+  const [reloadKey, setReloadKey] = useState(0);
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectCode, setRejectCode] = useState<SampleRejectionCode>('hemolysed');
+  const [rejectNotes, setRejectNotes] = useState('');
+
+  const userName = user?.user_metadata?.full_name || user?.email || 'System';
+
+  useEffect(() => {
+    setLoading(true);
+    database.samples.getByOrderId(orderId).then(({ data, error }) => {
+      if (error) {
+        setError(error.message);
+      } else {
+        setSamples(data || []);
+      }
+      setLoading(false);
+    });
+  }, [orderId, reloadKey]);
+
+  const runAction = async (sampleId: string, action: () => Promise<{ error: unknown }>) => {
+    setBusyId(sampleId);
+    setError(null);
+    const { error } = await action();
+    setBusyId(null);
+    if (error) {
+      setError(error instanceof Error ? error.message : 'Sample update failed');
+      return;
+    }
+    setReloadKey(key => key + 1);
+    onSamplesChanged?.();
+  };
+
+  const handleGenerate = () => runAction('generate', () => database.samples.createForOrder(orderId));
+
+  const handleReject = (sampleId: string) =>
+    runAction(sampleId, async () => {
+      const { error } = await rejectSampleWithRecollection(sampleId, {
+        code: rejectCode,
+        notes: rejectNotes,
+        rejected_by: userName
+      });
+      if (!error) {
+        setRejectingId(null);
+        setRejectNotes('');
+      }
+      return { error };
+    });
+
+  const primary = samples.filter(s => !s.parent_sample_id);
+  const aliquotsOf = (sampleId: string) => samples.filter(s => s.parent_sample_id === sampleId);
+
+  const renderSample = (sample: OrderSample, isAliquot = false) => {
+    const busy = busyId === sample.id;
+    return (
+      <div key={sample.id} className={`border rounded-lg p-3 ${isAliquot ? 'ml-6 border-dashed border-gray-200' : 'border-gray-200'}`}>
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3">
+            <span className="mt-1 w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: sample.color_code || '#6B7280' }} />
+            <div>
+              <div className="font-mono text-sm font-medium text-gray-900">{sample.barcode}</div>
+              <div className="text-xs text-gray-600">{sample.container_type} · {sample.sample_type}{sample.volume_ml ? ` · ${sample.volume_ml} mL` : ''}</div>
+              {!isAliquot && sample.test_names.length > 0 && (
+                <div className="text-xs text-gray-500 mt-1">{sample.test_names.join(', ')}</div>
+              )}
+            </div>
+          </div>
+          <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${SAMPLE_STATUS_COLORS[sample.status]}`}>
+            {SAMPLE_STATUS_LABELS[sample.status]}
+          </span>
+        </div>
+
+        <div className="mt-2 text-xs text-gray-500 space-y-0.5">
+          {sample.collected_at && <div>Collected {new Date(sample.collected_at).toLocaleString()}{sample.collected_by && ` by ${sample.collected_by}`}</div>}
+          {sample.received_at && <div>Received {new Date(sample.received_at).toLocaleString()}{sample.received_by && ` by ${sample.received_by}`}</div>}
+          {sample.storage_location && <div>Stored at {sample.storage_location}</div>}
+          {sample.rejection_reason && (
+            <div className="text-red-600">
+              Rejected: {sample.rejection_reason}
+              {sample.rejected_by && ` by ${sample.rejected_by}`}
+              {sample.rejected_at && ` · ${new Date(sample.rejected_at).toLocaleString()}`}
+            </div>
+          )}
+          {sample.recollection_order_id && (
+            <div className="flex items-center text-orange-700">
+              <RotateCcw className="h-3 w-3 mr-1" /> Recollection order #{sample.recollection_order_id.slice(0, 8)}
+            </div>
+          )}
+        </div>
+
+        {!isAliquot && (
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            {sample.status === 'pending_collection' && (
+              <button
+                onClick={() => runAction(sample.id, () => database.samples.markCollected(sample.id, userName))}
+                disabled={busy}
+                className="flex items-center px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                <CheckCircle className="h-3 w-3 mr-1" /> Collect
+              </button>
+            )}
+            {sample.status === 'collected' && (
+              <button
+                onClick={() => runAction(sample.id, () => database.samples.markReceived(sample.id, userName))}
+                disabled={busy}
+                className="flex items-center px-2 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                <Truck className="h-3 w-3 mr-1" /> Receive
+              </button>
+            )}
+            {sample.received_at && sample.status !== 'rejected' && (
+              <>
+                <button
+                  onClick={() => runAction(sample.id, () => database.samples.createAliquot(sample.id))}
+                  disabled={busy}
+                  className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Copy className="h-3 w-3 mr-1" /> Aliquot
+                </button>
+                <input
+                  type="text"
+                  value={storageInputs[sample.id] ?? sample.storage_location ?? ''}
+                  onChange={(e) => setStorageInputs(prev => ({ ...prev, [sample.id]: e.target.value }))}
+                  placeholder="Rack / box / position"
+                  className="px-2 py-1 text-xs border border-gray-300 rounded w-40"
+                />
+                <button
+                  onClick={() => runAction(sample.id, () => database.samples.setStorageLocation(sample.id, storageInputs[sample.id] || ''))}
+                  disabled={busy || !storageInputs[sample.id]?.trim()}
+                  className="flex items-center px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  <Archive className="h-3 w-3 mr-1" /> Store
+                </button>
+              </>
+            )}
+            {sample.status !== 'rejected' && sample.status !== 'discarded' && rejectingId !== sample.id && (
+              <button
+                onClick={() => setRejectingId(sample.id)}
+                disabled={busy}
+                className="flex items-center px-2 py-1 text-xs border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:opacity-50"
+              >
+                <XCircle className="h-3 w-3 mr-1" /> Reject
+              </button>
+            )}
+            {busy && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+          </div>
+        )}
+
+        {rejectingId === sample.id && (
+          <div className="mt-3 bg-red-50 border border-red-200 rounded p-3 space-y-2">
+            <div className="flex flex-wrap gap-2">
+              <select
+                value={rejectCode}
+                onChange={(e) => setRejectCode(e.target.value as SampleRejectionCode)}
+                className="px-2 py-1 text-xs border border-gray-300 rounded"
+              >
+                {(Object.keys(SAMPLE_REJECTION_REASONS) as SampleRejectionCode[]).map(code => (
+                  <option key={code} value={code}>{SAMPLE_REJECTION_REASONS[code]}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={rejectNotes}
+                onChange={(e) => setRejectNotes(e.target.value)}
+                placeholder="Notes (optional)"
+                className="flex-1 min-w-[10rem] px-2 py-1 text-xs border border-gray-300 rounded"
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-red-700">A recollection order for {sample.test_names.join(', ') || 'these tests'} will be created.</span>
+              <div className="flex space-x-2">
+                <button
+                  onClick={() => setRejectingId(null)}
+                  className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-white"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={() => handleReject(sample.id)}
+                  disabled={busy}
+                  className="flex items-center px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  <XCircle className="h-3 w-3 mr-1" /> Reject &amp; recollect
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+        <TestTube2 className="h-5 w-5 mr-2 text-purple-600" />
+        Samples
+      </h3>
+
+      {error && <div className="mb-3 bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading samples...</div>
+      ) : primary.length === 0 ? (
+        <div className="flex items-center justify-between bg-gray-50 rounded-lg p-3">
+          <span className="text-sm text-gray-600">No containers recorded for this order</span>
+          <button
+            onClick={handleGenerate}
+            disabled={busyId === 'generate'}
+            className="flex items-center px-3 py-1.5 text-xs bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50"
+          >
+            <Plus className="h-3 w-3 mr-1" /> Generate containers
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {primary.map(sample => (
+            <div key={sample.id} className="space-y-2">
+              {renderSample(sample)}
+              {aliquotsOf(sample.id).map(aliquot => renderSample(aliquot, true))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderSamplesPanel;
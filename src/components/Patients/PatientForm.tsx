@@ -9,6 +9,7 @@ interface Patient {
   display_id?: string;
   name: string;
   age: number;
+  date_of_birth?: string | null;
   gender: string;
   phone: string;
   email?: string;
@@ -60,7 +61,7 @@ const PatientForm: React.FC<PatientFormProps> = ({
   onSubmit, 
   patient
 }) => {
-  const { user } = useAuth();
+  const { profile } = useAuth();
   
   // Parse patient name if editing
   const nameParts = patient?.name.split(' ') || ['', ''];
@@ -71,6 +72,7 @@ const PatientForm: React.FC<PatientFormProps> = ({
     firstName: firstName,
     lastName: lastName,
     age: patient?.age.toString() || '',
+    dateOfBirth: patient?.date_of_birth || '',
     gender: patient?.gender || '',
     phone: patient?.phone || '',
     email: patient?.email || '',
@@ -246,6 +248,22 @@ const PatientForm: React.FC<PatientFormProps> = ({
       [e.target.name]: e.target.value
     }));
   };
+
+  // Age-banded reference ranges need the date of birth; the whole-year age follows from it
+  const handleDateOfBirthChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const dateOfBirth = e.target.value;
+    const dob = new Date(dateOfBirth);
+    let age: string | undefined;
+    if (dateOfBirth && !isNaN(dob.getTime())) {
+      const today = new Date();
+      let years = today.getFullYear() - dob.getFullYear();
+      if (today.getMonth() < dob.getMonth() || (today.getMonth() === dob.getMonth() && today.getDate() < dob.getDate())) {
+        years -= 1;
+      }
+      age = Math.max(0, years).toString();
+    }
+    setFormData(prev => ({ ...prev, dateOfBirth, age: age ?? prev.age }));
+  };
   
   // Internal file upload handler
   const handleFileUpload = async (file: File) => {
@@ -277,7 +295,7 @@ const PatientForm: React.FC<PatientFormProps> = ({
           file_type: file.type,
           file_size: file.size,
           description: 'Test request form for patient registration',
-          uploaded_by: user?.id || null,
+          uploaded_by: profile?.id || null,
           upload_timestamp: new Date().toISOString()
         }])
         .select()
@@ -620,6 +638,19 @@ const PatientForm: React.FC<PatientFormProps> = ({
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date of Birth
+                </label>
+                <input
+                  type="date"
+                  name="dateOfBirth"
+                  value={formData.dateOfBirth}
+                  max={new Date().toISOString().split('T')[0]}
+                  onChange={handleDateOfBirthChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Age *
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { X, Wrench, Loader2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { formatViolations, WestgardRule } from '../../utils/westgard';
+
+export interface QCOpenFailure {
+  analyte_id: string;
+  instrument: string;
+  rejected_runs: number;
+  first_rejected_at: string;
+  last_rejected_at: string;
+  violations: WestgardRule[] | null;
+  analytes?: { name: string } | null;
+}
+
+interface CorrectiveActionModalProps {
+  failure: QCOpenFailure;
+  onClose: () => void;
+  onLogged: () => void;
+}
+
+const CorrectiveActionModal: React.FC<CorrectiveActionModalProps> = ({ failure, onClose, onLogged }) => {
+  const { user } = useAuth();
+  const [rootCause, setRootCause] = useState('');
+  const [actionTaken, setActionTaken] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    const { error } = await database.qc.logCorrectiveAction({
+      analyte_id: failure.analyte_id,
+      instrument: failure.instrument,
+      root_cause: rootCause,
+      action_taken: actionTaken,
+      performed_by_name: user?.user_metadata?.full_name || user?.email
+    });
+    setSaving(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    onLogged();
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg">
+        <div className="flex items-center justify-between p-4 border-b">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Wrench className="h-5 w-5 mr-2 text-orange-600" />
+            Corrective Action
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-4 space-y-4">
+          <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-800">
+            <div className="font-medium">
+              {failure.analytes?.name || failure.analyte_id}{failure.instrument && ` · ${failure.instrument}`}
+            </div>
+            <div>{failure.rejected_runs} rejected run(s) since {new Date(failure.first_rejected_at).toLocaleString()}</div>
+            {failure.violations && <div className="whitespace-pre-line text-xs mt-1">{formatViolations(failure.violations)}</div>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Root cause</label>
+            <input
+              type="text"
+              value={rootCause}
+              onChange={(e) => setRootCause(e.target.value)}
+              placeholder="e.g. Reagent deterioration, calibration drift"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Action taken *</label>
+            <textarea
+              value={actionTaken}
+              onChange={(e) => setActionTaken(e.target.value)}
+              rows={3}
+              placeholder="e.g. Recalibrated, new reagent pack loaded, QC repeated within limits"
+              className={inputClass}
+              required
+            />
+          </div>
+          <p className="text-xs text-gray-500">
+            Logging the action releases result entry for this analyte. Repeat QC before reporting patient results.
+          </p>
+
+          {error && <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>}
+
+          <div className="flex justify-end space-x-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !actionTaken.trim()}
+              className="flex items-center px-4 py-2 text-sm bg-orange-600 text-white rounded-md hover:bg-orange-700 disabled:opacity-50"
+            >
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              Log Corrective Action
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default CorrectiveActionModal;
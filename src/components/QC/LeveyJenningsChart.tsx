@@ -0,0 +1,76 @@
+import React from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { controlLimits, QCRunStatus, QCTarget } from '../../utils/westgard';
+
+export interface LeveyJenningsPoint {
+  id: string;
+  run_at: string;
+  value: number;
+  status: QCRunStatus;
+  violations: string[];
+}
+
+interface LeveyJenningsChartProps {
+  runs: LeveyJenningsPoint[];
+  target: QCTarget;
+  unit?: string | null;
+}
+
+const STATUS_COLORS: Record<QCRunStatus, string> = {
+  accepted: '#16a34a',
+  warning: '#f59e0b',
+  rejected: '#dc2626',
+};
+
+interface DotProps {
+  cx?: number;
+  cy?: number;
+  payload?: LeveyJenningsPoint;
+}
+
+const StatusDot: React.FC<DotProps> = ({ cx, cy, payload }) => {
+  if (cx === undefined || cy === undefined || !payload) return null;
+  return <circle cx={cx} cy={cy} r={4} fill={STATUS_COLORS[payload.status]} stroke="#ffffff" strokeWidth={1} />;
+};
+
+const LeveyJenningsChart: React.FC<LeveyJenningsChartProps> = ({ runs, target, unit }) => {
+  const limits = controlLimits(target);
+  const data = runs.map(run => ({ ...run, label: format(new Date(run.run_at), 'dd MMM HH:mm') }));
+  const padding = target.sd * 0.5;
+
+  if (runs.length === 0) {
+    return <div className="h-64 flex items-center justify-center text-sm text-gray-400">No QC runs recorded yet</div>;
+  }
+
+  return (
+    <div className="h-72">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 10, right: 40, left: 10, bottom: 5 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#f0f0f0" />
+          <XAxis dataKey="label" tick={{ fontSize: 11, fill: '#6b7280' }} />
+          <YAxis
+            domain={[limits.minus3 - padding, limits.plus3 + padding]}
+            tick={{ fontSize: 11, fill: '#6b7280' }}
+            tickFormatter={(value: number) => value.toFixed(2)}
+          />
+          <Tooltip
+            formatter={(value: number) => [`${value} ${unit || ''}`, 'Value']}
+            labelStyle={{ color: '#374151' }}
+            contentStyle={{ backgroundColor: '#ffffff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+          />
+          <ReferenceLine y={limits.mean} stroke="#2563eb" label={{ value: 'Mean', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.plus1} stroke="#9ca3af" strokeDasharray="2 4" label={{ value: '+1SD', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.minus1} stroke="#9ca3af" strokeDasharray="2 4" label={{ value: '-1SD', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.plus2} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: '+2SD', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.minus2} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: '-2SD', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.plus3} stroke="#dc2626" label={{ value: '+3SD', position: 'right', fontSize: 10 }} />
+          <ReferenceLine y={limits.minus3} stroke="#dc2626" label={{ value: '-3SD', position: 'right', fontSize: 10 }} />
+          <Line type="linear" dataKey="value" stroke="#374151" strokeWidth={1.5} dot={<StatusDot />} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default LeveyJenningsChart;
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { XCircle, Loader2 } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { database } from '../../utils/supabase';
+import { buildRejectionReport, RejectionRateRow, RejectionReport } from '../../utils/sampleContainers';
+
+const RateTable: React.FC<{ title: string; keyLabel: string; rows: RejectionRateRow[]; showTotal: boolean }> = ({ title, keyLabel, rows, showTotal }) => (
+  <div>
+    <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+    {rows.length === 0 ? (
+      <div className="text-sm text-gray-400">No data</div>
+    ) : (
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b">
+            <th className="px-3 py-2">{keyLabel}</th>
+            {showTotal && <th className="px-3 py-2">Collected</th>}
+            <th className="px-3 py-2">Rejected</th>
+            <th className="px-3 py-2">Rate</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(row => (
+            <tr key={row.key} className="border-b last:border-0">
+              <td className="px-3 py-2">{row.label}</td>
+              {showTotal && <td className="px-3 py-2">{row.total}</td>}
+              <td className="px-3 py-2">{row.rejected}</td>
+              <td className={`px-3 py-2 font-medium ${row.rate >= 2 ? 'text-red-600' : 'text-gray-900'}`}>{row.rate}%</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const SampleRejectionReport: React.FC = () => {
+  const [from, setFrom] = useState(format(subDays(new Date(), 30), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [report, setReport] = useState<RejectionReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    database.samples.getCollectedInRange(`${from}T00:00:00`, `${to}T23:59:59`).then(({ data, error }) => {
+      if (error) {
+        setError(error.message);
+      } else {
+        setError(null);
+        setReport(buildRejectionReport(data || []));
+      }
+      setLoading(false);
+    });
+  }, [from, to]);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <XCircle className="h-5 w-5 mr-2 text-red-600" />
+          Sample Rejection Rate
+        </h3>
+        <div className="flex items-center space-x-2 text-sm">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="px-2 py-1 border border-gray-300 rounded" />
+          <span className="text-gray-500">to</span>
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="px-2 py-1 border border-gray-300 rounded" />
+        </div>
+      </div>
+
+      {error && <div className="mb-3 bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700">{error}</div>}
+
+      {loading ? (
+        <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+      ) : report && (
+        <>
+          <div className="text-sm text-gray-700 mb-4">
+            {report.totalRejected} of {report.totalCollected} collected containers rejected
+            <span className="ml-2 font-semibold">({report.rate}%)</span>
+          </div>
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <RateTable title="By collector" keyLabel="Collector" rows={report.byCollector} showTotal />
+            <RateTable title="By reason" keyLabel="Reason" rows={report.byReason} showTotal={false} />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SampleRejectionReport;
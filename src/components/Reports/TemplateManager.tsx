@@ -284,6 +284,9 @@ const TemplateManager: React.FC<TemplateManagerProps> = ({ isOpen, onClose, onTe
                           onChange={(e) => handleInputChange('footer.signature', e.target.value)}
                           className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
                         />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Only printed on reports without electronic signatures
+                        </p>
                       </div>
                       <div className="md:col-span-2">
                         <label className="block text-sm font-medium text-gray-700 mb-1">
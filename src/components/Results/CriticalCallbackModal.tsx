@@ -0,0 +1,353 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Phone, AlertOctagon, CheckCircle, ArrowUpRight, Loader2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+
+interface EscalationEntry {
+  level: number;
+  name: string;
+  role?: string;
+  contact?: string;
+  outcome: string;
+  attempted_at: string;
+}
+
+interface CriticalCallback {
+  id: string;
+  order_id: string;
+  parameter: string;
+  value: string;
+  unit?: string;
+  critical_limit?: string;
+  status: 'open' | 'escalated' | 'documented' | 'voided';
+  called_person_name?: string;
+  called_person_role?: string;
+  called_at?: string;
+  read_back_confirmed: boolean;
+  read_back_value?: string;
+  escalation_chain: EscalationEntry[];
+  documented_at?: string;
+  void_reason?: string;
+}
+
+const isPending = (cb: CriticalCallback) => cb.status === 'open' || cb.status === 'escalated';
+
+interface CriticalCallbackModalProps {
+  orderId: string;
+  patientName?: string;
+  onClose: () => void;
+  onDocumented?: () => void;
+}
+
+const toLocalInputValue = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const CriticalCallbackModal: React.FC<CriticalCallbackModalProps> = ({
+  orderId,
+  patientName,
+  onClose,
+  onDocumented
+}) => {
+  const [callbacks, setCallbacks] = useState<CriticalCallback[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [mode, setMode] = useState<'document' | 'escalate'>('document');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState({
+    name: '',
+    role: 'Treating Physician',
+    contact: '',
+    calledAt: toLocalInputValue(new Date()),
+    readBackConfirmed: false,
+    readBackValue: '',
+    notes: '',
+    outcome: 'No answer'
+  });
+
+  const loadCallbacks = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await database.criticalCallbacks.getByOrderId(orderId);
+    if (error) {
+      console.error('Error loading critical callbacks:', error);
+      setError('Failed to load critical callbacks');
+    } else {
+      setCallbacks(data || []);
+      const firstOpen = (data || []).find(isPending);
+      setActiveId(firstOpen?.id || null);
+    }
+    setLoading(false);
+  }, [orderId]);
+
+  useEffect(() => {
+    loadCallbacks();
+  }, [loadCallbacks]);
+
+  const activeCallback = callbacks.find(c => c.id === activeId) || null;
+  const openCount = callbacks.filter(isPending).length;
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value, type } = e.target;
+    setForm(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? (e.target as HTMLInputElement).checked : value
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!activeCallback) return;
+    setError(null);
+
+    if (!form.name.trim()) {
+      setError('Enter the name of the person contacted');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (mode === 'escalate') {
+        const { error } = await database.criticalCallbacks.addEscalation(activeCallback.id, {
+          level: (activeCallback.escalation_chain?.length || 0) + 1,
+          name: form.name,
+          role: form.role,
+          contact: form.contact,
+          outcome: form.outcome
+        });
+        if (error) throw error;
+      } else {
+        if (!form.readBackConfirmed) {
+          setError('The recipient must read the value back before the callback can be documented');
+          setSaving(false);
+          return;
+        }
+        const { error } = await database.criticalCallbacks.document(activeCallback.id, {
+          called_person_name: form.name,
+          called_person_role: form.role,
+          contact_number: form.contact,
+          called_at: new Date(form.calledAt).toISOString(),
+          read_back_confirmed: form.readBackConfirmed,
+          read_back_value: form.readBackValue,
+          notes: form.notes
+        });
+        if (error) throw error;
+      }
+
+      setForm(prev => ({ ...prev, name: '', contact: '', readBackConfirmed: false, readBackValue: '', notes: '' }));
+      await loadCallbacks();
+      onDocumented?.();
+    } catch (err) {
+      console.error('Error saving critical callback:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save callback');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+              <AlertOctagon className="h-6 w-6 mr-2 text-red-600" />
+              Critical Value Callback
+            </h2>
+            <p className="text-sm text-gray-500 mt-1">
+              {patientName ? `${patientName} · ` : ''}{openCount} pending callback(s)
+            </p>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {loading ? (
+            <div className="flex items-center justify-center py-8 text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin mr-2" />
+              Loading callbacks...
+            </div>
+          ) : callbacks.length === 0 ? (
+            <div className="text-center text-gray-500 py-8">No critical values recorded for this order</div>
+          ) : (
+            <div className="space-y-2">
+              {callbacks.map(cb => (
+                <button
+                  key={cb.id}
+                  type="button"
+                  onClick={() => isPending(cb) && setActiveId(cb.id)}
+                  className={`w-full text-left border rounded-lg p-3 flex items-center justify-between ${
+                    cb.id === activeId ? 'border-red-400 bg-red-50' : 'border-gray-200'
+                  }`}
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {cb.parameter}: <span className="text-red-700">{cb.value} {cb.unit}</span>
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      Critical limit: {cb.critical_limit || 'n/a'}
+                      {cb.escalation_chain?.length > 0 && ` · ${cb.escalation_chain.length} escalation attempt(s)`}
+                    </div>
+                  </div>
+                  {cb.status === 'documented' ? (
+                    <span className="flex items-center text-xs text-green-700 bg-green-100 px-2 py-1 rounded">
+                      <CheckCircle className="h-3 w-3 mr-1" />
+                      Called {cb.called_person_name}
+                    </span>
+                  ) : cb.status === 'voided' ? (
+                    <span className="text-xs text-gray-600 bg-gray-100 px-2 py-1 rounded" title={cb.void_reason}>
+                      Voided
+                    </span>
+                  ) : (
+                    <span className="text-xs text-red-700 bg-red-100 px-2 py-1 rounded capitalize">{cb.status}</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {activeCallback && (
+            <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+              <div className="flex space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setMode('document')}
+                  className={`flex items-center px-3 py-1 rounded-md text-sm ${mode === 'document' ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  <Phone className="h-4 w-4 mr-1" />
+                  Document Callback
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setMode('escalate')}
+                  className={`flex items-center px-3 py-1 rounded-md text-sm ${mode === 'escalate' ? 'bg-orange-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                >
+                  <ArrowUpRight className="h-4 w-4 mr-1" />
+                  Log Escalation Attempt
+                </button>
+              </div>
+
+              {error && (
+                <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Person Contacted *</label>
+                  <input
+                    type="text"
+                    name="name"
+                    value={form.name}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Role</label>
+                  <select
+                    name="role"
+                    value={form.role}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option>Treating Physician</option>
+                    <option>Duty Doctor</option>
+                    <option>Nurse In-Charge</option>
+                    <option>Patient</option>
+                    <option>Lab Director</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Contact Number</label>
+                  <input
+                    type="tel"
+                    name="contact"
+                    value={form.contact}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+
+              {mode === 'document' ? (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Called At *</label>
+                      <input
+                        type="datetime-local"
+                        name="calledAt"
+                        value={form.calledAt}
+                        onChange={handleChange}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Value Read Back</label>
+                      <input
+                        type="text"
+                        name="readBackValue"
+                        value={form.readBackValue}
+                        onChange={handleChange}
+                        placeholder={`${activeCallback.value} ${activeCallback.unit || ''}`}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                    </div>
+                  </div>
+                  <label className="flex items-center">
+                    <input
+                      type="checkbox"
+                      name="readBackConfirmed"
+                      checked={form.readBackConfirmed}
+                      onChange={handleChange}
+                      className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                    />
+                    <span className="ml-2 text-sm text-gray-700">Recipient read the value back correctly</span>
+                  </label>
+                  <textarea
+                    name="notes"
+                    rows={2}
+                    value={form.notes}
+                    onChange={handleChange}
+                    placeholder="Notes (instructions received, action taken)"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Outcome</label>
+                  <select
+                    name="outcome"
+                    value={form.outcome}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option>No answer</option>
+                    <option>Number unreachable</option>
+                    <option>Not authorised to receive</option>
+                    <option>Referred to next contact</option>
+                  </select>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="px-6 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 flex items-center"
+                >
+                  {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {mode === 'document' ? 'Save Callback' : 'Log Attempt'}
+                </button>
+              </div>
+            </form>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CriticalCallbackModal;
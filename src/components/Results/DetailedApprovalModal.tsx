@@ -6,6 +6,7 @@ import {
   ChevronLeft, ChevronRight, Save, Send, Flag
 } from 'lucide-react';
 import { format } from 'date-fns';
+import { formatDelta } from '../../utils/deltaCheck';
 
 interface TestResult {
   id: string;
@@ -43,6 +44,15 @@ interface ResultValue {
   department: string;
 }
 
+interface DeltaDetails {
+  parameter: string;
+  previous_value: string | null;
+  previous_result_date: string | null;
+  delta_value: number | null;
+  delta_percent: number | null;
+  delta_flag: boolean | null;
+}
+
 interface OrderDetails {
   id: string;
   sample_id: string;
@@ -97,6 +107,7 @@ const DetailedApprovalModal: React.FC<DetailedApprovalModalProps> = ({
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [verificationHistory, setVerificationHistory] = useState<any[]>([]);
   const [previousResults, setPreviousResults] = useState<any[]>([]);
+  const [deltaByParameter, setDeltaByParameter] = useState<Record<string, DeltaDetails>>({});
   const [verificationNotes, setVerificationNotes] = useState('');
   const [selectedAnalytes, setSelectedAnalytes] = useState<Set<string>>(new Set());
   const [loading, setLoading] = useState(true);
@@ -115,7 +126,8 @@ const DetailedApprovalModal: React.FC<DetailedApprovalModalProps> = ({
         loadPatientDetails(),
         loadAttachments(),
         loadVerificationHistory(),
-        loadPreviousResults()
+        loadPreviousResults(),
+        loadDeltaDetails()
       ]);
     } catch (error) {
       console.error('Error loading data:', error);
@@ -195,6 +207,26 @@ const DetailedApprovalModal: React.FC<DetailedApprovalModalProps> = ({
     }
   };
 
+  // Delta check outcome stored on each result value by database.results.applyDeltaCheck
+  const loadDeltaDetails = async () => {
+    const resultIds = testResult.results.map(r => r.result_id);
+    if (resultIds.length === 0) return;
+
+    const { data, error } = await supabase
+      .from('result_values')
+      .select('parameter, previous_value, previous_result_date, delta_value, delta_percent, delta_flag')
+      .in('result_id', resultIds);
+
+    if (!error && data) {
+      setDeltaByParameter(
+        (data as DeltaDetails[]).reduce((acc, row) => {
+          acc[row.parameter.trim().toLowerCase()] = row;
+          return acc;
+        }, {} as Record<string, DeltaDetails>)
+      );
+    }
+  };
+
   const handleSelectAll = () => {
     const allAnalytes = testResult.results.flatMap(r => r.values.map(v => v.analyte_name));
     if (selectedAnalytes.size === allAnalytes.length) {
@@ -330,12 +362,15 @@ const DetailedApprovalModal: React.FC<DetailedApprovalModalProps> = ({
                         <th className="border border-gray-300 p-3 text-left">Unit</th>
                         <th className="border border-gray-300 p-3 text-left">Reference Range</th>
                         <th className="border border-gray-300 p-3 text-left">Flag</th>
+                        <th className="border border-gray-300 p-3 text-left">Previous / Delta</th>
                         <th className="border border-gray-300 p-3 text-left">Department</th>
                       </tr>
                     </thead>
                     <tbody>
-                      {allAnalytes.map((analyte, index) => (
-                        <tr key={index} className={analyte.flag ? 'bg-yellow-50' : ''}>
+                      {allAnalytes.map((analyte, index) => {
+                        const delta = deltaByParameter[analyte.analyte_name?.trim().toLowerCase()];
+                        return (
+                        <tr key={index} className={delta?.delta_flag ? 'bg-purple-50' : analyte.flag ? 'bg-yellow-50' : ''}>
                           <td className="border border-gray-300 p-3">
                             <input
                               type="checkbox"
@@ -359,9 +394,30 @@ const DetailedApprovalModal: React.FC<DetailedApprovalModalProps> = ({
                               </span>
                             )}
                           </td>
+                          <td className="border border-gray-300 p-3 text-sm">
+                            {delta?.previous_value ? (
+                              <div>
+                                <div>
+                                  {delta.previous_value}
+                                  {delta.previous_result_date && (
+                                    <span className="text-xs text-gray-500 ml-1">
+                                      ({format(new Date(delta.previous_result_date), 'MMM d, yyyy')})
+                                    </span>
+                                  )}
+                                </div>
+                                <div className={`text-xs ${delta.delta_flag ? 'text-purple-700 font-semibold' : 'text-gray-500'}`}>
+                                  {formatDelta(delta.delta_value, delta.delta_percent)}
+                                  {delta.delta_flag && ' · Delta check failed'}
+                                </div>
+                              </div>
+                            ) : (
+                              <span className="text-xs text-gray-400">No previous result</span>
+                            )}
+                          </td>
                           <td className="border border-gray-300 p-3">{analyte.department}</td>
                         </tr>
-                      ))}
+                        );
+                      })}
                     </tbody>
                   </table>
                 </div>
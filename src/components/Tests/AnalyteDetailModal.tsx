@@ -24,7 +24,8 @@ interface Analyte {
 interface AnalyteDetailModalProps {
   analyte: Analyte;
   onClose: () => void;
-  onEdit: () => void;
+  // Omitted for users who cannot edit the test catalogue
+  onEdit?: () => void;
 }
 
 const AnalyteDetailModal: React.FC<AnalyteDetailModalProps> = ({ analyte, onClose, onEdit }) => {
@@ -256,13 +257,15 @@ const AnalyteDetailModal: React.FC<AnalyteDetailModalProps> = ({ analyte, onClos
             >
               Close
             </button>
-            <button
-              onClick={onEdit}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-            >
-              <Edit className="h-4 w-4 mr-2" />
-              Edit Analyte
-            </button>
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Analyte
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -1,5 +1,14 @@
 import React, { useState } from 'react';
-import { X, Beaker, AlertTriangle, Settings, Brain } from 'lucide-react';
+import { X, Beaker, AlertTriangle, Settings, Brain, TrendingUp, Scale } from 'lucide-react';
+import ReferenceRangeEditor, { ReferenceRangeRow } from './ReferenceRangeEditor';
+import FormulaEditor, { FormulaSettings } from './FormulaEditor';
+import LoincCodingEditor, { LoincCoding } from './LoincCodingEditor';
+import AnalyteSynonymsEditor from './AnalyteSynonymsEditor';
+import { FormulaVariable, validateFormula } from '../../utils/formulaEngine';
+import { isValidLoincNumber } from '../../utils/loinc';
+import { conversionFactor, suggestAlternateUnit } from '../../utils/unitConversion';
+import { database } from '../../utils/supabase';
+import { describeReferenceRangePartition, formatReferenceRange } from '../../utils/referenceRanges';
 
 interface AnalyteFormProps {
   onClose: () => void;
@@ -14,6 +23,19 @@ interface Analyte {
   referenceRange: string;
   lowCritical?: string;
   highCritical?: string;
+  deltaCheckAbsolute?: number | null;
+  deltaCheckPercent?: number | null;
+  deltaCheckWindowDays?: number | null;
+  isCalculated?: boolean;
+  formula?: string | null;
+  formulaVariables?: FormulaVariable[];
+  formulaValidity?: string | null;
+  formulaDecimals?: number | null;
+  loincCode?: string | null;
+  snomedSpecimenCode?: string | null;
+  alternateUnit?: string | null;
+  molarMass?: number | null;
+  unitConversionFactor?: number | null;
   interpretation: {
     low: string;
     normal: string;
@@ -31,9 +53,15 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
   const [formData, setFormData] = useState({
     name: analyte?.name || '',
     unit: analyte?.unit || '',
+    alternateUnit: analyte?.alternateUnit || '',
+    molarMass: analyte?.molarMass?.toString() || '',
+    unitConversionFactor: analyte?.unitConversionFactor?.toString() || '',
     referenceRange: analyte?.referenceRange || '',
     lowCritical: analyte?.lowCritical || '',
     highCritical: analyte?.highCritical || '',
+    deltaCheckAbsolute: analyte?.deltaCheckAbsolute?.toString() || '',
+    deltaCheckPercent: analyte?.deltaCheckPercent?.toString() || '',
+    deltaCheckWindowDays: analyte?.deltaCheckWindowDays?.toString() || '',
     category: analyte?.category || '',
     interpretationLow: analyte?.interpretation?.low || '',
     interpretationNormal: analyte?.interpretation?.normal || '',
@@ -43,6 +71,67 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
     aiProcessingType: analyte?.aiProcessingType || 'ocr_report',
     aiPromptOverride: analyte?.aiPromptOverride || '',
   });
+  const [referenceRanges, setReferenceRanges] = useState<ReferenceRangeRow[]>([]);
+  // Rows are edited at the current lab's scope (global when the user has no lab); shared rows stay read-only here
+  const [rangeScopeLabId, setRangeScopeLabId] = useState<string | null>(null);
+  const [sharedRanges, setSharedRanges] = useState<ReferenceRangeRow[]>([]);
+  const [rangesLoaded, setRangesLoaded] = useState(false);
+  const [rangesError, setRangesError] = useState<string | null>(null);
+  const [formulaSettings, setFormulaSettings] = useState<FormulaSettings>({
+    isCalculated: analyte?.isCalculated || false,
+    formula: analyte?.formula || '',
+    validity: analyte?.formulaValidity || '',
+    decimals: analyte?.formulaDecimals ?? 2,
+    variables: analyte?.formulaVariables || [],
+  });
+  const [formulaError, setFormulaError] = useState<string | null>(null);
+  const [coding, setCoding] = useState<LoincCoding>({
+    loincCode: analyte?.loincCode || '',
+    snomedSpecimenCode: analyte?.snomedSpecimenCode || '',
+  });
+  const [codingError, setCodingError] = useState<string | null>(null);
+  const [unitError, setUnitError] = useState<string | null>(null);
+  const [sourceAnalytes, setSourceAnalytes] = useState<Array<{ id: string; name: string; unit: string }>>([]);
+
+  // Candidate inputs for calculated analytes
+  React.useEffect(() => {
+    database.analytes.getAll().then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading analytes:', error);
+        return;
+      }
+      setSourceAnalytes(data || []);
+    });
+  }, []);
+
+  // Load existing structured ranges; saving replaces the whole scope, so submit waits for this
+  React.useEffect(() => {
+    let cancelled = false;
+    const loadRanges = async () => {
+      const labId = await database.getCurrentUserLabId();
+      if (cancelled) return;
+      setRangeScopeLabId(labId);
+      if (!analyte?.id) {
+        setRangesLoaded(true);
+        return;
+      }
+      const { data, error } = await database.referenceRanges.getByAnalyteIds([analyte.id], labId);
+      if (cancelled) return;
+      if (error) {
+        console.error('Error loading reference ranges:', error);
+        setRangesError('Reference ranges could not be loaded, so this analyte cannot be saved yet.');
+        return;
+      }
+      const rows: ReferenceRangeRow[] = data || [];
+      setReferenceRanges(rows.filter(row => (row.lab_id || null) === labId));
+      setSharedRanges(labId ? rows.filter(row => !row.lab_id) : []);
+      setRangesLoaded(true);
+    };
+    loadRanges();
+    return () => {
+      cancelled = true;
+    };
+  }, [analyte?.id]);
 
   const categories = [
     'Hematology',
@@ -70,13 +159,60 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!rangesLoaded) return;
+
+    if (formulaSettings.isCalculated) {
+      const error = formulaSettings.formula.trim()
+        ? validateFormula(formulaSettings.formula, formulaSettings.variables, formulaSettings.validity)
+        : 'Enter a formula for the calculated analyte';
+      setFormulaError(error);
+      if (error) return;
+    }
+
+    if (coding.loincCode && !isValidLoincNumber(coding.loincCode)) {
+      setCodingError(`${coding.loincCode} is not a valid LOINC number`);
+      return;
+    }
+
+    const molarMass = formData.molarMass ? parseFloat(formData.molarMass) : null;
+    const unitConversionFactor = formData.unitConversionFactor ? parseFloat(formData.unitConversionFactor) : null;
+    const alternateUnit = formData.alternateUnit.trim();
+    if (alternateUnit && !conversionFactor(formData.unit, alternateUnit, {
+      name: formData.name,
+      unit: formData.unit,
+      alternate_unit: alternateUnit,
+      molar_mass: molarMass,
+      unit_conversion_factor: unitConversionFactor,
+    })) {
+      setUnitError(`Cannot convert ${formData.unit} to ${alternateUnit}. Enter the molar mass or a conversion factor.`);
+      return;
+    }
+
     onSubmit({
       ...formData,
       interpretation: {
         low: formData.interpretationLow,
         normal: formData.interpretationNormal,
         high: formData.interpretationHigh,
-      }
+      },
+      deltaCheckAbsolute: formData.deltaCheckAbsolute ? parseFloat(formData.deltaCheckAbsolute) : null,
+      deltaCheckPercent: formData.deltaCheckPercent ? parseFloat(formData.deltaCheckPercent) : null,
+      deltaCheckWindowDays: formData.deltaCheckWindowDays ? parseInt(formData.deltaCheckWindowDays) : null,
+      isCalculated: formulaSettings.isCalculated,
+      formula: formulaSettings.formula.trim() || null,
+      formulaVariables: formulaSettings.variables,
+      formulaValidity: formulaSettings.validity.trim() || null,
+      formulaDecimals: formulaSettings.decimals,
+      loincCode: coding.loincCode || null,
+      snomedSpecimenCode: coding.snomedSpecimenCode || null,
+      alternateUnit: alternateUnit || null,
+      molarMass,
+      unitConversionFactor,
+      referenceRanges: referenceRanges.filter(row =>
+        (row.low_value !== null && row.low_value !== undefined) ||
+        (row.high_value !== null && row.high_value !== undefined)
+      ),
+      referenceRangesLabId: rangeScopeLabId
     });
   };
 
@@ -175,6 +311,138 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
             </div>
           </div>
 
+          {/* Units */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <Scale className="h-5 w-5 mr-2 text-indigo-600" />
+              Units &amp; Conversion
+            </h3>
+            <p className="text-sm text-gray-600">
+              Results are stored in the unit above. Imported values in another unit are converted before flagging,
+              and reports can print the alternate unit alongside.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Alternate Unit
+                </label>
+                <input
+                  type="text"
+                  name="alternateUnit"
+                  value={formData.alternateUnit}
+                  onChange={(e) => {
+                    handleChange(e);
+                    setUnitError(null);
+                  }}
+                  placeholder={suggestAlternateUnit({ name: formData.name, unit: formData.unit }) || 'e.g., mmol/L'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+                {!formData.alternateUnit && suggestAlternateUnit({ name: formData.name, unit: formData.unit }) && (
+                  <button
+                    type="button"
+                    onClick={() => setFormData(prev => ({ ...prev, alternateUnit: suggestAlternateUnit(prev) || '' }))}
+                    className="text-xs text-indigo-600 hover:text-indigo-800 mt-1"
+                  >
+                    Use {suggestAlternateUnit({ name: formData.name, unit: formData.unit })}
+                  </button>
+                )}
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Molar Mass (g/mol)
+                </label>
+                <input
+                  type="number"
+                  name="molarMass"
+                  min="0"
+                  step="any"
+                  value={formData.molarMass}
+                  onChange={(e) => {
+                    handleChange(e);
+                    setUnitError(null);
+                  }}
+                  placeholder="Built in for common analytes"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Conversion Factor
+                </label>
+                <input
+                  type="number"
+                  name="unitConversionFactor"
+                  min="0"
+                  step="any"
+                  value={formData.unitConversionFactor}
+                  onChange={(e) => {
+                    handleChange(e);
+                    setUnitError(null);
+                  }}
+                  placeholder="Unit × factor = alternate"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+            {unitError && (
+              <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{unitError}</div>
+            )}
+          </div>
+
+          {/* Terminology Coding */}
+          <LoincCodingEditor
+            value={coding}
+            onChange={(value) => {
+              setCoding(value);
+              setCodingError(null);
+            }}
+            name={formData.name}
+            unit={formData.unit}
+          />
+          {codingError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{codingError}</div>
+          )}
+
+          {/* Synonyms (existing analytes only) */}
+          {analyte?.id && <AnalyteSynonymsEditor analyteId={analyte.id} />}
+
+          {/* Calculated Analyte */}
+          <FormulaEditor
+            value={formulaSettings}
+            onChange={(value) => {
+              setFormulaSettings(value);
+              setFormulaError(null);
+            }}
+            analytes={sourceAnalytes}
+            currentAnalyteId={analyte?.id}
+            onApplyPreset={(preset) => setFormData(prev => ({
+              ...prev,
+              name: prev.name || preset.label,
+              unit: prev.unit || preset.unit
+            }))}
+          />
+          {formulaError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{formulaError}</div>
+          )}
+
+          {/* Structured Reference Ranges */}
+          <ReferenceRangeEditor rows={referenceRanges} onChange={setReferenceRanges} />
+          {rangeScopeLabId && sharedRanges.length > 0 && (
+            <div className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+              <div className="font-medium text-gray-700 mb-1">Shared ranges (apply unless overridden above)</div>
+              <ul className="space-y-0.5">
+                {sharedRanges.map((row, index) => (
+                  <li key={row.id || index}>
+                    {describeReferenceRangePartition({ ...row, analyte_id: '' })}: {formatReferenceRange({ ...row, analyte_id: '' })}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {rangesError && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{rangesError}</div>
+          )}
+
           {/* Critical Values */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium text-gray-900 flex items-center">
@@ -212,6 +480,65 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
             </div>
           </div>
 
+          {/* Delta Check */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900 flex items-center">
+              <TrendingUp className="h-5 w-5 mr-2 text-purple-600" />
+              Delta Check
+            </h3>
+            <p className="text-xs text-gray-500">
+              Flags a result for review when it changes from the patient's previous value by more than either limit.
+              Leave both limits empty to disable the check.
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Absolute Change ({formData.unit || 'unit'})
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  name="deltaCheckAbsolute"
+                  value={formData.deltaCheckAbsolute}
+                  onChange={handleChange}
+                  placeholder="e.g., 2.0"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Percent Change (%)
+                </label>
+                <input
+                  type="number"
+                  step="any"
+                  min="0"
+                  name="deltaCheckPercent"
+                  value={formData.deltaCheckPercent}
+                  onChange={handleChange}
+                  placeholder="e.g., 25"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Look-back Window (days)
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  name="deltaCheckWindowDays"
+                  value={formData.deltaCheckWindowDays}
+                  onChange={handleChange}
+                  placeholder="Any previous result"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+            </div>
+          </div>
+
           {/* Clinical Interpretation */}
           <div className="space-y-4">
             <h3 className="text-lg font-medium text-gray-900">Clinical Interpretation</h3>
@@ -370,7 +697,8 @@ const AnalyteForm: React.FC<AnalyteFormProps> = ({ onClose, onSubmit, analyte })
             </button>
             <button
               type="submit"
-              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              disabled={!rangesLoaded}
+              className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {analyte ? 'Update Analyte' : 'Add Analyte'}
             </button>
@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { Languages, Plus, X, Loader2 } from 'lucide-react';
+import { database } from '../../utils/supabase';
+
+interface AnalyteSynonym {
+  id: string;
+  synonym: string;
+  source: 'manual' | 'ai_review';
+  lab_id: string | null;
+}
+
+interface AnalyteSynonymsEditorProps {
+  analyteId: string;
+}
+
+// Synonyms are saved as they are added or removed, independently of the analyte form
+const AnalyteSynonymsEditor: React.FC<AnalyteSynonymsEditorProps> = ({ analyteId }) => {
+  const [synonyms, setSynonyms] = useState<AnalyteSynonym[]>([]);
+  const [newSynonym, setNewSynonym] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    database.analyteSynonyms.getByAnalyte(analyteId).then(({ data, error }) => {
+      if (error) {
+        console.error('Error loading analyte synonyms:', error);
+        return;
+      }
+      setSynonyms(data || []);
+    });
+  }, [analyteId]);
+
+  const handleAdd = async () => {
+    const synonym = newSynonym.trim();
+    if (!synonym) return;
+    setBusy(true);
+    setError(null);
+    const { data, error } = await database.analyteSynonyms.save({ analyte_id: analyteId, synonym });
+    setBusy(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setSynonyms(prev => [...prev.filter(s => s.id !== data.id), data].sort((a, b) => a.synonym.localeCompare(b.synonym)));
+    setNewSynonym('');
+  };
+
+  const handleRemove = async (id: string) => {
+    setError(null);
+    const { error } = await database.analyteSynonyms.delete(id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setSynonyms(prev => prev.filter(s => s.id !== id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-lg font-medium text-gray-900 flex items-center">
+        <Languages className="h-5 w-5 mr-2 text-amber-600" />
+        Synonyms
+      </h3>
+      <p className="text-sm text-gray-600">
+        Other names reports use for this analyte (e.g. Hb, HGB). AI extraction matches them directly.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {synonyms.length === 0 && <span className="text-sm text-gray-400">No synonyms yet</span>}
+        {synonyms.map(synonym => (
+          <span
+            key={synonym.id}
+            className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-amber-50 border border-amber-200 text-amber-800"
+            title={synonym.source === 'ai_review' ? 'Confirmed from AI extraction review' : 'Added manually'}
+          >
+            {synonym.synonym}
+            <button
+              type="button"
+              onClick={() => handleRemove(synonym.id)}
+              className="ml-1 text-amber-500 hover:text-amber-700"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <input
+          type="text"
+          value={newSynonym}
+          onChange={(e) => setNewSynonym(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              handleAdd();
+            }
+          }}
+          placeholder="Add a synonym"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+        />
+        <button
+          type="button"
+          onClick={handleAdd}
+          disabled={busy || !newSynonym.trim()}
+          className="flex items-center px-3 py-2 text-sm border border-amber-300 text-amber-700 rounded-md hover:bg-amber-50 disabled:opacity-50"
+        >
+          {busy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Plus className="h-4 w-4 mr-1" />}
+          Add
+        </button>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+    </div>
+  );
+};
+
+export default AnalyteSynonymsEditor;
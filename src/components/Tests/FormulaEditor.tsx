@@ -0,0 +1,185 @@
+import React from 'react';
+import { Calculator, Plus, Trash2 } from 'lucide-react';
+import { FormulaVariable, FORMULA_PRESETS, FORMULA_BUILTINS, validateFormula } from '../../utils/formulaEngine';
+
+export interface FormulaSettings {
+  isCalculated: boolean;
+  formula: string;
+  validity: string;
+  decimals: number;
+  variables: FormulaVariable[];
+}
+
+interface FormulaEditorProps {
+  value: FormulaSettings;
+  onChange: (value: FormulaSettings) => void;
+  analytes: Array<{ id: string; name: string; unit: string }>;
+  currentAnalyteId?: string;
+  onApplyPreset?: (preset: { label: string; unit: string }) => void;
+}
+
+const FormulaEditor: React.FC<FormulaEditorProps> = ({ value, onChange, analytes, currentAnalyteId, onApplyPreset }) => {
+  const update = (patch: Partial<FormulaSettings>) => onChange({ ...value, ...patch });
+
+  const updateVariable = (index: number, patch: Partial<FormulaVariable>) => {
+    update({ variables: value.variables.map((v, i) => (i === index ? { ...v, ...patch } : v)) });
+  };
+
+  const applyPreset = (key: string) => {
+    const preset = FORMULA_PRESETS.find(p => p.key === key);
+    if (!preset) return;
+    update({
+      formula: preset.formula,
+      validity: preset.validity || '',
+      decimals: preset.decimals,
+      // Keep bindings the user already made for variables of the same name
+      variables: preset.variables.map(v => ({
+        name: v.name,
+        unit: v.unit,
+        analyte_id: value.variables.find(existing => existing.name === v.name)?.analyte_id ||
+          analytes.find(a => a.name.toLowerCase() === v.label.toLowerCase())?.id || ''
+      }))
+    });
+    onApplyPreset?.({ label: preset.label, unit: preset.unit });
+  };
+
+  const validationError = value.isCalculated && value.formula.trim()
+    ? validateFormula(value.formula, value.variables, value.validity)
+    : null;
+
+  const sourceAnalytes = analytes.filter(a => a.id !== currentAnalyteId);
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Calculator className="h-5 w-5 mr-2 text-indigo-600" />
+          Calculated Analyte
+        </h3>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={value.isCalculated}
+            onChange={(e) => update({ isCalculated: e.target.checked })}
+            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded mr-2"
+          />
+          Compute from other analytes
+        </label>
+      </div>
+
+      {value.isCalculated && (
+        <div className="border border-indigo-100 bg-indigo-50 rounded-lg p-4 space-y-3">
+          <p className="text-xs text-gray-600">
+            Source analytes must be in the same test group as this analyte. The value is computed when the
+            source results are saved. Available functions: min, max, abs, sqrt, ln, log10, exp, pow, round, if(cond, a, b).
+            Patient built-ins: {FORMULA_BUILTINS.join(', ')}.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Start from preset</label>
+              <select value="" onChange={(e) => applyPreset(e.target.value)} className={inputClass}>
+                <option value="">Select a preset...</option>
+                {FORMULA_PRESETS.map(preset => (
+                  <option key={preset.key} value={preset.key}>{preset.label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Valid only when</label>
+              <input
+                type="text"
+                value={value.validity}
+                onChange={(e) => update({ validity: e.target.value })}
+                placeholder="e.g., TG <= 400"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Decimals</label>
+              <input
+                type="number"
+                min="0"
+                max="6"
+                value={value.decimals}
+                onChange={(e) => update({ decimals: parseInt(e.target.value) || 0 })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Formula *</label>
+            <input
+              type="text"
+              value={value.formula}
+              onChange={(e) => update({ formula: e.target.value })}
+              placeholder="e.g., TC - HDL - TG / 5"
+              className={`${inputClass} font-mono`}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-medium text-gray-700">Inputs</span>
+              <button
+                type="button"
+                onClick={() => update({ variables: [...value.variables, { name: '', analyte_id: '', unit: '' }] })}
+                className="flex items-center text-xs text-indigo-700 hover:text-indigo-900"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Input
+              </button>
+            </div>
+            {value.variables.map((variable, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <input
+                  type="text"
+                  value={variable.name}
+                  onChange={(e) => updateVariable(index, { name: e.target.value.replace(/[^A-Za-z0-9_]/g, '') })}
+                  placeholder="Name"
+                  className={`${inputClass} col-span-3 font-mono`}
+                />
+                <select
+                  value={variable.analyte_id}
+                  onChange={(e) => {
+                    const source = analytes.find(a => a.id === e.target.value);
+                    updateVariable(index, { analyte_id: e.target.value, unit: variable.unit || source?.unit || '' });
+                  }}
+                  className={`${inputClass} col-span-5`}
+                >
+                  <option value="">Select source analyte...</option>
+                  {sourceAnalytes.map(a => (
+                    <option key={a.id} value={a.id}>{a.name} ({a.unit})</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={variable.unit || ''}
+                  onChange={(e) => updateVariable(index, { unit: e.target.value })}
+                  placeholder="Expected unit"
+                  className={`${inputClass} col-span-3`}
+                />
+                <button
+                  type="button"
+                  onClick={() => update({ variables: value.variables.filter((_, i) => i !== index) })}
+                  className="col-span-1 text-red-500 hover:text-red-700 p-1"
+                  title="Remove input"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          {validationError && (
+            <div className="text-sm text-red-600">{validationError}</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FormulaEditor;
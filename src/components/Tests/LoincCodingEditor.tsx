@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Tags, Sparkles, Loader2, Check } from 'lucide-react';
+import { isValidLoincNumber, LoincSuggestion, SNOMED_SPECIMENS, snomedSpecimenFor } from '../../utils/loinc';
+import { database } from '../../utils/supabase';
+
+export interface LoincCoding {
+  loincCode: string;
+  snomedSpecimenCode: string;
+}
+
+interface LoincCodingEditorProps {
+  value: LoincCoding;
+  onChange: (value: LoincCoding) => void;
+  // Inputs to the suggestion assistant
+  name: string;
+  unit?: string;
+  sampleType?: string;
+  title?: string;
+}
+
+// One entry per SNOMED concept; several sample types share a concept (e.g. Blood / EDTA Blood)
+const specimenOptions = Object.entries(SNOMED_SPECIMENS).filter(
+  ([, specimen], index, all) => all.findIndex(([, other]) => other.code === specimen.code) === index
+);
+
+const LoincCodingEditor: React.FC<LoincCodingEditorProps> = ({ value, onChange, name, unit, sampleType, title = 'Coding (LOINC / SNOMED CT)' }) => {
+  const [suggestions, setSuggestions] = useState<LoincSuggestion[] | null>(null);
+  const [suggesting, setSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+
+  // An explicit specimen wins over the sample type when ranking suggestions
+  const specimen = specimenOptions.find(([, option]) => option.code === value.snomedSpecimenCode)?.[0] || sampleType;
+
+  const loincError = value.loincCode.trim() && !isValidLoincNumber(value.loincCode)
+    ? 'Not a valid LOINC number (check digit mismatch or wrong format, e.g. 2345-7)'
+    : null;
+
+  const handleSuggest = async () => {
+    setSuggesting(true);
+    setSuggestError(null);
+    const { data, error } = await database.loinc.suggest({ name, unit, specimen });
+    setSuggesting(false);
+    if (error) {
+      setSuggestError(error.message);
+      return;
+    }
+    setSuggestions(data || []);
+  };
+
+  const applySuggestion = (suggestion: LoincSuggestion) => {
+    onChange({
+      loincCode: suggestion.code.loinc_num,
+      snomedSpecimenCode: value.snomedSpecimenCode || snomedSpecimenFor(specimen)?.code || ''
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Tags className="h-5 w-5 mr-2 text-teal-600" />
+          {title}
+        </h3>
+        <button
+          type="button"
+          onClick={handleSuggest}
+          disabled={!name.trim() || suggesting}
+          className="flex items-center px-3 py-1.5 text-sm border border-teal-300 text-teal-700 rounded-md hover:bg-teal-50 disabled:opacity-50"
+        >
+          {suggesting ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Sparkles className="h-4 w-4 mr-1" />}
+          Suggest codes
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            LOINC Code
+          </label>
+          <input
+            type="text"
+            value={value.loincCode}
+            onChange={(e) => onChange({ ...value, loincCode: e.target.value.trim() })}
+            placeholder="e.g., 718-7"
+            className={inputClass}
+          />
+          {loincError && <div className="text-xs text-red-600 mt-1">{loincError}</div>}
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Specimen (SNOMED CT)
+          </label>
+          <select
+            value={value.snomedSpecimenCode}
+            onChange={(e) => onChange({ ...value, snomedSpecimenCode: e.target.value })}
+            className={inputClass}
+          >
+            <option value="">
+              {sampleType && snomedSpecimenFor(sampleType)
+                ? `From sample type (${snomedSpecimenFor(sampleType)?.display})`
+                : 'Not specified'}
+            </option>
+            {specimenOptions.map(([label, option]) => (
+              <option key={label} value={option.code}>{option.display} ({option.code})</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {suggestError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{suggestError}</div>
+      )}
+
+      {suggestions && (
+        <div className="border border-teal-100 bg-teal-50 rounded-lg p-3">
+          {suggestions.length === 0 ? (
+            <p className="text-sm text-gray-600">
+              No matching LOINC codes. Import the LOINC table from the Tests page, or enter the code manually.
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {suggestions.map(suggestion => (
+                <li key={suggestion.code.loinc_num} className="flex items-start justify-between bg-white rounded-md border border-gray-200 p-2">
+                  <div className="text-sm">
+                    <div className="font-medium text-gray-900">
+                      {suggestion.code.loinc_num} &middot; {suggestion.code.long_common_name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {[suggestion.code.system, suggestion.code.property, suggestion.code.scale_typ, suggestion.code.example_ucum_units]
+                        .filter(Boolean).join(' · ')}
+                      {suggestion.reasons.length > 0 && ` — ${suggestion.reasons.join(', ')}`}
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => applySuggestion(suggestion)}
+                    className="ml-3 flex items-center px-2 py-1 text-xs bg-teal-600 text-white rounded hover:bg-teal-700"
+                  >
+                    {value.loincCode === suggestion.code.loinc_num ? <Check className="h-3 w-3 mr-1" /> : null}
+                    Use
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoincCodingEditor;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { X, Upload, Tags, Loader2, AlertTriangle } from 'lucide-react';
+import { LoincCode, parseLoincCsv } from '../../utils/loinc';
+import { database } from '../../utils/supabase';
+
+interface LoincImportModalProps {
+  onClose: () => void;
+}
+
+interface ParsedFile {
+  fileName: string;
+  codes: LoincCode[];
+  skipped: Array<{ line: number; reason: string }>;
+}
+
+const LoincImportModal: React.FC<LoincImportModalProps> = ({ onClose }) => {
+  const [parsed, setParsed] = useState<ParsedFile | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [imported, setImported] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        setParsed({ fileName: file.name, ...parseLoincCsv(String(reader.result || '')) });
+        setError(null);
+      } catch (err) {
+        setParsed(null);
+        setError(err instanceof Error ? err.message : 'Could not read the LOINC file');
+      }
+    };
+    reader.readAsText(file);
+    setImported(null);
+  };
+
+  const codesToImport = parsed?.codes || [];
+
+  const handleImport = async () => {
+    if (codesToImport.length === 0) return;
+    setImporting(true);
+    setError(null);
+    const { data, error } = await database.loinc.importCodes(codesToImport);
+    setImporting(false);
+    setImported(data?.imported ?? 0);
+    if (error) setError(`Import stopped after ${data?.imported ?? 0} codes: ${error.message}`);
+  };
+
+  const classCounts = codesToImport.reduce<Record<string, number>>((counts, code) => {
+    const key = code.class || 'Unclassified';
+    counts[key] = (counts[key] || 0) + 1;
+    return counts;
+  }, {});
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-6 border-b border-gray-200">
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <Tags className="h-6 w-6 mr-2 text-teal-600" />
+            Import LOINC Codes
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload Loinc.csv from the LOINC table distribution, or a subset with the same column headers
+            (LOINC_NUM, COMPONENT, SYSTEM, LONG_COMMON_NAME, EXAMPLE_UCUM_UNITS, ...). Existing codes are updated in place.
+          </p>
+
+          <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+            <Upload className="h-5 w-5 mr-2 text-gray-500" />
+            <span className="text-sm text-gray-700">{parsed ? parsed.fileName : 'Choose LOINC CSV file'}</span>
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])}
+            />
+          </label>
+
+          {parsed && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-3 text-center">
+                <div className="bg-teal-50 rounded-lg p-3">
+                  <div className="text-2xl font-bold text-teal-700">{codesToImport.length}</div>
+                  <div className="text-xs text-gray-600">codes to import</div>
+                </div>
+                <div className="bg-amber-50 rounded-lg p-3">
+                  <div className="text-2xl font-bold text-amber-700">{parsed.skipped.length}</div>
+                  <div className="text-xs text-gray-600">rows skipped (invalid, duplicate or deprecated)</div>
+                </div>
+              </div>
+
+              {Object.keys(classCounts).length > 0 && (
+                <div className="text-xs text-gray-600">
+                  <span className="font-medium">By class: </span>
+                  {Object.entries(classCounts)
+                    .sort((a, b) => b[1] - a[1])
+                    .slice(0, 12)
+                    .map(([name, count]) => `${name} (${count})`)
+                    .join(', ')}
+                </div>
+              )}
+
+              {parsed.skipped.length > 0 && (
+                <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs text-amber-800 max-h-32 overflow-y-auto">
+                  {parsed.skipped.slice(0, 50).map(row => (
+                    <div key={row.line}>Line {row.line}: {row.reason}</div>
+                  ))}
+                  {parsed.skipped.length > 50 && <div>… and {parsed.skipped.length - 50} more</div>}
+                </div>
+              )}
+            </div>
+          )}
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-start">
+              <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+              {error}
+            </div>
+          )}
+          {imported !== null && !error && (
+            <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-700">
+              Imported {imported} LOINC codes.
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-end space-x-4 p-6 border-t border-gray-200">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={importing || codesToImport.length === 0}
+            className="flex items-center px-6 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 transition-colors disabled:opacity-50"
+          >
+            {importing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {codesToImport.length > 0 ? codesToImport.length : ''} Codes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LoincImportModal;
@@ -29,7 +29,8 @@ interface PackageDetailModalProps {
   package: PackageType;
   testGroups: TestGroup[];
   onClose: () => void;
-  onEdit: () => void;
+  // Omitted for users who cannot edit the test catalogue
+  onEdit?: () => void;
 }
 
 const PackageDetailModal: React.FC<PackageDetailModalProps> = ({ package: pkg, testGroups, onClose, onEdit }) => {
@@ -219,13 +220,15 @@ const PackageDetailModal: React.FC<PackageDetailModalProps> = ({ package: pkg, t
             >
               Close
             </button>
-            <button
-              onClick={onEdit}
-              className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
-            >
-              <Edit className="h-4 w-4 mr-2" />
-              Edit Package
-            </button>
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 transition-colors"
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Package
+              </button>
+            )}
           </div>
         </div>
       </div>
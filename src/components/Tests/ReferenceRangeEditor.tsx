@@ -0,0 +1,214 @@
+import React from 'react';
+import { Plus, Trash2, Users } from 'lucide-react';
+import {
+  AnalyteReferenceRange,
+  AgeBand,
+  AgeUnit,
+  ReferenceRangeSex,
+  formatReferenceRange,
+  describeReferenceRangePartition
+} from '../../utils/referenceRanges';
+
+export type ReferenceRangeRow = Omit<AnalyteReferenceRange, 'analyte_id'> & { analyte_id?: string };
+
+interface ReferenceRangeEditorProps {
+  rows: ReferenceRangeRow[];
+  onChange: (rows: ReferenceRangeRow[]) => void;
+}
+
+const sampleTypes = ['', 'EDTA Blood', 'Serum', 'Plasma', 'Urine', 'CSF', 'Other'];
+
+const emptyRow = (): ReferenceRangeRow => ({
+  sex: 'any',
+  age_band: null,
+  age_min: null,
+  age_max: null,
+  age_unit: 'years',
+  pregnancy_trimester: null,
+  specimen_type: null,
+  low_value: null,
+  high_value: null,
+  display_text: null,
+});
+
+const parseOptionalNumber = (value: string): number | null => {
+  if (value.trim() === '') return null;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const ReferenceRangeEditor: React.FC<ReferenceRangeEditorProps> = ({ rows, onChange }) => {
+  const updateRow = (index: number, patch: Partial<ReferenceRangeRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(rows.filter((_, i) => i !== index));
+  };
+
+  const inputClass = 'w-full px-2 py-1 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-medium text-gray-900 flex items-center">
+          <Users className="h-5 w-5 mr-2 text-teal-600" />
+          Demographic Reference Ranges
+        </h3>
+        <button
+          type="button"
+          onClick={() => onChange([...rows, emptyRow()])}
+          className="flex items-center px-3 py-1 text-sm bg-teal-50 text-teal-700 border border-teal-200 rounded-md hover:bg-teal-100"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Range
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Rows are matched against the patient on the order (sex, age, pregnancy trimester, specimen).
+        The most specific matching row is used for flagging; the text range above is the fallback.
+      </p>
+
+      {rows.length === 0 ? (
+        <div className="text-sm text-gray-400 italic">No structured ranges defined</div>
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={row.id || index} className="border border-gray-200 rounded-lg p-3 bg-gray-50">
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Sex</label>
+                  <select
+                    value={row.sex}
+                    onChange={(e) => updateRow(index, { sex: e.target.value as ReferenceRangeSex })}
+                    className={inputClass}
+                  >
+                    <option value="any">Any</option>
+                    <option value="M">Male</option>
+                    <option value="F">Female</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Age Band</label>
+                  <select
+                    value={row.age_band || ''}
+                    onChange={(e) => updateRow(index, { age_band: (e.target.value || null) as AgeBand | null })}
+                    className={inputClass}
+                  >
+                    <option value="">Any / custom</option>
+                    <option value="neonate">Neonate</option>
+                    <option value="child">Child</option>
+                    <option value="adult">Adult</option>
+                    <option value="geriatric">Geriatric</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Age From / To</label>
+                  <div className="flex space-x-1">
+                    <input
+                      type="number"
+                      value={row.age_min ?? ''}
+                      onChange={(e) => updateRow(index, { age_min: parseOptionalNumber(e.target.value) })}
+                      className={inputClass}
+                    />
+                    <input
+                      type="number"
+                      value={row.age_max ?? ''}
+                      onChange={(e) => updateRow(index, { age_max: parseOptionalNumber(e.target.value) })}
+                      className={inputClass}
+                    />
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Age Unit</label>
+                  <select
+                    value={row.age_unit}
+                    onChange={(e) => updateRow(index, { age_unit: e.target.value as AgeUnit })}
+                    className={inputClass}
+                  >
+                    <option value="years">Years</option>
+                    <option value="days">Days</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Trimester</label>
+                  <select
+                    value={row.pregnancy_trimester || ''}
+                    onChange={(e) => updateRow(index, {
+                      pregnancy_trimester: e.target.value ? (parseInt(e.target.value) as 1 | 2 | 3) : null
+                    })}
+                    className={inputClass}
+                  >
+                    <option value="">Not pregnant / any</option>
+                    <option value="1">1st</option>
+                    <option value="2">2nd</option>
+                    <option value="3">3rd</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Specimen</label>
+                  <select
+                    value={row.specimen_type || ''}
+                    onChange={(e) => updateRow(index, { specimen_type: e.target.value || null })}
+                    className={inputClass}
+                  >
+                    {sampleTypes.map(type => (
+                      <option key={type} value={type}>{type || 'Any'}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-6 gap-2 mt-2 items-end">
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">Low</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={row.low_value ?? ''}
+                    onChange={(e) => updateRow(index, { low_value: parseOptionalNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-600 mb-1">High</label>
+                  <input
+                    type="number"
+                    step="any"
+                    value={row.high_value ?? ''}
+                    onChange={(e) => updateRow(index, { high_value: parseOptionalNumber(e.target.value) })}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-xs text-gray-600 mb-1">Report Text (optional)</label>
+                  <input
+                    type="text"
+                    value={row.display_text || ''}
+                    onChange={(e) => updateRow(index, { display_text: e.target.value || null })}
+                    placeholder={formatReferenceRange({ ...row, analyte_id: '', display_text: null }) || 'e.g., 11.0-14.5'}
+                    className={inputClass}
+                  />
+                </div>
+                <div className="text-xs text-gray-500">
+                  {describeReferenceRangePartition({ ...row, analyte_id: '' })}
+                </div>
+                <div className="text-right">
+                  <button
+                    type="button"
+                    onClick={() => removeRow(index)}
+                    className="text-red-500 hover:text-red-700 p-1"
+                    title="Remove range"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReferenceRangeEditor;
@@ -22,7 +22,8 @@ interface Test {
 interface TestDetailModalProps {
   test: Test;
   onClose: () => void;
-  onEdit: () => void;
+  // Omitted for users who cannot edit the test catalogue
+  onEdit?: () => void;
 }
 
 const TestDetailModal: React.FC<TestDetailModalProps> = ({ test, onClose, onEdit }) => {
@@ -159,13 +160,15 @@ const TestDetailModal: React.FC<TestDetailModalProps> = ({ test, onClose, onEdit
             >
               Close
             </button>
-            <button
-              onClick={onEdit}
-              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
-            >
-              <Edit className="h-4 w-4 mr-2" />
-              Edit Test
-            </button>
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Test
+              </button>
+            )}
           </div>
         </div>
       </div>
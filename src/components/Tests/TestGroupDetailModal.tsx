@@ -28,7 +28,8 @@ interface TestGroupDetailModalProps {
   testGroup: TestGroup;
   analytes: Analyte[];
   onClose: () => void;
-  onEdit: () => void;
+  // Omitted for users who cannot edit the test catalogue
+  onEdit?: () => void;
 }
 
 const TestGroupDetailModal: React.FC<TestGroupDetailModalProps> = ({ testGroup, analytes, onClose, onEdit }) => {
@@ -187,13 +188,15 @@ const TestGroupDetailModal: React.FC<TestGroupDetailModalProps> = ({ testGroup,
             >
               Close
             </button>
-            <button
-              onClick={onEdit}
-              className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
-            >
-              <Edit className="h-4 w-4 mr-2" />
-              Edit Test Group
-            </button>
+            {onEdit && (
+              <button
+                onClick={onEdit}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors"
+              >
+                <Edit className="h-4 w-4 mr-2" />
+                Edit Test Group
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -2,6 +2,8 @@ import React, { useState, useEffect } from 'react';
 import { X, Layers, TestTube, DollarSign, Clock, Settings, Plus, Search, AlertCircle, Brain } from 'lucide-react';
 import { database, supabase } from '../../utils/supabase';
 import AnalyteForm from './AnalyteForm';
+import LoincCodingEditor, { LoincCoding } from './LoincCodingEditor';
+import { isValidLoincNumber, snomedSpecimenFor } from '../../utils/loinc';
 
 interface TestGroupFormProps {
   onClose: () => void;
@@ -24,6 +26,8 @@ interface TestGroup {
   createdDate: string;
   lab_id?: string;
   to_be_copied?: boolean;
+  loincCode?: string | null;
+  snomedSpecimenCode?: string | null;
 }
 
 const TestGroupForm: React.FC<TestGroupFormProps> = ({ onClose, onSubmit, testGroup }) => {
@@ -42,6 +46,10 @@ const TestGroupForm: React.FC<TestGroupFormProps> = ({ onClose, onSubmit, testGr
     group_level_prompt: testGroup?.group_level_prompt || '',
   });
 
+  const [coding, setCoding] = useState<LoincCoding>({
+    loincCode: testGroup?.loincCode || '',
+    snomedSpecimenCode: testGroup?.snomedSpecimenCode || '',
+  });
   const [analytes, setAnalytes] = useState([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [showAnalyteForm, setShowAnalyteForm] = useState(false);
@@ -149,6 +157,11 @@ const TestGroupForm: React.FC<TestGroupFormProps> = ({ onClose, onSubmit, testGr
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (coding.loincCode && !isValidLoincNumber(coding.loincCode)) {
+      alert(`${coding.loincCode} is not a valid LOINC number`);
+      return;
+    }
     
     try {
       // Get current user's lab_id
@@ -160,6 +173,9 @@ const TestGroupForm: React.FC<TestGroupFormProps> = ({ onClose, onSubmit, testGr
         price: parseFloat(formData.price),
         default_ai_processing_type: formData.default_ai_processing_type,
         group_level_prompt: formData.group_level_prompt,
+        loincCode: coding.loincCode || null,
+        // Specimen falls back to the SNOMED concept for the selected sample type
+        snomedSpecimenCode: coding.snomedSpecimenCode || snomedSpecimenFor(formData.sampleType)?.code || null,
         lab_id: labId, // Add lab_id for lab-specific test group
         to_be_copied: false, // Default to not template (owner will promote manually)
       });
@@ -302,6 +318,15 @@ const TestGroupForm: React.FC<TestGroupFormProps> = ({ onClose, onSubmit, testGr
             </div>
           </div>
 
+          {/* Terminology Coding */}
+          <LoincCodingEditor
+            value={coding}
+            onChange={setCoding}
+            name={formData.name}
+            sampleType={formData.sampleType}
+            title="Panel Coding (LOINC / SNOMED CT)"
+          />
+
           {/* Analyte Selection */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -1,35 +1,180 @@
 import React, { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Loader2, AlertTriangle, Upload } from 'lucide-react';
 import workflow from '../../workflows/cbcPeripheralSmearExample.json';
-import { WorkflowRunner, WorkflowStep } from '../../workflows/workflowEngine';
+import { WorkflowDefinition, WorkflowRunner } from '../../workflows/workflowEngine';
+import { hasBlockingIssues, validateWorkflowDefinition } from '../../workflows/workflowSchema';
+import { loadOrderWorkflowRunner } from '../../workflows/orderWorkflowStore';
+import { database } from '../../utils/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import WorkflowRunnerView from './WorkflowRunnerView';
 
-// Very lightweight demo UI; not wired into orders/results yet.
+const definition = workflow as WorkflowDefinition;
+const validationIssues = validateWorkflowDefinition(workflow);
+
+// Runs the lab's published workflow for an order (/orders/:orderId/workflow). Without an order the bundled
+// CBC + smear definition runs in memory as a preview, and can be published for a test.
 const PeripheralSmearDemo: React.FC = () => {
-  const [runner] = useState(() => new WorkflowRunner(workflow as any));
-  const [step, setStep] = useState<WorkflowStep | undefined>();
-  const [log, setLog] = useState<string[]>([]);
+  const { user, hasPermission } = useAuth();
+  const params = useParams<{ orderId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const orderId = params.orderId || searchParams.get('orderId');
+  const [orderInput, setOrderInput] = useState(orderId || '');
+  const [runner, setRunner] = useState<WorkflowRunner | null>(null);
+  const [orderLabel, setOrderLabel] = useState<string | null>(null);
+  const [title, setTitle] = useState(definition.name);
+  const [testGroups, setTestGroups] = useState<Array<{ code: string; name: string }>>([]);
+  const [publishCode, setPublishCode] = useState('');
+  const [publishing, setPublishing] = useState(false);
+  const [publishMessage, setPublishMessage] = useState<string | null>(null);
+  const [patientGender, setPatientGender] = useState<string | null>(null);
+  const [resumed, setResumed] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    runner.on(evt => {
-      if (evt.type === 'step.enter') setStep(evt.step);
-      setLog(l => [...l, evt.type + (evt.step ? ':' + evt.step.id : '')]);
-    });
-    runner.start();
-  }, [runner]);
+    let cancelled = false;
+
+    const load = async () => {
+      setError(null);
+      setRunner(null);
+      setResumed(false);
+
+      if (!orderId) {
+        setOrderLabel(null);
+        setTitle(definition.name);
+        if (!hasBlockingIssues(validationIssues)) setRunner(new WorkflowRunner(definition));
+        return;
+      }
+
+      setLoading(true);
+      try {
+        const { data: order, error: orderError } = await database.orders.getById(orderId);
+        if (orderError || !order) throw new Error(orderError?.message || 'Order not found');
+        const { data: patient } = await database.patients.getById(order.patient_id);
+
+        const loaded = await loadOrderWorkflowRunner(
+          { id: order.id, patient_id: order.patient_id, patient_name: order.patient_name, patient_gender: patient?.gender },
+          user?.user_metadata?.full_name || user?.email || 'Unknown User'
+        );
+        if (cancelled) return;
+        setTitle(loaded.runner.getState().definition.name);
+        setOrderLabel(`${order.patient_name}${order.sample_id ? ` · ${order.sample_id}` : ''}`);
+        setPatientGender(patient?.gender || null);
+        setResumed(loaded.resumed);
+        setRunner(loaded.runner);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load workflow');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
 
-  const advance = () => runner.next({ timestamp: Date.now() });
+    load();
+    return () => { cancelled = true; };
+  }, [orderId, user]);
 
-  if (!step) return <div className="p-4">Loading workflow...</div>;
-  if (runner.getState().complete) return <div className="p-4">Workflow Complete<div className='mt-4 text-xs whitespace-pre-wrap bg-gray-50 p-2 border rounded'>{log.join('\n')}</div></div>;
+  const canPublish = !orderId && hasPermission('test_management') && !hasBlockingIssues(validationIssues);
+
+  useEffect(() => {
+    if (!canPublish) return;
+    database.testGroups.getAll().then(({ data }) => {
+      setTestGroups((data || []).map((g: { code: string; name: string }) => ({ code: g.code, name: g.name })));
+    });
+  }, [canPublish]);
+
+  // Stores the bundled definition as the lab's published version and maps it to the test,
+  // so new orders for that test run it
+  const handlePublish = async () => {
+    if (!publishCode) return;
+    setPublishing(true);
+    setPublishMessage(null);
+    setError(null);
+    try {
+      const labId = await database.getCurrentUserLabId();
+      if (!labId) throw new Error('Select a lab before publishing a workflow');
+      const { data: version, error: registerError } = await database.workflows.registerDefinition(labId, definition);
+      if (registerError || !version) throw new Error(registerError?.message || 'Failed to publish workflow');
+      const { error: mapError } = await database.workflows.mapToTest(labId, publishCode, version.id);
+      if (mapError) throw new Error(mapError.message);
+      setPublishMessage(`Version ${version.version} is now used for new ${publishCode} orders`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to publish workflow');
+    } finally {
+      setPublishing(false);
+    }
+  };
 
   return (
     <div className="p-4 space-y-4">
-      <h2 className="text-lg font-semibold">Peripheral Smear Demo</h2>
-      <div className="border rounded p-4 bg-white shadow-sm">
-        <div className="text-sm font-medium mb-2">Step: {step.id}</div>
-        <pre className="text-xs bg-gray-50 p-2 rounded border overflow-x-auto">{JSON.stringify(step, null, 2)}</pre>
-        <button onClick={advance} className="mt-4 px-4 py-2 bg-blue-600 text-white rounded">Next</button>
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold">{title}</h2>
+          <p className="text-sm text-gray-500">
+            {orderLabel
+              ? `Order: ${orderLabel}${resumed ? ' (resumed)' : ''}`
+              : 'Preview mode - link an order to save progress and create results'}
+          </p>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            navigate(orderInput.trim() ? `/orders/${orderInput.trim()}/workflow` : '/workflow-demo/peripheral-smear');
+          }}
+          className="flex space-x-2"
+        >
+          <input
+            type="text"
+            value={orderInput}
+            onChange={(e) => setOrderInput(e.target.value)}
+            placeholder="Order ID"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <button type="submit" className="px-3 py-2 text-sm bg-gray-800 text-white rounded-md">Open</button>
+        </form>
       </div>
-      <div className="text-xs whitespace-pre-wrap bg-gray-50 p-2 border rounded">{log.join('\n')}</div>
+
+      {canPublish && (
+        <div className="flex items-center space-x-2 text-sm">
+          <select
+            value={publishCode}
+            onChange={(e) => setPublishCode(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md"
+          >
+            <option value="">Select test...</option>
+            {testGroups.map(g => <option key={g.code} value={g.code}>{g.name} ({g.code})</option>)}
+          </select>
+          <button
+            onClick={handlePublish}
+            disabled={!publishCode || publishing}
+            className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md disabled:opacity-50"
+          >
+            {publishing ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Upload className="h-4 w-4 mr-1" />}
+            Publish v{definition.version} for test
+          </button>
+          {publishMessage && <span className="text-green-700">{publishMessage}</span>}
+        </div>
+      )}
+      {!orderId && validationIssues.length > 0 && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-sm text-yellow-800 space-y-1">
+          {validationIssues.map((issue, i) => (
+            <div key={i} className="flex items-center">
+              <AlertTriangle className={`h-4 w-4 mr-1 ${issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'}`} />
+              {issue.stepId && <span className="font-mono mr-1">[{issue.stepId}]</span>}
+              {issue.message}
+            </div>
+          ))}
+        </div>
+      )}
+      {error && <div className="bg-red-50 border border-red-200 rounded p-3 text-sm text-red-700">{error}</div>}
+      {loading && (
+        <div className="flex items-center text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          Loading workflow instance...
+        </div>
+      )}
+      {runner && <WorkflowRunnerView key={orderId || 'preview'} runner={runner} patientGender={patientGender} />}
     </div>
   );
 };
@@ -0,0 +1,356 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, ArrowRight, CheckCircle, SkipForward, Loader2, AlertTriangle, Database, Camera, Play, Pause, Clock } from 'lucide-react';
+import { WorkflowRunner, WorkflowStep } from '../../workflows/workflowEngine';
+import { buildCommitValues } from '../../workflows/orderWorkflowStore';
+
+interface WorkflowRunnerViewProps {
+  runner: WorkflowRunner;
+  patientGender?: string | null;
+  onComplete?: () => void;
+}
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+// Step UI for WorkflowRunner, shared by order workflows and AI protocols; one form per step type
+const WorkflowRunnerView: React.FC<WorkflowRunnerViewProps> = ({ runner, patientGender, onComplete }) => {
+  const [step, setStep] = useState<WorkflowStep | undefined>(runner.currentStep());
+  const [complete, setComplete] = useState(runner.getState().complete);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [log, setLog] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [skipReason, setSkipReason] = useState('');
+  const [showSkip, setShowSkip] = useState(false);
+  const [files, setFiles] = useState<File[]>([]);
+  const [, setTick] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = runner.on(evt => {
+      if (evt.type === 'step.enter') {
+        setStep(evt.step);
+        setFiles([]);
+        // Pre-fill with whatever was captured the last time this step was visited
+        const previous = evt.step ? evt.state.data[evt.step.id] : undefined;
+        setForm(previous && typeof previous === 'object'
+          ? Object.fromEntries(Object.entries(previous as Record<string, unknown>).map(([k, v]) => [k, String(v ?? '')]))
+          : {});
+      }
+      if (evt.type === 'workflow.complete') {
+        setComplete(true);
+        onComplete?.();
+      }
+      if (evt.type === 'step.error') {
+        setError((evt.payload as { message?: string })?.message || 'Step failed');
+      }
+      setLog(l => [...l, evt.type + (evt.step ? ':' + evt.step.id : '')]);
+    });
+    runner.start().catch(() => undefined);
+    return unsubscribe;
+  }, [runner, onComplete]);
+
+  // Timer state lives in the runner (wall-clock based); this only re-renders the countdown
+  const timerRunning = step?.type === 'timer' && runner.isTimerRunning(step.id);
+  useEffect(() => {
+    if (!timerRunning) return;
+    const interval = setInterval(() => setTick(t => t + 1), 1000);
+    return () => clearInterval(interval);
+  }, [timerRunning]);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch {
+      // step.error listener already surfaced the message
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (!step) return;
+    if (step.type === 'review') {
+      const missing = step.fields.filter(f => !step.optional_fields?.includes(f) && !form[f]?.trim());
+      if (missing.length > 0) {
+        setError(`Enter ${missing.join(', ')}`);
+        return;
+      }
+    }
+    if (step.type === 'capture' && step.capture_type === 'image' && files.length === 0 && !form.note?.trim()) {
+      setError('Capture an image or add a note');
+      return;
+    }
+    if (step.type === 'capture' && step.capture_type === 'numerical' && isNaN(parseFloat(form.value))) {
+      setError('Enter a numeric value');
+      return;
+    }
+    const payload = step.type === 'info' || step.type === 'commit' || step.type === 'timer'
+      ? undefined
+      : step.type === 'analyze'
+        ? { algorithm: step.algorithm, ran_at: new Date().toISOString(), ...form }
+        : { ...form, captured_at: new Date().toISOString() };
+    run(() => runner.next(payload, files));
+  };
+
+  const handleSkip = () => {
+    run(async () => {
+      await runner.skip(skipReason);
+      setSkipReason('');
+      setShowSkip(false);
+    });
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+  if (complete) {
+    return (
+      <div className="border rounded-lg p-6 bg-green-50 text-green-800 flex items-center">
+        <CheckCircle className="h-5 w-5 mr-2" />
+        Workflow complete
+      </div>
+    );
+  }
+
+  if (!step) return <div className="p-4 text-gray-500">Loading workflow...</div>;
+
+  const state = runner.getState();
+  const commitPreview = step.type === 'commit' ? buildCommitValues(step, state, patientGender) : [];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2 text-xs text-gray-500">
+        {state.definition.steps.filter(s => s.type !== 'branch').map(s => (
+          <span
+            key={s.id}
+            className={`px-2 py-1 rounded ${
+              s.id === step.id ? 'bg-blue-600 text-white' :
+              state.skipped.includes(s.id) ? 'bg-gray-200 line-through' :
+              state.history.includes(s.id) ? 'bg-blue-100 text-blue-700' : 'bg-gray-100'
+            }`}
+          >
+            {s.title || s.id}
+          </span>
+        ))}
+      </div>
+
+      <div className="border rounded-lg p-4 bg-white shadow-sm space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="font-medium text-gray-900">{step.title || (step.type === 'capture' ? step.prompt : null) || step.id}</div>
+          <span className="text-xs uppercase text-gray-500">{step.type}</span>
+        </div>
+
+        {step.type === 'info' && (
+          <div className="text-sm text-gray-700">
+            <p>{step.text}</p>
+            {step.items && step.items.length > 0 && (
+              <ul className="list-disc list-inside mt-2 space-y-1">
+                {step.items.map(item => <li key={item}>{item}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {step.type === 'capture' && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700">{step.prompt}{step.magnification && ` · ${step.magnification}`}</p>
+            {step.capture_type === 'image' && (
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={step.accept || 'image/*'}
+                  capture="environment"
+                  multiple
+                  onChange={(e) => setFiles(prev => [...prev, ...Array.from(e.target.files || [])])}
+                  className="hidden"
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center px-3 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600"
+                >
+                  <Camera className="h-4 w-4 mr-1" />
+                  Take Photo
+                </button>
+                {files.length > 0 && (
+                  <p className="text-sm text-green-600 mt-1">{files.length} file(s) captured - uploaded on Next</p>
+                )}
+              </div>
+            )}
+            {step.capture_type === 'numerical' ? (
+              <input
+                type="number"
+                step="any"
+                value={form.value || ''}
+                onChange={(e) => setForm(f => ({ ...f, value: e.target.value }))}
+                placeholder={`Measurement${step.unit ? ` (${step.unit})` : ''}`}
+                className={inputClass}
+              />
+            ) : (
+              <input
+                type="text"
+                value={form.note || ''}
+                onChange={(e) => setForm(f => ({ ...f, note: e.target.value }))}
+                placeholder="Field notes / image reference"
+                className={inputClass}
+              />
+            )}
+          </div>
+        )}
+
+        {step.type === 'timer' && (
+          <div className="text-center space-y-2">
+            <div className="text-4xl font-mono font-bold text-blue-600">{formatTime(runner.timerRemaining(step.id))}</div>
+            <div className="text-xs text-gray-500 flex items-center justify-center">
+              <Clock className="h-3 w-3 mr-1" />
+              Target: {formatTime(step.duration_seconds)}{step.required && ' · must finish before continuing'}
+            </div>
+            <div className="flex justify-center space-x-2">
+              {timerRunning ? (
+                <button type="button" onClick={() => run(() => runner.pauseTimer())} disabled={busy} className="flex items-center px-3 py-2 text-sm bg-yellow-500 text-white rounded">
+                  <Pause className="h-4 w-4 mr-1" />
+                  Pause
+                </button>
+              ) : (
+                <button
+                  type="button"
+                  onClick={() => run(() => runner.startTimer())}
+                  disabled={busy || runner.timerRemaining(step.id) === 0}
+                  className="flex items-center px-3 py-2 text-sm bg-green-500 text-white rounded disabled:opacity-50"
+                >
+                  <Play className="h-4 w-4 mr-1" />
+                  Start Timer
+                </button>
+              )}
+              <button type="button" onClick={() => run(() => runner.resetTimer())} disabled={busy} className="px-3 py-2 text-sm bg-gray-500 text-white rounded">
+                Reset
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step.type === 'analyze' && (
+          <div className="text-sm text-gray-700">
+            <p>Analysis: <span className="font-mono">{step.algorithm}</span></p>
+            {step.functions && step.functions.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {busy ? 'AI analysis in progress...' : `Runs ${step.functions.join(' → ')} on the captured image`}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step.type === 'review' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {step.fields.map(field => (
+              <div key={field}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  {field.replace(/_/g, ' ')}{step.optional_fields?.includes(field) && ' (optional)'}
+                </label>
+                <input
+                  type="text"
+                  value={form[field] || ''}
+                  onChange={(e) => setForm(f => ({ ...f, [field]: e.target.value }))}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
+        {step.type === 'commit' && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-700 flex items-center">
+              <Database className="h-4 w-4 mr-1" />
+              The following values will be saved as results for this order:
+            </p>
+            {commitPreview.length === 0 ? (
+              <p className="text-sm text-gray-400 italic">No values captured</p>
+            ) : (
+              <table className="w-full text-sm border">
+                <tbody>
+                  {commitPreview.map(v => (
+                    <tr key={v.parameter} className="border-b">
+                      <td className="p-2 font-medium">{v.parameter}</td>
+                      <td className="p-2">{v.value} {v.unit}</td>
+                      <td className="p-2 text-gray-500">{v.reference_range}</td>
+                      <td className="p-2">{v.flag}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded p-2 text-sm text-red-700 flex items-center">
+            <AlertTriangle className="h-4 w-4 mr-1" />
+            {error}
+          </div>
+        )}
+
+        {showSkip && (
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={skipReason}
+              onChange={(e) => setSkipReason(e.target.value)}
+              placeholder="Reason for skipping (recorded in audit)"
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={handleSkip}
+              disabled={busy || !skipReason.trim()}
+              className="px-3 py-2 text-sm bg-gray-700 text-white rounded disabled:opacity-50"
+            >
+              Confirm Skip
+            </button>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between pt-2">
+          <button
+            type="button"
+            onClick={() => run(() => runner.back())}
+            disabled={busy || !runner.canGoBack()}
+            className="flex items-center px-3 py-2 text-sm border rounded disabled:opacity-40"
+          >
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back
+          </button>
+          <div className="flex space-x-2">
+            {runner.canSkip() && (
+              <button
+                type="button"
+                onClick={() => setShowSkip(s => !s)}
+                disabled={busy}
+                className="flex items-center px-3 py-2 text-sm border rounded"
+              >
+                <SkipForward className="h-4 w-4 mr-1" />
+                Skip
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleNext}
+              disabled={busy}
+              className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+              {step.type === 'commit' ? 'Create Results' : 'Next'}
+              {step.type !== 'commit' && <ArrowRight className="h-4 w-4 ml-1" />}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="text-xs whitespace-pre-wrap bg-gray-50 p-2 border rounded text-gray-500">{log.join('\n')}</div>
+    </div>
+  );
+};
+
+export default WorkflowRunnerView;
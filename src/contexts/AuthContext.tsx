@@ -1,11 +1,18 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
-import { supabase } from '../utils/supabase';
+import { supabase, database } from '../utils/supabase';
+import { effectivePermissions, hasPermission as grants, PermissionId, UserProfile } from '../utils/permissions';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // Row of the users table for the signed-in account; null until an administrator has set one up
+  profile: UserProfile | null;
+  profileLoading: boolean;
+  permissions: string[];
+  hasPermission: (permission: PermissionId | PermissionId[]) => boolean;
+  refreshProfile: () => Promise<void>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signUp: (email: string, password: string, userData?: any) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -23,6 +30,11 @@ export const useAuth = () => {
       user: null,
       session: null,
       loading: true,
+      profile: null,
+      profileLoading: true,
+      permissions: [],
+      hasPermission: () => false,
+      refreshProfile: async () => {},
       signIn: async () => ({ error: new Error('Auth not ready') }),
       signUp: async () => ({ error: new Error('Auth not ready') }),
       signOut: async () => {}
@@ -31,10 +43,32 @@ export const useAuth = () => {
   return context;
 };
 
+/** Whether the signed-in user holds the permission (or any one of a list of them) */
+export const usePermission = (permission: PermissionId | PermissionId[]) => {
+  return useAuth().hasPermission(permission);
+};
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [profileLoading, setProfileLoading] = useState(true);
+
+  const loadProfile = useCallback(async (sessionUser: User | null) => {
+    if (!sessionUser) {
+      setProfile(null);
+      setProfileLoading(false);
+      return;
+    }
+    setProfileLoading(true);
+    const { data, error } = await database.users.getCurrent();
+    if (error) {
+      console.error('Error loading user profile:', error);
+    }
+    setProfile(data);
+    setProfileLoading(false);
+  }, []);
 
   useEffect(() => {
     // Get initial session
@@ -45,22 +79,41 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
+      loadProfile(session?.user ?? null);
     }).catch((error) => {
       console.error('Unexpected error getting session:', error);
       setLoading(false);
+      setProfileLoading(false);
     });
 
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
       setSession(session);
       setUser(session?.user ?? null);
       setLoading(false);
+      // Token refreshes keep the same user; only reload the profile when the user changes
+      if (event === 'SIGNED_IN' || event === 'SIGNED_OUT' || event === 'USER_UPDATED') {
+        // Deferred so the query does not run inside the auth callback
+        setTimeout(() => {
+          loadProfile(session?.user ?? null);
+          if (event === 'SIGNED_IN') database.users.markLogin();
+        }, 0);
+      }
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [loadProfile]);
+
+  const permissions = useMemo(() => effectivePermissions(profile), [profile]);
+
+  const hasPermission = useCallback(
+    (permission: PermissionId | PermissionId[]) => grants(permissions, permission),
+    [permissions]
+  );
+
+  const refreshProfile = useCallback(() => loadProfile(user), [loadProfile, user]);
 
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
@@ -89,6 +142,11 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     user,
     session,
     loading,
+    profile,
+    profileLoading,
+    permissions,
+    hasPermission,
+    refreshProfile,
     signIn,
     signUp,
     signOut,
@@ -0,0 +1,252 @@
+/**
+ * HL7 v2 message primitives: delimiters, escaping, segment parsing/building and ACKs.
+ * Field numbering follows the standard, so `fieldValue(msh, 9)` is MSH-9 and
+ * `fieldValue(pid, 5, 1)` is the family name in PID-5.
+ */
+
+export interface Hl7Delimiters {
+  field: string;
+  component: string;
+  repeat: string;
+  escape: string;
+  subcomponent: string;
+}
+
+export const DEFAULT_HL7_DELIMITERS: Hl7Delimiters = { field: '|', component: '^', repeat: '~', escape: '\\', subcomponent: '&' };
+export const HL7_VERSION = '2.5';
+export const SEGMENT_SEPARATOR = '\r';
+
+export interface Hl7Segment {
+  name: string;
+  // fields[n] is field n; for MSH, fields[1] is the field separator itself
+  fields: string[];
+}
+
+export interface Hl7Message {
+  delimiters: Hl7Delimiters;
+  segments: Hl7Segment[];
+}
+
+export const escapeHl7 = (value: string, d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS): string => {
+  let escaped = '';
+  for (const char of value) {
+    if (char === d.escape) escaped += `${d.escape}E${d.escape}`;
+    else if (char === d.field) escaped += `${d.escape}F${d.escape}`;
+    else if (char === d.component) escaped += `${d.escape}S${d.escape}`;
+    else if (char === d.subcomponent) escaped += `${d.escape}T${d.escape}`;
+    else if (char === d.repeat) escaped += `${d.escape}R${d.escape}`;
+    else if (char === '\r' || char === '\n') escaped += `${d.escape}.br${d.escape}`;
+    else escaped += char;
+  }
+  return escaped;
+};
+
+export const unescapeHl7 = (value: string, d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS): string => {
+  if (!value.includes(d.escape)) return value;
+  const e = d.escape.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return value.replace(new RegExp(`${e}(F|S|T|R|E|\\.br|X[0-9A-Fa-f]+)${e}`, 'g'), (_match, code: string) => {
+    switch (code) {
+      case 'F': return d.field;
+      case 'S': return d.component;
+      case 'T': return d.subcomponent;
+      case 'R': return d.repeat;
+      case 'E': return d.escape;
+      case '.br': return '\n';
+      default: return String.fromCharCode(parseInt(code.slice(1), 16));
+    }
+  });
+};
+
+export const parseHl7Message = (raw: string): Hl7Message => {
+  const lines = raw.split(/\r\n|\r|\n/).map(line => line.trimEnd()).filter(Boolean);
+  const mshLine = lines.find(line => line.startsWith('MSH'));
+  if (!mshLine || mshLine.length < 8) {
+    throw new Error('HL7 message has no MSH segment');
+  }
+
+  const delimiters: Hl7Delimiters = {
+    field: mshLine[3],
+    component: mshLine[4],
+    repeat: mshLine[5],
+    escape: mshLine[6],
+    subcomponent: mshLine[7],
+  };
+
+  const segments = lines.slice(lines.indexOf(mshLine)).map(line => {
+    const parts = line.split(delimiters.field);
+    const name = parts[0];
+    // MSH-1 is the separator itself, so MSH fields are shifted by one when split
+    const fields = name === 'MSH' ? [name, delimiters.field, ...parts.slice(1)] : parts;
+    return { name, fields };
+  });
+
+  return { delimiters, segments };
+};
+
+export const segmentsOf = (message: Hl7Message, name: string) => message.segments.filter(s => s.name === name);
+
+export const firstSegment = (message: Hl7Message, name: string): Hl7Segment | undefined =>
+  message.segments.find(s => s.name === name);
+
+/**
+ * Unescaped value of a field; `component` is 1-based, `repetition` 0-based.
+ * Without a component the whole (first repetition of the) field is returned raw.
+ */
+export const fieldValue = (
+  segment: Hl7Segment | undefined,
+  index: number,
+  component?: number,
+  repetition = 0,
+  d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS
+): string => {
+  const field = segment?.fields[index] || '';
+  if (segment?.name === 'MSH' && index <= 2) return field;
+  const rep = field.split(d.repeat)[repetition] || '';
+  if (component === undefined) return rep;
+  return unescapeHl7(rep.split(d.component)[component - 1] || '', d).trim();
+};
+
+export const fieldRepetitions = (segment: Hl7Segment | undefined, index: number, d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS) =>
+  (segment?.fields[index] || '').split(d.repeat).filter(Boolean);
+
+type Hl7Components = Array<string | undefined>;
+export type Hl7FieldValue = string | Hl7Components | Hl7Components[] | undefined | null;
+
+const encodeComponents = (components: Hl7Components, d: Hl7Delimiters) => {
+  const encoded = components.map(part => escapeHl7(part || '', d));
+  while (encoded.length > 0 && encoded[encoded.length - 1] === '') encoded.pop();
+  return encoded.join(d.component);
+};
+
+/**
+ * Builds a segment from positional fields (index 0 is field 1). An array becomes
+ * components, an array of arrays becomes repetitions; every value is escaped.
+ */
+export const buildSegment = (name: string, fields: Hl7FieldValue[], d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS): string => {
+  const encoded = fields.map(field => {
+    if (field === undefined || field === null) return '';
+    if (typeof field === 'string') return escapeHl7(field, d);
+    if (field.some(Array.isArray)) return (field as Hl7Components[]).map(rep => encodeComponents(rep, d)).join(d.repeat);
+    return encodeComponents(field as Hl7Components, d);
+  });
+  while (encoded.length > 0 && encoded[encoded.length - 1] === '') encoded.pop();
+  return [name, ...encoded].join(d.field);
+};
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export const formatHl7Timestamp = (value: Date | string = new Date()): string => {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+// YYYY-MM-DD -> YYYYMMDD, without a timezone shift
+export const formatHl7Date = (value: string | null | undefined): string => (value ? value.slice(0, 10).replace(/-/g, '') : '');
+
+export const parseHl7Date = (value: string | undefined): string | null => {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+export const parseHl7Timestamp = (value: string | undefined): string | null => {
+  const match = (value || '').match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const generateControlId = (now: Date = new Date()) =>
+  `${formatHl7Timestamp(now)}${String(Math.floor(Math.random() * 10000)).padStart(4, '0')}`;
+
+export interface MshInfo {
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication: string;
+  receivingFacility: string;
+  timestamp: string | null;
+  messageType: string;
+  triggerEvent: string;
+  controlId: string;
+  processingId: string;
+  version: string;
+}
+
+export const readMsh = (message: Hl7Message): MshInfo => {
+  const msh = firstSegment(message, 'MSH');
+  const d = message.delimiters;
+  return {
+    sendingApplication: fieldValue(msh, 3, 1, 0, d),
+    sendingFacility: fieldValue(msh, 4, 1, 0, d),
+    receivingApplication: fieldValue(msh, 5, 1, 0, d),
+    receivingFacility: fieldValue(msh, 6, 1, 0, d),
+    timestamp: parseHl7Timestamp(fieldValue(msh, 7, 1, 0, d)),
+    messageType: fieldValue(msh, 9, 1, 0, d),
+    triggerEvent: fieldValue(msh, 9, 2, 0, d),
+    controlId: fieldValue(msh, 10, 1, 0, d),
+    processingId: fieldValue(msh, 11, 1, 0, d),
+    version: fieldValue(msh, 12, 1, 0, d),
+  };
+};
+
+export const buildMsh = (msh: {
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication?: string;
+  receivingFacility?: string;
+  messageType: [string, string, string?];
+  controlId: string;
+  processingId?: string;
+  timestamp?: Date;
+}, d: Hl7Delimiters = DEFAULT_HL7_DELIMITERS): string => {
+  const encodingCharacters = `${d.component}${d.repeat}${d.escape}${d.subcomponent}`;
+  const rest = buildSegment('', [
+    msh.sendingApplication,
+    msh.sendingFacility,
+    msh.receivingApplication,
+    msh.receivingFacility,
+    formatHl7Timestamp(msh.timestamp),
+    '',
+    [msh.messageType[0], msh.messageType[1], msh.messageType[2]],
+    msh.controlId,
+    msh.processingId || 'P',
+    HL7_VERSION,
+  ], d);
+  return `MSH${d.field}${encodingCharacters}${rest}`;
+};
+
+export type Hl7AckCode = 'AA' | 'AE' | 'AR';
+
+/**
+ * Original-mode acknowledgement: AA accepted, AE application error, AR rejected.
+ */
+export const buildAck = (original: MshInfo, code: Hl7AckCode, text = '', controlId = generateControlId()): string => {
+  const segments = [
+    buildMsh({
+      sendingApplication: original.receivingApplication,
+      sendingFacility: original.receivingFacility,
+      receivingApplication: original.sendingApplication,
+      receivingFacility: original.sendingFacility,
+      messageType: ['ACK', original.triggerEvent, 'ACK'],
+      controlId,
+      processingId: original.processingId || 'P',
+    }),
+    buildSegment('MSA', [code, original.controlId, text]),
+  ];
+  if (code !== 'AA' && text) {
+    // ERR-3 error code (HL7 table 0357), ERR-4 severity, ERR-8 user message
+    segments.push(buildSegment('ERR', ['', '', [code === 'AR' ? '200' : '207', code === 'AR' ? 'Unsupported message type' : 'Application internal error', 'HL70357'], 'E', '', '', '', text]));
+  }
+  return segments.join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR;
+};
+
+// Reads the MSA of an acknowledgement (e.g. the HIS reply to an ORU)
+export const readAck = (raw: string): { code: string; controlId: string; text: string } => {
+  const message = parseHl7Message(raw);
+  const msa = firstSegment(message, 'MSA');
+  return {
+    code: fieldValue(msa, 1, 1, 0, message.delimiters),
+    controlId: fieldValue(msa, 2, 1, 0, message.delimiters),
+    text: fieldValue(msa, 3, 1, 0, message.delimiters),
+  };
+};
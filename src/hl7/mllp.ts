@@ -0,0 +1,46 @@
+/**
+ * Minimal Lower Layer Protocol framing: <VT> message <FS><CR>.
+ * MllpDecoder is transport-agnostic and can be fed chunks from a socket or a captured stream.
+ */
+
+export const MLLP_START = '\x0b';
+export const MLLP_END = '\x1c';
+export const MLLP_TRAILER = '\r';
+
+export const wrapMllp = (message: string): string => `${MLLP_START}${message}${MLLP_END}${MLLP_TRAILER}`;
+
+export class MllpDecoder {
+  private buffer = '';
+  private inMessage = false;
+
+  // Returns the complete messages contained in the data received so far
+  feed(data: string): string[] {
+    const messages: string[] = [];
+    for (const char of data) {
+      if (char === MLLP_START) {
+        // A new start block discards any unterminated message
+        this.buffer = '';
+        this.inMessage = true;
+      } else if (char === MLLP_END && this.inMessage) {
+        messages.push(this.buffer);
+        this.buffer = '';
+        this.inMessage = false;
+      } else if (this.inMessage) {
+        this.buffer += char;
+      }
+    }
+    return messages;
+  }
+}
+
+/**
+ * Messages in a pasted or captured stream. Unframed input is treated as a single message
+ * with its line endings normalised to the HL7 segment separator.
+ */
+export const extractMllpMessages = (stream: string): string[] => {
+  if (!stream.includes(MLLP_START)) {
+    const message = stream.replace(/\r\n|\n/g, '\r').trim();
+    return message ? [`${message}\r`] : [];
+  }
+  return new MllpDecoder().feed(stream);
+};
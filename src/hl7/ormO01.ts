@@ -0,0 +1,178 @@
+/**
+ * ORM^O01 (general order) ingestion: patient demographics from PID and one order per
+ * placer order number from ORC/OBR groups, plus the rules used to match the PID to an
+ * existing patient.
+ */
+import {
+  fieldRepetitions, fieldValue, Hl7Message, Hl7Segment, MshInfo, parseHl7Date, parseHl7Message,
+  parseHl7Timestamp, readMsh, unescapeHl7
+} from './hl7Message';
+
+export interface OrmPatient {
+  identifiers: string[];
+  name: string;
+  familyName: string;
+  givenName: string;
+  birthDate: string | null;
+  gender: 'Male' | 'Female' | 'Other';
+  phone: string;
+  address: string;
+  city: string;
+  state: string;
+  pincode: string;
+}
+
+export interface OrmTest {
+  code: string;
+  text: string;
+}
+
+export interface OrmOrder {
+  orderControl: string;
+  placerOrderNumber: string;
+  fillerOrderNumber: string;
+  tests: OrmTest[];
+  priority: 'Normal' | 'Urgent' | 'STAT';
+  orderingProvider: string;
+  collectedAt: string | null;
+  notes: string[];
+}
+
+export interface OrmMessage {
+  msh: MshInfo;
+  patient: OrmPatient;
+  orders: OrmOrder[];
+}
+
+const SEX: Record<string, OrmPatient['gender']> = { M: 'Male', F: 'Female' };
+
+// ORC-7 / OBR-27 quantity-timing priority component: S = stat, A = ASAP
+const priorityOf = (code: string): OrmOrder['priority'] => {
+  const value = code.toUpperCase();
+  if (value === 'S') return 'STAT';
+  if (value === 'A') return 'Urgent';
+  return 'Normal';
+};
+
+// XCN: id^family^given^middle^suffix^prefix
+const providerName = (segment: Hl7Segment | undefined, index: number, message: Hl7Message) => {
+  const d = message.delimiters;
+  const parts = [6, 3, 4, 2].map(c => fieldValue(segment, index, c, 0, d)).filter(Boolean);
+  return parts.join(' ') || fieldValue(segment, index, 1, 0, d);
+};
+
+const parsePatient = (pid: Hl7Segment, message: Hl7Message): OrmPatient => {
+  const d = message.delimiters;
+  const familyName = fieldValue(pid, 5, 1, 0, d);
+  const givenName = [fieldValue(pid, 5, 2, 0, d), fieldValue(pid, 5, 3, 0, d)].filter(Boolean).join(' ');
+  // PID-2 (external ID) is deprecated in 2.5 but still sent by older HIS systems
+  const identifiers = [...fieldRepetitions(pid, 3, d), ...fieldRepetitions(pid, 2, d)]
+    .map(rep => unescapeHl7(rep.split(d.component)[0] || '', d).trim())
+    .filter(Boolean);
+
+  return {
+    identifiers: Array.from(new Set(identifiers)),
+    name: [givenName, familyName].filter(Boolean).join(' '),
+    familyName,
+    givenName,
+    birthDate: parseHl7Date(fieldValue(pid, 7, 1, 0, d)),
+    gender: SEX[fieldValue(pid, 8, 1, 0, d).toUpperCase()] || 'Other',
+    phone: fieldValue(pid, 13, 1, 0, d),
+    address: [fieldValue(pid, 11, 1, 0, d), fieldValue(pid, 11, 2, 0, d)].filter(Boolean).join(', '),
+    city: fieldValue(pid, 11, 3, 0, d),
+    state: fieldValue(pid, 11, 4, 0, d),
+    pincode: fieldValue(pid, 11, 5, 0, d),
+  };
+};
+
+export const parseOrmO01 = (raw: string): OrmMessage => {
+  const message = parseHl7Message(raw);
+  const msh = readMsh(message);
+  if (msh.messageType !== 'ORM' || (msh.triggerEvent && msh.triggerEvent !== 'O01')) {
+    throw new Error(`Unsupported message type ${msh.messageType}^${msh.triggerEvent}; expected ORM^O01`);
+  }
+
+  const pid = message.segments.find(s => s.name === 'PID');
+  if (!pid) throw new Error('ORM^O01 has no PID segment');
+
+  const d = message.delimiters;
+  const ordersByPlacer = new Map<string, OrmOrder>();
+  let current: OrmOrder | null = null;
+
+  message.segments.forEach(segment => {
+    if (segment.name === 'ORC') {
+      const placer = fieldValue(segment, 2, 1, 0, d);
+      current = ordersByPlacer.get(placer) || {
+        orderControl: fieldValue(segment, 1, 1, 0, d).toUpperCase(),
+        placerOrderNumber: placer,
+        fillerOrderNumber: fieldValue(segment, 3, 1, 0, d),
+        tests: [],
+        priority: priorityOf(fieldValue(segment, 7, 6, 0, d)),
+        orderingProvider: providerName(segment, 12, message),
+        collectedAt: null,
+        notes: [],
+      };
+      ordersByPlacer.set(placer, current);
+    } else if (segment.name === 'OBR' && current) {
+      const order: OrmOrder = current;
+      const code = fieldValue(segment, 4, 1, 0, d);
+      const text = fieldValue(segment, 4, 2, 0, d);
+      if (code || text) order.tests.push({ code, text });
+      if (!order.placerOrderNumber) order.placerOrderNumber = fieldValue(segment, 2, 1, 0, d);
+      if (!order.orderingProvider) order.orderingProvider = providerName(segment, 16, message);
+      const priority = priorityOf(fieldValue(segment, 27, 6, 0, d) || fieldValue(segment, 5, 1, 0, d));
+      if (priority !== 'Normal') order.priority = priority;
+      order.collectedAt = order.collectedAt || parseHl7Timestamp(fieldValue(segment, 7, 1, 0, d));
+    } else if (segment.name === 'NTE' && current) {
+      const note = fieldRepetitions(segment, 3, d).map(rep => unescapeHl7(rep, d)).join(' ').trim();
+      if (note) (current as OrmOrder).notes.push(note);
+    }
+  });
+
+  const orders = Array.from(ordersByPlacer.values());
+  if (orders.length === 0) throw new Error('ORM^O01 has no ORC segment');
+
+  return { msh, patient: parsePatient(pid, message), orders };
+};
+
+export interface PatientCandidate {
+  id: string;
+  name: string;
+  date_of_birth?: string | null;
+  gender?: string | null;
+  display_id?: string | null;
+  external_patient_id?: string | null;
+}
+
+export type PatientMatch<T extends PatientCandidate> = { patient: T; matchedOn: 'identifier' | 'name_dob' };
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim().split(' ').sort().join(' ');
+
+/**
+ * An identifier (PID-3 against external_patient_id or display_id) wins; otherwise name and
+ * date of birth must both match, and only when exactly one patient does. Name-only matches
+ * are never accepted, so an unmatched PID creates a new patient instead.
+ */
+export const matchOrmPatient = <T extends PatientCandidate>(patient: OrmPatient, candidates: T[]): PatientMatch<T> | null => {
+  const ids = new Set(patient.identifiers);
+  const byIdentifier = candidates.find(c =>
+    (c.external_patient_id && ids.has(c.external_patient_id)) || (c.display_id && ids.has(c.display_id))
+  );
+  if (byIdentifier) return { patient: byIdentifier, matchedOn: 'identifier' };
+
+  if (!patient.birthDate || !patient.name) return null;
+  const name = normaliseName(patient.name);
+  const byDemographics = candidates.filter(c =>
+    c.date_of_birth === patient.birthDate && normaliseName(c.name) === name
+  );
+  return byDemographics.length === 1 ? { patient: byDemographics[0], matchedOn: 'name_dob' } : null;
+};
+
+export const ageFromBirthDate = (birthDate: string | null, today: Date = new Date()): number => {
+  if (!birthDate) return 0;
+  const dob = new Date(`${birthDate}T00:00:00`);
+  let age = today.getFullYear() - dob.getFullYear();
+  const beforeBirthday = today.getMonth() < dob.getMonth() || (today.getMonth() === dob.getMonth() && today.getDate() < dob.getDate());
+  if (beforeBirthday) age -= 1;
+  return Math.max(0, Math.min(150, age));
+};
@@ -0,0 +1,178 @@
+/**
+ * ORU^R01 (unsolicited observation result) generation for an order's approved results.
+ * One OBR per result (test), one OBX per result value.
+ */
+import {
+  buildMsh, buildSegment, formatHl7Date, formatHl7Timestamp, generateControlId, SEGMENT_SEPARATOR
+} from './hl7Message';
+
+export interface OruPatient {
+  id: string;
+  display_id?: string | null;
+  external_patient_id?: string | null;
+  name: string;
+  date_of_birth?: string | null;
+  gender?: string | null;
+  phone?: string | null;
+  address?: string | null;
+  city?: string | null;
+  state?: string | null;
+  pincode?: string | null;
+}
+
+export interface OruOrder {
+  id: string;
+  sample_id?: string | null;
+  placer_order_number?: string | null;
+  doctor?: string | null;
+  order_date: string;
+  sample_collected_at?: string | null;
+}
+
+export interface OruResultValue {
+  parameter: string;
+  value: string | null;
+  unit?: string | null;
+  reference_range?: string | null;
+  flag?: string | null;
+  analyte_code?: string | null;
+  loinc_code?: string | null;
+}
+
+export interface OruResult {
+  id: string;
+  test_name: string;
+  status: string;
+  entered_by?: string | null;
+  reviewed_by?: string | null;
+  verified_at?: string | null;
+  reviewed_date?: string | null;
+  values: OruResultValue[];
+}
+
+export interface OruContext {
+  sendingApplication: string;
+  sendingFacility: string;
+  receivingApplication?: string;
+  receivingFacility?: string;
+  controlId?: string;
+  timestamp?: Date;
+}
+
+const HL7_SEX: Record<string, string> = { Male: 'M', Female: 'F', Other: 'O' };
+
+// Result flag codes -> HL7 table 0078 abnormal flags
+const ABNORMAL_FLAGS: Record<string, string> = { H: 'H', L: 'L', A: 'A', C: 'AA', N: 'N' };
+
+const NUMERIC = /^[<>]?=?\s*-?\d+(\.\d+)?$/;
+
+// Patient names are stored as one string; the last word is sent as the family name
+export const splitPersonName = (name: string): [string, string] => {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return [parts[0] || '', ''];
+  return [parts[parts.length - 1], parts.slice(0, -1).join(' ')];
+};
+
+export const isReportableResult = (result: Pick<OruResult, 'status'>) =>
+  result.status === 'Approved' || result.status === 'Reported';
+
+export const buildOruR01 = (
+  context: OruContext,
+  order: OruOrder,
+  patient: OruPatient,
+  results: OruResult[]
+): { message: string; controlId: string } => {
+  const controlId = context.controlId || generateControlId(context.timestamp);
+  const reportable = results.filter(isReportableResult);
+  const [family, given] = splitPersonName(patient.name);
+  const collectedAt = order.sample_collected_at ? formatHl7Timestamp(order.sample_collected_at) : formatHl7Date(order.order_date);
+
+  const identifiers = [[patient.display_id || patient.id, '', '', context.sendingFacility, 'MR']];
+  if (patient.external_patient_id) identifiers.push([patient.external_patient_id, '', '', '', 'PI']);
+
+  const segments = [
+    buildMsh({
+      sendingApplication: context.sendingApplication,
+      sendingFacility: context.sendingFacility,
+      receivingApplication: context.receivingApplication,
+      receivingFacility: context.receivingFacility,
+      messageType: ['ORU', 'R01', 'ORU_R01'],
+      controlId,
+      timestamp: context.timestamp,
+    }),
+    buildSegment('PID', [
+      '1',
+      '',
+      identifiers,
+      '',
+      [family, given],
+      '',
+      formatHl7Date(patient.date_of_birth),
+      HL7_SEX[patient.gender || ''] || 'U',
+      '',
+      '',
+      [patient.address || '', '', patient.city || '', patient.state || '', patient.pincode || ''],
+      '',
+      patient.phone || '',
+    ]),
+    buildSegment('ORC', ['RE', order.placer_order_number || '', order.sample_id || order.id, '', 'CM']),
+  ];
+
+  reportable.forEach((result, resultIndex) => {
+    const reportedAt = result.verified_at || result.reviewed_date;
+    segments.push(buildSegment('OBR', [
+      String(resultIndex + 1),
+      order.placer_order_number || '',
+      order.sample_id || order.id,
+      [result.test_name, result.test_name, 'L'],
+      '',
+      '',
+      collectedAt,
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      order.doctor ? ['', ...splitPersonName(order.doctor)] : '',
+      '',
+      '',
+      '',
+      '',
+      '',
+      reportedAt ? formatHl7Timestamp(reportedAt) : formatHl7Timestamp(context.timestamp),
+      '',
+      '',
+      'F',
+    ]));
+
+    result.values.forEach((value, valueIndex) => {
+      const raw = value.value ?? '';
+      segments.push(buildSegment('OBX', [
+        String(valueIndex + 1),
+        NUMERIC.test(raw.trim()) ? 'NM' : 'ST',
+        // LOINC as the primary coding when the analyte has one, the local code as the alternate
+        value.loinc_code
+          ? [value.loinc_code, value.parameter, 'LN', value.analyte_code || value.parameter, value.parameter, 'L']
+          : [value.analyte_code || value.parameter, value.parameter, 'L'],
+        '',
+        raw,
+        value.unit || '',
+        value.reference_range || '',
+        value.flag ? ABNORMAL_FLAGS[value.flag] || value.flag : '',
+        '',
+        '',
+        'F',
+        '',
+        '',
+        collectedAt,
+        '',
+        result.reviewed_by || result.entered_by || '',
+      ]));
+    });
+  });
+
+  return { message: segments.join(SEGMENT_SEPARATOR) + SEGMENT_SEPARATOR, controlId };
+};
@@ -0,0 +1,196 @@
+/**
+ * ASTM E1381 / CLSI LIS1-A low-level protocol: ENQ/ACK establishment, numbered frames
+ * with modulo-256 checksums, and EOT termination. AstmReceiver is the receiving side of a
+ * session; it is transport-agnostic, so the same code serves a TCP socket, a serial port
+ * or a captured serial stream replayed from a file.
+ */
+
+export const ENQ = '\x05';
+export const ACK = '\x06';
+export const NAK = '\x15';
+export const EOT = '\x04';
+export const STX = '\x02';
+export const ETX = '\x03';
+export const ETB = '\x17';
+export const CR = '\r';
+export const LF = '\n';
+
+// LIS1-A limits frame text to 240 characters; longer records continue in ETB frames
+export const MAX_FRAME_TEXT = 240;
+
+/**
+ * Checksum over frame number, text and the ETX/ETB terminator, as two uppercase hex digits.
+ */
+export const frameChecksum = (frameNumber: number, text: string, terminator: string): string => {
+  const body = `${frameNumber}${text}${terminator}`;
+  let sum = 0;
+  for (let i = 0; i < body.length; i++) sum = (sum + body.charCodeAt(i)) % 256;
+  return sum.toString(16).toUpperCase().padStart(2, '0');
+};
+
+export const buildFrame = (frameNumber: number, text: string, final: boolean): string => {
+  const terminator = final ? ETX : ETB;
+  return `${STX}${frameNumber}${text}${terminator}${frameChecksum(frameNumber, text, terminator)}${CR}${LF}`;
+};
+
+/**
+ * Frames for a whole message (records separated by CR). Each record is sent in its own
+ * ETX frame, split into ETB frames when longer than MAX_FRAME_TEXT. Frame numbers run 1-7, 0, 1...
+ */
+export const buildFrames = (message: string): string[] => {
+  const records = message.split(CR).filter(record => record.length > 0);
+  const frames: string[] = [];
+  let frameNumber = 1;
+
+  records.forEach(record => {
+    const text = `${record}${CR}`;
+    for (let offset = 0; offset < text.length; offset += MAX_FRAME_TEXT) {
+      const chunk = text.slice(offset, offset + MAX_FRAME_TEXT);
+      frames.push(buildFrame(frameNumber, chunk, offset + MAX_FRAME_TEXT >= text.length));
+      frameNumber = (frameNumber + 1) % 8;
+    }
+  });
+
+  return frames;
+};
+
+// Full sender-side transmission, e.g. to simulate an analyser in development
+export const buildTransmission = (message: string): string => `${ENQ}${buildFrames(message).join('')}${EOT}`;
+
+export interface ParsedFrame {
+  frameNumber: number;
+  text: string;
+  final: boolean;
+  valid: boolean;
+}
+
+export const parseFrame = (frame: string): ParsedFrame | null => {
+  if (!frame.startsWith(STX)) return null;
+  const terminatorIndex = Math.max(frame.lastIndexOf(ETX), frame.lastIndexOf(ETB));
+  if (terminatorIndex < 2) return null;
+
+  const frameNumber = Number(frame[1]);
+  const text = frame.slice(2, terminatorIndex);
+  const terminator = frame[terminatorIndex];
+  const checksum = frame.slice(terminatorIndex + 1, terminatorIndex + 3).toUpperCase();
+
+  return {
+    frameNumber,
+    text,
+    final: terminator === ETX,
+    valid: !Number.isNaN(frameNumber) && checksum === frameChecksum(frameNumber, text, terminator)
+  };
+};
+
+export type AstmSessionEvent =
+  | { type: 'established' }
+  | { type: 'frame'; frameNumber: number; accepted: boolean; reason?: string }
+  | { type: 'message'; message: string }
+  | { type: 'terminated' };
+
+/**
+ * Receiving side of an ASTM session. Feed it incoming data with receive(); it returns the
+ * control characters to write back (ACK / NAK) and emits complete messages on EOT.
+ */
+export class AstmReceiver {
+  private established = false;
+  private frameBuffer: string | null = null;
+  private expectedFrame = 1;
+  private lastAcceptedFrame: number | null = null;
+  private messageText = '';
+
+  constructor(private readonly onEvent: (event: AstmSessionEvent) => void = () => {}) {}
+
+  receive(data: string): string {
+    let reply = '';
+    for (const char of data) {
+      reply += this.receiveChar(char);
+    }
+    return reply;
+  }
+
+  private receiveChar(char: string): string {
+    if (!this.established) {
+      if (char !== ENQ) return '';
+      this.established = true;
+      this.expectedFrame = 1;
+      this.lastAcceptedFrame = null;
+      this.messageText = '';
+      this.onEvent({ type: 'established' });
+      return ACK;
+    }
+
+    if (this.frameBuffer === null) {
+      if (char === STX) {
+        this.frameBuffer = STX;
+      } else if (char === EOT) {
+        this.terminate();
+      } else if (char === ENQ) {
+        // Sender restarted establishment (e.g. after a timeout on its side)
+        this.messageText = '';
+        this.expectedFrame = 1;
+        this.lastAcceptedFrame = null;
+        return ACK;
+      }
+      return '';
+    }
+
+    this.frameBuffer += char;
+    if (char !== LF || !this.frameBuffer.endsWith(`${CR}${LF}`)) return '';
+
+    const frame = this.frameBuffer;
+    this.frameBuffer = null;
+    return this.acceptFrame(frame);
+  }
+
+  private acceptFrame(raw: string): string {
+    const frame = parseFrame(raw);
+    if (!frame || !frame.valid) {
+      this.onEvent({ type: 'frame', frameNumber: frame?.frameNumber ?? -1, accepted: false, reason: 'checksum' });
+      return NAK;
+    }
+
+    // A repeated frame means our ACK was lost; acknowledge again without keeping the text twice
+    if (frame.frameNumber === this.lastAcceptedFrame) {
+      this.onEvent({ type: 'frame', frameNumber: frame.frameNumber, accepted: true, reason: 'duplicate' });
+      return ACK;
+    }
+    if (frame.frameNumber !== this.expectedFrame) {
+      this.onEvent({ type: 'frame', frameNumber: frame.frameNumber, accepted: false, reason: 'sequence' });
+      return NAK;
+    }
+
+    this.messageText += frame.text;
+    this.lastAcceptedFrame = frame.frameNumber;
+    this.expectedFrame = (frame.frameNumber + 1) % 8;
+    this.onEvent({ type: 'frame', frameNumber: frame.frameNumber, accepted: true });
+    return ACK;
+  }
+
+  private terminate() {
+    if (this.messageText) {
+      this.onEvent({ type: 'message', message: this.messageText });
+    }
+    this.established = false;
+    this.messageText = '';
+    this.onEvent({ type: 'terminated' });
+  }
+}
+
+/**
+ * Serial-capture stand-in: replays a captured stream through a receiver and returns the
+ * messages it carried. Captures of bare records (no ENQ/STX framing) are returned as one message.
+ */
+export const extractMessagesFromCapture = (capture: string): string[] => {
+  if (!capture.includes(ENQ) && !capture.includes(STX)) {
+    const message = capture.replace(/\r\n|\n/g, CR).trim();
+    return message ? [message] : [];
+  }
+
+  const messages: string[] = [];
+  const receiver = new AstmReceiver(event => {
+    if (event.type === 'message') messages.push(event.message);
+  });
+  receiver.receive(capture);
+  return messages;
+};
@@ -0,0 +1,124 @@
+/**
+ * Maps a parsed ASTM message onto LIMS orders and analytes.
+ * Specimen IDs resolve to orders (container barcode or order sample_id) and instrument
+ * test codes resolve to analytes through the per-instrument mapping table. Pure logic;
+ * database.instruments.importMessage does the lookups and writes.
+ */
+import { AstmMessage, isImportableResult, mapAbnormalFlag } from './astmParser';
+import { toCanonicalUnit } from '../utils/unitConversion';
+
+export interface InstrumentTestMapping {
+  id?: string;
+  lab_id?: string | null;
+  instrument_code: string;
+  test_code: string;
+  analyte_id: string;
+  unit?: string | null;
+  is_active?: boolean;
+  analytes?: { name: string; unit: string } | null;
+}
+
+export interface ImportAnalyte {
+  id: string;
+  name: string;
+  unit: string;
+  reference_range: string;
+  alternate_unit?: string | null;
+  molar_mass?: number | null;
+  unit_conversion_factor?: number | null;
+}
+
+export interface AstmImportValue {
+  analyte_id: string;
+  parameter: string;
+  value: string;
+  unit: string;
+  reference_range: string;
+  flag?: string;
+  test_code: string;
+  completed_at: string | null;
+  original_value: string | null;
+  original_unit: string | null;
+}
+
+export interface AstmOrderImport {
+  specimenId: string;
+  orderId: string | null;
+  values: AstmImportValue[];
+  skipped: Array<{ testCode: string; reason: string }>;
+}
+
+export const specimenIdsOf = (message: AstmMessage): string[] =>
+  Array.from(new Set(
+    message.patients.flatMap(p => p.orders.map(o => o.specimenId || o.instrumentSpecimenId)).filter(Boolean)
+  ));
+
+export const planAstmImport = (
+  message: AstmMessage,
+  lookups: {
+    orderIdBySpecimen: Map<string, string>;
+    mappings: InstrumentTestMapping[];
+    analytesById: Map<string, ImportAnalyte>;
+    blockedAnalyteIds?: Set<string>;
+  }
+): AstmOrderImport[] => {
+  const mappingByCode = new Map(
+    lookups.mappings.filter(m => m.is_active !== false).map(m => [m.test_code.toUpperCase(), m])
+  );
+
+  return message.patients.flatMap(patient => patient.orders).map(order => {
+    const specimenId = order.specimenId || order.instrumentSpecimenId;
+    const planned: AstmOrderImport = {
+      specimenId,
+      orderId: lookups.orderIdBySpecimen.get(specimenId) || null,
+      values: [],
+      skipped: [],
+    };
+
+    order.results.forEach(result => {
+      if (!isImportableResult(result)) {
+        planned.skipped.push({ testCode: result.testCode, reason: result.value ? `status ${result.status}` : 'no value' });
+        return;
+      }
+      const mapping = mappingByCode.get(result.testCode.toUpperCase());
+      const analyte = mapping ? lookups.analytesById.get(mapping.analyte_id) : undefined;
+      if (!mapping || !analyte) {
+        planned.skipped.push({ testCode: result.testCode, reason: 'no test-code mapping' });
+        return;
+      }
+      if (lookups.blockedAnalyteIds?.has(analyte.id)) {
+        planned.skipped.push({ testCode: result.testCode, reason: 'QC hold' });
+        return;
+      }
+
+      // Values are stored in the analyte's unit; a unit that cannot be converted is not imported
+      const canonical = toCanonicalUnit(
+        { value: result.value, unit: mapping.unit || result.units, reference_range: result.referenceRange },
+        analyte
+      );
+      if (canonical.error) {
+        planned.skipped.push({ testCode: result.testCode, reason: canonical.error });
+        return;
+      }
+
+      // Analysers repeat a test on rerun; the last result sent wins
+      const existing = planned.values.findIndex(v => v.analyte_id === analyte.id);
+      const value: AstmImportValue = {
+        analyte_id: analyte.id,
+        parameter: analyte.name,
+        value: canonical.value,
+        unit: canonical.unit,
+        reference_range: canonical.reference_range || analyte.reference_range,
+        flag: mapAbnormalFlag(result.abnormalFlags),
+        test_code: result.testCode,
+        completed_at: result.completedAt,
+        original_value: canonical.original_value,
+        original_unit: canonical.original_unit,
+      };
+      if (existing >= 0) planned.values[existing] = value;
+      else planned.values.push(value);
+    });
+
+    return planned;
+  });
+};
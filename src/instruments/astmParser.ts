@@ -0,0 +1,277 @@
+/**
+ * ASTM E1394 / CLSI LIS2-A2 record parser.
+ * Turns a message (records separated by CR) into the H -> P -> O -> R/C hierarchy.
+ * Delimiters are read from the header record, so analysers using non-default
+ * separators are handled as well.
+ */
+
+export interface AstmDelimiters {
+  field: string;
+  repeat: string;
+  component: string;
+  escape: string;
+}
+
+export const DEFAULT_DELIMITERS: AstmDelimiters = { field: '|', repeat: '\\', component: '^', escape: '&' };
+
+export interface AstmComment {
+  source: string;
+  text: string;
+  type: string;
+}
+
+export interface AstmResult {
+  sequence: number;
+  testCode: string;
+  universalTestId: string;
+  value: string;
+  units: string;
+  referenceRange: string;
+  abnormalFlags: string;
+  status: string;
+  operator: string;
+  completedAt: string | null;
+  instrument: string;
+  comments: AstmComment[];
+}
+
+export interface AstmOrder {
+  sequence: number;
+  specimenId: string;
+  instrumentSpecimenId: string;
+  testCodes: string[];
+  priority: string;
+  collectedAt: string | null;
+  actionCode: string;
+  reportType: string;
+  results: AstmResult[];
+  comments: AstmComment[];
+}
+
+export interface AstmPatient {
+  sequence: number;
+  practicePatientId: string;
+  labPatientId: string;
+  name: string;
+  birthDate: string | null;
+  sex: string;
+  orders: AstmOrder[];
+  comments: AstmComment[];
+}
+
+export interface AstmHeader {
+  sender: string;
+  receiver: string;
+  processingId: string;
+  version: string;
+  timestamp: string | null;
+}
+
+export interface AstmMessage {
+  delimiters: AstmDelimiters;
+  header: AstmHeader;
+  patients: AstmPatient[];
+  terminationCode: string;
+  warnings: string[];
+}
+
+// Resolve &F& &S& &R& &E& escape sequences inside a field or component
+const unescape = (value: string, d: AstmDelimiters) =>
+  value
+    .split(`${d.escape}F${d.escape}`).join(d.field)
+    .split(`${d.escape}S${d.escape}`).join(d.component)
+    .split(`${d.escape}R${d.escape}`).join(d.repeat)
+    .split(`${d.escape}E${d.escape}`).join(d.escape);
+
+const components = (value: string | undefined, d: AstmDelimiters) => (value || '').split(d.component);
+
+/**
+ * Universal Test ID is `^^^local code^...`; some analysers put the code in the first component.
+ */
+export const extractTestCode = (universalTestId: string, d: AstmDelimiters = DEFAULT_DELIMITERS): string => {
+  const parts = components(universalTestId, d);
+  return (parts[3] || parts[0] || '').trim();
+};
+
+// YYYYMMDD[HHMMSS] -> ISO timestamp (local time, as sent by the analyser)
+export const parseAstmDateTime = (value: string | undefined): string | null => {
+  const match = (value || '').trim().match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?)?/);
+  if (!match) return null;
+  const [, year, month, day, hour = '00', minute = '00', second = '00'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second));
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const readDelimiters = (headerRecord: string): AstmDelimiters => {
+  // H|\^& : field delimiter follows the record type, then repeat, component and escape
+  if (headerRecord.length < 5) return DEFAULT_DELIMITERS;
+  return {
+    field: headerRecord[1],
+    repeat: headerRecord[2],
+    component: headerRecord[3],
+    escape: headerRecord[4],
+  };
+};
+
+const parseComment = (fields: string[], d: AstmDelimiters): AstmComment => ({
+  source: fields[2] || '',
+  text: components(fields[3], d).map(part => unescape(part, d)).filter(Boolean).join(' '),
+  type: fields[4] || '',
+});
+
+/**
+ * Parse a complete ASTM message. Records may be separated by CR, CRLF or LF; frame
+ * numbers left at the start of records by naive captures are tolerated.
+ */
+export const parseAstmMessage = (message: string): AstmMessage => {
+  const records = message
+    .split(/\r\n|\r|\n/)
+    .map(record => record.replace(/^[0-7](?=[HPOCRLQM][|])/, ''))
+    .filter(record => record.trim().length > 0);
+
+  const warnings: string[] = [];
+  const headerRecord = records.find(record => record.startsWith('H'));
+  if (!headerRecord) {
+    throw new Error('ASTM message has no header (H) record');
+  }
+
+  const d = readDelimiters(headerRecord);
+  const parsed: AstmMessage = {
+    delimiters: d,
+    header: { sender: '', receiver: '', processingId: '', version: '', timestamp: null },
+    patients: [],
+    terminationCode: '',
+    warnings,
+  };
+
+  let patient: AstmPatient | null = null;
+  let order: AstmOrder | null = null;
+  let result: AstmResult | null = null;
+
+  records.forEach((record, index) => {
+    const type = record[0];
+    const fields = record.split(d.field);
+
+    switch (type) {
+      case 'H':
+        parsed.header = {
+          sender: unescape(components(fields[4], d)[0] || '', d),
+          receiver: unescape(components(fields[9], d)[0] || '', d),
+          processingId: fields[11] || '',
+          version: fields[12] || '',
+          timestamp: parseAstmDateTime(fields[13]),
+        };
+        break;
+
+      case 'P':
+        patient = {
+          sequence: Number(fields[1]) || parsed.patients.length + 1,
+          practicePatientId: unescape(fields[2] || '', d),
+          labPatientId: unescape(fields[3] || '', d),
+          name: components(fields[5], d).map(part => unescape(part, d)).filter(Boolean).join(' '),
+          birthDate: parseAstmDateTime(fields[7]),
+          sex: fields[8] || '',
+          orders: [],
+          comments: [],
+        };
+        parsed.patients.push(patient);
+        order = null;
+        result = null;
+        break;
+
+      case 'O': {
+        if (!patient) {
+          // Some analysers omit P records for QC or anonymous runs
+          patient = { sequence: 1, practicePatientId: '', labPatientId: '', name: '', birthDate: null, sex: '', orders: [], comments: [] };
+          parsed.patients.push(patient);
+        }
+        order = {
+          sequence: Number(fields[1]) || patient.orders.length + 1,
+          specimenId: unescape(components(fields[2], d)[0] || '', d).trim(),
+          instrumentSpecimenId: unescape(components(fields[3], d)[0] || '', d).trim(),
+          testCodes: (fields[4] || '').split(d.repeat).map(id => extractTestCode(id, d)).filter(Boolean),
+          priority: fields[5] || '',
+          collectedAt: parseAstmDateTime(fields[7]),
+          actionCode: fields[11] || '',
+          reportType: fields[25] || '',
+          results: [],
+          comments: [],
+        };
+        patient.orders.push(order);
+        result = null;
+        break;
+      }
+
+      case 'R':
+        if (!order) {
+          warnings.push(`Record ${index + 1}: result without an order record was skipped`);
+          break;
+        }
+        result = {
+          sequence: Number(fields[1]) || order.results.length + 1,
+          testCode: extractTestCode(fields[2] || '', d),
+          universalTestId: fields[2] || '',
+          value: unescape(components(fields[3], d)[0] || '', d).trim(),
+          units: unescape(fields[4] || '', d).trim(),
+          referenceRange: unescape(fields[5] || '', d).trim(),
+          abnormalFlags: (fields[6] || '').trim(),
+          status: (fields[8] || '').trim(),
+          operator: unescape(fields[10] || '', d),
+          completedAt: parseAstmDateTime(fields[12]),
+          instrument: unescape(fields[13] || '', d),
+          comments: [],
+        };
+        order.results.push(result);
+        break;
+
+      case 'C': {
+        const comment = parseComment(fields, d);
+        if (result) result.comments.push(comment);
+        else if (order) order.comments.push(comment);
+        else if (patient) patient.comments.push(comment);
+        break;
+      }
+
+      case 'L':
+        parsed.terminationCode = fields[2] || '';
+        break;
+
+      case 'Q':
+      case 'M':
+        warnings.push(`Record ${index + 1}: ${type === 'Q' ? 'query' : 'manufacturer'} records are not handled`);
+        break;
+
+      default:
+        warnings.push(`Record ${index + 1}: unknown record type "${type}"`);
+    }
+  });
+
+  return parsed;
+};
+
+// Final or corrected results; preliminary, cancelled and "no result" statuses are not imported
+const IMPORTABLE_STATUSES = ['', 'F', 'C', 'R'];
+export const isImportableResult = (result: AstmResult) =>
+  IMPORTABLE_STATUSES.includes(result.status.toUpperCase()) && result.value !== '';
+
+/**
+ * ASTM abnormal flags (L, H, LL, HH, <, >, A, N...) mapped to the result_values flag codes.
+ * Critical limits are applied separately when the values are saved.
+ */
+export const mapAbnormalFlag = (flag: string): string | undefined => {
+  switch (flag.toUpperCase()) {
+    case 'L':
+    case 'LL':
+    case '<':
+      return 'L';
+    case 'H':
+    case 'HH':
+    case '>':
+      return 'H';
+    case 'A':
+    case 'AA':
+      return 'A';
+    default:
+      return undefined;
+  }
+};
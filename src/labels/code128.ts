@@ -0,0 +1,95 @@
+/**
+ * Code 128 encoder (code sets B and C) for drawing barcodes ourselves, e.g. on PDF label sheets.
+ * Thermal printers encode Code 128 natively, so ZPL/EPL output only passes the data through.
+ */
+
+// Bar/space widths for symbol values 0-106 (103-105 = Start A/B/C, 106 = Stop)
+const PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112'
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const CODE_C = 99;
+const STOP = 106;
+
+// Quiet zone required either side of the symbol, in modules
+export const CODE128_QUIET_ZONE = 10;
+
+const digitRunLength = (data: string, from: number) => {
+  let end = from;
+  while (end < data.length && data[end] >= '0' && data[end] <= '9') end++;
+  return end - from;
+};
+
+/**
+ * Symbol values including start, checksum and stop.
+ * Digit runs switch to code set C (two digits per symbol) where that makes the barcode shorter.
+ */
+export const encodeCode128 = (data: string): number[] => {
+  if (!data) throw new Error('Cannot encode an empty barcode');
+  for (const char of data) {
+    const code = char.charCodeAt(0);
+    if (code < 32 || code > 126) {
+      throw new Error(`Character "${char}" cannot be encoded in Code 128 set B`);
+    }
+  }
+
+  const values: number[] = [];
+  let set: 'B' | 'C' | null = null;
+  let i = 0;
+
+  while (i < data.length) {
+    const run = digitRunLength(data, i);
+    const atEdge = i === 0 || i + run === data.length;
+    const useC = run >= 6 || (run >= 4 && atEdge);
+
+    if (useC) {
+      const pairs = Math.floor(run / 2);
+      if (set !== 'C') values.push(set === null ? START_C : CODE_C);
+      set = 'C';
+      for (let p = 0; p < pairs; p++) {
+        values.push(parseInt(data.substr(i, 2), 10));
+        i += 2;
+      }
+      continue;
+    }
+
+    if (set !== 'B') values.push(set === null ? START_B : CODE_B);
+    set = 'B';
+    values.push(data.charCodeAt(i) - 32);
+    i++;
+  }
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+  return [...values, checksum, STOP];
+};
+
+/**
+ * Alternating bar/space widths in modules, starting with a bar (quiet zones excluded).
+ */
+export const code128Widths = (data: string): number[] =>
+  encodeCode128(data).flatMap(value => PATTERNS[value].split('').map(Number));
+
+// Bars as [offset, width] pairs in modules, ready for drawing
+export const code128Bars = (data: string): { bars: Array<[number, number]>; totalModules: number } => {
+  const widths = code128Widths(data);
+  const bars: Array<[number, number]> = [];
+  let offset = 0;
+  widths.forEach((width, index) => {
+    if (index % 2 === 0) bars.push([offset, width]);
+    offset += width;
+  });
+  return { bars, totalModules: offset };
+};
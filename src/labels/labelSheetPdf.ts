@@ -0,0 +1,154 @@
+/**
+ * Multi-up PDF label sheets (A4 / Letter) drawn directly as PDF vector content:
+ * text in the standard Helvetica fonts, Code 128 bars and the order's tube colour swatch.
+ * Output is a PDF document as a latin-1 string; use pdfToBlob to download or print it.
+ */
+import { code128Bars, CODE128_QUIET_ZONE } from './code128';
+import { LabelData, LabelTemplate, labelLines } from './labelTemplate';
+
+const PAGE_SIZES: Record<LabelTemplate['sheet']['page'], [number, number]> = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792],
+};
+
+const PADDING_MM = 1.5;
+const SWATCH_MM = 8;
+const TITLE_SIZE = 8;
+const BODY_SIZE = 6.5;
+const BARCODE_TEXT_SIZE = 6;
+
+const mmToPt = (mm: number) => (mm * 72) / 25.4;
+const num = (value: number) => value.toFixed(2);
+
+// WinAnsi covers latin-1; anything else is replaced so the standard fonts can render it
+const pdfText = (text: string) =>
+  text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?').replace(/\\/g, '\\\\').replace(/\(/g, '\\(').replace(/\)/g, '\\)');
+
+// Helvetica averages ~0.5em per character; good enough to keep text inside the label
+const fitText = (text: string, size: number, width: number) => {
+  const maxChars = Math.max(4, Math.floor(width / (size * 0.5)));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}.` : text;
+};
+
+const hexToRgb = (hex: string): [number, number, number] => {
+  const clean = hex.replace('#', '');
+  if (!/^[0-9a-fA-F]{6}$/.test(clean)) return [0, 0, 0];
+  return [0, 2, 4].map(i => parseInt(clean.slice(i, i + 2), 16) / 255) as [number, number, number];
+};
+
+const textOp = (font: 'F1' | 'F2', size: number, x: number, y: number, text: string) =>
+  `BT /${font} ${size} Tf ${num(x)} ${num(y)} Td (${pdfText(text)}) Tj ET`;
+
+const drawLabel = (label: LabelData, template: LabelTemplate, x: number, y: number): string[] => {
+  const width = mmToPt(template.width_mm);
+  const height = mmToPt(template.height_mm);
+  const pad = mmToPt(PADDING_MM);
+  const withSwatch = template.fields.includes('tube_color');
+  const swatch = withSwatch ? mmToPt(SWATCH_MM) : 0;
+  const textWidth = width - pad * 2 - (withSwatch ? swatch + pad : 0);
+  const ops: string[] = [];
+
+  // Light cut guide
+  ops.push(`0.85 G 0.3 w ${num(x)} ${num(y)} ${num(width)} ${num(height)} re S`);
+
+  let cursor = y + height - pad;
+  ops.push('0 g');
+  labelLines(label, template).forEach(line => {
+    const size = line.emphasis ? TITLE_SIZE : BODY_SIZE;
+    cursor -= size;
+    ops.push(textOp(line.emphasis ? 'F2' : 'F1', size, x + pad, cursor, fitText(line.text, size, textWidth)));
+    cursor -= 1.5;
+  });
+
+  if (withSwatch) {
+    const [r, g, b] = hexToRgb(label.tube_color.hex);
+    const swatchX = x + width - pad - swatch;
+    const swatchY = y + height - pad - swatch;
+    ops.push(`${num(r)} ${num(g)} ${num(b)} rg ${num(swatchX)} ${num(swatchY)} ${num(swatch)} ${num(swatch)} re f`);
+    ops.push('0 g');
+    ops.push(textOp('F1', BODY_SIZE - 1, swatchX, swatchY - BODY_SIZE, fitText(label.tube_color.name, BODY_SIZE - 1, swatch)));
+    cursor = Math.min(cursor, swatchY - BODY_SIZE - 1.5);
+  }
+
+  // Barcode fills the remaining height above its human-readable line
+  const { bars, totalModules } = code128Bars(label.barcode);
+  const availableWidth = width - pad * 2;
+  const moduleWidth = Math.min(0.6, availableWidth / (totalModules + CODE128_QUIET_ZONE * 2));
+  const barcodeWidth = totalModules * moduleWidth;
+  const barX = x + (width - barcodeWidth) / 2;
+  const barBottom = y + pad + BARCODE_TEXT_SIZE + 1;
+  const barHeight = Math.max(mmToPt(4), cursor - 1.5 - barBottom);
+
+  ops.push('0 g');
+  bars.forEach(([offset, modules]) => {
+    ops.push(`${num(barX + offset * moduleWidth)} ${num(barBottom)} ${num(modules * moduleWidth)} ${num(barHeight)} re`);
+  });
+  ops.push('f');
+
+  const readableWidth = label.barcode.length * BARCODE_TEXT_SIZE * 0.5;
+  ops.push(textOp('F1', BARCODE_TEXT_SIZE, x + (width - readableWidth) / 2, y + pad, label.barcode));
+
+  return ops;
+};
+
+export const renderLabelSheetPdf = (labels: LabelData[], template: LabelTemplate): string => {
+  const [pageWidth, pageHeight] = PAGE_SIZES[template.sheet.page] || PAGE_SIZES.A4;
+  const { columns, rows } = template.sheet;
+  const margin = mmToPt(template.sheet.margin_mm);
+  const gap = mmToPt(template.sheet.gap_mm);
+  const labelWidth = mmToPt(template.width_mm);
+  const labelHeight = mmToPt(template.height_mm);
+  const perPage = Math.max(1, columns * rows);
+
+  const copies = Math.max(1, template.copies);
+  const queue = labels.flatMap(label => Array.from({ length: copies }, () => label));
+  const pageCount = Math.max(1, Math.ceil(queue.length / perPage));
+
+  const pages: string[] = [];
+  for (let page = 0; page < pageCount; page++) {
+    const ops: string[] = [];
+    queue.slice(page * perPage, (page + 1) * perPage).forEach((label, index) => {
+      const column = index % columns;
+      const row = Math.floor(index / columns);
+      const x = margin + column * (labelWidth + gap);
+      const y = pageHeight - margin - row * (labelHeight + gap) - labelHeight;
+      ops.push(...drawLabel(label, template, x, y));
+    });
+    pages.push(ops.join('\n'));
+  }
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then a page + content stream pair per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+  objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  pages.forEach((content, index) => {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(pageWidth)} ${num(pageHeight)}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`
+    );
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, index) => {
+    offsets.push(pdf.length);
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return pdf;
+};
+
+// PDF strings from renderLabelSheetPdf are latin-1; keep bytes 1:1 when wrapping in a Blob
+export const pdfToBlob = (pdf: string): Blob => {
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return new Blob([bytes], { type: 'application/pdf' });
+};
@@ -0,0 +1,212 @@
+/**
+ * Label templates and label data shared by the ZPL, EPL and PDF renderers.
+ * A template fixes the label size, the printer language and which fields are printed;
+ * the renderers only decide how those lines are laid out for their target.
+ */
+import { COLOR_PALETTE } from '../utils/colorAssignment';
+import { getContainerSpec, OrderSample } from '../utils/sampleContainers';
+
+export type LabelFormat = 'zpl' | 'epl' | 'pdf';
+
+export type LabelField = 'patient_name' | 'age_sex' | 'sample_type' | 'tube_color' | 'collected_at' | 'tests';
+
+export const LABEL_FIELDS: Record<LabelField, string> = {
+  patient_name: 'Patient name',
+  age_sex: 'Age / sex',
+  sample_type: 'Sample type & container',
+  tube_color: 'Tube colour',
+  collected_at: 'Collection time',
+  tests: 'Tests',
+};
+
+export interface LabelSheetLayout {
+  page: 'A4' | 'Letter';
+  columns: number;
+  rows: number;
+  margin_mm: number;
+  gap_mm: number;
+}
+
+export interface LabelTemplate {
+  id?: string;
+  lab_id?: string | null;
+  name: string;
+  format: LabelFormat;
+  width_mm: number;
+  height_mm: number;
+  dpi: 203 | 300;
+  copies: number;
+  fields: LabelField[];
+  sheet: LabelSheetLayout;
+  is_default?: boolean;
+}
+
+export const DEFAULT_SHEET: LabelSheetLayout = { page: 'A4', columns: 3, rows: 8, margin_mm: 10, gap_mm: 2.5 };
+
+// Built-in templates, used until a lab saves its own
+export const DEFAULT_LABEL_TEMPLATES: Record<LabelFormat, LabelTemplate> = {
+  zpl: {
+    name: 'Zebra 50 x 25 mm',
+    format: 'zpl',
+    width_mm: 50,
+    height_mm: 25,
+    dpi: 203,
+    copies: 1,
+    fields: ['patient_name', 'age_sex', 'sample_type', 'tube_color'],
+    sheet: DEFAULT_SHEET,
+  },
+  epl: {
+    name: 'EPL 50 x 25 mm',
+    format: 'epl',
+    width_mm: 50,
+    height_mm: 25,
+    dpi: 203,
+    copies: 1,
+    fields: ['patient_name', 'age_sex', 'sample_type', 'tube_color'],
+    sheet: DEFAULT_SHEET,
+  },
+  pdf: {
+    name: 'A4 sheet 3 x 8',
+    format: 'pdf',
+    width_mm: 63.5,
+    height_mm: 33.9,
+    dpi: 203,
+    copies: 1,
+    fields: ['patient_name', 'age_sex', 'sample_type', 'tube_color', 'collected_at'],
+    sheet: DEFAULT_SHEET,
+  },
+};
+
+export interface TubeColor {
+  hex: string;
+  name: string;
+}
+
+export interface LabelData {
+  barcode: string;
+  patient_name: string;
+  age?: string | null;
+  sex?: string | null;
+  sample_type: string;
+  container_type?: string | null;
+  tube_color: TubeColor;
+  collected_at?: string | null;
+  tests?: string[];
+}
+
+export interface LabelOrder {
+  id: string;
+  sample_id?: string | null;
+  patient_name: string;
+  color_code?: string | null;
+  color_name?: string | null;
+  qr_code_data?: string | null;
+  sample_collected_at?: string | null;
+  tests?: string[];
+}
+
+export interface LabelPatient {
+  age?: number | string | null;
+  gender?: string | null;
+}
+
+// Order colour from COLOR_PALETTE; older orders only carry it inside qr_code_data
+export const resolveTubeColor = (order: Pick<LabelOrder, 'color_code' | 'color_name' | 'qr_code_data'>): TubeColor => {
+  let hex = order.color_code || null;
+  let name = order.color_name || null;
+
+  if (!hex && order.qr_code_data) {
+    try {
+      const parsed = JSON.parse(order.qr_code_data);
+      hex = parsed.colorCode || null;
+      name = name || parsed.colorName || null;
+    } catch {
+      // Not JSON; fall through to the default
+    }
+  }
+
+  const paletteEntry = COLOR_PALETTE.find(c => c.hex.toLowerCase() === (hex || '').toLowerCase());
+  return {
+    hex: paletteEntry?.hex || hex || '#000000',
+    name: name || paletteEntry?.name || 'None'
+  };
+};
+
+const formatSex = (gender?: string | null) => (gender ? gender.trim().charAt(0).toUpperCase() : null);
+
+/**
+ * One label per primary container (aliquots get their own barcode too); orders without
+ * container rows fall back to a single label carrying the order's sample_id.
+ */
+export const buildOrderLabels = (order: LabelOrder, patient: LabelPatient | null, samples: OrderSample[] = []): LabelData[] => {
+  const tubeColor = resolveTubeColor(order);
+  const age = patient?.age !== undefined && patient?.age !== null ? String(patient.age) : null;
+  const sex = formatSex(patient?.gender);
+
+  const printable = samples.filter(s => s.status !== 'rejected' && s.status !== 'discarded');
+  if (printable.length === 0) {
+    return [{
+      barcode: order.sample_id || order.id.slice(0, 8).toUpperCase(),
+      patient_name: order.patient_name,
+      age,
+      sex,
+      sample_type: 'Mixed',
+      container_type: null,
+      tube_color: tubeColor,
+      collected_at: order.sample_collected_at || null,
+      tests: order.tests || []
+    }];
+  }
+
+  return printable.map(sample => ({
+    barcode: sample.barcode,
+    patient_name: order.patient_name,
+    age,
+    sex,
+    sample_type: sample.sample_type,
+    container_type: sample.parent_sample_id
+      ? sample.container_type
+      : `${sample.container_type} (${getContainerSpec(sample.sample_type).cap_color})`,
+    tube_color: tubeColor,
+    collected_at: sample.collected_at,
+    tests: sample.test_names
+  }));
+};
+
+const formatCollected = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+export interface LabelLine {
+  field: LabelField;
+  text: string;
+  emphasis?: boolean;
+}
+
+/**
+ * Text lines for a label in print order, honouring the template's field selection.
+ * Tube colour is returned separately because every renderer draws it as a swatch.
+ */
+export const labelLines = (label: LabelData, template: Pick<LabelTemplate, 'fields'>): LabelLine[] => {
+  const lines: LabelLine[] = [];
+  const has = (field: LabelField) => template.fields.includes(field);
+
+  if (has('patient_name')) lines.push({ field: 'patient_name', text: label.patient_name, emphasis: true });
+  if (has('age_sex') && (label.age || label.sex)) {
+    lines.push({ field: 'age_sex', text: [label.age ? `${label.age}Y` : null, label.sex].filter(Boolean).join(' / ') });
+  }
+  if (has('sample_type')) {
+    lines.push({ field: 'sample_type', text: label.container_type ? `${label.sample_type} - ${label.container_type}` : label.sample_type });
+  }
+  if (has('collected_at') && label.collected_at) {
+    lines.push({ field: 'collected_at', text: `Coll: ${formatCollected(label.collected_at)}` });
+  }
+  if (has('tests') && label.tests && label.tests.length > 0) {
+    lines.push({ field: 'tests', text: label.tests.join(', ') });
+  }
+  return lines;
+};
+
+export const mmToDots = (mm: number, dpi: number) => Math.round((mm * dpi) / 25.4);
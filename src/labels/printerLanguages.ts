@@ -0,0 +1,142 @@
+/**
+ * ZPL (Zebra) and EPL (Eltron/Zebra LP) label output.
+ * Both renderers return plain text so the result can be checked without a printer attached
+ * and sent as-is to a raw/thermal print queue.
+ */
+import { code128Widths, CODE128_QUIET_ZONE } from './code128';
+import { LabelData, LabelTemplate, labelLines, mmToDots } from './labelTemplate';
+
+const MARGIN_MM = 2;
+const SWATCH_WIDTH_MM = 9;
+const BARCODE_TEXT_MM = 2.8;
+const MIN_BARCODE_MM = 5;
+
+interface LabelGeometry {
+  width: number;
+  height: number;
+  margin: number;
+  swatchWidth: number;
+  textWidth: number;
+  scale: number;
+}
+
+const geometry = (template: LabelTemplate, withSwatch: boolean): LabelGeometry => {
+  const width = mmToDots(template.width_mm, template.dpi);
+  const height = mmToDots(template.height_mm, template.dpi);
+  const margin = mmToDots(MARGIN_MM, template.dpi);
+  const swatchWidth = withSwatch ? mmToDots(SWATCH_WIDTH_MM, template.dpi) : 0;
+  return {
+    width,
+    height,
+    margin,
+    swatchWidth,
+    textWidth: width - margin * 2 - (withSwatch ? swatchWidth + margin : 0),
+    scale: template.dpi / 203,
+  };
+};
+
+// Roughly fit a line to the available width; printer fonts are ~0.55 x height wide
+const fitText = (text: string, fontHeight: number, width: number) => {
+  const maxChars = Math.max(4, Math.floor(width / (fontHeight * 0.55)));
+  return text.length > maxChars ? `${text.slice(0, maxChars - 1)}.` : text;
+};
+
+// Narrowest module that lets the symbol and its quiet zones fit across the label
+const moduleWidth = (barcode: string, availableDots: number) => {
+  const modules = code128Widths(barcode).reduce((sum, w) => sum + w, 0) + CODE128_QUIET_ZONE * 2;
+  return Math.min(4, Math.max(1, Math.floor(availableDots / modules)));
+};
+
+const barcodeHeight = (template: LabelTemplate, geo: LabelGeometry, top: number) =>
+  Math.max(mmToDots(MIN_BARCODE_MM, template.dpi), geo.height - geo.margin - mmToDots(BARCODE_TEXT_MM, template.dpi) - top);
+
+// ^FH\ lets us hex-escape the ZPL control characters inside field data
+const zplField = (text: string) => text.replace(/\\/g, '\\5C').replace(/\^/g, '\\5E').replace(/~/g, '\\7E');
+
+const renderZplLabel = (label: LabelData, template: LabelTemplate): string => {
+  const withSwatch = template.fields.includes('tube_color');
+  const geo = geometry(template, withSwatch);
+  const titleFont = Math.round(24 * geo.scale);
+  const bodyFont = Math.round(18 * geo.scale);
+  const lineGap = Math.round(4 * geo.scale);
+
+  const commands: string[] = ['^XA', '^CI28', `^PW${geo.width}`, `^LL${geo.height}`, '^LH0,0'];
+
+  let y = geo.margin;
+  labelLines(label, template).forEach(line => {
+    const font = line.emphasis ? titleFont : bodyFont;
+    commands.push(`^FO${geo.margin},${y}^A0N,${font},${font}^FH\\^FD${zplField(fitText(line.text, font, geo.textWidth))}^FS`);
+    y += font + lineGap;
+  });
+
+  if (withSwatch) {
+    const x = geo.width - geo.margin - geo.swatchWidth;
+    const swatchHeight = titleFont + bodyFont + lineGap;
+    // Thermal printers are monochrome: a solid block with the colour name knocked out
+    commands.push(`^FO${x},${geo.margin}^GB${geo.swatchWidth},${swatchHeight},${swatchHeight}^FS`);
+    commands.push(
+      `^FO${x},${geo.margin + Math.round((swatchHeight - bodyFont) / 2)}^FB${geo.swatchWidth},1,0,C^A0N,${bodyFont},${bodyFont}^FR^FH\\^FD${zplField(fitText(label.tube_color.name, bodyFont, geo.swatchWidth))}^FS`
+    );
+    y = Math.max(y, geo.margin + swatchHeight + lineGap);
+  }
+
+  const barWidth = geo.width - geo.margin * 2;
+  const module = moduleWidth(label.barcode, barWidth);
+  const height = barcodeHeight(template, geo, y);
+  commands.push(`^FO${geo.margin},${y}^BY${module},3,${height}^BCN,${height},Y,N,N^FH\\^FD${zplField(label.barcode)}^FS`);
+
+  commands.push(`^PQ${Math.max(1, template.copies)}`, '^XZ');
+  return commands.join('\n');
+};
+
+export const renderZpl = (labels: LabelData[], template: LabelTemplate): string =>
+  labels.map(label => renderZplLabel(label, template)).join('\n') + '\n';
+
+// EPL2 resident fonts: font number -> character height in dots at 203 / 300 dpi
+const EPL_FONT_HEIGHTS: Record<number, { 203: number; 300: number }> = {
+  2: { 203: 16, 300: 28 },
+  3: { 203: 20, 300: 36 },
+};
+
+// EPL strings are single-byte and quoted
+const eplString = (text: string) =>
+  `"${text.replace(/[^\x20-\x7E]/g, '?').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+const renderEplLabel = (label: LabelData, template: LabelTemplate): string => {
+  const withSwatch = template.fields.includes('tube_color');
+  const geo = geometry(template, withSwatch);
+  const titleHeight = EPL_FONT_HEIGHTS[3][template.dpi];
+  const bodyHeight = EPL_FONT_HEIGHTS[2][template.dpi];
+  const lineGap = Math.round(4 * geo.scale);
+
+  const commands: string[] = ['', 'N', `q${geo.width}`, `Q${geo.height},24`];
+
+  let y = geo.margin;
+  labelLines(label, template).forEach(line => {
+    const font = line.emphasis ? 3 : 2;
+    const fontHeight = line.emphasis ? titleHeight : bodyHeight;
+    commands.push(`A${geo.margin},${y},0,${font},1,1,N,${eplString(fitText(line.text, fontHeight, geo.textWidth))}`);
+    y += fontHeight + lineGap;
+  });
+
+  if (withSwatch) {
+    const x = geo.width - geo.margin - geo.swatchWidth;
+    const swatchHeight = titleHeight + bodyHeight + lineGap;
+    commands.push(`LO${x},${geo.margin},${geo.swatchWidth},${swatchHeight}`);
+    commands.push(
+      `A${x + lineGap},${geo.margin + Math.round((swatchHeight - bodyHeight) / 2)},0,2,1,1,R,${eplString(fitText(label.tube_color.name, bodyHeight, geo.swatchWidth - lineGap * 2))}`
+    );
+    y = Math.max(y, geo.margin + swatchHeight + lineGap);
+  }
+
+  const module = moduleWidth(label.barcode, geo.width - geo.margin * 2);
+  const height = barcodeHeight(template, geo, y);
+  // Barcode type 1 = Code 128 with automatic subset switching; B = print human-readable text
+  commands.push(`B${geo.margin},${y},0,1,${module},${module},${height},B,${eplString(label.barcode)}`);
+
+  commands.push(`P${Math.max(1, template.copies)}`);
+  return commands.join('\n');
+};
+
+export const renderEpl = (labels: LabelData[], template: LabelTemplate): string =>
+  labels.map(label => renderEplLabel(label, template)).join('\n') + '\n';
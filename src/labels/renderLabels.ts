@@ -0,0 +1,24 @@
+import { LabelData, LabelFormat, LabelTemplate } from './labelTemplate';
+import { renderEpl, renderZpl } from './printerLanguages';
+import { renderLabelSheetPdf } from './labelSheetPdf';
+
+export interface RenderedLabels {
+  format: LabelFormat;
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+// Single entry point for the label renderers, keyed by the template's format
+export const renderLabels = (labels: LabelData[], template: LabelTemplate): RenderedLabels => {
+  switch (template.format) {
+    case 'zpl':
+      return { format: 'zpl', content: renderZpl(labels, template), mimeType: 'text/plain', extension: 'zpl' };
+    case 'epl':
+      return { format: 'epl', content: renderEpl(labels, template), mimeType: 'text/plain', extension: 'epl' };
+    case 'pdf':
+      return { format: 'pdf', content: renderLabelSheetPdf(labels, template), mimeType: 'application/pdf', extension: 'pdf' };
+    default:
+      throw new Error(`Unsupported label format: ${template.format}`);
+  }
+};
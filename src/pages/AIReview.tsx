@@ -0,0 +1,351 @@
+import React, { useEffect, useState } from 'react';
+import { ScanEye, Check, X, Pencil, Loader2, Trash2, Plus, SlidersHorizontal, TrendingUp, ExternalLink } from 'lucide-react';
+import { format, subDays } from 'date-fns';
+import { database } from '../utils/supabase';
+import {
+  AiConfidenceThreshold, DEFAULT_AI_CONFIDENCE_THRESHOLD, ImageRegion, PromptAccuracy,
+  describePromptKey, summarizePromptAccuracy
+} from '../utils/aiConfidence';
+import ImageCrop from '../components/AITools/ImageCrop';
+import { usePermission } from '../contexts/AuthContext';
+
+interface ReviewItem {
+  id: string;
+  order_id: string;
+  analyte_id: string | null;
+  parameter: string;
+  value: string;
+  unit: string | null;
+  confidence: number;
+  threshold: number;
+  crop: ImageRegion | null;
+  prompt_key: string;
+  created_at: string;
+  orders?: { sample_id: string | null; patient_name: string } | null;
+  attachments?: { file_url: string; file_type: string | null; original_filename: string | null } | null;
+  analytes?: { name: string; unit: string | null } | null;
+}
+
+interface ThresholdRow extends AiConfidenceThreshold {
+  id: string;
+  analytes?: { name: string } | null;
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const accuracyColor = (accuracy: number) => (accuracy >= 0.95 ? 'bg-green-500' : accuracy >= 0.85 ? 'bg-yellow-500' : 'bg-red-500');
+
+const AIReview: React.FC = () => {
+  const canConfigure = usePermission('system_config');
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [corrections, setCorrections] = useState<Record<string, string>>({});
+  const [thresholds, setThresholds] = useState<ThresholdRow[]>([]);
+  const [analytes, setAnalytes] = useState<Array<{ id: string; name: string }>>([]);
+  const [newThreshold, setNewThreshold] = useState({ analyteId: '', value: '' });
+  const [labDefault, setLabDefault] = useState('');
+  const [accuracy, setAccuracy] = useState<PromptAccuracy[]>([]);
+  const [days, setDays] = useState(90);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([database.aiReview.getQueue(), database.aiReview.getThresholds(), database.analytes.getAll()]).then(
+      ([queueResult, thresholdResult, analyteResult]) => {
+        const failed = queueResult.error || thresholdResult.error || analyteResult.error;
+        if (failed) setError(failed.message);
+        setQueue((queueResult.data as ReviewItem[] | null) || []);
+        const rows = (thresholdResult.data as ThresholdRow[] | null) || [];
+        setThresholds(rows);
+        const own = rows.find(t => t.lab_id && !t.analyte_id);
+        setLabDefault(own ? String(own.threshold) : '');
+        setAnalytes(analyteResult.data || []);
+        setLoading(false);
+      }
+    );
+  }, []);
+
+  useEffect(() => {
+    database.aiReview.getDecisions(subDays(new Date(), days).toISOString()).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setAccuracy(summarizePromptAccuracy(data || []));
+    });
+  }, [days]);
+
+  const handleDecision = async (item: ReviewItem, status: 'accepted' | 'corrected' | 'rejected') => {
+    const correctedValue = (corrections[item.id] ?? '').trim();
+    if (status === 'corrected' && (!correctedValue || correctedValue === item.value)) return;
+    setBusyId(item.id);
+    setError(null);
+    const { error } = await database.aiReview.review(item.id, { status, corrected_value: correctedValue });
+    setBusyId(null);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setQueue(prev => prev.filter(q => q.id !== item.id));
+  };
+
+  const saveThreshold = async (analyteId: string | null, raw: string) => {
+    const value = parseFloat(raw) / 100;
+    if (isNaN(value) || value < 0 || value > 1) {
+      setError('Thresholds are percentages between 0 and 100');
+      return false;
+    }
+    setError(null);
+    const { data, error } = await database.aiReview.saveThreshold(analyteId, value);
+    if (error) {
+      setError(error.message);
+      return false;
+    }
+    setThresholds(prev => [...prev.filter(t => t.id !== data.id), data]);
+    return true;
+  };
+
+  const handleAddThreshold = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newThreshold.analyteId) return;
+    if (await saveThreshold(newThreshold.analyteId, newThreshold.value)) setNewThreshold({ analyteId: '', value: '' });
+  };
+
+  const handleDeleteThreshold = async (id: string) => {
+    const { error } = await database.aiReview.deleteThreshold(id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setThresholds(prev => prev.filter(t => t.id !== id));
+  };
+
+  const analyteThresholds = thresholds.filter(t => t.analyte_id);
+  const sharedDefault = thresholds.find(t => !t.lab_id && !t.analyte_id);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+        <ScanEye className="h-8 w-8 mr-2 text-blue-600" />
+        AI Review
+      </h1>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Review Queue ({queue.length})</h3>
+          <p className="text-sm text-gray-600">
+            AI-extracted values below their confidence threshold. Accepted and corrected values are filled in when the order's results are next opened.
+          </p>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+        ) : queue.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing to review.</p>
+        ) : (
+          <div className="space-y-3">
+            {queue.map(item => {
+              const document = item.attachments;
+              const isPdf = document?.file_type?.includes('pdf');
+              return (
+                <div key={item.id} className="grid grid-cols-1 lg:grid-cols-2 gap-4 border border-gray-200 rounded-lg p-4">
+                  <div className="flex flex-col items-start space-y-2">
+                    {document && !isPdf && <ImageCrop src={document.file_url} crop={item.crop} />}
+                    {document && (
+                      <a href={document.file_url} target="_blank" rel="noreferrer" className="flex items-center text-xs text-blue-600 hover:text-blue-800">
+                        <ExternalLink className="h-3 w-3 mr-1" /> {document.original_filename || 'Open document'}
+                      </a>
+                    )}
+                    {!document && <span className="text-sm text-gray-400">Source document not available</span>}
+                    {document && !isPdf && !item.crop && <span className="text-xs text-gray-500">The value could not be located in the image; showing the whole page.</span>}
+                  </div>
+
+                  <div className="space-y-3">
+                    <div>
+                      <div className="text-sm text-gray-500">
+                        {item.orders ? `${item.orders.sample_id || ''} ${item.orders.patient_name}` : item.order_id}
+                        {' · '}{format(new Date(item.created_at), 'dd MMM yyyy HH:mm')}
+                      </div>
+                      <div className="text-lg font-medium text-gray-900">
+                        {item.analytes?.name || item.parameter}
+                        {item.analytes && item.analytes.name !== item.parameter && <span className="ml-2 text-sm text-gray-500">read as "{item.parameter}"</span>}
+                      </div>
+                    </div>
+                    <div className="flex items-baseline space-x-4">
+                      <span className="text-2xl font-bold text-gray-900">{item.value}</span>
+                      <span className="text-sm text-gray-600">{item.unit}</span>
+                      <span className="text-sm text-red-700">
+                        {percent(Number(item.confidence))} confidence (threshold {percent(Number(item.threshold))})
+                      </span>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <input
+                        className={inputClass}
+                        placeholder="Corrected value"
+                        value={corrections[item.id] ?? ''}
+                        onChange={(e) => setCorrections(prev => ({ ...prev, [item.id]: e.target.value }))}
+                      />
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={() => handleDecision(item, 'accepted')}
+                        disabled={busyId !== null}
+                        className="flex items-center px-3 py-2 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+                      >
+                        {busyId === item.id ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Check className="h-4 w-4 mr-1" />}
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => handleDecision(item, 'corrected')}
+                        disabled={busyId !== null || !(corrections[item.id] ?? '').trim() || (corrections[item.id] ?? '').trim() === item.value}
+                        className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        <Pencil className="h-4 w-4 mr-1" /> Save correction
+                      </button>
+                      <button
+                        onClick={() => handleDecision(item, 'rejected')}
+                        disabled={busyId !== null}
+                        className="flex items-center px-3 py-2 text-sm border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                        title="Not a usable value; leave it for manual entry"
+                      >
+                        <X className="h-4 w-4 mr-1" /> Reject
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <SlidersHorizontal className="h-5 w-5 mr-2 text-blue-600" />
+            Confidence Thresholds
+          </h3>
+          <p className="text-sm text-gray-600">
+            Values at or above the threshold are filled in as drafts; lower ones come to this queue.
+            Without a lab setting the default is {percent(sharedDefault ? Number(sharedDefault.threshold) : DEFAULT_AI_CONFIDENCE_THRESHOLD)}.
+          </p>
+
+          {canConfigure && (
+            <div className="flex items-end space-x-2">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Lab default (%)</label>
+                <input className={inputClass} type="number" min={0} max={100} value={labDefault} onChange={(e) => setLabDefault(e.target.value)} />
+              </div>
+              <button
+                onClick={() => saveThreshold(null, labDefault)}
+                disabled={!labDefault}
+                className="px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          )}
+
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-3 py-2">Analyte</th>
+                <th className="px-3 py-2">Threshold</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {analyteThresholds.length === 0 && (
+                <tr><td colSpan={3} className="px-3 py-2 text-gray-500">No analyte-specific thresholds.</td></tr>
+              )}
+              {analyteThresholds.map(t => (
+                <tr key={t.id} className="border-b">
+                  <td className="px-3 py-2">{t.analytes?.name || t.analyte_id}{!t.lab_id && <span className="ml-1 text-xs text-gray-500">(shared)</span>}</td>
+                  <td className="px-3 py-2">{percent(Number(t.threshold))}</td>
+                  <td className="px-3 py-2 text-right">
+                    {t.lab_id && canConfigure && (
+                      <button onClick={() => handleDeleteThreshold(t.id)} className="text-red-600 hover:text-red-800" title="Remove">
+                        <Trash2 className="h-4 w-4 inline" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {canConfigure && (
+            <form onSubmit={handleAddThreshold} className="flex items-end space-x-2">
+              <div className="flex-1">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Analyte</label>
+                <select className={inputClass} value={newThreshold.analyteId} onChange={(e) => setNewThreshold(prev => ({ ...prev, analyteId: e.target.value }))}>
+                  <option value="">Select analyte…</option>
+                  {analytes.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                </select>
+              </div>
+              <div className="w-28">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Threshold (%)</label>
+                <input className={inputClass} type="number" min={0} max={100} value={newThreshold.value} onChange={(e) => setNewThreshold(prev => ({ ...prev, value: e.target.value }))} />
+              </div>
+              <button
+                type="submit"
+                disabled={!newThreshold.analyteId || !newThreshold.value}
+                className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                <Plus className="h-4 w-4 mr-1" /> Add
+              </button>
+            </form>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <TrendingUp className="h-5 w-5 mr-2 text-blue-600" />
+              Prompt Accuracy
+            </h3>
+            <select value={days} onChange={(e) => setDays(Number(e.target.value))} className="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+              <option value={30}>Last 30 days</option>
+              <option value={90}>Last 90 days</option>
+              <option value={180}>Last 180 days</option>
+            </select>
+          </div>
+          <p className="text-sm text-gray-600">
+            Share of AI values accepted unchanged, by reviewers or when technicians saved the result.
+          </p>
+
+          {accuracy.length === 0 ? (
+            <p className="text-sm text-gray-500">No decided values in this period.</p>
+          ) : (
+            <div className="space-y-4">
+              {accuracy.map(prompt => (
+                <div key={prompt.prompt_key} className="border border-gray-200 rounded-md p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium text-gray-900 capitalize">{describePromptKey(prompt.prompt_key)}</span>
+                    <span className="text-lg font-bold text-gray-900">{percent(prompt.accuracy)}</span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {prompt.decided} values: {prompt.accepted} accepted, {prompt.corrected} corrected, {prompt.rejected} rejected
+                  </div>
+                  <div className="flex items-end space-x-1 h-12">
+                    {prompt.weekly.map(week => (
+                      <div
+                        key={week.week}
+                        className={`w-4 rounded-t ${accuracyColor(week.accuracy)}`}
+                        style={{ height: `${Math.max(4, week.accuracy * 100)}%` }}
+                        title={`Week of ${format(new Date(week.week), 'dd MMM')}: ${percent(week.accuracy)} of ${week.decided}`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AIReview;
@@ -1,13 +1,16 @@
 import React, { useState } from 'react';
-import { Camera, Upload, Brain, Zap, Eye, FileText, AlertTriangle, CheckCircle, TestTube } from 'lucide-react';
+import { Camera, Upload, Brain, Zap, Eye, FileText, AlertTriangle, CheckCircle, TestTube, MessageSquareCode } from 'lucide-react';
 import PhotoAnalysis from '../components/AITools/PhotoAnalysis';
 import PipetteValidation from '../components/AITools/PipetteValidation';
 import OCRExtraction from '../components/AITools/OCRExtraction';
 import { AITestConfigurator } from '../components/AITools/AITestConfigurator';
+import PromptConsole from '../components/AITools/PromptConsole';
 import { TestConfigurationResponse } from '../utils/geminiAI';
+import { usePermission } from '../contexts/AuthContext';
 
 const AITools: React.FC = () => {
   const [activeTab, setActiveTab] = useState('photo');
+  const canConfigure = usePermission('system_config');
   const [existingTests] = useState<string[]>([
     'Complete Blood Count', 'Basic Metabolic Panel', 'Lipid Panel', 
     'Thyroid Function', 'Liver Function Tests'
@@ -19,7 +22,7 @@ const AITools: React.FC = () => {
     // For example: navigate to test form with pre-filled data
   };
 
-  const tools = [
+  const allTools = [
     {
       id: 'photo',
       name: 'Photo Recognition',
@@ -52,8 +55,20 @@ const AITools: React.FC = () => {
       color: 'indigo',
       features: ['Smart test suggestions', 'Analyte configuration', 'Reference ranges', 'Medical accuracy'],
     },
+    {
+      id: 'prompts',
+      name: 'Prompts',
+      description: 'Version, test and promote AI prompts',
+      icon: MessageSquareCode,
+      color: 'orange',
+      features: ['Version history', 'Rollback', 'A/B test bench', 'Field-level accuracy'],
+      permission: 'system_config',
+    },
   ];
 
+  // Prompt changes alter what the AI edge functions send, so they need system configuration rights
+  const tools = allTools.filter(tool => !tool.permission || canConfigure);
+
   const renderActiveComponent = () => {
     switch (activeTab) {
       case 'photo':
@@ -72,6 +87,8 @@ const AITools: React.FC = () => {
             />
           </div>
         );
+      case 'prompts':
+        return canConfigure ? <PromptConsole /> : <PhotoAnalysis />;
       default:
         return <PhotoAnalysis />;
     }
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import { History, ShieldCheck, ShieldAlert, Loader2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '../utils/supabase';
+import {
+  AuditAction,
+  AuditChainCheck,
+  AuditedTable,
+  AuditLogEntry,
+  AUDITED_TABLES,
+  diffAuditValues,
+  formatAuditValue,
+} from '../utils/auditTrail';
+
+const ACTION_BADGES: Record<AuditAction, string> = {
+  INSERT: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+};
+
+const inputClass = 'px-3 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const formatTime = (timestamp: string) => format(new Date(timestamp), 'dd MMM yyyy HH:mm:ss');
+
+const AuditTrail: React.FC = () => {
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [tableName, setTableName] = useState<'' | AuditedTable>('');
+  const [recordId, setRecordId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<{ tableName: AuditedTable; recordId: string } | null>(null);
+  const [history, setHistory] = useState<AuditLogEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+  const [chainCheck, setChainCheck] = useState<AuditChainCheck | null>(null);
+  const [verifying, setVerifying] = useState(false);
+
+  // Only filter once a whole record ID has been typed or pasted
+  const recordFilter = /^[0-9a-f-]{36}$/i.test(recordId.trim()) ? recordId.trim() : '';
+
+  useEffect(() => {
+    setLoading(true);
+    database.audit.getEntries({ tableName: tableName || undefined, recordId: recordFilter || undefined }).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setEntries(data || []);
+      setLoading(false);
+    });
+  }, [tableName, recordFilter]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setHistoryLoading(true);
+    database.audit.getRecordHistory(selected.tableName, selected.recordId).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setHistory(data || []);
+      setHistoryLoading(false);
+    });
+  }, [selected]);
+
+  const handleVerify = async () => {
+    setVerifying(true);
+    setError(null);
+    const { data, error } = await database.audit.verifyChain();
+    setVerifying(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setChainCheck(data);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <History className="h-8 w-8 mr-2 text-blue-600" />
+          Audit Trail
+        </h1>
+        <button
+          onClick={handleVerify}
+          disabled={verifying}
+          className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {verifying ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <ShieldCheck className="h-4 w-4 mr-1" />}
+          Verify Chain
+        </button>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+
+      {chainCheck && (
+        chainCheck.broken_entry_id ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700 flex items-start">
+            <ShieldAlert className="h-5 w-5 mr-2 flex-shrink-0" />
+            <div>
+              <div className="font-medium">Chain broken at entry #{chainCheck.broken_seq}</div>
+              {chainCheck.problem}. {chainCheck.entries_checked - 1} earlier entries are intact.
+            </div>
+          </div>
+        ) : (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800 flex items-center">
+            <ShieldCheck className="h-5 w-5 mr-2" />
+            Chain intact: {chainCheck.entries_checked} entries verified.
+          </div>
+        )
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Changes</h3>
+          <div className="flex items-center space-x-2">
+            <select value={tableName} onChange={(e) => setTableName(e.target.value as typeof tableName)} className={inputClass}>
+              <option value="">All tables</option>
+              {(Object.keys(AUDITED_TABLES) as AuditedTable[]).map(table => (
+                <option key={table} value={table}>{AUDITED_TABLES[table]}</option>
+              ))}
+            </select>
+            <input
+              value={recordId}
+              onChange={(e) => setRecordId(e.target.value)}
+              placeholder="Record ID"
+              className={`${inputClass} font-mono w-80`}
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-gray-500">No audit entries found.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-3 py-2">#</th>
+                <th className="px-3 py-2">Time</th>
+                <th className="px-3 py-2">Table</th>
+                <th className="px-3 py-2">Action</th>
+                <th className="px-3 py-2">Record</th>
+                <th className="px-3 py-2">Changed</th>
+                <th className="px-3 py-2">User</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => {
+                const changes = diffAuditValues(entry.old_values, entry.new_values);
+                return (
+                  <tr
+                    key={entry.id}
+                    className={`border-b ${chainCheck?.broken_entry_id === entry.id ? 'bg-red-50' : ''}`}
+                  >
+                    <td className="px-3 py-2 text-gray-500">{entry.seq}</td>
+                    <td className="px-3 py-2 whitespace-nowrap">{formatTime(entry.timestamp)}</td>
+                    <td className="px-3 py-2">{AUDITED_TABLES[entry.table_name] || entry.table_name}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_BADGES[entry.action]}`}>{entry.action}</span>
+                    </td>
+                    <td className="px-3 py-2">
+                      <button
+                        onClick={() => setSelected({ tableName: entry.table_name, recordId: entry.record_id })}
+                        className="font-mono text-xs text-blue-600 hover:text-blue-800"
+                        title="Show history"
+                      >
+                        {entry.record_id.slice(0, 8)}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2 text-gray-600">
+                      {entry.action === 'UPDATE' ? changes.map(change => change.field).join(', ') : `${changes.length} fields`}
+                    </td>
+                    <td className="px-3 py-2">{entry.user_email || <span className="text-gray-400">system</span>}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {selected && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-75 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-y-auto">
+            <div className="flex items-center justify-between p-6 border-b border-gray-200">
+              <div>
+                <h2 className="text-xl font-semibold text-gray-900">Record History</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {AUDITED_TABLES[selected.tableName]} · <span className="font-mono">{selected.recordId}</span>
+                </p>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-500 p-1 rounded">
+                <X className="h-6 w-6" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {historyLoading ? (
+                <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+              ) : history.map(entry => (
+                <div key={entry.id} className="border border-gray-200 rounded-lg">
+                  <div className="flex items-center justify-between px-4 py-2 bg-gray-50 border-b border-gray-200 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_BADGES[entry.action]}`}>{entry.action}</span>
+                      <span>{formatTime(entry.timestamp)}</span>
+                      <span className="text-gray-500">{entry.user_email || 'system'}</span>
+                    </div>
+                    <span className="font-mono text-xs text-gray-400" title={entry.row_hash}>#{entry.seq} · {entry.row_hash.slice(0, 12)}</span>
+                  </div>
+                  <table className="min-w-full text-sm">
+                    <tbody>
+                      {diffAuditValues(entry.old_values, entry.new_values).map(change => (
+                        <tr key={change.field} className="border-b last:border-b-0">
+                          <td className="px-4 py-1.5 font-mono text-xs text-gray-600 w-48">{change.field}</td>
+                          <td className="px-4 py-1.5 text-red-700 line-through break-all">
+                            {entry.action !== 'INSERT' && formatAuditValue(change.before)}
+                          </td>
+                          <td className="px-4 py-1.5 text-green-700 break-all">
+                            {entry.action !== 'DELETE' && formatAuditValue(change.after)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuditTrail;
@@ -0,0 +1,280 @@
+import React, { useEffect, useState } from 'react';
+import { Network, Upload, Send, RotateCcw, Download, Loader2, ChevronDown, ChevronRight, FileOutput } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '../utils/supabase';
+import { extractMllpMessages, wrapMllp } from '../hl7/mllp';
+
+interface Hl7MessageRow {
+  id: string;
+  direction: 'inbound' | 'outbound';
+  message_type: string;
+  control_id: string | null;
+  counterparty: string | null;
+  order_id: string | null;
+  raw_message: string;
+  status: 'processed' | 'error' | 'rejected' | 'generated' | 'sent';
+  ack_code: 'AA' | 'AE' | 'AR' | null;
+  ack_message: string | null;
+  error: string | null;
+  replay_of: string | null;
+  created_at: string;
+  orders?: { sample_id: string | null; patient_name: string } | null;
+}
+
+const STATUS_BADGES: Record<Hl7MessageRow['status'], string> = {
+  processed: 'bg-green-100 text-green-800',
+  generated: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  error: 'bg-red-100 text-red-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Segments are CR-separated; show one per line
+const displayMessage = (raw: string) => raw.split('\r').filter(Boolean).join('\n');
+
+const downloadMessage = (raw: string, filename: string) => {
+  const blob = new Blob([wrapMllp(raw)], { type: 'application/hl7-v2' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${filename}.hl7`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Hl7Interface: React.FC = () => {
+  const [messages, setMessages] = useState<Hl7MessageRow[]>([]);
+  const [direction, setDirection] = useState<'' | 'inbound' | 'outbound'>('');
+  const [inbound, setInbound] = useState('');
+  const [acks, setAcks] = useState<string[]>([]);
+  const [sampleId, setSampleId] = useState('');
+  const [receiver, setReceiver] = useState({ application: '', facility: '' });
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    setLoading(true);
+    database.hl7.getMessages({ direction: direction || undefined }).then(({ data, error }) => {
+      if (error) setError(error.message);
+      setMessages((data as Hl7MessageRow[] | null) || []);
+      setLoading(false);
+    });
+  }, [direction, reloadKey]);
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => setInbound(String(reader.result || ''));
+    reader.readAsText(file);
+  };
+
+  const handleReceive = async () => {
+    const received = extractMllpMessages(inbound);
+    if (received.length === 0) {
+      setError('No HL7 messages found');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    const replies: string[] = [];
+    for (const message of received) {
+      const { data, error } = await database.hl7.receive(message);
+      if (error) setError(error.message);
+      if (data) replies.push(data.ack);
+    }
+    setAcks(replies);
+    setInbound('');
+    setBusy(false);
+    setReloadKey(key => key + 1);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    const { data: order, error: orderError } = await database.orders.getBySampleId(sampleId);
+    if (orderError || !order) {
+      setError(orderError?.message || `No order with sample ID ${sampleId}`);
+      setBusy(false);
+      return;
+    }
+    const { data, error } = await database.hl7.exportOrderResults(order.id, {
+      application: receiver.application || undefined,
+      facility: receiver.facility || undefined
+    });
+    setBusy(false);
+    if (error || !data) {
+      setError(error?.message || 'ORU could not be generated');
+      return;
+    }
+    downloadMessage(data.message, `ORU-${order.sample_id || order.id}`);
+    setNotice(`ORU^R01 ${data.controlId} generated for ${order.patient_name}`);
+    setSampleId('');
+    setReloadKey(key => key + 1);
+  };
+
+  const handleReplay = async (message: Hl7MessageRow) => {
+    if (!confirm(`Replay ${message.direction} ${message.message_type} ${message.control_id || ''}?`)) return;
+    setError(null);
+    const { data, error } = await database.hl7.replay(message.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setNotice(data?.ackCode ? `Replayed: ${data.ackCode}${data.errorText ? ` - ${data.errorText}` : ''}` : 'Message re-queued');
+    setReloadKey(key => key + 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+        <Network className="h-8 w-8 mr-2 text-blue-600" />
+        HL7 Interface
+      </h1>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+      {notice && <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800">{notice}</div>}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Inbound Orders (ORM^O01)</h3>
+          <p className="text-sm text-gray-600">Paste or load MLLP-framed or plain HL7 messages. Each message is acknowledged with AA, AE or AR.</p>
+          <textarea
+            value={inbound}
+            onChange={(e) => setInbound(e.target.value)}
+            rows={6}
+            placeholder={'MSH|^~\\&|HIS|HOSP|LIMS|LAB|20250101101500||ORM^O01|MSG0001|P|2.5\nPID|1||MRN123^^^HOSP^MR||Doe^John||19800115|M\nORC|NW|PL-77\nOBR|1|PL-77||CBC^Complete Blood Count'}
+            className={`${inputClass} font-mono`}
+          />
+          <div className="flex items-center space-x-3">
+            <label className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+              <Upload className="h-4 w-4 mr-1" /> Load file
+              <input type="file" accept=".hl7,.txt" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+            </label>
+            <button
+              onClick={handleReceive}
+              disabled={busy || !inbound.trim()}
+              className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {busy ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Send className="h-4 w-4 mr-1" />}
+              Process
+            </button>
+          </div>
+          {acks.map((ack, index) => (
+            <pre key={index} className="bg-gray-900 text-green-200 text-xs rounded p-3 overflow-auto whitespace-pre">{displayMessage(ack)}</pre>
+          ))}
+        </div>
+
+        <form onSubmit={handleExport} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-3">
+          <h3 className="text-lg font-semibold text-gray-900">Outbound Results (ORU^R01)</h3>
+          <p className="text-sm text-gray-600">Generates an ORU^R01 with the approved results of an order and logs it for sending.</p>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Sample ID *</label>
+            <input className={inputClass} value={sampleId} onChange={(e) => setSampleId(e.target.value)} required />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Receiving application</label>
+              <input className={inputClass} value={receiver.application} onChange={(e) => setReceiver(prev => ({ ...prev, application: e.target.value }))} />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gray-700 mb-1">Receiving facility</label>
+              <input className={inputClass} value={receiver.facility} onChange={(e) => setReceiver(prev => ({ ...prev, facility: e.target.value }))} />
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={busy || !sampleId.trim()}
+            className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <FileOutput className="h-4 w-4 mr-1" /> Generate ORU
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">Message Log</h3>
+          <select value={direction} onChange={(e) => setDirection(e.target.value as typeof direction)} className="px-3 py-1.5 border border-gray-300 rounded-md text-sm">
+            <option value="">All</option>
+            <option value="inbound">Inbound</option>
+            <option value="outbound">Outbound</option>
+          </select>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No HL7 messages yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-3 py-2"></th>
+                <th className="px-3 py-2">Time</th>
+                <th className="px-3 py-2">Direction</th>
+                <th className="px-3 py-2">Type</th>
+                <th className="px-3 py-2">Control ID</th>
+                <th className="px-3 py-2">Order</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {messages.map(message => (
+                <React.Fragment key={message.id}>
+                  <tr className="border-b">
+                    <td className="px-3 py-2">
+                      <button onClick={() => setExpanded(expanded === message.id ? null : message.id)} className="text-gray-500">
+                        {expanded === message.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                      </button>
+                    </td>
+                    <td className="px-3 py-2">{format(new Date(message.created_at), 'dd MMM yyyy HH:mm:ss')}</td>
+                    <td className="px-3 py-2 capitalize">{message.direction}{message.counterparty && <span className="text-gray-500"> · {message.counterparty}</span>}</td>
+                    <td className="px-3 py-2 font-mono">{message.message_type}</td>
+                    <td className="px-3 py-2 font-mono text-xs">{message.control_id || '-'}</td>
+                    <td className="px-3 py-2">{message.orders ? `${message.orders.sample_id || ''} ${message.orders.patient_name}` : '-'}</td>
+                    <td className="px-3 py-2">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[message.status]}`}>
+                        {message.status}{message.ack_code && ` (${message.ack_code})`}
+                      </span>
+                      {message.replay_of && <span className="ml-1 text-xs text-gray-500">replay</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right space-x-2 whitespace-nowrap">
+                      <button onClick={() => downloadMessage(message.raw_message, `${message.message_type.replace('^', '-')}-${message.control_id || message.id}`)} className="text-gray-600 hover:text-gray-800" title="Download">
+                        <Download className="h-4 w-4 inline" />
+                      </button>
+                      <button onClick={() => handleReplay(message)} className="text-blue-600 hover:text-blue-800" title="Replay">
+                        <RotateCcw className="h-4 w-4 inline" />
+                      </button>
+                    </td>
+                  </tr>
+                  {expanded === message.id && (
+                    <tr className="border-b bg-gray-50">
+                      <td colSpan={8} className="px-3 py-2 space-y-2">
+                        {message.error && <div className="text-sm text-red-700">{message.error}</div>}
+                        <pre className="bg-gray-900 text-green-200 text-xs rounded p-3 overflow-auto whitespace-pre">{displayMessage(message.raw_message)}</pre>
+                        {message.ack_message && (
+                          <pre className="bg-gray-800 text-yellow-100 text-xs rounded p-3 overflow-auto whitespace-pre">{displayMessage(message.ack_message)}</pre>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Hl7Interface;
@@ -0,0 +1,354 @@
+import React, { useEffect, useState } from 'react';
+import { Cpu, Plus, Trash2, Loader2, Upload, Eye, Download, CheckCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '../utils/supabase';
+import { extractMessagesFromCapture } from '../instruments/astmFraming';
+import { AstmOrderImport, InstrumentTestMapping } from '../instruments/astmImport';
+
+interface AnalyteOption {
+  id: string;
+  name: string;
+  unit?: string | null;
+}
+
+interface InstrumentMessageRow {
+  id: string;
+  instrument_code: string;
+  sender: string | null;
+  status: 'received' | 'imported' | 'partial' | 'failed';
+  summary: { results_created?: number; values_imported?: number; unmatched_specimens?: string[] } | null;
+  error: string | null;
+  received_at: string;
+}
+
+interface PreviewEntry {
+  message: string;
+  plan: AstmOrderImport[];
+  warnings: string[];
+  error?: string;
+}
+
+const STATUS_BADGES: Record<InstrumentMessageRow['status'], string> = {
+  received: 'bg-gray-100 text-gray-800',
+  imported: 'bg-green-100 text-green-800',
+  partial: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const emptyMapping = (instrumentCode: string): InstrumentTestMapping => ({
+  instrument_code: instrumentCode,
+  test_code: '',
+  analyte_id: '',
+  unit: '',
+  is_active: true,
+});
+
+const Instruments: React.FC = () => {
+  const [instrumentCode, setInstrumentCode] = useState('');
+  const [mappings, setMappings] = useState<InstrumentTestMapping[]>([]);
+  const [analytes, setAnalytes] = useState<AnalyteOption[]>([]);
+  const [messages, setMessages] = useState<InstrumentMessageRow[]>([]);
+  const [newMapping, setNewMapping] = useState<InstrumentTestMapping>(emptyMapping(''));
+  const [capture, setCapture] = useState('');
+  const [preview, setPreview] = useState<PreviewEntry[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    database.analytes.getAll().then(({ data }) => setAnalytes((data as AnalyteOption[] | null) || []));
+  }, []);
+
+  useEffect(() => {
+    setLoading(true);
+    Promise.all([database.instruments.getMappings(), database.instruments.getMessages()]).then(([mappingsResult, messagesResult]) => {
+      setMappings(mappingsResult.data || []);
+      setMessages((messagesResult.data as InstrumentMessageRow[] | null) || []);
+      const loadError = mappingsResult.error || messagesResult.error;
+      if (loadError) setError(loadError.message);
+      setLoading(false);
+    });
+  }, [reloadKey]);
+
+  const instrumentCodes = Array.from(new Set(mappings.map(m => m.instrument_code))).sort();
+  const visibleMappings = instrumentCode ? mappings.filter(m => m.instrument_code === instrumentCode) : mappings;
+
+  const handleAddMapping = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const mapping = { ...newMapping, instrument_code: newMapping.instrument_code || instrumentCode };
+    if (!mapping.instrument_code.trim() || !mapping.test_code.trim() || !mapping.analyte_id) {
+      setError('Instrument, test code and analyte are required');
+      return;
+    }
+    setError(null);
+    const { error } = await database.instruments.saveMapping({ ...mapping, unit: mapping.unit || null });
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setNewMapping(emptyMapping(mapping.instrument_code));
+    setReloadKey(key => key + 1);
+  };
+
+  const handleDeleteMapping = async (mapping: InstrumentTestMapping) => {
+    if (!mapping.id || !confirm(`Remove mapping ${mapping.instrument_code} / ${mapping.test_code}?`)) return;
+    const { error } = await database.instruments.deleteMapping(mapping.id);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setReloadKey(key => key + 1);
+  };
+
+  const handleFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => setCapture(String(reader.result || ''));
+    reader.readAsText(file);
+    setPreview(null);
+  };
+
+  const handlePreview = async () => {
+    if (!instrumentCode.trim()) {
+      setError('Select the instrument the capture came from');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    const entries: PreviewEntry[] = [];
+    for (const message of extractMessagesFromCapture(capture)) {
+      const { data, error } = await database.instruments.planImport(message, instrumentCode);
+      entries.push({ message, plan: data?.plan || [], warnings: data?.message.warnings || [], error: error?.message });
+    }
+    if (entries.length === 0) setError('No ASTM messages found in the capture');
+    setPreview(entries);
+    setBusy(false);
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    let created = 0;
+    let imported = 0;
+    const failures: string[] = [];
+    for (const entry of preview) {
+      const { data, error } = await database.instruments.importMessage(entry.message, instrumentCode);
+      if (error) failures.push(error.message);
+      created += data?.results_created || 0;
+      imported += data?.values_imported || 0;
+    }
+    setBusy(false);
+    setPreview(null);
+    setCapture('');
+    setNotice(`${imported} value${imported === 1 ? '' : 's'} imported into ${created} draft result${created === 1 ? '' : 's'}`);
+    if (failures.length > 0) setError(failures.join('; '));
+    setReloadKey(key => key + 1);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <Cpu className="h-8 w-8 mr-2 text-blue-600" />
+          Instruments
+        </h1>
+        <div className="flex items-center space-x-2">
+          <label className="text-sm font-medium text-gray-700">Instrument</label>
+          <input
+            list="instrument-codes"
+            value={instrumentCode}
+            onChange={(e) => {
+              setInstrumentCode(e.target.value);
+              setNewMapping(prev => ({ ...prev, instrument_code: e.target.value }));
+              setPreview(null);
+            }}
+            placeholder="e.g. COBAS-C311"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm"
+          />
+          <datalist id="instrument-codes">
+            {instrumentCodes.map(code => <option key={code} value={code} />)}
+          </datalist>
+        </div>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+      {notice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-3 text-sm text-green-800 flex items-center">
+          <CheckCircle className="h-4 w-4 mr-2" /> {notice}
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">ASTM Capture Import</h3>
+        <p className="text-sm text-gray-600">
+          Upload or paste a serial capture from the analyser (framed ENQ/STX...EOT session or bare H/P/O/R/L records).
+          Results are matched to orders by specimen ID and land as draft results for verification.
+        </p>
+        <div className="flex items-center space-x-3">
+          <label className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 cursor-pointer">
+            <Upload className="h-4 w-4 mr-1" /> Load capture file
+            <input type="file" accept=".txt,.log,.astm,.cap" className="hidden" onChange={(e) => e.target.files?.[0] && handleFile(e.target.files[0])} />
+          </label>
+          <button
+            onClick={handlePreview}
+            disabled={busy || !capture.trim()}
+            className="flex items-center px-3 py-2 text-sm border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Eye className="h-4 w-4 mr-1" /> Preview
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={busy || !preview || preview.length === 0}
+            className="flex items-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {busy ? <Loader2 className="h-4 w-4 animate-spin mr-1" /> : <Download className="h-4 w-4 mr-1" />}
+            Import
+          </button>
+        </div>
+        <textarea
+          value={capture}
+          onChange={(e) => {
+            setCapture(e.target.value);
+            setPreview(null);
+          }}
+          rows={6}
+          placeholder={'H|\\^&|||COBAS^1.0|||||||P|1|20250101120000\nP|1\nO|1|S-0001||^^^GLU\nR|1|^^^GLU|5.4|mmol/L|3.9-6.1|N||F\nL|1|N'}
+          className={`${inputClass} font-mono`}
+        />
+
+        {preview && preview.map((entry, index) => (
+          <div key={index} className="border border-gray-200 rounded-md p-3 space-y-2">
+            <div className="text-sm font-medium text-gray-800">Message {index + 1}</div>
+            {entry.error && <div className="text-sm text-red-700">{entry.error}</div>}
+            {entry.warnings.map((warning, i) => (
+              <div key={i} className="text-xs text-yellow-700 flex items-center"><AlertTriangle className="h-3 w-3 mr-1" /> {warning}</div>
+            ))}
+            {entry.plan.map((order, i) => (
+              <div key={i} className="text-sm">
+                <div className="flex items-center">
+                  <span className="font-mono mr-2">{order.specimenId || '(no specimen ID)'}</span>
+                  {order.orderId
+                    ? <span className="text-green-700 text-xs">matched</span>
+                    : <span className="text-red-700 text-xs">no matching order</span>}
+                </div>
+                <ul className="ml-4 text-xs text-gray-700">
+                  {order.values.map(value => (
+                    <li key={value.analyte_id}>
+                      {value.test_code} → {value.parameter}: <span className="font-medium">{value.value}</span> {value.unit}
+                      {value.original_unit && <span className="text-gray-500"> (sent as {value.original_value} {value.original_unit})</span>}
+                      {value.flag && <span className="ml-1 text-red-600">({value.flag})</span>}
+                    </li>
+                  ))}
+                  {order.skipped.map((skipped, j) => (
+                    <li key={`skipped-${j}`} className="text-gray-500">{skipped.testCode}: skipped ({skipped.reason})</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Test Code Mapping</h3>
+        <form onSubmit={handleAddMapping} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Instrument *</label>
+            <input className={inputClass} value={newMapping.instrument_code} onChange={(e) => setNewMapping(prev => ({ ...prev, instrument_code: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Test code *</label>
+            <input className={inputClass} value={newMapping.test_code} onChange={(e) => setNewMapping(prev => ({ ...prev, test_code: e.target.value }))} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Analyte *</label>
+            <select className={inputClass} value={newMapping.analyte_id} onChange={(e) => setNewMapping(prev => ({ ...prev, analyte_id: e.target.value }))}>
+              <option value="">Select analyte</option>
+              {analytes.map(a => <option key={a.id} value={a.id}>{a.name}{a.unit ? ` (${a.unit})` : ''}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Unit override</label>
+            <input className={inputClass} value={newMapping.unit || ''} onChange={(e) => setNewMapping(prev => ({ ...prev, unit: e.target.value }))} />
+          </div>
+          <button type="submit" className="flex items-center justify-center px-3 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">
+            <Plus className="h-4 w-4 mr-1" /> Add Mapping
+          </button>
+        </form>
+
+        {loading ? (
+          <div className="flex items-center text-sm text-gray-500"><Loader2 className="h-4 w-4 animate-spin mr-2" /> Loading...</div>
+        ) : visibleMappings.length === 0 ? (
+          <p className="text-sm text-gray-500">No test codes mapped{instrumentCode ? ` for ${instrumentCode}` : ''}.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-3 py-2">Instrument</th>
+                <th className="px-3 py-2">Test code</th>
+                <th className="px-3 py-2">Analyte</th>
+                <th className="px-3 py-2">Unit</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleMappings.map(mapping => (
+                <tr key={mapping.id} className="border-b last:border-0">
+                  <td className="px-3 py-2">{mapping.instrument_code}</td>
+                  <td className="px-3 py-2 font-mono">{mapping.test_code}</td>
+                  <td className="px-3 py-2">{mapping.analytes?.name || mapping.analyte_id}</td>
+                  <td className="px-3 py-2">{mapping.unit || mapping.analytes?.unit || '-'}</td>
+                  <td className="px-3 py-2 text-right">
+                    <button onClick={() => handleDeleteMapping(mapping)} className="text-red-600 hover:text-red-800"><Trash2 className="h-4 w-4" /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Recent Messages</h3>
+        {messages.length === 0 ? (
+          <p className="text-sm text-gray-500">No instrument messages received yet.</p>
+        ) : (
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="px-3 py-2">Received</th>
+                <th className="px-3 py-2">Instrument</th>
+                <th className="px-3 py-2">Status</th>
+                <th className="px-3 py-2">Results</th>
+                <th className="px-3 py-2">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {messages.map(message => (
+                <tr key={message.id} className="border-b last:border-0">
+                  <td className="px-3 py-2">{format(new Date(message.received_at), 'dd MMM yyyy HH:mm')}</td>
+                  <td className="px-3 py-2">{message.instrument_code}{message.sender && <span className="text-gray-500"> · {message.sender}</span>}</td>
+                  <td className="px-3 py-2">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[message.status]}`}>{message.status}</span>
+                  </td>
+                  <td className="px-3 py-2">{message.summary?.values_imported ?? 0} values / {message.summary?.results_created ?? 0} results</td>
+                  <td className="px-3 py-2 text-xs text-gray-600">
+                    {message.summary?.unmatched_specimens?.length ? `Unmatched: ${message.summary.unmatched_specimens.join(', ')}` : ''}
+                    {message.error && <span className="text-red-600"> {message.error}</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Instruments;
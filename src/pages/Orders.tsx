@@ -340,6 +340,11 @@ const Orders: React.FC = () => {
       if (newStatus === 'Sample Collection') {
         updateData.sample_collected_at = new Date().toISOString();
         updateData.sample_collected_by = user?.email || 'System';
+        // Bulk collection marks every pending container of the order collected
+        const { error: samplesError } = await database.samples.collectAllForOrder(orderId, updateData.sample_collected_by);
+        if (samplesError) {
+          console.error('Error marking order samples collected:', samplesError);
+        }
       }
 
       const { data: _updateData, error } = await database.orders.update(orderId, updateData);
@@ -494,6 +499,7 @@ const Orders: React.FC = () => {
         expected_date: formData.expected_date,
         total_amount: formData.total_amount,
         doctor: formData.doctor,
+        pregnancy_trimester: formData.pregnancy_trimester ?? null,
         created_by: user?.id, // Add the current user's ID
       };
       
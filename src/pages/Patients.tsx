@@ -12,6 +12,7 @@ interface Patient {
   display_id?: string;
   name: string;
   age: number;
+  date_of_birth?: string | null;
   gender: string;
   phone: string;
   email?: string;
@@ -98,6 +99,7 @@ const Patients: React.FC = () => {
       const patientData = {
         name: `${patientDetails.firstName} ${patientDetails.lastName}`.trim(),
         age: parseInt(patientDetails.age),
+        date_of_birth: patientDetails.dateOfBirth || null,
         gender: patientDetails.gender,
         phone: patientDetails.phone,
         email: patientDetails.email || null,
@@ -165,6 +167,7 @@ const Patients: React.FC = () => {
       const patientData = {
         name: `${formData.firstName} ${formData.lastName}`.trim(),
         age: parseInt(formData.age),
+        date_of_birth: formData.dateOfBirth || null,
         gender: formData.gender,
         phone: formData.phone,
         email: formData.email || null,
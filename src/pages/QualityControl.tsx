@@ -0,0 +1,370 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { ShieldCheck, AlertOctagon, Plus, Loader2, Wrench, CheckCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { database } from '../utils/supabase';
+import { formatViolations, QCRunStatus, WestgardRule } from '../utils/westgard';
+import LeveyJenningsChart, { LeveyJenningsPoint } from '../components/QC/LeveyJenningsChart';
+import CorrectiveActionModal, { QCOpenFailure } from '../components/QC/CorrectiveActionModal';
+import SampleRejectionReport from '../components/QC/SampleRejectionReport';
+
+interface QCTargetRow {
+  id: string;
+  lot_id: string;
+  analyte_id: string;
+  instrument: string;
+  target_mean: number;
+  target_sd: number;
+  unit: string | null;
+  analytes?: { id: string; name: string; unit: string | null } | null;
+}
+
+interface QCLotRow {
+  id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  is_active: boolean;
+  qc_lot_targets: QCTargetRow[];
+}
+
+interface QCMaterialRow {
+  id: string;
+  name: string;
+  level: string;
+  manufacturer: string | null;
+  qc_lots: QCLotRow[];
+}
+
+interface QCRunRow extends LeveyJenningsPoint {
+  lot_target_id: string;
+  z_score: number;
+  comment: string | null;
+  resolved_at: string | null;
+}
+
+interface AnalyteOption {
+  id: string;
+  name: string;
+  unit?: string | null;
+}
+
+const STATUS_BADGES: Record<QCRunStatus, string> = {
+  accepted: 'bg-green-100 text-green-800',
+  warning: 'bg-yellow-100 text-yellow-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const QualityControl: React.FC = () => {
+  const [materials, setMaterials] = useState<QCMaterialRow[]>([]);
+  const [analytes, setAnalytes] = useState<AnalyteOption[]>([]);
+  const [failures, setFailures] = useState<QCOpenFailure[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selectedTargetId, setSelectedTargetId] = useState('');
+  const [runs, setRuns] = useState<QCRunRow[]>([]);
+  const [runValue, setRunValue] = useState('');
+  const [runComment, setRunComment] = useState('');
+  const [savingRun, setSavingRun] = useState(false);
+  const [lastRun, setLastRun] = useState<QCRunRow | null>(null);
+  const [actionFailure, setActionFailure] = useState<QCOpenFailure | null>(null);
+
+  const [showSetup, setShowSetup] = useState(false);
+  const [materialForm, setMaterialForm] = useState({ name: '', level: 'Level 1', manufacturer: '' });
+  const [lotForm, setLotForm] = useState({ material_id: '', lot_number: '', expiry_date: '' });
+  const [targetForm, setTargetForm] = useState({ lot_id: '', analyte_id: '', instrument: '', target_mean: '', target_sd: '' });
+
+  const loadSetup = useCallback(async () => {
+    setLoading(true);
+    const [materialsRes, failuresRes, analytesRes] = await Promise.all([
+      database.qc.getMaterials(),
+      database.qc.getOpenFailures(),
+      database.analytes.getAll()
+    ]);
+    if (materialsRes.error || failuresRes.error) {
+      console.error('Error loading QC data:', materialsRes.error || failuresRes.error);
+      setError('Failed to load QC data');
+    }
+    setMaterials(materialsRes.data || []);
+    setFailures(failuresRes.data || []);
+    setAnalytes((analytesRes.data || []).map((a: AnalyteOption) => ({ id: a.id, name: a.name, unit: a.unit })));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadSetup();
+  }, [loadSetup]);
+
+  const targets = useMemo(() => materials.flatMap(m =>
+    m.qc_lots.filter(l => l.is_active).flatMap(l => l.qc_lot_targets.map(t => ({
+      ...t,
+      label: `${t.analytes?.name || 'Analyte'}${t.instrument ? ` · ${t.instrument}` : ''} — ${m.name} ${m.level} (lot ${l.lot_number})`,
+      expired: !!l.expiry_date && l.expiry_date < today()
+    })))
+  ), [materials]);
+
+  const selectedTarget = targets.find(t => t.id === selectedTargetId) || null;
+
+  const loadRuns = useCallback(async () => {
+    if (!selectedTarget) {
+      setRuns([]);
+      return;
+    }
+    const { data, error } = await database.qc.getSeries(selectedTarget.analyte_id, selectedTarget.instrument);
+    if (error) {
+      console.error('Error loading QC runs:', error);
+      return;
+    }
+    setRuns((data || []).map((r: QCRunRow) => ({ ...r, value: Number(r.value), z_score: Number(r.z_score) })));
+  }, [selectedTarget]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const handleRecordRun = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedTarget) return;
+    const value = parseFloat(runValue);
+    if (isNaN(value)) {
+      setError('Enter a numeric QC value');
+      return;
+    }
+
+    setSavingRun(true);
+    setError(null);
+    const { data, error } = await database.qc.recordRun({ lot_target_id: selectedTarget.id, value, comment: runComment });
+    setSavingRun(false);
+    if (error) {
+      setError(error.message);
+      return;
+    }
+    setLastRun({ ...data, value: Number(data.value), z_score: Number(data.z_score) });
+    setRunValue('');
+    setRunComment('');
+    await Promise.all([loadRuns(), loadSetup()]);
+  };
+
+  const handleCreateMaterial = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = await database.qc.createMaterial(materialForm);
+    if (error) return setError(error.message);
+    setMaterialForm({ name: '', level: 'Level 1', manufacturer: '' });
+    loadSetup();
+  };
+
+  const handleCreateLot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const { error } = await database.qc.createLot({ ...lotForm, expiry_date: lotForm.expiry_date || null });
+    if (error) return setError(error.message);
+    setLotForm({ material_id: lotForm.material_id, lot_number: '', expiry_date: '' });
+    loadSetup();
+  };
+
+  const handleSaveTarget = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const analyte = analytes.find(a => a.id === targetForm.analyte_id);
+    const { error } = await database.qc.saveTarget({
+      lot_id: targetForm.lot_id,
+      analyte_id: targetForm.analyte_id,
+      instrument: targetForm.instrument.trim(),
+      target_mean: parseFloat(targetForm.target_mean),
+      target_sd: parseFloat(targetForm.target_sd),
+      unit: analyte?.unit || null
+    });
+    if (error) return setError(error.message);
+    setTargetForm({ ...targetForm, analyte_id: '', target_mean: '', target_sd: '' });
+    loadSetup();
+  };
+
+  const inputClass = 'px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+  const lots = materials.flatMap(m => m.qc_lots.map(l => ({ ...l, label: `${m.name} ${m.level} · lot ${l.lot_number}` })));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold text-gray-900 flex items-center">
+          <ShieldCheck className="h-8 w-8 mr-2 text-blue-600" />
+          Quality Control
+        </h1>
+        <button
+          onClick={() => setShowSetup(s => !s)}
+          className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Materials &amp; Lots
+        </button>
+      </div>
+
+      {error && <div className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">{error}</div>}
+
+      {failures.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+          <h3 className="font-semibold text-red-800 flex items-center mb-2">
+            <AlertOctagon className="h-5 w-5 mr-2" />
+            QC failures blocking result entry
+          </h3>
+          <div className="space-y-2">
+            {failures.map(f => (
+              <div key={`${f.analyte_id}-${f.instrument}`} className="flex items-center justify-between bg-white border border-red-100 rounded p-2 text-sm">
+                <div>
+                  <span className="font-medium">{f.analytes?.name || f.analyte_id}</span>
+                  {f.instrument && <span className="text-gray-500"> · {f.instrument}</span>}
+                  <span className="ml-2 text-red-700">{(f.violations || []).join(', ')}</span>
+                  <span className="ml-2 text-gray-500">since {format(new Date(f.first_rejected_at), 'dd MMM HH:mm')}</span>
+                </div>
+                <button
+                  onClick={() => setActionFailure(f)}
+                  className="flex items-center px-3 py-1 text-xs bg-orange-600 text-white rounded hover:bg-orange-700"
+                >
+                  <Wrench className="h-3 w-3 mr-1" />
+                  Log Corrective Action
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {showSetup && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <form onSubmit={handleCreateMaterial} className="space-y-2">
+            <h3 className="font-semibold text-gray-900">New control material</h3>
+            <input className={`${inputClass} w-full`} placeholder="Name (e.g. Lyphochek Assayed Chemistry)" value={materialForm.name} onChange={(e) => setMaterialForm({ ...materialForm, name: e.target.value })} required />
+            <input className={`${inputClass} w-full`} placeholder="Level" value={materialForm.level} onChange={(e) => setMaterialForm({ ...materialForm, level: e.target.value })} required />
+            <input className={`${inputClass} w-full`} placeholder="Manufacturer" value={materialForm.manufacturer} onChange={(e) => setMaterialForm({ ...materialForm, manufacturer: e.target.value })} />
+            <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">Add Material</button>
+          </form>
+
+          <form onSubmit={handleCreateLot} className="space-y-2">
+            <h3 className="font-semibold text-gray-900">New lot</h3>
+            <select className={`${inputClass} w-full`} value={lotForm.material_id} onChange={(e) => setLotForm({ ...lotForm, material_id: e.target.value })} required>
+              <option value="">Select material</option>
+              {materials.map(m => <option key={m.id} value={m.id}>{m.name} {m.level}</option>)}
+            </select>
+            <input className={`${inputClass} w-full`} placeholder="Lot number" value={lotForm.lot_number} onChange={(e) => setLotForm({ ...lotForm, lot_number: e.target.value })} required />
+            <input type="date" className={`${inputClass} w-full`} value={lotForm.expiry_date} onChange={(e) => setLotForm({ ...lotForm, expiry_date: e.target.value })} />
+            <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">Add Lot</button>
+          </form>
+
+          <form onSubmit={handleSaveTarget} className="space-y-2">
+            <h3 className="font-semibold text-gray-900">Analyte target</h3>
+            <select className={`${inputClass} w-full`} value={targetForm.lot_id} onChange={(e) => setTargetForm({ ...targetForm, lot_id: e.target.value })} required>
+              <option value="">Select lot</option>
+              {lots.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+            </select>
+            <select className={`${inputClass} w-full`} value={targetForm.analyte_id} onChange={(e) => setTargetForm({ ...targetForm, analyte_id: e.target.value })} required>
+              <option value="">Select analyte</option>
+              {analytes.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+            <input className={`${inputClass} w-full`} placeholder="Instrument (optional)" value={targetForm.instrument} onChange={(e) => setTargetForm({ ...targetForm, instrument: e.target.value })} />
+            <div className="flex space-x-2">
+              <input type="number" step="any" className={`${inputClass} w-1/2`} placeholder="Target mean" value={targetForm.target_mean} onChange={(e) => setTargetForm({ ...targetForm, target_mean: e.target.value })} required />
+              <input type="number" step="any" min="0" className={`${inputClass} w-1/2`} placeholder="Target SD" value={targetForm.target_sd} onChange={(e) => setTargetForm({ ...targetForm, target_sd: e.target.value })} required />
+            </div>
+            <button type="submit" className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700">Save Target</button>
+          </form>
+        </div>
+      )}
+
+      <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+        <div className="flex flex-col lg:flex-row lg:items-end lg:space-x-4 space-y-2 lg:space-y-0">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Control / analyte</label>
+            <select className={`${inputClass} w-full`} value={selectedTargetId} onChange={(e) => { setSelectedTargetId(e.target.value); setLastRun(null); }}>
+              <option value="">{loading ? 'Loading...' : 'Select a QC target'}</option>
+              {targets.map(t => <option key={t.id} value={t.id}>{t.label}{t.expired ? ' (expired)' : ''}</option>)}
+            </select>
+          </div>
+          {selectedTarget && (
+            <form onSubmit={handleRecordRun} className="flex items-end space-x-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Value{selectedTarget.unit && ` (${selectedTarget.unit})`}</label>
+                <input type="number" step="any" className={inputClass} value={runValue} onChange={(e) => setRunValue(e.target.value)} required />
+              </div>
+              <input className={inputClass} placeholder="Comment" value={runComment} onChange={(e) => setRunComment(e.target.value)} />
+              <button type="submit" disabled={savingRun || selectedTarget.expired} className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50">
+                {savingRun && <Loader2 className="h-4 w-4 animate-spin mr-1" />}
+                Record Run
+              </button>
+            </form>
+          )}
+        </div>
+
+        {lastRun && (
+          <div className={`rounded p-3 text-sm ${STATUS_BADGES[lastRun.status]}`}>
+            <div className="flex items-center font-medium">
+              {lastRun.status === 'accepted' ? <CheckCircle className="h-4 w-4 mr-1" /> : <AlertTriangle className="h-4 w-4 mr-1" />}
+              Run {lastRun.status} (z = {lastRun.z_score.toFixed(2)})
+            </div>
+            {lastRun.violations.length > 0 && (
+              <div className="whitespace-pre-line mt-1">{formatViolations(lastRun.violations as WestgardRule[])}</div>
+            )}
+            {lastRun.status === 'rejected' && <div className="mt-1">Result entry for this analyte is blocked until a corrective action is logged.</div>}
+          </div>
+        )}
+
+        {selectedTarget && (
+          <>
+            <div className="text-sm text-gray-600">
+              Target {selectedTarget.target_mean} ± {selectedTarget.target_sd} {selectedTarget.unit}
+            </div>
+            <LeveyJenningsChart
+              runs={runs.filter(r => r.lot_target_id === selectedTarget.id)}
+              target={{ mean: Number(selectedTarget.target_mean), sd: Number(selectedTarget.target_sd) }}
+              unit={selectedTarget.unit}
+            />
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Run</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Value</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">z</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rules</th>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Comment</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {[...runs].reverse().map(run => (
+                    <tr key={run.id} className={run.lot_target_id === selectedTarget.id ? '' : 'text-gray-400'}>
+                      <td className="px-3 py-2">{format(new Date(run.run_at), 'dd MMM yyyy HH:mm')}</td>
+                      <td className="px-3 py-2">{run.value}</td>
+                      <td className="px-3 py-2">{run.z_score.toFixed(2)}</td>
+                      <td className="px-3 py-2">
+                        <span className={`px-2 py-0.5 rounded text-xs font-medium ${STATUS_BADGES[run.status]}`}>{run.status}</span>
+                        {run.status === 'rejected' && run.resolved_at && <span className="ml-1 text-xs text-gray-500">resolved</span>}
+                      </td>
+                      <td className="px-3 py-2">{run.violations.join(', ')}</td>
+                      <td className="px-3 py-2">{run.comment}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">Greyed rows are other control levels on the same analyte/instrument; they count towards the multirules.</p>
+            </div>
+          </>
+        )}
+      </div>
+
+      {/* Pre-analytical quality indicator */}
+      <SampleRejectionReport />
+
+      {actionFailure && (
+        <CorrectiveActionModal
+          failure={actionFailure}
+          onClose={() => setActionFailure(null)}
+          onLogged={() => {
+            setActionFailure(null);
+            loadSetup();
+            loadRuns();
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QualityControl;
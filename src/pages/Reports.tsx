@@ -1,8 +1,8 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
-import { supabase } from '../utils/supabase';
-import { FileText, Download, Eye, Search, RefreshCw } from 'lucide-react';
+import { supabase, database } from '../utils/supabase';
+import { FileText, Download, Eye, Search, RefreshCw, AlertOctagon, FileJson } from 'lucide-react';
 import {
   format,
   startOfDay,
@@ -14,6 +14,10 @@ import {
 } from 'date-fns';
 import { generateAndSavePDFReport, viewPDFReport } from '../utils/pdfService';
 import { downloadPDF } from '../utils/pdfGenerator';
+import { alternateUnitValue } from '../utils/unitConversion';
+import CriticalCallbackModal from '../components/Results/CriticalCallbackModal';
+import SignatureDialog from '../components/Auth/SignatureDialog';
+import { ElectronicSignature, SignatureRequest } from '../utils/electronicSignature';
 
 type DateFilter = 'today' | 'yesterday' | 'week' | 'month' | 'all';
 
@@ -90,8 +94,12 @@ type PreparedReport = {
     unit: string;
     referenceRange: string;
     flag?: string;
+    alternateResult?: string;
+    alternateUnit?: string;
+    alternateReferenceRange?: string;
   }[];
   interpretation: string;
+  signatures: ElectronicSignature[];
 };
 
 const Reports: React.FC = () => {
@@ -110,6 +118,14 @@ const Reports: React.FC = () => {
   // Selection now at order level
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
 
+  // Print each value in the analyte's alternate unit as well (SI + conventional)
+  const [dualUnits, setDualUnits] = useState(false);
+
+  // Orders with undocumented critical-value callbacks cannot be reported
+  const [pendingCallbackOrders, setPendingCallbackOrders] = useState<Set<string>>(new Set());
+  const [callbackOrder, setCallbackOrder] = useState<OrderGroup | null>(null);
+  const [signatureRequest, setSignatureRequest] = useState<SignatureRequest | null>(null);
+
   // Load approved results
   const loadApprovedResults = useCallback(async () => {
     try {
@@ -163,6 +179,13 @@ const Reports: React.FC = () => {
             .select('order_id, status, generated_date')
             .in('order_id', orderIds);
           existingReports = (reportsData as ReportRow[]) || [];
+
+          const { data: openCallbacks } = await supabase
+            .from('critical_value_callbacks')
+            .select('order_id')
+            .in('order_id', orderIds)
+            .in('status', ['open', 'escalated']);
+          setPendingCallbackOrders(new Set((openCallbacks || []).map((c: { order_id: string }) => c.order_id)));
         }
 
         const reportMap = new Map(existingReports.map((r) => [r.order_id, r]));
@@ -239,7 +262,28 @@ const Reports: React.FC = () => {
     );
   }, [approvedResults]);
 
-  // Generate / upsert report per selected order
+  // Re-check against the database so a stale list can't release a report
+  const hasOpenCriticalCallbacks = async (orderId: string): Promise<boolean> => {
+    const { data, error } = await database.criticalCallbacks.getOpenByOrderId(orderId);
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.error('Error checking critical callbacks:', error);
+      return true;
+    }
+    return (data || []).length > 0;
+  };
+
+  const blockForCriticalCallbacks = async (orderId: string): Promise<boolean> => {
+    if (!(await hasOpenCriticalCallbacks(orderId))) return false;
+    const group = orderGroups.find((g) => g.order_id === orderId);
+    // eslint-disable-next-line no-alert
+    alert('This order has critical values whose callback has not been documented. Document the callback before generating the report.');
+    if (group) setCallbackOrder(group);
+    return true;
+  };
+
+  // Releasing reports needs the user's signature on each order; orders still waiting on a
+  // critical value callback are left out before signing
   const generateReport = async () => {
     if (selectedOrders.size === 0) {
       // eslint-disable-next-line no-alert
@@ -247,6 +291,38 @@ const Reports: React.FC = () => {
       return;
     }
 
+    const releasable: string[] = [];
+    let blockedCount = 0;
+    for (const orderId of selectedOrders) {
+      if (!orderGroups.some((g) => g.order_id === orderId)) continue;
+      if (await hasOpenCriticalCallbacks(orderId)) {
+        blockedCount++;
+      } else {
+        releasable.push(orderId);
+      }
+    }
+
+    if (releasable.length === 0) {
+      // eslint-disable-next-line no-alert
+      alert(`${blockedCount} order(s) skipped: critical value callback not yet documented`);
+      return;
+    }
+
+    const group = orderGroups.find((g) => g.order_id === releasable[0]);
+    setSignatureRequest({
+      meaning: 'release',
+      recordType: 'order',
+      recordIds: releasable,
+      subject: releasable.length === 1 && group ? `Report for ${group.patient_full_name}` : `${releasable.length} reports`,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await releaseReports(releasable, blockedCount);
+      },
+    });
+  };
+
+  // Generate / upsert report per signed order
+  const releaseReports = async (orderIds: string[], blockedCount: number) => {
     try {
       const userId = (await supabase.auth.getUser()).data.user?.id;
       if (!userId) {
@@ -258,7 +334,7 @@ const Reports: React.FC = () => {
       let successCount = 0;
       let errorCount = 0;
 
-      for (const orderId of selectedOrders) {
+      for (const orderId of orderIds) {
         const group = orderGroups.find((g) => g.order_id === orderId);
         if (!group) continue;
 
@@ -300,13 +376,17 @@ const Reports: React.FC = () => {
       setSelectedOrders(new Set());
 
       // Show result summary
+      if (blockedCount > 0) {
+        // eslint-disable-next-line no-alert
+        alert(`${blockedCount} order(s) skipped: critical value callback not yet documented`);
+      }
       if (successCount > 0 && errorCount === 0) {
         // eslint-disable-next-line no-alert
         alert(`Successfully generated ${successCount} report(s)`);
       } else if (successCount > 0 && errorCount > 0) {
         // eslint-disable-next-line no-alert
         alert(`Generated ${successCount} report(s), ${errorCount} failed`);
-      } else {
+      } else if (errorCount > 0) {
         // eslint-disable-next-line no-alert
         alert('Failed to generate reports. Please try again.');
       }
@@ -343,6 +423,8 @@ const Reports: React.FC = () => {
       return;
     }
 
+    if (await blockForCriticalCallbacks(orderId)) return;
+
     try {
       console.log('Preparing report data for group:', group);
       // Prepare report data
@@ -375,6 +457,8 @@ const Reports: React.FC = () => {
       return;
     }
 
+    if (await blockForCriticalCallbacks(orderId)) return;
+
     try {
       console.log('Preparing report data for download:', group);
       // Prepare report data
@@ -398,23 +482,36 @@ const Reports: React.FC = () => {
     }
   };
 
+  // FHIR R4 Bundle for the order, for referring clinicians whose systems take FHIR
+  const handleFhirDownload = async (orderId: string) => {
+    if (await blockForCriticalCallbacks(orderId)) return;
+
+    const { data, error } = await database.reports.getFhirBundle(orderId);
+    if (error || !data) {
+      alert('FHIR export failed: ' + (error?.message || 'No bundle returned'));
+      return;
+    }
+
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/fhir+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `fhir_${orderId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
   // Helper function to prepare report data
   const prepareReportData = async (group: OrderGroup): Promise<PreparedReport> => {
     // Fetch analyte-level values for each result (best-effort)
-    const analyteRows: {
-      parameter: string;
-      result: string;
-      unit: string;
-      referenceRange: string;
-      flag?: string;
-    }[] = [];
+    const analyteRows: PreparedReport['testResults'] = [];
 
     for (const r of group.results) {
       try {
         // Query result_values table directly instead of using RPC
         const { data: values, error } = await supabase
           .from('result_values')
-          .select('parameter, value, unit, reference_range, flag')
+          .select('parameter, value, unit, reference_range, flag, analytes(name, unit, alternate_unit, molar_mass, unit_conversion_factor)')
           .eq('result_id', r.result_id);
 
         if (error) {
@@ -422,12 +519,18 @@ const Reports: React.FC = () => {
           console.warn('Failed to fetch result values for', r.result_id, error);
         } else {
           (values || []).forEach((v: any) => {
+            const alternate = dualUnits && v.analytes ? alternateUnitValue(v, v.analytes) : null;
             analyteRows.push({
               parameter: `${r.test_name} - ${v.parameter}`,
               result: v.value,
               unit: v.unit || '',
               referenceRange: v.reference_range || '',
               flag: v.flag || '',
+              ...(alternate && {
+                alternateResult: alternate.value,
+                alternateUnit: alternate.unit,
+                alternateReferenceRange: alternate.reference_range,
+              }),
             });
           });
         }
@@ -444,6 +547,15 @@ const Reports: React.FC = () => {
       );
     }
 
+    const { data: signatures, error: signaturesError } = await database.signatures.getForOrder(
+      group.order_id,
+      group.results.map((r) => r.result_id),
+    );
+    if (signaturesError) {
+      // eslint-disable-next-line no-console
+      console.warn('Failed to load signatures for', group.order_id, signaturesError);
+    }
+
     return {
       patient: {
         name: group.patient_full_name,
@@ -460,6 +572,7 @@ const Reports: React.FC = () => {
       },
       testResults: analyteRows,
       interpretation: 'Auto-generated report based on approved lab results.',
+      signatures: signatures || [],
     };
   };
 
@@ -511,6 +624,15 @@ const Reports: React.FC = () => {
             </select>
 
             <div className="flex space-x-2">
+              <label className="flex items-center px-3 py-2 text-sm text-gray-700" title="Print each value in the analyte's alternate unit as well">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={dualUnits}
+                  onChange={(e) => setDualUnits(e.target.checked)}
+                />
+                Dual units (SI + conventional)
+              </label>
               <button
                 onClick={selectAllOrders}
                 className="px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50"
@@ -652,6 +774,24 @@ const Reports: React.FC = () => {
                             <Download className="w-4 h-4" />
                             <span>Download</span>
                           </button>
+                          <button
+                            className="text-purple-600 hover:text-purple-700 text-sm flex items-center space-x-1"
+                            onClick={() => handleFhirDownload(group.order_id)}
+                            title="Download FHIR R4 Bundle"
+                          >
+                            <FileJson className="w-4 h-4" />
+                            <span>FHIR</span>
+                          </button>
+                          {pendingCallbackOrders.has(group.order_id) && (
+                            <button
+                              className="text-xs bg-red-100 text-red-800 px-2 py-1 rounded flex items-center space-x-1 hover:bg-red-200"
+                              onClick={() => setCallbackOrder(group)}
+                              title="Critical value callback pending"
+                            >
+                              <AlertOctagon className="w-3 h-3" />
+                              <span>Callback Pending</span>
+                            </button>
+                          )}
                           {(group.results[0] as ApprovedResult)?.has_report && (
                             <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">
                               Report Generated
@@ -667,6 +807,19 @@ const Reports: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {callbackOrder && (
+        <CriticalCallbackModal
+          orderId={callbackOrder.order_id}
+          patientName={callbackOrder.patient_full_name}
+          onClose={() => setCallbackOrder(null)}
+          onDocumented={loadApprovedResults}
+        />
+      )}
+
+      {signatureRequest && (
+        <SignatureDialog {...signatureRequest} onClose={() => setSignatureRequest(null)} />
+      )}
     </div>
   );
 };
@@ -2,12 +2,15 @@ import React, { useState } from 'react';
 import { Search, Filter, CheckCircle, Clock as ClockIcon, AlertTriangle, FileText, Download, Eye, Brain, Paperclip, User, Calendar, TestTube, Activity, TrendingUp, ChevronDown, ChevronUp } from 'lucide-react';
 import { Result, initializeStorage } from '../utils/localStorage';
 import { database, supabase } from '../utils/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth, usePermission } from '../contexts/AuthContext';
 import { calculateFlag, hasAbnormalFlags, getFlagColor } from '../utils/flagCalculation';
 import AIToolsModal from '../components/Results/AIToolsModal';
+import SignatureDialog from '../components/Auth/SignatureDialog';
+import { SignatureRequest } from '../utils/electronicSignature';
 
 const Results: React.FC = () => {
   const { user } = useAuth();
+  const canApprove = usePermission('result_approval');
   const [results, setResults] = useState<Result[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedStatus, setSelectedStatus] = useState('All');
@@ -16,6 +19,7 @@ const Results: React.FC = () => {
   const [aiEnhancedResults, setAIEnhancedResults] = useState<{[key: string]: any}>({});
   const [isReverting, setIsReverting] = useState(false);
   const [expandedDetails, setExpandedDetails] = useState<{[key: string]: boolean}>({});
+  const [signatureRequest, setSignatureRequest] = useState<SignatureRequest | null>(null);
 
   // Load results from localStorage on component mount
   React.useEffect(() => {
@@ -109,10 +113,28 @@ const Results: React.FC = () => {
     }));
   };
 
-  const handleApproveResult = async (resultId: string) => {
-    const resultToUpdate = results.find(result => result.id === resultId);
-    if (!resultToUpdate) return;
+  // Approval, release and amendment are only carried out once the user has signed them
+  const handleApproveResult = (resultId: string) => {
+    const resultToSign = results.find(result => result.id === resultId);
+    if (!resultToSign) return;
+    if (!canApprove) {
+      alert('Your role does not allow approving results.');
+      return;
+    }
+
+    setSignatureRequest({
+      meaning: 'approval',
+      recordType: 'result',
+      recordIds: [resultId],
+      subject: `${resultToSign.testName} for ${resultToSign.patientName}`,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await approveResult(resultId);
+      },
+    });
+  };
 
+  const approveResult = async (resultId: string) => {
     const updatedResultData = {
       status: 'Approved' as const,
       reviewed_by: user?.email || 'System',
@@ -130,14 +152,8 @@ const Results: React.FC = () => {
       setResults(prev => prev.map(r => r.id === resultId ? { ...r, ...data, values: r.values } : r)); // Preserve values array
       
       // Get the approved result (from updated local state)
-      const approvedResult = results.find(r => r.id === resultId); // Use the original result object to get patientId etc.
-      if (approvedResult) {      
-        // Create report for the approved result
-        createReportForResult(approvedResult);
-        
-        // The order status is automatically updated in database.results.update via checkAndUpdateStatus
-        console.log('Result approved and order status automatically checked');
-      }
+      // The order status is automatically updated in database.results.update via checkAndUpdateStatus
+      console.log('Result approved and order status automatically checked');
       
       // Update selected result if it's the one being approved
       if (selectedResult && selectedResult.id === resultId) {
@@ -148,38 +164,68 @@ const Results: React.FC = () => {
     }
   };
 
-  const createReportForResult = async (result: Result) => {
+  // Only called once the release has been signed; the order's report is created or marked delivered
+  const createReportForResult = async (result: Result): Promise<string | null> => {
     try {
-      // Get patient details from Supabase
-      const { data: patient, error: patientError } = await database.patients.getById(result.patientId);
-      if (patientError || !patient) {
-        console.error('Error fetching patient for report:', patientError);
-        return;
+      const { error } = await supabase.from('reports').upsert(
+        {
+          order_id: result.orderId,
+          patient_id: result.patientId,
+          result_id: result.id,
+          status: 'Delivered',
+          generated_date: new Date().toISOString(),
+          doctor: result.enteredBy || user?.email || 'System',
+        },
+        { onConflict: 'order_id' }
+      );
+      if (error) {
+        console.error('Error creating report:', error);
+        return error.message;
       }
-      
-      // Create a new report in Supabase
-      const reportData = {
-        patient_id: result.patientId,
-        result_id: result.id,
-        status: 'Generated',
-        generated_date: new Date().toISOString(),
-        doctor: result.enteredBy || user?.email || 'System',
-      };
-      
-      await database.reports.create(reportData);
+      return null;
     } catch (error) {
       console.error('Error creating report:', error);
+      return error instanceof Error ? error.message : String(error);
+    }
+  };
+
+  // Re-checked against the database so a stale list can't release a report
+  const hasOpenCriticalCallbacks = async (orderId: string): Promise<boolean> => {
+    const { data, error } = await database.criticalCallbacks.getOpenByOrderId(orderId);
+    if (error) {
+      console.error('Error checking critical callbacks:', error);
+      return true;
     }
+    return (data || []).length > 0;
   };
 
-  const handleRejectResult = async (resultId: string) => {
+  // Sending an approved result back for re-entry is an amendment and has to be signed
+  const handleRejectResult = (resultId: string) => {
     const resultToUpdate = results.find(result => result.id === resultId);
     if (!resultToUpdate) return;
 
+    if (resultToUpdate.status !== 'Approved' && resultToUpdate.status !== 'Reported') {
+      rejectResult(resultId);
+      return;
+    }
+
+    setSignatureRequest({
+      meaning: 'amendment',
+      recordType: 'result',
+      recordIds: [resultId],
+      subject: `${resultToUpdate.testName} for ${resultToUpdate.patientName}`,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await rejectResult(resultId);
+      },
+    });
+  };
+
+  const rejectResult = async (resultId: string) => {
     const updatedResultData = {
       status: 'Entered' as const,
       reviewed_by: user?.email || 'System',
-      reviewed_date: new Date().toISOString().split('T'),
+      reviewed_date: new Date().toISOString().split('T')[0],
     };
 
     try {
@@ -202,33 +248,57 @@ const Results: React.FC = () => {
   };
 
   const handleGenerateReport = async (resultId: string) => {
-    const resultToUpdate = results.find(result => result.id === resultId);
-    if (!resultToUpdate) return;
+    const resultToSign = results.find(result => result.id === resultId);
+    if (!resultToSign) return;
+    if (await hasOpenCriticalCallbacks(resultToSign.orderId)) {
+      alert('This order has critical values whose callback has not been documented. Document the callback before generating the report.');
+      return;
+    }
 
-    const updatedResultData = {
-      status: 'Reported' as const,
-    };
+    setSignatureRequest({
+      meaning: 'release',
+      recordType: 'order',
+      recordIds: [resultToSign.orderId],
+      subject: `Report for ${resultToSign.patientName}`,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await releaseReport(resultId);
+      },
+    });
+  };
+
+  // The report is written first, so a refused report leaves the result and order unchanged
+  const releaseReport = async (resultId: string) => {
+    const reportedResult = results.find(r => r.id === resultId);
+    if (!reportedResult) return;
 
     try {
-      const { data, error } = await database.results.update(resultId, updatedResultData);
+      if (await hasOpenCriticalCallbacks(reportedResult.orderId)) {
+        alert('This order has critical values whose callback has not been documented. Document the callback before generating the report.');
+        return;
+      }
+
+      const reportError = await createReportForResult(reportedResult);
+      if (reportError) {
+        alert(`Could not generate the report: ${reportError}`);
+        return;
+      }
+
+      const { data, error } = await database.results.update(resultId, { status: 'Reported' as const });
       if (error) {
         console.error('Error generating report (updating result status):', error);
+        alert(`The report was generated but the result could not be marked Reported: ${error.message}`);
         return;
       }
       
       // Update local state
       setResults(prev => prev.map(r => r.id === resultId ? { ...r, ...data, values: r.values } : r));
       
-      // Update the corresponding order status to Delivered
-      const reportedResult = results.find(r => r.id === resultId);
-      if (reportedResult) {
-        // Update order status in Supabase
-        await database.orders.update(reportedResult.orderId, {
-          status: 'Delivered'
-        });
-        
-        // Update the report status in Supabase
-        updateReportStatus(reportedResult.id);
+      const { error: orderError } = await database.orders.update(reportedResult.orderId, {
+        status: 'Delivered'
+      });
+      if (orderError) {
+        console.error('Error marking order delivered:', orderError);
       }
       
       // Update selected result if it's the one being reported
@@ -243,39 +313,23 @@ const Results: React.FC = () => {
     }
   };
 
-  const updateReportStatus = async (resultId: string) => {
-    try {
-      // Find the report with this result_id
-      const { data: reports, error } = await supabase
-        .from('reports')
-        .select('id')
-        .eq('result_id', resultId)
-        .limit(1);
-      
-      if (error) {
-        console.error('Error finding report:', error);
-        return;
-      }
-      
-      if (reports && reports.length > 0) {
-        // Update the report status to Delivered
-        const { error: updateError } = await supabase
-          .from('reports')
-          .update({
-          status: 'Delivered'
-        })
-          .eq('id', reports[0].id);
-        
-        if (updateError) {
-          console.error('Error updating report status:', updateError);
-        }
-      }
-    } catch (error) {
-      console.error('Error updating report status:', error);
-    }
+  const handleRevertToUnderReview = (resultId: string) => {
+    const resultToSign = results.find(result => result.id === resultId);
+    if (!resultToSign) return;
+
+    setSignatureRequest({
+      meaning: 'amendment',
+      recordType: 'result',
+      recordIds: [resultId],
+      subject: `${resultToSign.testName} for ${resultToSign.patientName}`,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await revertToUnderReview(resultId);
+      },
+    });
   };
 
-  const handleRevertToUnderReview = async (resultId: string) => {
+  const revertToUnderReview = async (resultId: string) => {
     setIsReverting(true);
     try {
       // Update the result status back to Under Review
@@ -288,21 +342,22 @@ const Results: React.FC = () => {
         return;
       }
       
-      // Find the associated report
+      // Find the report of the result's order
+      const orderId = results.find(r => r.id === resultId)?.orderId;
       const { data: reports, error: reportError } = await supabase
         .from('reports')
         .select('id')
-        .eq('result_id', resultId)
+        .eq(orderId ? 'order_id' : 'result_id', orderId || resultId)
         .limit(1);
       
       if (reportError) {
         console.error('Error finding associated report:', reportError);
       } else if (reports && reports.length > 0) {
-        // Update the report status back to Generated
+        // The amended result is no longer covered by the released report
         const { error: updateError } = await supabase
           .from('reports')
           .update({
-            status: 'Generated'
+            status: 'pending'
           })
           .eq('id', reports[0].id);
         
@@ -691,7 +746,7 @@ const Results: React.FC = () => {
                   
                   {/* Quick Actions */}
                   <div className="flex items-center space-x-1">
-                    {result.status === 'Under Review' && (
+                    {result.status === 'Under Review' && canApprove && (
                       <button 
                         onClick={(e) => {
                           e.stopPropagation();
@@ -904,7 +959,7 @@ const Results: React.FC = () => {
                 >
                   Close
                 </button>
-                {selectedResult.status === 'Under Review' && (
+                {selectedResult.status === 'Under Review' && canApprove && (
                   <>
                     <button 
                       onClick={() => handleRejectResult(selectedResult.id)}
@@ -920,6 +975,14 @@ const Results: React.FC = () => {
                     </button>
                   </>
                 )}
+                {selectedResult.status === 'Approved' && canApprove && (
+                  <button
+                    onClick={() => handleRejectResult(selectedResult.id)}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    Reject
+                  </button>
+                )}
                 {selectedResult.status === 'Approved' && (
                   <button 
                     onClick={() => handleGenerateReport(selectedResult.id)}
@@ -951,6 +1014,10 @@ const Results: React.FC = () => {
         </div>
       )}
 
+      {signatureRequest && (
+        <SignatureDialog {...signatureRequest} onClose={() => setSignatureRequest(null)} />
+      )}
+
       {/* AI Tools Modal */}
       {showAITools && selectedResult && (
         <AIToolsModal
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import { supabase } from '../utils/supabase';
+import { supabase, database } from '../utils/supabase';
 import { 
   CheckCircle, 
   XCircle, 
@@ -13,6 +13,8 @@ import {
   Eye
 } from 'lucide-react';
 import DetailedApprovalModal from '../components/Results/DetailedApprovalModal';
+import SignatureDialog from '../components/Auth/SignatureDialog';
+import { SignatureRequest } from '../utils/electronicSignature';
 
 interface PendingResult {
   result_id: string;
@@ -92,6 +94,7 @@ export default function ResultsVerification() {
   const [verificationNotes, setVerificationNotes] = useState('');
   const [selectedTestForModal, setSelectedTestForModal] = useState<TestGroup | null>(null);
   const [showDetailedModal, setShowDetailedModal] = useState(false);
+  const [signatureRequest, setSignatureRequest] = useState<SignatureRequest | null>(null);
 
   // Load pending results and stats
   const loadData = useCallback(async () => {
@@ -253,6 +256,25 @@ export default function ResultsVerification() {
     return filtered;
   }, [testGroups, searchTerm, filterUrgency, filterCategory, filterDate]);
 
+  // Re-run the delta check before approval; flagged results need an explicit confirmation
+  const confirmDeltaChecks = async (resultIds: string[], comment?: string) => {
+    const outcomes = await Promise.all(resultIds.map(id => database.results.applyDeltaCheck(id)));
+    const flaggedCount = outcomes.filter(o => o.data?.delta_check_flag).length;
+    if (flaggedCount === 0) return true;
+    return confirm(
+      `${flaggedCount} result(s) changed beyond the delta check limit compared to the patient's previous results.` +
+      (comment ? '' : ' No verification note was entered.') +
+      ' Approve anyway?'
+    );
+  };
+
+  const describeResults = (resultIds: string[]) => {
+    const groups = testGroups.filter(group => group.results.some(r => resultIds.includes(r.result_id)));
+    return groups.length === 1
+      ? `${groups[0].test_name} for ${groups[0].patient_name}`
+      : `${resultIds.length} results across ${groups.length} tests`;
+  };
+
   // Verify single result
   // Centralized verification dispatcher with bulk RPC fallback
   const performVerification = async (resultIds: string[], status: 'verified' | 'rejected' | 'needs_clarification', notes?: string) => {
@@ -260,6 +282,31 @@ export default function ResultsVerification() {
     const action = status === 'verified' ? 'approve' : status === 'rejected' ? 'reject' : 'clarify';
     const comment = notes || verificationNotes;
 
+    if (status === 'verified') {
+      if (!(await confirmDeltaChecks(resultIds, comment))) {
+        await loadData();
+        return;
+      }
+
+      // Approval is carried out once the results are signed
+      setSignatureRequest({
+        meaning: 'approval',
+        recordType: 'result',
+        recordIds: Array.from(new Set(resultIds)),
+        subject: describeResults(resultIds),
+        defaultReason: comment,
+        onSigned: async () => {
+          setSignatureRequest(null);
+          await runVerification(resultIds, action, comment);
+        }
+      });
+      return;
+    }
+
+    await runVerification(resultIds, action, comment);
+  };
+
+  const runVerification = async (resultIds: string[], action: 'approve' | 'reject' | 'clarify', comment: string) => {
     // Try bulk RPC first
     try {
       if (resultIds.length > 1) {
@@ -280,7 +327,7 @@ export default function ResultsVerification() {
 
     // Fallback: individual RPC calls
     try {
-      await Promise.all(resultIds.map(id =>
+      const responses = await Promise.all(resultIds.map(id =>
         supabase.rpc('verify_result', {
           p_result_id: id,
           p_action: action,
@@ -288,6 +335,8 @@ export default function ResultsVerification() {
         })
       ));
       await loadData();
+      const failed = responses.find(response => response.error);
+      if (failed) throw failed.error;
     } catch (e) {
       console.error('Error during per-result verification RPCs:', e);
       alert('Error verifying result(s). Please try again.');
@@ -399,6 +448,22 @@ export default function ResultsVerification() {
 
   // Handle modal approval actions
   const handleModalApprove = async (resultId: string, notes: string) => {
+    if (!(await confirmDeltaChecks([resultId], notes))) return;
+
+    setSignatureRequest({
+      meaning: 'approval',
+      recordType: 'result',
+      recordIds: [resultId],
+      subject: describeResults([resultId]),
+      defaultReason: notes,
+      onSigned: async () => {
+        setSignatureRequest(null);
+        await approveFromModal(resultId, notes);
+      }
+    });
+  };
+
+  const approveFromModal = async (resultId: string, notes: string) => {
     try {
       const { error } = await supabase
         .rpc('verify_result', {
@@ -643,6 +708,11 @@ export default function ResultsVerification() {
                             CRITICAL
                           </span>
                         )}
+                        {testGroup.results.some(r => r.delta_check_flag) && (
+                          <span className="px-2 py-1 text-xs font-medium rounded-full text-purple-600 bg-purple-50">
+                            DELTA
+                          </span>
+                        )}
                         <span className={`px-2 py-1 text-xs font-medium rounded-full ${
                           testGroup.order_priority === 'STAT' ? 'text-orange-600 bg-orange-50' :
                           testGroup.order_priority === 'High' ? 'text-yellow-600 bg-yellow-50' :
@@ -832,6 +902,10 @@ export default function ResultsVerification() {
           onRequestClarification={handleModalClarify}
         />
       )}
+
+      {signatureRequest && (
+        <SignatureDialog {...signatureRequest} onClose={() => setSignatureRequest(null)} />
+      )}
     </div>
   );
 }
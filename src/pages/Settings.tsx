@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { 
   Users, 
   Shield, 
@@ -6,7 +6,6 @@ import {
   Settings as SettingsIcon, 
   Plus, 
   Edit, 
-  Trash2, 
   Eye, 
   EyeOff,
   Search,
@@ -19,12 +18,9 @@ import {
   UserCheck,
   UserX,
   Clock,
-  Activity,
   Database,
   Server,
   Wifi,
-  AlertTriangle,
-  CheckCircle,
   XCircle,
   Calendar,
   Mail,
@@ -35,134 +31,78 @@ import {
   Palette,
   Monitor,
   Smartphone,
-  Tablet
+  Tablet,
+  Tag,
+  CheckCircle
 } from 'lucide-react';
+import LabelTemplateManager from '../components/Labels/LabelTemplateManager';
+import AIUsageDashboard from '../components/AITools/AIUsageDashboard';
+import { database } from '../utils/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { LabSummary, Permission, PermissionId, PERMISSIONS, ROLE_PERMISSIONS, USER_ROLES, UserProfile, UserRole, UserStatus } from '../utils/permissions';
 
-interface User {
-  id: string;
-  name: string;
-  email: string;
-  role: 'Admin' | 'Lab Manager' | 'Technician' | 'Receptionist' | 'Doctor';
-  department: string;
-  status: 'Active' | 'Inactive' | 'Suspended';
-  lastLogin: string;
-  permissions: string[];
-  phone: string;
-  joinDate: string;
-  avatar?: string;
-}
-
-interface Permission {
-  id: string;
-  name: string;
-  description: string;
-  category: string;
-  isDefault: boolean;
-}
-
-interface UsageStats {
-  totalUsers: number;
-  activeUsers: number;
-  totalTests: number;
-  totalPatients: number;
-  storageUsed: number;
-  storageLimit: number;
-  apiCalls: number;
-  apiLimit: number;
-}
+type SettingsTab = 'team' | 'permissions' | 'usage' | 'system' | 'notifications' | 'appearance' | 'labels';
 
 const Settings: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'team' | 'permissions' | 'usage' | 'system' | 'notifications' | 'appearance'>('team');
+  const { profile, hasPermission, refreshProfile } = useAuth();
+  const allTabs: { id: SettingsTab; name: string; icon: React.ElementType; permission?: PermissionId }[] = [
+    { id: 'team', name: 'Team Management', icon: Users, permission: 'user_management' },
+    { id: 'permissions', name: 'Permissions', icon: Shield, permission: 'user_management' },
+    { id: 'usage', name: 'Usage & Analytics', icon: BarChart3, permission: 'system_config' },
+    { id: 'system', name: 'System Settings', icon: SettingsIcon, permission: 'system_config' },
+    { id: 'notifications', name: 'Notifications', icon: Bell },
+    { id: 'appearance', name: 'Appearance', icon: Palette },
+    { id: 'labels', name: 'Labels', icon: Tag, permission: 'system_config' },
+  ];
+  const tabs = allTabs.filter(tab => !tab.permission || hasPermission(tab.permission));
+
+  const [activeTab, setActiveTab] = useState<SettingsTab>(tabs[0]?.id || 'notifications');
   const [showUserForm, setShowUserForm] = useState(false);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedRole, setSelectedRole] = useState('All');
+  const [users, setUsers] = useState<UserProfile[]>([]);
+  const [usersError, setUsersError] = useState<string | null>(null);
+  const [labs, setLabs] = useState<LabSummary[]>([]);
+  const canManageUsers = hasPermission('user_management');
+
+  const loadUsers = useCallback(async () => {
+    const { data, error } = await database.users.getAll();
+    if (error) {
+      console.error('Error loading users:', error);
+      setUsersError(error.message);
+      return;
+    }
+    setUsersError(null);
+    setUsers(data || []);
+  }, []);
+
+  useEffect(() => {
+    if (!canManageUsers) return;
+    loadUsers();
+    database.labs.getAll().then(({ data }) => setLabs(data || []));
+  }, [canManageUsers, loadUsers]);
+
+  const handleDeactivateUser = async (user: UserProfile) => {
+    if (user.id === profile?.id) {
+      alert('You cannot deactivate your own account.');
+      return;
+    }
+    if (!confirm(`Deactivate ${user.name}? They will no longer be able to use the LIMS.`)) return;
+    const { error } = await database.users.update(user.id, { status: 'Inactive' });
+    if (error) {
+      alert(`Could not deactivate user: ${error.message}`);
+      return;
+    }
+    loadUsers();
+  };
 
-  // Mock data
-  const [users] = useState<User[]>([
-    {
-      id: 'USR001',
-      name: 'Dr. Sarah Wilson',
-      email: 'sarah.wilson@medilab.com',
-      role: 'Admin',
-      department: 'Administration',
-      status: 'Active',
-      lastLogin: '2024-01-20T10:30:00Z',
-      permissions: ['all_access', 'user_management', 'system_config'],
-      phone: '+91 98765 43210',
-      joinDate: '2023-01-15',
-    },
-    {
-      id: 'USR002',
-      name: 'Priya Sharma',
-      email: 'priya.sharma@medilab.com',
-      role: 'Lab Manager',
-      department: 'Laboratory',
-      status: 'Active',
-      lastLogin: '2024-01-20T09:15:00Z',
-      permissions: ['test_management', 'result_approval', 'report_generation'],
-      phone: '+91 87654 32109',
-      joinDate: '2023-03-20',
-    },
-    {
-      id: 'USR003',
-      name: 'Rajesh Kumar',
-      email: 'rajesh.kumar@medilab.com',
-      role: 'Technician',
-      department: 'Laboratory',
-      status: 'Active',
-      lastLogin: '2024-01-20T08:45:00Z',
-      permissions: ['result_entry', 'sample_processing'],
-      phone: '+91 76543 21098',
-      joinDate: '2023-06-10',
-    },
-    {
-      id: 'USR004',
-      name: 'Amit Patel',
-      email: 'amit.patel@medilab.com',
-      role: 'Receptionist',
-      department: 'Front Office',
-      status: 'Inactive',
-      lastLogin: '2024-01-18T17:30:00Z',
-      permissions: ['patient_registration', 'appointment_management'],
-      phone: '+91 65432 10987',
-      joinDate: '2023-08-05',
-    },
-  ]);
-
-  const [permissions] = useState<Permission[]>([
-    { id: 'all_access', name: 'All Access', description: 'Complete system access', category: 'System', isDefault: false },
-    { id: 'user_management', name: 'User Management', description: 'Manage users and permissions', category: 'Administration', isDefault: false },
-    { id: 'patient_registration', name: 'Patient Registration', description: 'Register and manage patients', category: 'Patient Management', isDefault: true },
-    { id: 'test_management', name: 'Test Management', description: 'Manage tests and analytes', category: 'Laboratory', isDefault: false },
-    { id: 'result_entry', name: 'Result Entry', description: 'Enter test results', category: 'Laboratory', isDefault: true },
-    { id: 'result_approval', name: 'Result Approval', description: 'Approve and validate results', category: 'Laboratory', isDefault: false },
-    { id: 'report_generation', name: 'Report Generation', description: 'Generate and send reports', category: 'Reports', isDefault: false },
-    { id: 'billing_management', name: 'Billing Management', description: 'Manage invoices and payments', category: 'Finance', isDefault: false },
-    { id: 'system_config', name: 'System Configuration', description: 'Configure system settings', category: 'System', isDefault: false },
-  ]);
-
-  const [usageStats] = useState<UsageStats>({
-    totalUsers: 15,
-    activeUsers: 12,
-    totalTests: 2847,
-    totalPatients: 1256,
-    storageUsed: 2.4, // GB
-    storageLimit: 10, // GB
-    apiCalls: 45230,
-    apiLimit: 100000,
-  });
-
-  const tabs = [
-    { id: 'team', name: 'Team Management', icon: Users },
-    { id: 'permissions', name: 'Permissions', icon: Shield },
-    { id: 'usage', name: 'Usage & Analytics', icon: BarChart3 },
-    { id: 'system', name: 'System Settings', icon: SettingsIcon },
-    { id: 'notifications', name: 'Notifications', icon: Bell },
-    { id: 'appearance', name: 'Appearance', icon: Palette },
-  ];
+  const usageStats = {
+    totalUsers: users.length,
+    activeUsers: users.filter(u => u.status === 'Active').length,
+  };
 
-  const roles = ['All', 'Admin', 'Lab Manager', 'Technician', 'Receptionist', 'Doctor'];
+  const roles = ['All', ...USER_ROLES];
 
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -191,19 +131,57 @@ const Settings: React.FC = () => {
     }
   };
 
-  const UserForm: React.FC<{ onClose: () => void; user?: User }> = ({ onClose, user }) => {
+  const UserForm: React.FC<{ onClose: () => void; user?: UserProfile }> = ({ onClose, user }) => {
     const [formData, setFormData] = useState({
       name: user?.name || '',
       email: user?.email || '',
-      role: user?.role || 'Technician',
+      role: user?.role || ('Technician' as UserRole),
       department: user?.department || '',
       phone: user?.phone || '',
+      status: user?.status || ('Active' as UserStatus),
       permissions: user?.permissions || [],
     });
-
-    const handleSubmit = (e: React.FormEvent) => {
+    const [labIds, setLabIds] = useState<string[]>(profile?.lab_id ? [profile.lab_id] : []);
+    const [saving, setSaving] = useState(false);
+    const [saveError, setSaveError] = useState<string | null>(null);
+
+    useEffect(() => {
+      if (!user) return;
+      database.users.getLabIds(user.id).then(({ data }) => {
+        if (data) setLabIds(data);
+      });
+    }, [user]);
+
+    const handleSubmit = async (e: React.FormEvent) => {
       e.preventDefault();
-      // Handle form submission
+      setSaving(true);
+      setSaveError(null);
+      const fields = {
+        name: formData.name,
+        role: formData.role,
+        department: formData.department || null,
+        phone: formData.phone || null,
+        status: formData.status,
+        permissions: formData.permissions,
+      };
+      const { data: saved, error } = user
+        ? await database.users.update(user.id, fields)
+        : await database.users.create({ ...fields, email: formData.email });
+      if (!error && saved && labs.length > 1) {
+        const { error: labsError } = await database.users.setLabIds(saved.id, labIds);
+        if (labsError) {
+          setSaving(false);
+          setSaveError(labsError.message);
+          return;
+        }
+      }
+      setSaving(false);
+      if (error) {
+        setSaveError(error.message);
+        return;
+      }
+      await loadUsers();
+      if (user && user.id === profile?.id) await refreshProfile();
       onClose();
     };
 
@@ -249,6 +227,7 @@ const Settings: React.FC = () => {
                 <input
                   type="email"
                   required
+                  disabled={!!user}
                   value={formData.email}
                   onChange={(e) => setFormData(prev => ({ ...prev, email: e.target.value }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -261,7 +240,7 @@ const Settings: React.FC = () => {
                 <select
                   required
                   value={formData.role}
-                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as any }))}
+                  onChange={(e) => setFormData(prev => ({ ...prev, role: e.target.value as UserRole }))}
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
                   {roles.slice(1).map(role => (
@@ -280,7 +259,21 @@ const Settings: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
                 />
               </div>
-              <div className="md:col-span-2">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Status
+                </label>
+                <select
+                  value={formData.status}
+                  onChange={(e) => setFormData(prev => ({ ...prev, status: e.target.value as UserStatus }))}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="Active">Active</option>
+                  <option value="Inactive">Inactive</option>
+                  <option value="Suspended">Suspended</option>
+                </select>
+              </div>
+              <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
                   Phone Number
                 </label>
@@ -294,9 +287,12 @@ const Settings: React.FC = () => {
             </div>
 
             <div>
-              <h3 className="text-lg font-medium text-gray-900 mb-4">Permissions</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-1">Permissions</h3>
+              <p className="text-sm text-gray-500 mb-4">
+                Leave all unticked to use the {formData.role} defaults: {ROLE_PERMISSIONS[formData.role].map(id => PERMISSIONS.find(p => p.id === id)?.name).join(', ')}.
+              </p>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {permissions.map(permission => (
+                {PERMISSIONS.map(permission => (
                   <label key={permission.id} className="flex items-start p-3 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer">
                     <input
                       type="checkbox"
@@ -314,6 +310,31 @@ const Settings: React.FC = () => {
               </div>
             </div>
 
+            {labs.length > 1 && (
+              <div>
+                <h3 className="text-lg font-medium text-gray-900 mb-1">Labs</h3>
+                <p className="text-sm text-gray-500 mb-4">Branches this user can switch to. Their current lab cannot be removed here.</p>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  {labs.map(lab => (
+                    <label key={lab.id} className="flex items-center p-3 border border-gray-200 rounded-lg hover:bg-gray-50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={labIds.includes(lab.id)}
+                        disabled={lab.id === user?.lab_id}
+                        onChange={() => setLabIds(prev => prev.includes(lab.id) ? prev.filter(id => id !== lab.id) : [...prev, lab.id])}
+                        className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                      />
+                      <span className="ml-3 text-sm text-gray-900">{lab.name}{lab.code ? ` (${lab.code})` : ''}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {saveError && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{saveError}</div>
+            )}
+
             <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
               <button
                 type="button"
@@ -324,9 +345,10 @@ const Settings: React.FC = () => {
               </button>
               <button
                 type="submit"
-                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+                disabled={saving}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
               >
-                {user ? 'Update User' : 'Create User'}
+                {saving ? 'Saving...' : user ? 'Update User' : 'Create User'}
               </button>
             </div>
           </form>
@@ -360,7 +382,7 @@ const Settings: React.FC = () => {
           {tabs.map((tab) => (
             <button
               key={tab.id}
-              onClick={() => setActiveTab(tab.id as any)}
+              onClick={() => setActiveTab(tab.id)}
               className={`flex items-center px-4 py-3 rounded-md text-sm font-medium transition-all whitespace-nowrap ${
                 activeTab === tab.id
                   ? 'bg-blue-600 text-white shadow-sm'
@@ -408,7 +430,7 @@ const Settings: React.FC = () => {
                 </div>
                 <div className="ml-4">
                   <div className="text-2xl font-bold text-gray-900">
-                    {users.filter(u => new Date(u.lastLogin) > new Date(Date.now() - 24*60*60*1000)).length}
+                    {users.filter(u => u.last_login && new Date(u.last_login) > new Date(Date.now() - 24*60*60*1000)).length}
                   </div>
                   <div className="text-sm text-gray-600">Online Today</div>
                 </div>
@@ -466,6 +488,9 @@ const Settings: React.FC = () => {
             <div className="px-6 py-4 border-b border-gray-200">
               <h3 className="text-lg font-semibold text-gray-900">Team Members ({filteredUsers.length})</h3>
             </div>
+            {usersError && (
+              <div className="px-6 py-3 bg-red-50 text-sm text-red-700">Could not load users: {usersError}</div>
+            )}
             
             <div className="overflow-x-auto">
               <table className="min-w-full divide-y divide-gray-200">
@@ -509,7 +534,7 @@ const Settings: React.FC = () => {
                         </span>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
-                        {new Date(user.lastLogin).toLocaleDateString()}
+                        {user.last_login ? new Date(user.last_login).toLocaleDateString() : 'Never'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                         <button
@@ -524,9 +549,15 @@ const Settings: React.FC = () => {
                         >
                           <Edit className="h-4 w-4" />
                         </button>
-                        <button className="text-red-600 hover:text-red-900 p-1 rounded">
-                          <Trash2 className="h-4 w-4" />
-                        </button>
+                        {user.status === 'Active' && user.id !== profile?.id && (
+                          <button
+                            onClick={() => handleDeactivateUser(user)}
+                            className="text-red-600 hover:text-red-900 p-1 rounded"
+                            title="Deactivate user"
+                          >
+                            <UserX className="h-4 w-4" />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -545,7 +576,7 @@ const Settings: React.FC = () => {
             
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
               {Object.entries(
-                permissions.reduce((acc, permission) => {
+                PERMISSIONS.reduce((acc, permission) => {
                   if (!acc[permission.category]) acc[permission.category] = [];
                   acc[permission.category].push(permission);
                   return acc;
@@ -563,9 +594,6 @@ const Settings: React.FC = () => {
                           <div className="text-sm font-medium text-gray-900">{permission.name}</div>
                           <div className="text-xs text-gray-500">{permission.description}</div>
                         </div>
-                        {permission.isDefault && (
-                          <span className="text-xs bg-green-100 text-green-800 px-2 py-1 rounded">Default</span>
-                        )}
                       </div>
                     ))}
                   </div>
@@ -573,116 +601,45 @@ const Settings: React.FC = () => {
               ))}
             </div>
           </div>
-        </div>
-      )}
 
-      {/* Usage & Analytics Tab */}
-      {activeTab === 'usage' && (
-        <div className="space-y-6">
-          {/* Usage Overview */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="text-2xl font-bold text-gray-900">{usageStats.totalTests.toLocaleString()}</div>
-                  <div className="text-sm text-gray-600">Total Tests</div>
-                </div>
-                <div className="bg-blue-100 p-3 rounded-lg">
-                  <Activity className="h-6 w-6 text-blue-600" />
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="text-2xl font-bold text-gray-900">{usageStats.totalPatients.toLocaleString()}</div>
-                  <div className="text-sm text-gray-600">Total Patients</div>
-                </div>
-                <div className="bg-green-100 p-3 rounded-lg">
-                  <Users className="h-6 w-6 text-green-600" />
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="text-2xl font-bold text-gray-900">{usageStats.storageUsed}GB</div>
-                  <div className="text-sm text-gray-600">Storage Used</div>
-                  <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                    <div 
-                      className="bg-orange-600 h-2 rounded-full" 
-                      style={{ width: `${(usageStats.storageUsed / usageStats.storageLimit) * 100}%` }}
-                    />
-                  </div>
-                </div>
-                <div className="bg-orange-100 p-3 rounded-lg">
-                  <Database className="h-6 w-6 text-orange-600" />
-                </div>
-              </div>
-            </div>
-            
-            <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-              <div className="flex items-center justify-between">
-                <div>
-                  <div className="text-2xl font-bold text-gray-900">{usageStats.apiCalls.toLocaleString()}</div>
-                  <div className="text-sm text-gray-600">API Calls</div>
-                  <div className="w-full bg-gray-200 rounded-full h-2 mt-2">
-                    <div 
-                      className="bg-purple-600 h-2 rounded-full" 
-                      style={{ width: `${(usageStats.apiCalls / usageStats.apiLimit) * 100}%` }}
-                    />
-                  </div>
-                </div>
-                <div className="bg-purple-100 p-3 rounded-lg">
-                  <Server className="h-6 w-6 text-purple-600" />
-                </div>
-              </div>
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h3 className="text-lg font-semibold text-gray-900">Role Defaults</h3>
+              <p className="text-sm text-gray-500">Used for users without their own permission list. All Access grants everything.</p>
             </div>
-          </div>
-
-          {/* System Health */}
-          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-            <h3 className="text-lg font-semibold text-gray-900 mb-4">System Health</h3>
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-              <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-lg">
-                <div className="flex items-center">
-                  <CheckCircle className="h-5 w-5 text-green-600 mr-3" />
-                  <div>
-                    <div className="font-medium text-green-900">Database</div>
-                    <div className="text-sm text-green-700">Operational</div>
-                  </div>
-                </div>
-                <div className="text-green-600">99.9%</div>
-              </div>
-              
-              <div className="flex items-center justify-between p-4 bg-green-50 border border-green-200 rounded-lg">
-                <div className="flex items-center">
-                  <CheckCircle className="h-5 w-5 text-green-600 mr-3" />
-                  <div>
-                    <div className="font-medium text-green-900">API Services</div>
-                    <div className="text-sm text-green-700">Operational</div>
-                  </div>
-                </div>
-                <div className="text-green-600">99.8%</div>
-              </div>
-              
-              <div className="flex items-center justify-between p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-                <div className="flex items-center">
-                  <AlertTriangle className="h-5 w-5 text-yellow-600 mr-3" />
-                  <div>
-                    <div className="font-medium text-yellow-900">Backup System</div>
-                    <div className="text-sm text-yellow-700">Warning</div>
-                  </div>
-                </div>
-                <div className="text-yellow-600">95.2%</div>
-              </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Permission</th>
+                    {USER_ROLES.map(role => (
+                      <th key={role} className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase">{role}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {PERMISSIONS.map(permission => (
+                    <tr key={permission.id}>
+                      <td className="px-6 py-3 text-sm text-gray-900">{permission.name}</td>
+                      {USER_ROLES.map(role => (
+                        <td key={role} className="px-6 py-3 text-center">
+                          {ROLE_PERMISSIONS[role].includes(permission.id) && (
+                            <CheckCircle className="h-4 w-4 text-green-600 mx-auto" />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           </div>
         </div>
       )}
 
+      {/* Usage & Analytics Tab */}
+      {activeTab === 'usage' && <AIUsageDashboard />}
+
       {/* System Settings Tab */}
       {activeTab === 'system' && (
         <div className="space-y-6">
@@ -908,6 +865,9 @@ const Settings: React.FC = () => {
         </div>
       )}
 
+      {/* Labels Tab */}
+      {activeTab === 'labels' && <LabelTemplateManager />}
+
       {/* User Form Modal */}
       {showUserForm && (
         <UserForm
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Plus, Search, Filter, TestTube, Edit, Eye, DollarSign, Layers, Beaker, Package } from 'lucide-react';
+import { Plus, Search, Filter, TestTube, Edit, Eye, DollarSign, Layers, Beaker, Package, Tags } from 'lucide-react';
 import TestForm from '../components/Tests/TestForm';
 import AnalyteForm from '../components/Tests/AnalyteForm';
 import TestGroupForm from '../components/Tests/TestGroupForm';
@@ -8,10 +8,13 @@ import TestDetailModal from '../components/Tests/TestDetailModal';
 import AnalyteDetailModal from '../components/Tests/AnalyteDetailModal';
 import TestGroupDetailModal from '../components/Tests/TestGroupDetailModal';
 import PackageDetailModal from '../components/Tests/PackageDetailModal';
+import LoincImportModal from '../components/Tests/LoincImportModal';
 import { database } from '../utils/supabase';
+import { usePermission } from '../contexts/AuthContext';
 import { Test, TestGroup, Analyte, Package as PackageType } from '../utils/localStorage';
 
 const Tests: React.FC = () => {
+  const canManageTests = usePermission('test_management');
   const [tests, setTests] = useState<Test[]>([]);
   const [testGroups, setTestGroups] = useState<TestGroup[]>([]);
   const [analytes, setAnalytes] = useState<Analyte[]>([]);
@@ -24,6 +27,7 @@ const Tests: React.FC = () => {
   const [showAnalyteDetail, setShowAnalyteDetail] = useState(false);
   const [showTestGroupDetail, setShowTestGroupDetail] = useState(false);
   const [showPackageDetail, setShowPackageDetail] = useState(false);
+  const [showLoincImport, setShowLoincImport] = useState(false);
   const [selectedTest, setSelectedTest] = useState<Test | null>(null);
   const [selectedAnalyte, setSelectedAnalyte] = useState<Analyte | null>(null);
   const [selectedTestGroup, setSelectedTestGroup] = useState<TestGroup | null>(null);
@@ -54,6 +58,19 @@ const Tests: React.FC = () => {
             referenceRange: analyte.reference_range || analyte.referenceRange,
             lowCritical: analyte.low_critical,
             highCritical: analyte.high_critical,
+            deltaCheckAbsolute: analyte.delta_check_absolute,
+            deltaCheckPercent: analyte.delta_check_percent,
+            deltaCheckWindowDays: analyte.delta_check_window_days,
+            isCalculated: analyte.is_calculated ?? false,
+            formula: analyte.formula,
+            formulaVariables: analyte.formula_variables || [],
+            formulaValidity: analyte.formula_validity,
+            formulaDecimals: analyte.formula_decimals,
+            loincCode: analyte.loinc_code,
+            snomedSpecimenCode: analyte.snomed_specimen_code,
+            alternateUnit: analyte.alternate_unit,
+            molarMass: analyte.molar_mass,
+            unitConversionFactor: analyte.unit_conversion_factor,
             interpretation: analyte.interpretation,
             category: analyte.category,
             isActive: analyte.is_active ?? true,
@@ -83,6 +100,8 @@ const Tests: React.FC = () => {
             createdDate: group.created_at,
             default_ai_processing_type: group.default_ai_processing_type,
             group_level_prompt: group.group_level_prompt,
+            loincCode: group.loinc_code,
+            snomedSpecimenCode: group.snomed_specimen_code,
             analytes: group.test_group_analytes ? group.test_group_analytes.map(tga => tga.analyte_id) : []
           }));
           setTestGroups(transformedTestGroups);
@@ -162,6 +181,19 @@ const Tests: React.FC = () => {
         reference_range: formData.referenceRange,
         low_critical: formData.lowCritical,
         high_critical: formData.highCritical,
+        delta_check_absolute: formData.deltaCheckAbsolute,
+        delta_check_percent: formData.deltaCheckPercent,
+        delta_check_window_days: formData.deltaCheckWindowDays,
+        is_calculated: formData.isCalculated,
+        formula: formData.formula,
+        formula_variables: formData.formulaVariables,
+        formula_validity: formData.formulaValidity,
+        formula_decimals: formData.formulaDecimals,
+        loinc_code: formData.loincCode,
+        snomed_specimen_code: formData.snomedSpecimenCode,
+        alternate_unit: formData.alternateUnit,
+        molar_mass: formData.molarMass,
+        unit_conversion_factor: formData.unitConversionFactor,
         interpretation_low: formData.interpretation?.low,
         interpretation_normal: formData.interpretation?.normal,
         interpretation_high: formData.interpretation?.high,
@@ -176,6 +208,11 @@ const Tests: React.FC = () => {
       }
       
       if (newAnalyte) {
+        if (formData.referenceRanges?.length) {
+          const { error: rangesError } = await database.referenceRanges.replaceForAnalyte(newAnalyte.id, formData.referenceRanges, formData.referenceRangesLabId);
+          if (rangesError) console.error('Error saving reference ranges:', rangesError);
+        }
+
         // Transform and add to local state for immediate UI update
         const transformedAnalyte = {
           id: newAnalyte.id,
@@ -184,6 +221,19 @@ const Tests: React.FC = () => {
           referenceRange: newAnalyte.reference_range,
           lowCritical: newAnalyte.low_critical,
           highCritical: newAnalyte.high_critical,
+          deltaCheckAbsolute: newAnalyte.delta_check_absolute,
+          deltaCheckPercent: newAnalyte.delta_check_percent,
+          deltaCheckWindowDays: newAnalyte.delta_check_window_days,
+          isCalculated: newAnalyte.is_calculated ?? false,
+          formula: newAnalyte.formula,
+          formulaVariables: newAnalyte.formula_variables || [],
+          formulaValidity: newAnalyte.formula_validity,
+          formulaDecimals: newAnalyte.formula_decimals,
+          loincCode: newAnalyte.loinc_code,
+          snomedSpecimenCode: newAnalyte.snomed_specimen_code,
+          alternateUnit: newAnalyte.alternate_unit,
+          molarMass: newAnalyte.molar_mass,
+          unitConversionFactor: newAnalyte.unit_conversion_factor,
           interpretation: newAnalyte.interpretation_low || '', // Simplified for localStorage interface
           category: newAnalyte.category,
           isActive: newAnalyte.is_active,
@@ -342,6 +392,8 @@ const Tests: React.FC = () => {
             price: completeTestGroup.price,
             default_ai_processing_type: completeTestGroup.default_ai_processing_type,
             group_level_prompt: completeTestGroup.group_level_prompt,
+            loincCode: completeTestGroup.loinc_code,
+            snomedSpecimenCode: completeTestGroup.snomed_specimen_code,
             analytes: completeTestGroup.test_group_analytes ? 
               completeTestGroup.test_group_analytes.map((tga: any) => tga.analyte_id) : []
           } : g));
@@ -369,6 +421,19 @@ const Tests: React.FC = () => {
         reference_range: formData.referenceRange,
         low_critical: formData.lowCritical,
         high_critical: formData.highCritical,
+        delta_check_absolute: formData.deltaCheckAbsolute,
+        delta_check_percent: formData.deltaCheckPercent,
+        delta_check_window_days: formData.deltaCheckWindowDays,
+        is_calculated: formData.isCalculated,
+        formula: formData.formula,
+        formula_variables: formData.formulaVariables,
+        formula_validity: formData.formulaValidity,
+        formula_decimals: formData.formulaDecimals,
+        loinc_code: formData.loincCode,
+        snomed_specimen_code: formData.snomedSpecimenCode,
+        alternate_unit: formData.alternateUnit,
+        molar_mass: formData.molarMass,
+        unit_conversion_factor: formData.unitConversionFactor,
         interpretation_low: formData.interpretation?.low,
         interpretation_normal: formData.interpretation?.normal,
         interpretation_high: formData.interpretation?.high,
@@ -383,6 +448,13 @@ const Tests: React.FC = () => {
       }
       
       if (updatedAnalyte) {
+        const { error: rangesError } = await database.referenceRanges.replaceForAnalyte(
+          updatedAnalyte.id,
+          formData.referenceRanges || [],
+          formData.referenceRangesLabId
+        );
+        if (rangesError) console.error('Error saving reference ranges:', rangesError);
+
         // Transform and update local state
         const transformedAnalyte = {
           id: updatedAnalyte.id,
@@ -391,6 +463,19 @@ const Tests: React.FC = () => {
           referenceRange: updatedAnalyte.reference_range,
           lowCritical: updatedAnalyte.low_critical,
           highCritical: updatedAnalyte.high_critical,
+          deltaCheckAbsolute: updatedAnalyte.delta_check_absolute,
+          deltaCheckPercent: updatedAnalyte.delta_check_percent,
+          deltaCheckWindowDays: updatedAnalyte.delta_check_window_days,
+          isCalculated: updatedAnalyte.is_calculated ?? false,
+          formula: updatedAnalyte.formula,
+          formulaVariables: updatedAnalyte.formula_variables || [],
+          formulaValidity: updatedAnalyte.formula_validity,
+          formulaDecimals: updatedAnalyte.formula_decimals,
+          loincCode: updatedAnalyte.loinc_code,
+          snomedSpecimenCode: updatedAnalyte.snomed_specimen_code,
+          alternateUnit: updatedAnalyte.alternate_unit,
+          molarMass: updatedAnalyte.molar_mass,
+          unitConversionFactor: updatedAnalyte.unit_conversion_factor,
           interpretation: updatedAnalyte.interpretation_low || '', // Simplified for localStorage interface
           category: updatedAnalyte.category,
           isActive: updatedAnalyte.is_active,
@@ -461,29 +546,38 @@ const Tests: React.FC = () => {
           <h1 className="text-3xl font-bold text-gray-900">Test Management System</h1>
           <p className="text-gray-600 mt-1">Manage analytes, test groups, and diagnostic panels</p>
         </div>
-        <div className="flex space-x-3">
-          <button 
-            onClick={() => setShowAnalyteForm(true)}
-            className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-          >
-            <Beaker className="h-4 w-4 mr-2" />
-            Add Analyte
-          </button>
-          <button 
-            onClick={() => setShowPackageForm(true)}
-            className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
-          >
-            <Plus className="h-5 w-5 mr-2" />
-            Create Package
-          </button>
-          <button 
-            onClick={() => setShowTestGroupForm(true)}
-            className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-          >
-            <Plus className="h-5 w-5 mr-2" />
-            Create Test Group
-          </button>
-        </div>
+        {canManageTests && (
+          <div className="flex space-x-3">
+            <button 
+              onClick={() => setShowLoincImport(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Tags className="h-4 w-4 mr-2" />
+              Import LOINC
+            </button>
+            <button 
+              onClick={() => setShowAnalyteForm(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <Beaker className="h-4 w-4 mr-2" />
+              Add Analyte
+            </button>
+            <button 
+              onClick={() => setShowPackageForm(true)}
+              className="flex items-center px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Create Package
+            </button>
+            <button 
+              onClick={() => setShowTestGroupForm(true)}
+              className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Plus className="h-5 w-5 mr-2" />
+              Create Test Group
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Tab Navigation */}
@@ -674,13 +768,15 @@ const Tests: React.FC = () => {
                         >
                           <Eye className="h-4 w-4" />
                         </button>
-                        <button 
-                          onClick={() => handleEditPackage(pkg)}
-                          className="text-gray-600 hover:text-gray-900 p-1 rounded"
-                          title="Edit Package"
-                        >
-                          <Edit className="h-4 w-4" />
-                        </button>
+                        {canManageTests && (
+                          <button 
+                            onClick={() => handleEditPackage(pkg)}
+                            className="text-gray-600 hover:text-gray-900 p-1 rounded"
+                            title="Edit Package"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
                       </td>
                     </tr>
                   );
@@ -765,13 +861,15 @@ const Tests: React.FC = () => {
                       >
                         <Eye className="h-4 w-4" />
                       </button>
-                      <button 
-                        onClick={() => handleEditTestGroup(group)}
-                        className="text-gray-600 hover:text-gray-900 p-1 rounded"
-                        title="Edit Test Group"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
+                      {canManageTests && (
+                        <button 
+                          onClick={() => handleEditTestGroup(group)}
+                          className="text-gray-600 hover:text-gray-900 p-1 rounded"
+                          title="Edit Test Group"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -842,13 +940,15 @@ const Tests: React.FC = () => {
                       >
                         <Eye className="h-4 w-4" />
                       </button>
-                      <button 
-                        onClick={() => handleEditAnalyte(analyte)}
-                        className="text-gray-600 hover:text-gray-900 p-1 rounded"
-                        title="Edit Analyte"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
+                      {canManageTests && (
+                        <button 
+                          onClick={() => handleEditAnalyte(analyte)}
+                          className="text-gray-600 hover:text-gray-900 p-1 rounded"
+                          title="Edit Analyte"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -921,13 +1021,15 @@ const Tests: React.FC = () => {
                       >
                         <Eye className="h-4 w-4" />
                       </button>
-                      <button 
-                        onClick={() => handleEditLegacyTest(test)}
-                        className="text-gray-600 hover:text-gray-900 p-1 rounded"
-                        title="Edit Test"
-                      >
-                        <Edit className="h-4 w-4" />
-                      </button>
+                      {canManageTests && (
+                        <button 
+                          onClick={() => handleEditLegacyTest(test)}
+                          className="text-gray-600 hover:text-gray-900 p-1 rounded"
+                          title="Edit Test"
+                        >
+                          <Edit className="h-4 w-4" />
+                        </button>
+                      )}
                     </td>
                   </tr>
                 ))}
@@ -1021,6 +1123,11 @@ const Tests: React.FC = () => {
         />
       )}
 
+      {/* LOINC Import Modal */}
+      {showLoincImport && (
+        <LoincImportModal onClose={() => setShowLoincImport(false)} />
+      )}
+
       {/* Analyte Form Modal */}
       {showAnalyteForm && (
         <AnalyteForm
@@ -1053,10 +1160,10 @@ const Tests: React.FC = () => {
         <TestDetailModal
           test={selectedTest}
           onClose={() => setShowTestDetail(false)}
-          onEdit={() => {
+          onEdit={canManageTests ? () => {
             setShowTestDetail(false);
             handleEditLegacyTest(selectedTest);
-          }}
+          } : undefined}
         />
       )}
 
@@ -1064,10 +1171,10 @@ const Tests: React.FC = () => {
         <AnalyteDetailModal
           analyte={selectedAnalyte}
           onClose={() => setShowAnalyteDetail(false)}
-          onEdit={() => {
+          onEdit={canManageTests ? () => {
             setShowAnalyteDetail(false);
             handleEditAnalyte(selectedAnalyte);
-          }}
+          } : undefined}
         />
       )}
 
@@ -1076,10 +1183,10 @@ const Tests: React.FC = () => {
           testGroup={selectedTestGroup}
           analytes={analytes}
           onClose={() => setShowTestGroupDetail(false)}
-          onEdit={() => {
+          onEdit={canManageTests ? () => {
             setShowTestGroupDetail(false);
             handleEditTestGroup(selectedTestGroup);
-          }}
+          } : undefined}
         />
       )}
 
@@ -1088,10 +1195,10 @@ const Tests: React.FC = () => {
           package={selectedPackage}
           testGroups={testGroups}
           onClose={() => setShowPackageDetail(false)}
-          onEdit={() => {
+          onEdit={canManageTests ? () => {
             setShowPackageDetail(false);
             handleEditPackage(selectedPackage);
-          }}
+          } : undefined}
         />
       )}
     </div>
@@ -0,0 +1,243 @@
+// Confidence gating for AI-extracted result values. Each value gets a confidence from the
+// OCR word confidences, the model and the analyte match; values at or above the analyte's
+// threshold (ai_confidence_thresholds) are prefilled as drafts, the rest go to the review
+// queue (ai_extracted_values). Reviewer and technician decisions feed per-prompt accuracy.
+
+import { format, startOfWeek } from 'date-fns';
+
+export const DEFAULT_AI_CONFIDENCE_THRESHOLD = 0.85;
+
+// Used when neither the OCR words nor the model report a confidence
+const FALLBACK_CONFIDENCE = 0.95;
+
+export interface AiConfidenceThreshold {
+  id?: string;
+  lab_id: string | null;
+  analyte_id: string | null;
+  threshold: number;
+}
+
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A word from the vision-ocr response
+export interface OcrWord {
+  text: string;
+  confidence: number | null;
+  box: ImageRegion;
+}
+
+export type AiExtractionStatus = 'draft' | 'pending_review' | 'accepted' | 'corrected' | 'rejected';
+
+// A value from one AI run, as recorded in ai_extracted_values
+export interface AiExtractionInput {
+  order_id: string;
+  attachment_id: string | null;
+  analyte_id: string | null;
+  parameter: string;
+  value: string;
+  unit: string | null;
+  confidence: number;
+  threshold: number;
+  crop: ImageRegion | null;
+  ai_processing_type: string;
+  prompt_key: string;
+  status: 'draft' | 'pending_review';
+}
+
+export const DECIDED_STATUSES: AiExtractionStatus[] = ['accepted', 'corrected', 'rejected'];
+
+/**
+ * Most specific threshold for an analyte: the lab's analyte setting, the lab default, the
+ * shared analyte setting, the shared default, then DEFAULT_AI_CONFIDENCE_THRESHOLD.
+ * `thresholds` are the rows visible to the lab (its own and shared ones).
+ */
+export const resolveConfidenceThreshold = (
+  thresholds: AiConfidenceThreshold[],
+  analyteId?: string | null
+): number => {
+  const rank = (t: AiConfidenceThreshold) => {
+    if (t.analyte_id && t.analyte_id !== analyteId) return -1;
+    return (t.lab_id ? 2 : 0) + (t.analyte_id ? 1 : 0);
+  };
+  const best = thresholds.reduce<AiConfidenceThreshold | null>(
+    (current, t) => (rank(t) >= 0 && (!current || rank(t) > rank(current)) ? t : current),
+    null
+  );
+  return best ? Number(best.threshold) : DEFAULT_AI_CONFIDENCE_THRESHOLD;
+};
+
+const normalizeToken = (text: string) => text.toLowerCase().replace(/[^a-z0-9.]/g, '');
+
+const sameLine = (a: ImageRegion, b: ImageRegion) => {
+  const overlap = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  return overlap > Math.min(a.height, b.height) / 2;
+};
+
+const union = (regions: ImageRegion[]): ImageRegion => {
+  const x = Math.min(...regions.map(r => r.x));
+  const y = Math.min(...regions.map(r => r.y));
+  return {
+    x,
+    y,
+    width: Math.max(...regions.map(r => r.x + r.width)) - x,
+    height: Math.max(...regions.map(r => r.y + r.height)) - y,
+  };
+};
+
+// Runs of consecutive words whose joined text is the value (OCR may split "13.5" into 13 . 5)
+const findValueRuns = (words: OcrWord[], value: string): OcrWord[][] => {
+  const target = normalizeToken(value);
+  if (!target) return [];
+  const runs: OcrWord[][] = [];
+  for (let i = 0; i < words.length; i++) {
+    let joined = '';
+    for (let j = i; j < Math.min(words.length, i + 4); j++) {
+      joined += normalizeToken(words[j].text);
+      if (joined === target) {
+        runs.push(words.slice(i, j + 1));
+        break;
+      }
+      if (!target.startsWith(joined)) break;
+    }
+  }
+  return runs;
+};
+
+/**
+ * Finds where a parameter's value was read in the image: the value's words on the same line as
+ * the parameter name (nearest to its right). Returns the padded line region for cropping and the
+ * lowest OCR confidence of those words, or nulls when the value cannot be located.
+ */
+export const locateExtractedValue = (
+  words: OcrWord[] | undefined,
+  parameter: string,
+  value: string
+): { crop: ImageRegion | null; ocrConfidence: number | null } => {
+  const runs = findValueRuns(words || [], value);
+  if (!words?.length || runs.length === 0) return { crop: null, ocrConfidence: null };
+
+  const nameTokens = parameter.split(/\s+/).map(normalizeToken).filter(Boolean);
+  const nameWords = words.filter(w => nameTokens.includes(normalizeToken(w.text)));
+
+  let best: { run: OcrWord[]; label: OcrWord[]; distance: number } | null = null;
+  for (const run of runs) {
+    const runBox = union(run.map(w => w.box));
+    const label = nameWords.filter(w => sameLine(w.box, runBox) && w.box.x < runBox.x);
+    const distance = label.length ? runBox.x - Math.max(...label.map(w => w.box.x + w.box.width)) : Infinity;
+    if (!best || distance < best.distance) best = { run, label, distance };
+  }
+  // Without a label on the line the value is only trusted when it appears once
+  if (!best || (best.label.length === 0 && runs.length > 1)) return { crop: null, ocrConfidence: null };
+
+  const located = [...best.label, ...best.run];
+  const region = union(located.map(w => w.box));
+  const pad = Math.round(region.height * 0.6);
+  const confidences = located.map(w => w.confidence).filter((c): c is number => typeof c === 'number');
+
+  return {
+    crop: {
+      x: Math.max(0, region.x - pad),
+      y: Math.max(0, region.y - pad),
+      width: region.width + pad * 2,
+      height: region.height + pad * 2,
+    },
+    ocrConfidence: confidences.length ? Math.min(...confidences) : null,
+  };
+};
+
+/**
+ * Confidence of one extracted value: the weakest of the OCR confidence of its words (or of the
+ * whole document), the model's own confidence and the analyte match score.
+ */
+export const extractionConfidence = (sources: {
+  ocrConfidence?: number | null;
+  documentConfidence?: number | null;
+  modelConfidence?: number | null;
+  matchScore?: number | null;
+}): number => {
+  const ocr = sources.ocrConfidence ?? (sources.documentConfidence || null);
+  const known = [ocr, sources.modelConfidence, sources.matchScore]
+    .filter((c): c is number => typeof c === 'number' && c > 0)
+    .map(c => Math.min(1, c));
+  return known.length ? Math.min(...known) : FALLBACK_CONFIDENCE;
+};
+
+/** Identifies the prompt a value came from; a changed custom prompt gets a new key. */
+export const promptKey = (processingType: string, prompt?: string | null): string => {
+  if (!prompt?.trim()) return `${processingType}:default`;
+  // FNV-1a, enough to tell prompt texts apart
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${processingType}:custom-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const describePromptKey = (key: string): string => {
+  const [type, variant = 'default'] = key.split(':');
+  const label = type.replace(/_/g, ' ');
+  return variant === 'default' ? `${label} · default prompt` : `${label} · custom prompt ${variant.replace('custom-', '')}`;
+};
+
+/** Whether a saved value is the AI value (numbers compare numerically). */
+export const sameResultValue = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  const left = String(a ?? '').trim();
+  const right = String(b ?? '').trim();
+  const numericLeft = Number(left.replace(/,/g, ''));
+  const numericRight = Number(right.replace(/,/g, ''));
+  if (left && right && !isNaN(numericLeft) && !isNaN(numericRight)) return numericLeft === numericRight;
+  return left.toLowerCase() === right.toLowerCase();
+};
+
+export interface PromptAccuracy {
+  prompt_key: string;
+  decided: number;
+  accepted: number;
+  corrected: number;
+  rejected: number;
+  // Share of decided values accepted unchanged
+  accuracy: number;
+  weekly: Array<{ week: string; decided: number; accuracy: number }>;
+}
+
+/** Accuracy per prompt, overall and by week, from decided ai_extracted_values rows. */
+export const summarizePromptAccuracy = (
+  rows: Array<{ prompt_key: string; status: AiExtractionStatus; created_at: string }>
+): PromptAccuracy[] => {
+  const byPrompt = new Map<string, PromptAccuracy & { weeks: Map<string, { decided: number; accepted: number }> }>();
+
+  rows.forEach(row => {
+    if (!DECIDED_STATUSES.includes(row.status)) return;
+    let summary = byPrompt.get(row.prompt_key);
+    if (!summary) {
+      summary = { prompt_key: row.prompt_key, decided: 0, accepted: 0, corrected: 0, rejected: 0, accuracy: 0, weekly: [], weeks: new Map() };
+      byPrompt.set(row.prompt_key, summary);
+    }
+    summary.decided++;
+    if (row.status === 'accepted') summary.accepted++;
+    if (row.status === 'corrected') summary.corrected++;
+    if (row.status === 'rejected') summary.rejected++;
+
+    const week = format(startOfWeek(new Date(row.created_at), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+    const bucket = summary.weeks.get(week) || { decided: 0, accepted: 0 };
+    bucket.decided++;
+    if (row.status === 'accepted') bucket.accepted++;
+    summary.weeks.set(week, bucket);
+  });
+
+  return [...byPrompt.values()]
+    .map(({ weeks, ...summary }) => ({
+      ...summary,
+      accuracy: summary.accepted / summary.decided,
+      weekly: [...weeks.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, bucket]) => ({ week, decided: bucket.decided, accuracy: bucket.accepted / bucket.decided })),
+    }))
+    .sort((a, b) => b.decided - a.decided);
+};
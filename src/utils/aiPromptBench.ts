@@ -0,0 +1,303 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase, database } from './supabase';
+import { sameResultValue } from './aiConfidence';
+import { AIProcessingType } from './aiPromptResolver';
+
+// Test bench for ai_prompts: runs a candidate prompt and the active prompt through
+// ai-document-processor on stored attachments with known correct values and scores
+// each expected field, so a version is only promoted when it does at least as well.
+
+export interface BenchExpectedValue {
+  analyte_id: string | null;
+  parameter: string;
+  value: string;
+  unit?: string | null;
+}
+
+export interface AIPromptTestCase {
+  id: string;
+  lab_id: string | null;
+  ai_processing_type: AIProcessingType;
+  name: string;
+  attachment_id: string;
+  order_id: string | null;
+  source_text: string;
+  expected_values: BenchExpectedValue[];
+  created_at: string;
+}
+
+export interface BenchFieldOutcome {
+  parameter: string;
+  expected: string;
+  unit: string | null;
+  baseline: string | null;
+  candidate: string | null;
+  baseline_correct: boolean;
+  candidate_correct: boolean;
+}
+
+export interface BenchCaseOutcome {
+  case_id: string;
+  name: string;
+  fields: BenchFieldOutcome[];
+  baseline_error: string | null;
+  candidate_error: string | null;
+}
+
+export interface AIPromptBenchRun {
+  id: string;
+  prompt_id: string;
+  candidate_version_id: string;
+  baseline_version_id: string | null;
+  case_count: number;
+  field_count: number;
+  candidate_correct: number;
+  baseline_correct: number;
+  results: BenchCaseOutcome[];
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface BenchSummary {
+  case_count: number;
+  field_count: number;
+  baseline_correct: number;
+  candidate_correct: number;
+}
+
+type ApprovedResultValue = BenchExpectedValue & { is_calculated?: boolean | null };
+
+type ExtractedData = Record<string, { value?: unknown } | string | number | null>;
+
+// The document type that makes ai-document-processor resolve prompts of each processing type
+const DOCUMENT_TYPES: Partial<Record<AIProcessingType, 'pdf' | 'image' | 'color_card'>> = {
+  ocr: 'image',
+  document_analysis: 'pdf',
+  color_card: 'color_card'
+};
+
+/** Processing types whose prompts extract result values and so can be benched */
+export const BENCH_PROCESSING_TYPES = Object.keys(DOCUMENT_TYPES) as AIProcessingType[];
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * The value the model returned for an expected field; extractedData is keyed by the
+ * analyte name as the model wrote it, so names are compared loosely.
+ */
+export function extractedValueFor(extractedData: ExtractedData | undefined, expected: BenchExpectedValue): string | null {
+  if (!extractedData) return null;
+  const wanted = normalizeName(expected.parameter);
+  const key = Object.keys(extractedData).find(k => normalizeName(k) === wanted);
+  if (key === undefined) return null;
+  const entry = extractedData[key];
+  const value = entry !== null && typeof entry === 'object' ? entry.value : entry;
+  return value === undefined || value === null ? null : String(value);
+}
+
+export function scoreBenchCase(
+  testCase: AIPromptTestCase,
+  baseline: ExtractedData | undefined,
+  candidate: ExtractedData | undefined
+): BenchFieldOutcome[] {
+  return testCase.expected_values.map(expected => {
+    const baselineValue = extractedValueFor(baseline, expected);
+    const candidateValue = extractedValueFor(candidate, expected);
+    return {
+      parameter: expected.parameter,
+      expected: expected.value,
+      unit: expected.unit || null,
+      baseline: baselineValue,
+      candidate: candidateValue,
+      baseline_correct: baselineValue !== null && sameResultValue(baselineValue, expected.value),
+      candidate_correct: candidateValue !== null && sameResultValue(candidateValue, expected.value)
+    };
+  });
+}
+
+export function summarizeBench(outcomes: BenchCaseOutcome[]): BenchSummary {
+  const fields = outcomes.flatMap(o => o.fields);
+  return {
+    case_count: outcomes.length,
+    field_count: fields.length,
+    baseline_correct: fields.filter(f => f.baseline_correct).length,
+    candidate_correct: fields.filter(f => f.candidate_correct).length
+  };
+}
+
+async function extractWithPrompt(
+  processingType: AIProcessingType,
+  content: string,
+  prompt: string
+): Promise<ExtractedData> {
+  const { data, error } = await supabase.functions.invoke('ai-document-processor', {
+    body: { documentType: DOCUMENT_TYPES[processingType], content, customPrompt: prompt }
+  });
+  if (error) throw new Error(error.message);
+  if (!data?.success) throw new Error(data?.error || 'AI document processing failed');
+  return data.data?.extractedData || {};
+}
+
+/**
+ * Runs both prompts on every test case, one case at a time. A failed call scores
+ * that prompt's fields as wrong and is reported on the case.
+ */
+export async function runPromptBench(
+  processingType: AIProcessingType,
+  prompts: { baseline: string; candidate: string },
+  cases: AIPromptTestCase[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BenchCaseOutcome[]> {
+  if (!DOCUMENT_TYPES[processingType]) {
+    throw new Error(`Prompts for ${processingType} do not extract result values and cannot be benched`);
+  }
+
+  const outcomes: BenchCaseOutcome[] = [];
+  for (const testCase of cases) {
+    const [baseline, candidate] = await Promise.allSettled([
+      extractWithPrompt(processingType, testCase.source_text, prompts.baseline),
+      extractWithPrompt(processingType, testCase.source_text, prompts.candidate)
+    ]);
+    const errorOf = (outcome: PromiseSettledResult<ExtractedData>) =>
+      outcome.status === 'rejected' ? (outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason)) : null;
+
+    outcomes.push({
+      case_id: testCase.id,
+      name: testCase.name,
+      fields: scoreBenchCase(
+        testCase,
+        baseline.status === 'fulfilled' ? baseline.value : undefined,
+        candidate.status === 'fulfilled' ? candidate.value : undefined
+      ),
+      baseline_error: errorOf(baseline),
+      candidate_error: errorOf(candidate)
+    });
+    onProgress?.(outcomes.length, cases.length);
+  }
+  return outcomes;
+}
+
+/**
+ * Test cases for a processing type visible to the lab (its own and shared ones)
+ */
+export async function getPromptTestCases(
+  processingType: AIProcessingType
+): Promise<{ data: AIPromptTestCase[] | null; error: PostgrestError | null }> {
+  const labId = await database.getCurrentUserLabId();
+  let query = supabase
+    .from('ai_prompt_test_cases')
+    .select('*')
+    .eq('ai_processing_type', processingType);
+  query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+  return await query.order('created_at');
+}
+
+/**
+ * Adds an order's latest attachment as a test case. The known values come from the
+ * order's approved result, and the attachment's OCR text is captured once so every
+ * bench run sees the same input.
+ */
+export async function createPromptTestCaseFromOrder(
+  sampleId: string,
+  processingType: AIProcessingType,
+  name?: string
+): Promise<{ data: AIPromptTestCase | null; error: Error | null }> {
+  const { data: order, error: orderError } = await database.orders.getBySampleId(sampleId.trim());
+  if (orderError || !order) {
+    return { data: null, error: orderError || new Error(`No order with sample ID ${sampleId}`) };
+  }
+
+  const { data: attachments, error: attachmentError } = await supabase
+    .from('attachments')
+    .select('id, original_filename')
+    .eq('related_table', 'orders')
+    .eq('related_id', order.id)
+    .order('created_at', { ascending: false })
+    .limit(1);
+  if (attachmentError) return { data: null, error: attachmentError };
+  const attachment = attachments?.[0];
+  if (!attachment) return { data: null, error: new Error(`Order ${sampleId} has no attached document`) };
+
+  const { data: results, error: resultsError } = await database.results.getByOrderId(order.id);
+  if (resultsError) return { data: null, error: resultsError };
+  const approved = (results || []).find((r: { status?: string; verification_status?: string }) => r.status === 'Approved' || r.verification_status === 'verified');
+  if (!approved?.result_values?.length) {
+    return { data: null, error: new Error(`Order ${sampleId} has no approved result to use as known values`) };
+  }
+
+  const { data: ocr, error: ocrError } = await supabase.functions.invoke('vision-ocr', {
+    body: { attachmentId: attachment.id, documentType: 'printed-report', analysisType: 'text' }
+  });
+  if (ocrError) return { data: null, error: ocrError };
+  if (!ocr?.fullText?.trim()) return { data: null, error: new Error('No text could be read from the attachment') };
+
+  const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+  return await supabase
+    .from('ai_prompt_test_cases')
+    .insert({
+      lab_id: labId,
+      ai_processing_type: processingType,
+      name: name?.trim() || `${order.sample_id || sampleId} ${order.patient_name}`,
+      attachment_id: attachment.id,
+      order_id: order.id,
+      source_text: ocr.fullText,
+      expected_values: (approved.result_values as ApprovedResultValue[])
+        .filter(rv => !rv.is_calculated)
+        .map(rv => ({ analyte_id: rv.analyte_id, parameter: rv.parameter, value: rv.value, unit: rv.unit })),
+      created_by: user?.id || null
+    })
+    .select()
+    .single();
+}
+
+export async function updatePromptTestCaseExpected(
+  id: string,
+  expectedValues: BenchExpectedValue[]
+): Promise<{ data: AIPromptTestCase | null; error: PostgrestError | null }> {
+  return await supabase
+    .from('ai_prompt_test_cases')
+    .update({ expected_values: expectedValues })
+    .eq('id', id)
+    .select()
+    .single();
+}
+
+export async function deletePromptTestCase(id: string): Promise<{ error: PostgrestError | null }> {
+  const { error } = await supabase
+    .from('ai_prompt_test_cases')
+    .delete()
+    .eq('id', id);
+  return { error };
+}
+
+export async function saveBenchRun(run: {
+  promptId: string;
+  candidateVersionId: string;
+  baselineVersionId: string | null;
+  outcomes: BenchCaseOutcome[];
+}): Promise<{ data: AIPromptBenchRun | null; error: PostgrestError | null }> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return await supabase
+    .from('ai_prompt_bench_runs')
+    .insert({
+      prompt_id: run.promptId,
+      candidate_version_id: run.candidateVersionId,
+      baseline_version_id: run.baselineVersionId,
+      ...summarizeBench(run.outcomes),
+      results: run.outcomes,
+      created_by: user?.id || null
+    })
+    .select()
+    .single();
+}
+
+/**
+ * Bench runs of a prompt, newest first
+ */
+export async function getBenchRuns(promptId: string): Promise<{ data: AIPromptBenchRun[] | null; error: PostgrestError | null }> {
+  return await supabase
+    .from('ai_prompt_bench_runs')
+    .select('*')
+    .eq('prompt_id', promptId)
+    .order('created_at', { ascending: false });
+}
@@ -1,3 +1,4 @@
+import type { PostgrestError } from '@supabase/supabase-js';
 import { supabase } from './supabase';
 
 export interface AIPromptMatch {
@@ -77,8 +78,40 @@ export async function getAIPromptWithFallback(
   };
 }
 
+export interface AIPrompt {
+  id: string;
+  ai_processing_type: AIProcessingType;
+  prompt: string;
+  test_id: string | null;
+  analyte_id: string | null;
+  lab_id: string | null;
+  default: boolean;
+  active_version: number | null;
+  created_at: string;
+  updated_at: string | null;
+}
+
+// ai_prompts row with the names of the test, analyte and lab it is scoped to
+export interface AIPromptListItem extends AIPrompt {
+  test_groups?: { name: string } | null;
+  analytes?: { name: string } | null;
+  labs?: { name: string } | null;
+}
+
+export interface AIPromptVersion {
+  id: string;
+  prompt_id: string;
+  version: number;
+  prompt: string;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
 /**
- * Create or update an AI prompt override
+ * Create or update an AI prompt override. Every change of text is kept as a new
+ * version in ai_prompt_versions and becomes the active version; save_ai_prompt does
+ * the lookup, insert and versioning in one transaction.
  */
 export async function upsertAIPrompt(
   processingType: AIProcessingType,
@@ -88,46 +121,76 @@ export async function upsertAIPrompt(
     analyteId?: string;
     labId?: string;
     isDefault?: boolean;
+    changeNote?: string;
   } = {}
-): Promise<{ data: any; error: any }> {
-  const { testId, analyteId, labId, isDefault = false } = options;
+): Promise<{ data: AIPrompt | null; error: PostgrestError | null }> {
+  const { testId, analyteId, labId, isDefault = false, changeNote } = options;
 
-  // Check if a prompt already exists with this combination
-  const { data: existing } = await supabase
+  return await supabase
+    .rpc('save_ai_prompt', {
+      p_processing_type: processingType,
+      p_prompt: prompt,
+      p_test_id: testId || null,
+      p_analyte_id: analyteId || null,
+      p_lab_id: labId || null,
+      p_is_default: isDefault,
+      p_change_note: changeNote || null
+    })
+    .single<AIPrompt>();
+}
+
+/**
+ * Saves a new version of a prompt as a candidate; it is only put in use once promoted
+ * from the test bench. Versions are numbered in the database so concurrent saves do not collide.
+ */
+export async function createAIPromptVersion(
+  promptId: string,
+  prompt: string,
+  changeNote?: string
+): Promise<{ data: AIPromptVersion | null; error: PostgrestError | null }> {
+  return await supabase
+    .rpc('save_ai_prompt_version', {
+      p_prompt_id: promptId,
+      p_prompt: prompt,
+      p_change_note: changeNote || null,
+      p_activate: false
+    })
+    .single<AIPromptVersion>();
+}
+
+/**
+ * Puts a version in use: its text becomes ai_prompts.prompt, which resolve_ai_prompt
+ * returns. Used to promote a candidate and to roll back to an earlier version.
+ */
+export async function activateAIPromptVersion(
+  promptId: string,
+  versionId: string
+): Promise<{ data: AIPrompt | null; error: PostgrestError | null }> {
+  const { data: version, error: versionError } = await supabase
+    .from('ai_prompt_versions')
+    .select('version, prompt')
+    .eq('id', versionId)
+    .eq('prompt_id', promptId)
+    .single();
+  if (versionError) return { data: null, error: versionError };
+
+  return await supabase
     .from('ai_prompts')
-    .select('id')
-    .eq('ai_processing_type', processingType)
-    .eq('test_id', testId || null)
-    .eq('analyte_id', analyteId || null)
-    .eq('lab_id', labId || null)
-    .eq('default', isDefault)
-    .maybeSingle();
-
-  const promptData = {
-    ai_processing_type: processingType,
-    prompt,
-    test_id: testId || null,
-    analyte_id: analyteId || null,
-    lab_id: labId || null,
-    default: isDefault
-  };
+    .update({ prompt: version.prompt, active_version: version.version, updated_at: new Date().toISOString() })
+    .eq('id', promptId)
+    .select()
+    .single<AIPrompt>();
+}
 
-  if (existing) {
-    // Update existing prompt
-    return await supabase
-      .from('ai_prompts')
-      .update(promptData)
-      .eq('id', existing.id)
-      .select()
-      .single();
-  } else {
-    // Insert new prompt
-    return await supabase
-      .from('ai_prompts')
-      .insert(promptData)
-      .select()
-      .single();
-  }
+/**
+ * Version history of a prompt, newest first
+ */
+export async function getAIPromptVersions(promptId: string): Promise<{ data: AIPromptVersion[] | null; error: PostgrestError | null }> {
+  return await supabase
+    .from('ai_prompt_versions')
+    .select('*')
+    .eq('prompt_id', promptId)
+    .order('version', { ascending: false });
 }
 
 /**
@@ -136,7 +199,7 @@ export async function upsertAIPrompt(
 export async function getAIPrompts(
   processingType?: AIProcessingType,
   labId?: string
-): Promise<{ data: any[]; error: any }> {
+): Promise<{ data: AIPromptListItem[] | null; error: PostgrestError | null }> {
   let query = supabase
     .from('ai_prompts')
     .select(`
@@ -147,7 +210,9 @@ export async function getAIPrompts(
       analyte_id,
       lab_id,
       "default",
+      active_version,
       created_at,
+      updated_at,
       test_groups!ai_prompts_test_id_fkey (name),
       analytes!ai_prompts_analyte_id_fkey (name),
       labs!ai_prompts_lab_id_fkey (name)
@@ -162,7 +227,7 @@ export async function getAIPrompts(
     query = query.or(`lab_id.eq.${labId},lab_id.is.null`);
   }
 
-  return await query;
+  return await query.overrideTypes<AIPromptListItem[], { merge: false }>();
 }
 
 /**
@@ -0,0 +1,130 @@
+import { format } from 'date-fns';
+
+// Rows of ai_usage_logs written by the AI edge functions, one per Gemini or Vision call
+
+export interface AiUsageLog {
+  id: string;
+  user_id: string | null;
+  function_name: string | null;
+  processing_type: string;
+  model: string | null;
+  tokens_used: number | null;
+  cost_usd: number | string | null;
+  processing_time_ms: number | null;
+  error_message: string | null;
+  created_at: string;
+}
+
+export interface AiUsageQuota {
+  id: string;
+  lab_id: string;
+  monthly_call_limit: number | null;
+  monthly_cost_limit_usd: number | string | null;
+  updated_at: string;
+}
+
+export interface AiUsageTotals {
+  calls: number;
+  tokens: number;
+  cost: number;
+  errors: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+}
+
+export interface AiUsageDay extends AiUsageTotals {
+  day: string;
+}
+
+export interface AiUsageBreakdown extends AiUsageTotals {
+  key: string;
+}
+
+export interface AiUsageSummary {
+  totals: AiUsageTotals;
+  byDay: AiUsageDay[];
+  byProcessingType: AiUsageBreakdown[];
+  byFunction: AiUsageBreakdown[];
+  recentErrors: AiUsageLog[];
+}
+
+// numeric columns come back from PostgREST as strings
+const toNumber = (value: number | string | null | undefined) => Number(value) || 0;
+
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+}
+
+export function totalAiUsage(logs: AiUsageLog[]): AiUsageTotals {
+  const latencies = logs
+    .map(l => l.processing_time_ms)
+    .filter((ms): ms is number => typeof ms === 'number')
+    .sort((a, b) => a - b);
+  return {
+    calls: logs.length,
+    tokens: logs.reduce((sum, l) => sum + (l.tokens_used || 0), 0),
+    cost: logs.reduce((sum, l) => sum + toNumber(l.cost_usd), 0),
+    errors: logs.filter(l => l.error_message).length,
+    avgLatencyMs: latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null,
+    p95LatencyMs: percentile(latencies, 95),
+  };
+}
+
+function breakdown(logs: AiUsageLog[], keyOf: (log: AiUsageLog) => string): AiUsageBreakdown[] {
+  const groups = new Map<string, AiUsageLog[]>();
+  for (const log of logs) {
+    const key = keyOf(log);
+    groups.set(key, [...(groups.get(key) || []), log]);
+  }
+  return [...groups.entries()]
+    .map(([key, group]) => ({ key, ...totalAiUsage(group) }))
+    .sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+}
+
+/**
+ * Totals, a daily series (days without calls included) and per type/function breakdowns
+ * of the calls made since `since`
+ */
+export function summarizeAiUsage(logs: AiUsageLog[], since: Date, until: Date = new Date()): AiUsageSummary {
+  const byDayKey = new Map<string, AiUsageLog[]>();
+  for (let day = new Date(since); day <= until; day.setDate(day.getDate() + 1)) {
+    byDayKey.set(format(day, 'yyyy-MM-dd'), []);
+  }
+  for (const log of logs) {
+    const key = format(new Date(log.created_at), 'yyyy-MM-dd');
+    byDayKey.set(key, [...(byDayKey.get(key) || []), log]);
+  }
+
+  return {
+    totals: totalAiUsage(logs),
+    byDay: [...byDayKey.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([day, group]) => ({ day, ...totalAiUsage(group) })),
+    byProcessingType: breakdown(logs, l => l.processing_type),
+    byFunction: breakdown(logs, l => l.function_name || 'unknown'),
+    recentErrors: logs
+      .filter(l => l.error_message)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .slice(0, 10),
+  };
+}
+
+/** Share of each monthly limit used so far; null where the quota sets no limit */
+export function quotaUsage(
+  quota: Pick<AiUsageQuota, 'monthly_call_limit' | 'monthly_cost_limit_usd'> | null,
+  month: Pick<AiUsageTotals, 'calls' | 'cost'>
+): { calls: number | null; cost: number | null } {
+  const callLimit = quota?.monthly_call_limit ?? null;
+  const costLimit = quota?.monthly_cost_limit_usd ?? null;
+  return {
+    calls: callLimit === null ? null : callLimit > 0 ? month.calls / callLimit : 1,
+    cost: costLimit === null ? null : toNumber(costLimit) > 0 ? month.cost / toNumber(costLimit) : 1,
+  };
+}
+
+/** Start of the current quota month; quotas reset on the first of the month in UTC */
+export function quotaMonthStart(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
@@ -0,0 +1,65 @@
+// Audit trail entries written by the audit_row_change trigger into audit_logs
+
+export type AuditedTable = 'patients' | 'orders' | 'results' | 'result_values' | 'invoices' | 'payments';
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditLogEntry {
+  id: string;
+  seq: number;
+  lab_id: string | null;
+  table_name: AuditedTable;
+  record_id: string;
+  action: AuditAction;
+  old_values: Record<string, unknown> | null;
+  new_values: Record<string, unknown> | null;
+  user_id: string | null;
+  user_email: string | null;
+  timestamp: string;
+  prev_hash: string | null;
+  row_hash: string;
+}
+
+// Result of verify_audit_chain(): a broken entry is only set when the chain does not hold
+export interface AuditChainCheck {
+  entries_checked: number;
+  broken_entry_id: string | null;
+  broken_seq: number | null;
+  problem: string | null;
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export const AUDITED_TABLES: Record<AuditedTable, string> = {
+  patients: 'Patients',
+  orders: 'Orders',
+  results: 'Results',
+  result_values: 'Result Values',
+  invoices: 'Invoices',
+  payments: 'Payments',
+};
+
+// Touched on every save, so they would show up in every diff
+const IGNORED_FIELDS = new Set(['updated_at']);
+
+/** Fields whose value differs between the old and new row; inserts and deletes list every field */
+export function diffAuditValues(
+  oldValues: Record<string, unknown> | null,
+  newValues: Record<string, unknown> | null
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(oldValues || {}), ...Object.keys(newValues || {})]);
+  return Array.from(fields)
+    .filter(field => !IGNORED_FIELDS.has(field))
+    .map(field => ({ field, before: oldValues?.[field] ?? null, after: newValues?.[field] ?? null }))
+    .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after))
+    .sort((a, b) => a.field.localeCompare(b.field));
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
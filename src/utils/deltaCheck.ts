@@ -0,0 +1,148 @@
+// Delta check: compare a new result value with the patient's previous value
+// for the same analyte. Limits are configured per analyte on `analytes`
+// (delta_check_absolute, delta_check_percent, delta_check_window_days).
+
+export interface DeltaCheckConfig {
+  delta_check_absolute?: number | string | null;
+  delta_check_percent?: number | string | null;
+  delta_check_window_days?: number | null;
+}
+
+// Shape of a row from database.results.getByPatientId
+export interface DeltaHistoryResult {
+  id: string;
+  order_id?: string | null;
+  verification_status?: string | null;
+  entered_date?: string | null;
+  created_at?: string | null;
+  result_values?: Array<{
+    analyte_id?: string | null;
+    parameter: string;
+    value: string;
+  }>;
+}
+
+export interface DeltaCheckOutcome {
+  previous_value: string | null;
+  previous_result_date: string | null;
+  delta_value: number | null;
+  delta_percent: number | null;
+  delta_flag: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EMPTY_OUTCOME: DeltaCheckOutcome = {
+  previous_value: null,
+  previous_result_date: null,
+  delta_value: null,
+  delta_percent: null,
+  delta_flag: false,
+};
+
+const toLimit = (value?: number | string | null): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = typeof value === 'number' ? value : parseFloat(value);
+  return isNaN(parsed) || parsed <= 0 ? null : parsed;
+};
+
+const parseNumeric = (value?: string | null): number | null => {
+  if (value === null || value === undefined) return null;
+  const parsed = parseFloat(String(value).replace(/[<>=,\s]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+const getResultDate = (result: DeltaHistoryResult): Date | null => {
+  const raw = result.created_at || result.entered_date;
+  if (!raw) return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Most recent earlier value for the same analyte (or parameter name when the
+// value was never linked to an analyte), limited to the configured window
+export const findPreviousValue = (
+  history: DeltaHistoryResult[],
+  current: { resultId: string; orderId?: string | null; analyteId?: string | null; parameter: string; date: Date },
+  windowDays?: number | null
+): { value: string; date: Date } | null => {
+  let best: { value: string; date: Date } | null = null;
+
+  for (const result of history) {
+    if (result.id === current.resultId) continue;
+    // Other results on the same order are re-entries, not history
+    if (current.orderId && result.order_id === current.orderId) continue;
+    if (result.verification_status === 'rejected') continue;
+
+    const date = getResultDate(result);
+    if (!date || date.getTime() >= current.date.getTime()) continue;
+    if (windowDays && current.date.getTime() - date.getTime() > windowDays * DAY_MS) continue;
+
+    const match = result.result_values?.find(rv =>
+      current.analyteId && rv.analyte_id
+        ? rv.analyte_id === current.analyteId
+        : rv.parameter?.trim().toLowerCase() === current.parameter.trim().toLowerCase()
+    );
+    if (!match || parseNumeric(match.value) === null) continue;
+
+    if (!best || date.getTime() > best.date.getTime()) {
+      best = { value: match.value, date };
+    }
+  }
+
+  return best;
+};
+
+// Evaluate a value against its previous value; flags when either limit is exceeded
+export const evaluateDelta = (
+  currentValue: string,
+  previousValue: string,
+  config: DeltaCheckConfig
+): Pick<DeltaCheckOutcome, 'delta_value' | 'delta_percent' | 'delta_flag'> => {
+  const current = parseNumeric(currentValue);
+  const previous = parseNumeric(previousValue);
+  if (current === null || previous === null) {
+    return { delta_value: null, delta_percent: null, delta_flag: false };
+  }
+
+  const deltaValue = Math.round((current - previous) * 10000) / 10000;
+  const deltaPercent = previous !== 0 ? Math.round((deltaValue / Math.abs(previous)) * 10000) / 100 : null;
+
+  const absoluteLimit = toLimit(config.delta_check_absolute);
+  const percentLimit = toLimit(config.delta_check_percent);
+
+  const exceedsAbsolute = absoluteLimit !== null && Math.abs(deltaValue) > absoluteLimit;
+  const exceedsPercent = percentLimit !== null && deltaPercent !== null && Math.abs(deltaPercent) > percentLimit;
+
+  return {
+    delta_value: deltaValue,
+    delta_percent: deltaPercent,
+    delta_flag: exceedsAbsolute || exceedsPercent,
+  };
+};
+
+// Full check for one result value; analytes without limits still record the prior value
+export const runDeltaCheck = (
+  history: DeltaHistoryResult[],
+  current: { resultId: string; orderId?: string | null; analyteId?: string | null; parameter: string; value: string; date: Date },
+  config?: DeltaCheckConfig | null
+): DeltaCheckOutcome => {
+  const previous = findPreviousValue(history, current, config?.delta_check_window_days);
+  if (!previous) return { ...EMPTY_OUTCOME };
+
+  return {
+    previous_value: previous.value,
+    previous_result_date: previous.date.toISOString(),
+    ...evaluateDelta(current.value, previous.value, config || {}),
+  };
+};
+
+// "+1.2 (+15%)" style text for approval screens
+export const formatDelta = (deltaValue?: number | null, deltaPercent?: number | null): string => {
+  if (deltaValue === null || deltaValue === undefined) return '';
+  const sign = deltaValue > 0 ? '+' : '';
+  const percent = deltaPercent !== null && deltaPercent !== undefined
+    ? ` (${deltaPercent > 0 ? '+' : ''}${deltaPercent}%)`
+    : '';
+  return `${sign}${deltaValue}${percent}`;
+};
@@ -0,0 +1,51 @@
+// Electronic signatures on results and reports, backed by the electronic_signatures table
+
+export type SignatureMeaning = 'approval' | 'release' | 'amendment';
+export type SignedRecordType = 'result' | 'order';
+
+export interface ElectronicSignature {
+  id: string;
+  lab_id: string | null;
+  user_id: string;
+  signer_name: string;
+  signer_role: string;
+  meaning: SignatureMeaning;
+  record_type: SignedRecordType;
+  record_id: string;
+  reason: string | null;
+  signed_hash: string;
+  signed_at: string;
+}
+
+// An action waiting for the user's signature; pages hold one while the signing dialog is open
+export interface SignatureRequest {
+  meaning: SignatureMeaning;
+  recordType: SignedRecordType;
+  recordIds: string[];
+  subject: string;
+  defaultReason?: string;
+  onSigned: (signatures: ElectronicSignature[]) => void | Promise<void>;
+}
+
+// What the signer attests to; shown in the signing dialog and printed with the signature
+export const SIGNATURE_MEANINGS: Record<SignatureMeaning, { label: string; statement: string }> = {
+  approval: {
+    label: 'Approved',
+    statement: 'I have reviewed these results and approve them as accurate and complete.',
+  },
+  release: {
+    label: 'Released',
+    statement: 'I authorize the release of this report to the patient and referring doctor.',
+  },
+  amendment: {
+    label: 'Amended',
+    statement: 'I am reopening these approved results for correction for the reason given.',
+  },
+};
+
+/** One line per signature for the report footer, e.g. "Approved by Dr. A (Doctor) on ... · SHA-256 1a2b3c4d…" */
+export function formatSignatureLine(signature: ElectronicSignature): string {
+  const signedAt = new Date(signature.signed_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+  const reason = signature.reason ? ` · Reason: ${signature.reason}` : '';
+  return `${SIGNATURE_MEANINGS[signature.meaning].label} by ${signature.signer_name} (${signature.signer_role}) on ${signedAt}${reason} · SHA-256 ${signature.signed_hash.slice(0, 16)}…`;
+}
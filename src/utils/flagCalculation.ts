@@ -1,10 +1,29 @@
 // Flag calculation utilities for lab results
+import {
+  AnalyteReferenceRange,
+  PatientRangeContext,
+  normalizeSex,
+  selectReferenceRange,
+  evaluateReferenceRange,
+  formatReferenceRange
+} from './referenceRanges';
+
 export interface ResultValue {
   parameter: string;
   value: string;
   unit: string;
   reference_range: string;
   flag?: string;
+  analyte_id?: string | null;
+  low_critical?: string | null;
+  high_critical?: string | null;
+}
+
+// Structured ranges keyed by analyte_id, plus the patient/order they are evaluated for
+export interface StructuredRangeContext {
+  rangesByAnalyte: Record<string, AnalyteReferenceRange[]>;
+  patient: PatientRangeContext;
+  specimenByAnalyte?: Record<string, string>; // test group sample_type per analyte
 }
 
 // Function to calculate flag based on value and reference range
@@ -21,27 +40,17 @@ export const calculateFlag = (value: string, referenceRange: string, patientGend
   // Handle gender-specific ranges like "M: >40, F: >50"
   if (range.includes('m:') && range.includes('f:')) {
     const parts = range.split(',');
-    let targetRange = '';
+    const maleRange = (parts.find(p => p.includes('m:')) || '').replace('m:', '').trim();
+    const femaleRange = (parts.find(p => p.includes('f:')) || '').replace('f:', '').trim();
+    const sex = normalizeSex(patientGender);
     
-    if (patientGender?.toUpperCase() === 'M') {
-      // Use male range
-      const maleRange = parts.find(p => p.includes('m:'));
-      if (maleRange) {
-        targetRange = maleRange.replace('m:', '').trim();
-      }
-    } else if (patientGender?.toUpperCase() === 'F') {
-      // Use female range
-      const femaleRange = parts.find(p => p.includes('f:'));
-      if (femaleRange) {
-        targetRange = femaleRange.replace('f:', '').trim();
-      }
-    } else {
-      // Default to male range if gender not specified
-      const maleRange = parts[0].replace('m:', '').trim();
-      targetRange = maleRange;
-    }
+    if (sex === 'M') return calculateFlagForRange(numericValue, maleRange);
+    if (sex === 'F') return calculateFlagForRange(numericValue, femaleRange);
     
-    return calculateFlagForRange(numericValue, targetRange);
+    // Sex unknown: only flag when the value is outside both ranges in the same direction
+    const maleFlag = calculateFlagForRange(numericValue, maleRange);
+    const femaleFlag = calculateFlagForRange(numericValue, femaleRange);
+    return maleFlag === femaleFlag ? maleFlag : '';
   }
   
   return calculateFlagForRange(numericValue, range);
@@ -89,12 +98,70 @@ const calculateFlagForRange = (value: number, range: string): string => {
   return ''; // Cannot determine flag
 };
 
-// Function to automatically calculate flags for all result values
-export const calculateFlagsForResults = (values: ResultValue[], patientGender?: string): ResultValue[] => {
-  return values.map(value => ({
+// Parse critical limits as stored on analytes ("2,000", "7.0", "<40")
+const parseCriticalLimit = (limit?: string | null): number | null => {
+  if (!limit) return null;
+  const parsed = parseFloat(String(limit).replace(/[^0-9.-]/g, ''));
+  return isNaN(parsed) ? null : parsed;
+};
+
+// Function to check whether a value crosses the analyte's low/high critical limit
+export const isCriticalValue = (value: string, lowCritical?: string | null, highCritical?: string | null): boolean => {
+  if (!value) return false;
+  const numericValue = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  if (isNaN(numericValue)) return false;
+  
+  const low = parseCriticalLimit(lowCritical);
+  const high = parseCriticalLimit(highCritical);
+  if (low !== null && numericValue <= low) return true;
+  if (high !== null && numericValue >= high) return true;
+  return false;
+};
+
+// Flag one value against its structured row (if any) or its free-text range
+const calculateRangeFlag = (
+  value: ResultValue,
+  patientGender?: string,
+  structured?: StructuredRangeContext
+): ResultValue => {
+  const rows = value.analyte_id ? structured?.rangesByAnalyte[value.analyte_id] : undefined;
+  const selected = rows && structured
+    ? selectReferenceRange(rows, {
+        ...structured.patient,
+        gender: structured.patient.gender ?? patientGender,
+        specimenType: structured.specimenByAnalyte?.[value.analyte_id!] ?? structured.patient.specimenType
+      })
+    : null;
+  
+  if (selected) {
+    const numericValue = parseFloat(value.value.replace(/[^0-9.-]/g, ''));
+    return {
+      ...value,
+      reference_range: formatReferenceRange(selected) || value.reference_range,
+      flag: value.flag || (isNaN(numericValue) ? '' : evaluateReferenceRange(numericValue, selected))
+    };
+  }
+  
+  return {
     ...value,
     flag: value.flag || calculateFlag(value.value, value.reference_range, patientGender)
-  }));
+  };
+};
+
+// Function to automatically calculate flags for all result values.
+// When structured ranges are supplied, the row matching the patient wins over the free-text range.
+// Values crossing a critical limit are always flagged 'C', whatever flag they arrived with.
+export const calculateFlagsForResults = (
+  values: ResultValue[],
+  patientGender?: string,
+  structured?: StructuredRangeContext
+): ResultValue[] => {
+  return values.map(value => {
+    const flagged = calculateRangeFlag(value, patientGender, structured);
+    return isCriticalValue(value.value, value.low_critical, value.high_critical)
+      ? { ...flagged, flag: 'C' }
+      : flagged;
+  });
 };
 
 // Function to check if any values have abnormal flags
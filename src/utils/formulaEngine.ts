@@ -0,0 +1,562 @@
+import { conversionFactor, unitsEquivalent } from './unitConversion';
+
+// Formula engine for calculated analytes (LDL, eGFR, A/G ratio, ...)
+// Expressions are parsed into a small AST and evaluated without eval/Function,
+// so a formula stored on an analyte can only do arithmetic on its inputs.
+//
+// Grammar (lowest to highest precedence):
+//   or:         and ('||' and)*
+//   and:        comparison ('&&' comparison)*
+//   comparison: additive (('<' | '<=' | '>' | '>=' | '==' | '!=') additive)?
+//   additive:   term (('+' | '-') term)*
+//   term:       unary (('*' | '/') unary)*
+//   unary:      ('-' | '+' | '!') unary | power
+//   power:      primary ('^' unary)?
+//   primary:    number | identifier | identifier '(' args ')' | '(' or ')'
+
+export interface FormulaVariable {
+  name: string;        // identifier used in the formula, e.g. "TG"
+  analyte_id: string;  // source analyte in the same test group
+  unit?: string | null; // unit the formula expects; source values are converted to it
+}
+
+export interface CalculatedAnalyteDefinition {
+  id: string;
+  name: string;
+  unit: string;
+  reference_range?: string | null;
+  formula: string;
+  formula_variables: FormulaVariable[];
+  formula_validity?: string | null; // guard that must hold, e.g. "TG <= 400"
+  formula_decimals?: number | null;
+}
+
+export interface FormulaPatientContext {
+  age?: number | null;
+  gender?: string | null;
+}
+
+export interface FormulaSourceValue {
+  analyte_id?: string | null;
+  parameter: string;
+  value: string;
+  unit?: string | null;
+}
+
+export interface CalculatedValue {
+  analyte_id: string;
+  parameter: string;
+  value: string;
+  unit: string;
+  reference_range: string;
+}
+
+export interface SkippedCalculation {
+  analyte_id: string;
+  parameter: string;
+  reason: string;
+}
+
+type Node =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'call'; name: string; args: Node[] }
+  | { type: 'unary'; op: string; operand: Node }
+  | { type: 'binary'; op: string; left: Node; right: Node };
+
+type Token = { type: 'number' | 'identifier' | 'operator' | 'paren' | 'comma'; value: string };
+
+// Own keys only, so "constructor" or "toString" never resolve to Object.prototype members
+const hasOwn = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key);
+
+// Built-in variables supplied from the patient on the order
+export const FORMULA_BUILTINS = ['age', 'female', 'male'];
+
+const FUNCTIONS: Record<string, { arity: [number, number]; fn: (...args: number[]) => number }> = {
+  min: { arity: [1, Infinity], fn: (...args) => Math.min(...args) },
+  max: { arity: [1, Infinity], fn: (...args) => Math.max(...args) },
+  abs: { arity: [1, 1], fn: (x) => Math.abs(x) },
+  sqrt: { arity: [1, 1], fn: (x) => Math.sqrt(x) },
+  ln: { arity: [1, 1], fn: (x) => Math.log(x) },
+  log10: { arity: [1, 1], fn: (x) => Math.log10(x) },
+  exp: { arity: [1, 1], fn: (x) => Math.exp(x) },
+  pow: { arity: [2, 2], fn: (x, y) => Math.pow(x, y) },
+  round: { arity: [1, 2], fn: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits },
+  if: { arity: [3, 3], fn: (cond, a, b) => (cond ? a : b) },
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const ch = expression[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    if (/[0-9.]/.test(ch)) {
+      const match = expression.slice(i).match(/^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/);
+      if (!match) throw new Error(`Invalid number at position ${i + 1}`);
+      tokens.push({ type: 'number', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = expression.slice(i).match(/^[A-Za-z_][A-Za-z0-9_]*/)!;
+      tokens.push({ type: 'identifier', value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const twoChar = expression.slice(i, i + 2);
+    if (['<=', '>=', '==', '!=', '&&', '||'].includes(twoChar)) {
+      tokens.push({ type: 'operator', value: twoChar });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/^<>!'.includes(ch)) {
+      tokens.push({ type: 'operator', value: ch });
+      i++;
+      continue;
+    }
+
+    if (ch === '(' || ch === ')') {
+      tokens.push({ type: 'paren', value: ch });
+      i++;
+      continue;
+    }
+
+    if (ch === ',') {
+      tokens.push({ type: 'comma', value: ch });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected character "${ch}" at position ${i + 1}`);
+  }
+
+  return tokens;
+};
+
+const parse = (expression: string): Node => {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOperator = (...ops: string[]) => peek()?.type === 'operator' && ops.includes(peek().value);
+  const expect = (type: Token['type'], value?: string) => {
+    const token = tokens[pos];
+    if (!token || token.type !== type || (value && token.value !== value)) {
+      throw new Error(`Expected "${value || type}"${token ? ` but found "${token.value}"` : ' at end of formula'}`);
+    }
+    pos++;
+    return token;
+  };
+
+  const parseOr = (): Node => {
+    let node = parseAnd();
+    while (isOperator('||')) {
+      pos++;
+      node = { type: 'binary', op: '||', left: node, right: parseAnd() };
+    }
+    return node;
+  };
+
+  const parseAnd = (): Node => {
+    let node = parseComparison();
+    while (isOperator('&&')) {
+      pos++;
+      node = { type: 'binary', op: '&&', left: node, right: parseComparison() };
+    }
+    return node;
+  };
+
+  const parseComparison = (): Node => {
+    const node = parseAdditive();
+    if (isOperator('<', '<=', '>', '>=', '==', '!=')) {
+      const op = tokens[pos++].value;
+      return { type: 'binary', op, left: node, right: parseAdditive() };
+    }
+    return node;
+  };
+
+  const parseAdditive = (): Node => {
+    let node = parseTerm();
+    while (isOperator('+', '-')) {
+      const op = tokens[pos++].value;
+      node = { type: 'binary', op, left: node, right: parseTerm() };
+    }
+    return node;
+  };
+
+  const parseTerm = (): Node => {
+    let node = parseUnary();
+    while (isOperator('*', '/')) {
+      const op = tokens[pos++].value;
+      node = { type: 'binary', op, left: node, right: parseUnary() };
+    }
+    return node;
+  };
+
+  const parseUnary = (): Node => {
+    if (isOperator('-', '+', '!')) {
+      const op = tokens[pos++].value;
+      return { type: 'unary', op, operand: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Node => {
+    const base = parsePrimary();
+    if (isOperator('^')) {
+      pos++;
+      // Right associative; the exponent may carry its own sign (x ^ -1.2)
+      return { type: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Node => {
+    const token = peek();
+    if (!token) throw new Error('Unexpected end of formula');
+
+    if (token.type === 'number') {
+      pos++;
+      return { type: 'number', value: parseFloat(token.value) };
+    }
+
+    if (token.type === 'identifier') {
+      pos++;
+      if (peek()?.type === 'paren' && peek().value === '(') {
+        const name = token.value.toLowerCase();
+        const fn = hasOwn(FUNCTIONS, name) ? FUNCTIONS[name] : undefined;
+        if (!fn) throw new Error(`Unknown function "${token.value}"`);
+        pos++;
+        const args: Node[] = [];
+        if (!(peek()?.type === 'paren' && peek().value === ')')) {
+          args.push(parseOr());
+          while (peek()?.type === 'comma') {
+            pos++;
+            args.push(parseOr());
+          }
+        }
+        expect('paren', ')');
+        if (args.length < fn.arity[0] || args.length > fn.arity[1]) {
+          throw new Error(`Wrong number of arguments for ${name}()`);
+        }
+        return { type: 'call', name, args };
+      }
+      return { type: 'variable', name: token.value };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      pos++;
+      const node = parseOr();
+      expect('paren', ')');
+      return node;
+    }
+
+    throw new Error(`Unexpected "${token.value}"`);
+  };
+
+  const ast = parseOr();
+  if (pos < tokens.length) {
+    throw new Error(`Unexpected "${tokens[pos].value}" after end of expression`);
+  }
+  return ast;
+};
+
+const evaluateNode = (node: Node, scope: Record<string, number>): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      if (!hasOwn(scope, node.name)) {
+        if (FORMULA_BUILTINS.includes(node.name)) {
+          throw new Error(`Patient ${node.name === 'age' ? 'age' : 'sex'} is required`);
+        }
+        throw new Error(`Missing input "${node.name}"`);
+      }
+      return scope[node.name];
+    case 'call':
+      return FUNCTIONS[node.name].fn(...node.args.map(arg => evaluateNode(arg, scope)));
+    case 'unary': {
+      const operand = evaluateNode(node.operand, scope);
+      if (node.op === '-') return -operand;
+      if (node.op === '!') return operand ? 0 : 1;
+      return operand;
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, scope);
+      const right = evaluateNode(node.right, scope);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/':
+          if (right === 0) throw new Error('Division by zero');
+          return left / right;
+        case '^': return Math.pow(left, right);
+        case '<': return left < right ? 1 : 0;
+        case '<=': return left <= right ? 1 : 0;
+        case '>': return left > right ? 1 : 0;
+        case '>=': return left >= right ? 1 : 0;
+        case '==': return left === right ? 1 : 0;
+        case '!=': return left !== right ? 1 : 0;
+        case '&&': return left && right ? 1 : 0;
+        case '||': return left || right ? 1 : 0;
+      }
+    }
+  }
+  throw new Error('Invalid expression');
+};
+
+const collectVariables = (node: Node, into: Set<string>): Set<string> => {
+  if (node.type === 'variable') into.add(node.name);
+  if (node.type === 'call') node.args.forEach(arg => collectVariables(arg, into));
+  if (node.type === 'unary') collectVariables(node.operand, into);
+  if (node.type === 'binary') {
+    collectVariables(node.left, into);
+    collectVariables(node.right, into);
+  }
+  return into;
+};
+
+// Identifiers a formula reads (excluding built-ins), for validation in the analyte editor
+export const getFormulaVariables = (expression: string): string[] =>
+  Array.from(collectVariables(parse(expression), new Set())).filter(name => !FORMULA_BUILTINS.includes(name));
+
+// Check a formula (and optional validity guard) against its variable bindings
+export const validateFormula = (
+  formula: string,
+  variables: FormulaVariable[],
+  validity?: string | null
+): string | null => {
+  try {
+    const bound = new Set(variables.map(v => v.name));
+    const names = getFormulaVariables(formula);
+    if (validity?.trim()) names.push(...getFormulaVariables(validity));
+    const unbound = names.filter(name => !bound.has(name));
+    if (unbound.length > 0) {
+      return `No source analyte selected for: ${Array.from(new Set(unbound)).join(', ')}`;
+    }
+    const missingAnalyte = variables.find(v => !v.analyte_id);
+    if (missingAnalyte) return `Select a source analyte for "${missingAnalyte.name}"`;
+    return null;
+  } catch (err) {
+    return err instanceof Error ? err.message : 'Invalid formula';
+  }
+};
+
+// Evaluate an expression against a scope of numeric inputs
+export const evaluateFormula = (
+  expression: string,
+  scope: Record<string, number>
+): { value: number | null; error: string | null } => {
+  try {
+    const value = evaluateNode(parse(expression), scope);
+    if (!isFinite(value)) return { value: null, error: 'Result is not a finite number' };
+    return { value, error: null };
+  } catch (err) {
+    return { value: null, error: err instanceof Error ? err.message : 'Invalid formula' };
+  }
+};
+
+// Source values in another unit are converted with the analyte's chemistry, so creatinine
+// entered in umol/L still feeds an eGFR formula written for mg/dL
+export const convertUnitValue = (
+  value: number,
+  fromUnit?: string | null,
+  toUnit?: string | null,
+  analyteName?: string | null
+): number | null => {
+  if (!toUnit || !fromUnit || unitsEquivalent(fromUnit, toUnit)) return value;
+  const factor = conversionFactor(fromUnit, toUnit, analyteName ? { name: analyteName, unit: toUnit } : null);
+  return factor === null ? null : value * factor;
+};
+
+const parseNumericValue = (value: string): number | null => {
+  const parsed = parseFloat(String(value).replace(/,/g, '').trim());
+  return isNaN(parsed) ? null : parsed;
+};
+
+const buildPatientScope = (patient?: FormulaPatientContext | null): Record<string, number> => {
+  const scope: Record<string, number> = {};
+  if (patient?.age !== null && patient?.age !== undefined && !isNaN(patient.age)) scope.age = patient.age;
+  const gender = patient?.gender?.trim().toUpperCase();
+  if (gender === 'F' || gender === 'FEMALE') {
+    scope.female = 1;
+    scope.male = 0;
+  } else if (gender === 'M' || gender === 'MALE') {
+    scope.female = 0;
+    scope.male = 1;
+  }
+  return scope;
+};
+
+// Compute every calculated analyte whose inputs are present in `sources`.
+// Calculated values can feed other calculated analytes, so definitions are
+// resolved repeatedly until nothing new can be computed.
+export const computeCalculatedValues = (
+  definitions: CalculatedAnalyteDefinition[],
+  sources: FormulaSourceValue[],
+  patient?: FormulaPatientContext | null
+): { values: CalculatedValue[]; skipped: SkippedCalculation[] } => {
+  const available = new Map<string, FormulaSourceValue>();
+  sources.forEach(source => {
+    if (source.analyte_id && source.value !== '' && source.value !== null && source.value !== undefined) {
+      available.set(source.analyte_id, source);
+    }
+  });
+
+  const patientScope = buildPatientScope(patient);
+  const values: CalculatedValue[] = [];
+  const pending = definitions.filter(def => !available.has(def.id));
+  const reasons = new Map<string, string>();
+
+  let progressed = true;
+  while (progressed && pending.length > 0) {
+    progressed = false;
+
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const def = pending[i];
+      const scope: Record<string, number> = { ...patientScope };
+      let blocked: string | null = null;
+
+      for (const variable of def.formula_variables || []) {
+        const source = available.get(variable.analyte_id);
+        if (!source) {
+          blocked = `Missing input ${variable.name}`;
+          break;
+        }
+        const numeric = parseNumericValue(source.value);
+        if (numeric === null) {
+          blocked = `${variable.name} is not numeric (${source.value})`;
+          break;
+        }
+        const converted = convertUnitValue(numeric, source.unit, variable.unit, source.parameter);
+        if (converted === null) {
+          blocked = `${variable.name} is in ${source.unit}, formula expects ${variable.unit}`;
+          break;
+        }
+        scope[variable.name] = converted;
+      }
+
+      if (blocked) {
+        reasons.set(def.id, blocked);
+        continue;
+      }
+
+      pending.splice(i, 1);
+      reasons.delete(def.id);
+
+      if (def.formula_validity?.trim()) {
+        const guard = evaluateFormula(def.formula_validity, scope);
+        if (guard.error || !guard.value) {
+          reasons.set(def.id, guard.error || `Not valid when ${def.formula_validity} is false`);
+          continue;
+        }
+      }
+
+      const result = evaluateFormula(def.formula, scope);
+      if (result.error || result.value === null) {
+        reasons.set(def.id, result.error || 'Formula returned no value');
+        continue;
+      }
+
+      const decimals = def.formula_decimals ?? 2;
+      const computed: CalculatedValue = {
+        analyte_id: def.id,
+        parameter: def.name,
+        value: result.value.toFixed(decimals),
+        unit: def.unit,
+        reference_range: def.reference_range || '',
+      };
+      values.push(computed);
+      available.set(def.id, computed);
+      progressed = true;
+    }
+  }
+
+  const skipped = definitions
+    .filter(def => reasons.has(def.id))
+    .map(def => ({ analyte_id: def.id, parameter: def.name, reason: reasons.get(def.id)! }));
+
+  return { values, skipped };
+};
+
+// Common derived analytes, offered as starting points in the analyte editor.
+// Variable names are placeholders; each one is bound to a source analyte when the preset is applied.
+export const FORMULA_PRESETS: Array<{
+  key: string;
+  label: string;
+  formula: string;
+  validity?: string;
+  unit: string;
+  decimals: number;
+  variables: Array<{ name: string; label: string; unit: string }>;
+}> = [
+  {
+    key: 'ldl_friedewald',
+    label: 'LDL Cholesterol (Friedewald)',
+    formula: 'TC - HDL - TG / 5',
+    validity: 'TG <= 400',
+    unit: 'mg/dL',
+    decimals: 0,
+    variables: [
+      { name: 'TC', label: 'Total Cholesterol', unit: 'mg/dL' },
+      { name: 'HDL', label: 'HDL Cholesterol', unit: 'mg/dL' },
+      { name: 'TG', label: 'Triglycerides', unit: 'mg/dL' },
+    ],
+  },
+  {
+    key: 'egfr_ckd_epi_2021',
+    label: 'eGFR (CKD-EPI 2021)',
+    formula: '142 * min(SCR / if(female, 0.7, 0.9), 1) ^ if(female, -0.241, -0.302) * max(SCR / if(female, 0.7, 0.9), 1) ^ -1.2 * 0.9938 ^ age * if(female, 1.012, 1)',
+    validity: 'age >= 18',
+    unit: 'mL/min/1.73m²',
+    decimals: 0,
+    variables: [{ name: 'SCR', label: 'Serum Creatinine', unit: 'mg/dL' }],
+  },
+  {
+    key: 'ag_ratio',
+    label: 'A/G Ratio',
+    formula: 'ALB / (TP - ALB)',
+    validity: 'TP > ALB',
+    unit: 'ratio',
+    decimals: 2,
+    variables: [
+      { name: 'ALB', label: 'Albumin', unit: 'g/dL' },
+      { name: 'TP', label: 'Total Protein', unit: 'g/dL' },
+    ],
+  },
+  {
+    key: 'indirect_bilirubin',
+    label: 'Indirect Bilirubin',
+    formula: 'TBIL - DBIL',
+    validity: 'TBIL >= DBIL',
+    unit: 'mg/dL',
+    decimals: 2,
+    variables: [
+      { name: 'TBIL', label: 'Total Bilirubin', unit: 'mg/dL' },
+      { name: 'DBIL', label: 'Direct Bilirubin', unit: 'mg/dL' },
+    ],
+  },
+  {
+    key: 'mchc',
+    label: 'MCHC',
+    formula: 'HGB / HCT * 100',
+    validity: 'HCT > 0',
+    unit: 'g/dL',
+    decimals: 1,
+    variables: [
+      { name: 'HGB', label: 'Hemoglobin', unit: 'g/dL' },
+      { name: 'HCT', label: 'Hematocrit (%)', unit: '%' },
+    ],
+  },
+];
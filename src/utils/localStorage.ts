@@ -1,4 +1,5 @@
 // Local storage utilities for LIMS data persistence
+import { FormulaVariable } from './formulaEngine';
 
 export interface Analyte {
   id: string;
@@ -7,6 +8,19 @@ export interface Analyte {
   referenceRange: string;
   lowCritical?: string;
   highCritical?: string;
+  deltaCheckAbsolute?: number | null;
+  deltaCheckPercent?: number | null;
+  deltaCheckWindowDays?: number | null;
+  isCalculated?: boolean;
+  formula?: string | null;
+  formulaVariables?: FormulaVariable[];
+  formulaValidity?: string | null;
+  formulaDecimals?: number | null;
+  loincCode?: string | null;
+  snomedSpecimenCode?: string | null;
+  alternateUnit?: string | null;
+  molarMass?: number | null;
+  unitConversionFactor?: number | null;
   interpretation: {
     low: string;
     normal: string;
@@ -35,6 +49,8 @@ export interface TestGroup {
   createdDate: string;
   default_ai_processing_type?: string;
   group_level_prompt?: string;
+  loincCode?: string | null;
+  snomedSpecimenCode?: string | null;
 }
 
 export interface Test {
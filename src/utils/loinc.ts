@@ -0,0 +1,309 @@
+/**
+ * LOINC and SNOMED CT terminology helpers: parsing a LOINC table CSV subset for import,
+ * SNOMED specimen codes for the sample types used in the lab, and the scoring behind
+ * the code suggestions in AnalyteForm and TestGroupForm.
+ */
+
+export interface LoincCode {
+  loinc_num: string;
+  component: string;
+  property: string | null;
+  time_aspct: string | null;
+  system: string | null;
+  scale_typ: string | null;
+  method_typ: string | null;
+  class: string | null;
+  long_common_name: string;
+  short_name: string | null;
+  example_ucum_units: string | null;
+  status: string | null;
+}
+
+export interface SnomedSpecimen {
+  code: string;
+  display: string;
+  // LOINC SYSTEM axis values that correspond to this specimen
+  loincSystems: string[];
+}
+
+/**
+ * SNOMED CT specimen concepts (descendants of 123038009 |Specimen|) keyed by the sample
+ * types used on test groups.
+ */
+export const SNOMED_SPECIMENS: Record<string, SnomedSpecimen> = {
+  'Blood': { code: '119297000', display: 'Blood specimen', loincSystems: ['Bld', 'BldV', 'BldA', 'BldC', 'RBC', 'WBC'] },
+  'EDTA Blood': { code: '119297000', display: 'Blood specimen', loincSystems: ['Bld', 'BldV', 'RBC', 'WBC'] },
+  'Serum': { code: '119364003', display: 'Serum specimen', loincSystems: ['Ser', 'Ser/Plas'] },
+  'Plasma': { code: '119361006', display: 'Plasma specimen', loincSystems: ['Plas', 'Ser/Plas', 'PPP'] },
+  'Urine': { code: '122575003', display: 'Urine specimen', loincSystems: ['Urine', 'Urine sed'] },
+  'CSF': { code: '258450006', display: 'Cerebrospinal fluid sample', loincSystems: ['CSF'] },
+  'Stool': { code: '119339001', display: 'Stool specimen', loincSystems: ['Stool'] },
+  'Sputum': { code: '119334006', display: 'Sputum specimen', loincSystems: ['Spt'] },
+  'Swab': { code: '257261003', display: 'Swab', loincSystems: ['XXX', 'Nph', 'Thrt'] },
+  'Saliva': { code: '119342007', display: 'Saliva specimen', loincSystems: ['Saliva'] },
+  'Tissue': { code: '119376003', display: 'Tissue specimen', loincSystems: ['Tiss'] },
+  'Body Fluid': { code: '309051001', display: 'Body fluid sample', loincSystems: ['Body fld', 'Plr fld', 'Periton fld', 'Synv fld'] },
+};
+
+export const snomedSpecimenFor = (sampleType: string | null | undefined): SnomedSpecimen | undefined => {
+  if (!sampleType) return undefined;
+  const key = Object.keys(SNOMED_SPECIMENS).find(k => k.toLowerCase() === sampleType.trim().toLowerCase());
+  return key ? SNOMED_SPECIMENS[key] : undefined;
+};
+
+export const specimenForSnomedCode = (code: string | null | undefined): SnomedSpecimen | undefined =>
+  code ? Object.values(SNOMED_SPECIMENS).find(s => s.code === code) : undefined;
+
+// LOINC numbers are digits, a hyphen and a mod-10 check digit (e.g. 2345-7)
+export const isValidLoincNumber = (value: string): boolean => {
+  const match = value.trim().match(/^(\d{1,7})-(\d)$/);
+  if (!match) return false;
+  const digits = match[1].split('').reverse().map(Number);
+  const sum = digits.reduce((total, digit, index) => {
+    if (index % 2 === 0) {
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }
+    return total + digit;
+  }, 0);
+  return (10 - (sum % 10)) % 10 === Number(match[2]);
+};
+
+const parseCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  cells.push(cell);
+  return cells;
+};
+
+// Splits CSV text into records, keeping newlines inside quoted cells
+const csvRecords = (text: string): string[] => {
+  const records: string[] = [];
+  let current = '';
+  let quotes = 0;
+  text.split(/\r?\n/).forEach(line => {
+    current = current ? `${current}\n${line}` : line;
+    quotes += (line.match(/"/g) || []).length;
+    if (quotes % 2 === 0) {
+      if (current.trim()) records.push(current);
+      current = '';
+      quotes = 0;
+    }
+  });
+  if (current.trim()) records.push(current);
+  return records;
+};
+
+const LOINC_COLUMNS: Record<string, keyof LoincCode> = {
+  LOINC_NUM: 'loinc_num',
+  COMPONENT: 'component',
+  PROPERTY: 'property',
+  TIME_ASPCT: 'time_aspct',
+  SYSTEM: 'system',
+  SCALE_TYP: 'scale_typ',
+  METHOD_TYP: 'method_typ',
+  CLASS: 'class',
+  LONG_COMMON_NAME: 'long_common_name',
+  SHORTNAME: 'short_name',
+  EXAMPLE_UCUM_UNITS: 'example_ucum_units',
+  STATUS: 'status',
+};
+
+/**
+ * Parses a subset of the LOINC table (Loinc.csv or an export with the same column names).
+ * Only LOINC_NUM and COMPONENT or LONG_COMMON_NAME are required; deprecated and
+ * malformed rows are reported rather than imported.
+ */
+export const parseLoincCsv = (text: string): { codes: LoincCode[]; skipped: Array<{ line: number; reason: string }> } => {
+  const records = csvRecords(text.replace(/^\uFEFF/, ''));
+  if (records.length === 0) throw new Error('The LOINC file is empty');
+
+  const header = parseCsvLine(records[0]).map(h => h.trim().toUpperCase());
+  const columnIndex = new Map<keyof LoincCode, number>();
+  header.forEach((name, index) => {
+    const column = LOINC_COLUMNS[name];
+    if (column) columnIndex.set(column, index);
+  });
+  if (!columnIndex.has('loinc_num') || (!columnIndex.has('component') && !columnIndex.has('long_common_name'))) {
+    throw new Error('The LOINC file needs LOINC_NUM and COMPONENT or LONG_COMMON_NAME columns');
+  }
+
+  const codes: LoincCode[] = [];
+  const skipped: Array<{ line: number; reason: string }> = [];
+  const seen = new Set<string>();
+
+  records.slice(1).forEach((record, index) => {
+    const cells = parseCsvLine(record);
+    const cell = (column: keyof LoincCode) => {
+      const i = columnIndex.get(column);
+      const value = i === undefined ? '' : (cells[i] || '').trim();
+      return value || null;
+    };
+    const line = index + 2;
+    const loincNum = cell('loinc_num') || '';
+
+    if (!isValidLoincNumber(loincNum)) {
+      skipped.push({ line, reason: `invalid LOINC number "${loincNum}"` });
+      return;
+    }
+    if (seen.has(loincNum)) {
+      skipped.push({ line, reason: `duplicate ${loincNum}` });
+      return;
+    }
+    if (cell('status') === 'DEPRECATED') {
+      skipped.push({ line, reason: `${loincNum} is deprecated` });
+      return;
+    }
+
+    seen.add(loincNum);
+    const component = cell('component') || cell('long_common_name') || '';
+    codes.push({
+      loinc_num: loincNum,
+      component,
+      property: cell('property'),
+      time_aspct: cell('time_aspct'),
+      system: cell('system'),
+      scale_typ: cell('scale_typ'),
+      method_typ: cell('method_typ'),
+      class: cell('class'),
+      long_common_name: cell('long_common_name') || component,
+      short_name: cell('short_name'),
+      example_ucum_units: cell('example_ucum_units'),
+      status: cell('status'),
+    });
+  });
+
+  return { codes, skipped };
+};
+
+// Common lab abbreviations expanded to the LOINC component wording
+const SYNONYMS: Record<string, string[]> = {
+  hb: ['hemoglobin'],
+  hgb: ['hemoglobin'],
+  haemoglobin: ['hemoglobin'],
+  wbc: ['leukocytes'],
+  tlc: ['leukocytes'],
+  rbc: ['erythrocytes'],
+  plt: ['platelets'],
+  platelet: ['platelets'],
+  hct: ['hematocrit'],
+  pcv: ['hematocrit'],
+  esr: ['erythrocyte', 'sedimentation', 'rate'],
+  mcv: ['erythrocyte', 'mean', 'corpuscular', 'volume'],
+  mch: ['erythrocyte', 'mean', 'corpuscular', 'hemoglobin'],
+  mchc: ['erythrocyte', 'mean', 'corpuscular', 'hemoglobin', 'concentration'],
+  sgpt: ['alanine', 'aminotransferase'],
+  alt: ['alanine', 'aminotransferase'],
+  sgot: ['aspartate', 'aminotransferase'],
+  ast: ['aspartate', 'aminotransferase'],
+  alp: ['alkaline', 'phosphatase'],
+  ggt: ['gamma', 'glutamyl', 'transferase'],
+  bun: ['urea', 'nitrogen'],
+  tsh: ['thyrotropin'],
+  t3: ['triiodothyronine'],
+  t4: ['thyroxine'],
+  hba1c: ['hemoglobin', 'a1c'],
+  ldl: ['cholesterol', 'ldl'],
+  hdl: ['cholesterol', 'hdl'],
+  crp: ['c', 'reactive', 'protein'],
+  sugar: ['glucose'],
+  fbs: ['glucose', 'fasting'],
+  na: ['sodium'],
+  k: ['potassium'],
+  cl: ['chloride'],
+};
+
+const tokenize = (value: string | null | undefined): string[] =>
+  (value || '')
+    .toLowerCase()
+    .replace(/haem/g, 'hem')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0)
+    .flatMap(token => SYNONYMS[token] || [token]);
+
+const normaliseUnit = (unit: string | null | undefined) => (unit || '').toLowerCase().replace(/\s+/g, '').replace('µ', 'u');
+
+export interface LoincSuggestion {
+  code: LoincCode;
+  score: number;
+  reasons: string[];
+}
+
+/**
+ * Ranks candidate LOINC codes for an analyte or test. Name tokens carry most of the weight;
+ * a matching example unit and a LOINC system consistent with the specimen break ties
+ * between e.g. serum and urine glucose.
+ */
+export const suggestLoincCodes = (
+  query: { name: string; unit?: string | null; specimen?: string | null },
+  candidates: LoincCode[],
+  limit = 5
+): LoincSuggestion[] => {
+  const nameTokens = Array.from(new Set(tokenize(query.name)));
+  if (nameTokens.length === 0) return [];
+  const unit = normaliseUnit(query.unit);
+  const systems = (snomedSpecimenFor(query.specimen)?.loincSystems || []).map(s => s.toLowerCase());
+
+  return candidates
+    .map(code => {
+      const reasons: string[] = [];
+      const componentTokens = new Set(tokenize(code.component));
+      const nameTokensOfCode = new Set([...componentTokens, ...tokenize(code.long_common_name), ...tokenize(code.short_name)]);
+
+      const inComponent = nameTokens.filter(t => componentTokens.has(t)).length;
+      const inName = nameTokens.filter(t => nameTokensOfCode.has(t)).length;
+      let score = (inComponent * 2 + inName) / (nameTokens.length * 3);
+      // Penalise components that carry a lot more than was asked for (e.g. "Glucose^2H post 75 g")
+      score -= Math.max(0, componentTokens.size - nameTokens.length) * 0.03;
+      if (inName > 0) reasons.push(`name matches ${inName}/${nameTokens.length} words`);
+
+      if (unit && code.example_ucum_units) {
+        const units = code.example_ucum_units.split(/[;,]/).map(normaliseUnit);
+        if (units.includes(unit)) {
+          score += 0.2;
+          reasons.push(`unit ${query.unit}`);
+        }
+      }
+      if (systems.length > 0 && code.system) {
+        if (systems.includes(code.system.toLowerCase())) {
+          score += 0.15;
+          reasons.push(`specimen ${code.system}`);
+        } else {
+          score -= 0.1;
+        }
+      }
+      if (code.scale_typ === 'Qn' && unit) score += 0.05;
+
+      return { code, score: Math.round(score * 1000) / 1000, reasons };
+    })
+    .filter(suggestion => suggestion.score > 0.2)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
+
+// Word used to pull a candidate set from the LOINC table before ranking
+export const loincSearchTerms = (name: string): string[] => {
+  const tokens = tokenize(name).filter(token => token.length > 2);
+  return Array.from(new Set(tokens)).sort((a, b) => b.length - a.length).slice(0, 3);
+};
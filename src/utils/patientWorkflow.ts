@@ -1,4 +1,5 @@
-import { supabase } from './supabase';
+import { supabase, database } from './supabase';
+import { SAMPLE_REJECTION_REASONS, SampleRejectionCode } from './sampleContainers';
 
 export interface PatientActivity {
   id?: string;
@@ -133,6 +134,102 @@ export async function createAdditionalOrder(
   }
 }
 
+/**
+ * Create a recollection order for the tests of a rejected sample container.
+ * Chained to the original order like additional orders (parent_order_id + order_type),
+ * but created through database.orders.create so it gets its own sample ID and containers.
+ */
+export async function createRecollectionOrder(
+  parentOrderId: string,
+  recollection: {
+    test_names: string[];
+    reason: string;
+    requested_by?: string;
+  }
+): Promise<string | null> {
+  try {
+    const { data: parent, error: parentError } = await supabase
+      .from('orders')
+      .select('id, patient_id, patient_name, doctor, priority, visit_group_id, lab_id, created_by')
+      .eq('id', parentOrderId)
+      .single();
+
+    if (parentError) throw parentError;
+
+    const today = new Date().toISOString().split('T')[0];
+    const { data: newOrder, error: orderError } = await database.orders.create({
+      patient_id: parent.patient_id,
+      patient_name: parent.patient_name,
+      doctor: parent.doctor,
+      priority: parent.priority,
+      order_date: today,
+      expected_date: today,
+      total_amount: 0, // redraws are not billed again
+      order_type: 'recollection',
+      addition_reason: recollection.reason,
+      parent_order_id: parentOrderId,
+      visit_group_id: parent.visit_group_id,
+      lab_id: parent.lab_id,
+      created_by: parent.created_by,
+      tests: recollection.test_names
+    });
+
+    if (orderError || !newOrder) throw orderError || new Error('Recollection order was not created');
+
+    await logPatientActivity({
+      patient_id: parent.patient_id,
+      order_id: newOrder.id,
+      activity_type: 'recollection_order_created',
+      description: `Recollection requested: ${recollection.reason}`,
+      metadata: {
+        parent_order_id: parentOrderId,
+        order_type: 'recollection',
+        tests: recollection.test_names
+      },
+      performed_by: recollection.requested_by,
+      lab_id: parent.lab_id
+    });
+
+    return newOrder.id;
+  } catch (error) {
+    console.error('Error creating recollection order:', error);
+    return null;
+  }
+}
+
+/**
+ * Reject a sample container with a coded reason and spawn its recollection order
+ */
+export async function rejectSampleWithRecollection(
+  sampleId: string,
+  rejection: {
+    code: SampleRejectionCode;
+    notes?: string;
+    rejected_by: string;
+  }
+): Promise<{ recollectionOrderId: string | null; error: Error | null }> {
+  const { data: sample, error } = await database.samples.reject(sampleId, rejection);
+  if (error || !sample) {
+    return { recollectionOrderId: null, error: error instanceof Error ? error : new Error('Sample could not be rejected') };
+  }
+
+  const recollectionOrderId = await createRecollectionOrder(sample.order_id, {
+    test_names: sample.test_names,
+    reason: `${SAMPLE_REJECTION_REASONS[rejection.code]} - ${sample.container_type} ${sample.barcode}`,
+    requested_by: rejection.rejected_by
+  });
+  if (!recollectionOrderId) {
+    return { recollectionOrderId: null, error: new Error('Sample rejected, but the recollection order could not be created') };
+  }
+
+  const { error: linkError } = await database.samples.update(sampleId, { recollection_order_id: recollectionOrderId });
+  if (!linkError) {
+    // The handed-over tests no longer hold the original order back
+    await database.orders.checkAndUpdateStatus(sample.order_id);
+  }
+  return { recollectionOrderId, error: linkError instanceof Error ? linkError : null };
+}
+
 /**
  * Add tests to an existing order (if modifiable)
  */
@@ -1,4 +1,6 @@
 // PDF Generation utilities using PDF.co API with HTML templates
+import { ElectronicSignature, formatSignatureLine } from './electronicSignature';
+
 export interface LabTemplate {
   id: string;
   name: string;
@@ -50,6 +52,7 @@ export interface ReportData {
   testResults: TestResult[];
   interpretation: string;
   template: LabTemplate;
+  signatures?: ElectronicSignature[]; // printed in place of template.footer.signature
 }
 
 // Default lab template
@@ -103,7 +106,7 @@ export const getLabTemplate = (id: string): LabTemplate => {
 
 // Universal HTML Template for LIMS Report (as specified)
 const generateUniversalHTMLTemplate = (data: ReportData): string => {
-  const { patient, report, testResults, interpretation, template } = data;
+  const { patient, report, testResults, interpretation, template, signatures } = data;
   
   return `<!DOCTYPE html>
 <html>
@@ -306,7 +309,7 @@ const generateUniversalHTMLTemplate = (data: ReportData): string => {
       <div>Generated on: ${new Date().toLocaleString()}</div>
       <div>
         Authorized by: ${template.footer.authorizedBy}<br>
-        ${template.footer.signature}
+        ${signatures && signatures.length > 0 ? signatures.map(formatSignatureLine).join('<br>') : template.footer.signature}
       </div>
     </div>
     ${template.footer.disclaimer ? `<div style="margin-top: 10px; font-style: italic; font-size: 10px;">${template.footer.disclaimer}</div>` : ''}
@@ -6,6 +6,7 @@
 // - Expects to run on the server (e.g., Next.js Route Handler / Server Action / Cloud Function)
 
 import { createClient } from '@supabase/supabase-js';
+import { ElectronicSignature, formatSignatureLine } from './electronicSignature';
 
 // ---------- Environment (server-only) ----------
 const SUPABASE_URL = process.env.SUPABASE_URL!;
@@ -69,6 +70,10 @@ export interface TestResult {
   unit: string;
   referenceRange: string;
   flag?: string; // e.g., 'H', 'L', 'C'
+  // Same result in the analyte's alternate unit, printed underneath for dual SI / conventional reports
+  alternateResult?: string;
+  alternateUnit?: string;
+  alternateReferenceRange?: string;
 }
 
 export interface ReportData {
@@ -77,6 +82,7 @@ export interface ReportData {
   testResults: TestResult[];
   interpretation?: string;
   template?: LabTemplate;
+  signatures?: ElectronicSignature[]; // printed in place of template.footer.signature
 }
 
 // ---------- Default Template ----------
@@ -105,6 +111,9 @@ export const defaultLabTemplate: LabTemplate = {
 function generateReportHTML(data: ReportData): string {
   const { patient, report, testResults, interpretation } = data;
   const template = data.template || defaultLabTemplate;
+  const signatureBlock = data.signatures && data.signatures.length > 0
+    ? data.signatures.map(formatSignatureLine).join('<br/>')
+    : template.footer.signature;
 
   return `<!DOCTYPE html>
 <html>
@@ -133,8 +142,10 @@ function generateReportHTML(data: ReportData): string {
     .flag-h { color: #dc3545; font-weight: bold; }
     .flag-l { color: #0066cc; font-weight: bold; }
     .flag-c { color: #ff6600; font-weight: bold; }
+    .alt-unit { display: block; font-size: 10px; font-weight: normal; color: #666; }
     .interpretation-box { background: #f6fafe; padding: 14px; border-left: 5px solid ${template.styling.primaryColor}; border-radius: 8px; margin-top: 16px; }
     .footer { margin-top: 28px; padding-top: 14px; border-top: 2px solid ${template.styling.secondaryColor}; font-size: 10px; color: ${template.styling.secondaryColor}; }
+    .signatures { margin-bottom: 10px; color: #333; }
     @media print { body { padding: 15px; } .info-grid { grid-template-columns: 1fr; } }
   </style>
 </head>
@@ -180,9 +191,9 @@ function generateReportHTML(data: ReportData): string {
         .map(
           (r) => `<tr>
             <td>${r.parameter}</td>
-            <td class="result-value ${r.flag ? `flag-${r.flag.toLowerCase()}` : ''}">${r.result}</td>
-            <td>${r.unit || '-'}</td>
-            <td>${r.referenceRange || '-'}</td>
+            <td class="result-value ${r.flag ? `flag-${r.flag.toLowerCase()}` : ''}">${r.result}${r.alternateResult ? `<span class="alt-unit">${r.alternateResult}</span>` : ''}</td>
+            <td>${r.unit || '-'}${r.alternateUnit ? `<span class="alt-unit">${r.alternateUnit}</span>` : ''}</td>
+            <td>${r.referenceRange || '-'}${r.alternateReferenceRange ? `<span class="alt-unit">${r.alternateReferenceRange}</span>` : ''}</td>
             <td>${r.flag ? `<span class="flag-${r.flag.toLowerCase()}">${r.flag}</span>` : '-'}</td>
           </tr>`,
         )
@@ -197,6 +208,7 @@ function generateReportHTML(data: ReportData): string {
   }
 
   <div class="footer">
+    <div class="signatures">Authorized by: ${template.footer.authorizedBy}<br/>${signatureBlock}</div>
     ${template.footer.disclaimer ? `${template.footer.disclaimer}<br/>` : ''}
     Generated on ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
   </div>
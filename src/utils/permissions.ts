@@ -0,0 +1,95 @@
+// Roles and permissions of LIMS users, backed by users.role and users.permissions
+
+export type UserRole = 'Admin' | 'Lab Manager' | 'Technician' | 'Receptionist' | 'Doctor';
+export type UserStatus = 'Active' | 'Inactive' | 'Suspended';
+
+export type PermissionId =
+  | 'all_access'
+  | 'user_management'
+  | 'patient_registration'
+  | 'test_management'
+  | 'result_entry'
+  | 'result_approval'
+  | 'report_generation'
+  | 'billing_management'
+  | 'system_config'
+  | 'audit_view';
+
+export interface Permission {
+  id: PermissionId;
+  name: string;
+  description: string;
+  category: string;
+}
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  department: string | null;
+  status: UserStatus;
+  phone: string | null;
+  join_date: string | null;
+  last_login: string | null;
+  permissions: string[] | null;
+  lab_id: string | null;
+  // Set once the user has signed up and confirmed their email
+  auth_user_id: string | null;
+}
+
+// A lab (branch) a user can belong to; users.lab_id is the one they are working in
+export interface LabSummary {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+export const USER_ROLES: UserRole[] = ['Admin', 'Lab Manager', 'Technician', 'Receptionist', 'Doctor'];
+
+export const PERMISSIONS: Permission[] = [
+  { id: 'all_access', name: 'All Access', description: 'Complete system access', category: 'System' },
+  { id: 'user_management', name: 'User Management', description: 'Manage users and permissions', category: 'Administration' },
+  { id: 'patient_registration', name: 'Patient Registration', description: 'Register and manage patients', category: 'Patient Management' },
+  { id: 'test_management', name: 'Test Management', description: 'Manage tests and analytes', category: 'Laboratory' },
+  { id: 'result_entry', name: 'Result Entry', description: 'Enter test results', category: 'Laboratory' },
+  { id: 'result_approval', name: 'Result Approval', description: 'Approve and validate results', category: 'Laboratory' },
+  { id: 'report_generation', name: 'Report Generation', description: 'Generate and send reports', category: 'Reports' },
+  { id: 'billing_management', name: 'Billing Management', description: 'Manage invoices and payments', category: 'Finance' },
+  { id: 'system_config', name: 'System Configuration', description: 'Configure system settings', category: 'System' },
+  { id: 'audit_view', name: 'Audit Trail', description: 'View the audit trail and verify its integrity', category: 'Administration' },
+];
+
+/**
+ * Permissions a role has when the user row lists none of its own.
+ * Kept in step with public.role_permissions(), last redefined in the audit_trail_hash_chain migration.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, PermissionId[]> = {
+  'Admin': ['all_access'],
+  'Lab Manager': ['patient_registration', 'test_management', 'result_entry', 'result_approval', 'report_generation', 'billing_management', 'audit_view'],
+  'Technician': ['result_entry'],
+  'Receptionist': ['patient_registration', 'billing_management'],
+  'Doctor': ['result_approval', 'report_generation'],
+};
+
+// Pages that need more than a signed-in user; an array means any one of them is enough
+export const ROUTE_PERMISSIONS: Record<string, PermissionId | PermissionId[]> = {
+  '/results-verification': 'result_approval',
+  '/billing': 'billing_management',
+  '/cash-reconciliation': 'billing_management',
+  '/settings': ['system_config', 'user_management'],
+  '/audit-trail': 'audit_view',
+};
+
+/** Explicit permissions on the user row win over the role defaults; inactive users have none */
+export function effectivePermissions(profile: Pick<UserProfile, 'role' | 'status' | 'permissions'> | null): string[] {
+  if (!profile || profile.status !== 'Active') return [];
+  if (profile.permissions && profile.permissions.length > 0) return profile.permissions;
+  return ROLE_PERMISSIONS[profile.role] || [];
+}
+
+export function hasPermission(granted: string[], required: PermissionId | PermissionId[]): boolean {
+  if (granted.includes('all_access')) return true;
+  const anyOf = Array.isArray(required) ? required : [required];
+  return anyOf.some(permission => granted.includes(permission));
+}
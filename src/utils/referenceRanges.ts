@@ -0,0 +1,201 @@
+// Structured reference-range model and evaluator
+// Rows live in `analyte_reference_ranges`; a row with lab_id = null is global,
+// a row with lab_id set overrides the global rows for that lab.
+
+export type ReferenceRangeSex = 'M' | 'F' | 'any';
+export type AgeBand = 'neonate' | 'child' | 'adult' | 'geriatric';
+export type AgeUnit = 'days' | 'years';
+
+export interface AnalyteReferenceRange {
+  id?: string;
+  analyte_id: string;
+  lab_id?: string | null;
+  sex: ReferenceRangeSex;
+  age_band?: AgeBand | null;
+  age_min?: number | null;
+  age_max?: number | null;
+  age_unit: AgeUnit;
+  pregnancy_trimester?: 1 | 2 | 3 | null;
+  specimen_type?: string | null;
+  low_value?: number | null;
+  high_value?: number | null;
+  display_text?: string | null;
+  notes?: string | null;
+  is_active?: boolean;
+}
+
+// Patient/order facts the evaluator needs to pick a row
+export interface PatientRangeContext {
+  gender?: string | null;
+  age?: number | null; // completed years, as stored on patients.age
+  dateOfBirth?: string | null;
+  pregnancyTrimester?: number | null;
+  specimenType?: string | null;
+  labId?: string | null;
+  referenceDate?: Date;
+}
+
+const DAYS_PER_YEAR = 365.25;
+
+// Default bounds (in days) used when a row names an age band without explicit limits
+export const AGE_BAND_BOUNDS: Record<AgeBand, { min: number; max: number | null }> = {
+  neonate: { min: 0, max: 28 },
+  child: { min: 28, max: 18 * DAYS_PER_YEAR },
+  adult: { min: 18 * DAYS_PER_YEAR, max: 65 * DAYS_PER_YEAR },
+  geriatric: { min: 65 * DAYS_PER_YEAR, max: null },
+};
+
+// Normalize the many ways gender is stored ('Male', 'male', 'M') to M/F
+export const normalizeSex = (gender?: string | null): 'M' | 'F' | undefined => {
+  const g = gender?.trim().toUpperCase();
+  if (!g) return undefined;
+  if (g === 'M' || g === 'MALE') return 'M';
+  if (g === 'F' || g === 'FEMALE') return 'F';
+  return undefined;
+};
+
+// Patient age as a range of days (min inclusive, max exclusive), preferring date of birth.
+// With only the whole-year age column the exact age anywhere within that year is unknown.
+export const getPatientAgeRangeInDays = (
+  context: PatientRangeContext
+): { min: number; max: number } | undefined => {
+  const referenceDate = context.referenceDate || new Date();
+  if (context.dateOfBirth) {
+    const dob = new Date(context.dateOfBirth);
+    if (!isNaN(dob.getTime())) {
+      const days = Math.max(0, Math.floor((referenceDate.getTime() - dob.getTime()) / (24 * 60 * 60 * 1000)));
+      return { min: days, max: days + 1 };
+    }
+  }
+  if (context.age !== null && context.age !== undefined && !isNaN(context.age)) {
+    return { min: context.age * DAYS_PER_YEAR, max: (context.age + 1) * DAYS_PER_YEAR };
+  }
+  return undefined;
+};
+
+const toDays = (value: number, unit: AgeUnit): number => (unit === 'days' ? value : value * DAYS_PER_YEAR);
+
+// Resolve a row's age limits in days (min inclusive, max exclusive)
+const getRowAgeBounds = (row: AnalyteReferenceRange): { min: number | null; max: number | null } | null => {
+  const hasExplicit = (row.age_min !== null && row.age_min !== undefined) ||
+    (row.age_max !== null && row.age_max !== undefined);
+
+  if (hasExplicit) {
+    return {
+      min: row.age_min !== null && row.age_min !== undefined ? toDays(row.age_min, row.age_unit) : null,
+      max: row.age_max !== null && row.age_max !== undefined ? toDays(row.age_max, row.age_unit) : null,
+    };
+  }
+  if (row.age_band) return AGE_BAND_BOUNDS[row.age_band];
+  return null;
+};
+
+const rowMatches = (
+  row: AnalyteReferenceRange,
+  context: PatientRangeContext,
+  ageInDays?: { min: number; max: number }
+): boolean => {
+  if (row.is_active === false) return false;
+
+  if (row.lab_id && context.labId && row.lab_id !== context.labId) return false;
+  if (row.lab_id && !context.labId) return false;
+
+  if (row.sex !== 'any') {
+    if (normalizeSex(context.gender) !== row.sex) return false;
+  }
+
+  // The row only applies when the whole span the patient's age could fall in is inside it,
+  // so a years-only age never lands in a neonatal band measured in days
+  const bounds = getRowAgeBounds(row);
+  if (bounds) {
+    if (ageInDays === undefined) return false;
+    if (bounds.min !== null && ageInDays.min < bounds.min) return false;
+    if (bounds.max !== null && ageInDays.max > bounds.max) return false;
+  }
+
+  if (row.pregnancy_trimester) {
+    if (Number(context.pregnancyTrimester) !== row.pregnancy_trimester) return false;
+  }
+
+  if (row.specimen_type) {
+    if (!context.specimenType) return false;
+    if (row.specimen_type.trim().toLowerCase() !== context.specimenType.trim().toLowerCase()) return false;
+  }
+
+  return true;
+};
+
+// Higher score wins; lab overrides beat global rows, then the most specific partition wins
+const specificityScore = (row: AnalyteReferenceRange): number => {
+  let score = 0;
+  if (row.lab_id) score += 16;
+  if (row.pregnancy_trimester) score += 8;
+  if (row.sex !== 'any') score += 4;
+  if (getRowAgeBounds(row)) score += 2;
+  if (row.specimen_type) score += 1;
+  return score;
+};
+
+// Pick the reference-range row that applies to the patient on the order
+export const selectReferenceRange = (
+  ranges: AnalyteReferenceRange[],
+  context: PatientRangeContext
+): AnalyteReferenceRange | null => {
+  const ageInDays = getPatientAgeRangeInDays(context);
+  let best: AnalyteReferenceRange | null = null;
+  let bestScore = -1;
+
+  for (const row of ranges) {
+    if (!rowMatches(row, context, ageInDays)) continue;
+    const score = specificityScore(row);
+    if (score > bestScore) {
+      best = row;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+// Flag a numeric value against a structured row ('L', 'H' or '' for normal)
+export const evaluateReferenceRange = (value: number, row: AnalyteReferenceRange): string => {
+  if (row.low_value !== null && row.low_value !== undefined && value < row.low_value) return 'L';
+  if (row.high_value !== null && row.high_value !== undefined && value > row.high_value) return 'H';
+  return '';
+};
+
+// Human readable range for reports ("12-16", "<200", ">40")
+export const formatReferenceRange = (row: AnalyteReferenceRange): string => {
+  if (row.display_text) return row.display_text;
+  const hasLow = row.low_value !== null && row.low_value !== undefined;
+  const hasHigh = row.high_value !== null && row.high_value !== undefined;
+  if (hasLow && hasHigh) return `${row.low_value}-${row.high_value}`;
+  if (hasHigh) return `<${row.high_value}`;
+  if (hasLow) return `>${row.low_value}`;
+  return '';
+};
+
+// Short description of the partition a row covers, for editors and tooltips
+export const describeReferenceRangePartition = (row: AnalyteReferenceRange): string => {
+  const parts: string[] = [];
+  if (row.sex !== 'any') parts.push(row.sex === 'M' ? 'Male' : 'Female');
+  if ((row.age_min !== null && row.age_min !== undefined) || (row.age_max !== null && row.age_max !== undefined)) {
+    parts.push(`${row.age_min ?? 0}-${row.age_max ?? '∞'} ${row.age_unit}`);
+  } else if (row.age_band) {
+    parts.push(row.age_band.charAt(0).toUpperCase() + row.age_band.slice(1));
+  }
+  if (row.pregnancy_trimester) parts.push(`Trimester ${row.pregnancy_trimester}`);
+  if (row.specimen_type) parts.push(row.specimen_type);
+  return parts.length > 0 ? parts.join(', ') : 'All patients';
+};
+
+// Group rows by analyte for quick lookup while flagging a result set
+export const groupReferenceRangesByAnalyte = (
+  ranges: AnalyteReferenceRange[]
+): Record<string, AnalyteReferenceRange[]> => {
+  return ranges.reduce((acc, row) => {
+    if (!acc[row.analyte_id]) acc[row.analyte_id] = [];
+    acc[row.analyte_id].push(row);
+    return acc;
+  }, {} as Record<string, AnalyteReferenceRange[]>);
+};
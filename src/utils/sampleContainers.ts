@@ -0,0 +1,251 @@
+/**
+ * Per-container sample planning and lifecycle helpers.
+ * An order needs one container per distinct test_groups.sample_type (CBC -> EDTA tube,
+ * LFT + Lipid -> one SST tube, urine tests -> urine container). Each container gets its
+ * own barcode derived from the order's sample_id.
+ */
+
+export type SampleStatus =
+  | 'pending_collection'
+  | 'collected'
+  | 'received'
+  | 'in_process'
+  | 'stored'
+  | 'rejected'
+  | 'discarded';
+
+export interface OrderSample {
+  id: string;
+  order_id: string;
+  parent_sample_id: string | null;
+  sample_type: string;
+  container_type: string;
+  barcode: string;
+  color_code: string | null;
+  status: SampleStatus;
+  test_names: string[];
+  collected_at: string | null;
+  collected_by: string | null;
+  received_at: string | null;
+  received_by: string | null;
+  rejection_code: SampleRejectionCode | null;
+  rejection_reason: string | null;
+  rejected_at: string | null;
+  rejected_by: string | null;
+  recollection_order_id: string | null;
+  storage_location: string | null;
+  volume_ml: number | null;
+  created_at?: string;
+}
+
+export interface SampleContainerSpec {
+  container_type: string;
+  cap_color: string;
+  color_code: string; // HEX used on labels and badges
+}
+
+// Container per sample type; keys match the sample types offered in TestGroupForm
+export const SAMPLE_CONTAINERS: Record<string, SampleContainerSpec> = {
+  'EDTA Blood': { container_type: 'EDTA tube', cap_color: 'Lavender', color_code: '#8B5CF6' },
+  'Serum': { container_type: 'SST tube', cap_color: 'Gold', color_code: '#F59E0B' },
+  'Plasma': { container_type: 'Lithium heparin tube', cap_color: 'Green', color_code: '#10B981' },
+  'Urine': { container_type: 'Urine container', cap_color: 'Yellow', color_code: '#EAB308' },
+  'Stool': { container_type: 'Stool container', cap_color: 'Brown', color_code: '#92400E' },
+  'CSF': { container_type: 'Sterile CSF tube', cap_color: 'Clear', color_code: '#9CA3AF' },
+  'Sputum': { container_type: 'Sputum container', cap_color: 'Red', color_code: '#EF4444' },
+  'Swab': { container_type: 'Swab transport tube', cap_color: 'Blue', color_code: '#3B82F6' },
+  'Tissue': { container_type: 'Formalin container', cap_color: 'White', color_code: '#6B7280' },
+};
+
+const DEFAULT_CONTAINER: SampleContainerSpec = { container_type: 'Specimen container', cap_color: 'Grey', color_code: '#6B7280' };
+
+export const getContainerSpec = (sampleType: string): SampleContainerSpec =>
+  SAMPLE_CONTAINERS[sampleType] || DEFAULT_CONTAINER;
+
+// Statuses in which a primary container counts as physically obtained from the patient
+const COLLECTED_STATUSES: SampleStatus[] = ['collected', 'received', 'in_process', 'stored'];
+const RECEIVED_STATUSES: SampleStatus[] = ['received', 'in_process', 'stored'];
+
+export const isCollected = (sample: Pick<OrderSample, 'status'>) => COLLECTED_STATUSES.includes(sample.status);
+export const isReceived = (sample: Pick<OrderSample, 'status'>) => RECEIVED_STATUSES.includes(sample.status);
+
+export interface PlannedSample {
+  sample_type: string;
+  container_type: string;
+  color_code: string;
+  test_names: string[];
+}
+
+// One container per distinct sample type, in the order tests were requested
+export const planOrderSamples = (tests: Array<{ name: string; sample_type: string | null }>): PlannedSample[] => {
+  const byType = new Map<string, PlannedSample>();
+  tests.forEach(test => {
+    const sampleType = test.sample_type || 'Other';
+    const existing = byType.get(sampleType);
+    if (existing) {
+      if (!existing.test_names.includes(test.name)) existing.test_names.push(test.name);
+      return;
+    }
+    const spec = getContainerSpec(sampleType);
+    byType.set(sampleType, {
+      sample_type: sampleType,
+      container_type: spec.container_type,
+      color_code: spec.color_code,
+      test_names: [test.name]
+    });
+  });
+  return Array.from(byType.values());
+};
+
+/**
+ * Container barcode: order sample_id plus a container suffix (S1, S2, ...).
+ * Aliquots append A1, A2, ... to their parent's barcode.
+ */
+export const generateSampleBarcode = (orderSampleId: string, containerIndex: number): string =>
+  `${orderSampleId}-S${containerIndex}`;
+
+export const generateAliquotBarcode = (parentBarcode: string, aliquotIndex: number): string =>
+  `${parentBarcode}-A${aliquotIndex}`;
+
+type StatusDrivingSample = Pick<OrderSample, 'parent_sample_id' | 'status'> & { recollection_order_id?: string | null };
+
+// A rejected container whose tests moved to a recollection order no longer holds this order back
+export const isHandedToRecollection = (sample: StatusDrivingSample) =>
+  sample.status === 'rejected' && !!sample.recollection_order_id;
+
+// Primary containers that drive the order status (aliquots, discarded and recollected containers don't)
+export const primarySamples = <T extends StatusDrivingSample>(samples: T[]): T[] =>
+  samples.filter(s => !s.parent_sample_id && s.status !== 'discarded' && !isHandedToRecollection(s));
+
+/**
+ * Order status implied by its containers, or null when samples don't decide it
+ * (no containers, or the order is already past the pre-analytical phase).
+ * - Order Created -> Sample Collection once every container is collected
+ * - Sample Collection -> In Progress once every container is received in the lab
+ * A rejected container holds the order back until a recollection order takes over its tests.
+ */
+export const deriveOrderStatusFromSamples = (
+  currentStatus: string,
+  samples: StatusDrivingSample[]
+): string | null => {
+  const primary = primarySamples(samples);
+  if (primary.length === 0) return null;
+
+  const allCollected = primary.every(isCollected);
+  const allReceived = primary.every(isReceived);
+
+  if (currentStatus === 'Order Created') {
+    if (allReceived) return 'In Progress';
+    if (allCollected) return 'Sample Collection';
+  }
+  if (currentStatus === 'Sample Collection' && allReceived) return 'In Progress';
+  return null;
+};
+
+export const SAMPLE_STATUS_LABELS: Record<SampleStatus, string> = {
+  pending_collection: 'Pending collection',
+  collected: 'Collected',
+  received: 'Received in lab',
+  in_process: 'In process',
+  stored: 'Stored',
+  rejected: 'Rejected',
+  discarded: 'Discarded',
+};
+
+export const SAMPLE_STATUS_COLORS: Record<SampleStatus, string> = {
+  pending_collection: 'bg-yellow-100 text-yellow-800',
+  collected: 'bg-blue-100 text-blue-800',
+  received: 'bg-green-100 text-green-800',
+  in_process: 'bg-indigo-100 text-indigo-800',
+  stored: 'bg-gray-100 text-gray-800',
+  rejected: 'bg-red-100 text-red-800',
+  discarded: 'bg-gray-100 text-gray-500',
+};
+
+export type SampleRejectionCode =
+  | 'hemolysed'
+  | 'clotted'
+  | 'qns'
+  | 'mislabelled'
+  | 'unlabelled'
+  | 'wrong_container'
+  | 'lipaemic'
+  | 'contaminated'
+  | 'transport_delay'
+  | 'leaked'
+  | 'other';
+
+// Coded rejection reasons (pre-analytical quality indicators)
+export const SAMPLE_REJECTION_REASONS: Record<SampleRejectionCode, string> = {
+  hemolysed: 'Hemolysed',
+  clotted: 'Clotted',
+  qns: 'Quantity not sufficient (QNS)',
+  mislabelled: 'Mislabelled',
+  unlabelled: 'Unlabelled',
+  wrong_container: 'Wrong container / anticoagulant',
+  lipaemic: 'Lipaemic',
+  contaminated: 'Contaminated',
+  transport_delay: 'Transport delay / stability exceeded',
+  leaked: 'Leaked in transit',
+  other: 'Other',
+};
+
+export interface RejectionRateRow {
+  key: string;
+  label: string;
+  total: number;
+  rejected: number;
+  rate: number; // percent of collected containers
+}
+
+export interface RejectionReport {
+  totalCollected: number;
+  totalRejected: number;
+  rate: number;
+  byCollector: RejectionRateRow[];
+  byReason: RejectionRateRow[];
+}
+
+const percent = (part: number, whole: number) => (whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0);
+
+/**
+ * Rejection rates over collected primary containers, per collector and per coded reason.
+ * Reason rows use the overall collected count as denominator so the rates add up to the total.
+ */
+export const buildRejectionReport = (
+  samples: Array<Pick<OrderSample, 'parent_sample_id' | 'status' | 'collected_at' | 'collected_by' | 'rejection_code'>>
+): RejectionReport => {
+  const collected = samples.filter(s => !s.parent_sample_id && s.collected_at);
+  const rejected = collected.filter(s => s.status === 'rejected');
+
+  const collectors = new Map<string, RejectionRateRow>();
+  collected.forEach(sample => {
+    const key = sample.collected_by || 'Unknown';
+    const row = collectors.get(key) || { key, label: key, total: 0, rejected: 0, rate: 0 };
+    row.total += 1;
+    if (sample.status === 'rejected') row.rejected += 1;
+    collectors.set(key, row);
+  });
+
+  const reasons = new Map<string, RejectionRateRow>();
+  rejected.forEach(sample => {
+    const key = sample.rejection_code || 'other';
+    const label = SAMPLE_REJECTION_REASONS[key as SampleRejectionCode] || key;
+    const row = reasons.get(key) || { key, label, total: collected.length, rejected: 0, rate: 0 };
+    row.rejected += 1;
+    reasons.set(key, row);
+  });
+
+  const withRates = (rows: RejectionRateRow[]) =>
+    rows
+      .map(row => ({ ...row, rate: percent(row.rejected, row.total) }))
+      .sort((a, b) => b.rate - a.rate || b.rejected - a.rejected);
+
+  return {
+    totalCollected: collected.length,
+    totalRejected: rejected.length,
+    rate: percent(rejected.length, collected.length),
+    byCollector: withRates(Array.from(collectors.values())),
+    byReason: withRates(Array.from(reasons.values())),
+  };
+};
@@ -1,5 +1,28 @@
 import { createClient } from '@supabase/supabase-js';
 import { generateOrderSampleId, getOrderAssignedColor, generateOrderQRCodeData } from './colorAssignment';
+import { AnalyteReferenceRange } from './referenceRanges';
+import { calculateFlag, isCriticalValue } from './flagCalculation';
+import { runDeltaCheck, DeltaCheckConfig } from './deltaCheck';
+import { computeCalculatedValues, CalculatedAnalyteDefinition, FormulaVariable } from './formulaEngine';
+import { evaluateWestgard, zScore } from './westgard';
+import {
+  deriveOrderStatusFromSamples, generateAliquotBarcode, generateSampleBarcode, isHandedToRecollection, OrderSample,
+  planOrderSamples, primarySamples, SAMPLE_REJECTION_REASONS, SampleRejectionCode
+} from './sampleContainers';
+import { DEFAULT_LABEL_TEMPLATES, LabelFormat, LabelTemplate } from '../labels/labelTemplate';
+import { parseAstmMessage } from '../instruments/astmParser';
+import { ImportAnalyte, InstrumentTestMapping, planAstmImport, specimenIdsOf } from '../instruments/astmImport';
+import { buildAck, Hl7AckCode, MshInfo, parseHl7Message, readMsh } from '../hl7/hl7Message';
+import { buildOruR01, isReportableResult, OruPatient, OruResult } from '../hl7/oruR01';
+import { ageFromBirthDate, matchOrmPatient, OrmMessage, OrmPatient, parseOrmO01, PatientCandidate } from '../hl7/ormO01';
+import { canonicalResultValue } from './unitConversion';
+import { AiExtractionInput, DECIDED_STATUSES, sameResultValue } from './aiConfidence';
+import { LoincCode, LoincSuggestion, loincSearchTerms, suggestLoincCodes } from './loinc';
+import { AiUsageLog, AiUsageQuota } from './aiUsage';
+import { LabSummary, UserProfile } from './permissions';
+import { ElectronicSignature, SignatureMeaning, SignedRecordType } from './electronicSignature';
+import { AuditChainCheck, AuditedTable, AuditLogEntry } from './auditTrail';
+import { formatValidationIssues, hasBlockingIssues, validateWorkflowDefinition, WorkflowDefinition } from '../workflows/workflowSchema';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -97,44 +120,159 @@ export const auth = {
 
 // Database helper functions for patients
 export const database = { 
-  // Helper to get current user's lab ID
-  getCurrentUserLabId: async () => {
-    const { data: { user }, error } = await supabase.auth.getUser();
-    if (error || !user) {
-      console.error('Error fetching user:', error);
+  // Lab the signed-in user is working in, read from their users row as the RLS policies do
+  getCurrentUserLabId: async (): Promise<string | null> => {
+    const { data, error } = await supabase.rpc('current_user_lab_id');
+    if (error) {
+      console.error('Error fetching lab:', error);
       return null;
     }
-    
-    // Check if lab_id is in user metadata
-    if (user?.user_metadata?.lab_id) {
-      return user.user_metadata.lab_id;
-    }
-    
-    // In production, this should fetch from a profiles table or use RLS
-    console.warn('Lab ID not found in user metadata. Using default lab.');
-    return null; // Return null to handle gracefully in calling code
+    return data;
   },
 
+  // LIMS users; users.auth_user_id links a row to its auth account once the email is confirmed
+  users: {
+    getCurrent: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { data: null, error: null };
+      const { data, error } = await supabase
+        .from('users')
+        .select('*')
+        .eq('auth_user_id', user.id)
+        .maybeSingle();
+      return { data: data as UserProfile | null, error };
+    },
+
+    // Members of the current lab, including those currently working in another of their labs
+    getAll: async () => {
+      const labId = await database.getCurrentUserLabId();
+      const query = labId
+        ? supabase.from('users').select('*, user_labs!inner(lab_id)').eq('user_labs.lab_id', labId)
+        : supabase.from('users').select('*').is('lab_id', null);
+      const { data, error } = await query.order('name');
+      return { data: data as UserProfile[] | null, error };
+    },
 
-  patients: {
+    // Pre-provisions a user; the row is linked to the auth account when they sign up with this email
+    create: async (userData: Pick<UserProfile, 'name' | 'email' | 'role' | 'department' | 'phone' | 'permissions' | 'status'>) => {
+      const labId = await database.getCurrentUserLabId();
+      const { data, error } = await supabase
+        .from('users')
+        .insert([{ ...userData, lab_id: labId }])
+        .select()
+        .single();
+      return { data: data as UserProfile | null, error };
+    },
+
+    update: async (id: string, updates: Partial<Pick<UserProfile, 'name' | 'role' | 'department' | 'phone' | 'permissions' | 'status'>>) => {
+      const { data, error } = await supabase
+        .from('users')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single();
+      return { data: data as UserProfile | null, error };
+    },
+
+    getLabIds: async (userId: string) => {
+      const { data, error } = await supabase
+        .from('user_labs')
+        .select('lab_id')
+        .eq('user_id', userId);
+      return { data: data ? data.map(m => m.lab_id as string) : null, error };
+    },
+
+    // Replaces the user's lab memberships; their current lab is always kept
+    setLabIds: async (userId: string, labIds: string[]) => {
+      const { data: current, error } = await database.users.getLabIds(userId);
+      if (error || !current) return { error };
+      const toAdd = labIds.filter(id => !current.includes(id));
+      const toRemove = current.filter(id => !labIds.includes(id));
+      if (toAdd.length > 0) {
+        const { error: addError } = await supabase
+          .from('user_labs')
+          .insert(toAdd.map(lab_id => ({ user_id: userId, lab_id })));
+        if (addError) return { error: addError };
+      }
+      if (toRemove.length > 0) {
+        const { data: user } = await supabase.from('users').select('lab_id').eq('id', userId).maybeSingle();
+        const removable = toRemove.filter(id => id !== user?.lab_id);
+        if (removable.length > 0) {
+          const { error: removeError } = await supabase
+            .from('user_labs')
+            .delete()
+            .eq('user_id', userId)
+            .in('lab_id', removable);
+          if (removeError) return { error: removeError };
+        }
+      }
+      return { error: null };
+    },
+
+    markLogin: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return { error: null };
+      const { error } = await supabase
+        .from('users')
+        .update({ last_login: new Date().toISOString() })
+        .eq('auth_user_id', user.id);
+      return { error };
+    },
+  },
+
+  labs: {
     getAll: async () => {
       const { data, error } = await supabase
+        .from('labs')
+        .select('id, name, code')
+        .order('name');
+      return { data: data as LabSummary[] | null, error };
+    },
+
+    // Labs the signed-in user can switch between
+    getMine: async () => {
+      const { data: profile } = await database.users.getCurrent();
+      if (!profile) return { data: [] as LabSummary[], error: null };
+      const { data, error } = await supabase
+        .from('user_labs')
+        .select('labs(id, name, code)')
+        .eq('user_id', profile.id);
+      const labs = (data || [])
+        .flatMap((m: { labs: LabSummary | LabSummary[] | null }) => (Array.isArray(m.labs) ? m.labs : m.labs ? [m.labs] : []))
+        .sort((a, b) => a.name.localeCompare(b.name));
+      return { data: error ? null : labs, error };
+    },
+
+    // The database checks membership and returns the lab now stored on the users row
+    switchTo: async (labId: string) => {
+      const { data, error } = await supabase.rpc('switch_lab', { p_lab_id: labId });
+      return { data: data as string | null, error };
+    },
+  },
+
+  patients: {
+    getAll: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('patients')
         .select('*')
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
+        .eq('is_active', true);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at', { ascending: false });
       return { data, error };
     },
 
     getAllWithTestCounts: async () => {
-      const { data, error } = await supabase
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('patients')
         .select(`
           *,
           orders!inner(count)
         `)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false });
+        .eq('is_active', true);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at', { ascending: false });
       // Optionally, transform data here if needed
       return { data, error };
     },
@@ -158,11 +296,14 @@ export const database = {
       const year = today.getFullYear();
       const dateFormatted = `${day}-${month}-${year}`;
       
-      // Count patients registered today to determine sequential number
-      const { count: todayCount, error: countError } = await supabase
+      // Count this lab's patients registered today to determine sequential number
+      const labId = await database.getCurrentUserLabId();
+      let countQuery = supabase
         .from('patients')
         .select('id', { count: 'exact', head: true })
         .gte('created_at', today.toISOString().split('T')[0]);
+      countQuery = labId ? countQuery.eq('lab_id', labId) : countQuery.is('lab_id', null);
+      const { count: todayCount, error: countError } = await countQuery;
       
       if (countError) {
         console.error('Error counting today\'s patients:', countError);
@@ -181,7 +322,8 @@ export const database = {
         .insert([{
           ...patientDetails,
           referring_doctor,
-          display_id
+          display_id,
+          lab_id: labId
         }])
         .select()
         .single();
@@ -289,20 +431,33 @@ export const database = {
   // Get today's patient count for color assignment
   getTodaysPatientsCount: async () => {
     const today = new Date().toISOString().split('T')[0];
-    const { count, error } = await supabase
+    const labId = await database.getCurrentUserLabId();
+    let query = supabase
       .from('patients')
       .select('id', { count: 'exact', head: true })
       .gte('created_at', today);
+    query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+    const { count, error } = await query;
     
     return { count: count || 0, error };
   },
   
   reports: {
+    // FHIR R4 Bundle (Patient, ServiceRequest, DiagnosticReport, Observations) built by the fhir-export edge function
+    getFhirBundle: async (orderId: string) => {
+      const { data, error } = await supabase.functions.invoke('fhir-export', {
+        body: { orderId }
+      });
+      return { data, error };
+    },
+
     getAll: async () => {
-      const { data, error } = await supabase
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('reports')
-        .select('id, patient_id, result_id, status, generated_date, doctor, notes, created_at, updated_at, patients(name), results(test_name)')
-        .order('generated_date', { ascending: false });
+        .select('id, patient_id, result_id, status, generated_date, doctor, notes, created_at, updated_at, patients(name), results(test_name)');
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('generated_date', { ascending: false });
       return { data, error };
     },
 
@@ -316,9 +471,10 @@ export const database = {
     },
 
     create: async (reportData: any) => {
+      const labId = await database.getCurrentUserLabId();
       const { data, error } = await supabase
         .from('reports')
-        .insert([reportData])
+        .insert([{ ...reportData, lab_id: labId }])
         .select()
         .single();
       return { data, error };
@@ -345,15 +501,17 @@ export const database = {
   
   orders: {
     getAll: async () => {
-      const { data, error } = await supabase
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('orders')
         .select(`
           *,
           patients(name, age, gender),
           order_tests(test_name, created_at),
           results(id, status, result_values(parameter, value, unit, reference_range, flag))
-        `)
-        .order('order_date', { ascending: false });
+        `);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('order_date', { ascending: false });
       
       if (error || !data) return { data, error };
       
@@ -409,16 +567,28 @@ export const database = {
       return { data, error };
     },
 
+    getBySampleId: async (sampleId: string) => {
+      const { data, error } = await supabase
+        .from('orders')
+        .select('id, sample_id, patient_name, status')
+        .eq('sample_id', sampleId.trim())
+        .maybeSingle();
+      return { data, error };
+    },
+
     create: async (orderData: any) => {
       // First get the daily sequence for sample ID generation
       const orderDate = orderData.order_date || new Date().toISOString().split('T')[0];
       
-      // Count existing orders for this date to get sequence number
-      const { count: dailyOrderCount, error: countError } = await supabase
+      // Count this lab's orders for this date to get sequence number; sample IDs are unique per lab
+      const labId = await database.getCurrentUserLabId();
+      let countQuery = supabase
         .from('orders')
         .select('id', { count: 'exact', head: true })
         .gte('order_date', orderDate)
         .lt('order_date', new Date(new Date(orderDate).getTime() + 24 * 60 * 60 * 1000).toISOString().split('T')[0]);
+      countQuery = labId ? countQuery.eq('lab_id', labId) : countQuery.is('lab_id', null);
+      const { count: dailyOrderCount, error: countError } = await countQuery;
       
       if (countError) {
         console.error('Error counting daily orders:', countError);
@@ -435,6 +605,7 @@ export const database = {
       const { tests, ...orderDetails } = orderData;
       const orderWithSample = {
         ...orderDetails,
+        lab_id: labId,
         sample_id: sampleId,
         color_code,
         color_name,
@@ -490,6 +661,12 @@ export const database = {
           console.error('Error inserting order tests:', testsError);
           return { data: updatedOrder, error: testsError };
         }
+
+        // One container per sample type required by the ordered tests
+        const { error: samplesError } = await database.samples.createForOrder(updatedOrder.id);
+        if (samplesError) {
+          console.error('Error creating order samples:', samplesError);
+        }
       }
 
       return { data: { ...updatedOrder, tests }, error: null };
@@ -513,15 +690,16 @@ export const database = {
       return { error };
     },
 
-    // Auto-update order status based on results
+    // Auto-update order status based on sample state and results
     checkAndUpdateStatus: async (orderId: string) => {
       try {
-        // Get order with tests and results
+        // Get order with tests, samples and results
         const { data: order, error: orderError } = await supabase
           .from('orders')
           .select(`
             *,
             order_tests(test_name),
+            samples(id, parent_sample_id, status, collected_at, collected_by, test_names, recollection_order_id),
             results(id, status, result_values(id))
           `)
           .eq('id', orderId)
@@ -532,7 +710,14 @@ export const database = {
           return { data: null, error: orderError };
         }
 
-        const totalTests = order.order_tests?.length || 0;
+        // Tests whose container was rejected are resulted on the recollection order instead
+        const recollectedTests = new Set<string>(
+          (order.samples || [])
+            .filter(isHandedToRecollection)
+            .flatMap((s: { test_names: string[] | null }) => s.test_names || [])
+        );
+        const totalTests = (order.order_tests || [])
+          .filter((t: { test_name: string }) => !recollectedTests.has(t.test_name)).length;
         const results = order.results || [];
         
         // Count results by status
@@ -540,9 +725,35 @@ export const database = {
         const approvedResults = results.filter((r: any) => r.status === 'Approved');
         
         let newStatus = order.status;
+        const statusUpdates: Record<string, unknown> = {};
+
+        // Pre-analytical phase follows the containers: collected -> Sample Collection, received -> In Progress
+        const samples: Array<Pick<OrderSample, 'parent_sample_id' | 'status' | 'collected_at' | 'collected_by' | 'recollection_order_id'>> = order.samples || [];
+        const sampleStatus = deriveOrderStatusFromSamples(order.status, samples);
+        if (sampleStatus) {
+          newStatus = sampleStatus;
+          if (!order.sample_collected_at) {
+            // Keep the order-level collection fields populated for reports and the workflow bar
+            const lastCollected = primarySamples(samples)
+              .filter(s => s.collected_at)
+              .sort((a, b) => new Date(b.collected_at as string).getTime() - new Date(a.collected_at as string).getTime())[0];
+            statusUpdates.sample_collected_at = lastCollected?.collected_at || new Date().toISOString();
+            statusUpdates.sample_collected_by = lastCollected?.collected_by || null;
+          }
+        }
         
+        // Every test moved to recollection orders: nothing is left to result here, so close the order out
+        const handedOverEntirely = (order.order_tests || []).length > 0 && totalTests === 0;
+        if (handedOverEntirely && !['Completed', 'Delivered'].includes(order.status)) {
+          const note = 'All tests moved to recollection orders';
+          newStatus = 'Completed';
+          if (!(order.notes || '').includes(note)) {
+            statusUpdates.notes = order.notes ? `${order.notes}\n${note}` : note;
+          }
+        }
+
         // Determine new status based on completion
-        if (order.status === 'In Progress') {
+        if (newStatus === 'In Progress') {
           // If all tests have results submitted, move to Pending Approval
           if (resultsWithValues.length >= totalTests && totalTests > 0) {
             newStatus = 'Pending Approval';
@@ -559,6 +770,7 @@ export const database = {
           const { data: updatedOrder, error: updateError } = await supabase
             .from('orders')
             .update({ 
+              ...statusUpdates,
               status: newStatus,
               status_updated_at: new Date().toISOString(),
               status_updated_by: 'System (Auto)'
@@ -615,7 +827,8 @@ export const database = {
   
   results: {
     getAll: async () => {
-      const { data, error } = await supabase
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('results')
         .select(`
           *, 
@@ -625,8 +838,9 @@ export const database = {
           ai_confidence, 
           manually_verified, 
           ai_extraction_metadata
-        `) // Include AI and attachment columns
-        .order('entered_date', { ascending: false });
+        `); // Include AI and attachment columns
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('entered_date', { ascending: false });
       
       if (error || !data) {
         return { data, error };
@@ -738,9 +952,10 @@ export const database = {
     },
     create: async (resultData: any) => {
       const { values, ...rest } = resultData; // Separate values array
+      const labId = await database.getCurrentUserLabId();
       const { data: result, error } = await supabase
         .from('results')
-        .insert([rest]) // This will now include attachment_id and AI fields if provided
+        .insert([{ ...rest, lab_id: labId }]) // This will now include attachment_id and AI fields if provided
         .select()
         .single();
 
@@ -752,7 +967,7 @@ export const database = {
         // First, get all analytes to map parameter names to analyte_ids
         const { data: analytes, error: analytesError } = await supabase
           .from('analytes')
-          .select('id, name');
+          .select('id, name, unit, low_critical, high_critical, alternate_unit, molar_mass, unit_conversion_factor');
         
         if (analytesError) {
           console.error('Error fetching analytes:', analytesError);
@@ -761,27 +976,39 @@ export const database = {
 
         // Create a map of analyte names to IDs
         const analyteMap = new Map(analytes?.map(a => [a.name, a.id]) || []);
+        const analyteById = new Map(analytes?.map(a => [a.id, a]) || []);
 
-        const resultValuesToInsert = values.map((val: any) => ({
-          result_id: result.id,
-          order_id: result.order_id, // Add order_id for trigger compatibility
-          analyte_id: analyteMap.get(val.parameter) || null, // Map parameter name to analyte_id
-          parameter: val.parameter, // Keep parameter name as well
-          value: val.value,
-          unit: val.unit,
-          reference_range: val.reference_range,
-          flag: val.flag,
-        }));
+        const resultValuesToInsert = values.map((val: any) => {
+          const analyteId = val.analyte_id || analyteMap.get(val.parameter) || null; // Map parameter name to analyte_id
+          const analyte = analyteId ? analyteById.get(analyteId) : undefined;
+          const canonical = canonicalResultValue(val, analyte);
+          return {
+            result_id: result.id,
+            order_id: result.order_id, // Add order_id for trigger compatibility
+            analyte_id: analyteId,
+            parameter: val.parameter, // Keep parameter name as well
+            ...canonical,
+            // Critical limits always win over whatever flag the caller computed
+            flag: isCriticalValue(canonical.value, analyte?.low_critical, analyte?.high_critical) ? 'C' : val.flag,
+            ai_confidence: val.ai_confidence ?? null,
+            manually_verified: !!val.manually_verified,
+          };
+        });
         
+        const rowsToInsert = await database.results.withCalculatedValues(result, resultValuesToInsert, analyteById);
+
         const { error: valuesError } = await supabase
           .from('result_values')
-          .insert(resultValuesToInsert);
+          .insert(rowsToInsert);
 
         if (valuesError) {
           // Optionally, handle rollback of the result if result_values insertion fails
           console.error('Error inserting result values:', valuesError);
           return { data: null, error: valuesError };
         }
+
+        await database.criticalCallbacks.openForResult(result, rowsToInsert, analyteById);
+        await database.results.applyDeltaCheck(result.id);
       }
 
       // Auto-update order status after result creation
@@ -824,7 +1051,7 @@ export const database = {
         // First, get all analytes to map parameter names to analyte_ids
         const { data: analytes, error: analytesError } = await supabase
           .from('analytes')
-          .select('id, name');
+          .select('id, name, unit, low_critical, high_critical, alternate_unit, molar_mass, unit_conversion_factor');
         
         if (analytesError) {
           console.error('Error fetching analytes:', analytesError);
@@ -833,26 +1060,38 @@ export const database = {
 
         // Create a map of analyte names to IDs
         const analyteMap = new Map(analytes?.map(a => [a.name, a.id]) || []);
+        const analyteById = new Map(analytes?.map(a => [a.id, a]) || []);
 
-        const resultValuesToInsert = values.map((val: any) => ({
-          result_id: id,
-          order_id: result.order_id, // Add order_id for trigger compatibility
-          analyte_id: analyteMap.get(val.parameter) || null, // Map parameter name to analyte_id
-          parameter: val.parameter, // Keep parameter name as well
-          value: val.value,
-          unit: val.unit,
-          reference_range: val.reference_range,
-          flag: val.flag,
-        }));
+        const resultValuesToInsert = values.map((val: any) => {
+          const analyteId = val.analyte_id || analyteMap.get(val.parameter) || null; // Map parameter name to analyte_id
+          const analyte = analyteId ? analyteById.get(analyteId) : undefined;
+          const canonical = canonicalResultValue(val, analyte);
+          return {
+            result_id: id,
+            order_id: result.order_id, // Add order_id for trigger compatibility
+            analyte_id: analyteId,
+            parameter: val.parameter, // Keep parameter name as well
+            ...canonical,
+            // Critical limits always win over whatever flag the caller computed
+            flag: isCriticalValue(canonical.value, analyte?.low_critical, analyte?.high_critical) ? 'C' : val.flag,
+            ai_confidence: val.ai_confidence ?? null,
+            manually_verified: !!val.manually_verified,
+          };
+        });
         
+        const rowsToInsert = await database.results.withCalculatedValues(result, resultValuesToInsert, analyteById);
+
         const { error: valuesError } = await supabase
           .from('result_values')
-          .insert(resultValuesToInsert);
+          .insert(rowsToInsert);
 
         if (valuesError) {
           console.error('Error inserting updated result values:', valuesError);
           return { data: null, error: valuesError };
         }
+
+        await database.criticalCallbacks.openForResult(result, rowsToInsert, analyteById);
+        await database.results.applyDeltaCheck(result.id);
       }
 
       // Auto-update order status after result update (especially for approval)
@@ -911,6 +1150,128 @@ export const database = {
       return { data: enrichedData, error };
     },
 
+    // Replace values of formula-defined analytes in the result's test groups with freshly
+    // computed ones. A manually entered value is kept only when the formula cannot be applied.
+    withCalculatedValues: async <T extends { analyte_id: string | null; parameter: string; value: string; unit: string }>(
+      result: { id: string; order_id: string; patient_id: string },
+      rows: T[],
+      analyteById: Map<string, { low_critical?: string | null; high_critical?: string | null }>
+    ) => {
+      const sourceIds = rows.map(r => r.analyte_id).filter((id): id is string => !!id);
+      if (sourceIds.length === 0) return rows;
+
+      const { data: definitions, error } = await database.analytes.getCalculatedForAnalytes(sourceIds);
+      if (error || !definitions?.length) {
+        if (error) console.error('Error loading calculated analytes:', error);
+        return rows;
+      }
+
+      const { data: patient } = await supabase
+        .from('patients')
+        .select('age, gender')
+        .eq('id', result.patient_id)
+        .single();
+
+      const calculatedIds = new Set<string | null>(definitions.map(d => d.id));
+      const sources = rows.filter(r => !calculatedIds.has(r.analyte_id));
+      const { values, skipped } = computeCalculatedValues(definitions, sources, patient);
+
+      skipped.forEach(s => console.warn(`Calculated analyte ${s.parameter} not computed: ${s.reason}`));
+
+      const computedIds = new Set<string | null>(values.map(v => v.analyte_id));
+      const manualFallbacks = rows.filter(r => calculatedIds.has(r.analyte_id) && !computedIds.has(r.analyte_id));
+
+      return [
+        ...sources,
+        ...manualFallbacks,
+        ...values.map(v => {
+          const analyte = analyteById.get(v.analyte_id);
+          return {
+            result_id: result.id,
+            order_id: result.order_id,
+            analyte_id: v.analyte_id,
+            parameter: v.parameter,
+            value: v.value,
+            unit: v.unit,
+            reference_range: v.reference_range,
+            flag: isCriticalValue(v.value, analyte?.low_critical, analyte?.high_critical)
+              ? 'C'
+              : calculateFlag(v.value, v.reference_range, patient?.gender),
+            is_calculated: true,
+          };
+        })
+      ];
+    },
+
+    // Compare each value with the patient's previous value for the same analyte
+    // and store the outcome on result_values / results.delta_check_flag
+    applyDeltaCheck: async (resultId: string) => {
+      const { data: result, error } = await supabase
+        .from('results')
+        .select('id, order_id, patient_id, created_at, result_values(id, analyte_id, parameter, value)')
+        .eq('id', resultId)
+        .single();
+
+      if (error || !result) {
+        return { data: null, error };
+      }
+
+      const values = result.result_values || [];
+      const analyteIds = Array.from(new Set(values.map(v => v.analyte_id).filter(Boolean)));
+      const configById = new Map<string, DeltaCheckConfig>();
+
+      if (analyteIds.length > 0) {
+        const { data: analytes, error: analytesError } = await supabase
+          .from('analytes')
+          .select('id, delta_check_absolute, delta_check_percent, delta_check_window_days')
+          .in('id', analyteIds);
+
+        if (analytesError) {
+          console.error('Error fetching delta check limits:', analytesError);
+          return { data: null, error: analytesError };
+        }
+        analytes?.forEach(a => configById.set(a.id, a));
+      }
+
+      const { data: history, error: historyError } = await database.results.getByPatientId(result.patient_id);
+      if (historyError) {
+        console.error('Error fetching previous results for delta check:', historyError);
+        return { data: null, error: historyError };
+      }
+
+      const resultDate = result.created_at ? new Date(result.created_at) : new Date();
+      const outcomes = values.map(v => ({
+        id: v.id,
+        ...runDeltaCheck(history || [], {
+          resultId: result.id,
+          orderId: result.order_id,
+          analyteId: v.analyte_id,
+          parameter: v.parameter,
+          value: v.value,
+          date: resultDate
+        }, v.analyte_id ? configById.get(v.analyte_id) : null)
+      }));
+
+      for (const { id, ...outcome } of outcomes) {
+        const { error: updateError } = await supabase
+          .from('result_values')
+          .update(outcome)
+          .eq('id', id);
+        if (updateError) {
+          console.error('Error saving delta check outcome:', updateError);
+          return { data: null, error: updateError };
+        }
+      }
+
+      const deltaFlagged = outcomes.some(o => o.delta_flag);
+      const { error: flagError } = await supabase
+        .from('results')
+        .update({ delta_check_flag: deltaFlagged })
+        .eq('id', resultId);
+
+      return { data: { delta_check_flag: deltaFlagged, values: outcomes }, error: flagError };
+    },
+
     // New function to get results by attachment ID
     getByAttachmentId: async (attachmentId: string) => {
       const { data, error } = await supabase
@@ -926,16 +1287,273 @@ export const database = {
     // Direct CRUD operations for result_values are typically not needed if managed via results
   },
 
+  // Critical value callback tasks (read-back + escalation documentation)
+  criticalCallbacks: {
+    getByOrderId: async (orderId: string) => {
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('created_at', { ascending: true });
+      return { data, error };
+    },
+
+    // Callbacks still blocking report generation for an order
+    getOpenByOrderId: async (orderId: string) => {
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .select('*')
+        .eq('order_id', orderId)
+        .in('status', ['open', 'escalated'])
+        .order('created_at', { ascending: true });
+      return { data, error };
+    },
+
+    getAllOpen: async () => {
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .select('*, orders(patient_name, sample_id)')
+        .in('status', ['open', 'escalated'])
+        .order('created_at', { ascending: true });
+      return { data, error };
+    },
+
+    // Open one task per critical value on a result, skipping parameters that already have one.
+    // Open tasks whose parameter is no longer critical on this save are voided rather than left blocking the report.
+    openForResult: async (
+      result: { id: string; order_id: string },
+      values: { analyte_id: string | null; parameter: string; value: string; unit: string; flag?: string }[],
+      analyteById?: Map<string, { low_critical?: string | null; high_critical?: string | null }>
+    ) => {
+      const criticalValues = values.filter(v => v.flag === 'C');
+
+      await supabase
+        .from('results')
+        .update({ critical_flag: criticalValues.length > 0 })
+        .eq('id', result.id);
+
+      const { data: existing, error: existingError } = await supabase
+        .from('critical_value_callbacks')
+        .select('id, parameter')
+        .eq('result_id', result.id)
+        .in('status', ['open', 'escalated']);
+
+      if (existingError) {
+        console.error('Error checking existing critical callbacks:', existingError);
+        return { data: null, error: existingError };
+      }
+
+      const criticalParameters = new Set(criticalValues.map(v => v.parameter));
+      const superseded = (existing || []).filter(e => !criticalParameters.has(e.parameter));
+
+      if (superseded.length > 0) {
+        const { data: { user } } = await supabase.auth.getUser();
+        const voidedAt = new Date().toISOString();
+        for (const callback of superseded) {
+          const current = values.find(v => v.parameter === callback.parameter);
+          const { error: voidError } = await supabase
+            .from('critical_value_callbacks')
+            .update({
+              status: 'voided',
+              voided_by: user?.id || null,
+              voided_at: voidedAt,
+              void_reason: current
+                ? `Value re-entered as ${current.value}${current.unit ? ` ${current.unit}` : ''}, no longer critical`
+                : 'Parameter removed from the result'
+            })
+            .eq('id', callback.id);
+          if (voidError) {
+            console.error('Error voiding superseded critical callback:', voidError);
+            return { data: null, error: voidError };
+          }
+        }
+      }
+
+      if (criticalValues.length === 0) return { data: [], error: null };
+
+      const alreadyOpen = new Set((existing || []).map(e => e.parameter));
+      const labId = await database.getCurrentUserLabId();
+
+      const callbacksToInsert = criticalValues
+        .filter(v => !alreadyOpen.has(v.parameter))
+        .map(v => {
+          const analyte = v.analyte_id ? analyteById?.get(v.analyte_id) : undefined;
+          const limits = [
+            analyte?.low_critical ? `≤ ${analyte.low_critical}` : null,
+            analyte?.high_critical ? `≥ ${analyte.high_critical}` : null
+          ].filter(Boolean).join(' / ');
+          return {
+            order_id: result.order_id,
+            result_id: result.id,
+            analyte_id: v.analyte_id,
+            lab_id: labId,
+            parameter: v.parameter,
+            value: v.value,
+            unit: v.unit,
+            critical_limit: limits || null,
+            status: 'open'
+          };
+        });
+
+      if (callbacksToInsert.length === 0) return { data: [], error: null };
+
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .insert(callbacksToInsert)
+        .select();
+
+      if (error) {
+        console.error('Error opening critical callbacks:', error);
+      }
+      return { data, error };
+    },
+
+    // Record an unsuccessful or handed-off call attempt
+    addEscalation: async (id: string, entry: {
+      level: number;
+      name: string;
+      role?: string;
+      contact?: string;
+      outcome: string;
+    }) => {
+      const { data: current, error: fetchError } = await supabase
+        .from('critical_value_callbacks')
+        .select('escalation_chain')
+        .eq('id', id)
+        .single();
+
+      if (fetchError) return { data: null, error: fetchError };
+
+      const chain = [...(current?.escalation_chain || []), { ...entry, attempted_at: new Date().toISOString() }];
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .update({ escalation_chain: chain, status: 'escalated' })
+        .eq('id', id)
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    // Document the successful callback; read-back is mandatory
+    document: async (id: string, details: {
+      called_person_name: string;
+      called_person_role?: string;
+      contact_number?: string;
+      called_at: string;
+      read_back_confirmed: boolean;
+      read_back_value?: string;
+      notes?: string;
+    }) => {
+      if (!details.read_back_confirmed) {
+        return { data: null, error: new Error('Read-back confirmation is required to document a critical callback') };
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('critical_value_callbacks')
+        .update({
+          ...details,
+          called_by: user?.id || null,
+          status: 'documented',
+          documented_at: new Date().toISOString()
+        })
+        .eq('id', id)
+        .select()
+        .single();
+      return { data, error };
+    }
+  },
+
+  signatures: {
+    // The database re-checks the password or PIN and hashes the values itself; nothing signed here is trusted
+    sign: async (
+      recordType: SignedRecordType,
+      recordIds: string[],
+      meaning: SignatureMeaning,
+      credential: string,
+      reason?: string
+    ) => {
+      const { data, error } = await supabase.rpc('sign_records', {
+        p_record_type: recordType,
+        p_record_ids: recordIds,
+        p_meaning: meaning,
+        p_credential: credential,
+        p_reason: reason || null
+      });
+      return { data: data as ElectronicSignature[] | null, error };
+    },
+
+    // Signatures printed on an order's report: its release plus the approvals and amendments of its results
+    getForOrder: async (orderId: string, resultIds: string[]) => {
+      const filters = [`and(record_type.eq.order,record_id.eq.${orderId})`];
+      if (resultIds.length > 0) {
+        filters.push(`and(record_type.eq.result,record_id.in.(${resultIds.join(',')}))`);
+      }
+      const { data, error } = await supabase
+        .from('electronic_signatures')
+        .select('id, lab_id, user_id, signer_name, signer_role, meaning, record_type, record_id, reason, signed_hash, signed_at')
+        .or(filters.join(','))
+        .order('signed_at', { ascending: true });
+      return { data: data as ElectronicSignature[] | null, error };
+    },
+
+    setPin: async (password: string, pin: string) => {
+      const { error } = await supabase.rpc('set_signature_pin', { p_password: password, p_pin: pin });
+      return { error };
+    },
+
+    hasPin: async () => {
+      const { data, error } = await supabase.rpc('has_signature_pin');
+      return { data: data as boolean | null, error };
+    }
+  },
+
+  audit: {
+    getEntries: async (filters: { tableName?: AuditedTable; recordId?: string; limit?: number } = {}) => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
+        .from('audit_logs')
+        .select('*');
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      if (filters.tableName) query = query.eq('table_name', filters.tableName);
+      if (filters.recordId) query = query.eq('record_id', filters.recordId);
+      const { data, error } = await query
+        .order('seq', { ascending: false })
+        .limit(filters.limit || 200);
+      return { data: data as AuditLogEntry[] | null, error };
+    },
+
+    // Oldest first, so each entry can be diffed against the state before it
+    getRecordHistory: async (tableName: AuditedTable, recordId: string) => {
+      const { data, error } = await supabase
+        .from('audit_logs')
+        .select('*')
+        .eq('table_name', tableName)
+        .eq('record_id', recordId)
+        .order('seq', { ascending: true });
+      return { data: data as AuditLogEntry[] | null, error };
+    },
+
+    // Re-computed in the database over the whole chain of the current lab
+    verifyChain: async () => {
+      const { data, error } = await supabase.rpc('verify_audit_chain');
+      const rows = data as AuditChainCheck[] | null;
+      return { data: rows && rows.length > 0 ? rows[0] : null, error };
+    }
+  },
+
   invoices: {
     getAll: async () => {
       // Query invoices with basic data
-      const { data, error } = await supabase
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
         .from('invoices')
         .select(`
           *,
           invoice_items(*)
-        `)
-        .order('invoice_date', { ascending: false });
+        `);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('invoice_date', { ascending: false });
       
       if (error) {
         return { data: null, error };
@@ -967,9 +1585,10 @@ export const database = {
       const { invoice_items, ...invoiceDetails } = invoiceData;
       
       // First create the invoice
+      const labId = await database.getCurrentUserLabId();
       const { data: invoice, error } = await supabase
         .from('invoices')
-        .insert([invoiceDetails])
+        .insert([{ ...invoiceDetails, lab_id: labId }])
         .select()
         .single();
 
@@ -1055,18 +1674,21 @@ export const database = {
     },
     
     create: async (paymentData: any) => {
+      const labId = await database.getCurrentUserLabId();
       const { data, error } = await supabase
         .from('payments')
-        .insert([paymentData])
+        .insert([{ ...paymentData, lab_id: labId }])
         .select()
         .single();
       return { data, error };
     },
     
     getPaymentSummary: async (startDate?: string, endDate?: string, method?: string) => {
+      const labId = await database.getCurrentUserLabId();
       let query = supabase
         .from('payments')
         .select('*');
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
       
       if (startDate) {
         query = query.gte('payment_date', startDate);
@@ -1161,6 +1783,19 @@ export const database = {
       reference_range: string;
       low_critical?: string;
       high_critical?: string;
+      delta_check_absolute?: number | null;
+      delta_check_percent?: number | null;
+      delta_check_window_days?: number | null;
+      is_calculated?: boolean;
+      formula?: string | null;
+      formula_variables?: FormulaVariable[];
+      formula_validity?: string | null;
+      formula_decimals?: number | null;
+      loinc_code?: string | null;
+      snomed_specimen_code?: string | null;
+      alternate_unit?: string | null;
+      molar_mass?: number | null;
+      unit_conversion_factor?: number | null;
       interpretation_low?: string;
       interpretation_normal?: string;
       interpretation_high?: string;
@@ -1178,6 +1813,19 @@ export const database = {
           reference_range: analyteData.reference_range,
           low_critical: analyteData.low_critical,
           high_critical: analyteData.high_critical,
+          delta_check_absolute: analyteData.delta_check_absolute ?? null,
+          delta_check_percent: analyteData.delta_check_percent ?? null,
+          delta_check_window_days: analyteData.delta_check_window_days ?? null,
+          is_calculated: analyteData.is_calculated || false,
+          formula: analyteData.is_calculated ? analyteData.formula : null,
+          formula_variables: analyteData.is_calculated ? analyteData.formula_variables || [] : [],
+          formula_validity: analyteData.is_calculated ? analyteData.formula_validity : null,
+          formula_decimals: analyteData.formula_decimals ?? 2,
+          loinc_code: analyteData.loinc_code || null,
+          snomed_specimen_code: analyteData.snomed_specimen_code || null,
+          alternate_unit: analyteData.alternate_unit || null,
+          molar_mass: analyteData.molar_mass ?? null,
+          unit_conversion_factor: analyteData.unit_conversion_factor ?? null,
           interpretation_low: analyteData.interpretation_low,
           interpretation_normal: analyteData.interpretation_normal,
           interpretation_high: analyteData.interpretation_high,
@@ -1210,6 +1858,19 @@ export const database = {
       reference_range?: string;
       low_critical?: string;
       high_critical?: string;
+      delta_check_absolute?: number | null;
+      delta_check_percent?: number | null;
+      delta_check_window_days?: number | null;
+      is_calculated?: boolean;
+      formula?: string | null;
+      formula_variables?: FormulaVariable[];
+      formula_validity?: string | null;
+      formula_decimals?: number | null;
+      loinc_code?: string | null;
+      snomed_specimen_code?: string | null;
+      alternate_unit?: string | null;
+      molar_mass?: number | null;
+      unit_conversion_factor?: number | null;
       interpretation_low?: string;
       interpretation_normal?: string;
       interpretation_high?: string;
@@ -1226,6 +1887,19 @@ export const database = {
           reference_range: updates.reference_range,
           low_critical: updates.low_critical,
           high_critical: updates.high_critical,
+          delta_check_absolute: updates.delta_check_absolute,
+          delta_check_percent: updates.delta_check_percent,
+          delta_check_window_days: updates.delta_check_window_days,
+          is_calculated: updates.is_calculated,
+          formula: updates.is_calculated ? updates.formula : null,
+          formula_variables: updates.is_calculated ? updates.formula_variables || [] : [],
+          formula_validity: updates.is_calculated ? updates.formula_validity : null,
+          formula_decimals: updates.formula_decimals,
+          loinc_code: updates.loinc_code,
+          snomed_specimen_code: updates.snomed_specimen_code,
+          alternate_unit: updates.alternate_unit,
+          molar_mass: updates.molar_mass,
+          unit_conversion_factor: updates.unit_conversion_factor,
           interpretation_low: updates.interpretation_low,
           interpretation_normal: updates.interpretation_normal,
           interpretation_high: updates.interpretation_high,
@@ -1240,32 +1914,426 @@ export const database = {
         .single();
       return { data, error };
     },
-  },
 
-  // Workflow dynamic engine helpers (lab scoped)
-  workflows: {
-    getLabWorkflowForTest: async (labId: string, testCode: string) => {
-      try {
-        // Find mapping
-        const { data: mapping, error: mapError } = await supabase
-          .from('test_workflow_map')
-          .select('id, workflow_version_id')
-          .eq('lab_id', labId)
-          .eq('test_code', testCode)
+    // Formula-defined analytes that share a test group with any of the given analytes
+    getCalculatedForAnalytes: async (analyteIds: string[]) => {
+      const { data: memberships, error: membershipError } = await supabase
+        .from('test_group_analytes')
+        .select('test_group_id')
+        .in('analyte_id', analyteIds);
+
+      if (membershipError) {
+        return { data: null, error: membershipError };
+      }
+
+      const groupIds = Array.from(new Set((memberships || []).map(m => m.test_group_id)));
+      if (groupIds.length === 0) {
+        return { data: [] as CalculatedAnalyteDefinition[], error: null };
+      }
+
+      const { data, error } = await supabase
+        .from('test_group_analytes')
+        .select('analytes!inner(id, name, unit, reference_range, formula, formula_variables, formula_validity, formula_decimals, is_calculated, is_active)')
+        .in('test_group_id', groupIds)
+        .eq('analytes.is_calculated', true)
+        .eq('analytes.is_active', true);
+
+      if (error) {
+        return { data: null, error };
+      }
+
+      const byId = new Map<string, CalculatedAnalyteDefinition>();
+      (data || []).forEach((row: { analytes: CalculatedAnalyteDefinition | CalculatedAnalyteDefinition[] | null }) => {
+        const analyte = Array.isArray(row.analytes) ? row.analytes[0] : row.analytes;
+        if (analyte?.formula) byId.set(analyte.id, analyte);
+      });
+      return { data: Array.from(byId.values()), error: null };
+    },
+  },
+
+  // LOINC reference table (imported subset) for coding analytes and test groups
+  loinc: {
+    search: async (term: string, limit = 25) => {
+      const value = term.trim().replace(/[%,()]/g, ' ');
+      if (!value) return { data: [] as LoincCode[], error: null };
+      const { data, error } = await supabase
+        .from('loinc_codes')
+        .select('*')
+        .or(`loinc_num.eq.${value},component.ilike.%${value}%,long_common_name.ilike.%${value}%,short_name.ilike.%${value}%`)
+        .order('long_common_name')
+        .limit(limit);
+      return { data: data as LoincCode[] | null, error };
+    },
+
+    getByCode: async (loincNum: string) => {
+      const { data, error } = await supabase
+        .from('loinc_codes')
+        .select('*')
+        .eq('loinc_num', loincNum.trim())
+        .maybeSingle();
+      return { data: data as LoincCode | null, error };
+    },
+
+    // Upserts in chunks so a full LOINC table export does not exceed the request size limit
+    importCodes: async (codes: LoincCode[]) => {
+      const chunkSize = 500;
+      let imported = 0;
+      for (let i = 0; i < codes.length; i += chunkSize) {
+        const chunk = codes.slice(i, i + chunkSize).map(code => ({ ...code, imported_at: new Date().toISOString() }));
+        const { error } = await supabase
+          .from('loinc_codes')
+          .upsert(chunk, { onConflict: 'loinc_num' });
+        if (error) return { data: { imported }, error };
+        imported += chunk.length;
+      }
+      return { data: { imported }, error: null };
+    },
+
+    // Pulls candidates by the most specific words of the name, then ranks them locally
+    suggest: async (query: { name: string; unit?: string | null; specimen?: string | null }, limit = 5) => {
+      const terms = loincSearchTerms(query.name);
+      if (terms.length === 0) return { data: [] as LoincSuggestion[], error: null };
+      const filters = terms.flatMap(term => [`component.ilike.%${term}%`, `long_common_name.ilike.%${term}%`]).join(',');
+      const { data, error } = await supabase
+        .from('loinc_codes')
+        .select('*')
+        .or(filters)
+        .limit(200);
+      if (error) return { data: null, error };
+      return { data: suggestLoincCodes(query, (data || []) as LoincCode[], limit), error: null };
+    },
+  },
+
+  // Alternative analyte names confirmed by the lab; gemini-nlp matches extracted parameters against them
+  analyteSynonyms: {
+    getAll: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase.from('analyte_synonyms').select('*, analytes(name)');
+      query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+      const { data, error } = await query.order('synonym');
+      return { data, error };
+    },
+
+    getByAnalyte: async (analyteId: string) => {
+      const { data, error } = await supabase
+        .from('analyte_synonyms')
+        .select('*')
+        .eq('analyte_id', analyteId)
+        .order('synonym');
+      return { data, error };
+    },
+
+    // Saving a name the lab already uses re-points it to the confirmed analyte
+    save: async (synonym: { analyte_id: string; synonym: string; source?: 'manual' | 'ai_review' }) => {
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data, error } = await supabase
+        .from('analyte_synonyms')
+        .upsert([{
+          analyte_id: synonym.analyte_id,
+          synonym: synonym.synonym.trim(),
+          source: synonym.source || 'manual',
+          lab_id: labId,
+          created_by: user?.id || null,
+        }], { onConflict: 'lab_id,synonym_normalized' })
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    delete: async (id: string) => {
+      const { error } = await supabase
+        .from('analyte_synonyms')
+        .delete()
+        .eq('id', id);
+      return { error };
+    },
+  },
+
+  // AI extraction confidence gating: per-lab thresholds and the review queue (ai_extracted_values)
+  aiReview: {
+    getThresholds: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase.from('ai_confidence_thresholds').select('*, analytes(name)');
+      query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at');
+      return { data, error };
+    },
+
+    // analyte_id null sets the lab default
+    saveThreshold: async (analyteId: string | null, threshold: number) => {
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data, error } = await supabase
+        .from('ai_confidence_thresholds')
+        .upsert([{
+          lab_id: labId,
+          analyte_id: analyteId,
+          threshold,
+          updated_by: user?.id || null,
+          updated_at: new Date().toISOString(),
+        }], { onConflict: 'lab_id,analyte_id' })
+        .select('*, analytes(name)')
+        .single();
+      return { data, error };
+    },
+
+    deleteThreshold: async (id: string) => {
+      const { error } = await supabase
+        .from('ai_confidence_thresholds')
+        .delete()
+        .eq('id', id);
+      return { error };
+    },
+
+    // A new AI run replaces the undecided values of an earlier run for the same analytes
+    recordExtractions: async (extractions: AiExtractionInput[]) => {
+      if (extractions.length === 0) return { data: [], error: null };
+      const labId = await database.getCurrentUserLabId();
+      const analyteIds = extractions.map(e => e.analyte_id).filter((id): id is string => !!id);
+      if (analyteIds.length > 0) {
+        const { error: supersedeError } = await supabase
+          .from('ai_extracted_values')
+          .delete()
+          .eq('order_id', extractions[0].order_id)
+          .in('analyte_id', analyteIds)
+          .in('status', ['draft', 'pending_review']);
+        if (supersedeError) return { data: null, error: supersedeError };
+      }
+      const { data, error } = await supabase
+        .from('ai_extracted_values')
+        .insert(extractions.map(e => ({ ...e, lab_id: labId })))
+        .select();
+      return { data, error };
+    },
+
+    getQueue: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
+        .from('ai_extracted_values')
+        .select('*, orders(sample_id, patient_name), attachments(file_url, file_type, original_filename), analytes(name, unit)')
+        .eq('status', 'pending_review');
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at');
+      return { data, error };
+    },
+
+    // A corrected value differs from the AI value; rejected values are not entered at all
+    review: async (id: string, decision: { status: 'accepted' | 'corrected' | 'rejected'; corrected_value?: string }) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('ai_extracted_values')
+        .update({
+          status: decision.status,
+          corrected_value: decision.status === 'corrected' ? decision.corrected_value ?? null : null,
+          reviewed_by: user?.id || null,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', id)
+        .eq('status', 'pending_review')
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    // Values accepted or corrected in the queue that are not in a saved result yet
+    getReviewedForOrder: async (orderId: string) => {
+      const { data, error } = await supabase
+        .from('ai_extracted_values')
+        .select('*')
+        .eq('order_id', orderId)
+        .in('status', ['accepted', 'corrected'])
+        .is('result_id', null)
+        .order('reviewed_at');
+      return { data, error };
+    },
+
+    /**
+     * Links an order's AI values to the saved result. Drafts are decided by what was saved: the
+     * same value is accepted, a different one corrected. Values decided in the queue keep their
+     * decision. The result is marked manually verified when every AI value in it was reviewed.
+     */
+    settleForResult: async (orderId: string, resultId: string, savedValues: Array<{ analyte_id?: string | null; value: string }>) => {
+      const savedByAnalyte = new Map(
+        savedValues.filter(v => v.analyte_id).map(v => [v.analyte_id as string, v.value])
+      );
+      if (savedByAnalyte.size === 0) return { error: null };
+
+      const { data: extractions, error } = await supabase
+        .from('ai_extracted_values')
+        .select('id, analyte_id, value, confidence, status, reviewed_by')
+        .eq('order_id', orderId)
+        .is('result_id', null)
+        .in('analyte_id', [...savedByAnalyte.keys()])
+        .in('status', ['draft', ...DECIDED_STATUSES]);
+      if (error || !extractions?.length) return { error };
+
+      for (const extraction of extractions) {
+        const saved = savedByAnalyte.get(extraction.analyte_id);
+        const update: Record<string, unknown> = { result_id: resultId };
+        if (extraction.status === 'draft') {
+          update.status = sameResultValue(saved, extraction.value) ? 'accepted' : 'corrected';
+          if (update.status === 'corrected') update.corrected_value = saved;
+        }
+        const { error: updateError } = await supabase
+          .from('ai_extracted_values')
+          .update(update)
+          .eq('id', extraction.id);
+        if (updateError) return { error: updateError };
+      }
+
+      const { error: resultError } = await supabase
+        .from('results')
+        .update({
+          extracted_by_ai: true,
+          ai_confidence: Math.min(...extractions.map(e => Number(e.confidence))),
+          manually_verified: extractions.every(e => !!e.reviewed_by),
+        })
+        .eq('id', resultId);
+      return { error: resultError };
+    },
+
+    // Decided values since a date, for per-prompt accuracy
+    getDecisions: async (since: string) => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
+        .from('ai_extracted_values')
+        .select('prompt_key, status, created_at')
+        .in('status', DECIDED_STATUSES)
+        .gte('created_at', since);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at');
+      return { data, error };
+    },
+  },
+
+  // AI call logs written by the edge functions, and the lab's monthly quota
+  aiUsage: {
+    getLogs: async (since: string) => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
+        .from('ai_usage_logs')
+        .select('id, user_id, function_name, processing_type, model, tokens_used, cost_usd, processing_time_ms, error_message, created_at')
+        .gte('created_at', since);
+      query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+      const { data, error } = await query.order('created_at');
+      return { data: data as AiUsageLog[] | null, error };
+    },
+
+    getQuota: async () => {
+      const labId = await database.getCurrentUserLabId();
+      if (!labId) return { data: null, error: null };
+      const { data, error } = await supabase
+        .from('ai_usage_quotas')
+        .select('*')
+        .eq('lab_id', labId)
+        .maybeSingle();
+      return { data: data as AiUsageQuota | null, error };
+    },
+
+    // A null limit removes it
+    saveQuota: async (limits: { monthly_call_limit: number | null; monthly_cost_limit_usd: number | null }) => {
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      if (!labId) return { data: null, error: new Error('Quotas are set per lab; your account has no lab') };
+      const { data, error } = await supabase
+        .from('ai_usage_quotas')
+        .upsert([{
+          lab_id: labId,
+          ...limits,
+          updated_by: user?.id || null,
+          updated_at: new Date().toISOString(),
+        }], { onConflict: 'lab_id' })
+        .select()
+        .single();
+      return { data: data as AiUsageQuota | null, error };
+    },
+  },
+
+  // Workflow dynamic engine helpers (lab scoped)
+  workflows: {
+    // Resolves the published version of the workflow mapped to a test. The mapping
+    // may point at an older version; new orders always get the published one.
+    getLabWorkflowForTest: async (labId: string, testCode: string) => {
+      try {
+        // Find mapping
+        const { data: mapping, error: mapError } = await supabase
+          .from('test_workflow_map')
+          .select('id, workflow_version_id')
+          .eq('lab_id', labId)
+          .eq('test_code', testCode)
           .eq('is_default', true)
           .maybeSingle();
         if (mapError || !mapping) return { data: null, error: mapError };
-        const { data: version, error: verError } = await supabase
+        const { data: mapped, error: verError } = await supabase
           .from('workflow_versions')
-          .select('id, version, definition, workflow_id')
+          .select('id, version, definition, workflow_id, status')
           .eq('id', mapping.workflow_version_id)
           .single();
         if (verError) return { data: null, error: verError };
-        return { data: version, error: null };
+        if (mapped.status === 'published') return { data: mapped, error: null };
+
+        const { data: published, error: pubError } = await supabase
+          .from('workflow_versions')
+          .select('id, version, definition, workflow_id, status')
+          .eq('workflow_id', mapped.workflow_id)
+          .eq('status', 'published')
+          .maybeSingle();
+        if (pubError) return { data: null, error: pubError };
+        return { data: published || mapped, error: null };
       } catch (e: any) {
         return { data: null, error: e };
       }
     },
+    // Published workflow for the first of the order's tests (by test group code) that has one mapped
+    getForOrder: async (orderId: string) => {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('lab_id, order_test_groups(test_groups(code)), order_tests(test_name)')
+        .eq('id', orderId)
+        .single();
+      if (orderError) return { data: null, error: orderError };
+      if (!order.lab_id) return { data: null, error: null };
+
+      // The embedded test group comes back as a single object, though the client types it as a list
+      const codes = new Set<string>(
+        (order.order_test_groups || [])
+          .flatMap(g => ([] as Array<{ code: string | null }>).concat(g.test_groups || []))
+          .map(g => g.code)
+          .filter((code): code is string => !!code)
+      );
+      const testNames = (order.order_tests || []).map((t: { test_name: string }) => t.test_name);
+      if (testNames.length > 0) {
+        const { data: groups, error: groupError } = await supabase
+          .from('test_groups')
+          .select('code')
+          .in('name', testNames)
+          .or(`lab_id.eq.${order.lab_id},lab_id.is.null`);
+        if (groupError) return { data: null, error: groupError };
+        (groups || []).forEach((g: { code: string }) => codes.add(g.code));
+      }
+
+      for (const code of codes) {
+        const { data: version, error } = await database.workflows.getLabWorkflowForTest(order.lab_id, code);
+        if (error) return { data: null, error };
+        if (version) return { data: { ...version, test_code: code }, error: null };
+      }
+      return { data: null, error: null };
+    },
+    // Makes a workflow the default for a test code; new orders then run its published version
+    mapToTest: async (labId: string, testCode: string, workflowVersionId: string) => {
+      const { error: clearError } = await supabase
+        .from('test_workflow_map')
+        .update({ is_default: false })
+        .eq('lab_id', labId)
+        .eq('test_code', testCode)
+        .eq('is_default', true);
+      if (clearError) return { data: null, error: clearError };
+
+      const { data, error } = await supabase
+        .from('test_workflow_map')
+        .insert({ lab_id: labId, test_code: testCode, workflow_version_id: workflowVersionId, is_default: true })
+        .select()
+        .single();
+      return { data, error };
+    },
     getOrderWorkflowInstance: async (orderId: string) => {
       const { data, error } = await supabase
         .from('order_workflow_instances')
@@ -1300,6 +2368,135 @@ export const database = {
         .select()
         .single();
       return { data, error };
+    },
+    // Event log used to rebuild a runner, oldest first
+    getStepEvents: async (instanceId: string) => {
+      const { data, error } = await supabase
+        .from('workflow_step_events')
+        .select('id, step_id, event_type, payload, created_at')
+        .eq('instance_id', instanceId)
+        .order('created_at', { ascending: true });
+      return { data, error };
+    },
+    getWorkflowVersion: async (versionId: string) => {
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .select('id, version, definition, workflow_id, status, published_at')
+        .eq('id', versionId)
+        .single();
+      return { data, error };
+    },
+    getVersions: async (workflowId: string) => {
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .select('id, version, workflow_id, status, published_at, published_by, notes, created_at')
+        .eq('workflow_id', workflowId)
+        .order('version', { ascending: false });
+      return { data, error };
+    },
+    // New draft numbered after the highest existing version; drafts are editable until published
+    createDraftVersion: async (workflowId: string, definition: WorkflowDefinition, notes?: string) => {
+      const { data: latest, error: latestError } = await supabase
+        .from('workflow_versions')
+        .select('version')
+        .eq('workflow_id', workflowId)
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (latestError) return { data: null, error: latestError };
+
+      const version = (latest?.version || 0) + 1;
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .insert({ workflow_id: workflowId, version, definition: { ...definition, version }, status: 'draft', notes: notes || null })
+        .select('id, version, definition, workflow_id, status')
+        .single();
+      return { data, error };
+    },
+    // Validates the definition, retires the currently published version and publishes this one.
+    // Instances already running keep their pinned workflow_version_id.
+    publishVersion: async (versionId: string) => {
+      const { data: version, error: loadError } = await supabase
+        .from('workflow_versions')
+        .select('id, version, definition, workflow_id, status')
+        .eq('id', versionId)
+        .single();
+      if (loadError) return { data: null, error: loadError };
+      if (version.status === 'published') return { data: version, error: null };
+      if (version.status === 'retired') {
+        return { data: null, error: new Error(`Workflow version ${version.version} is retired and cannot be republished`) };
+      }
+
+      const issues = validateWorkflowDefinition(version.definition);
+      if (hasBlockingIssues(issues)) {
+        return { data: null, error: new Error(`Workflow definition is invalid:\n${formatValidationIssues(issues)}`) };
+      }
+
+      const { error: retireError } = await supabase
+        .from('workflow_versions')
+        .update({ status: 'retired' })
+        .eq('workflow_id', version.workflow_id)
+        .eq('status', 'published');
+      if (retireError) return { data: null, error: retireError };
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from('workflow_versions')
+        .update({ status: 'published', published_at: new Date().toISOString(), published_by: user?.id || null })
+        .eq('id', versionId)
+        .select('id, version, definition, workflow_id, status, published_at')
+        .single();
+      return { data, error };
+    },
+    // Store a bundled JSON definition as a lab workflow version (idempotent per name + version).
+    // A version newer than the published one is published; older ones stay as they are.
+    registerDefinition: async (labId: string | null, definition: WorkflowDefinition) => {
+      const issues = validateWorkflowDefinition(definition);
+      if (hasBlockingIssues(issues)) {
+        return { data: null, error: new Error(`Workflow definition is invalid:\n${formatValidationIssues(issues)}`) };
+      }
+
+      let workflowQuery = supabase
+        .from('workflows')
+        .select('id')
+        .eq('name', definition.name);
+      workflowQuery = labId ? workflowQuery.eq('lab_id', labId) : workflowQuery.is('lab_id', null);
+      const { data: existingWorkflow, error: findError } = await workflowQuery.maybeSingle();
+      if (findError) return { data: null, error: findError };
+
+      let workflowId = existingWorkflow?.id;
+      if (!workflowId) {
+        const { data: created, error: createError } = await supabase
+          .from('workflows')
+          .insert({ name: definition.name, scope: labId ? 'lab' : 'global', lab_id: labId })
+          .select('id')
+          .single();
+        if (createError) return { data: null, error: createError };
+        workflowId = created.id;
+      }
+
+      const { data: versions, error: versionError } = await supabase
+        .from('workflow_versions')
+        .select('id, version, definition, workflow_id, status')
+        .eq('workflow_id', workflowId);
+      if (versionError) return { data: null, error: versionError };
+
+      const published = (versions || []).find((v: { status: string }) => v.status === 'published');
+      let version = (versions || []).find((v: { version: number }) => v.version === definition.version);
+      if (!version) {
+        const { data: inserted, error: insertError } = await supabase
+          .from('workflow_versions')
+          .insert({ workflow_id: workflowId, version: definition.version, definition, status: 'draft' })
+          .select('id, version, definition, workflow_id, status')
+          .single();
+        if (insertError) return { data: null, error: insertError };
+        version = inserted;
+      }
+
+      if (version.status === 'draft' && (!published || published.version < version.version)) {
+        return database.workflows.publishVersion(version.id);
+      }
+      return { data: version, error: null };
     }
   },
 
@@ -1373,6 +2570,999 @@ export const database = {
     // ...existing code...
   },
 
+  // Structured reference ranges (sex / age band / trimester / specimen partitions)
+  referenceRanges: {
+    // Global rows plus the given lab's overrides for a set of analytes
+    getByAnalyteIds: async (analyteIds: string[], labId?: string | null) => {
+      if (analyteIds.length === 0) return { data: [], error: null };
+      let query = supabase
+        .from('analyte_reference_ranges')
+        .select('*')
+        .in('analyte_id', analyteIds)
+        .eq('is_active', true);
+
+      query = labId
+        ? query.or(`lab_id.is.null,lab_id.eq.${labId}`)
+        : query.is('lab_id', null);
+
+      const { data, error } = await query.order('created_at');
+      return { data, error };
+    },
+
+    // Replace all rows for an analyte at one scope (global when labId is null)
+    replaceForAnalyte: async (analyteId: string, rows: Partial<AnalyteReferenceRange>[], labId?: string | null) => {
+      let deleteQuery = supabase
+        .from('analyte_reference_ranges')
+        .delete()
+        .eq('analyte_id', analyteId);
+      deleteQuery = labId ? deleteQuery.eq('lab_id', labId) : deleteQuery.is('lab_id', null);
+
+      const { error: deleteError } = await deleteQuery;
+      if (deleteError) {
+        console.error('Error clearing reference ranges:', deleteError);
+        return { data: null, error: deleteError };
+      }
+
+      if (rows.length === 0) return { data: [], error: null };
+
+      const rowsToInsert = rows.map(row => ({
+        analyte_id: analyteId,
+        lab_id: labId || null,
+        sex: row.sex || 'any',
+        age_band: row.age_band || null,
+        age_min: row.age_min ?? null,
+        age_max: row.age_max ?? null,
+        age_unit: row.age_unit || 'years',
+        pregnancy_trimester: row.pregnancy_trimester || null,
+        specimen_type: row.specimen_type || null,
+        low_value: row.low_value ?? null,
+        high_value: row.high_value ?? null,
+        display_text: row.display_text || null,
+        notes: row.notes || null,
+        is_active: row.is_active !== false
+      }));
+
+      const { data, error } = await supabase
+        .from('analyte_reference_ranges')
+        .insert(rowsToInsert)
+        .select();
+      return { data, error };
+    },
+
+    delete: async (id: string) => {
+      const { error } = await supabase
+        .from('analyte_reference_ranges')
+        .delete()
+        .eq('id', id);
+      return { error };
+    }
+  },
+
+  // Internal quality control: materials/lots/targets, Westgard-evaluated runs, corrective actions
+  qc: {
+    // Materials with their lots and per-analyte targets
+    getMaterials: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase
+        .from('qc_materials')
+        .select('*, qc_lots(*, qc_lot_targets(*, analytes(id, name, unit)))')
+        .eq('is_active', true);
+      query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+      const { data, error } = await query.order('name');
+      return { data, error };
+    },
+
+    createMaterial: async (material: { name: string; level: string; manufacturer?: string; matrix?: string }) => {
+      const labId = await database.getCurrentUserLabId();
+      const { data, error } = await supabase
+        .from('qc_materials')
+        .insert([{ ...material, lab_id: labId }])
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    createLot: async (lot: { material_id: string; lot_number: string; expiry_date?: string | null; opened_at?: string | null }) => {
+      const { data, error } = await supabase
+        .from('qc_lots')
+        .insert([lot])
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    saveTarget: async (target: { lot_id: string; analyte_id: string; instrument?: string; target_mean: number; target_sd: number; unit?: string | null }) => {
+      if (!(target.target_sd > 0)) return { data: null, error: new Error('Target SD must be greater than zero') };
+      const { data, error } = await supabase
+        .from('qc_lot_targets')
+        .upsert([{ ...target, instrument: target.instrument || '' }], { onConflict: 'lot_id,analyte_id,instrument' })
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    // Runs for an analyte + instrument across all lots and levels, oldest first (Levey-Jennings series)
+    getSeries: async (analyteId: string, instrument = '', limit = 60) => {
+      const { data, error } = await supabase
+        .from('qc_runs')
+        .select('*, qc_lot_targets(target_mean, target_sd, unit, qc_lots(lot_number, qc_materials(name, level)))')
+        .eq('analyte_id', analyteId)
+        .eq('instrument', instrument)
+        .order('run_at', { ascending: false })
+        .limit(limit);
+      return { data: data ? [...data].reverse() : data, error };
+    },
+
+    // Evaluates the Westgard rules against the series history and stores the run
+    recordRun: async (run: { lot_target_id: string; value: number; run_at?: string; comment?: string }) => {
+      const { data: target, error: targetError } = await supabase
+        .from('qc_lot_targets')
+        .select('id, analyte_id, instrument, target_mean, target_sd, qc_lots(is_active, expiry_date)')
+        .eq('id', run.lot_target_id)
+        .single();
+      if (targetError) return { data: null, error: targetError };
+
+      const lot = Array.isArray(target.qc_lots) ? target.qc_lots[0] : target.qc_lots;
+      if (lot && !lot.is_active) return { data: null, error: new Error('This QC lot is no longer active') };
+      if (lot?.expiry_date && lot.expiry_date < new Date().toISOString().split('T')[0]) {
+        return { data: null, error: new Error(`QC lot expired on ${lot.expiry_date}`) };
+      }
+
+      const { data: history, error: historyError } = await supabase
+        .from('qc_runs')
+        .select('z_score')
+        .eq('analyte_id', target.analyte_id)
+        .eq('instrument', target.instrument)
+        .order('run_at', { ascending: false })
+        .limit(9);
+      if (historyError) return { data: null, error: historyError };
+
+      const evaluation = evaluateWestgard(
+        zScore(run.value, { mean: Number(target.target_mean), sd: Number(target.target_sd) }),
+        (history || []).map((h: { z_score: number }) => Number(h.z_score)).reverse()
+      );
+
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data, error } = await supabase
+        .from('qc_runs')
+        .insert([{
+          lab_id: labId,
+          lot_target_id: target.id,
+          analyte_id: target.analyte_id,
+          instrument: target.instrument,
+          value: run.value,
+          z_score: Math.round(evaluation.z * 1000) / 1000,
+          status: evaluation.status,
+          violations: evaluation.violations,
+          run_at: run.run_at || new Date().toISOString(),
+          entered_by: user?.id || null,
+          comment: run.comment || null
+        }])
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    // Unresolved rejections, optionally limited to a set of analytes
+    getOpenFailures: async (analyteIds?: string[]) => {
+      if (analyteIds && analyteIds.length === 0) return { data: [], error: null };
+      let query = supabase
+        .from('qc_open_failures')
+        .select('*, analytes(name)');
+      if (analyteIds) query = query.in('analyte_id', analyteIds);
+      const { data, error } = await query;
+      return { data, error };
+    },
+
+    // Analyte ids locked out of result entry by a QC failure
+    getBlockedAnalyteIds: async (analyteIds: string[]) => {
+      const { data, error } = await database.qc.getOpenFailures(analyteIds);
+      if (error) return { data: null, error };
+      return { data: Array.from(new Set((data || []).map((f: { analyte_id: string }) => f.analyte_id))), error: null };
+    },
+
+    // Logs the action and releases every open rejection for the analyte + instrument
+    logCorrectiveAction: async (action: { analyte_id: string; instrument?: string; root_cause?: string; action_taken: string; performed_by_name?: string }) => {
+      if (!action.action_taken.trim()) return { data: null, error: new Error('Describe the corrective action taken') };
+
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data, error } = await supabase
+        .from('qc_corrective_actions')
+        .insert([{
+          lab_id: labId,
+          analyte_id: action.analyte_id,
+          instrument: action.instrument || '',
+          root_cause: action.root_cause || null,
+          action_taken: action.action_taken,
+          performed_by: user?.id || null,
+          performed_by_name: action.performed_by_name || user?.email || null
+        }])
+        .select()
+        .single();
+      if (error) return { data: null, error };
+
+      const { error: resolveError } = await supabase
+        .from('qc_runs')
+        .update({ corrective_action_id: data.id, resolved_at: new Date().toISOString() })
+        .eq('analyte_id', action.analyte_id)
+        .eq('instrument', action.instrument || '')
+        .eq('status', 'rejected')
+        .is('resolved_at', null);
+      if (resolveError) return { data: null, error: resolveError };
+
+      return { data, error: null };
+    },
+
+    getCorrectiveActions: async (analyteId: string) => {
+      const { data, error } = await supabase
+        .from('qc_corrective_actions')
+        .select('*')
+        .eq('analyte_id', analyteId)
+        .order('performed_at', { ascending: false });
+      return { data, error };
+    }
+  },
+
+  labelTemplates: {
+    getAll: async () => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase.from('label_templates').select('*');
+      query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+      const { data, error } = await query.order('name');
+      return { data: data as LabelTemplate[] | null, error };
+    },
+
+    // Lab default, falling back to the built-in template for the requested format
+    getDefault: async (format?: LabelFormat) => {
+      const { data, error } = await database.labelTemplates.getAll();
+      if (error) return { data: null, error };
+      const templates = data || [];
+      const match = templates.find(t => t.is_default && (!format || t.format === format))
+        || (format ? templates.find(t => t.format === format) : undefined);
+      return { data: match || DEFAULT_LABEL_TEMPLATES[format || 'pdf'], error: null };
+    },
+
+    save: async (template: LabelTemplate) => {
+      const labId = await database.getCurrentUserLabId();
+      const { id, ...fields } = template;
+      const row = { ...fields, lab_id: fields.lab_id ?? labId, updated_at: new Date().toISOString() };
+
+      if (row.is_default) {
+        // Only one default per lab
+        let clear = supabase.from('label_templates').update({ is_default: false }).eq('is_default', true);
+        clear = row.lab_id ? clear.eq('lab_id', row.lab_id) : clear.is('lab_id', null);
+        if (id) clear = clear.neq('id', id);
+        const { error: clearError } = await clear;
+        if (clearError) return { data: null, error: clearError };
+      }
+
+      const { data, error } = id
+        ? await supabase.from('label_templates').update(row).eq('id', id).select().single()
+        : await supabase.from('label_templates').insert([row]).select().single();
+      return { data: data as LabelTemplate | null, error };
+    },
+
+    delete: async (id: string) => {
+      const { error } = await supabase
+        .from('label_templates')
+        .delete()
+        .eq('id', id);
+      return { error };
+    }
+  },
+
+  samples: {
+    getByOrderId: async (orderId: string) => {
+      const { data, error } = await supabase
+        .from('samples')
+        .select('*')
+        .eq('order_id', orderId)
+        .order('barcode');
+      return { data: data as OrderSample[] | null, error };
+    },
+
+    getByBarcode: async (barcode: string) => {
+      const { data, error } = await supabase
+        .from('samples')
+        .select('*, orders(id, sample_id, patient_name, status)')
+        .eq('barcode', barcode.trim())
+        .maybeSingle();
+      return { data, error };
+    },
+
+    // Creates one container per sample type needed by the order's tests; existing containers are kept
+    createForOrder: async (orderId: string) => {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select('id, lab_id, sample_id, order_tests(test_name), samples(id, sample_type, parent_sample_id, test_names)')
+        .eq('id', orderId)
+        .single();
+      if (orderError || !order) return { data: null, error: orderError };
+
+      const testNames: string[] = (order.order_tests || []).map((t: { test_name: string }) => t.test_name);
+      if (testNames.length === 0) return { data: [], error: null };
+
+      const { data: testGroups, error: groupsError } = await supabase
+        .from('test_groups')
+        .select('name, sample_type')
+        .in('name', testNames);
+      if (groupsError) return { data: null, error: groupsError };
+
+      const sampleTypeByTest = new Map<string, string>((testGroups || []).map(g => [g.name, g.sample_type]));
+      const planned = planOrderSamples(testNames.map(name => ({ name, sample_type: sampleTypeByTest.get(name) || null })));
+
+      const existing: Array<{ id: string; sample_type: string; parent_sample_id: string | null; test_names: string[] }> =
+        (order.samples || []).filter((s: { parent_sample_id: string | null }) => !s.parent_sample_id);
+
+      // Tests added to an order that already has a matching container ride along in that container
+      for (const plan of planned) {
+        const match = existing.find(s => s.sample_type === plan.sample_type);
+        if (!match) continue;
+        const missing = plan.test_names.filter(name => !match.test_names.includes(name));
+        if (missing.length > 0) {
+          await supabase
+            .from('samples')
+            .update({ test_names: [...match.test_names, ...missing], updated_at: new Date().toISOString() })
+            .eq('id', match.id);
+        }
+      }
+
+      const toCreate = planned.filter(plan => !existing.some(s => s.sample_type === plan.sample_type));
+      if (toCreate.length === 0) return { data: [], error: null };
+
+      const baseId = order.sample_id || order.id.slice(0, 8).toUpperCase();
+      const rows = toCreate.map((plan, index) => ({
+        order_id: order.id,
+        lab_id: order.lab_id,
+        sample_type: plan.sample_type,
+        container_type: plan.container_type,
+        color_code: plan.color_code,
+        test_names: plan.test_names,
+        barcode: generateSampleBarcode(baseId, existing.length + index + 1),
+        status: 'pending_collection'
+      }));
+
+      const { data, error } = await supabase
+        .from('samples')
+        .insert(rows)
+        .select();
+      return { data: data as OrderSample[] | null, error };
+    },
+
+    update: async (sampleId: string, updates: Partial<OrderSample> & { notes?: string | null; stored_at?: string | null }) => {
+      const { data, error } = await supabase
+        .from('samples')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', sampleId)
+        .select()
+        .single();
+      if (error || !data) return { data: null, error };
+
+      await database.orders.checkAndUpdateStatus(data.order_id);
+      return { data: data as OrderSample, error: null };
+    },
+
+    markCollected: async (sampleId: string, collectedBy: string, collectedAt?: string) =>
+      database.samples.update(sampleId, {
+        status: 'collected',
+        collected_at: collectedAt || new Date().toISOString(),
+        collected_by: collectedBy
+      }),
+
+    markReceived: async (sampleId: string, receivedBy: string) => {
+      const { data: sample, error: fetchError } = await supabase
+        .from('samples')
+        .select('status, collected_at')
+        .eq('id', sampleId)
+        .single();
+      if (fetchError || !sample) return { data: null, error: fetchError };
+      if (!sample.collected_at) {
+        return { data: null, error: new Error('Sample must be collected before it can be received') };
+      }
+      return database.samples.update(sampleId, {
+        status: 'received',
+        received_at: new Date().toISOString(),
+        received_by: receivedBy
+      });
+    },
+
+    setStorageLocation: async (sampleId: string, storageLocation: string) =>
+      database.samples.update(sampleId, {
+        status: 'stored',
+        storage_location: storageLocation,
+        stored_at: new Date().toISOString()
+      }),
+
+    // Rejects a container with a coded reason; recollection is handled by rejectSampleWithRecollection
+    reject: async (sampleId: string, rejection: { code: SampleRejectionCode; notes?: string; rejected_by: string }) => {
+      const { data: sample, error: fetchError } = await supabase
+        .from('samples')
+        .select('status, parent_sample_id')
+        .eq('id', sampleId)
+        .single();
+      if (fetchError || !sample) return { data: null, error: fetchError };
+      if (sample.status === 'rejected') {
+        return { data: null, error: new Error('Sample is already rejected') };
+      }
+      if (sample.parent_sample_id) {
+        return { data: null, error: new Error('Reject the primary container rather than an aliquot') };
+      }
+
+      const label = SAMPLE_REJECTION_REASONS[rejection.code];
+      return database.samples.update(sampleId, {
+        status: 'rejected',
+        rejection_code: rejection.code,
+        rejection_reason: rejection.notes?.trim() ? `${label}: ${rejection.notes.trim()}` : label,
+        rejected_at: new Date().toISOString(),
+        rejected_by: rejection.rejected_by
+      });
+    },
+
+    // Collected primary containers in a period, for the rejection-rate report
+    getCollectedInRange: async (from: string, to: string) => {
+      const { data, error } = await supabase
+        .from('samples')
+        .select('id, parent_sample_id, status, collected_at, collected_by, rejection_code')
+        .is('parent_sample_id', null)
+        .gte('collected_at', from)
+        .lte('collected_at', to);
+      return { data, error };
+    },
+
+    // Marks every pending container of an order collected (bulk "Mark Sample Collected")
+    collectAllForOrder: async (orderId: string, collectedBy: string) => {
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('samples')
+        .update({ status: 'collected', collected_at: now, collected_by: collectedBy, updated_at: now })
+        .eq('order_id', orderId)
+        .is('parent_sample_id', null)
+        .eq('status', 'pending_collection')
+        .select();
+      if (error) return { data: null, error };
+
+      await database.orders.checkAndUpdateStatus(orderId);
+      return { data: data as OrderSample[] | null, error: null };
+    },
+
+    createAliquot: async (parentSampleId: string, options: { volume_ml?: number | null; storage_location?: string | null } = {}) => {
+      const { data: parent, error: parentError } = await supabase
+        .from('samples')
+        .select('*')
+        .eq('id', parentSampleId)
+        .single();
+      if (parentError || !parent) return { data: null, error: parentError };
+      if (parent.parent_sample_id) {
+        return { data: null, error: new Error('Aliquots can only be taken from a primary container') };
+      }
+      if (!parent.received_at) {
+        return { data: null, error: new Error('Sample must be received in the lab before aliquoting') };
+      }
+
+      const { count, error: countError } = await supabase
+        .from('samples')
+        .select('id', { count: 'exact', head: true })
+        .eq('parent_sample_id', parentSampleId);
+      if (countError) return { data: null, error: countError };
+
+      const { data, error } = await supabase
+        .from('samples')
+        .insert([{
+          order_id: parent.order_id,
+          lab_id: parent.lab_id,
+          parent_sample_id: parent.id,
+          sample_type: parent.sample_type,
+          container_type: 'Aliquot tube',
+          color_code: parent.color_code,
+          test_names: parent.test_names,
+          barcode: generateAliquotBarcode(parent.barcode, (count || 0) + 1),
+          status: options.storage_location ? 'stored' : 'received',
+          collected_at: parent.collected_at,
+          collected_by: parent.collected_by,
+          received_at: parent.received_at,
+          received_by: parent.received_by,
+          storage_location: options.storage_location || null,
+          stored_at: options.storage_location ? new Date().toISOString() : null,
+          volume_ml: options.volume_ml ?? null
+        }])
+        .select()
+        .single();
+      return { data: data as OrderSample | null, error };
+    }
+  },
+
+  instruments: {
+    getMappings: async (instrumentCode?: string) => {
+      const labId = await database.getCurrentUserLabId();
+      let query = supabase.from('instrument_test_mappings').select('*, analytes(name, unit)');
+      query = labId ? query.or(`lab_id.is.null,lab_id.eq.${labId}`) : query.is('lab_id', null);
+      if (instrumentCode) query = query.eq('instrument_code', instrumentCode);
+      const { data, error } = await query.order('instrument_code').order('test_code');
+      return { data: data as InstrumentTestMapping[] | null, error };
+    },
+
+    saveMapping: async (mapping: InstrumentTestMapping) => {
+      const labId = await database.getCurrentUserLabId();
+      const { id } = mapping;
+      const row = {
+        lab_id: mapping.lab_id ?? labId,
+        instrument_code: mapping.instrument_code.trim(),
+        test_code: mapping.test_code.trim(),
+        analyte_id: mapping.analyte_id,
+        unit: mapping.unit || null,
+        is_active: mapping.is_active ?? true
+      };
+      const { data, error } = id
+        ? await supabase.from('instrument_test_mappings').update(row).eq('id', id).select().single()
+        : await supabase.from('instrument_test_mappings').upsert([row], { onConflict: 'lab_id,instrument_code,test_code' }).select().single();
+      return { data: data as InstrumentTestMapping | null, error };
+    },
+
+    deleteMapping: async (id: string) => {
+      const { error } = await supabase
+        .from('instrument_test_mappings')
+        .delete()
+        .eq('id', id);
+      return { error };
+    },
+
+    getMessages: async (limit = 50) => {
+      const { data, error } = await supabase
+        .from('instrument_messages')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(limit);
+      return { data, error };
+    },
+
+    // Specimen IDs sent by the analyser are container barcodes or the order sample_id
+    resolveSpecimens: async (specimenIds: string[]) => {
+      const orderIdBySpecimen = new Map<string, string>();
+      if (specimenIds.length === 0) return { data: orderIdBySpecimen, error: null };
+
+      const { data: containers, error: containersError } = await supabase
+        .from('samples')
+        .select('barcode, order_id')
+        .in('barcode', specimenIds);
+      if (containersError) return { data: null, error: containersError };
+      (containers || []).forEach((c: { barcode: string; order_id: string }) => orderIdBySpecimen.set(c.barcode, c.order_id));
+
+      const unresolved = specimenIds.filter(id => !orderIdBySpecimen.has(id));
+      if (unresolved.length > 0) {
+        // Sample IDs are only unique within a lab
+        const labId = await database.getCurrentUserLabId();
+        let ordersQuery = supabase
+          .from('orders')
+          .select('id, sample_id')
+          .in('sample_id', unresolved);
+        ordersQuery = labId ? ordersQuery.eq('lab_id', labId) : ordersQuery.is('lab_id', null);
+        const { data: orders, error: ordersError } = await ordersQuery;
+        if (ordersError) return { data: null, error: ordersError };
+        (orders || []).forEach((o: { id: string; sample_id: string }) => orderIdBySpecimen.set(o.sample_id, o.id));
+      }
+
+      return { data: orderIdBySpecimen, error: null };
+    },
+
+    // Parses the message, maps it onto orders and analytes and lands the values as draft results
+    planImport: async (rawMessage: string, instrumentCode: string) => {
+      let message;
+      try {
+        message = parseAstmMessage(rawMessage);
+      } catch (err) {
+        return { data: null, error: err instanceof Error ? err : new Error('ASTM message could not be parsed') };
+      }
+
+      const [specimens, mappings, analytes] = await Promise.all([
+        database.instruments.resolveSpecimens(specimenIdsOf(message)),
+        database.instruments.getMappings(instrumentCode),
+        supabase.from('analytes').select('id, name, unit, reference_range, alternate_unit, molar_mass, unit_conversion_factor')
+      ]);
+      const loadError = specimens.error || mappings.error || analytes.error;
+      if (loadError) return { data: null, error: loadError };
+
+      const mappedIds = Array.from(new Set((mappings.data || []).map(m => m.analyte_id)));
+      const { data: blocked, error: blockedError } = await database.qc.getBlockedAnalyteIds(mappedIds);
+      if (blockedError) return { data: null, error: blockedError };
+
+      const plan = planAstmImport(message, {
+        orderIdBySpecimen: specimens.data || new Map<string, string>(),
+        mappings: mappings.data || [],
+        analytesById: new Map((analytes.data as ImportAnalyte[] | null || []).map(a => [a.id, a])),
+        blockedAnalyteIds: new Set(blocked || [])
+      });
+      return { data: { message, plan }, error: null };
+    },
+
+    importMessage: async (rawMessage: string, instrumentCode: string) => {
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data: planned, error: planError } = await database.instruments.planImport(rawMessage, instrumentCode);
+
+      const summary = {
+        results_created: 0,
+        values_imported: 0,
+        unmatched_specimens: [] as string[],
+        skipped: [] as Array<{ specimenId: string; testCode: string; reason: string }>,
+        warnings: planned?.message.warnings || []
+      };
+      const errors: string[] = planError ? [planError.message] : [];
+
+      for (const entry of planned?.plan || []) {
+        entry.skipped.forEach(s => summary.skipped.push({ specimenId: entry.specimenId, ...s }));
+        if (!entry.orderId) {
+          summary.unmatched_specimens.push(entry.specimenId);
+          continue;
+        }
+        if (entry.values.length === 0) continue;
+
+        const { data: order, error: orderError } = await supabase
+          .from('orders')
+          .select('id, patient_id, patient_name, order_tests(test_name)')
+          .eq('id', entry.orderId)
+          .single();
+        if (orderError || !order) {
+          errors.push(`${entry.specimenId}: ${orderError?.message || 'order not found'}`);
+          continue;
+        }
+
+        const { error } = await database.results.create({
+          order_id: order.id,
+          patient_id: order.patient_id,
+          patient_name: order.patient_name,
+          test_name: (order.order_tests || []).map((t: { test_name: string }) => t.test_name).join(', ') || instrumentCode,
+          status: 'Entered',
+          entered_by: `${instrumentCode} (ASTM)`,
+          entered_date: new Date().toISOString().split('T')[0],
+          extracted_by_ai: false,
+          technician_notes: `Imported from ${instrumentCode}, specimen ${entry.specimenId}`,
+          values: entry.values.map(value => ({
+            analyte_id: value.analyte_id,
+            parameter: value.parameter,
+            value: value.value,
+            unit: value.unit,
+            reference_range: value.reference_range,
+            flag: value.flag,
+            original_value: value.original_value,
+            original_unit: value.original_unit
+          }))
+        });
+        if (error) {
+          errors.push(`${entry.specimenId}: ${error.message}`);
+          continue;
+        }
+        summary.results_created += 1;
+        summary.values_imported += entry.values.length;
+      }
+
+      const status = planError || (errors.length > 0 && summary.results_created === 0)
+        ? 'failed'
+        : errors.length > 0 || summary.unmatched_specimens.length > 0 || summary.skipped.length > 0
+          ? 'partial'
+          : 'imported';
+
+      const { error: logError } = await supabase.from('instrument_messages').insert([{
+        lab_id: labId,
+        instrument_code: instrumentCode,
+        protocol: 'astm',
+        sender: planned?.message.header.sender || null,
+        raw_message: rawMessage,
+        status,
+        summary,
+        error: errors.length > 0 ? errors.join('; ') : null,
+        processed_by: user?.id || null
+      }]);
+      if (logError) console.error('Error logging instrument message:', logError);
+
+      const outcome = { ...summary, status, errors };
+      if (status === 'failed') return { data: outcome, error: new Error(errors.join('; ')) };
+      return { data: outcome, error: null };
+    }
+  },
+
+  hl7: {
+    getMessages: async (filters: { direction?: 'inbound' | 'outbound'; limit?: number } = {}) => {
+      let query = supabase
+        .from('hl7_messages')
+        .select('*, orders(sample_id, patient_name)')
+        .order('created_at', { ascending: false })
+        .limit(filters.limit || 100);
+      if (filters.direction) query = query.eq('direction', filters.direction);
+      const { data, error } = await query;
+      return { data, error };
+    },
+
+    // MSH-4 sending facility: the lab code, so the HIS can tell labs apart
+    getFacility: async () => {
+      const labId = await database.getCurrentUserLabId();
+      if (!labId) return 'LIMS';
+      const { data } = await supabase.from('labs').select('code').eq('id', labId).single();
+      return (data?.code as string | undefined) || 'LIMS';
+    },
+
+    logMessage: async (entry: {
+      direction: 'inbound' | 'outbound';
+      message_type: string;
+      control_id?: string | null;
+      counterparty?: string | null;
+      order_id?: string | null;
+      patient_id?: string | null;
+      raw_message: string;
+      status: 'processed' | 'error' | 'rejected' | 'generated' | 'sent';
+      ack_code?: Hl7AckCode | null;
+      ack_message?: string | null;
+      error?: string | null;
+      replay_of?: string | null;
+    }) => {
+      const [{ data: { user } }, labId] = await Promise.all([supabase.auth.getUser(), database.getCurrentUserLabId()]);
+      const { data, error } = await supabase
+        .from('hl7_messages')
+        .insert([{ ...entry, lab_id: labId, created_by: user?.id || null }])
+        .select()
+        .single();
+      return { data, error };
+    },
+
+    // ORU^R01 for the order's approved results
+    buildOruForOrder: async (orderId: string, receiver: { application?: string; facility?: string } = {}) => {
+      const { data: order, error: orderError } = await supabase
+        .from('orders')
+        .select(`
+          id, sample_id, placer_order_number, doctor, order_date, sample_collected_at, patient_id,
+          patients(*),
+          results(id, test_name, status, entered_by, reviewed_by, reviewed_date, verified_at,
+            result_values(parameter, value, unit, reference_range, flag, analytes(loinc_code)))
+        `)
+        .eq('id', orderId)
+        .single();
+      if (orderError || !order) return { data: null, error: orderError || new Error('Order not found') };
+
+      type ValueRow = OruResult['values'][number] & { analytes?: { loinc_code: string | null } | { loinc_code: string | null }[] | null };
+      const results: OruResult[] = (order.results || []).map((r: Omit<OruResult, 'values'> & { result_values: ValueRow[] | null }) => ({
+        id: r.id,
+        test_name: r.test_name,
+        status: r.status,
+        entered_by: r.entered_by,
+        reviewed_by: r.reviewed_by,
+        reviewed_date: r.reviewed_date,
+        verified_at: r.verified_at,
+        values: (r.result_values || []).map(v => {
+          const analyte = Array.isArray(v.analytes) ? v.analytes[0] : v.analytes;
+          return {
+            parameter: v.parameter,
+            value: v.value,
+            unit: v.unit,
+            reference_range: v.reference_range,
+            flag: v.flag,
+            loinc_code: analyte?.loinc_code || null
+          };
+        })
+      }));
+      if (!results.some(isReportableResult)) {
+        return { data: null, error: new Error('Order has no approved results to send') };
+      }
+
+      const facility = await database.hl7.getFacility();
+      const { message, controlId } = buildOruR01(
+        { sendingApplication: 'LIMS', sendingFacility: facility, receivingApplication: receiver.application, receivingFacility: receiver.facility },
+        order,
+        order.patients as unknown as OruPatient,
+        results
+      );
+      return { data: { message, controlId, orderId: order.id, patientId: order.patient_id as string }, error: null };
+    },
+
+    exportOrderResults: async (orderId: string, receiver: { application?: string; facility?: string } = {}) => {
+      const { data: built, error } = await database.hl7.buildOruForOrder(orderId, receiver);
+      if (error || !built) return { data: null, error };
+
+      const { data: logged, error: logError } = await database.hl7.logMessage({
+        direction: 'outbound',
+        message_type: 'ORU^R01',
+        control_id: built.controlId,
+        counterparty: [receiver.application, receiver.facility].filter(Boolean).join('@') || null,
+        order_id: built.orderId,
+        patient_id: built.patientId,
+        raw_message: built.message,
+        status: 'generated'
+      });
+      if (logError) return { data: null, error: logError };
+      return { data: { ...built, logId: logged?.id as string }, error: null };
+    },
+
+    // Identifier match first, then name + date of birth; otherwise the HIS patient is registered
+    resolvePatient: async (patient: OrmPatient) => {
+      const candidates: PatientCandidate[] = [];
+      const labId = await database.getCurrentUserLabId();
+      if (patient.identifiers.length > 0) {
+        const ids = patient.identifiers.map(id => `"${id.replace(/"/g, '')}"`).join(',');
+        let query = supabase
+          .from('patients')
+          .select('id, name, date_of_birth, gender, display_id, external_patient_id')
+          .or(`external_patient_id.in.(${ids}),display_id.in.(${ids})`)
+          .eq('is_active', true);
+        query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+        const { data, error } = await query;
+        if (error) return { data: null, error };
+        candidates.push(...(data || []));
+      }
+      if (patient.birthDate && patient.familyName) {
+        let query = supabase
+          .from('patients')
+          .select('id, name, date_of_birth, gender, display_id, external_patient_id')
+          .eq('date_of_birth', patient.birthDate)
+          .ilike('name', `%${patient.familyName}%`)
+          .eq('is_active', true);
+        query = labId ? query.eq('lab_id', labId) : query.is('lab_id', null);
+        const { data, error } = await query;
+        if (error) return { data: null, error };
+        candidates.push(...(data || []));
+      }
+
+      const match = matchOrmPatient(patient, candidates);
+      if (match) return { data: { patientId: match.patient.id, patientName: match.patient.name, created: false }, error: null };
+
+      const { data: created, error } = await database.patients.create({
+        name: patient.name,
+        age: ageFromBirthDate(patient.birthDate),
+        gender: patient.gender,
+        date_of_birth: patient.birthDate,
+        phone: patient.phone,
+        address: patient.address,
+        city: patient.city,
+        state: patient.state,
+        pincode: patient.pincode,
+        external_patient_id: patient.identifiers[0] || null
+      });
+      if (error || !created) return { data: null, error: error || new Error('Patient could not be registered') };
+      return { data: { patientId: created.id as string, patientName: created.name as string, created: true }, error: null };
+    },
+
+    // Creates (or, for a repeated placer order number, reuses) one LIMS order per ORC group
+    createOrdersFromOrm: async (orm: OrmMessage) => {
+      const unsupported = orm.orders.find(o => o.orderControl !== 'NW');
+      if (unsupported) return { data: null, error: new Error(`Order control ${unsupported.orderControl} is not supported; only NW orders are accepted`) };
+
+      const labId = await database.getCurrentUserLabId();
+      let testsQuery = supabase.from('test_groups').select('name, code, price').eq('is_active', true);
+      testsQuery = labId ? testsQuery.or(`lab_id.is.null,lab_id.eq.${labId}`) : testsQuery;
+      const { data: testGroups, error: testsError } = await testsQuery;
+      if (testsError) return { data: null, error: testsError };
+
+      const findGroup = (code: string, text: string) => (testGroups || []).find(g =>
+        (code && g.code.toLowerCase() === code.toLowerCase()) ||
+        g.name.toLowerCase() === (text || code).toLowerCase()
+      );
+      const unknown = orm.orders.flatMap(o => o.tests).filter(t => !findGroup(t.code, t.text));
+      if (unknown.length > 0) {
+        return { data: null, error: new Error(`Unknown test code(s): ${unknown.map(t => t.code || t.text).join(', ')}`) };
+      }
+
+      const { data: patient, error: patientError } = await database.hl7.resolvePatient(orm.patient);
+      if (patientError || !patient) return { data: null, error: patientError };
+
+      const orderIds: string[] = [];
+      const today = new Date().toISOString().split('T')[0];
+      for (const ormOrder of orm.orders) {
+        if (ormOrder.placerOrderNumber) {
+          const { data: existing } = await supabase
+            .from('orders')
+            .select('id')
+            .eq('placer_order_number', ormOrder.placerOrderNumber)
+            .eq('patient_id', patient.patientId)
+            .maybeSingle();
+          if (existing) {
+            orderIds.push(existing.id);
+            continue;
+          }
+        }
+
+        const groups = ormOrder.tests
+          .map(t => findGroup(t.code, t.text))
+          .filter((g): g is { name: string; code: string; price: number } => Boolean(g));
+        const { data: order, error } = await database.orders.create({
+          patient_id: patient.patientId,
+          patient_name: patient.patientName,
+          doctor: ormOrder.orderingProvider || orm.msh.sendingFacility || 'HIS',
+          priority: ormOrder.priority,
+          order_date: today,
+          expected_date: today,
+          total_amount: groups.reduce((sum, g) => sum + Number(g.price || 0), 0),
+          notes: [`HL7 ORM from ${orm.msh.sendingApplication || 'HIS'} (${orm.msh.controlId})`, ...ormOrder.notes].join('\n'),
+          placer_order_number: ormOrder.placerOrderNumber || null,
+          lab_id: labId,
+          tests: Array.from(new Set(groups.map(g => g.name)))
+        });
+        if (error || !order) return { data: { orderIds, patientId: patient.patientId }, error: error || new Error('Order could not be created') };
+        orderIds.push(order.id);
+      }
+
+      return { data: { orderIds, patientId: patient.patientId }, error: null };
+    },
+
+    /**
+     * Processes an inbound message and returns the ACK to send back. Processing failures are
+     * reported through the ACK code (AE / AR) rather than the error, which is reserved for
+     * failures to log the message.
+     */
+    receive: async (rawMessage: string, options: { replayOf?: string } = {}) => {
+      let msh: MshInfo = {
+        sendingApplication: '', sendingFacility: '', receivingApplication: '', receivingFacility: '',
+        timestamp: null, messageType: '', triggerEvent: '', controlId: '', processingId: 'P', version: ''
+      };
+      let ackCode: Hl7AckCode = 'AA';
+      let errorText = '';
+      let orderIds: string[] = [];
+      let patientId: string | null = null;
+
+      try {
+        msh = readMsh(parseHl7Message(rawMessage));
+        if (msh.messageType !== 'ORM') {
+          ackCode = 'AR';
+          errorText = `Unsupported message type ${msh.messageType}^${msh.triggerEvent}`;
+        } else {
+          const { data, error } = await database.hl7.createOrdersFromOrm(parseOrmO01(rawMessage));
+          orderIds = data?.orderIds || [];
+          patientId = data?.patientId || null;
+          if (error) {
+            ackCode = 'AE';
+            errorText = error.message;
+          }
+        }
+      } catch (err) {
+        ackCode = msh.controlId ? 'AE' : 'AR';
+        errorText = err instanceof Error ? err.message : 'Message could not be processed';
+      }
+
+      if (!msh.receivingApplication) msh = { ...msh, receivingApplication: 'LIMS', receivingFacility: await database.hl7.getFacility() };
+      const ack = buildAck(msh, ackCode, errorText);
+
+      const { data: logged, error } = await database.hl7.logMessage({
+        direction: 'inbound',
+        message_type: msh.messageType ? `${msh.messageType}^${msh.triggerEvent}` : 'unknown',
+        control_id: msh.controlId || null,
+        counterparty: [msh.sendingApplication, msh.sendingFacility].filter(Boolean).join('@') || null,
+        order_id: orderIds[0] || null,
+        patient_id: patientId,
+        raw_message: rawMessage,
+        status: ackCode === 'AA' ? 'processed' : ackCode === 'AR' ? 'rejected' : 'error',
+        ack_code: ackCode,
+        ack_message: ack,
+        error: errorText || null,
+        replay_of: options.replayOf || null
+      });
+
+      return { data: { ack, ackCode, errorText, orderIds, patientId, logId: logged?.id as string | undefined }, error };
+    },
+
+    // Inbound messages are processed again; outbound ones are re-queued as a new log entry
+    replay: async (messageId: string) => {
+      const { data: original, error } = await supabase
+        .from('hl7_messages')
+        .select('*')
+        .eq('id', messageId)
+        .single();
+      if (error || !original) return { data: null, error: error || new Error('Message not found') };
+
+      if (original.direction === 'inbound') {
+        const { data, error: receiveError } = await database.hl7.receive(original.raw_message, { replayOf: original.id });
+        return { data: data ? { logId: data.logId, ackCode: data.ackCode, errorText: data.errorText } : null, error: receiveError };
+      }
+
+      const { data: logged, error: logError } = await database.hl7.logMessage({
+        direction: 'outbound',
+        message_type: original.message_type,
+        control_id: original.control_id,
+        counterparty: original.counterparty,
+        order_id: original.order_id,
+        patient_id: original.patient_id,
+        raw_message: original.raw_message,
+        status: 'generated',
+        replay_of: original.id
+      });
+      return { data: logged ? { logId: logged.id as string, ackCode: null, errorText: '' } : null, error: logError };
+    }
+  },
+
   testGroups: {
     getAll: async () => {
       const { data, error } = await supabase
@@ -1394,6 +3584,8 @@ export const database = {
           group_level_prompt,
           lab_id,
           to_be_copied,
+          loinc_code,
+          snomed_specimen_code,
           test_group_analytes(
             analyte_id,
             analytes(
@@ -1432,6 +3624,8 @@ export const database = {
           group_level_prompt,
           lab_id,
           to_be_copied,
+          loinc_code,
+          snomed_specimen_code,
           test_group_analytes(
             analyte_id,
             analytes(
@@ -1470,6 +3664,8 @@ export const database = {
           group_level_prompt,
           lab_id,
           to_be_copied,
+          loinc_code,
+          snomed_specimen_code,
           test_group_analytes(
             analyte_id,
             analytes(
@@ -1504,7 +3700,9 @@ export const database = {
           default_ai_processing_type: testGroupData.default_ai_processing_type || 'ocr_report',
           group_level_prompt: testGroupData.group_level_prompt || null,
           lab_id: testGroupData.lab_id || null,
-          to_be_copied: testGroupData.to_be_copied || false
+          to_be_copied: testGroupData.to_be_copied || false,
+          loinc_code: testGroupData.loincCode || null,
+          snomed_specimen_code: testGroupData.snomedSpecimenCode || null
         };
 
         console.log('Creating test group with data:', sanitizedData);
@@ -1563,6 +3761,8 @@ export const database = {
             is_active: updates.isActive,
             default_ai_processing_type: updates.default_ai_processing_type,
             group_level_prompt: updates.group_level_prompt,
+            loinc_code: updates.loincCode,
+            snomed_specimen_code: updates.snomedSpecimenCode,
             updated_at: new Date().toISOString()
           })
           .eq('id', id)
@@ -0,0 +1,372 @@
+/**
+ * UCUM-aware unit handling for result values: normalising the unit spellings found on
+ * reports and instruments to UCUM codes, converting within a dimension (mg/dL -> g/L),
+ * and across mass and substance concentration using analyte molar masses
+ * (glucose mg/dL -> mmol/L). Used to bring imported values into the analyte's canonical
+ * unit and to print SI and conventional units side by side on reports.
+ */
+
+export type UnitDimension =
+  | 'mass-concentration'
+  | 'substance-concentration'
+  | 'equivalent-concentration'
+  | 'catalytic-concentration'
+  | 'arbitrary-concentration'
+  | 'number-concentration'
+  | 'fraction'
+  | 'mass'
+  | 'volume';
+
+export interface ParsedUnit {
+  // Canonical UCUM code, e.g. "umol/L", "10*3/uL", "[IU]/L"
+  code: string;
+  dimension: UnitDimension;
+  // Multiplier to the dimension's base unit (g/L, mol/L, eq/L, U/L, [IU]/L, /L, 1, g, L)
+  scale: number;
+}
+
+export interface AnalyteUnitConfig {
+  name: string;
+  unit: string;
+  alternate_unit?: string | null;
+  molar_mass?: number | null;
+  unit_conversion_factor?: number | null;
+}
+
+const PREFIXES: Record<string, { code: string; scale: number }> = {
+  '': { code: '', scale: 1 },
+  k: { code: 'k', scale: 1e3 },
+  d: { code: 'd', scale: 1e-1 },
+  c: { code: 'c', scale: 1e-2 },
+  m: { code: 'm', scale: 1e-3 },
+  u: { code: 'u', scale: 1e-6 },
+  n: { code: 'n', scale: 1e-9 },
+  p: { code: 'p', scale: 1e-12 },
+  f: { code: 'f', scale: 1e-15 },
+};
+
+// Longest first so "mol" is not read as milli-"ol"
+const BASES: Array<{ match: string; code: string; dimension: UnitDimension }> = [
+  { match: 'mol', code: 'mol', dimension: 'substance-concentration' },
+  { match: 'eq', code: 'eq', dimension: 'equivalent-concentration' },
+  { match: 'iu', code: '[IU]', dimension: 'arbitrary-concentration' },
+  { match: 'g', code: 'g', dimension: 'mass-concentration' },
+  { match: 'u', code: 'U', dimension: 'catalytic-concentration' },
+  { match: 'l', code: 'L', dimension: 'volume' },
+];
+
+const splitPrefix = (token: string) => {
+  for (const base of BASES) {
+    if (!token.endsWith(base.match)) continue;
+    const prefix = PREFIXES[token.slice(0, token.length - base.match.length)];
+    if (prefix) return { prefix, base };
+  }
+  return null;
+};
+
+// Spellings seen on Indian and international lab reports, rewritten towards UCUM
+const cleanUnit = (raw: string) =>
+  raw
+    .trim()
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/×/g, 'x')
+    .replace(/³/g, '^3')
+    .replace(/\s+/g, '')
+    .replace(/mcg/g, 'ug')
+    .replace(/per/g, '/')
+    .replace(/(cu\.?mm|cmm|mm\^?3)$/, 'ul')
+    .replace(/cc$/, 'ml')
+    .replace(/^(lakhs?|lacs?)\//, '10^5/')
+    .replace(/^(thou|k|thousand)\//, '10^3/')
+    .replace(/^(million|mill|mil)\//, '10^6/')
+    .replace(/cells?\//, '/');
+
+const parseVolume = (token: string) => {
+  const split = splitPrefix(token);
+  return split && split.base.code === 'L' ? split.prefix : null;
+};
+
+/** Parses a unit string; returns null for units outside the supported dimensions (mm/h, mmol/mol, ...). */
+export const parseUnit = (raw: string | null | undefined): ParsedUnit | null => {
+  if (!raw || !raw.trim()) return null;
+  const unit = cleanUnit(raw);
+
+  if (unit === '%') return { code: '%', dimension: 'fraction', scale: 0.01 };
+  if (unit === 'l/l' || unit === '1') return { code: 'L/L', dimension: 'fraction', scale: 1 };
+
+  const [numerator, denominator, ...rest] = unit.split('/');
+  if (rest.length > 0) return null;
+
+  // Cell counts: "10^3/uL", "x10*9/L", "/uL"
+  const count = numerator.match(/^(?:x?10[\^*](\d+))?$/);
+  if (count && denominator !== undefined) {
+    const volume = parseVolume(denominator);
+    if (!volume) return null;
+    const exponent = count[1] ? Number(count[1]) : 0;
+    return {
+      code: `${exponent ? `10*${exponent}` : ''}/${volume.code}L`,
+      dimension: 'number-concentration',
+      scale: Math.pow(10, exponent) / volume.scale,
+    };
+  }
+
+  const split = splitPrefix(numerator);
+  if (!split) return null;
+  const numeratorCode = split.prefix.code + split.base.code;
+
+  if (denominator === undefined) {
+    if (split.base.code === 'g') return { code: numeratorCode, dimension: 'mass', scale: split.prefix.scale };
+    if (split.base.code === 'L') return { code: numeratorCode, dimension: 'volume', scale: split.prefix.scale };
+    return null;
+  }
+  if (split.base.code === 'L') return null;
+
+  const volume = parseVolume(denominator);
+  if (!volume) return null;
+  return {
+    code: `${numeratorCode}/${volume.code}L`,
+    dimension: split.base.dimension,
+    scale: split.prefix.scale / volume.scale,
+  };
+};
+
+/** The UCUM code for a unit string, or the trimmed input when it cannot be parsed. */
+export const normalizeUnit = (raw: string | null | undefined): string => parseUnit(raw)?.code || (raw || '').trim();
+
+export const unitsEquivalent = (a: string | null | undefined, b: string | null | undefined): boolean => {
+  const left = parseUnit(a);
+  const right = parseUnit(b);
+  if (left && right) return left.dimension === right.dimension && Math.abs(left.scale - right.scale) <= left.scale * 1e-9;
+  return (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase();
+};
+
+interface AnalyteChemistry {
+  names: string[];
+  molarMass: number;
+  // Charge for mEq/L <-> mmol/L
+  valence?: number;
+  conventionalUnit: string;
+  siUnit: string;
+}
+
+/**
+ * Molar masses (g/mol) and the usual conventional / SI unit pair for analytes commonly
+ * reported both ways. Matched as whole words against the analyte name; more specific names
+ * come first so that "blood urea nitrogen" is not read as urea.
+ */
+export const ANALYTE_CHEMISTRY: AnalyteChemistry[] = [
+  { names: ['blood urea nitrogen', 'urea nitrogen', 'bun'], molarMass: 28.014, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['urea'], molarMass: 60.06, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['glucose', 'blood sugar', 'fbs', 'rbs', 'ppbs'], molarMass: 180.16, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['triglycerides', 'triglyceride', 'tg'], molarMass: 885.7, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['cholesterol', 'hdl', 'ldl', 'vldl'], molarMass: 386.65, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['creatinine'], molarMass: 113.12, conventionalUnit: 'mg/dL', siUnit: 'umol/L' },
+  { names: ['uric acid'], molarMass: 168.11, conventionalUnit: 'mg/dL', siUnit: 'umol/L' },
+  { names: ['bilirubin'], molarMass: 584.66, conventionalUnit: 'mg/dL', siUnit: 'umol/L' },
+  { names: ['calcium'], molarMass: 40.078, valence: 2, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['magnesium'], molarMass: 24.305, valence: 2, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['phosphorus', 'phosphate'], molarMass: 30.974, conventionalUnit: 'mg/dL', siUnit: 'mmol/L' },
+  { names: ['sodium'], molarMass: 22.99, valence: 1, conventionalUnit: 'meq/L', siUnit: 'mmol/L' },
+  { names: ['potassium'], molarMass: 39.098, valence: 1, conventionalUnit: 'meq/L', siUnit: 'mmol/L' },
+  { names: ['chloride'], molarMass: 35.453, valence: 1, conventionalUnit: 'meq/L', siUnit: 'mmol/L' },
+  { names: ['bicarbonate'], molarMass: 61.017, valence: 1, conventionalUnit: 'meq/L', siUnit: 'mmol/L' },
+  { names: ['iron', 'tibc'], molarMass: 55.845, conventionalUnit: 'ug/dL', siUnit: 'umol/L' },
+  { names: ['vitamin d', '25 oh vitamin d', '25 hydroxy vitamin d'], molarMass: 400.64, conventionalUnit: 'ng/mL', siUnit: 'nmol/L' },
+  { names: ['vitamin b12', 'cobalamin'], molarMass: 1355.37, conventionalUnit: 'pg/mL', siUnit: 'pmol/L' },
+  { names: ['cortisol'], molarMass: 362.46, conventionalUnit: 'ug/dL', siUnit: 'nmol/L' },
+  { names: ['testosterone'], molarMass: 288.42, conventionalUnit: 'ng/dL', siUnit: 'nmol/L' },
+  { names: ['hemoglobin', 'haemoglobin'], molarMass: 16114.5, conventionalUnit: 'g/dL', siUnit: 'g/L' },
+  { names: ['albumin', 'total protein', 'globulin'], molarMass: 66500, conventionalUnit: 'g/dL', siUnit: 'g/L' },
+];
+
+const normaliseName = (name: string) => ` ${name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+export const chemistryFor = (analyteName: string | null | undefined): AnalyteChemistry | undefined => {
+  if (!analyteName) return undefined;
+  const name = normaliseName(analyteName);
+  return ANALYTE_CHEMISTRY.find(entry => entry.names.some(n => name.includes(` ${n} `)));
+};
+
+/**
+ * Multiplier taking a value in `from` to `to`, or null when the units cannot be related.
+ * An analyte's explicit factor (unit -> alternate_unit) wins; otherwise same-dimension
+ * scaling, then molar mass (analyte override, else the built-in table) and valence.
+ */
+export const conversionFactor = (from: string, to: string, analyte?: AnalyteUnitConfig | null): number | null => {
+  const source = parseUnit(from);
+  const target = parseUnit(to);
+
+  if (analyte?.unit_conversion_factor && analyte.alternate_unit) {
+    if (unitsEquivalent(from, analyte.unit) && unitsEquivalent(to, analyte.alternate_unit)) return analyte.unit_conversion_factor;
+    if (unitsEquivalent(from, analyte.alternate_unit) && unitsEquivalent(to, analyte.unit)) return 1 / analyte.unit_conversion_factor;
+  }
+  if (!source || !target) return unitsEquivalent(from, to) ? 1 : null;
+  if (source.dimension === target.dimension) return source.scale / target.scale;
+
+  const chemistry = chemistryFor(analyte?.name);
+  const molarMass = analyte?.molar_mass || chemistry?.molarMass;
+  const valence = chemistry?.valence;
+
+  // Everything below goes through substance concentration (mol/L)
+  const toMolar = (unit: ParsedUnit): number | null => {
+    if (unit.dimension === 'substance-concentration') return unit.scale;
+    if (unit.dimension === 'mass-concentration' && molarMass) return unit.scale / molarMass;
+    if (unit.dimension === 'equivalent-concentration' && valence) return unit.scale / valence;
+    return null;
+  };
+  const sourceMolar = toMolar(source);
+  const targetMolar = toMolar(target);
+  if (sourceMolar === null || targetMolar === null) return null;
+  return sourceMolar / targetMolar;
+};
+
+const NUMERIC_VALUE = /^\s*([<>]=?|≤|≥)?\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+const decimalsOf = (text: string) => (text.split('.')[1] || '').length;
+
+// Keeps roughly the same significant figures: 101 mg/dL -> 5.6 mmol/L, 1.2 mg/dL -> 106 umol/L
+const roundedDecimals = (inputDecimals: number, factor: number) =>
+  Math.min(4, Math.max(0, inputDecimals - Math.round(Math.log10(factor))));
+
+// Integer inputs do not gain trailing zeros (7500 /uL -> 7.5, not 7.500 10*3/uL)
+const formatConverted = (value: number, decimals: number, inputDecimals: number) => {
+  let fixed = value.toFixed(decimals);
+  if (inputDecimals === 0 && fixed.includes('.')) fixed = fixed.replace(/\.?0+$/, '');
+  return fixed === '-0' ? '0' : fixed;
+};
+
+/** Converts a result value string; "<5" and ">300" keep their qualifier. Text values return null. */
+export const convertValue = (
+  value: string,
+  from: string,
+  to: string,
+  analyte?: AnalyteUnitConfig | null
+): { value: string; factor: number } | null => {
+  const match = String(value ?? '').match(NUMERIC_VALUE);
+  if (!match) return null;
+  const factor = conversionFactor(from, to, analyte);
+  if (factor === null) return null;
+  if (factor === 1) return { value: value.trim(), factor };
+  const converted = Number(match[2]) * factor;
+  return { value: `${match[1] || ''}${formatConverted(converted, roundedDecimals(decimalsOf(match[2]), factor), decimalsOf(match[2]))}`, factor };
+};
+
+/** Scales every number in a free-text range ("70-110", "M: 13.5-17.5, F: 12.0-16.0", "< 200"). */
+export const convertReferenceRange = (range: string | null | undefined, factor: number): string => {
+  if (!range || factor === 1) return range || '';
+  return range.replace(/\d+(?:\.\d+)?/g, number =>
+    formatConverted(Number(number) * factor, roundedDecimals(decimalsOf(number), factor), decimalsOf(number))
+  );
+};
+
+export interface CanonicalValue {
+  value: string;
+  unit: string;
+  reference_range: string;
+  original_value: string | null;
+  original_unit: string | null;
+  converted: boolean;
+  // Set when the value is in a different unit that cannot be converted
+  error: string | null;
+}
+
+/**
+ * Brings an imported value into the analyte's canonical unit. Values already in the
+ * canonical unit (or without a unit) pass through unchanged; the source value and unit are
+ * kept for traceability when a conversion happens.
+ */
+export const toCanonicalUnit = (
+  row: { value: string; unit?: string | null; reference_range?: string | null },
+  analyte: AnalyteUnitConfig
+): CanonicalValue => {
+  const unchanged: CanonicalValue = {
+    value: row.value,
+    unit: row.unit || analyte.unit,
+    reference_range: row.reference_range || '',
+    original_value: null,
+    original_unit: null,
+    converted: false,
+    error: null,
+  };
+  if (!row.unit || !row.unit.trim() || !analyte.unit || unitsEquivalent(row.unit, analyte.unit)) {
+    return { ...unchanged, unit: analyte.unit || unchanged.unit };
+  }
+
+  const factor = conversionFactor(row.unit, analyte.unit, analyte);
+  if (factor === null) {
+    return { ...unchanged, error: `${row.unit} cannot be converted to ${analyte.unit} for ${analyte.name}` };
+  }
+  const converted = convertValue(row.value, row.unit, analyte.unit, analyte);
+  if (!converted) {
+    // Text results ("Positive") have no unit to convert
+    return { ...unchanged, unit: analyte.unit };
+  }
+  return {
+    value: converted.value,
+    unit: analyte.unit,
+    reference_range: convertReferenceRange(row.reference_range, factor),
+    original_value: row.value,
+    original_unit: row.unit,
+    converted: true,
+    error: null,
+  };
+};
+
+/**
+ * Result value columns for saving: converted to the analyte's canonical unit when possible,
+ * otherwise stored as given (values without an analyte, text results, unknown units).
+ */
+export const canonicalResultValue = (
+  row: {
+    value: string;
+    unit?: string | null;
+    reference_range?: string | null;
+    // Set by callers that already converted (e.g. the ASTM import)
+    original_value?: string | null;
+    original_unit?: string | null;
+  },
+  analyte: AnalyteUnitConfig | null | undefined
+) => {
+  const stored = {
+    value: row.value,
+    unit: row.unit ?? '',
+    reference_range: row.reference_range ?? '',
+    original_value: row.original_value ?? null,
+    original_unit: row.original_unit ?? null,
+  };
+  if (!analyte) return stored;
+  const canonical = toCanonicalUnit(row, analyte);
+  if (!canonical.converted) return stored;
+  return {
+    value: canonical.value,
+    unit: canonical.unit,
+    reference_range: canonical.reference_range,
+    original_value: canonical.original_value,
+    original_unit: canonical.original_unit,
+  };
+};
+
+/** The value in the analyte's alternate unit for dual SI / conventional reporting, if configured. */
+export const alternateUnitValue = (
+  row: { value: string; unit?: string | null; reference_range?: string | null },
+  analyte: AnalyteUnitConfig
+): { value: string; unit: string; reference_range: string } | null => {
+  if (!analyte.alternate_unit || unitsEquivalent(analyte.alternate_unit, row.unit || analyte.unit)) return null;
+  const converted = convertValue(row.value, row.unit || analyte.unit, analyte.alternate_unit, analyte);
+  if (!converted) return null;
+  return {
+    value: converted.value,
+    unit: analyte.alternate_unit,
+    reference_range: convertReferenceRange(row.reference_range, converted.factor),
+  };
+};
+
+// The other half of the analyte's conventional / SI pair, used to prefill the alternate unit
+export const suggestAlternateUnit = (analyte: Pick<AnalyteUnitConfig, 'name' | 'unit'>): string | null => {
+  const chemistry = chemistryFor(analyte.name);
+  if (!chemistry) return null;
+  if (unitsEquivalent(analyte.unit, chemistry.conventionalUnit)) return chemistry.siUnit;
+  if (unitsEquivalent(analyte.unit, chemistry.siUnit)) return chemistry.conventionalUnit;
+  return null;
+};
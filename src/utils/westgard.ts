@@ -0,0 +1,76 @@
+// Westgard multirule evaluation for internal quality control.
+// Runs are judged on their z-score against the lot's target mean/SD. History is
+// the series for the same analyte + instrument (all control levels), newest last,
+// so 2-2s / R-4s / 4-1s / 10x see across-level and across-run patterns.
+
+export type WestgardRule = '1-2s' | '1-3s' | '2-2s' | 'R-4s' | '4-1s' | '10x';
+
+export type QCRunStatus = 'accepted' | 'warning' | 'rejected';
+
+export const WESTGARD_RULES: Record<WestgardRule, { description: string; rejects: boolean }> = {
+  '1-2s': { description: 'One control beyond ±2 SD (warning)', rejects: false },
+  '1-3s': { description: 'One control beyond ±3 SD (random error)', rejects: true },
+  '2-2s': { description: 'Two consecutive controls beyond 2 SD on the same side (systematic error)', rejects: true },
+  'R-4s': { description: 'Range between consecutive controls exceeds 4 SD (random error)', rejects: true },
+  '4-1s': { description: 'Four consecutive controls beyond 1 SD on the same side (systematic error)', rejects: true },
+  '10x': { description: 'Ten consecutive controls on the same side of the mean (systematic error)', rejects: true },
+};
+
+export interface QCTarget {
+  mean: number;
+  sd: number;
+}
+
+export interface WestgardEvaluation {
+  z: number;
+  status: QCRunStatus;
+  violations: WestgardRule[];
+}
+
+export const zScore = (value: number, target: QCTarget): number => {
+  if (!(target.sd > 0)) throw new Error('Target SD must be greater than zero');
+  return (value - target.mean) / target.sd;
+};
+
+const sameSide = (zs: number[], limit: number): boolean =>
+  zs.every(z => z > limit) || zs.every(z => z < -limit);
+
+// `previousZ` holds earlier z-scores of the series, oldest first
+export const evaluateWestgard = (z: number, previousZ: number[] = []): WestgardEvaluation => {
+  const series = [...previousZ, z];
+  const last = (n: number) => (series.length >= n ? series.slice(-n) : null);
+  const violations: WestgardRule[] = [];
+
+  if (Math.abs(z) > 3) violations.push('1-3s');
+  else if (Math.abs(z) > 2) violations.push('1-2s');
+
+  const lastTwo = last(2);
+  if (lastTwo && sameSide(lastTwo, 2)) violations.push('2-2s');
+  if (lastTwo && Math.max(...lastTwo) > 2 && Math.min(...lastTwo) < -2) violations.push('R-4s');
+
+  const lastFour = last(4);
+  if (lastFour && sameSide(lastFour, 1)) violations.push('4-1s');
+
+  const lastTen = last(10);
+  if (lastTen && sameSide(lastTen, 0)) violations.push('10x');
+
+  const status: QCRunStatus = violations.some(rule => WESTGARD_RULES[rule].rejects)
+    ? 'rejected'
+    : violations.length > 0 ? 'warning' : 'accepted';
+
+  return { z, status, violations };
+};
+
+// Control limits for a Levey-Jennings chart
+export const controlLimits = (target: QCTarget) => ({
+  mean: target.mean,
+  plus1: target.mean + target.sd,
+  plus2: target.mean + 2 * target.sd,
+  plus3: target.mean + 3 * target.sd,
+  minus1: target.mean - target.sd,
+  minus2: target.mean - 2 * target.sd,
+  minus3: target.mean - 3 * target.sd,
+});
+
+export const formatViolations = (violations: WestgardRule[]): string =>
+  violations.map(rule => `${rule}: ${WESTGARD_RULES[rule].description}`).join('\n');
@@ -0,0 +1,140 @@
+// Binds WorkflowRunner to an order: instance + step events live in
+// order_workflow_instances / workflow_step_events, and commit steps create
+// results through database.results.create (flags, critical callbacks and
+// calculated analytes are handled there).
+import { database } from '../utils/supabase';
+import { calculateFlag } from '../utils/flagCalculation';
+import { WorkflowDefinition, WorkflowPersistence, WorkflowRunner, WorkflowState } from './workflowEngine';
+import { CommitMapping, CommitStep, formatValidationIssues, hasBlockingIssues, validateWorkflowDefinition } from './workflowSchema';
+import { uploadWorkflowFiles, runWorkflowAnalysis } from './workflowServices';
+
+export type { CommitMapping } from './workflowSchema';
+
+export interface WorkflowOrderContext {
+  id: string;
+  patient_id: string;
+  patient_name: string;
+  patient_gender?: string | null;
+}
+
+const stringValue = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Result values a commit step produces from the data captured so far
+export const buildCommitValues = (step: CommitStep, state: WorkflowState, gender?: string | null) => {
+  const mappings: CommitMapping[] = step.mappings || [];
+
+  const rows: Array<Omit<CommitMapping, 'source'> & { value: string }> = mappings.length > 0
+    ? mappings.map(({ source, ...m }) => {
+        const [stepId, ...path] = source.split('.');
+        // Ignore data from steps left behind by back() or a different branch
+        const visited = state.history.includes(stepId) && !state.skipped.includes(stepId);
+        const stepData = visited ? state.data[stepId] as Record<string, unknown> | undefined : undefined;
+        return { ...m, value: stringValue(path.reduce<unknown>((acc, key) => (acc as Record<string, unknown> | undefined)?.[key], stepData)) };
+      })
+    // Without explicit mappings every review field becomes a parameter of the same name
+    : state.definition.steps
+        .filter(s => s.type === 'review' && state.history.includes(s.id) && !state.skipped.includes(s.id))
+        .flatMap(s => Object.entries((state.data[s.id] as Record<string, unknown>) || {})
+          .map(([field, value]) => ({ parameter: field, value: stringValue(value) })));
+
+  return rows
+    .filter(row => row.value.trim() !== '')
+    .map(row => ({
+      parameter: row.parameter,
+      analyte_id: row.analyte_id,
+      value: row.value,
+      unit: row.unit || '',
+      reference_range: row.reference_range || '',
+      flag: row.reference_range ? calculateFlag(row.value, row.reference_range, gender || undefined) : ''
+    }));
+};
+
+export const createOrderWorkflowPersistence = (
+  instanceId: string,
+  order: WorkflowOrderContext,
+  enteredBy: string
+): WorkflowPersistence => ({
+  recordEvent: async (stepId, eventType, payload) => {
+    const { error } = await database.workflows.insertStepEvent(instanceId, stepId, eventType, payload);
+    if (error) throw new Error(`Failed to record workflow event: ${error.message}`);
+  },
+  setCurrentStep: async (stepId) => {
+    const { error } = await database.workflows.updateOrderWorkflowCurrentStep(instanceId, stepId);
+    if (error) throw new Error(`Failed to update workflow step: ${error.message}`);
+  },
+  commit: async (step, state) => {
+    const values = buildCommitValues(step, state, order.patient_gender);
+    if (values.length === 0) throw new Error('No captured values to commit');
+
+    const { data, error } = await database.results.create({
+      order_id: order.id,
+      patient_id: order.patient_id,
+      patient_name: order.patient_name,
+      test_name: step.test_name || state.definition.name,
+      status: 'Entered',
+      entered_by: enteredBy,
+      entered_date: new Date().toISOString().split('T')[0],
+      technician_notes: `Captured via workflow ${state.definition.id} v${state.definition.version}`,
+      values
+    });
+    if (error || !data) throw new Error(`Failed to create results: ${error?.message || 'unknown error'}`);
+
+    return { result_id: data.id, value_count: values.length };
+  },
+  uploadCapture: (step, files) => uploadWorkflowFiles(
+    files,
+    { category: `workflows/${order.id}`, relatedTable: 'orders', relatedId: order.id, patientId: order.patient_id },
+    `Workflow capture - ${step.title || step.prompt}`
+  ),
+  analyze: runWorkflowAnalysis
+});
+
+// Resume the order's workflow instance, or start one pinned to the lab's published version
+// of the workflow mapped to the order's tests
+export const loadOrderWorkflowRunner = async (
+  order: WorkflowOrderContext,
+  enteredBy: string
+): Promise<{ runner: WorkflowRunner; instanceId: string; resumed: boolean }> => {
+  const { data: instance, error: instanceError } = await database.workflows.getOrderWorkflowInstance(order.id);
+  if (instanceError) throw new Error(instanceError.message);
+
+  if (instance) {
+    const { data: version, error: versionError } = await database.workflows.getWorkflowVersion(instance.workflow_version_id);
+    if (versionError || !version) throw new Error(versionError?.message || 'Workflow version not found');
+
+    const { data: events, error: eventsError } = await database.workflows.getStepEvents(instance.id);
+    if (eventsError) throw new Error(eventsError.message);
+
+    // Always the version the instance started with, even if a newer one was published since
+    const persistence = createOrderWorkflowPersistence(instance.id, order, enteredBy);
+    return {
+      runner: WorkflowRunner.fromEvents(version.definition as WorkflowDefinition, events || [], persistence),
+      instanceId: instance.id,
+      resumed: true
+    };
+  }
+
+  const { data: version, error: resolveError } = await database.workflows.getForOrder(order.id);
+  if (resolveError) throw new Error(resolveError.message);
+  if (!version) throw new Error('No published workflow is mapped to the tests on this order');
+
+  const definition = version.definition as WorkflowDefinition;
+  const issues = validateWorkflowDefinition(definition);
+  if (hasBlockingIssues(issues)) throw new Error(`Workflow definition is invalid:\n${formatValidationIssues(issues)}`);
+
+  const { data: created, error: createError } = await database.workflows.createOrderWorkflowInstance(
+    order.id,
+    version.id,
+    definition.steps[0]?.id
+  );
+  if (createError || !created) throw new Error(createError?.message || 'Failed to create workflow instance');
+
+  return {
+    runner: new WorkflowRunner(definition, createOrderWorkflowPersistence(created.id, order, enteredBy)),
+    instanceId: created.id,
+    resumed: false
+  };
+};
@@ -0,0 +1,179 @@
+// Runs AI protocols (ai_protocols / ai_protocol_steps) on WorkflowRunner so techs
+// get the same step UI and behaviour as order workflows. Protocol steps are
+// converted to a WorkflowDefinition; the event log lives in
+// ai_protocol_sessions.session_data.events, captures are also recorded in ai_captures.
+import { supabase } from '../utils/supabase';
+import { WorkflowEventRecord, WorkflowPersistence, WorkflowRunner } from './workflowEngine';
+import { WorkflowAnalysisFunction, WorkflowDefinition, WorkflowStep } from './workflowSchema';
+import { findAnalysisImage, runWorkflowAnalysis, uploadWorkflowFiles } from './workflowServices';
+
+export interface ProtocolStepRow {
+  id: string;
+  step_order: number;
+  step_type: string; // capture | timer | instruction | analysis | validation
+  title: string;
+  description: string | null;
+  config: Record<string, unknown> | null;
+  is_required: boolean | null;
+  estimated_duration_seconds: number | null;
+}
+
+export interface ProtocolRow {
+  id: string;
+  name: string;
+  version?: string | null;
+}
+
+export interface ProtocolSessionRow {
+  id: string;
+  order_id?: string | null;
+  patient_id?: string | null;
+  session_data?: { events?: WorkflowEventRecord[] } & Record<string, unknown> | null;
+}
+
+const DEFAULT_ANALYSIS_FUNCTIONS: WorkflowAnalysisFunction[] = ['vision-ocr', 'gemini-nlp'];
+
+const stringList = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.map(String) : undefined;
+
+export const protocolStepToWorkflowStep = (row: ProtocolStepRow): WorkflowStep => {
+  const config = row.config || {};
+  const base = { id: row.id, title: row.title, required: row.is_required ?? true };
+
+  switch (row.step_type) {
+    case 'capture': {
+      const captureType = config.capture_type === 'image' || config.capture_type === 'numerical' ? config.capture_type : 'text';
+      return {
+        ...base,
+        type: 'capture',
+        prompt: row.description || row.title,
+        capture_type: captureType,
+        unit: typeof config.unit === 'string' ? config.unit : undefined,
+        accept: captureType === 'image' ? 'image/*' : undefined
+      };
+    }
+    case 'timer':
+      return {
+        ...base,
+        type: 'timer',
+        duration_seconds: Number(config.timer_duration) || row.estimated_duration_seconds || 0
+      };
+    case 'analysis':
+      return {
+        ...base,
+        type: 'analyze',
+        algorithm: String(config.algorithm || config.ai_service || 'protocol_analysis'),
+        functions: (stringList(config.functions) as WorkflowAnalysisFunction[] | undefined) || DEFAULT_ANALYSIS_FUNCTIONS,
+        inputs: stringList(config.inputs),
+        test_type: typeof config.test_type === 'string' ? config.test_type : undefined
+      };
+    case 'validation': {
+      const fields = stringList(config.fields) || ['validation_notes'];
+      return { ...base, type: 'review', fields, optional_fields: config.fields ? undefined : fields };
+    }
+    default:
+      // instruction (and anything unrecognised) is shown as an information step
+      return {
+        ...base,
+        type: 'info',
+        text: row.description || row.title,
+        items: stringList(config.requirements)?.map(r => r.replace(/_/g, ' '))
+      };
+  }
+};
+
+export const protocolToDefinition = (protocol: ProtocolRow, rows: ProtocolStepRow[]): WorkflowDefinition => ({
+  id: `protocol_${protocol.id}`,
+  name: protocol.name,
+  version: parseInt(protocol.version || '', 10) || 1,
+  steps: [...rows].sort((a, b) => a.step_order - b.step_order).map(protocolStepToWorkflowStep)
+});
+
+export const createProtocolSessionPersistence = (
+  session: ProtocolSessionRow,
+  definition: WorkflowDefinition,
+  stepOrder: Map<string, number>
+): WorkflowPersistence => {
+  const events: WorkflowEventRecord[] = [...(session.session_data?.events || [])];
+
+  const saveSession = async (patch: Record<string, unknown>) => {
+    const { error } = await supabase.from('ai_protocol_sessions').update(patch).eq('id', session.id);
+    if (error) throw new Error(`Failed to save protocol session: ${error.message}`);
+  };
+
+  return {
+    recordEvent: async (stepId, eventType, payload) => {
+      events.push({ step_id: stepId, event_type: eventType, payload: payload || null });
+      await saveSession({ session_data: { ...(session.session_data || {}), events }, status: 'in_progress' });
+    },
+    setCurrentStep: async (stepId) => {
+      await saveSession(stepId
+        ? { current_step_id: stepId, current_step_order: stepOrder.get(stepId) ?? null }
+        : { current_step_id: null, current_step_order: definition.steps.length + 1 });
+    },
+    uploadCapture: async (step, files) => {
+      const uploaded = await uploadWorkflowFiles(
+        files,
+        { category: `ai-protocols/${session.id}`, relatedTable: 'ai_protocol_sessions', relatedId: session.id, patientId: session.patient_id },
+        `Protocol capture - ${step.title || step.prompt}`
+      );
+      const { error } = await supabase.from('ai_captures').insert(uploaded.map(file => ({
+        session_id: session.id,
+        step_id: step.id,
+        capture_type: step.capture_type || 'image',
+        file_path: file.path,
+        file_size_bytes: file.size,
+        mime_type: file.type,
+        capture_metadata: { attachment_id: file.attachment_id, file_name: file.name },
+        analysis_status: 'pending'
+      })));
+      if (error) throw new Error(`Failed to record capture: ${error.message}`);
+      return uploaded;
+    },
+    analyze: async (step, state) => {
+      const image = findAnalysisImage(step, state);
+      const startedAt = Date.now();
+      const results = await runWorkflowAnalysis(step, state);
+      if (image?.path) {
+        const nlp = results['gemini-nlp'] as { confidence?: number } | undefined;
+        await supabase
+          .from('ai_captures')
+          .update({
+            analysis_status: 'completed',
+            analysis_results: results,
+            confidence_score: typeof nlp?.confidence === 'number' ? nlp.confidence : null,
+            processed_at: new Date().toISOString(),
+            processing_duration_ms: Date.now() - startedAt
+          })
+          .eq('session_id', session.id)
+          .eq('file_path', image.path);
+      }
+      return results;
+    }
+  };
+};
+
+// Runner for a protocol session; resumes from the session's stored events
+export const loadProtocolSessionRunner = async (protocol: ProtocolRow, session: ProtocolSessionRow) => {
+  const { data, error } = await supabase
+    .from('ai_protocol_steps')
+    .select('id, step_order, step_type, title, description, config, is_required, estimated_duration_seconds')
+    .eq('protocol_id', protocol.id)
+    .order('step_order', { ascending: true });
+  if (error) throw new Error(`Failed to load protocol steps: ${error.message}`);
+
+  const rows = (data || []) as ProtocolStepRow[];
+  if (rows.length === 0) throw new Error('This protocol has no steps');
+
+  const definition = protocolToDefinition(protocol, rows);
+  const persistence = createProtocolSessionPersistence(session, definition, new Map(rows.map(r => [r.id, r.step_order])));
+  const events = session.session_data?.events || [];
+
+  return {
+    definition,
+    runner: events.length > 0
+      ? WorkflowRunner.fromEvents(definition, events, persistence)
+      : new WorkflowRunner(definition, persistence),
+    resumed: events.length > 0
+  };
+};
@@ -1,38 +1,391 @@
-// Lightweight client-side workflow engine (demo only, no persistence)
-export interface WorkflowStep {
-  id: string;
-  type: string; // info | capture | analyze | review | commit
-  [key: string]: any;
+// Client-side workflow engine for order workflows and AI protocols.
+// The runner is a step machine over a WorkflowDefinition. When given a
+// WorkflowPersistence it records every transition as a step event, so an
+// instance can be rebuilt from its event log and resumed on another device.
+// Timers are event-sourced too (start/pause carry wall-clock timestamps), so
+// a running timer keeps counting across page reloads.
+import { AnalyzeStep, CaptureStep, CommitStep, WorkflowCondition, WorkflowDefinition, WorkflowStep } from './workflowSchema';
+
+// Step and definition types live in workflowSchema alongside the validator
+export type {
+  WorkflowBranch,
+  WorkflowCondition,
+  WorkflowConditionOp,
+  WorkflowDefinition,
+  WorkflowStep,
+} from './workflowSchema';
+
+export interface WorkflowTimerState {
+  duration_seconds: number;
+  elapsed_ms: number; // time accumulated before the current run
+  started_at: string | null; // set while running
 }
-export interface WorkflowDefinition {
-  id: string;
+
+// Stored as capture step data in place of the File objects
+export interface WorkflowCapturedFile {
   name: string;
-  modality?: string;
-  version: number;
-  steps: WorkflowStep[];
+  type: string;
+  size: number;
+  path?: string;
+  url?: string;
+  attachment_id?: string;
 }
+
 export interface WorkflowState {
   definition: WorkflowDefinition;
   index: number;
-  data: Record<string, any>;
+  data: Record<string, unknown>;
+  history: string[]; // step ids entered, oldest first; back() pops this
+  skipped: string[];
+  committed: string[]; // commit steps that already created records
+  timers: Record<string, WorkflowTimerState>;
   complete: boolean;
 }
-export type WorkflowListener = (evt: { type: string; step?: WorkflowStep; state: WorkflowState; payload?: any }) => void;
+
+export interface WorkflowEventRecord {
+  step_id: string;
+  event_type: string;
+  payload?: Record<string, unknown> | null;
+}
+
+export interface WorkflowPersistence {
+  recordEvent: (stepId: string, eventType: string, payload?: Record<string, unknown>) => Promise<void>;
+  setCurrentStep: (stepId: string | null) => Promise<void>;
+  // Creates the records a commit step stands for; the returned object is stored as the step's data
+  commit?: (step: CommitStep, state: WorkflowState) => Promise<Record<string, unknown>>;
+  // Stores files captured on a capture step; without it only file names are kept
+  uploadCapture?: (step: CaptureStep, files: File[], state: WorkflowState) => Promise<WorkflowCapturedFile[]>;
+  // Runs the edge functions of an analyze step; the result is stored under `results`
+  analyze?: (step: AnalyzeStep, state: WorkflowState) => Promise<Record<string, unknown>>;
+}
+
+export type WorkflowListener = (evt: { type: string; step?: WorkflowStep; state: WorkflowState; payload?: unknown }) => void;
+
+const getPath = (data: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>((acc, key) => (acc && typeof acc === 'object' ? (acc as Record<string, unknown>)[key] : undefined), data);
+
+const toComparable = (value: unknown): number | string => {
+  if (typeof value === 'number') return value;
+  const parsed = parseFloat(String(value));
+  return isNaN(parsed) ? String(value ?? '') : parsed;
+};
+
+export const evaluateCondition = (condition: WorkflowCondition, data: Record<string, unknown>): boolean => {
+  const actual = getPath(data, condition.field);
+  if (condition.op === 'exists') return actual !== undefined && actual !== null && actual !== '';
+  if (actual === undefined || actual === null || actual === '') return false;
+
+  if (condition.op === 'in') {
+    return Array.isArray(condition.value) && condition.value.map(String).includes(String(actual));
+  }
+
+  const left = toComparable(actual);
+  const right = toComparable(condition.value);
+  switch (condition.op) {
+    case 'eq': return left === right;
+    case 'neq': return left !== right;
+    case 'gt': return left > right;
+    case 'gte': return left >= right;
+    case 'lt': return left < right;
+    case 'lte': return left <= right;
+    default: return false;
+  }
+};
 
 export class WorkflowRunner {
   private state: WorkflowState;
   private listeners: WorkflowListener[] = [];
-  constructor(def: WorkflowDefinition) {
-    this.state = { definition: def, index: 0, data: {}, complete: false };
+  private persistence?: WorkflowPersistence;
+  private busy = false;
+
+  constructor(def: WorkflowDefinition, persistence?: WorkflowPersistence) {
+    this.state = { definition: def, index: 0, data: {}, history: [], skipped: [], committed: [], timers: {}, complete: false };
+    this.persistence = persistence;
+  }
+
+  // Rebuild a runner from a persisted event log (oldest first)
+  static fromEvents(def: WorkflowDefinition, events: WorkflowEventRecord[], persistence?: WorkflowPersistence): WorkflowRunner {
+    const runner = new WorkflowRunner(def, persistence);
+    const state = runner.state;
+
+    for (const evt of events) {
+      const payload = evt.payload || {};
+      switch (evt.event_type) {
+        case 'step.enter':
+          if (payload.via === 'back') {
+            while (state.history.length > 0 && state.history[state.history.length - 1] !== evt.step_id) {
+              state.history.pop();
+            }
+          } else {
+            state.history.push(evt.step_id);
+          }
+          break;
+        case 'step.next':
+          state.skipped = state.skipped.filter(id => id !== evt.step_id);
+          if (payload.data !== undefined) state.data[evt.step_id] = payload.data;
+          break;
+        case 'step.skip':
+          state.skipped.push(evt.step_id);
+          break;
+        case 'step.commit':
+          state.committed.push(evt.step_id);
+          if (payload.data !== undefined) state.data[evt.step_id] = payload.data;
+          break;
+        case 'timer.start':
+          runner.timerFor(evt.step_id).started_at = String(payload.started_at);
+          break;
+        case 'timer.pause':
+          Object.assign(runner.timerFor(evt.step_id), { started_at: null, elapsed_ms: Number(payload.elapsed_ms) || 0 });
+          break;
+        case 'timer.reset':
+          Object.assign(runner.timerFor(evt.step_id), { started_at: null, elapsed_ms: 0 });
+          break;
+        case 'workflow.complete':
+          state.complete = true;
+          break;
+      }
+    }
+
+    const current = state.history[state.history.length - 1];
+    const index = current ? def.steps.findIndex(s => s.id === current) : 0;
+    state.index = index >= 0 ? index : 0;
+    return runner;
+  }
+
+  private timerFor(stepId: string): WorkflowTimerState {
+    if (!this.state.timers[stepId]) {
+      const step = this.state.definition.steps.find(s => s.id === stepId);
+      this.state.timers[stepId] = {
+        duration_seconds: step?.type === 'timer' ? step.duration_seconds : 0,
+        elapsed_ms: 0,
+        started_at: null
+      };
+    }
+    return this.state.timers[stepId];
+  }
+
+  on(listener: WorkflowListener) {
+    this.listeners.push(listener);
+    return () => { this.listeners = this.listeners.filter(l => l !== listener); };
+  }
+
+  private emit(type: string, payload?: unknown) {
+    const step = this.currentStep();
+    this.listeners.forEach(l => l({ type, step, state: this.state, payload }));
+  }
+
+  private async record(stepId: string, eventType: string, payload?: Record<string, unknown>) {
+    if (this.persistence) await this.persistence.recordEvent(stepId, eventType, payload);
+  }
+
+  private indexOf(stepId: string): number {
+    const index = this.state.definition.steps.findIndex(s => s.id === stepId);
+    if (index < 0) throw new Error(`Workflow step "${stepId}" does not exist`);
+    return index;
+  }
+
+  private successorOf(step: WorkflowStep): string | null {
+    if (step.type === 'branch') {
+      const match = step.branches.find(branch =>
+        (Array.isArray(branch.when) ? branch.when : [branch.when]).every(c => evaluateCondition(c, this.state.data))
+      );
+      if (match) return match.goto;
+      if (step.default) return step.default;
+    }
+    if (step.next) return step.next;
+    const following = this.state.definition.steps[this.state.index + 1];
+    return following ? following.id : null;
+  }
+
+  private async enter(stepId: string | null, via: 'start' | 'next' | 'skip' | 'back' | 'branch') {
+    if (!stepId) {
+      this.state.complete = true;
+      await this.persistence?.setCurrentStep(null);
+      await this.record(this.state.history[this.state.history.length - 1] || '', 'workflow.complete');
+      this.emit('workflow.complete');
+      return;
+    }
+
+    this.state.index = this.indexOf(stepId);
+    if (via === 'back') {
+      while (this.state.history.length > 0 && this.state.history[this.state.history.length - 1] !== stepId) {
+        this.state.history.pop();
+      }
+    } else {
+      this.state.history.push(stepId);
+    }
+    await this.persistence?.setCurrentStep(stepId);
+    await this.record(stepId, 'step.enter', { via });
+    this.emit('step.enter');
+
+    // Branch steps have no UI; resolve them as soon as they are entered
+    const step = this.currentStep();
+    if (step?.type === 'branch') {
+      const target = this.successorOf(step);
+      await this.record(step.id, 'step.next', { branch: target });
+      this.emit('step.branch', { goto: target });
+      await this.enter(target, 'branch');
+    }
   }
-  on(listener: WorkflowListener) { this.listeners.push(listener); }
-  private emit(type: string, payload?: any) { const step = this.currentStep(); this.listeners.forEach(l=>l({ type, step, state: this.state, payload })); }
+
+  private async guard(action: () => Promise<void>) {
+    if (this.busy) return;
+    this.busy = true;
+    try {
+      await action();
+    } catch (err) {
+      this.emit('step.error', { message: err instanceof Error ? err.message : String(err) });
+      throw err;
+    } finally {
+      this.busy = false;
+    }
+  }
+
   currentStep(): WorkflowStep | undefined { return this.state.definition.steps[this.state.index]; }
-  start() { this.emit('workflow.start'); this.emit('step.enter'); }
-  next(payload?: any) {
-    if (payload) this.state.data[this.currentStep()?.id || ''] = payload;
-    if (this.state.index + 1 >= this.state.definition.steps.length) { this.state.complete = true; this.emit('workflow.complete'); return; }
-    this.state.index += 1; this.emit('step.enter');
+
+  async start() {
+    if (this.state.history.length > 0) {
+      // Resumed instance: re-announce where we are without writing new events
+      this.emit(this.state.complete ? 'workflow.complete' : 'step.enter');
+      return;
+    }
+    this.emit('workflow.start');
+    await this.guard(() => this.enter(this.state.definition.steps[0]?.id || null, 'start'));
+  }
+
+  async next(payload?: Record<string, unknown>, files: File[] = []) {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      if (!step || this.state.complete) return;
+
+      if (step.type === 'timer') {
+        const remaining = this.timerRemaining(step.id);
+        if (remaining > 0 && step.required) throw new Error(`Timer has ${remaining}s remaining`);
+        const timer = this.timerFor(step.id);
+        payload = {
+          ...payload,
+          timer_completed: remaining === 0,
+          actual_duration_seconds: Math.round(step.duration_seconds - remaining),
+          started_at: timer.started_at
+        };
+      }
+
+      if (step.type === 'capture' && files.length > 0) {
+        const stored = this.persistence?.uploadCapture
+          ? await this.persistence.uploadCapture(step, files, this.state)
+          : files.map(f => ({ name: f.name, type: f.type, size: f.size }));
+        payload = { ...payload, files: stored };
+      }
+
+      if (step.type === 'analyze' && step.functions?.length && this.persistence?.analyze) {
+        this.emit('step.analyzing');
+        payload = { ...payload, results: await this.persistence.analyze(step, this.state) };
+      }
+
+      if (payload) this.state.data[step.id] = payload;
+      this.state.skipped = this.state.skipped.filter(id => id !== step.id);
+
+      if (step.type === 'commit' && !this.state.committed.includes(step.id)) {
+        if (!this.persistence?.commit) throw new Error('This workflow is not linked to an order; results cannot be created');
+        const created = await this.persistence.commit(step, this.state);
+        this.state.data[step.id] = created;
+        this.state.committed.push(step.id);
+        await this.record(step.id, 'step.commit', { data: created });
+        this.emit('step.commit', created);
+      } else {
+        await this.record(step.id, 'step.next', payload ? { data: payload } : undefined);
+      }
+
+      await this.enter(this.successorOf(step), 'next');
+    });
+  }
+
+  // Last interactive step before the current one; branch steps are re-evaluated, not revisited
+  private previousStepId(): string | undefined {
+    for (let i = this.state.history.length - 2; i >= 0; i--) {
+      const step = this.state.definition.steps.find(s => s.id === this.state.history[i]);
+      if (step && step.type !== 'branch') return step.id;
+    }
+    return undefined;
+  }
+
+  canGoBack(): boolean {
+    // Records created by a commit step cannot be un-created by navigating back
+    return !!this.previousStepId() && !this.state.complete && !this.state.committed.some(id => this.state.history.includes(id));
   }
+
+  async back(reason?: string) {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      const previous = this.previousStepId();
+      if (!step || !previous || !this.canGoBack()) return;
+      await this.record(step.id, 'step.back', { to: previous, reason: reason || null });
+      await this.enter(previous, 'back');
+    });
+  }
+
+  canSkip(): boolean {
+    const step = this.currentStep();
+    return !!step && !this.state.complete && !step.required && step.type !== 'commit';
+  }
+
+  async skip(reason: string) {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      if (!step || !this.canSkip()) return;
+      if (!reason.trim()) throw new Error('A reason is required to skip a step');
+      this.state.skipped.push(step.id);
+      await this.record(step.id, 'step.skip', { reason });
+      await this.enter(this.successorOf(step), 'skip');
+    });
+  }
+
+  // Whole seconds left on a timer step's countdown
+  timerRemaining(stepId?: string, now: number = Date.now()): number {
+    const id = stepId || this.currentStep()?.id;
+    if (!id) return 0;
+    const timer = this.timerFor(id);
+    const elapsed = timer.elapsed_ms + (timer.started_at ? now - Date.parse(timer.started_at) : 0);
+    return Math.max(0, Math.ceil((timer.duration_seconds * 1000 - elapsed) / 1000));
+  }
+
+  isTimerRunning(stepId?: string): boolean {
+    const id = stepId || this.currentStep()?.id;
+    return !!id && !!this.state.timers[id]?.started_at && this.timerRemaining(id) > 0;
+  }
+
+  async startTimer() {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      if (step?.type !== 'timer' || this.isTimerRunning(step.id) || this.timerRemaining(step.id) === 0) return;
+      const startedAt = new Date().toISOString();
+      this.timerFor(step.id).started_at = startedAt;
+      await this.record(step.id, 'timer.start', { started_at: startedAt });
+      this.emit('timer.start');
+    });
+  }
+
+  async pauseTimer() {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      if (step?.type !== 'timer' || !this.state.timers[step.id]?.started_at) return;
+      const timer = this.timerFor(step.id);
+      const elapsed = timer.elapsed_ms + (Date.now() - Date.parse(timer.started_at as string));
+      Object.assign(timer, { started_at: null, elapsed_ms: elapsed });
+      await this.record(step.id, 'timer.pause', { elapsed_ms: elapsed });
+      this.emit('timer.pause');
+    });
+  }
+
+  async resetTimer() {
+    await this.guard(async () => {
+      const step = this.currentStep();
+      if (step?.type !== 'timer') return;
+      Object.assign(this.timerFor(step.id), { started_at: null, elapsed_ms: 0 });
+      await this.record(step.id, 'timer.reset');
+      this.emit('timer.reset');
+    });
+  }
+
   getState() { return this.state; }
 }
@@ -0,0 +1,269 @@
+// Typed schema for workflow definitions and a validator for JSON coming from
+// files or workflow_versions.definition. The runner trusts definitions that
+// pass validateWorkflowDefinition; publishing a version requires it.
+
+export type WorkflowConditionOp = 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'exists';
+
+// `field` is a path into captured data: "<stepId>.<field>" (e.g. "review.wbc_estimate")
+export interface WorkflowCondition {
+  field: string;
+  op: WorkflowConditionOp;
+  value?: unknown;
+}
+export interface WorkflowBranch {
+  when: WorkflowCondition | WorkflowCondition[]; // all conditions must hold
+  goto: string;
+}
+
+interface BaseStep {
+  id: string;
+  title?: string;
+  next?: string; // explicit successor; defaults to the following step
+  required?: boolean; // required steps cannot be skipped
+}
+
+export interface InfoStep extends BaseStep {
+  type: 'info';
+  text: string;
+  items?: string[]; // checklist shown under the text
+}
+
+export interface CaptureStep extends BaseStep {
+  type: 'capture';
+  prompt: string;
+  capture_type?: 'image' | 'numerical' | 'text'; // defaults to text
+  magnification?: string;
+  unit?: string; // numerical captures
+  accept?: string; // file input accept list, e.g. "image/*"
+}
+
+export interface TimerStep extends BaseStep {
+  type: 'timer';
+  duration_seconds: number; // required timers block next() until they have run out
+}
+
+// Edge functions an analyze step can call, in order; each receives the previous output
+export type WorkflowAnalysisFunction = 'vision-ocr' | 'gemini-nlp';
+
+export interface AnalyzeStep extends BaseStep {
+  type: 'analyze';
+  algorithm: string;
+  functions?: WorkflowAnalysisFunction[];
+  inputs?: string[]; // capture step ids fed to the functions; defaults to all image captures
+  test_type?: string; // passed to the edge functions as testType
+}
+
+export interface ReviewStep extends BaseStep {
+  type: 'review';
+  fields: string[];
+  optional_fields?: string[]; // fields that may be left empty
+}
+
+export interface BranchStep extends BaseStep {
+  type: 'branch';
+  branches: WorkflowBranch[];
+  default?: string; // target when no branch matches
+}
+
+// Commit step mapping: "<stepId>.<field>" -> result value row
+export interface CommitMapping {
+  source: string;
+  parameter: string;
+  analyte_id?: string;
+  unit?: string;
+  reference_range?: string;
+}
+
+export interface CommitStep extends BaseStep {
+  type: 'commit';
+  creates: Array<'result'>;
+  test_name?: string;
+  mappings?: CommitMapping[];
+}
+
+export type WorkflowStep = InfoStep | CaptureStep | TimerStep | AnalyzeStep | ReviewStep | BranchStep | CommitStep;
+export type WorkflowStepType = WorkflowStep['type'];
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  modality?: string;
+  version: number;
+  steps: WorkflowStep[];
+}
+
+export interface WorkflowValidationIssue {
+  severity: 'error' | 'warning';
+  stepId?: string;
+  message: string;
+}
+
+// Required fields per step type, checked for presence and basic shape
+const STEP_REQUIREMENTS: Record<WorkflowStepType, Array<{ field: string; kind: 'string' | 'array' | 'number' }>> = {
+  info: [{ field: 'text', kind: 'string' }],
+  capture: [{ field: 'prompt', kind: 'string' }],
+  timer: [{ field: 'duration_seconds', kind: 'number' }],
+  analyze: [{ field: 'algorithm', kind: 'string' }],
+  review: [{ field: 'fields', kind: 'array' }],
+  branch: [{ field: 'branches', kind: 'array' }],
+  commit: [{ field: 'creates', kind: 'array' }],
+};
+
+export const WORKFLOW_STEP_TYPES = Object.keys(STEP_REQUIREMENTS) as WorkflowStepType[];
+
+const CONDITION_OPS: WorkflowConditionOp[] = ['eq', 'neq', 'gt', 'gte', 'lt', 'lte', 'in', 'exists'];
+const ANALYSIS_FUNCTIONS: WorkflowAnalysisFunction[] = ['vision-ocr', 'gemini-nlp'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Step ids a step can hand over to (mirrors WorkflowRunner's successor rules)
+export const getStepSuccessors = (steps: WorkflowStep[], index: number): string[] => {
+  const step = steps[index];
+  const following = steps[index + 1]?.id;
+  const successors: string[] = [];
+
+  if (step.type === 'branch') {
+    (step.branches || []).forEach(b => successors.push(b.goto));
+    if (step.default) {
+      successors.push(step.default);
+      return successors;
+    }
+  }
+  if (step.next) successors.push(step.next);
+  else if (following) successors.push(following);
+  return successors;
+};
+
+export const validateWorkflowDefinition = (input: unknown): WorkflowValidationIssue[] => {
+  const issues: WorkflowValidationIssue[] = [];
+  const error = (message: string, stepId?: string) => issues.push({ severity: 'error', message, stepId });
+  const warning = (message: string, stepId?: string) => issues.push({ severity: 'warning', message, stepId });
+
+  if (!isRecord(input)) {
+    error('Definition must be a JSON object');
+    return issues;
+  }
+
+  if (typeof input.id !== 'string' || !input.id.trim()) error('Definition is missing "id"');
+  if (typeof input.name !== 'string' || !input.name.trim()) error('Definition is missing "name"');
+  if (typeof input.version !== 'number' || !Number.isInteger(input.version) || input.version < 1) {
+    error('"version" must be a positive integer');
+  }
+  if (!Array.isArray(input.steps) || input.steps.length === 0) {
+    error('Definition must have at least one step');
+    return issues;
+  }
+
+  const rawSteps = input.steps as unknown[];
+  const ids = new Set<string>();
+
+  rawSteps.forEach((raw, index) => {
+    if (!isRecord(raw)) {
+      error(`Step ${index + 1} is not an object`);
+      return;
+    }
+    const stepId = typeof raw.id === 'string' ? raw.id : undefined;
+    if (!stepId?.trim()) {
+      error(`Step ${index + 1} is missing "id"`);
+    } else if (ids.has(stepId)) {
+      error(`Duplicate step id "${stepId}"`, stepId);
+    } else {
+      ids.add(stepId);
+    }
+
+    const type = raw.type as WorkflowStepType;
+    if (!WORKFLOW_STEP_TYPES.includes(type)) {
+      error(`Unknown step type "${String(raw.type)}"`, stepId);
+      return;
+    }
+
+    STEP_REQUIREMENTS[type].forEach(({ field, kind }) => {
+      const value = raw[field];
+      const ok = kind === 'array' ? Array.isArray(value) && value.length > 0
+        : kind === 'number' ? typeof value === 'number' && value > 0
+        : typeof value === 'string' && value.trim() !== '';
+      if (!ok) error(`${type} step is missing required field "${field}"`, stepId);
+    });
+  });
+
+  if (issues.some(i => i.severity === 'error')) return issues;
+
+  const steps = rawSteps as WorkflowStep[];
+
+  // References to other steps
+  steps.forEach(step => {
+    if (step.next && !ids.has(step.next)) error(`"next" points to unknown step "${step.next}"`, step.id);
+
+    if (step.type === 'branch') {
+      step.branches.forEach((branch, i) => {
+        if (!ids.has(branch.goto)) error(`Branch ${i + 1} goes to unknown step "${branch.goto}"`, step.id);
+        const conditions = Array.isArray(branch.when) ? branch.when : [branch.when];
+        conditions.forEach(condition => {
+          if (!isRecord(condition) || typeof condition.field !== 'string') {
+            error(`Branch ${i + 1} has a condition without "field"`, step.id);
+            return;
+          }
+          if (!CONDITION_OPS.includes(condition.op)) {
+            error(`Branch ${i + 1} uses unknown operator "${String(condition.op)}"`, step.id);
+          }
+          const sourceStep = condition.field.split('.')[0];
+          if (!ids.has(sourceStep)) warning(`Branch ${i + 1} reads data from unknown step "${sourceStep}"`, step.id);
+        });
+      });
+      if (step.default && !ids.has(step.default)) error(`Branch default goes to unknown step "${step.default}"`, step.id);
+    }
+
+    if (step.type === 'analyze') {
+      (step.functions || []).forEach(fn => {
+        if (!ANALYSIS_FUNCTIONS.includes(fn)) error(`Unknown analysis function "${fn}"`, step.id);
+      });
+      (step.inputs || []).forEach(input => {
+        const source = steps.find(s => s.id === input);
+        if (!source) error(`Analysis input "${input}" is not a step`, step.id);
+        else if (source.type !== 'capture') warning(`Analysis input "${input}" is not a capture step`, step.id);
+      });
+    }
+
+    if (step.type === 'commit') {
+      (step.mappings || []).forEach(mapping => {
+        if (!mapping.source || !mapping.parameter) {
+          error('Commit mapping needs "source" and "parameter"', step.id);
+          return;
+        }
+        const sourceStep = mapping.source.split('.')[0];
+        if (!ids.has(sourceStep)) error(`Commit mapping reads from unknown step "${sourceStep}"`, step.id);
+      });
+    }
+  });
+
+  if (issues.some(i => i.severity === 'error')) return issues;
+
+  // Reachability from the first step
+  const indexById = new Map(steps.map((s, i) => [s.id, i]));
+  const reachable = new Set<string>();
+  const queue = [steps[0].id];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    getStepSuccessors(steps, indexById.get(id)!).forEach(next => {
+      if (!reachable.has(next)) queue.push(next);
+    });
+  }
+  steps.forEach(step => {
+    if (!reachable.has(step.id)) error(`Step "${step.id}" is unreachable`, step.id);
+  });
+
+  if (!steps.some(s => s.type === 'commit')) {
+    warning('Workflow has no commit step; completing it will not create results');
+  }
+
+  return issues;
+};
+
+export const hasBlockingIssues = (issues: WorkflowValidationIssue[]): boolean =>
+  issues.some(i => i.severity === 'error');
+
+export const formatValidationIssues = (issues: WorkflowValidationIssue[]): string =>
+  issues.map(i => `${i.severity.toUpperCase()}${i.stepId ? ` [${i.stepId}]` : ''}: ${i.message}`).join('\n');
@@ -0,0 +1,112 @@
+// Side effects shared by every workflow source (order workflows and AI protocols):
+// capture uploads go through uploadFile + attachments, analyze steps call the
+// vision-ocr / gemini-nlp edge functions.
+import { supabase, database, uploadFile, generateFilePath } from '../utils/supabase';
+import { AnalyzeStep } from './workflowSchema';
+import { WorkflowCapturedFile, WorkflowState } from './workflowEngine';
+
+export interface WorkflowAttachmentContext {
+  category: string; // storage folder, e.g. "workflows/<orderId>"
+  relatedTable: string;
+  relatedId: string | null;
+  patientId?: string | null;
+  labId?: string | null;
+}
+
+export const uploadWorkflowFiles = async (
+  files: File[],
+  context: WorkflowAttachmentContext,
+  description: string
+): Promise<WorkflowCapturedFile[]> => {
+  const { data: profile } = await database.users.getCurrent();
+  const uploaded: WorkflowCapturedFile[] = [];
+
+  for (const file of files) {
+    const filePath = generateFilePath(file.name, context.patientId || undefined, context.labId || undefined, context.category);
+    const uploadResult = await uploadFile(file, filePath);
+
+    const { data: attachment, error } = await supabase
+      .from('attachments')
+      .insert([{
+        patient_id: context.patientId || null,
+        lab_id: context.labId || null,
+        related_table: context.relatedTable,
+        related_id: context.relatedId,
+        file_url: uploadResult.publicUrl,
+        file_path: uploadResult.path,
+        original_filename: file.name,
+        stored_filename: filePath.split('/').pop(),
+        file_type: file.type,
+        file_size: file.size,
+        description,
+        uploaded_by: profile?.id || null,
+        upload_timestamp: new Date().toISOString()
+      }])
+      .select('id')
+      .single();
+    if (error) throw new Error(`Failed to save attachment: ${error.message}`);
+
+    uploaded.push({
+      name: file.name,
+      type: file.type,
+      size: file.size,
+      path: uploadResult.path,
+      url: uploadResult.publicUrl,
+      attachment_id: attachment.id
+    });
+  }
+
+  return uploaded;
+};
+
+// Most recent image captured by the analyze step's inputs (or by any visited capture step)
+export const findAnalysisImage = (step: AnalyzeStep, state: WorkflowState): WorkflowCapturedFile | null => {
+  const sources = step.inputs?.length
+    ? step.inputs
+    : state.definition.steps.filter(s => s.type === 'capture').map(s => s.id);
+
+  for (const id of [...state.history].reverse()) {
+    if (!sources.includes(id) || state.skipped.includes(id)) continue;
+    const files = (state.data[id] as { files?: WorkflowCapturedFile[] } | undefined)?.files || [];
+    const image = [...files].reverse().find(f => f.attachment_id && f.type.startsWith('image/'));
+    if (image) return image;
+  }
+  return null;
+};
+
+// Calls the step's edge functions in order. Base64 image echoes are dropped so
+// step events stay small.
+export const runWorkflowAnalysis = async (step: AnalyzeStep, state: WorkflowState): Promise<Record<string, unknown>> => {
+  const image = findAnalysisImage(step, state);
+  const results: Record<string, unknown> = {};
+  let visionData: Record<string, unknown> | null = null;
+
+  for (const fn of step.functions || []) {
+    if (fn === 'vision-ocr') {
+      if (!image?.attachment_id) throw new Error('Capture an image before running the analysis');
+      const { data, error } = await supabase.functions.invoke('vision-ocr', {
+        body: { attachmentId: image.attachment_id, testType: step.test_type, analysisType: 'all' }
+      });
+      if (error) throw new Error(`Vision analysis failed: ${error.message}`);
+      visionData = data;
+      const stored: Record<string, unknown> = { ...(data || {}) };
+      delete stored.originalBase64Image;
+      results[fn] = stored;
+    }
+
+    if (fn === 'gemini-nlp') {
+      const { data, error } = await supabase.functions.invoke('gemini-nlp', {
+        body: {
+          visionResults: visionData,
+          rawText: visionData?.fullText,
+          testType: step.test_type,
+          originalBase64Image: visionData?.originalBase64Image
+        }
+      });
+      if (error) throw new Error(`AI analysis failed: ${error.message}`);
+      results[fn] = data;
+    }
+  }
+
+  return { ...results, analyzed_at: new Date().toISOString(), attachment_id: image?.attachment_id || null };
+};
@@ -0,0 +1,191 @@
+/**
+ * Request/response contracts for the AI edge functions. Each case calls a function's handler
+ * with a request body, serves any Supabase calls it makes from `supabase` routes, and checks
+ * the status and JSON body. Gemini and Vision answer from the recorded fixtures.
+ *
+ * The fixtures in _shared/fixtures are sample responses in Google's response format. Changing a
+ * case body or a function's prompt changes the request hash, so re-record with AI_PROVIDER=record.
+ */
+
+export type HarnessFunction = 'gemini-nlp' | 'vision-ocr' | 'ai-document-processor' | 'ai-test-configurator'
+
+export interface SupabaseRoute {
+  method?: string
+  // Matched against the start of the request path, e.g. /rest/v1/analytes
+  path: string
+  status?: number
+  body: unknown
+}
+
+export interface ContractCase {
+  fn: HarnessFunction
+  name: string
+  body: unknown
+  headers?: Record<string, string>
+  // Sends no Authorization header when false
+  authenticated?: boolean
+  supabase?: SupabaseRoute[]
+  status: number
+  // Deep subset of the response body
+  expect?: Record<string, unknown>
+  // Extra checks; returns a failure message or null
+  check?: (json: unknown) => string | null
+}
+
+// Narrows a parsed body (or a field of one) to an object; anything else reads as empty
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {}
+
+// 1x1 white PNG
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAwMCAO+ip1sAAAAASUVORK5CYII='
+
+const REPORT_TEXT = [
+  'COMPLETE BLOOD COUNT',
+  'Hb 13.5 g/dL 13.0 - 17.0',
+  'Total WBC Count 7500 /cumm 4000 - 11000',
+  'Platelets 2.5 lakhs/cumm 1.5 - 4.5',
+].join('\n')
+
+const AUTH_USER = {
+  method: 'GET',
+  path: '/auth/v1/user',
+  body: { id: 'user-1', email: 'tech@lab.test', user_metadata: {} },
+}
+
+const USER_PROFILE = { method: 'GET', path: '/rest/v1/users', body: { lab_id: 'lab-1', role: 'technician' } }
+const NO_PROMPT_OVERRIDE = { method: 'POST', path: '/rest/v1/rpc/resolve_ai_prompt', body: [] }
+const USAGE_LOG = { method: 'POST', path: '/rest/v1/ai_usage_logs', status: 201, body: null }
+const USAGE_CONFIDENCE = { method: 'PATCH', path: '/rest/v1/ai_usage_logs', status: 204, body: null }
+const NO_QUOTA = { method: 'GET', path: '/rest/v1/ai_usage_quotas', body: [] }
+const CALL_QUOTA = { method: 'GET', path: '/rest/v1/ai_usage_quotas', body: [{ monthly_call_limit: 500, monthly_cost_limit_usd: null }] }
+
+export const CASES: ContractCase[] = [
+  {
+    fn: 'vision-ocr',
+    name: 'extracts text from a printed report image',
+    body: { base64Image: PIXEL_PNG, documentType: 'printed-report', analysisType: 'text' },
+    supabase: [AUTH_USER, USER_PROFILE, NO_QUOTA, USAGE_LOG],
+    status: 200,
+    expect: {
+      fullText: REPORT_TEXT,
+      metadata: { documentType: 'printed-report', featuresUsed: { text: true, objects: false, colors: false } },
+    },
+    check: (json) => {
+      const { error } = asRecord(json)
+      return error ? `unexpected error: ${error}` : null
+    },
+  },
+  {
+    fn: 'vision-ocr',
+    name: 'rejects a request without an image',
+    body: { documentType: 'printed-report' },
+    status: 400,
+    expect: { error: 'Missing attachmentId or base64Image' },
+  },
+  {
+    fn: 'gemini-nlp',
+    name: 'parses report text and matches parameters to analytes',
+    body: { rawText: REPORT_TEXT, aiProcessingType: 'ocr_report' },
+    supabase: [
+      AUTH_USER,
+      USER_PROFILE,
+      NO_QUOTA,
+      USAGE_LOG,
+      {
+        method: 'GET',
+        path: '/rest/v1/analytes',
+        body: [
+          { id: 'a-hb', name: 'Hemoglobin', unit: 'g/dL', reference_range: '13.0-17.0', alternate_unit: 'g/L' },
+          { id: 'a-tlc', name: 'Total Leukocyte Count', unit: '/cumm', reference_range: '4000-11000', alternate_unit: null },
+          { id: 'a-plt', name: 'Platelet Count', unit: 'lakhs/cumm', reference_range: '1.5-4.5', alternate_unit: null },
+        ],
+      },
+      { method: 'GET', path: '/rest/v1/analyte_synonyms', body: [] },
+    ],
+    status: 200,
+    expect: {
+      extractedParameters: [
+        { parameter: 'Hb', value: '13.5', analyte_id: 'a-hb', matched: true, match_method: 'alias', canonical_unit: 'g/dL' },
+        { parameter: 'Total WBC Count', analyte_id: 'a-tlc', matched: true },
+        { parameter: 'Platelets', analyte_id: 'a-plt', matched: true, match_method: 'exact', needs_review: false },
+      ],
+      metadata: { aiProcessingType: 'ocr_report', matchedParameters: 3, totalParameters: 3 },
+    },
+  },
+  {
+    fn: 'gemini-nlp',
+    name: 'rejects a request without a processing type',
+    body: { rawText: REPORT_TEXT },
+    status: 400,
+    expect: { error: 'Missing aiProcessingType, documentType, or testType' },
+  },
+  {
+    fn: 'ai-document-processor',
+    name: 'extracts results from document text',
+    body: { documentType: 'pdf', content: REPORT_TEXT },
+    supabase: [AUTH_USER, USER_PROFILE, NO_PROMPT_OVERRIDE, NO_QUOTA, USAGE_LOG, USAGE_CONFIDENCE],
+    status: 200,
+    expect: {
+      success: true,
+      data: {
+        extractedData: { Hemoglobin: { value: 13.5, unit: 'g/dL', flag: 'normal' } },
+        processingType: 'pdf',
+      },
+    },
+    check: (json) => (typeof asRecord(asRecord(json).data).confidence === 'number' ? null : 'confidence missing from data'),
+  },
+  {
+    fn: 'ai-document-processor',
+    name: 'refuses the call when the lab is over its monthly quota',
+    body: { documentType: 'pdf', content: REPORT_TEXT },
+    supabase: [
+      AUTH_USER,
+      USER_PROFILE,
+      NO_PROMPT_OVERRIDE,
+      CALL_QUOTA,
+      { method: 'POST', path: '/rest/v1/rpc/ai_usage_totals', body: [{ calls: 500, tokens: 812000, cost_usd: 0.41 }] },
+    ],
+    status: 429,
+    expect: { success: false },
+    check: (json) => {
+      const { error } = asRecord(json)
+      return typeof error === 'string' && /used 500 of 500 AI calls/.test(error) ? null : `unexpected error: ${error}`
+    },
+  },
+  {
+    fn: 'vision-ocr',
+    name: 'refuses callers who are not assigned to a lab',
+    body: { base64Image: PIXEL_PNG, documentType: 'printed-report', analysisType: 'text' },
+    supabase: [AUTH_USER, { method: 'GET', path: '/rest/v1/users', status: 406, body: { message: 'JSON object requested, multiple (or no) rows returned' } }],
+    status: 403,
+    expect: { error: 'AI usage not allowed' },
+  },
+  {
+    fn: 'ai-document-processor',
+    name: 'requires an authenticated caller',
+    body: { documentType: 'pdf', content: REPORT_TEXT },
+    authenticated: false,
+    status: 400,
+    expect: { success: false, error: 'No authorization header' },
+  },
+  {
+    fn: 'ai-test-configurator',
+    name: 'suggests a test group configuration',
+    body: { testName: 'Lipid Profile', labContext: 'Harness lab' },
+    supabase: [AUTH_USER, USER_PROFILE, NO_PROMPT_OVERRIDE, NO_QUOTA, USAGE_LOG, USAGE_CONFIDENCE],
+    status: 200,
+    expect: { success: true, data: { testGroup: { name: 'Lipid Profile', category: 'Biochemistry' } } },
+    check: (json) => {
+      const { analytes } = asRecord(asRecord(json).data)
+      return Array.isArray(analytes) && analytes.length > 0 ? null : 'no analytes suggested'
+    },
+  },
+  {
+    fn: 'ai-test-configurator',
+    name: 'requires a test name',
+    body: { testName: '  ' },
+    supabase: [AUTH_USER, USER_PROFILE],
+    status: 400,
+    expect: { success: false, error: 'Test name is required' },
+  },
+]
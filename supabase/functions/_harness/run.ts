@@ -0,0 +1,127 @@
+/**
+ * Contract harness for the AI edge functions, run offline against the fixture provider.
+ *
+ *   deno run --allow-env --allow-read --allow-net supabase/functions/_harness/run.ts [function ...] [--verbose]
+ *
+ * Each function is imported with Deno.serve stubbed so its handler can be called directly.
+ * Supabase REST and auth calls are answered from the case's routes; any other network
+ * request fails the case. With AI_PROVIDER=record (and Google keys set) Gemini and Vision
+ * calls go to Google and the responses are saved as fixtures for the next offline run.
+ */
+
+import { CASES, ContractCase, HarnessFunction, SupabaseRoute } from './cases.ts'
+
+type Handler = (req: Request) => Response | Promise<Response>
+
+const SUPABASE_URL = 'http://supabase.harness'
+const GOOGLE_HOSTS = ['generativelanguage.googleapis.com', 'vision.googleapis.com']
+
+const verbose = Deno.args.includes('--verbose')
+const only = Deno.args.filter(arg => !arg.startsWith('--'))
+
+Deno.env.set('AI_PROVIDER', Deno.env.get('AI_PROVIDER') || 'fixture')
+Deno.env.set('SUPABASE_URL', SUPABASE_URL)
+Deno.env.set('SUPABASE_ANON_KEY', 'harness-anon-key')
+Deno.env.set('SUPABASE_SERVICE_ROLE_KEY', 'harness-service-key')
+
+const recording = Deno.env.get('AI_PROVIDER') === 'record'
+const networkFetch = globalThis.fetch
+let routes: SupabaseRoute[] = []
+
+globalThis.fetch = (input: string | URL | Request, init?: RequestInit) => {
+  const request = new Request(input, init)
+  const url = new URL(request.url)
+  if (url.origin === SUPABASE_URL) {
+    const route = routes.find(r => url.pathname.startsWith(r.path) && (!r.method || r.method === request.method))
+    if (!route) {
+      return Promise.resolve(new Response(
+        JSON.stringify({ message: `No harness route for ${request.method} ${url.pathname}` }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      ))
+    }
+    const body = route.body === null ? null : JSON.stringify(route.body)
+    return Promise.resolve(new Response(body, { status: route.status ?? 200, headers: { 'Content-Type': 'application/json' } }))
+  }
+  if (recording && GOOGLE_HOSTS.includes(url.hostname)) return networkFetch(request)
+  return Promise.reject(new Error(`Network access outside the harness: ${request.method} ${url.origin}${url.pathname}`))
+}
+
+// Functions call Deno.serve at import; the stub keeps the handler instead of listening
+const denoServe = Deno as unknown as { serve: (handler: Handler) => unknown }
+
+async function loadHandler(fn: HarnessFunction): Promise<Handler> {
+  const serve = denoServe.serve
+  let handler: Handler | null = null
+  denoServe.serve = (h: Handler) => {
+    handler = h
+    return { finished: Promise.resolve(), shutdown: () => Promise.resolve() }
+  }
+  try {
+    await import(`../${fn}/index.ts`)
+  } finally {
+    denoServe.serve = serve
+  }
+  if (!handler) throw new Error(`${fn} did not call Deno.serve`)
+  return handler
+}
+
+// Every key in expected must be present in actual with an equal value; arrays compare by position
+function subsetMismatch(actual: unknown, expected: unknown, path = ''): string | null {
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object') return `${path || 'body'}: expected an object, got ${JSON.stringify(actual)}`
+    for (const [key, value] of Object.entries(expected as Record<string, unknown>)) {
+      const mismatch = subsetMismatch((actual as Record<string, unknown>)[key], value, path ? `${path}.${key}` : key)
+      if (mismatch) return mismatch
+    }
+    return null
+  }
+  return actual === expected ? null : `${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+}
+
+async function runCase(handler: Handler, testCase: ContractCase): Promise<string | null> {
+  routes = testCase.supabase || []
+  const headers = new Headers({ 'Content-Type': 'application/json', ...testCase.headers })
+  if (testCase.authenticated !== false) headers.set('Authorization', 'Bearer harness-user-token')
+
+  const response = await handler(new Request(`http://localhost/functions/v1/${testCase.fn}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(testCase.body),
+  }))
+  const text = await response.text()
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return `response is not JSON: ${text.slice(0, 200)}`
+  }
+
+  if (response.status !== testCase.status) {
+    return `status ${response.status}, expected ${testCase.status}: ${text.slice(0, 300)}`
+  }
+  return (testCase.expect && subsetMismatch(json, testCase.expect)) || testCase.check?.(json) || null
+}
+
+const selected = CASES.filter(c => only.length === 0 || only.includes(c.fn))
+const consoleMethods = { log: console.log, warn: console.warn, error: console.error }
+let failures = 0
+
+for (const fn of [...new Set(selected.map(c => c.fn))]) {
+  const handler = await loadHandler(fn)
+  for (const testCase of selected.filter(c => c.fn === fn)) {
+    if (!verbose) console.log = console.warn = console.error = () => {}
+    let failure: string | null
+    try {
+      failure = await runCase(handler, testCase)
+    } catch (error) {
+      failure = `threw ${error instanceof Error ? error.message : String(error)}`
+    } finally {
+      Object.assign(console, consoleMethods)
+    }
+    if (failure) failures++
+    console.log(`${failure ? '✗' : '✓'} ${fn}: ${testCase.name}${failure ? `\n    ${failure}` : ''}`)
+  }
+}
+
+console.log(`\n${selected.length - failures} passed, ${failures} failed (AI_PROVIDER=${Deno.env.get('AI_PROVIDER')})`)
+Deno.exit(failures > 0 ? 1 : 0)
@@ -0,0 +1,160 @@
+/**
+ * Provider layer for the Google AI endpoints used by the edge functions.
+ *
+ * AI_PROVIDER selects where requests go:
+ *   google  (default) - Gemini generateContent and Cloud Vision images:annotate
+ *   fixture - recorded responses from AI_FIXTURES_DIR (default ./fixtures), keyed by request hash;
+ *             no network access, so the AI paths can run locally and in the contract harness
+ *   record  - calls Google and saves each response as a fixture
+ *
+ * Functions receive a standard Response from every provider and handle it as before.
+ */
+
+export type AiService = 'gemini' | 'vision'
+
+export interface AiRequest {
+  service: AiService
+  // Gemini model, e.g. gemini-1.5-flash; unused for Vision
+  model?: string
+  body: unknown
+}
+
+export interface AiFixture {
+  service: AiService
+  model?: string
+  // First part of the prompt, to tell fixtures apart when reading them
+  prompt?: string
+  status?: number
+  response: unknown
+  recorded_at?: string
+}
+
+export interface AiProvider {
+  name: string
+  call(request: AiRequest, apiKey: string): Promise<Response>
+}
+
+const PROVIDERS = ['google', 'fixture', 'record'] as const
+
+function endpointFor(request: AiRequest, apiKey: string): string {
+  if (request.service === 'vision') {
+    return `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`
+  }
+  return `https://generativelanguage.googleapis.com/v1beta/models/${request.model || 'gemini-1.5-flash'}:generateContent?key=${apiKey}`
+}
+
+// JSON with object keys sorted, so the hash does not depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/** SHA-256 of the service, model and request body; the API key is not part of the hash. */
+export async function requestHash(request: AiRequest): Promise<string> {
+  const data = new TextEncoder().encode(canonicalJson({
+    service: request.service,
+    model: request.service === 'gemini' ? request.model || 'gemini-1.5-flash' : undefined,
+    body: request.body,
+  }))
+  const digest = await crypto.subtle.digest('SHA-256', data)
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')
+}
+
+function fixturePath(hash: string): URL {
+  const dir = Deno.env.get('AI_FIXTURES_DIR')
+  const base = dir
+    ? new URL(dir.endsWith('/') ? dir : dir + '/', `file://${Deno.cwd()}/`)
+    : new URL('./fixtures/', import.meta.url)
+  return new URL(`${hash}.json`, base)
+}
+
+function promptExcerpt(body: unknown): string | undefined {
+  const text = (body as { contents?: Array<{ parts?: Array<{ text?: string }> }> })?.contents?.[0]?.parts
+    ?.find(part => typeof part.text === 'string')?.text
+  return text ? text.slice(0, 160) : undefined
+}
+
+export const googleProvider: AiProvider = {
+  name: 'google',
+  call: (request, apiKey) => fetch(endpointFor(request, apiKey), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request.body),
+  }),
+}
+
+export const fixtureProvider: AiProvider = {
+  name: 'fixture',
+  call: async (request) => {
+    const hash = await requestHash(request)
+    let fixture: AiFixture
+    try {
+      fixture = JSON.parse(await Deno.readTextFile(fixturePath(hash)))
+    } catch (error) {
+      if (!(error instanceof Deno.errors.NotFound)) throw error
+      // Shaped like a Google error so callers report it the usual way
+      return new Response(
+        JSON.stringify({ error: { code: 404, message: `No AI fixture for ${request.service} request ${hash}; record it with AI_PROVIDER=record` } }),
+        { status: 404, statusText: 'Fixture Not Found', headers: { 'Content-Type': 'application/json' } }
+      )
+    }
+    return new Response(JSON.stringify(fixture.response), {
+      status: fixture.status ?? 200,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  },
+}
+
+export const recordingProvider: AiProvider = {
+  name: 'record',
+  call: async (request, apiKey) => {
+    const response = await googleProvider.call(request, apiKey)
+    const text = await response.text()
+    let parsed: unknown = text
+    try {
+      parsed = JSON.parse(text)
+    } catch {
+      // Keep non-JSON error bodies as text
+    }
+    const fixture: AiFixture = {
+      service: request.service,
+      model: request.service === 'gemini' ? request.model || 'gemini-1.5-flash' : undefined,
+      prompt: promptExcerpt(request.body),
+      status: response.status,
+      response: parsed,
+      recorded_at: new Date().toISOString(),
+    }
+    const hash = await requestHash(request)
+    await Deno.writeTextFile(fixturePath(hash), JSON.stringify(fixture, null, 2) + '\n')
+    console.log(`Recorded AI fixture ${hash}`)
+    return new Response(text, { status: response.status, statusText: response.statusText, headers: response.headers })
+  },
+}
+
+export function getAiProvider(): AiProvider {
+  const name = (Deno.env.get('AI_PROVIDER') || 'google').toLowerCase()
+  if (!PROVIDERS.includes(name as typeof PROVIDERS[number])) {
+    throw new Error(`Unknown AI_PROVIDER "${name}" (expected ${PROVIDERS.join(', ')})`)
+  }
+  if (name === 'fixture') return fixtureProvider
+  if (name === 'record') return recordingProvider
+  return googleProvider
+}
+
+/**
+ * The first configured key of the given secrets. Fixtures need no key, so the fixture
+ * provider gets a placeholder and functions run without Google secrets.
+ */
+export function getAiApiKey(...secretNames: string[]): string | undefined {
+  for (const secret of secretNames) {
+    const value = Deno.env.get(secret)
+    if (value) return value
+  }
+  return getAiProvider().name === 'fixture' ? 'fixture' : undefined
+}
@@ -0,0 +1,270 @@
+/**
+ * Usage metering for the AI edge functions.
+ *
+ * Every Gemini and Vision call made through a meter is written to ai_usage_logs with the
+ * caller's user and lab, the processing type, latency, tokens, estimated cost and any error.
+ * Before the first call the caller's lab is read from public.users and its monthly quota
+ * (ai_usage_quotas) is checked. Callers without a lab get AiUsageDeniedError (HTTP 403) and a
+ * lab over its limit gets AiQuotaExceededError (HTTP 429).
+ */
+
+import { AiRequest, getAiProvider } from './aiProvider.ts'
+
+export interface AiCaller {
+  userId: string | null
+  labId: string | null
+}
+
+export interface AiCallOptions {
+  processingType: string
+  inputData?: Record<string, unknown>
+}
+
+export interface AiUsageMeter {
+  functionName: string
+  // Resolves the caller and enforces the lab's quota; runs once per meter
+  checkQuota(): Promise<AiCaller>
+  call(request: AiRequest, apiKey: string, options: AiCallOptions): Promise<Response>
+  // Stores the confidence the model reported on the most recent logged call
+  recordConfidence(confidence: number | null | undefined): Promise<void>
+}
+
+interface UsageQuota {
+  monthly_call_limit: number | null
+  monthly_cost_limit_usd: number | null
+}
+
+interface MonthTotals {
+  calls: number
+  tokens: number
+  cost_usd: number
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  totalTokenCount?: number
+}
+
+export class AiUsageDeniedError extends Error {
+  status = 403
+}
+
+export class AiQuotaExceededError extends AiUsageDeniedError {
+  status = 429
+}
+
+// USD list prices per million tokens; models not listed are logged without a cost
+const GEMINI_PRICES: Record<string, { input: number; output: number }> = {
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+}
+
+// Cloud Vision bills each feature on each image as one unit
+const VISION_PRICE_PER_UNIT = 0.0015
+
+function serviceHeaders(): Record<string, string> | null {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  if (!Deno.env.get('SUPABASE_URL') || !serviceKey) return null
+  return {
+    'Authorization': `Bearer ${serviceKey}`,
+    'apikey': serviceKey,
+    'Content-Type': 'application/json',
+  }
+}
+
+// The lab comes from the caller's users row; user metadata is editable by the user and is not used
+export async function resolveCaller(req: Request): Promise<AiCaller> {
+  const authorization = req.headers.get('Authorization')
+  const headers = serviceHeaders()
+  if (!authorization || !headers) return { userId: null, labId: null }
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+  try {
+    const userResponse = await fetch(`${supabaseUrl}/auth/v1/user`, {
+      headers: { 'Authorization': authorization, 'apikey': headers.apikey },
+    })
+    if (!userResponse.ok) return { userId: null, labId: null }
+    const user = await userResponse.json()
+    if (!user?.id) return { userId: null, labId: null }
+
+    // Asks for a single object; PostgREST answers 406 when there is no active users row
+    const profileResponse = await fetch(
+      `${supabaseUrl}/rest/v1/users?auth_user_id=eq.${user.id}&status=eq.Active&select=lab_id`,
+      { headers: { ...headers, 'Accept': 'application/vnd.pgrst.object+json' } }
+    )
+    if (!profileResponse.ok) return { userId: user.id, labId: null }
+    const profile: { lab_id: string | null } | null = await profileResponse.json()
+    return { userId: user.id, labId: profile?.lab_id || null }
+  } catch {
+    return { userId: null, labId: null }
+  }
+}
+
+function monthStart(): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+}
+
+/**
+ * Throws AiUsageDeniedError when the caller has no lab and AiQuotaExceededError when the lab
+ * has reached a monthly limit. A quota that cannot be read does not block the call; the
+ * failure is logged instead.
+ */
+async function enforceQuota(labId: string | null): Promise<void> {
+  const headers = serviceHeaders()
+  if (!labId || !headers) {
+    throw new AiUsageDeniedError('AI features are only available to active users assigned to a lab.')
+  }
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')
+
+  try {
+    const quotaResponse = await fetch(
+      `${supabaseUrl}/rest/v1/ai_usage_quotas?lab_id=eq.${labId}&select=monthly_call_limit,monthly_cost_limit_usd`,
+      { headers }
+    )
+    if (!quotaResponse.ok) throw new Error(`quota lookup returned ${quotaResponse.status}`)
+    const quota: UsageQuota | undefined = (await quotaResponse.json())?.[0]
+    if (!quota || (quota.monthly_call_limit === null && quota.monthly_cost_limit_usd === null)) return
+
+    const totalsResponse = await fetch(`${supabaseUrl}/rest/v1/rpc/ai_usage_totals`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ p_lab_id: labId, p_since: monthStart().toISOString() }),
+    })
+    if (!totalsResponse.ok) throw new Error(`usage totals returned ${totalsResponse.status}`)
+    const totals: MonthTotals = (await totalsResponse.json())?.[0] || { calls: 0, tokens: 0, cost_usd: 0 }
+
+    if (quota.monthly_call_limit !== null && Number(totals.calls) >= quota.monthly_call_limit) {
+      throw new AiQuotaExceededError(
+        `AI usage quota exceeded: this lab has used ${totals.calls} of ${quota.monthly_call_limit} AI calls this month. Ask an administrator to raise the limit.`
+      )
+    }
+    if (quota.monthly_cost_limit_usd !== null && Number(totals.cost_usd) >= Number(quota.monthly_cost_limit_usd)) {
+      throw new AiQuotaExceededError(
+        `AI usage quota exceeded: this lab has spent $${Number(totals.cost_usd).toFixed(2)} of its $${Number(quota.monthly_cost_limit_usd).toFixed(2)} monthly AI budget. Ask an administrator to raise the limit.`
+      )
+    }
+  } catch (error) {
+    if (error instanceof AiQuotaExceededError) throw error
+    console.error('AI quota check failed, allowing the call:', error)
+  }
+}
+
+function estimateCost(request: AiRequest, usage: GeminiUsageMetadata | undefined): number | null {
+  if (request.service === 'vision') {
+    const requests = (request.body as { requests?: Array<{ features?: unknown[] }> })?.requests || []
+    const units = requests.reduce((sum, r) => sum + (r.features?.length || 0), 0)
+    return units * VISION_PRICE_PER_UNIT
+  }
+  const prices = GEMINI_PRICES[request.model || 'gemini-1.5-flash']
+  if (!prices || !usage) return null
+  return ((usage.promptTokenCount || 0) * prices.input + (usage.candidatesTokenCount || 0) * prices.output) / 1_000_000
+}
+
+// The error a provider response carries, whether as an HTTP status or inside the body
+function responseError(response: Response, body: unknown): string | null {
+  const payload = body as { error?: { message?: string }; responses?: Array<{ error?: { message?: string } }> } | null
+  const message = payload?.error?.message || payload?.responses?.find(r => r?.error)?.error?.message
+  if (message) return message
+  return response.ok ? null : `${response.status} ${response.statusText}`
+}
+
+async function insertLog(row: Record<string, unknown>): Promise<void> {
+  const headers = serviceHeaders()
+  if (!headers) return
+  try {
+    const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/rest/v1/ai_usage_logs`, {
+      method: 'POST',
+      headers: { ...headers, 'Prefer': 'return=minimal' },
+      body: JSON.stringify(row),
+    })
+    if (!response.ok) console.error('Failed to log AI usage:', response.status, await response.text())
+  } catch (error) {
+    // Metering must not fail the request
+    console.error('Failed to log AI usage:', error)
+  }
+}
+
+/** A meter for one function invocation */
+export function startAiUsage(req: Request, functionName: string): AiUsageMeter {
+  let quotaCheck: Promise<AiCaller> | null = null
+  let lastLogId: string | null = null
+
+  const meter: AiUsageMeter = {
+    functionName,
+
+    checkQuota() {
+      if (!quotaCheck) {
+        quotaCheck = (async () => {
+          const resolved = await resolveCaller(req)
+          await enforceQuota(resolved.labId)
+          return resolved
+        })()
+      }
+      return quotaCheck
+    },
+
+    async call(request, apiKey, options) {
+      const { userId, labId } = await meter.checkQuota()
+      const started = Date.now()
+      const logId = crypto.randomUUID()
+      lastLogId = logId
+      const row = {
+        id: logId,
+        user_id: userId,
+        lab_id: labId,
+        function_name: functionName,
+        processing_type: options.processingType,
+        model: request.service === 'vision' ? 'cloud-vision' : request.model || 'gemini-1.5-flash',
+        input_data: options.inputData || null,
+      }
+
+      let response: Response
+      try {
+        response = await getAiProvider().call(request, apiKey)
+      } catch (error) {
+        await insertLog({
+          ...row,
+          processing_time_ms: Date.now() - started,
+          error_message: error instanceof Error ? error.message : String(error),
+        })
+        throw error
+      }
+
+      let body: unknown = null
+      try {
+        body = await response.clone().json()
+      } catch {
+        // Non-JSON error bodies are reported by status
+      }
+      const usage = (body as { usageMetadata?: GeminiUsageMetadata } | null)?.usageMetadata
+      const error = responseError(response, body)
+      await insertLog({
+        ...row,
+        processing_time_ms: Date.now() - started,
+        input_tokens: usage?.promptTokenCount ?? null,
+        output_tokens: usage?.candidatesTokenCount ?? null,
+        tokens_used: usage?.totalTokenCount ?? null,
+        // Failed calls are not billed
+        cost_usd: error ? 0 : estimateCost(request, usage),
+        error_message: error,
+      })
+      return response
+    },
+
+    async recordConfidence(confidence) {
+      const headers = serviceHeaders()
+      if (!lastLogId || !headers || typeof confidence !== 'number') return
+      try {
+        await fetch(`${Deno.env.get('SUPABASE_URL')}/rest/v1/ai_usage_logs?id=eq.${lastLogId}`, {
+          method: 'PATCH',
+          headers: { ...headers, 'Prefer': 'return=minimal' },
+          body: JSON.stringify({ confidence }),
+        })
+      } catch (error) {
+        console.error('Failed to record AI confidence:', error)
+      }
+    },
+  }
+  return meter
+}
@@ -1,5 +1,6 @@
-import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getAiApiKey } from '../_shared/aiProvider.ts'
+import { AiUsageDeniedError, startAiUsage } from '../_shared/aiUsage.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,7 +14,7 @@ interface TestConfigurationRequest {
   existingTests?: string[];
 }
 
-serve(async (req) => {
+Deno.serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders })
@@ -47,7 +48,7 @@ serve(async (req) => {
     const { data: userData } = await supabaseClient
       .from('users')
       .select('lab_id, role')
-      .eq('id', user.id)
+      .eq('auth_user_id', user.id)
       .single()
 
     // Parse request body
@@ -79,36 +80,35 @@ LAB CONTEXT: ${labContext || `User: ${user.email}, Lab: ${userData?.lab_id || 'D
 Return ONLY valid JSON with no additional text.`
 
     // Call Gemini API
-    const geminiApiKey = Deno.env.get('ALLGOOGLE_KEY')
+    const geminiApiKey = getAiApiKey('ALLGOOGLE_KEY')
     if (!geminiApiKey) {
       throw new Error('Gemini API key not configured')
     }
 
-    const geminiResponse = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${geminiApiKey}`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [
-            {
-              parts: [
-                {
-                  text: fullPrompt
-                }
-              ]
-            }
-          ],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2048,
-            responseMimeType: "application/json"
+    const usage = startAiUsage(req, 'ai-test-configurator')
+    const geminiResponse = await usage.call({
+      service: 'gemini',
+      model: 'gemini-1.5-flash',
+      body: {
+        contents: [
+          {
+            parts: [
+              {
+                text: fullPrompt
+              }
+            ]
           }
-        })
+        ],
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: 2048,
+          responseMimeType: "application/json"
+        }
       }
-    )
+    }, geminiApiKey, {
+      processingType: 'test_suggestion',
+      inputData: { testName, description }
+    })
 
     if (!geminiResponse.ok) {
       const errorText = await geminiResponse.text()
@@ -130,17 +130,7 @@ Return ONLY valid JSON with no additional text.`
       throw new Error(`Failed to parse AI response: ${parseError}`)
     }
 
-    // Log usage for analytics (optional)
-    await supabaseClient
-      .from('ai_usage_logs')
-      .insert({
-        user_id: user.id,
-        lab_id: userData?.lab_id,
-        processing_type: 'test_suggestion',
-        input_data: { testName, description },
-        confidence: parsedResponse.confidence || 0,
-        created_at: new Date().toISOString()
-      })
+    await usage.recordConfidence(parsedResponse.confidence)
 
     return new Response(
       JSON.stringify({
@@ -163,7 +153,7 @@ Return ONLY valid JSON with no additional text.`
       }),
       {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-        status: 400,
+        status: error instanceof AiUsageDeniedError ? error.status : 400,
       },
     )
   }
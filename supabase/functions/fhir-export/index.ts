@@ -0,0 +1,306 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const LIMS_SYSTEM = 'urn:lims'
+const LOINC = 'http://loinc.org'
+const SNOMED = 'http://snomed.info/sct'
+const V2_0074 = 'http://terminology.hl7.org/CodeSystem/v2-0074'
+const V2_0203 = 'http://terminology.hl7.org/CodeSystem/v2-0203'
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category'
+const INTERPRETATION = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation'
+const UCUM = 'http://unitsofmeasure.org'
+
+const INTERPRETATION_DISPLAY: Record<string, string> = {
+  H: 'High',
+  L: 'Low',
+  A: 'Abnormal',
+  N: 'Normal',
+  HH: 'Critical high',
+  LL: 'Critical low',
+  AA: 'Critical abnormal',
+}
+
+const jsonResponse = (body: unknown, status = 200, contentType = 'application/json') =>
+  new Response(JSON.stringify(body, null, 2), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': contentType },
+  })
+
+const urn = (id: string) => `urn:uuid:${id}`
+
+const parseNumber = (value: string | null | undefined) => {
+  const match = String(value ?? '').trim().match(/^-?\d+(\.\d+)?$/)
+  return match ? Number(match[0]) : null
+}
+
+// "13.5-17.5", "< 5", "> 40" -> FHIR referenceRange
+const referenceRangeOf = (range: string | null | undefined, unit: string | null | undefined) => {
+  if (!range) return undefined
+  const quantity = (value: number) => ({ value, unit: unit || undefined, system: unit ? UCUM : undefined, code: unit || undefined })
+  const between = range.match(/^\s*(-?\d+(?:\.\d+)?)\s*[-–]\s*(-?\d+(?:\.\d+)?)\s*$/)
+  if (between) return [{ low: quantity(Number(between[1])), high: quantity(Number(between[2])), text: range }]
+  const below = range.match(/^\s*<=?\s*(-?\d+(?:\.\d+)?)\s*$/)
+  if (below) return [{ high: quantity(Number(below[1])), text: range }]
+  const above = range.match(/^\s*>=?\s*(-?\d+(?:\.\d+)?)\s*$/)
+  if (above) return [{ low: quantity(Number(above[1])), text: range }]
+  return [{ text: range }]
+}
+
+// H/L/C result flags -> v3 ObservationInterpretation; critical values use the range to pick HH or LL
+const interpretationOf = (flag: string | null | undefined, value: string, range: string | null | undefined) => {
+  if (!flag) return undefined
+  let code = flag.toUpperCase()
+  if (code === 'C') {
+    const numeric = parseNumber(value)
+    const bounds = (range || '').match(/(-?\d+(?:\.\d+)?)\s*[-–]\s*(-?\d+(?:\.\d+)?)/)
+    if (numeric !== null && bounds) {
+      code = numeric > Number(bounds[2]) ? 'HH' : numeric < Number(bounds[1]) ? 'LL' : 'AA'
+    } else {
+      code = 'AA'
+    }
+  }
+  if (!INTERPRETATION_DISPLAY[code]) return undefined
+  return [{ coding: [{ system: INTERPRETATION, code, display: INTERPRETATION_DISPLAY[code] }], text: INTERPRETATION_DISPLAY[code] }]
+}
+
+const fhirGender = (gender: string | null | undefined) => {
+  switch ((gender || '').toLowerCase()) {
+    case 'male': return 'male'
+    case 'female': return 'female'
+    case 'other': return 'other'
+    default: return 'unknown'
+  }
+}
+
+const fhirPriority = (priority: string | null | undefined) => {
+  switch (priority) {
+    case 'STAT': return 'stat'
+    case 'Urgent': return 'urgent'
+    default: return 'routine'
+  }
+}
+
+const isFinal = (status: string) => status === 'Approved' || status === 'Reported'
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      {
+        global: {
+          headers: { Authorization: req.headers.get('Authorization')! },
+        },
+      }
+    )
+
+    const { data: { user } } = await supabaseClient.auth.getUser()
+    if (!user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const orderId = req.method === 'GET'
+      ? new URL(req.url).searchParams.get('orderId')
+      : (await req.json()).orderId
+    if (!orderId) {
+      return jsonResponse({ error: 'orderId is required' }, 400)
+    }
+
+    const { data: order, error: orderError } = await supabaseClient
+      .from('orders')
+      .select(`
+        *,
+        patients(*),
+        order_test_groups(id, test_name, test_groups(code, name, loinc_code, snomed_specimen_code)),
+        order_tests(id, test_name),
+        results(id, test_name, status, reviewed_by, verified_at, reviewed_date,
+          result_values(id, analyte_id, parameter, value, unit, reference_range, flag, analytes(loinc_code)))
+      `)
+      .eq('id', orderId)
+      .single()
+
+    if (orderError || !order) {
+      return jsonResponse({ error: orderError?.message || 'Order not found' }, 404)
+    }
+
+    const results = (order.results || []).filter((r: { status: string }) => isFinal(r.status))
+    if (results.length === 0) {
+      return jsonResponse({ error: 'Order has no approved results' }, 409)
+    }
+
+    const { data: report } = await supabaseClient
+      .from('reports')
+      .select('*')
+      .eq('order_id', orderId)
+      .maybeSingle()
+
+    const patient = order.patients
+    const patientRef = { reference: urn(patient.id), display: patient.name }
+    const effective = order.sample_collected_at || order.order_date
+    const nameParts = String(patient.name || '').trim().split(/\s+/)
+
+    const patientResource = {
+      resourceType: 'Patient',
+      id: patient.id,
+      identifier: [
+        { use: 'usual', system: `${LIMS_SYSTEM}:patient`, value: patient.display_id || patient.id },
+        ...(patient.external_patient_id ? [{ use: 'secondary', system: `${LIMS_SYSTEM}:external-patient`, value: patient.external_patient_id }] : []),
+      ],
+      active: patient.is_active !== false,
+      name: [{
+        text: patient.name,
+        family: nameParts.length > 1 ? nameParts[nameParts.length - 1] : nameParts[0],
+        given: nameParts.length > 1 ? nameParts.slice(0, -1) : undefined,
+      }],
+      telecom: [
+        ...(patient.phone ? [{ system: 'phone', value: patient.phone }] : []),
+        ...(patient.email ? [{ system: 'email', value: patient.email }] : []),
+      ],
+      gender: fhirGender(patient.gender),
+      birthDate: patient.date_of_birth || undefined,
+      address: patient.address
+        ? [{ text: patient.address, city: patient.city || undefined, state: patient.state || undefined, postalCode: patient.pincode || undefined }]
+        : undefined,
+    }
+
+    // One ServiceRequest per ordered test group, tied together by the order's requisition (sample ID)
+    type TestGroupCodes = { code: string; loinc_code: string | null; snomed_specimen_code: string | null }
+    const orderedTests: Array<{ id: string; name: string; code?: string; loinc?: string | null; specimen?: string | null }> = (order.order_test_groups || []).length > 0
+      ? order.order_test_groups.map((t: { id: string; test_name: string; test_groups?: TestGroupCodes | null }) => ({
+          id: t.id,
+          name: t.test_name,
+          code: t.test_groups?.code,
+          loinc: t.test_groups?.loinc_code,
+          specimen: t.test_groups?.snomed_specimen_code,
+        }))
+      : (order.order_tests || []).map((t: { id: string; test_name: string }) => ({ id: t.id, name: t.test_name }))
+
+    // The order's sample, typed with the SNOMED CT specimen code of its test groups
+    const specimenCode = orderedTests.find(t => t.specimen)?.specimen
+    const specimenResource = specimenCode
+      ? {
+          resourceType: 'Specimen',
+          id: crypto.randomUUID(),
+          accessionIdentifier: { system: `${LIMS_SYSTEM}:sample`, value: order.sample_id || order.id },
+          type: { coding: [{ system: SNOMED, code: specimenCode }] },
+          subject: patientRef,
+          collection: order.sample_collected_at ? { collectedDateTime: order.sample_collected_at } : undefined,
+        }
+      : null
+
+    const serviceRequests = orderedTests.map(test => ({
+      resourceType: 'ServiceRequest',
+      id: test.id,
+      identifier: order.placer_order_number
+        ? [{ type: { coding: [{ system: V2_0203, code: 'PLAC' }] }, value: order.placer_order_number }]
+        : undefined,
+      requisition: { system: `${LIMS_SYSTEM}:sample`, value: order.sample_id || order.id },
+      status: ['Completed', 'Delivered'].includes(order.status) ? 'completed' : 'active',
+      intent: 'order',
+      category: [{ coding: [{ system: SNOMED, code: '108252007', display: 'Laboratory procedure' }] }],
+      priority: fhirPriority(order.priority),
+      code: {
+        coding: test.code || test.loinc
+          ? [
+              ...(test.loinc ? [{ system: LOINC, code: test.loinc, display: test.name }] : []),
+              ...(test.code ? [{ system: `${LIMS_SYSTEM}:test-group`, code: test.code, display: test.name }] : []),
+            ]
+          : undefined,
+        text: test.name,
+      },
+      specimen: specimenResource ? [{ reference: urn(specimenResource.id) }] : undefined,
+      subject: patientRef,
+      authoredOn: order.created_at || order.order_date,
+      requester: order.doctor ? { display: order.doctor } : undefined,
+      note: order.notes ? [{ text: order.notes }] : undefined,
+    }))
+
+    type ValueRow = {
+      id: string
+      analyte_id: string | null
+      parameter: string
+      value: string | null
+      unit: string | null
+      reference_range: string | null
+      flag: string | null
+      analytes?: { loinc_code: string | null } | null
+    }
+    const observations = results.flatMap((result: { id: string; test_name: string; status: string; reviewed_by?: string; verified_at?: string; result_values: ValueRow[] }) =>
+      (result.result_values || []).map(value => {
+        const numeric = parseNumber(value.value)
+        const loinc = value.analytes?.loinc_code
+        return {
+          resourceType: 'Observation',
+          id: value.id as string,
+          status: 'final',
+          category: [{ coding: [{ system: OBSERVATION_CATEGORY, code: 'laboratory', display: 'Laboratory' }] }],
+          code: {
+            coding: value.analyte_id || loinc
+              ? [
+                  ...(loinc ? [{ system: LOINC, code: loinc, display: value.parameter }] : []),
+                  ...(value.analyte_id ? [{ system: `${LIMS_SYSTEM}:analyte`, code: value.analyte_id, display: value.parameter }] : []),
+                ]
+              : undefined,
+            text: value.parameter,
+          },
+          subject: patientRef,
+          effectiveDateTime: effective,
+          issued: result.verified_at || undefined,
+          performer: result.reviewed_by ? [{ display: result.reviewed_by }] : undefined,
+          specimen: specimenResource ? { reference: urn(specimenResource.id) } : undefined,
+          ...(numeric !== null
+            ? { valueQuantity: { value: numeric, unit: value.unit || undefined, system: value.unit ? UCUM : undefined, code: value.unit || undefined } }
+            : { valueString: value.value ?? '' }),
+          interpretation: interpretationOf(value.flag, value.value ?? '', value.reference_range),
+          referenceRange: referenceRangeOf(value.reference_range, value.unit),
+          note: [{ text: result.test_name }],
+        }
+      })
+    )
+
+    const allFinal = (order.results || []).every((r: { status: string }) => isFinal(r.status))
+    const diagnosticReport = {
+      resourceType: 'DiagnosticReport',
+      id: report?.id || order.id,
+      identifier: [{ system: `${LIMS_SYSTEM}:sample`, value: order.sample_id || order.id }],
+      basedOn: serviceRequests.map(sr => ({ reference: urn(sr.id) })),
+      status: allFinal ? 'final' : 'partial',
+      category: [{ coding: [{ system: V2_0074, code: 'LAB', display: 'Laboratory' }] }],
+      code: { text: orderedTests.map(t => t.name).join(', ') || 'Laboratory report' },
+      subject: patientRef,
+      effectiveDateTime: effective,
+      issued: report?.generated_date || new Date().toISOString(),
+      resultsInterpreter: report?.doctor ? [{ display: report.doctor }] : undefined,
+      specimen: specimenResource ? [{ reference: urn(specimenResource.id) }] : undefined,
+      result: observations.map((o: { id: string }) => ({ reference: urn(o.id) })),
+      conclusion: report?.notes || undefined,
+      presentedForm: report?.pdf_url
+        ? [{ contentType: 'application/pdf', url: report.pdf_url, title: `Report ${order.sample_id || order.id}` }]
+        : undefined,
+    }
+
+    const resources = [patientResource, ...(specimenResource ? [specimenResource] : []), ...serviceRequests, diagnosticReport, ...observations]
+    const bundle = {
+      resourceType: 'Bundle',
+      id: crypto.randomUUID(),
+      meta: { lastUpdated: new Date().toISOString() },
+      type: 'collection',
+      timestamp: new Date().toISOString(),
+      entry: resources.map(resource => ({ fullUrl: urn(resource.id), resource })),
+    }
+
+    return jsonResponse(bundle, 200, 'application/fhir+json')
+  } catch (error) {
+    console.error('FHIR export error:', error)
+    return jsonResponse({ error: error.message }, 500)
+  }
+})
@@ -1,3 +1,6 @@
+import { getAiApiKey } from '../_shared/aiProvider.ts';
+import { AiQuotaExceededError, AiUsageDeniedError, AiUsageMeter, resolveCaller, startAiUsage } from '../_shared/aiUsage.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-attachment-id, x-order-id',
@@ -12,7 +15,7 @@ Deno.serve(async (req) => {
 
   try {
     // Check for API key first - try ALLGOOGLE_KEY first, then fallback to GEMINI_API_KEY
-    const geminiApiKey = Deno.env.get('ALLGOOGLE_KEY') || Deno.env.get('GEMINI_API_KEY');
+    const geminiApiKey = getAiApiKey('ALLGOOGLE_KEY', 'GEMINI_API_KEY');
     if (!geminiApiKey) {
       console.error('Google API key not configured');
       return new Response(
@@ -40,7 +43,10 @@ Deno.serve(async (req) => {
       expectedColor 
     } = await req.json();
 
-    console.log(`Starting Gemini NLP processing for ${aiProcessingType || documentType || testType || 'unknown'} type`);
+    const processingType = aiProcessingType || documentType || testType || 'unknown';
+    const usage = startAiUsage(req, 'gemini-nlp');
+
+    console.log(`Starting Gemini NLP processing for ${processingType} type`);
 
     // Check if we need to use Gemini Vision fallback for OCR
     const shouldUseFallback = documentType && 
@@ -50,7 +56,7 @@ Deno.serve(async (req) => {
     if (shouldUseFallback) {
       console.log('Vision OCR extracted insufficient text, using Gemini Vision fallback');
       prompt = generatePrompt('vision', documentType, 'fallback');
-      geminiResponse = await callGemini(prompt, geminiApiKey, originalBase64Image);
+      geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, originalBase64Image);
     }
     
     let prompt: string;
@@ -60,7 +66,7 @@ Deno.serve(async (req) => {
     if (aiPromptOverride && aiPromptOverride.trim().length > 0) {
       console.log('Using custom AI prompt override');
       prompt = aiPromptOverride;
-      geminiResponse = await callGemini(prompt, geminiApiKey, originalBase64Image);
+      geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, originalBase64Image);
     } else if (aiProcessingType) {
       // Use aiProcessingType for modern configuration
       console.log('Using aiProcessingType configuration:', aiProcessingType);
@@ -76,13 +82,13 @@ Deno.serve(async (req) => {
           );
         }
         prompt = generatePrompt('ocr', 'printed-report', rawText);
-        geminiResponse = await callGemini(prompt, geminiApiKey);
+        geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType);
       } else if (aiProcessingType === 'vision_card') {
         prompt = generatePrompt('vision', 'test-card', JSON.stringify(visionResults));
-        geminiResponse = await callGemini(prompt, geminiApiKey, base64Image || originalBase64Image);
+        geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, base64Image || originalBase64Image);
       } else if (aiProcessingType === 'vision_color') {
         prompt = generatePrompt('vision', 'color-analysis', JSON.stringify(visionResults));
-        geminiResponse = await callGemini(prompt, geminiApiKey, base64Image || originalBase64Image);
+        geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, base64Image || originalBase64Image);
       } else {
         return new Response(
           JSON.stringify({ error: `Unsupported aiProcessingType: ${aiProcessingType}` }),
@@ -105,17 +111,17 @@ Deno.serve(async (req) => {
       }
       
       prompt = generatePrompt('ocr', documentType, rawText);
-      geminiResponse = await callGemini(prompt, geminiApiKey);
+      geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType);
       
     } else if (testType === 'pipette-validation') {
       // Pipette validation processing
       prompt = generatePrompt('vision', 'pipette-validation', JSON.stringify({visionResults, pipetteDetails, expectedColor}));
-      geminiResponse = await callGemini(prompt, geminiApiKey, base64Image);
+      geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, base64Image);
       
     } else if (testType) {
       // Photo analysis processing
       prompt = generatePrompt('vision', testType, JSON.stringify(visionResults));
-      geminiResponse = await callGemini(prompt, geminiApiKey, base64Image);
+      geminiResponse = await callGemini(prompt, geminiApiKey, usage, processingType, base64Image);
       
     } else {
       return new Response(
@@ -214,7 +220,7 @@ Deno.serve(async (req) => {
       } else {
         // Default processing - lab results
         // Match extracted parameters to database analytes
-        const enhancedParameters = await matchParametersToAnalytes(jsonResponse);
+        const enhancedParameters = await matchParametersToAnalytes(jsonResponse, req);
         
         const responseWithMetadata = {
           extractedParameters: enhancedParameters,
@@ -321,6 +327,15 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Gemini NLP function error:', error);
+    if (error instanceof AiUsageDeniedError) {
+      return new Response(
+        JSON.stringify({
+          error: error instanceof AiQuotaExceededError ? 'AI usage quota exceeded' : 'AI usage not allowed',
+          details: error.message
+        }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     return new Response(
       JSON.stringify({ 
         error: 'Gemini processing failed', 
@@ -430,10 +445,15 @@ Focus on:
 /**
  * Call Google Gemini API
  */
-async function callGemini(prompt: string, geminiApiKey: string, imageData?: string): Promise<any> {
+async function callGemini(
+  prompt: string,
+  geminiApiKey: string,
+  usage: AiUsageMeter,
+  processingType: string,
+  imageData?: string
+): Promise<any> {
   // Use updated Gemini models and API endpoint
   const model = imageData ? 'gemini-1.5-flash' : 'gemini-1.5-flash';
-  const url = `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${geminiApiKey}`;
 
   let requestBody;
   
@@ -502,12 +522,9 @@ async function callGemini(prompt: string, geminiApiKey: string, imageData?: stri
 
   console.log(`Calling Gemini API with model: ${model}`);
   
-  const response = await fetch(url, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(requestBody),
+  const response = await usage.call({ service: 'gemini', model, body: requestBody }, geminiApiKey, {
+    processingType,
+    inputData: { promptLength: prompt.length, image: !!imageData },
   });
 
   if (!response.ok) {
@@ -533,10 +550,207 @@ async function callGemini(prompt: string, geminiApiKey: string, imageData?: stri
   return text;
 }
 
+// Scores at or above this match automatically; below it the parameter is left for review
+const AUTO_MATCH_SCORE = 0.8;
+// An automatic fuzzy match must beat the runner-up by this much
+const AMBIGUITY_MARGIN = 0.05;
+const CANDIDATE_MIN_SCORE = 0.4;
+
+// Spellings seen on Indian and UK reports; each group names one analyte
+const ALIAS_GROUPS: string[][] = [
+  ['hemoglobin', 'hb', 'hgb'],
+  ['total leukocyte count', 'tlc', 'wbc', 'white blood cell', 'total wbc', 'leukocyte'],
+  ['red blood cell', 'rbc', 'total rbc', 'erythrocyte'],
+  ['platelet', 'plt', 'thrombocyte'],
+  ['hematocrit', 'hct', 'pcv', 'packed cell volume'],
+  ['mean corpuscular volume', 'mcv'],
+  ['mean corpuscular hemoglobin', 'mch'],
+  ['mean corpuscular hemoglobin concentration', 'mchc'],
+  ['red cell distribution width', 'rdw', 'rdw cv'],
+  ['erythrocyte sedimentation rate', 'esr'],
+  ['fasting blood glucose', 'fbs', 'fbg', 'fasting blood sugar', 'fasting plasma glucose', 'fpg', 'glucose fasting'],
+  ['postprandial blood glucose', 'ppbs', 'pp blood sugar', 'post prandial blood sugar', 'glucose pp'],
+  ['random blood glucose', 'rbs', 'random blood sugar', 'glucose random'],
+  ['hba1c', 'glycated hemoglobin', 'glycosylated hemoglobin', 'a1c'],
+  ['blood urea nitrogen', 'bun'],
+  ['creatinine', 'creat', 'scr'],
+  ['uric acid', 'ua'],
+  ['alanine aminotransferase', 'alt', 'sgpt'],
+  ['aspartate aminotransferase', 'ast', 'sgot'],
+  ['alkaline phosphatase', 'alp'],
+  ['gamma glutamyl transferase', 'ggt', 'gamma gt'],
+  ['bilirubin total', 'tbil', 't bil'],
+  ['bilirubin direct', 'dbil', 'd bil', 'conjugated bilirubin'],
+  ['total cholesterol', 'cholesterol', 'chol', 'tc'],
+  ['triglyceride', 'tg', 'trig'],
+  ['hdl cholesterol', 'hdl', 'hdl c'],
+  ['ldl cholesterol', 'ldl', 'ldl c'],
+  ['thyroid stimulating hormone', 'tsh'],
+  ['sodium', 'na'],
+  ['potassium', 'k'],
+  ['chloride', 'cl'],
+  ['calcium', 'ca'],
+  ['c reactive protein', 'crp'],
+];
+
+// Words that say where or how something was measured, not what
+const NOISE_WORDS = new Set(['serum', 'plasma', 'blood', 'whole', 'level', 'levels', 'value', 'test', 'count', 'of', 'in']);
+
+function normalizeName(raw: string): string {
+  return (raw || '')
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[̀-ͯ]/g, '')
+    .replace(/ae/g, 'e')
+    .replace(/oe/g, 'e')
+    .replace(/leuc/g, 'leuk')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word && !NOISE_WORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .join(' ');
+}
+
+// "Hemoglobin (Hb)" is matched both as the full name and as the part in brackets
+function nameVariants(raw: string): string[] {
+  const variants = [normalizeName(raw), normalizeName(raw.replace(/\([^)]*\)/g, ' '))];
+  for (const inner of raw.match(/\(([^)]+)\)/g) || []) variants.push(normalizeName(inner));
+  return [...new Set(variants.filter(Boolean))];
+}
+
+function initials(name: string): string {
+  return name.split(' ').map(word => (/^\d/.test(word) ? word : word[0])).join('');
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+function editSimilarity(a: string, b: string): number {
+  const compactA = a.replace(/ /g, '');
+  const compactB = b.replace(/ /g, '');
+  const longest = Math.max(compactA.length, compactB.length);
+  return longest === 0 ? 0 : 1 - editDistance(compactA, compactB) / longest;
+}
+
+// Dice overlap of words, allowing a one-letter typo in longer words
+function tokenSimilarity(a: string, b: string): number {
+  const tokensA = a.split(' ');
+  const tokensB = b.split(' ');
+  const shared = tokensA.filter(token =>
+    tokensB.some(other => other === token || (token.length >= 5 && other.length >= 5 && editDistance(token, other) <= 1))
+  ).length;
+  return (2 * shared) / (tokensA.length + tokensB.length);
+}
+
+function aliasGroupOf(name: string): number {
+  return ALIAS_GROUPS.findIndex(group => group.some(alias => normalizeName(alias) === name));
+}
+
+function normalizeUnit(unit: string): string {
+  return (unit || '')
+    .toLowerCase()
+    .replace(/[µμ]/g, 'u')
+    .replace(/mcg/g, 'ug')
+    .replace(/c\.?u\.?mm|cmm|mm3/g, 'ul')
+    .replace(/\s+/g, '');
+}
+
+// Coarse unit kinds; mass and molar concentrations convert into each other, so they share one
+function unitKind(unit: string): string | null {
+  const u = normalizeUnit(unit);
+  if (!u) return null;
+  if (u === '%') return 'percent';
+  if (/^[munp]?(g|mol|eq)\/(d|m)?l$/.test(u)) return 'concentration';
+  if (/^(m|[iu])?u\/(m)?l$/.test(u)) return 'activity';
+  if (/lakh|mill|cells|10\^|10\*|^\/u?l$|thou/.test(u)) return 'count';
+  if (u === 'fl') return 'volume';
+  if (u === 'pg') return 'mass';
+  if (/mm\/h/.test(u)) return 'rate';
+  if (/^(s|sec|seconds|min)$/.test(u)) return 'time';
+  return null;
+}
+
+interface AnalyteRow {
+  id: string;
+  name: string;
+  unit: string | null;
+  reference_range: string | null;
+  alternate_unit: string | null;
+}
+
+interface MatchCandidate {
+  analyte_id: string;
+  name: string;
+  unit: string | null;
+  score: number;
+  method: 'exact' | 'synonym' | 'alias' | 'abbreviation' | 'fuzzy';
+}
+
+function scoreAnalyte(parameter: string, unit: string, analyte: AnalyteRow, synonyms: Map<string, string>): MatchCandidate {
+  const paramNames = nameVariants(parameter);
+  const analyteNames = nameVariants(analyte.name);
+  let score = 0;
+  let method: MatchCandidate['method'] = 'fuzzy';
+
+  const consider = (value: number, how: MatchCandidate['method']) => {
+    if (value > score) {
+      score = value;
+      method = how;
+    }
+  };
+
+  for (const p of paramNames) {
+    if (synonyms.get(p) === analyte.id) consider(0.98, 'synonym');
+    for (const a of analyteNames) {
+      // Word order differs between reports ("Total Bilirubin" / "Bilirubin, Total")
+      if (p === a || p.split(' ').sort().join(' ') === a.split(' ').sort().join(' ')) consider(1, 'exact');
+      const group = aliasGroupOf(p);
+      if (group !== -1 && group === aliasGroupOf(a)) consider(0.92, 'alias');
+      const compact = p.replace(/ /g, '');
+      if (compact.length >= 2 && a.includes(' ') && compact === initials(a)) consider(0.85, 'abbreviation');
+      consider(Math.max(editSimilarity(p, a), tokenSimilarity(p, a)) * 0.9, 'fuzzy');
+    }
+  }
+
+  // Unit agreement confirms a name match; a unit of a different kind argues against it
+  if (unit && analyte.unit && method !== 'exact' && method !== 'synonym') {
+    const documentUnit = normalizeUnit(unit);
+    if (documentUnit === normalizeUnit(analyte.unit) || documentUnit === normalizeUnit(analyte.alternate_unit || '')) {
+      score = Math.min(1, score + 0.05);
+    } else {
+      const documentKind = unitKind(unit);
+      const analyteKind = unitKind(analyte.unit);
+      if (documentKind && analyteKind && documentKind !== analyteKind) score -= 0.15;
+    }
+  }
+
+  return {
+    analyte_id: analyte.id,
+    name: analyte.name,
+    unit: analyte.unit || null,
+    score: Math.max(0, Math.round(score * 100) / 100),
+    method,
+  };
+}
+
 /**
- * Match extracted parameters to database analytes
+ * Match extracted parameters to database analytes.
+ * Each parameter is scored against every analyte (lab synonyms, built-in aliases, abbreviations,
+ * edit distance, unit compatibility). Confident, unambiguous matches are applied; everything else
+ * comes back with ranked candidates so a technician can confirm it and save the name as a synonym.
  */
-async function matchParametersToAnalytes(extractedParameters: any[]): Promise<any[]> {
+async function matchParametersToAnalytes(extractedParameters: any[], req: Request): Promise<any[]> {
   try {
     const supabaseUrl = Deno.env.get('SUPABASE_URL');
     const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
@@ -546,16 +760,16 @@ async function matchParametersToAnalytes(extractedParameters: any[]): Promise<an
       return extractedParameters;
     }
 
+    const headers = {
+      'Authorization': 'Bearer ' + supabaseServiceKey,
+      'apikey': supabaseServiceKey,
+      'Content-Type': 'application/json',
+    };
+
     // Fetch all analytes from database
     const analytesResponse = await fetch(
-      supabaseUrl + '/rest/v1/analytes?select=id,name,unit,reference_range',
-      {
-        headers: {
-          'Authorization': 'Bearer ' + supabaseServiceKey,
-          'apikey': supabaseServiceKey,
-          'Content-Type': 'application/json',
-        },
-      }
+      supabaseUrl + '/rest/v1/analytes?select=id,name,unit,reference_range,alternate_unit',
+      { headers }
     );
 
     if (!analytesResponse.ok) {
@@ -563,31 +777,66 @@ async function matchParametersToAnalytes(extractedParameters: any[]): Promise<an
       return extractedParameters;
     }
 
-    const analytes = await analytesResponse.json();
+    const analytes: AnalyteRow[] = await analytesResponse.json();
+
+    // Shared synonyms plus the caller's lab's own
+    const { labId } = await resolveCaller(req);
+    const synonymFilter = labId ? `or=(lab_id.is.null,lab_id.eq.${labId})` : 'lab_id=is.null';
+    const synonymsResponse = await fetch(
+      supabaseUrl + '/rest/v1/analyte_synonyms?select=analyte_id,synonym&' + synonymFilter,
+      { headers }
+    );
+    const synonyms = new Map<string, string>();
+    if (synonymsResponse.ok) {
+      for (const row of await synonymsResponse.json()) synonyms.set(normalizeName(row.synonym), row.analyte_id);
+    } else {
+      console.warn('Failed to fetch analyte synonyms, matching by name only');
+    }
 
     // Match each extracted parameter to analytes
     const enhancedParameters = extractedParameters.map(param => {
-      const matchedAnalyte = analytes.find((analyte: any) => 
-        analyte.name.toLowerCase().trim() === param.parameter.toLowerCase().trim()
-      );
+      const ranked: MatchCandidate[] = analytes
+        .map(analyte => scoreAnalyte(param.parameter || '', param.unit || '', analyte, synonyms))
+        .filter(candidate => candidate.score >= CANDIDATE_MIN_SCORE)
+        .sort((a, b) => b.score - a.score);
+      const best = ranked[0];
+      const certain = !!best && (best.method === 'exact' || best.method === 'synonym');
+      const unambiguous = !!best && (!ranked[1] || ranked[1].score <= best.score - AMBIGUITY_MARGIN);
+      const matchedAnalyte = best && best.score >= AUTO_MATCH_SCORE && (certain || unambiguous)
+        ? analytes.find(analyte => analyte.id === best.analyte_id)
+        : null;
 
       if (matchedAnalyte) {
         return {
           ...param,
           analyte_id: matchedAnalyte.id,
+          analyte_name: matchedAnalyte.name,
           matched: true,
+          match_score: best.score,
+          match_method: best.method,
+          // Exact names and confirmed synonyms need no second look
+          needs_review: !certain,
+          match_candidates: certain ? [] : ranked.slice(0, 3),
           reference_range: param.reference_range || matchedAnalyte.reference_range,
-          unit: param.unit || matchedAnalyte.unit
+          unit: param.unit || matchedAnalyte.unit,
+          // Values keep the document's unit; callers convert to the lab's canonical unit before flagging
+          canonical_unit: matchedAnalyte.unit,
+          alternate_unit: matchedAnalyte.alternate_unit || null
         };
       }
 
       return {
         ...param,
-        matched: false
+        matched: false,
+        needs_review: true,
+        match_score: best?.score ?? 0,
+        match_candidates: ranked.slice(0, 3)
       };
     });
 
-    console.log(`Matched ${enhancedParameters.filter(p => p.matched).length} of ${extractedParameters.length} parameters to database analytes`);
+    const matchedCount = enhancedParameters.filter(p => p.matched).length;
+    const reviewCount = enhancedParameters.filter(p => p.needs_review).length;
+    console.log(`Matched ${matchedCount} of ${extractedParameters.length} parameters to database analytes (${reviewCount} need review)`);
 
     return enhancedParameters;
 
@@ -595,4 +844,4 @@ async function matchParametersToAnalytes(extractedParameters: any[]): Promise<an
     console.warn('Error matching parameters to analytes:', error);
     return extractedParameters;
   }
-}
\ No newline at end of file
+}
@@ -195,7 +195,7 @@ serve(async (req) => {
 
       case 'auto_approve_normal': {
         // Auto-approve results within normal ranges with no flags
-        const { data: normalResults, error: findError } = await supabaseClient
+        const { data: candidates, error: findError } = await supabaseClient
           .from('view_results_pending')
           .select('id')
           .is('flags', null)
@@ -204,6 +204,21 @@ serve(async (req) => {
 
         if (findError) throw findError
 
+        // Delta-flagged results need a human review; the flag lives on results, not the pending view
+        const candidateIds = (candidates || []).map((result: { id: string }) => result.id)
+        let deltaFlaggedIds = new Set<string>()
+        if (candidateIds.length > 0) {
+          const { data: flagged, error: deltaError } = await supabaseClient
+            .from('results')
+            .select('id')
+            .in('id', candidateIds)
+            .eq('delta_check_flag', true)
+
+          if (deltaError) throw deltaError
+          deltaFlaggedIds = new Set((flagged || []).map((result: { id: string }) => result.id))
+        }
+        const normalResults = (candidates || []).filter((result: { id: string }) => !deltaFlaggedIds.has(result.id))
+
         if (normalResults && normalResults.length > 0) {
           const autoApprovePromises = normalResults.map(async (result: any) => {
             const { error } = await supabaseClient
@@ -1,3 +1,6 @@
+import { getAiApiKey } from '../_shared/aiProvider.ts';
+import { AiQuotaExceededError, AiUsageDeniedError, AiUsageMeter, startAiUsage } from '../_shared/aiUsage.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-attachment-id, x-order-id',
@@ -13,8 +16,16 @@ interface VisionRequest {
   analysisType?: 'text' | 'objects' | 'colors' | 'all';
 }
 
+interface OcrWord {
+  text: string;
+  confidence: number | null;
+  // Pixel bounding box in the source image
+  box: { x: number; y: number; width: number; height: number };
+}
+
 interface VisionResponse {
   fullText?: string;
+  words?: OcrWord[];
   objects?: any[];
   colors?: any[];
   confidence?: number;
@@ -24,7 +35,7 @@ interface VisionResponse {
 /**
  * Call Google Cloud Vision AI Text Detection
  */
-async function getVisionText(base64Image: string, apiKey: string): Promise<any> {
+async function getVisionText(base64Image: string, apiKey: string, usage: AiUsageMeter, processingType: string): Promise<any> {
   // Validate base64 image
   if (!base64Image || base64Image.length === 0) {
     throw new Error('Invalid base64 image data');
@@ -40,28 +51,22 @@ async function getVisionText(base64Image: string, apiKey: string): Promise<any>
     throw new Error('Invalid base64 encoding');
   }
 
-  const response = await fetch(
-    `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        requests: [
-          {
-            image: {
-              content: cleanBase64,
-            },
-            features: [
-              { type: 'DOCUMENT_TEXT_DETECTION' },
-              { type: 'TEXT_DETECTION' }
-            ],
+  const response = await usage.call({
+    service: 'vision',
+    body: {
+      requests: [
+        {
+          image: {
+            content: cleanBase64,
           },
-        ],
-      }),
-    }
-  );
+          features: [
+            { type: 'DOCUMENT_TEXT_DETECTION' },
+            { type: 'TEXT_DETECTION' }
+          ],
+        },
+      ],
+    },
+  }, apiKey, { processingType, inputData: { feature: 'text' } });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -80,14 +85,68 @@ async function getVisionText(base64Image: string, apiKey: string): Promise<any>
   return {
     fullText: annotations.fullTextAnnotation?.text || '',
     textAnnotations: annotations.textAnnotations || [],
+    words: getOcrWords(annotations),
     confidence: annotations.textAnnotations?.[0]?.confidence || 0,
   };
 }
 
+type Vertex = { x?: number; y?: number };
+
+// The parts of a Vision text detection response that carry word positions
+interface TextAnnotationResponse {
+  fullTextAnnotation?: {
+    pages?: Array<{
+      blocks?: Array<{
+        paragraphs?: Array<{
+          words?: Array<{ symbols?: Array<{ text?: string }>; confidence?: number; boundingBox?: { vertices?: Vertex[] } }>;
+        }>;
+      }>;
+    }>;
+  };
+  textAnnotations?: Array<{ description?: string; boundingPoly?: { vertices?: Vertex[] } }>;
+}
+
+function boundingBox(vertices: Vertex[] = []): OcrWord['box'] {
+  const xs = vertices.map(v => v.x || 0);
+  const ys = vertices.map(v => v.y || 0);
+  const x = xs.length ? Math.min(...xs) : 0;
+  const y = ys.length ? Math.min(...ys) : 0;
+  return { x, y, width: (xs.length ? Math.max(...xs) : 0) - x, height: (ys.length ? Math.max(...ys) : 0) - y };
+}
+
+/**
+ * Words with their position and recognition confidence, used to crop the image region a value
+ * was read from. Document text detection gives per-word confidence; plain text detection
+ * annotations (after the first, which is the whole text) only give positions.
+ */
+function getOcrWords(annotations: TextAnnotationResponse): OcrWord[] {
+  const words: OcrWord[] = [];
+  for (const page of annotations.fullTextAnnotation?.pages || []) {
+    for (const block of page.blocks || []) {
+      for (const paragraph of block.paragraphs || []) {
+        for (const word of paragraph.words || []) {
+          words.push({
+            text: (word.symbols || []).map(symbol => symbol.text || '').join(''),
+            confidence: typeof word.confidence === 'number' ? word.confidence : null,
+            box: boundingBox(word.boundingBox?.vertices),
+          });
+        }
+      }
+    }
+  }
+  if (words.length > 0) return words;
+
+  return (annotations.textAnnotations || []).slice(1).map(annotation => ({
+    text: annotation.description || '',
+    confidence: null,
+    box: boundingBox(annotation.boundingPoly?.vertices),
+  }));
+}
+
 /**
  * Call Google Cloud Vision AI Object Detection
  */
-async function getVisionObjects(base64Image: string, apiKey: string): Promise<any> {
+async function getVisionObjects(base64Image: string, apiKey: string, usage: AiUsageMeter, processingType: string): Promise<any> {
   // Validate base64 image
   if (!base64Image || base64Image.length === 0) {
     throw new Error('Invalid base64 image data');
@@ -96,28 +155,22 @@ async function getVisionObjects(base64Image: string, apiKey: string): Promise<an
   // Remove data URL prefix if present
   const cleanBase64 = base64Image.replace(/^data:image\/[a-z]+;base64,/, '');
 
-  const response = await fetch(
-    `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        requests: [
-          {
-            image: {
-              content: cleanBase64,
-            },
-            features: [
-              { type: 'OBJECT_LOCALIZATION', maxResults: 20 },
-              { type: 'LABEL_DETECTION', maxResults: 20 }
-            ],
+  const response = await usage.call({
+    service: 'vision',
+    body: {
+      requests: [
+        {
+          image: {
+            content: cleanBase64,
           },
-        ],
-      }),
-    }
-  );
+          features: [
+            { type: 'OBJECT_LOCALIZATION', maxResults: 20 },
+            { type: 'LABEL_DETECTION', maxResults: 20 }
+          ],
+        },
+      ],
+    },
+  }, apiKey, { processingType, inputData: { feature: 'objects' } });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -144,7 +197,7 @@ async function getVisionObjects(base64Image: string, apiKey: string): Promise<an
 /**
  * Call Google Cloud Vision AI Color Detection
  */
-async function getVisionColors(base64Image: string, apiKey: string): Promise<any> {
+async function getVisionColors(base64Image: string, apiKey: string, usage: AiUsageMeter, processingType: string): Promise<any> {
   // Validate base64 image
   if (!base64Image || base64Image.length === 0) {
     throw new Error('Invalid base64 image data');
@@ -153,27 +206,21 @@ async function getVisionColors(base64Image: string, apiKey: string): Promise<any
   // Remove data URL prefix if present
   const cleanBase64 = base64Image.replace(/^data:image\/[a-z]+;base64,/, '');
 
-  const response = await fetch(
-    `https://vision.googleapis.com/v1/images:annotate?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        requests: [
-          {
-            image: {
-              content: cleanBase64,
-            },
-            features: [
-              { type: 'IMAGE_PROPERTIES' }
-            ],
+  const response = await usage.call({
+    service: 'vision',
+    body: {
+      requests: [
+        {
+          image: {
+            content: cleanBase64,
           },
-        ],
-      }),
-    }
-  );
+          features: [
+            { type: 'IMAGE_PROPERTIES' }
+          ],
+        },
+      ],
+    },
+  }, apiKey, { processingType, inputData: { feature: 'colors' } });
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -280,7 +327,7 @@ Deno.serve(async (req) => {
 
   try {
     // Check for API key first - try ALLGOOGLE_KEY first, then fallback to GOOGLE_CLOUD_API_KEY
-    const visionApiKey = Deno.env.get('ALLGOOGLE_KEY') || Deno.env.get('GOOGLE_CLOUD_API_KEY');
+    const visionApiKey = getAiApiKey('ALLGOOGLE_KEY', 'GOOGLE_CLOUD_API_KEY');
     if (!visionApiKey) {
       console.error('Google API key not configured');
       return new Response(
@@ -325,6 +372,11 @@ Deno.serve(async (req) => {
       );
     }
 
+    const processingType = aiProcessingType || documentType || testType || 'unknown';
+    const usage = startAiUsage(req, 'vision-ocr');
+    // Checked up front: the feature calls below turn their errors into visionResults.error
+    await usage.checkQuota();
+
     const visionResults: VisionResponse = {};
 
     // Determine which Vision AI features to use based on document/test type
@@ -344,8 +396,9 @@ Deno.serve(async (req) => {
     if (needsText) {
       try {
         console.log('Performing text extraction with Vision AI...');
-        const textResult = await getVisionText(imageData, visionApiKey);
+        const textResult = await getVisionText(imageData, visionApiKey, usage, processingType);
         visionResults.fullText = textResult.fullText;
+        visionResults.words = textResult.words;
         visionResults.confidence = textResult.confidence;
         console.log(`Text extraction completed. Extracted ${textResult.fullText.length} characters`);
       } catch (error) {
@@ -357,7 +410,7 @@ Deno.serve(async (req) => {
     if (needsObjects) {
       try {
         console.log('Performing object detection with Vision AI...');
-        const objectResult = await getVisionObjects(imageData, visionApiKey);
+        const objectResult = await getVisionObjects(imageData, visionApiKey, usage, processingType);
         visionResults.objects = objectResult.objects;
         console.log(`Object detection completed. Found ${objectResult.objectCount} objects`);
       } catch (error) {
@@ -369,7 +422,7 @@ Deno.serve(async (req) => {
     if (needsColors) {
       try {
         console.log('Performing color analysis with Vision AI...');
-        const colorResult = await getVisionColors(imageData, visionApiKey);
+        const colorResult = await getVisionColors(imageData, visionApiKey, usage, processingType);
         visionResults.colors = colorResult.dominantColors;
         console.log(`Color analysis completed. Found ${colorResult.colorCount} dominant colors`);
       } catch (error) {
@@ -449,6 +502,15 @@ Deno.serve(async (req) => {
 
   } catch (error) {
     console.error('Vision OCR function error:', error);
+    if (error instanceof AiUsageDeniedError) {
+      return new Response(
+        JSON.stringify({
+          error: error instanceof AiQuotaExceededError ? 'AI usage quota exceeded' : 'AI usage not allowed',
+          details: error.message
+        }),
+        { status: error.status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
     return new Response(
       JSON.stringify({ 
         error: 'Vision processing failed', 
@@ -0,0 +1,63 @@
+/*
+  # Structured Reference Ranges
+
+  1. New Tables
+     - `analyte_reference_ranges` - one row per demographic partition of an analyte's normal range
+       - `lab_id` NULL means the row is global (sits alongside `analytes.reference_range`)
+       - `lab_id` set means the row is lab-specific (sits alongside `lab_analytes.lab_specific_reference_range`)
+       - rows are keyed by `sex`, age band (`age_min`/`age_max` in `age_unit`), `pregnancy_trimester` and `specimen_type`
+
+  2. Schema Changes
+     - Add `date_of_birth` to `patients` so neonatal ranges can be selected by age in days
+     - Add `pregnancy_trimester` to `orders` so antenatal panels use trimester-specific ranges
+
+  3. Security
+     - Enable RLS on `analyte_reference_ranges`
+     - Authenticated users can read and manage reference ranges
+*/
+
+CREATE TABLE IF NOT EXISTS public.analyte_reference_ranges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id) ON DELETE CASCADE,
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  sex text NOT NULL DEFAULT 'any' CHECK (sex IN ('M', 'F', 'any')),
+  age_band text CHECK (age_band IN ('neonate', 'child', 'adult', 'geriatric')),
+  age_min numeric CHECK (age_min IS NULL OR age_min >= 0),
+  age_max numeric CHECK (age_max IS NULL OR age_max >= 0),
+  age_unit text NOT NULL DEFAULT 'years' CHECK (age_unit IN ('days', 'years')),
+  pregnancy_trimester smallint CHECK (pregnancy_trimester IN (1, 2, 3)),
+  specimen_type text,
+  low_value numeric,
+  high_value numeric,
+  display_text text,
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT analyte_reference_ranges_bounds_check CHECK (low_value IS NOT NULL OR high_value IS NOT NULL),
+  CONSTRAINT analyte_reference_ranges_age_check CHECK (age_min IS NULL OR age_max IS NULL OR age_min <= age_max)
+);
+
+CREATE INDEX IF NOT EXISTS idx_analyte_reference_ranges_analyte ON public.analyte_reference_ranges(analyte_id);
+CREATE INDEX IF NOT EXISTS idx_analyte_reference_ranges_lab ON public.analyte_reference_ranges(lab_id);
+
+ALTER TABLE public.patients
+ADD COLUMN IF NOT EXISTS date_of_birth date;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS pregnancy_trimester smallint CHECK (pregnancy_trimester IN (1, 2, 3));
+
+ALTER TABLE public.analyte_reference_ranges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read reference ranges"
+  ON public.analyte_reference_ranges
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage reference ranges"
+  ON public.analyte_reference_ranges
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,119 @@
+/*
+  # Critical Value Callbacks
+
+  1. New Tables
+     - `critical_value_callbacks` - one task per critical result value that must be phoned through
+       - who was called (`called_person_name`, `called_person_role`, `contact_number`), when (`called_at`) and by whom (`called_by`)
+       - read-back confirmation (`read_back_confirmed`, `read_back_value`)
+       - `escalation_chain` - ordered JSON list of attempts ({ level, name, role, contact, attempted_at, outcome })
+       - `status` - open -> escalated -> documented, or voided when a re-saved value is no longer critical
+       - `voided_by`, `voided_at`, `void_reason` - who superseded the task and why
+
+  2. Report Guard
+     - `prevent_report_with_open_critical_callbacks` trigger on `reports` rejects generating or
+       releasing a report while the order still has undocumented critical callbacks
+
+  3. Security
+     - Enable RLS on `critical_value_callbacks`
+     - Authenticated users can read, open and document callbacks
+*/
+
+CREATE TABLE IF NOT EXISTS public.critical_value_callbacks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  result_id uuid REFERENCES public.results(id) ON DELETE CASCADE,
+  analyte_id uuid REFERENCES public.analytes(id),
+  lab_id uuid REFERENCES public.labs(id),
+  parameter character varying NOT NULL,
+  value character varying NOT NULL,
+  unit character varying,
+  critical_limit text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'escalated', 'documented', 'voided')),
+  called_person_name text,
+  called_person_role text,
+  contact_number text,
+  called_at timestamptz,
+  called_by uuid REFERENCES auth.users(id),
+  read_back_confirmed boolean NOT NULL DEFAULT false,
+  read_back_value text,
+  escalation_chain jsonb NOT NULL DEFAULT '[]'::jsonb,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  documented_at timestamptz,
+  voided_by uuid REFERENCES auth.users(id),
+  voided_at timestamptz,
+  void_reason text,
+  CONSTRAINT critical_value_callbacks_documented_check CHECK (
+    status <> 'documented' OR (
+      called_person_name IS NOT NULL AND
+      called_at IS NOT NULL AND
+      read_back_confirmed = true
+    )
+  ),
+  CONSTRAINT critical_value_callbacks_voided_check CHECK (
+    status <> 'voided' OR (
+      voided_by IS NOT NULL AND
+      voided_at IS NOT NULL AND
+      void_reason IS NOT NULL
+    )
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_critical_value_callbacks_order ON public.critical_value_callbacks(order_id);
+CREATE INDEX IF NOT EXISTS idx_critical_value_callbacks_status ON public.critical_value_callbacks(status);
+
+-- One open task per result parameter; re-saving a draft must not spawn duplicates
+CREATE UNIQUE INDEX IF NOT EXISTS idx_critical_value_callbacks_open_unique
+  ON public.critical_value_callbacks(result_id, parameter)
+  WHERE status IN ('open', 'escalated');
+
+-- Block report generation/release while callbacks are outstanding
+CREATE OR REPLACE FUNCTION public.prevent_report_with_open_critical_callbacks()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $function$
+BEGIN
+    IF NEW.order_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE'
+       AND NEW.status IS NOT DISTINCT FROM OLD.status
+       AND NEW.pdf_url IS NOT DISTINCT FROM OLD.pdf_url THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1
+        FROM public.critical_value_callbacks c
+        WHERE c.order_id = NEW.order_id
+          AND c.status IN ('open', 'escalated')
+    ) THEN
+        RAISE EXCEPTION 'Critical value callback not documented for order %', NEW.order_id
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trg_reports_critical_callbacks ON public.reports;
+CREATE TRIGGER trg_reports_critical_callbacks
+    BEFORE INSERT OR UPDATE ON public.reports
+    FOR EACH ROW
+    EXECUTE FUNCTION public.prevent_report_with_open_critical_callbacks();
+
+ALTER TABLE public.critical_value_callbacks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read critical callbacks"
+  ON public.critical_value_callbacks
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can manage critical callbacks"
+  ON public.critical_value_callbacks
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,33 @@
+/*
+  # Delta Checks
+
+  1. Analyte Configuration
+     - `delta_check_absolute` - maximum allowed change in the analyte's unit (null = not checked)
+     - `delta_check_percent` - maximum allowed change as a percentage of the previous value (null = not checked)
+     - `delta_check_window_days` - how far back a previous result is considered (null = any previous result)
+
+  2. Result Values
+     - `previous_value` / `previous_result_date` - the patient's prior value the current one was compared against
+     - `delta_value` / `delta_percent` - signed change from the prior value
+     - `delta_flag` - true when the change exceeds the analyte's configured limit
+
+  3. Results
+     - `results.delta_check_flag` (existing) is set when any of its values is delta flagged,
+       which keeps the result out of automatic approval
+*/
+
+ALTER TABLE public.analytes
+  ADD COLUMN IF NOT EXISTS delta_check_absolute numeric CHECK (delta_check_absolute IS NULL OR delta_check_absolute > 0),
+  ADD COLUMN IF NOT EXISTS delta_check_percent numeric CHECK (delta_check_percent IS NULL OR delta_check_percent > 0),
+  ADD COLUMN IF NOT EXISTS delta_check_window_days integer CHECK (delta_check_window_days IS NULL OR delta_check_window_days > 0);
+
+ALTER TABLE public.result_values
+  ADD COLUMN IF NOT EXISTS previous_value character varying,
+  ADD COLUMN IF NOT EXISTS previous_result_date timestamptz,
+  ADD COLUMN IF NOT EXISTS delta_value numeric,
+  ADD COLUMN IF NOT EXISTS delta_percent numeric,
+  ADD COLUMN IF NOT EXISTS delta_flag boolean DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_results_delta_check_flag
+  ON public.results(delta_check_flag)
+  WHERE delta_check_flag = true;
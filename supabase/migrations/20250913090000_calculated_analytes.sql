@@ -0,0 +1,31 @@
+/*
+  # Calculated Analytes
+
+  1. Analyte Configuration
+     - `is_calculated` - value is derived from other analytes instead of being entered
+     - `formula` - arithmetic expression over the variables below (e.g. `TC - HDL - TG / 5`)
+     - `formula_variables` - JSON list binding formula identifiers to source analytes
+       ([{ "name": "TG", "analyte_id": "...", "unit": "mg/dL" }]); sources must belong to
+       the same test group as the calculated analyte
+     - `formula_validity` - optional guard that must hold for the formula to apply (e.g. `TG <= 400`)
+     - `formula_decimals` - rounding applied to the computed value
+
+  2. Result Values
+     - `is_calculated` marks values produced by the formula engine so they are not
+       mistaken for instrument or manual entries
+*/
+
+ALTER TABLE public.analytes
+  ADD COLUMN IF NOT EXISTS is_calculated boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS formula text,
+  ADD COLUMN IF NOT EXISTS formula_variables jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS formula_validity text,
+  ADD COLUMN IF NOT EXISTS formula_decimals integer DEFAULT 2 CHECK (formula_decimals IS NULL OR (formula_decimals >= 0 AND formula_decimals <= 6));
+
+ALTER TABLE public.analytes
+  DROP CONSTRAINT IF EXISTS analytes_formula_required_check;
+ALTER TABLE public.analytes
+  ADD CONSTRAINT analytes_formula_required_check CHECK (NOT is_calculated OR formula IS NOT NULL);
+
+ALTER TABLE public.result_values
+  ADD COLUMN IF NOT EXISTS is_calculated boolean DEFAULT false;
@@ -0,0 +1,63 @@
+/*
+  # Workflow Versioning
+
+  1. Workflow Versions
+     - `status` - draft | published | retired; only drafts may be edited
+     - `published_at` / `published_by` - who made the version active and when
+     - `notes` - change notes shown in the version history
+     - one row per (workflow_id, version) and at most one published version per workflow
+
+  2. Resolution
+     - `getLabWorkflowForTest` resolves the published version of the mapped workflow, so
+       publishing a new version takes effect for new orders without remapping tests
+     - `order_workflow_instances.workflow_version_id` stays pinned to the version an
+       instance started with; in-flight instances never switch definitions
+
+  3. Immutability
+     - definitions of published or retired versions cannot be changed; publish a new
+       version instead
+*/
+
+ALTER TABLE public.workflow_versions
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'published', 'retired')),
+  ADD COLUMN IF NOT EXISTS published_at timestamptz,
+  ADD COLUMN IF NOT EXISTS published_by uuid REFERENCES auth.users(id),
+  ADD COLUMN IF NOT EXISTS notes text;
+
+-- Versions already referenced by a test mapping were live before versioning existed
+UPDATE public.workflow_versions v
+SET status = 'published', published_at = COALESCE(v.published_at, v.created_at)
+WHERE v.status = 'draft'
+  AND EXISTS (SELECT 1 FROM public.test_workflow_map m WHERE m.workflow_version_id = v.id)
+  AND v.version = (
+    SELECT max(v2.version) FROM public.workflow_versions v2
+    JOIN public.test_workflow_map m2 ON m2.workflow_version_id = v2.id
+    WHERE v2.workflow_id = v.workflow_id
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_versions_workflow_version_key
+  ON public.workflow_versions (workflow_id, version);
+
+CREATE UNIQUE INDEX IF NOT EXISTS workflow_versions_one_published
+  ON public.workflow_versions (workflow_id)
+  WHERE status = 'published';
+
+CREATE OR REPLACE FUNCTION public.prevent_published_workflow_edit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' AND NEW.definition IS DISTINCT FROM OLD.definition THEN
+    RAISE EXCEPTION 'Workflow version % is %; create a new version to change its definition', OLD.version, OLD.status;
+  END IF;
+  IF OLD.status = 'retired' AND NEW.status <> 'retired' THEN
+    RAISE EXCEPTION 'Retired workflow versions cannot be republished';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS workflow_versions_immutable ON public.workflow_versions;
+CREATE TRIGGER workflow_versions_immutable
+  BEFORE UPDATE ON public.workflow_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_published_workflow_edit();
@@ -0,0 +1,126 @@
+/*
+  # Internal Quality Control (Westgard)
+
+  1. New Tables
+     - `qc_materials` - control material per lab (name, manufacturer, level e.g. "Level 1")
+     - `qc_lots` - lots of a material with expiry; only active lots accept runs
+     - `qc_lot_targets` - target mean/SD per analyte (and optionally instrument) for a lot
+     - `qc_runs` - one control measurement; stores z-score, Westgard `violations` and `status`
+       (accepted | warning | rejected). Rejected runs stay open until `resolved_at` is set
+     - `qc_corrective_actions` - corrective action logged against a rejected run; resolves
+       every open rejection for the same analyte + instrument
+
+  2. Result Entry Lockout
+     - `qc_open_failures` view lists analytes with unresolved rejected runs; result entry
+       for those analytes is blocked until a corrective action is logged
+
+  3. Security
+     - Enable RLS on all QC tables
+     - Authenticated users can read and manage QC records
+*/
+
+CREATE TABLE IF NOT EXISTS public.qc_materials (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  name text NOT NULL,
+  manufacturer text,
+  level text NOT NULL,
+  matrix text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.qc_lots (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  material_id uuid NOT NULL REFERENCES public.qc_materials(id) ON DELETE CASCADE,
+  lot_number text NOT NULL,
+  expiry_date date,
+  opened_at date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (material_id, lot_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.qc_lot_targets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lot_id uuid NOT NULL REFERENCES public.qc_lots(id) ON DELETE CASCADE,
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id),
+  instrument text NOT NULL DEFAULT '',
+  target_mean numeric NOT NULL,
+  target_sd numeric NOT NULL CHECK (target_sd > 0),
+  unit text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (lot_id, analyte_id, instrument)
+);
+
+CREATE TABLE IF NOT EXISTS public.qc_corrective_actions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id),
+  instrument text NOT NULL DEFAULT '',
+  root_cause text,
+  action_taken text NOT NULL,
+  performed_by uuid REFERENCES auth.users(id),
+  performed_by_name text,
+  performed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.qc_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  lot_target_id uuid NOT NULL REFERENCES public.qc_lot_targets(id),
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id),
+  instrument text NOT NULL DEFAULT '',
+  value numeric NOT NULL,
+  z_score numeric NOT NULL,
+  status text NOT NULL CHECK (status IN ('accepted', 'warning', 'rejected')),
+  violations text[] NOT NULL DEFAULT '{}',
+  run_at timestamptz NOT NULL DEFAULT now(),
+  entered_by uuid REFERENCES auth.users(id),
+  comment text,
+  corrective_action_id uuid REFERENCES public.qc_corrective_actions(id),
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_qc_runs_series ON public.qc_runs(analyte_id, instrument, run_at);
+CREATE INDEX IF NOT EXISTS idx_qc_runs_open_rejections
+  ON public.qc_runs(analyte_id)
+  WHERE status = 'rejected' AND resolved_at IS NULL;
+
+-- Analytes currently locked out of result entry
+CREATE OR REPLACE VIEW public.qc_open_failures AS
+SELECT
+  r.analyte_id,
+  r.instrument,
+  r.lab_id,
+  count(*) AS rejected_runs,
+  min(r.run_at) AS first_rejected_at,
+  max(r.run_at) AS last_rejected_at,
+  array_agg(DISTINCT v.rule) AS violations
+FROM public.qc_runs r
+LEFT JOIN LATERAL unnest(r.violations) AS v(rule) ON true
+WHERE r.status = 'rejected' AND r.resolved_at IS NULL
+GROUP BY r.analyte_id, r.instrument, r.lab_id;
+
+ALTER TABLE public.qc_materials ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_lot_targets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.qc_corrective_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage QC materials"
+  ON public.qc_materials FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage QC lots"
+  ON public.qc_lots FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage QC targets"
+  ON public.qc_lot_targets FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage QC runs"
+  ON public.qc_runs FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage QC corrective actions"
+  ON public.qc_corrective_actions FOR ALL TO authenticated USING (true) WITH CHECK (true);
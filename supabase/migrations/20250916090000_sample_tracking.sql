@@ -0,0 +1,58 @@
+/*
+  # Per-Container Sample Tracking
+
+  1. New Tables
+     - `samples` - one row per physical container of an order, derived from the
+       `test_groups.sample_type` of the ordered tests (EDTA tube, SST tube, urine container...)
+       - `barcode` - unique per container (order sample_id + container suffix)
+       - `status` - pending_collection | collected | received | in_process | stored | rejected | discarded
+       - collection / receipt audit (`collected_at/by`, `received_at/by`)
+       - `rejection_reason`, `rejected_at`, `rejected_by`
+       - `storage_location`, `stored_at`
+       - `parent_sample_id` - set on aliquots poured off a primary container
+       - `test_names` - tests served by the container
+
+  2. Order Status
+     - Order status is derived from its containers (see `checkAndUpdateStatus`);
+       `orders.sample_collected_at/by` stay populated for existing reports
+
+  3. Security
+     - Enable RLS on `samples`
+     - Authenticated users can read and manage samples
+*/
+
+CREATE TABLE IF NOT EXISTS public.samples (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  lab_id uuid REFERENCES public.labs(id),
+  parent_sample_id uuid REFERENCES public.samples(id) ON DELETE CASCADE,
+  sample_type text NOT NULL,
+  container_type text NOT NULL,
+  barcode text NOT NULL UNIQUE,
+  color_code text,
+  status text NOT NULL DEFAULT 'pending_collection'
+    CHECK (status IN ('pending_collection', 'collected', 'received', 'in_process', 'stored', 'rejected', 'discarded')),
+  test_names text[] NOT NULL DEFAULT '{}',
+  collected_at timestamptz,
+  collected_by text,
+  received_at timestamptz,
+  received_by text,
+  rejection_reason text,
+  rejected_at timestamptz,
+  rejected_by text,
+  storage_location text,
+  stored_at timestamptz,
+  volume_ml numeric,
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_samples_order_id ON public.samples(order_id);
+CREATE INDEX IF NOT EXISTS idx_samples_parent ON public.samples(parent_sample_id) WHERE parent_sample_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_samples_status ON public.samples(status);
+
+ALTER TABLE public.samples ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage samples"
+  ON public.samples FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,29 @@
+/*
+  # Sample Rejection and Recollection
+
+  1. Changes to `samples`
+     - `rejection_code` - coded reason (hemolysed, clotted, qns, mislabelled, ...);
+       `rejection_reason` keeps the readable label plus any free-text note
+     - `recollection_order_id` - recollection order spawned for the rejected container
+
+  2. Recollection Orders
+     - Recollections reuse the order chaining of additional orders:
+       `orders.parent_order_id` points at the original order and `order_type` = 'recollection'
+
+  3. Reporting
+     - Index on rejected containers for the rejection-rate report (per collector / reason)
+*/
+
+ALTER TABLE public.samples
+  ADD COLUMN IF NOT EXISTS rejection_code text
+    CHECK (rejection_code IN (
+      'hemolysed', 'clotted', 'qns', 'mislabelled', 'unlabelled', 'wrong_container',
+      'lipaemic', 'contaminated', 'transport_delay', 'leaked', 'other'
+    )),
+  ADD COLUMN IF NOT EXISTS recollection_order_id uuid REFERENCES public.orders(id);
+
+CREATE INDEX IF NOT EXISTS idx_samples_rejected
+  ON public.samples(collected_by, rejection_code)
+  WHERE status = 'rejected';
+
+CREATE INDEX IF NOT EXISTS idx_samples_collected_at ON public.samples(collected_at);
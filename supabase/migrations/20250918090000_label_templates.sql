@@ -0,0 +1,41 @@
+/*
+  # Label Templates
+
+  1. New Tables
+     - `label_templates` - per-lab label layouts for sample/tube labels
+       - `format` - zpl | epl (thermal printers) or pdf (multi-up sheets)
+       - `width_mm`, `height_mm`, `dpi`, `copies`
+       - `fields` - printed fields (patient_name, age_sex, sample_type, tube_color, collected_at, tests)
+       - `sheet` - PDF sheet layout: page (A4 | Letter), columns, rows, margin_mm, gap_mm
+       - `is_default` - one default template per lab
+
+  2. Security
+     - Enable RLS on `label_templates`
+     - Authenticated users can read and manage label templates
+*/
+
+CREATE TABLE IF NOT EXISTS public.label_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  format text NOT NULL CHECK (format IN ('zpl', 'epl', 'pdf')),
+  width_mm numeric NOT NULL CHECK (width_mm > 0),
+  height_mm numeric NOT NULL CHECK (height_mm > 0),
+  dpi integer NOT NULL DEFAULT 203 CHECK (dpi IN (203, 300)),
+  copies integer NOT NULL DEFAULT 1 CHECK (copies > 0),
+  fields text[] NOT NULL DEFAULT ARRAY['patient_name', 'age_sex', 'sample_type', 'tube_color'],
+  sheet jsonb NOT NULL DEFAULT '{"page": "A4", "columns": 3, "rows": 8, "margin_mm": 10, "gap_mm": 2.5}'::jsonb,
+  is_default boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_label_templates_lab ON public.label_templates(lab_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_label_templates_one_default
+  ON public.label_templates(lab_id)
+  WHERE is_default;
+
+ALTER TABLE public.label_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage label templates"
+  ON public.label_templates FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,56 @@
+/*
+  # Instrument Interface (ASTM E1394 / LIS2-A2)
+
+  1. New Tables
+     - `instrument_test_mappings` - per-instrument mapping of analyser test codes to analytes
+       (unique per lab + instrument + test code); optional `unit` overrides the unit sent
+     - `instrument_messages` - every received ASTM message with its raw text, import
+       `status` (received | imported | partial | failed) and a `summary` of what was landed
+
+  2. Results
+     - Imported values land as draft results (`status` = 'Entered', `extracted_by_ai` = false)
+       and go through the normal verification workflow
+
+  3. Security
+     - Enable RLS on both tables
+     - Authenticated users can read and manage mappings and messages
+*/
+
+CREATE TABLE IF NOT EXISTS public.instrument_test_mappings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  instrument_code text NOT NULL,
+  test_code text NOT NULL,
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id) ON DELETE CASCADE,
+  unit text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (lab_id, instrument_code, test_code)
+);
+
+CREATE TABLE IF NOT EXISTS public.instrument_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  instrument_code text NOT NULL,
+  protocol text NOT NULL DEFAULT 'astm',
+  sender text,
+  raw_message text NOT NULL,
+  status text NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'imported', 'partial', 'failed')),
+  summary jsonb,
+  error text,
+  received_at timestamptz NOT NULL DEFAULT now(),
+  processed_by uuid REFERENCES auth.users(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_instrument_test_mappings_lookup
+  ON public.instrument_test_mappings(instrument_code, test_code);
+CREATE INDEX IF NOT EXISTS idx_instrument_messages_received ON public.instrument_messages(received_at DESC);
+
+ALTER TABLE public.instrument_test_mappings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.instrument_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage instrument test mappings"
+  ON public.instrument_test_mappings FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage instrument messages"
+  ON public.instrument_messages FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,48 @@
+/*
+  # HL7 v2 Interface
+
+  1. Orders
+     - `placer_order_number` - the HIS order number received in ORC-2 / OBR-2 of an ORM^O01;
+       sent back in ORU^R01 and used to make repeated or replayed ORMs idempotent
+
+  2. New Tables
+     - `hl7_messages` - inbound and outbound message log
+       - `direction` (inbound | outbound), `message_type` (e.g. ORM^O01), `control_id` (MSH-10)
+       - `status`: inbound messages are processed | error | rejected; outbound are generated | sent | error
+       - `ack_code` / `ack_message` - the ACK sent for inbound or received for outbound messages
+       - `replay_of` - links a replayed message to the original log entry
+
+  3. Security
+     - Enable RLS on `hl7_messages`
+     - Authenticated users can read and manage the message log
+*/
+
+ALTER TABLE public.orders ADD COLUMN IF NOT EXISTS placer_order_number text;
+CREATE INDEX IF NOT EXISTS idx_orders_placer_order_number ON public.orders(placer_order_number);
+
+CREATE TABLE IF NOT EXISTS public.hl7_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  direction text NOT NULL CHECK (direction IN ('inbound', 'outbound')),
+  message_type text NOT NULL,
+  control_id text,
+  counterparty text,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  patient_id uuid REFERENCES public.patients(id) ON DELETE SET NULL,
+  raw_message text NOT NULL,
+  status text NOT NULL CHECK (status IN ('processed', 'error', 'rejected', 'generated', 'sent')),
+  ack_code text CHECK (ack_code IN ('AA', 'AE', 'AR')),
+  ack_message text,
+  error text,
+  replay_of uuid REFERENCES public.hl7_messages(id) ON DELETE SET NULL,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_hl7_messages_created ON public.hl7_messages(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_hl7_messages_order ON public.hl7_messages(order_id);
+
+ALTER TABLE public.hl7_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage HL7 messages"
+  ON public.hl7_messages FOR ALL TO authenticated USING (true) WITH CHECK (true);
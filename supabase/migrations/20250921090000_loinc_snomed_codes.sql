@@ -0,0 +1,46 @@
+/*
+  # LOINC and SNOMED CT Specimen Coding
+
+  1. Analytes and Test Groups
+     - `loinc_code` - LOINC observation (analytes) or panel (test groups) code, e.g. 2345-7
+     - `snomed_specimen_code` - SNOMED CT specimen concept, e.g. 119364003 (Serum specimen)
+
+  2. New Tables
+     - `loinc_codes` - lab-maintained subset of the LOINC table, imported from the
+       Loinc.csv distribution file and used to search and suggest codes
+
+  3. Security
+     - Enable RLS on `loinc_codes`
+     - Authenticated users can read and import LOINC codes
+*/
+
+ALTER TABLE public.analytes ADD COLUMN IF NOT EXISTS loinc_code text;
+ALTER TABLE public.analytes ADD COLUMN IF NOT EXISTS snomed_specimen_code text;
+ALTER TABLE public.test_groups ADD COLUMN IF NOT EXISTS loinc_code text;
+ALTER TABLE public.test_groups ADD COLUMN IF NOT EXISTS snomed_specimen_code text;
+
+CREATE INDEX IF NOT EXISTS idx_analytes_loinc_code ON public.analytes(loinc_code);
+
+CREATE TABLE IF NOT EXISTS public.loinc_codes (
+  loinc_num text PRIMARY KEY,
+  component text NOT NULL,
+  property text,
+  time_aspct text,
+  system text,
+  scale_typ text,
+  method_typ text,
+  class text,
+  long_common_name text NOT NULL,
+  short_name text,
+  example_ucum_units text,
+  status text NOT NULL DEFAULT 'ACTIVE',
+  imported_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loinc_codes_component ON public.loinc_codes(lower(component));
+CREATE INDEX IF NOT EXISTS idx_loinc_codes_long_name ON public.loinc_codes(lower(long_common_name));
+
+ALTER TABLE public.loinc_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage LOINC codes"
+  ON public.loinc_codes FOR ALL TO authenticated USING (true) WITH CHECK (true);
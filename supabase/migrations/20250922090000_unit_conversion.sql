@@ -0,0 +1,20 @@
+/*
+  # Unit Conversion and Dual-Unit Reporting
+
+  1. Analytes
+     - `unit` remains the lab's canonical unit; imported values are converted to it before flagging
+     - `alternate_unit` - second unit printed on reports (SI for conventional units and vice versa)
+     - `molar_mass` - g/mol, for mass <-> substance conversions not covered by the built-in table
+     - `unit_conversion_factor` - explicit multiplier from `unit` to `alternate_unit`
+
+  2. Result Values
+     - `original_value` / `original_unit` - the value and unit as imported, kept when a
+       conversion to the canonical unit was applied
+*/
+
+ALTER TABLE public.analytes ADD COLUMN IF NOT EXISTS alternate_unit text;
+ALTER TABLE public.analytes ADD COLUMN IF NOT EXISTS molar_mass numeric CHECK (molar_mass IS NULL OR molar_mass > 0);
+ALTER TABLE public.analytes ADD COLUMN IF NOT EXISTS unit_conversion_factor numeric CHECK (unit_conversion_factor IS NULL OR unit_conversion_factor > 0);
+
+ALTER TABLE public.result_values ADD COLUMN IF NOT EXISTS original_value character varying;
+ALTER TABLE public.result_values ADD COLUMN IF NOT EXISTS original_unit character varying;
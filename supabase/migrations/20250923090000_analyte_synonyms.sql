@@ -0,0 +1,37 @@
+/*
+  # Analyte Synonyms
+
+  1. New Tables
+     - `analyte_synonyms` - alternative names a lab's reports use for an analyte
+       (e.g. "Hb", "HGB" for Hemoglobin), confirmed by a technician from the AI
+       extraction review and used by `gemini-nlp` when matching extracted parameters
+     - `lab_id` is null for synonyms shared by every lab
+     - `synonym_normalized` - lower-cased, trimmed synonym kept unique per lab
+
+  2. Indexes
+     - Unique (`lab_id`, `synonym_normalized`), so one name maps to one analyte per lab
+
+  3. Security
+     - Enable RLS on `analyte_synonyms`
+     - Authenticated users can read and manage synonyms
+*/
+
+CREATE TABLE IF NOT EXISTS public.analyte_synonyms (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  analyte_id uuid NOT NULL REFERENCES public.analytes(id) ON DELETE CASCADE,
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  synonym text NOT NULL CHECK (length(trim(synonym)) > 0),
+  synonym_normalized text GENERATED ALWAYS AS (lower(trim(synonym))) STORED,
+  source text NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'ai_review')),
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_analyte_synonyms_lab_synonym
+  ON public.analyte_synonyms(lab_id, synonym_normalized) NULLS NOT DISTINCT;
+CREATE INDEX IF NOT EXISTS idx_analyte_synonyms_analyte ON public.analyte_synonyms(analyte_id);
+
+ALTER TABLE public.analyte_synonyms ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage analyte synonyms"
+  ON public.analyte_synonyms FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,79 @@
+/*
+  # AI Confidence Gating and Review Queue
+
+  1. New Tables
+     - `ai_confidence_thresholds` - minimum confidence for an AI-extracted value to be
+       prefilled as a draft; values below it go to the review queue
+       - `lab_id` null applies to every lab, `analyte_id` null is the lab-wide default
+     - `ai_extracted_values` - every value the AI pipeline extracted for an order, with its
+       confidence, the threshold it was gated against, the image region it was read from
+       and the prompt that produced it
+       - `status`: `draft` (prefilled) and `pending_review` (queued) until a technician saves
+         the result or a reviewer decides; then `accepted`, `corrected` or `rejected`
+       - `corrected_value` holds the value a technician or reviewer replaced it with
+
+  2. Changes
+     - `result_values.ai_confidence` - confidence of the AI value the entry came from
+     - `result_values.manually_verified` - value confirmed in the review queue
+
+  3. Indexes
+     - Unique (`lab_id`, `analyte_id`) on thresholds
+     - `ai_extracted_values` by status, order and prompt
+
+  4. Security
+     - Enable RLS on both tables
+     - Authenticated users can read and manage thresholds and extracted values
+*/
+
+CREATE TABLE IF NOT EXISTS public.ai_confidence_thresholds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  analyte_id uuid REFERENCES public.analytes(id) ON DELETE CASCADE,
+  threshold numeric NOT NULL CHECK (threshold >= 0 AND threshold <= 1),
+  updated_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ai_confidence_thresholds_lab_analyte
+  ON public.ai_confidence_thresholds(lab_id, analyte_id) NULLS NOT DISTINCT;
+
+CREATE TABLE IF NOT EXISTS public.ai_extracted_values (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  result_id uuid REFERENCES public.results(id) ON DELETE SET NULL,
+  attachment_id uuid REFERENCES public.attachments(id) ON DELETE SET NULL,
+  analyte_id uuid REFERENCES public.analytes(id) ON DELETE SET NULL,
+  parameter text NOT NULL,
+  value text NOT NULL,
+  unit text,
+  confidence numeric NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  threshold numeric NOT NULL CHECK (threshold >= 0 AND threshold <= 1),
+  -- Pixel region of the source image: {"x", "y", "width", "height"}
+  crop jsonb,
+  ai_processing_type text,
+  prompt_key text NOT NULL,
+  status text NOT NULL CHECK (status IN ('draft', 'pending_review', 'accepted', 'corrected', 'rejected')),
+  corrected_value text,
+  reviewed_by uuid REFERENCES auth.users(id),
+  reviewed_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_extracted_values_status ON public.ai_extracted_values(lab_id, status);
+CREATE INDEX IF NOT EXISTS idx_ai_extracted_values_order ON public.ai_extracted_values(order_id);
+CREATE INDEX IF NOT EXISTS idx_ai_extracted_values_prompt ON public.ai_extracted_values(prompt_key, created_at);
+
+ALTER TABLE public.result_values
+  ADD COLUMN IF NOT EXISTS ai_confidence numeric,
+  ADD COLUMN IF NOT EXISTS manually_verified boolean DEFAULT false;
+
+ALTER TABLE public.ai_confidence_thresholds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_extracted_values ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage AI confidence thresholds"
+  ON public.ai_confidence_thresholds FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage AI extracted values"
+  ON public.ai_extracted_values FOR ALL TO authenticated USING (true) WITH CHECK (true);
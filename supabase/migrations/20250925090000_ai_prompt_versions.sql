@@ -0,0 +1,87 @@
+/*
+  # AI Prompt Versions and Test Bench
+
+  1. New Tables
+     - `ai_prompt_versions` - every saved text of an `ai_prompts` row, numbered per prompt;
+       `ai_prompts.prompt` stays the active text that `resolve_ai_prompt` returns
+     - `ai_prompt_test_cases` - attachments with known correct values, used to evaluate prompts
+       - `source_text` - OCR text of the attachment, captured once so every run sees the same input
+       - `expected_values` - [{ analyte_id, parameter, value, unit }] from the approved result
+     - `ai_prompt_bench_runs` - a candidate version scored against the active version over the
+       test cases, with per-field outcomes in `results`
+
+  2. Changes
+     - `ai_prompts.active_version` - number of the version currently in use
+     - `ai_prompts.updated_at`
+     - Existing prompts get version 1
+
+  3. Security
+     - Enable RLS on the new tables
+     - Authenticated users can read and manage versions, test cases and bench runs
+*/
+
+CREATE TABLE IF NOT EXISTS public.ai_prompt_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id uuid NOT NULL REFERENCES public.ai_prompts(id) ON DELETE CASCADE,
+  version integer NOT NULL CHECK (version > 0),
+  prompt text NOT NULL,
+  change_note text,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (prompt_id, version)
+);
+
+ALTER TABLE public.ai_prompts
+  ADD COLUMN IF NOT EXISTS active_version integer,
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz DEFAULT now();
+
+INSERT INTO public.ai_prompt_versions (prompt_id, version, prompt, change_note, created_at)
+SELECT id, 1, prompt, 'Initial version', created_at
+FROM public.ai_prompts
+ON CONFLICT (prompt_id, version) DO NOTHING;
+
+UPDATE public.ai_prompts SET active_version = 1 WHERE active_version IS NULL;
+
+CREATE TABLE IF NOT EXISTS public.ai_prompt_test_cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE,
+  ai_processing_type character varying(50) NOT NULL,
+  name text NOT NULL,
+  attachment_id uuid NOT NULL REFERENCES public.attachments(id) ON DELETE CASCADE,
+  order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+  source_text text NOT NULL,
+  expected_values jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_test_cases_type ON public.ai_prompt_test_cases(lab_id, ai_processing_type);
+
+CREATE TABLE IF NOT EXISTS public.ai_prompt_bench_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prompt_id uuid NOT NULL REFERENCES public.ai_prompts(id) ON DELETE CASCADE,
+  candidate_version_id uuid NOT NULL REFERENCES public.ai_prompt_versions(id) ON DELETE CASCADE,
+  baseline_version_id uuid REFERENCES public.ai_prompt_versions(id) ON DELETE SET NULL,
+  case_count integer NOT NULL,
+  field_count integer NOT NULL,
+  candidate_correct integer NOT NULL,
+  baseline_correct integer NOT NULL,
+  results jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_by uuid REFERENCES auth.users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_prompt_bench_runs_prompt ON public.ai_prompt_bench_runs(prompt_id, created_at);
+
+ALTER TABLE public.ai_prompt_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_prompt_test_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_prompt_bench_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage AI prompt versions"
+  ON public.ai_prompt_versions FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage AI prompt test cases"
+  ON public.ai_prompt_test_cases FOR ALL TO authenticated USING (true) WITH CHECK (true);
+
+CREATE POLICY "Authenticated users can manage AI prompt bench runs"
+  ON public.ai_prompt_bench_runs FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,52 @@
+/*
+  # AI Usage Metering and Quotas
+
+  1. New Tables
+     - `ai_usage_quotas` - monthly AI limits per lab; a null limit is unlimited
+       - `monthly_call_limit` - Gemini and Vision calls per calendar month (UTC)
+       - `monthly_cost_limit_usd` - estimated spend per calendar month
+
+  2. Changes
+     - `ai_usage_logs` gains `function_name`, `model`, `input_tokens`, `output_tokens` and
+       `cost_usd`; the edge functions now write one row per AI call
+     - `ai_usage_totals(p_lab_id, p_since)` - calls, tokens and cost of a lab since a date,
+       used by the edge functions to enforce quotas
+
+  3. Security
+     - Enable RLS on `ai_usage_quotas`
+     - Authenticated users can read and manage quotas
+*/
+
+ALTER TABLE public.ai_usage_logs
+  ADD COLUMN IF NOT EXISTS function_name character varying,
+  ADD COLUMN IF NOT EXISTS model character varying,
+  ADD COLUMN IF NOT EXISTS input_tokens integer,
+  ADD COLUMN IF NOT EXISTS output_tokens integer,
+  ADD COLUMN IF NOT EXISTS cost_usd numeric(12,6);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_lab_created ON public.ai_usage_logs(lab_id, created_at);
+
+CREATE TABLE IF NOT EXISTS public.ai_usage_quotas (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid NOT NULL UNIQUE REFERENCES public.labs(id) ON DELETE CASCADE,
+  monthly_call_limit integer CHECK (monthly_call_limit >= 0),
+  monthly_cost_limit_usd numeric(10,2) CHECK (monthly_cost_limit_usd >= 0),
+  updated_by uuid REFERENCES auth.users(id),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE OR REPLACE FUNCTION public.ai_usage_totals(p_lab_id uuid, p_since timestamptz)
+RETURNS TABLE (calls bigint, tokens bigint, cost_usd numeric)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT count(*), coalesce(sum(tokens_used), 0), coalesce(sum(l.cost_usd), 0)
+  FROM public.ai_usage_logs l
+  WHERE l.lab_id = p_lab_id
+    AND l.created_at >= p_since;
+$$;
+
+ALTER TABLE public.ai_usage_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can manage AI usage quotas"
+  ON public.ai_usage_quotas FOR ALL TO authenticated USING (true) WITH CHECK (true);
@@ -0,0 +1,414 @@
+/*
+  # Role-Based Access Control
+
+  1. New Functions
+     - `role_permissions(role)` - default permissions of each role, kept in step with
+       ROLE_PERMISSIONS in src/utils/permissions.ts
+     - `current_user_permissions()` - permissions of the signed-in user: the explicit
+       `users.permissions` list when it has entries, otherwise the role defaults; none
+       unless the user is Active
+     - `has_permission(permission)` - true when the user holds it or `all_access`
+     - `current_user_id()` / `current_user_lab_id()` - `users` row id and lab of the
+       signed-in user, read without RLS
+
+  2. Changes
+     - `users.auth_user_id` links a row to its auth account; `users.id` never changes, so
+       rows referencing it stay valid
+     - A row an administrator pre-provisioned is linked to the auth account with the same
+       email once that email is confirmed, so signing up with someone else's address does
+       not pick up the role assigned to them. New accounts without a pre-provisioned row get
+       an Inactive row with the role requested at signup. Existing accounts without a row
+       are backfilled as Active.
+     - Results can only be moved to Approved, or verified/rejected in verification, by users
+       with `result_approval` (enforced by trigger, so the verify RPCs are covered too)
+
+  3. Security
+     - `users`: readable by the user and their lab; writable with `user_management`
+     - Test catalogue tables need `test_management` to write
+     - Invoices, invoice items and payments need `billing_management` to write
+     - Labs, AI prompts, prompt versions, AI thresholds, AI quotas and label templates need
+       `system_config` to write
+     - Reads are unchanged
+*/
+
+-- Auth account link
+
+ALTER TABLE public.users
+  ADD COLUMN IF NOT EXISTS auth_user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL;
+
+UPDATE public.users u SET auth_user_id = u.id
+WHERE u.auth_user_id IS NULL
+  AND EXISTS (SELECT 1 FROM auth.users a WHERE a.id = u.id);
+
+-- Permission helpers
+
+CREATE OR REPLACE FUNCTION public.role_permissions(p_role user_role)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'Admin' THEN ARRAY['all_access']
+    WHEN 'Lab Manager' THEN ARRAY['patient_registration', 'test_management', 'result_entry', 'result_approval', 'report_generation', 'billing_management']
+    WHEN 'Technician' THEN ARRAY['result_entry']
+    WHEN 'Receptionist' THEN ARRAY['patient_registration', 'billing_management']
+    WHEN 'Doctor' THEN ARRAY['result_approval', 'report_generation']
+    ELSE ARRAY[]::text[]
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_permissions()
+RETURNS text[]
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce((
+    SELECT CASE
+      WHEN coalesce(array_length(u.permissions, 1), 0) > 0 THEN u.permissions
+      ELSE public.role_permissions(u.role)
+    END
+    FROM public.users u
+    WHERE u.auth_user_id = auth.uid()
+      AND u.status = 'Active'
+  ), ARRAY[]::text[]);
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.current_user_permissions() && ARRAY['all_access', p_permission];
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM public.users WHERE auth_user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION public.current_user_lab_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lab_id FROM public.users WHERE auth_user_id = auth.uid();
+$$;
+
+-- Older policies read the lab through this helper
+CREATE OR REPLACE FUNCTION public.get_my_lab_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.current_user_lab_id();
+$$;
+
+-- Users rows for auth accounts
+
+-- Links the pre-provisioned row with the account's email; only called once the email is confirmed
+CREATE OR REPLACE FUNCTION public.link_auth_user(p_auth_user_id uuid, p_email text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.users WHERE auth_user_id = p_auth_user_id) THEN
+    RETURN true;
+  END IF;
+  UPDATE public.users SET auth_user_id = p_auth_user_id, updated_at = now()
+  WHERE lower(email) = lower(p_email) AND auth_user_id IS NULL;
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_auth_user(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_new_auth_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role user_role;
+BEGIN
+  -- A pre-provisioned row waits for the email to be confirmed (handle_auth_user_confirmed)
+  IF EXISTS (SELECT 1 FROM public.users WHERE lower(email) = lower(NEW.email) AND auth_user_id IS NULL) THEN
+    IF NEW.email_confirmed_at IS NOT NULL THEN
+      PERFORM public.link_auth_user(NEW.id, NEW.email);
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  BEGIN
+    v_role := coalesce(NEW.raw_user_meta_data->>'role', 'Technician')::user_role;
+  EXCEPTION WHEN invalid_text_representation THEN
+    v_role := 'Technician';
+  END;
+
+  -- The requested role is only applied once an administrator activates the account
+  INSERT INTO public.users (id, auth_user_id, name, email, role, department, status, phone, lab_id)
+  VALUES (
+    NEW.id,
+    NEW.id,
+    coalesce(NEW.raw_user_meta_data->>'name', NEW.email),
+    NEW.email,
+    v_role,
+    NEW.raw_user_meta_data->>'department',
+    'Inactive',
+    NEW.raw_user_meta_data->>'phone',
+    nullif(NEW.raw_user_meta_data->>'lab_id', '')::uuid
+  )
+  ON CONFLICT DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.handle_auth_user_confirmed()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.link_auth_user(NEW.id, NEW.email);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_auth_user();
+
+DROP TRIGGER IF EXISTS on_auth_user_confirmed ON auth.users;
+CREATE TRIGGER on_auth_user_confirmed
+  AFTER UPDATE OF email_confirmed_at ON auth.users
+  FOR EACH ROW
+  WHEN (OLD.email_confirmed_at IS NULL AND NEW.email_confirmed_at IS NOT NULL)
+  EXECUTE FUNCTION public.handle_auth_user_confirmed();
+
+-- Link pre-provisioned rows to confirmed accounts, then give accounts that were already in use an Active row
+SELECT public.link_auth_user(a.id, a.email)
+FROM auth.users a
+WHERE a.email IS NOT NULL AND a.email_confirmed_at IS NOT NULL;
+
+INSERT INTO public.users (id, auth_user_id, name, email, role, department, status, lab_id)
+SELECT
+  a.id,
+  a.id,
+  coalesce(a.raw_user_meta_data->>'name', a.email),
+  a.email,
+  CASE WHEN a.raw_user_meta_data->>'role' IN ('Admin', 'Lab Manager', 'Technician', 'Receptionist', 'Doctor')
+    THEN (a.raw_user_meta_data->>'role')::user_role
+    ELSE 'Technician'::user_role
+  END,
+  a.raw_user_meta_data->>'department',
+  'Active',
+  nullif(a.raw_user_meta_data->>'lab_id', '')::uuid
+FROM auth.users a
+WHERE a.email IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.users u WHERE u.id = a.id OR u.auth_user_id = a.id OR lower(u.email) = lower(a.email));
+
+-- Users
+
+DROP POLICY IF EXISTS "Users can read own data" ON public.users;
+DROP POLICY IF EXISTS "Users can read same lab users" ON public.users;
+DROP POLICY IF EXISTS "Admins can manage users" ON public.users;
+
+CREATE POLICY "Users can read own data" ON public.users FOR SELECT TO authenticated USING (auth_user_id = auth.uid());
+CREATE POLICY "Users can read same lab users" ON public.users FOR SELECT TO authenticated USING (
+  lab_id IS NOT NULL AND lab_id = public.current_user_lab_id()
+);
+CREATE POLICY "Admins can manage users" ON public.users FOR ALL TO authenticated
+  USING (public.has_permission('user_management') AND lab_id IS NOT DISTINCT FROM public.current_user_lab_id())
+  WITH CHECK (public.has_permission('user_management') AND lab_id IS NOT DISTINCT FROM public.current_user_lab_id());
+
+-- Users may record their own sign-in time, nothing else about themselves
+CREATE POLICY "Users can update own last login" ON public.users FOR UPDATE TO authenticated
+  USING (auth_user_id = auth.uid())
+  WITH CHECK (auth_user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION public.protect_user_self_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_permission('user_management') AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.permissions IS DISTINCT FROM OLD.permissions
+    OR NEW.lab_id IS DISTINCT FROM OLD.lab_id
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.auth_user_id IS DISTINCT FROM OLD.auth_user_id
+  ) THEN
+    RAISE EXCEPTION 'Changing roles, status, permissions or lab requires the user_management permission'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_user_self_update ON public.users;
+CREATE TRIGGER protect_user_self_update
+  BEFORE UPDATE ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.protect_user_self_update();
+
+-- Attachments: users.id and the auth account id differ for linked accounts
+
+DROP POLICY IF EXISTS "Users can read attachments" ON public.attachments;
+DROP POLICY IF EXISTS "Users can update attachments" ON public.attachments;
+DROP POLICY IF EXISTS "Users can delete attachments" ON public.attachments;
+
+CREATE POLICY "Users can read attachments" ON public.attachments FOR SELECT TO authenticated
+  USING (lab_id IS NULL OR lab_id = public.current_user_lab_id() OR uploaded_by = public.current_user_id());
+CREATE POLICY "Users can update attachments" ON public.attachments FOR UPDATE TO authenticated
+  USING (uploaded_by = public.current_user_id() OR lab_id = public.current_user_lab_id());
+CREATE POLICY "Users can delete attachments" ON public.attachments FOR DELETE TO authenticated
+  USING (uploaded_by = public.current_user_id() OR lab_id = public.current_user_lab_id());
+
+-- Test catalogue
+
+DROP POLICY IF EXISTS "Lab managers can modify analytes" ON public.analytes;
+DROP POLICY IF EXISTS "Lab managers can modify test groups" ON public.test_groups;
+DROP POLICY IF EXISTS "Lab managers can modify test group analytes" ON public.test_group_analytes;
+DROP POLICY IF EXISTS "Lab managers can modify packages" ON public.packages;
+DROP POLICY IF EXISTS "Lab managers can modify package test groups" ON public.package_test_groups;
+DROP POLICY IF EXISTS "Lab managers can manage lab analytes" ON public.lab_analytes;
+
+CREATE POLICY "Lab managers can modify analytes" ON public.analytes FOR ALL TO authenticated
+  USING (public.has_permission('test_management')) WITH CHECK (public.has_permission('test_management'));
+CREATE POLICY "Lab managers can modify test groups" ON public.test_groups FOR ALL TO authenticated
+  USING (public.has_permission('test_management')) WITH CHECK (public.has_permission('test_management'));
+CREATE POLICY "Lab managers can modify test group analytes" ON public.test_group_analytes FOR ALL TO authenticated
+  USING (public.has_permission('test_management')) WITH CHECK (public.has_permission('test_management'));
+CREATE POLICY "Lab managers can modify packages" ON public.packages FOR ALL TO authenticated
+  USING (public.has_permission('test_management')) WITH CHECK (public.has_permission('test_management'));
+CREATE POLICY "Lab managers can modify package test groups" ON public.package_test_groups FOR ALL TO authenticated
+  USING (public.has_permission('test_management')) WITH CHECK (public.has_permission('test_management'));
+
+CREATE POLICY "Users can read lab analytes" ON public.lab_analytes FOR SELECT TO authenticated
+  USING (lab_id = get_my_lab_id());
+CREATE POLICY "Lab managers can manage lab analytes" ON public.lab_analytes FOR ALL TO authenticated
+  USING (lab_id = get_my_lab_id() AND public.has_permission('test_management'))
+  WITH CHECK (lab_id = get_my_lab_id() AND public.has_permission('test_management'));
+
+-- Billing
+
+DROP POLICY IF EXISTS "Billing staff can modify invoices" ON public.invoices;
+DROP POLICY IF EXISTS "Billing staff can modify invoice items" ON public.invoice_items;
+
+CREATE POLICY "Billing staff can modify invoices" ON public.invoices FOR ALL TO authenticated
+  USING (public.has_permission('billing_management')) WITH CHECK (public.has_permission('billing_management'));
+CREATE POLICY "Billing staff can modify invoice items" ON public.invoice_items FOR ALL TO authenticated
+  USING (public.has_permission('billing_management')) WITH CHECK (public.has_permission('billing_management'));
+
+-- payments policies predate these migrations, so writes are narrowed with restrictive policies
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Billing staff can insert payments" ON public.payments;
+DROP POLICY IF EXISTS "Billing staff can update payments" ON public.payments;
+DROP POLICY IF EXISTS "Billing staff can delete payments" ON public.payments;
+
+CREATE POLICY "Billing staff can insert payments" ON public.payments AS RESTRICTIVE FOR INSERT TO authenticated
+  WITH CHECK (public.has_permission('billing_management'));
+CREATE POLICY "Billing staff can update payments" ON public.payments AS RESTRICTIVE FOR UPDATE TO authenticated
+  USING (public.has_permission('billing_management'));
+CREATE POLICY "Billing staff can delete payments" ON public.payments AS RESTRICTIVE FOR DELETE TO authenticated
+  USING (public.has_permission('billing_management'));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = 'payments' AND permissive = 'PERMISSIVE') THEN
+    CREATE POLICY "Billing staff can manage payments" ON public.payments FOR ALL TO authenticated USING (true) WITH CHECK (true);
+  END IF;
+END $$;
+
+-- System configuration
+
+DROP POLICY IF EXISTS "Admins can modify labs" ON public.labs;
+DROP POLICY IF EXISTS "Lab managers can modify ai_prompts" ON public.ai_prompts;
+DROP POLICY IF EXISTS "Authenticated users can manage AI prompt versions" ON public.ai_prompt_versions;
+DROP POLICY IF EXISTS "Authenticated users can manage AI prompt test cases" ON public.ai_prompt_test_cases;
+DROP POLICY IF EXISTS "Authenticated users can manage AI confidence thresholds" ON public.ai_confidence_thresholds;
+DROP POLICY IF EXISTS "Authenticated users can manage AI usage quotas" ON public.ai_usage_quotas;
+DROP POLICY IF EXISTS "Authenticated users can manage label templates" ON public.label_templates;
+
+CREATE POLICY "Admins can modify labs" ON public.labs FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Lab managers can modify ai_prompts" ON public.ai_prompts FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Authenticated users can read AI prompt versions"
+  ON public.ai_prompt_versions FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage AI prompt versions"
+  ON public.ai_prompt_versions FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Authenticated users can read AI prompt test cases"
+  ON public.ai_prompt_test_cases FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage AI prompt test cases"
+  ON public.ai_prompt_test_cases FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Authenticated users can read AI confidence thresholds"
+  ON public.ai_confidence_thresholds FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage AI confidence thresholds"
+  ON public.ai_confidence_thresholds FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Authenticated users can read AI usage quotas"
+  ON public.ai_usage_quotas FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage AI usage quotas"
+  ON public.ai_usage_quotas FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+CREATE POLICY "Authenticated users can read label templates"
+  ON public.label_templates FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Administrators can manage label templates"
+  ON public.label_templates FOR ALL TO authenticated
+  USING (public.has_permission('system_config')) WITH CHECK (public.has_permission('system_config'));
+
+-- Result approval
+
+CREATE OR REPLACE FUNCTION public.enforce_result_approval_permission()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Service-role and database-side writes have no auth user and are not role checked
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (
+    (NEW.status = 'Approved' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status))
+    OR (NEW.verification_status IN ('verified', 'rejected')
+        AND (TG_OP = 'INSERT' OR OLD.verification_status IS DISTINCT FROM NEW.verification_status))
+  ) AND NOT public.has_permission('result_approval') THEN
+    RAISE EXCEPTION 'Approving or verifying results requires the result_approval permission'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_result_approval_permission ON public.results;
+CREATE TRIGGER enforce_result_approval_permission
+  BEFORE INSERT OR UPDATE ON public.results
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_result_approval_permission();
@@ -0,0 +1,301 @@
+/*
+  # Multi-Lab Tenancy
+
+  1. New Tables
+     - `user_labs` - the labs (branches) a user belongs to; `users.lab_id` is the one they
+       are currently working in
+
+  2. Changes
+     - `patients`, `results`, `invoices`, `payments` and `reports` gain `lab_id`, backfilled
+       from their order, invoice or patient. Rows still without a lab go to the only lab
+       when there is exactly one.
+     - Tenant rows are stamped with the user's current lab on insert when none is given
+     - Sample IDs are unique per lab instead of across all labs, since each lab numbers its
+       own orders
+     - `switch_lab(p_lab_id)` - moves the user to another lab they belong to and returns it
+     - Users may change their own `lab_id` to a lab they belong to
+
+  3. Security
+     - Restrictive policies keep patients, orders, results, invoices, payments and reports
+       to the user's current lab (users without a lab see rows without one); order tests,
+       result values and invoice items follow their parent row
+     - `user_labs`: users read their own memberships and their lab's; `user_management`
+       is needed to change them, and only for labs the administrator belongs to
+     - `users`: everyone who belongs to the current lab is visible, not only users whose
+       current lab it is; administrators only manage users of their current lab
+*/
+
+CREATE TABLE IF NOT EXISTS public.user_labs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  lab_id uuid NOT NULL REFERENCES public.labs(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (user_id, lab_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_labs_lab ON public.user_labs(lab_id);
+
+ALTER TABLE public.patients ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.results ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.invoices ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.payments ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.reports ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+
+CREATE INDEX IF NOT EXISTS idx_patients_lab_id ON public.patients(lab_id);
+CREATE INDEX IF NOT EXISTS idx_orders_lab_id ON public.orders(lab_id);
+CREATE INDEX IF NOT EXISTS idx_results_lab_id ON public.results(lab_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_lab_id ON public.invoices(lab_id);
+CREATE INDEX IF NOT EXISTS idx_payments_lab_id ON public.payments(lab_id);
+CREATE INDEX IF NOT EXISTS idx_reports_lab_id ON public.reports(lab_id);
+
+-- Backfill
+
+DO $$
+DECLARE
+  v_only_lab uuid;
+BEGIN
+  IF (SELECT count(*) FROM public.labs) = 1 THEN
+    SELECT id INTO v_only_lab FROM public.labs;
+    UPDATE public.orders SET lab_id = v_only_lab WHERE lab_id IS NULL;
+  END IF;
+
+  -- A patient belongs to the lab of their latest order
+  UPDATE public.patients p SET lab_id = (
+    SELECT o.lab_id FROM public.orders o
+    WHERE o.patient_id = p.id AND o.lab_id IS NOT NULL
+    ORDER BY o.created_at DESC
+    LIMIT 1
+  )
+  WHERE p.lab_id IS NULL;
+
+  UPDATE public.results r SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE r.order_id = o.id AND r.lab_id IS NULL;
+
+  UPDATE public.results r SET lab_id = p.lab_id
+  FROM public.patients p
+  WHERE r.patient_id = p.id AND r.lab_id IS NULL;
+
+  UPDATE public.invoices i SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE i.order_id = o.id AND i.lab_id IS NULL;
+
+  UPDATE public.invoices i SET lab_id = p.lab_id
+  FROM public.patients p
+  WHERE i.patient_id = p.id AND i.lab_id IS NULL;
+
+  UPDATE public.payments pm SET lab_id = i.lab_id
+  FROM public.invoices i
+  WHERE pm.invoice_id = i.id AND pm.lab_id IS NULL;
+
+  UPDATE public.reports rp SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE rp.order_id = o.id AND rp.lab_id IS NULL;
+
+  UPDATE public.reports rp SET lab_id = p.lab_id
+  FROM public.patients p
+  WHERE rp.patient_id = p.id AND rp.lab_id IS NULL;
+
+  IF v_only_lab IS NOT NULL THEN
+    UPDATE public.patients SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.results SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.invoices SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.payments SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.reports SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.users SET lab_id = v_only_lab WHERE lab_id IS NULL;
+  END IF;
+END $$;
+
+-- Users whose lab was only ever kept in their auth metadata
+UPDATE public.users u SET lab_id = (a.raw_user_meta_data->>'lab_id')::uuid
+FROM auth.users a
+WHERE a.id = u.id
+  AND u.lab_id IS NULL
+  AND a.raw_user_meta_data->>'lab_id' ~* '^[0-9a-f-]{36}$'
+  AND EXISTS (SELECT 1 FROM public.labs l WHERE l.id = (a.raw_user_meta_data->>'lab_id')::uuid);
+
+INSERT INTO public.user_labs (user_id, lab_id)
+SELECT id, lab_id FROM public.users WHERE lab_id IS NOT NULL
+ON CONFLICT (user_id, lab_id) DO NOTHING;
+
+-- Sample IDs restart at 1 each day in every lab
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_sample_id_key;
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_lab_sample_id_key;
+ALTER TABLE public.orders ADD CONSTRAINT orders_lab_sample_id_key UNIQUE NULLS NOT DISTINCT (lab_id, sample_id);
+
+-- Stamping
+
+CREATE OR REPLACE FUNCTION public.stamp_current_lab_id()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.lab_id IS NULL THEN
+    NEW.lab_id := public.current_user_lab_id();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['patients', 'orders', 'results', 'invoices', 'payments', 'reports'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS stamp_lab_id ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER stamp_lab_id BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.stamp_current_lab_id()',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Memberships
+
+-- A user's current lab is always one of their labs
+CREATE OR REPLACE FUNCTION public.ensure_user_lab_membership()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.lab_id IS NOT NULL THEN
+    INSERT INTO public.user_labs (user_id, lab_id)
+    VALUES (NEW.id, NEW.lab_id)
+    ON CONFLICT (user_id, lab_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS ensure_user_lab_membership ON public.users;
+CREATE TRIGGER ensure_user_lab_membership
+  AFTER INSERT OR UPDATE OF lab_id ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.ensure_user_lab_membership();
+
+CREATE OR REPLACE FUNCTION public.is_lab_member(p_lab_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_labs WHERE user_id = public.current_user_id() AND lab_id = p_lab_id);
+$$;
+
+CREATE OR REPLACE FUNCTION public.protect_user_self_update()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT public.has_permission('user_management') AND (
+    NEW.role IS DISTINCT FROM OLD.role
+    OR NEW.status IS DISTINCT FROM OLD.status
+    OR NEW.permissions IS DISTINCT FROM OLD.permissions
+    OR (NEW.lab_id IS DISTINCT FROM OLD.lab_id AND NOT (NEW.auth_user_id = auth.uid() AND public.is_lab_member(NEW.lab_id)))
+    OR NEW.email IS DISTINCT FROM OLD.email
+    OR NEW.auth_user_id IS DISTINCT FROM OLD.auth_user_id
+  ) THEN
+    RAISE EXCEPTION 'Changing roles, status, permissions or lab requires the user_management permission'
+      USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.switch_lab(p_lab_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_lab_id uuid;
+BEGIN
+  IF NOT public.is_lab_member(p_lab_id) THEN
+    RAISE EXCEPTION 'You are not a member of this lab' USING ERRCODE = '42501';
+  END IF;
+  UPDATE public.users SET lab_id = p_lab_id, updated_at = now()
+  WHERE auth_user_id = auth.uid()
+  RETURNING lab_id INTO v_lab_id;
+  RETURN v_lab_id;
+END;
+$$;
+
+ALTER TABLE public.user_labs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own and lab memberships" ON public.user_labs FOR SELECT TO authenticated
+  USING (user_id = public.current_user_id() OR lab_id = public.current_user_lab_id());
+-- Administrators only grant or revoke labs they belong to themselves
+CREATE POLICY "Admins can manage lab memberships" ON public.user_labs FOR ALL TO authenticated
+  USING (public.has_permission('user_management') AND public.is_lab_member(lab_id))
+  WITH CHECK (public.has_permission('user_management') AND public.is_lab_member(lab_id));
+
+DROP POLICY IF EXISTS "Users can read same lab users" ON public.users;
+CREATE POLICY "Users can read same lab users" ON public.users FOR SELECT TO authenticated USING (
+  (lab_id IS NOT NULL AND lab_id = public.current_user_lab_id())
+  OR EXISTS (SELECT 1 FROM public.user_labs m WHERE m.user_id = users.id AND m.lab_id = public.current_user_lab_id())
+);
+
+-- Administrators manage members of their current lab, including those working in another of their labs
+DROP POLICY IF EXISTS "Admins can manage users" ON public.users;
+CREATE POLICY "Admins can manage users" ON public.users FOR ALL TO authenticated
+  USING (
+    public.has_permission('user_management') AND (
+      lab_id IS NOT DISTINCT FROM public.current_user_lab_id()
+      OR EXISTS (SELECT 1 FROM public.user_labs m WHERE m.user_id = users.id AND m.lab_id = public.current_user_lab_id())
+    )
+  )
+  WITH CHECK (
+    public.has_permission('user_management') AND (
+      lab_id IS NOT DISTINCT FROM public.current_user_lab_id()
+      OR EXISTS (SELECT 1 FROM public.user_labs m WHERE m.user_id = users.id AND m.lab_id = public.current_user_lab_id())
+    )
+  );
+
+-- Lab isolation; restrictive, so it applies on top of every existing policy
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['patients', 'orders', 'results', 'invoices', 'payments', 'reports'] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Rows are limited to the current lab" ON public.%I', t);
+    EXECUTE format(
+      'CREATE POLICY "Rows are limited to the current lab" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (lab_id IS NOT DISTINCT FROM public.current_user_lab_id()) '
+      'WITH CHECK (lab_id IS NOT DISTINCT FROM public.current_user_lab_id())',
+      t
+    );
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = t AND permissive = 'PERMISSIVE') THEN
+      EXECUTE format('CREATE POLICY "Authenticated users can manage %s" ON public.%I FOR ALL TO authenticated USING (true) WITH CHECK (true)', t, t);
+    END IF;
+  END LOOP;
+END $$;
+
+DO $$
+DECLARE
+  child record;
+BEGIN
+  FOR child IN
+    SELECT * FROM (VALUES
+      ('order_tests', 'orders', 'order_id', 'Order tests follow their order'),
+      ('result_values', 'results', 'result_id', 'Result values follow their result'),
+      ('invoice_items', 'invoices', 'invoice_id', 'Invoice items follow their invoice')
+    ) AS c(tbl, parent, fk, policy)
+  LOOP
+    IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE schemaname = 'public' AND tablename = child.tbl AND permissive = 'PERMISSIVE') THEN
+      EXECUTE format('CREATE POLICY "Authenticated users can manage %s" ON public.%I FOR ALL TO authenticated USING (true) WITH CHECK (true)', child.tbl, child.tbl);
+    END IF;
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', child.tbl);
+    EXECUTE format('DROP POLICY IF EXISTS %I ON public.%I', child.policy, child.tbl);
+    -- The parent's own lab policy applies inside the subquery
+    EXECUTE format(
+      'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (EXISTS (SELECT 1 FROM public.%I p WHERE p.id = %I.%I)) '
+      'WITH CHECK (EXISTS (SELECT 1 FROM public.%I p WHERE p.id = %I.%I))',
+      child.policy, child.tbl, child.parent, child.tbl, child.fk, child.parent, child.tbl, child.fk
+    );
+  END LOOP;
+END $$;
@@ -0,0 +1,435 @@
+/*
+  # Electronic Signatures
+
+  1. New Tables
+     - `electronic_signatures` - one row per signed record: who signed (name and role as they
+       were at signing), when, the meaning of the signature (approval, release, amendment),
+       the optional reason, and the SHA-256 hash of the values that were signed together
+       with the values themselves so the hash can be re-checked later
+     - `signature_pins` - optional signing PIN per user, stored as a bcrypt hash
+
+  2. New Functions
+     - `sign_records(record_type, record_ids, meaning, credential, reason)` - re-checks the
+       user's password (or signing PIN) and signs each record; results are signed for
+       approval and amendment, orders for report release
+     - `set_signature_pin(password, pin)` / `has_signature_pin()` - manage the signing PIN
+     - `signature_payload(record_type, record_id)` / `signature_hash(payload)` - the values
+       a signature covers (a result's values, or those of every result on an order) and
+       their hash
+     - `has_valid_signature(record_type, record_id, meaning)` - true when the current user
+       signed the record's current values with that meaning in the last 10 minutes
+
+  3. Changes
+     - Approving a result (status Approved or verification status verified) needs an approval
+       signature of the result; marking it Reported needs a release signature of its order
+     - Taking a result back out of Approved/Reported/verified needs an amendment signature
+     - Generating or delivering an order's report needs a release signature of the order; a report
+       written against a result takes that result's order, and a released report without one is refused
+     - Values of an approved, reported or verified result cannot be added, removed or changed
+       until the result is amended
+     - Service-role and database-side writes have no auth user and are not checked
+
+  4. Security
+     - Signatures can only be created through `sign_records` and can never be updated or
+       deleted, not even by the service role
+     - Signatures are readable within the current lab; PIN hashes are not readable at all
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.electronic_signatures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  lab_id uuid REFERENCES public.labs(id),
+  user_id uuid NOT NULL REFERENCES public.users(id),
+  signer_name text NOT NULL,
+  signer_role text NOT NULL,
+  meaning text NOT NULL CHECK (meaning IN ('approval', 'release', 'amendment')),
+  record_type text NOT NULL CHECK (record_type IN ('result', 'order')),
+  record_id uuid NOT NULL,
+  reason text,
+  signed_values jsonb NOT NULL,
+  signed_hash text NOT NULL,
+  signed_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_electronic_signatures_record
+  ON public.electronic_signatures(record_type, record_id, signed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_electronic_signatures_lab ON public.electronic_signatures(lab_id);
+
+CREATE TABLE IF NOT EXISTS public.signature_pins (
+  user_id uuid PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  pin_hash text NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Signed records
+
+CREATE OR REPLACE FUNCTION public.result_signature_payload(p_result_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT jsonb_build_object(
+    'record_type', 'result',
+    'result_id', r.id,
+    'order_id', r.order_id,
+    'patient_id', r.patient_id,
+    'test_name', r.test_name,
+    'values', COALESCE((
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'parameter', rv.parameter,
+          'value', rv.value,
+          'unit', rv.unit,
+          'reference_range', rv.reference_range,
+          'flag', rv.flag
+        ) ORDER BY rv.parameter, rv.id
+      )
+      FROM public.result_values rv
+      WHERE rv.result_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM public.results r
+  WHERE r.id = p_result_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.signature_payload(p_record_type text, p_record_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT CASE p_record_type
+    WHEN 'result' THEN public.result_signature_payload(p_record_id)
+    WHEN 'order' THEN (
+      SELECT jsonb_build_object(
+        'record_type', 'order',
+        'order_id', o.id,
+        'patient_id', o.patient_id,
+        'results', COALESCE((
+          SELECT jsonb_agg(public.result_signature_payload(r.id) ORDER BY r.test_name, r.id)
+          FROM public.results r
+          WHERE r.order_id = o.id
+        ), '[]'::jsonb)
+      )
+      FROM public.orders o
+      WHERE o.id = p_record_id
+    )
+  END;
+$$;
+
+-- jsonb renders keys in a fixed order, so the text form is canonical
+CREATE OR REPLACE FUNCTION public.signature_hash(p_payload jsonb)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(p_payload::text, 'sha256'), 'hex');
+$$;
+
+-- Credentials
+
+CREATE OR REPLACE FUNCTION public.verify_signature_credential(p_credential text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE(p_credential, '') <> '' AND (
+    EXISTS (
+      SELECT 1 FROM auth.users u
+      WHERE u.id = auth.uid()
+        AND COALESCE(u.encrypted_password, '') <> ''
+        AND u.encrypted_password = crypt(p_credential, u.encrypted_password)
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.signature_pins p
+      WHERE p.user_id = public.current_user_id()
+        AND p.pin_hash = crypt(p_credential, p.pin_hash)
+    )
+  );
+$$;
+
+-- Only reachable through sign_records, which is the one place a wrong credential is reported
+REVOKE EXECUTE ON FUNCTION public.verify_signature_credential(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.set_signature_pin(p_password text, p_pin text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF public.current_user_id() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM auth.users u
+    WHERE u.id = auth.uid()
+      AND COALESCE(u.encrypted_password, '') <> ''
+      AND u.encrypted_password = crypt(COALESCE(p_password, ''), u.encrypted_password)
+  ) THEN
+    RAISE EXCEPTION 'Password is incorrect' USING ERRCODE = '28P01';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.signature_pins (user_id, pin_hash, updated_at)
+  VALUES (public.current_user_id(), crypt(p_pin, gen_salt('bf')), now())
+  ON CONFLICT (user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash, updated_at = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_signature_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.signature_pins WHERE user_id = public.current_user_id());
+$$;
+
+-- Signing
+
+CREATE OR REPLACE FUNCTION public.sign_records(
+  p_record_type text,
+  p_record_ids uuid[],
+  p_meaning text,
+  p_credential text,
+  p_reason text DEFAULT NULL
+)
+RETURNS SETOF public.electronic_signatures
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_user public.users%ROWTYPE;
+  v_record_id uuid;
+  v_lab_id uuid;
+  v_payload jsonb;
+  v_signature public.electronic_signatures%ROWTYPE;
+BEGIN
+  SELECT * INTO v_user FROM public.users WHERE auth_user_id = auth.uid();
+  IF v_user.id IS NULL OR v_user.status <> 'Active' THEN
+    RAISE EXCEPTION 'Only active LIMS users can sign records' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT (
+    (p_meaning IN ('approval', 'amendment') AND p_record_type = 'result')
+    OR (p_meaning = 'release' AND p_record_type = 'order')
+  ) THEN
+    RAISE EXCEPTION 'A % signature cannot be applied to a %', p_meaning, p_record_type
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.has_permission(CASE WHEN p_meaning = 'release' THEN 'report_generation' ELSE 'result_approval' END) THEN
+    RAISE EXCEPTION 'Your role does not allow % signatures', p_meaning USING ERRCODE = '42501';
+  END IF;
+
+  IF p_meaning = 'amendment' AND COALESCE(btrim(p_reason), '') = '' THEN
+    RAISE EXCEPTION 'An amendment needs a reason' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT public.verify_signature_credential(p_credential) THEN
+    RAISE EXCEPTION 'Password or PIN is incorrect' USING ERRCODE = '28P01';
+  END IF;
+
+  FOREACH v_record_id IN ARRAY COALESCE(p_record_ids, ARRAY[]::uuid[]) LOOP
+    IF p_record_type = 'result' THEN
+      SELECT lab_id INTO v_lab_id FROM public.results WHERE id = v_record_id;
+    ELSE
+      SELECT lab_id INTO v_lab_id FROM public.orders WHERE id = v_record_id;
+    END IF;
+
+    v_payload := public.signature_payload(p_record_type, v_record_id);
+    -- Runs without RLS, so keep signers to records of their own lab
+    IF v_payload IS NULL OR v_lab_id IS DISTINCT FROM public.current_user_lab_id() THEN
+      RAISE EXCEPTION '% % not found', p_record_type, v_record_id USING ERRCODE = 'P0002';
+    END IF;
+
+    INSERT INTO public.electronic_signatures (
+      lab_id, user_id, signer_name, signer_role, meaning, record_type, record_id,
+      reason, signed_values, signed_hash
+    ) VALUES (
+      v_lab_id, v_user.id, v_user.name, v_user.role::text, p_meaning, p_record_type, v_record_id,
+      NULLIF(btrim(p_reason), ''), v_payload, public.signature_hash(v_payload)
+    )
+    RETURNING * INTO v_signature;
+
+    RETURN NEXT v_signature;
+  END LOOP;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_valid_signature(p_record_type text, p_record_id uuid, p_meaning text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.electronic_signatures s
+    WHERE s.record_type = p_record_type
+      AND s.record_id = p_record_id
+      AND s.meaning = p_meaning
+      AND s.user_id = public.current_user_id()
+      AND s.signed_at > now() - interval '10 minutes'
+      AND s.signed_hash = public.signature_hash(public.signature_payload(p_record_type, p_record_id))
+  );
+$$;
+
+-- Signatures are permanent
+
+CREATE OR REPLACE FUNCTION public.prevent_signature_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Electronic signatures cannot be changed or deleted' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_signature_changes ON public.electronic_signatures;
+CREATE TRIGGER prevent_signature_changes
+  BEFORE UPDATE OR DELETE ON public.electronic_signatures
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_signature_changes();
+
+DROP TRIGGER IF EXISTS prevent_signature_truncate ON public.electronic_signatures;
+CREATE TRIGGER prevent_signature_truncate
+  BEFORE TRUNCATE ON public.electronic_signatures
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_signature_changes();
+
+-- Signatures required on results
+
+CREATE OR REPLACE FUNCTION public.require_result_signatures()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF (
+    (OLD.status IN ('Approved', 'Reported') AND NEW.status NOT IN ('Approved', 'Reported'))
+    OR (OLD.verification_status = 'verified' AND NEW.verification_status IS DISTINCT FROM 'verified')
+  ) THEN
+    IF NOT public.has_valid_signature('result', NEW.id, 'amendment') THEN
+      RAISE EXCEPTION 'Amending an approved result requires an electronic signature'
+        USING ERRCODE = '42501';
+    END IF;
+  ELSIF (
+    (NEW.status = 'Approved' AND OLD.status IS DISTINCT FROM NEW.status)
+    OR (NEW.verification_status = 'verified' AND OLD.verification_status IS DISTINCT FROM NEW.verification_status)
+  ) THEN
+    IF NOT public.has_valid_signature('result', NEW.id, 'approval') THEN
+      RAISE EXCEPTION 'Approving a result requires an electronic signature'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF NEW.status = 'Reported' AND OLD.status IS DISTINCT FROM NEW.status
+     AND NOT public.has_valid_signature('order', NEW.order_id, 'release') THEN
+    RAISE EXCEPTION 'Releasing a report requires an electronic signature'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_result_signatures ON public.results;
+CREATE TRIGGER require_result_signatures
+  BEFORE UPDATE ON public.results
+  FOR EACH ROW EXECUTE FUNCTION public.require_result_signatures();
+
+CREATE OR REPLACE FUNCTION public.protect_signed_result_values()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_result_id uuid := CASE WHEN TG_OP = 'DELETE' THEN OLD.result_id ELSE NEW.result_id END;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  END IF;
+
+  -- Bookkeeping columns (delta checks, AI review) stay writable; only signed values are locked
+  IF TG_OP = 'UPDATE' AND (NEW.parameter, NEW.value, NEW.unit, NEW.reference_range, NEW.flag)
+     IS NOT DISTINCT FROM (OLD.parameter, OLD.value, OLD.unit, OLD.reference_range, OLD.flag) THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.results r
+    WHERE r.id = v_result_id
+      AND (r.status IN ('Approved', 'Reported') OR r.verification_status = 'verified')
+  ) THEN
+    RAISE EXCEPTION 'Values of an approved result cannot be changed; amend the result first'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_signed_result_values ON public.result_values;
+CREATE TRIGGER protect_signed_result_values
+  BEFORE INSERT OR UPDATE OR DELETE ON public.result_values
+  FOR EACH ROW EXECUTE FUNCTION public.protect_signed_result_values();
+
+-- Signatures required on reports
+
+CREATE OR REPLACE FUNCTION public.require_report_release_signature()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Reports written against a result belong to that result's order
+  IF NEW.order_id IS NULL AND NEW.result_id IS NOT NULL THEN
+    SELECT order_id INTO NEW.order_id FROM public.results WHERE id = NEW.result_id;
+  END IF;
+
+  IF auth.uid() IS NULL OR NEW.status NOT IN ('Generated', 'Delivered') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.order_id IS NULL THEN
+    RAISE EXCEPTION 'A released report must belong to an order' USING ERRCODE = '23502';
+  END IF;
+
+  IF (
+    TG_OP = 'INSERT'
+    OR OLD.status IS DISTINCT FROM NEW.status
+    OR OLD.generated_date IS DISTINCT FROM NEW.generated_date
+  ) AND NOT public.has_valid_signature('order', NEW.order_id, 'release') THEN
+    RAISE EXCEPTION 'Releasing a report requires an electronic signature'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS require_report_release_signature ON public.reports;
+CREATE TRIGGER require_report_release_signature
+  BEFORE INSERT OR UPDATE ON public.reports
+  FOR EACH ROW EXECUTE FUNCTION public.require_report_release_signature();
+
+-- Policies
+
+ALTER TABLE public.electronic_signatures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.signature_pins ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Signatures are readable within the current lab" ON public.electronic_signatures;
+CREATE POLICY "Signatures are readable within the current lab"
+  ON public.electronic_signatures FOR SELECT TO authenticated
+  USING (lab_id IS NOT DISTINCT FROM public.current_user_lab_id());
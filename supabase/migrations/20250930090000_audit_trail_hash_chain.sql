@@ -0,0 +1,292 @@
+/*
+  # Tamper-Evident Audit Trail
+
+  1. Changes
+     - `audit_logs` gains `lab_id`, `seq`, `prev_hash` and `row_hash`. Each entry's hash covers
+       its own contents and the hash of the lab's previous entry, so changing or removing an
+       entry breaks the chain from that entry on. Existing entries are chained in timestamp
+       order.
+     - Inserts, updates and deletes on patients, orders, results, result_values, invoices and
+       payments are written to `audit_logs` with the old and new row
+     - `verify_audit_chain()` - re-computes the current lab's chain and reports the first entry
+       that does not match
+     - New `audit_view` permission, granted to Lab Managers by default
+
+  2. Security
+     - Audit entries are only written by the audit triggers and can never be updated or
+       deleted, not even by the service role
+     - Reading the audit trail needs `audit_view` and is limited to the current lab
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Permission
+
+CREATE OR REPLACE FUNCTION public.role_permissions(p_role user_role)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE p_role
+    WHEN 'Admin' THEN ARRAY['all_access']
+    WHEN 'Lab Manager' THEN ARRAY['patient_registration', 'test_management', 'result_entry', 'result_approval', 'report_generation', 'billing_management', 'audit_view']
+    WHEN 'Technician' THEN ARRAY['result_entry']
+    WHEN 'Receptionist' THEN ARRAY['patient_registration', 'billing_management']
+    WHEN 'Doctor' THEN ARRAY['result_approval', 'report_generation']
+    ELSE ARRAY[]::text[]
+  END;
+$$;
+
+-- Chain columns
+
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS seq bigint;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS prev_hash text;
+ALTER TABLE public.audit_logs ADD COLUMN IF NOT EXISTS row_hash text;
+
+CREATE SEQUENCE IF NOT EXISTS public.audit_logs_seq_seq OWNED BY public.audit_logs.seq;
+
+-- Everything an entry says is in its hash; timestamps are hashed in UTC so the session time zone does not matter
+CREATE OR REPLACE FUNCTION public.audit_entry_hash(
+  p_prev_hash text,
+  p_seq bigint,
+  p_lab_id uuid,
+  p_table_name text,
+  p_record_id uuid,
+  p_action text,
+  p_old_values jsonb,
+  p_new_values jsonb,
+  p_user_id uuid,
+  p_user_email text,
+  p_timestamp timestamptz
+)
+RETURNS text
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT encode(digest(concat_ws('|',
+    COALESCE(p_prev_hash, ''),
+    p_seq::text,
+    COALESCE(p_lab_id::text, ''),
+    p_table_name,
+    p_record_id::text,
+    p_action,
+    COALESCE(p_old_values::text, ''),
+    COALESCE(p_new_values::text, ''),
+    COALESCE(p_user_id::text, ''),
+    COALESCE(p_user_email, ''),
+    to_char(p_timestamp AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US')
+  ), 'sha256'), 'hex');
+$$;
+
+-- Chain existing entries; legacy rows take the lab of the user who wrote them
+UPDATE public.audit_logs a
+SET lab_id = u.lab_id
+FROM public.users u
+WHERE a.user_id = u.id AND a.lab_id IS NULL;
+
+DO $$
+DECLARE
+  v_entry record;
+  v_seq bigint;
+  v_prev text;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM public.audit_logs WHERE row_hash IS NULL ORDER BY "timestamp", id
+  LOOP
+    v_seq := nextval('public.audit_logs_seq_seq');
+    SELECT row_hash INTO v_prev
+    FROM public.audit_logs
+    WHERE lab_id IS NOT DISTINCT FROM v_entry.lab_id AND row_hash IS NOT NULL
+    ORDER BY seq DESC
+    LIMIT 1;
+
+    UPDATE public.audit_logs
+    SET seq = v_seq,
+        prev_hash = v_prev,
+        row_hash = public.audit_entry_hash(
+          v_prev, v_seq, v_entry.lab_id, v_entry.table_name, v_entry.record_id, v_entry.action,
+          v_entry.old_values, v_entry.new_values, v_entry.user_id, v_entry.user_email, v_entry."timestamp"
+        )
+    WHERE id = v_entry.id;
+  END LOOP;
+END $$;
+
+ALTER TABLE public.audit_logs ALTER COLUMN seq SET DEFAULT nextval('public.audit_logs_seq_seq');
+ALTER TABLE public.audit_logs ALTER COLUMN seq SET NOT NULL;
+ALTER TABLE public.audit_logs ALTER COLUMN row_hash SET NOT NULL;
+ALTER TABLE public.audit_logs ALTER COLUMN "timestamp" SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_logs_seq ON public.audit_logs(seq);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_lab_seq ON public.audit_logs(lab_id, seq);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_record ON public.audit_logs(table_name, record_id, seq);
+
+-- Writing entries
+
+CREATE OR REPLACE FUNCTION public.write_audit_entry(
+  p_lab_id uuid,
+  p_table_name text,
+  p_record_id uuid,
+  p_action text,
+  p_old_values jsonb,
+  p_new_values jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prev text;
+  v_seq bigint;
+  v_user_id uuid;
+  v_user_email text;
+  v_timestamp timestamptz := now();
+BEGIN
+  -- One writer per lab chain at a time, so every entry links to the one committed before it
+  PERFORM pg_advisory_xact_lock(hashtext('audit_logs:' || COALESCE(p_lab_id::text, '')));
+
+  SELECT row_hash INTO v_prev
+  FROM public.audit_logs
+  WHERE lab_id IS NOT DISTINCT FROM p_lab_id
+  ORDER BY seq DESC
+  LIMIT 1;
+
+  SELECT id, email INTO v_user_id, v_user_email FROM public.users WHERE auth_user_id = auth.uid();
+  v_seq := nextval('public.audit_logs_seq_seq');
+
+  INSERT INTO public.audit_logs (
+    seq, lab_id, table_name, record_id, action, old_values, new_values,
+    user_id, user_email, "timestamp", prev_hash, row_hash
+  ) VALUES (
+    v_seq, p_lab_id, p_table_name, p_record_id, p_action, p_old_values, p_new_values,
+    v_user_id, v_user_email, v_timestamp, v_prev,
+    public.audit_entry_hash(
+      v_prev, v_seq, p_lab_id, p_table_name, p_record_id, p_action,
+      p_old_values, p_new_values, v_user_id, v_user_email, v_timestamp
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.write_audit_entry(uuid, text, uuid, text, jsonb, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old jsonb := CASE WHEN TG_OP <> 'INSERT' THEN to_jsonb(OLD) END;
+  v_new jsonb := CASE WHEN TG_OP <> 'DELETE' THEN to_jsonb(NEW) END;
+  v_row jsonb := COALESCE(v_new, v_old);
+  v_lab_id uuid;
+BEGIN
+  IF TG_OP = 'UPDATE' AND v_old = v_new THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'result_values' THEN
+    SELECT lab_id INTO v_lab_id FROM public.results WHERE id = (v_row->>'result_id')::uuid;
+  ELSE
+    v_lab_id := (v_row->>'lab_id')::uuid;
+  END IF;
+
+  PERFORM public.write_audit_entry(v_lab_id, TG_TABLE_NAME, (v_row->>'id')::uuid, TG_OP, v_old, v_new);
+  RETURN NULL;
+END;
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['patients', 'orders', 'results', 'result_values', 'invoices', 'payments'] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_row_change ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER audit_row_change AFTER INSERT OR UPDATE OR DELETE ON public.%I '
+      'FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Entries are permanent
+
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Audit log entries cannot be changed or deleted' USING ERRCODE = '42501';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS prevent_audit_log_changes ON public.audit_logs;
+CREATE TRIGGER prevent_audit_log_changes
+  BEFORE UPDATE OR DELETE ON public.audit_logs
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+DROP TRIGGER IF EXISTS prevent_audit_log_truncate ON public.audit_logs;
+CREATE TRIGGER prevent_audit_log_truncate
+  BEFORE TRUNCATE ON public.audit_logs
+  FOR EACH STATEMENT EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- Verification
+
+CREATE OR REPLACE FUNCTION public.verify_audit_chain()
+RETURNS TABLE (entries_checked bigint, broken_entry_id uuid, broken_seq bigint, problem text)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lab_id uuid := public.current_user_lab_id();
+  v_entry public.audit_logs%ROWTYPE;
+  v_prev text;
+  v_count bigint := 0;
+BEGIN
+  IF NOT public.has_permission('audit_view') THEN
+    RAISE EXCEPTION 'Verifying the audit trail requires the audit_view permission' USING ERRCODE = '42501';
+  END IF;
+
+  FOR v_entry IN
+    SELECT * FROM public.audit_logs WHERE lab_id IS NOT DISTINCT FROM v_lab_id ORDER BY seq
+  LOOP
+    v_count := v_count + 1;
+
+    IF v_entry.prev_hash IS DISTINCT FROM v_prev THEN
+      RETURN QUERY SELECT v_count, v_entry.id, v_entry.seq,
+        'The entry before this one is missing or was changed'::text;
+      RETURN;
+    END IF;
+
+    IF v_entry.row_hash IS DISTINCT FROM public.audit_entry_hash(
+      v_entry.prev_hash, v_entry.seq, v_entry.lab_id, v_entry.table_name, v_entry.record_id,
+      v_entry.action, v_entry.old_values, v_entry.new_values, v_entry.user_id, v_entry.user_email,
+      v_entry."timestamp"
+    ) THEN
+      RETURN QUERY SELECT v_count, v_entry.id, v_entry.seq,
+        'This entry was changed after it was written'::text;
+      RETURN;
+    END IF;
+
+    v_prev := v_entry.row_hash;
+  END LOOP;
+
+  RETURN QUERY SELECT v_count, NULL::uuid, NULL::bigint, NULL::text;
+END;
+$$;
+
+-- Policies
+
+ALTER TABLE public.audit_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read audit logs" ON public.audit_logs;
+DROP POLICY IF EXISTS "Audit trail is readable with audit_view" ON public.audit_logs;
+CREATE POLICY "Audit trail is readable with audit_view"
+  ON public.audit_logs FOR SELECT TO authenticated
+  USING (public.has_permission('audit_view') AND lab_id IS NOT DISTINCT FROM public.current_user_lab_id());
@@ -0,0 +1,94 @@
+/*
+  # AI Prompt Version Functions
+
+  1. New Functions
+     - `save_ai_prompt_version(prompt_id, prompt, change_note, activate)` - numbers and inserts
+       the next version of a prompt, and optionally puts it in use, in one transaction. The
+       prompt row is locked while numbering, so concurrent saves get consecutive versions
+       instead of failing on the (prompt_id, version) key
+     - `save_ai_prompt(processing_type, prompt, test_id, analyte_id, lab_id, is_default,
+       change_note)` - finds or creates the prompt for a scope and saves its text as the
+       active version; a prompt row is never left without a version
+
+  2. Security
+     - Both run with the caller's rights, so the ai_prompts and ai_prompt_versions policies apply
+*/
+
+CREATE OR REPLACE FUNCTION public.save_ai_prompt_version(
+  p_prompt_id uuid,
+  p_prompt text,
+  p_change_note text DEFAULT NULL,
+  p_activate boolean DEFAULT false
+)
+RETURNS public.ai_prompt_versions
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_version public.ai_prompt_versions%ROWTYPE;
+BEGIN
+  PERFORM 1 FROM public.ai_prompts WHERE id = p_prompt_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'AI prompt % not found', p_prompt_id USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.ai_prompt_versions (prompt_id, version, prompt, change_note, created_by)
+  SELECT p_prompt_id, COALESCE(max(version), 0) + 1, p_prompt, NULLIF(btrim(p_change_note), ''), auth.uid()
+  FROM public.ai_prompt_versions
+  WHERE prompt_id = p_prompt_id
+  RETURNING * INTO v_version;
+
+  IF p_activate THEN
+    UPDATE public.ai_prompts
+    SET prompt = v_version.prompt, active_version = v_version.version, updated_at = now()
+    WHERE id = p_prompt_id;
+  END IF;
+
+  RETURN v_version;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_ai_prompt(
+  p_processing_type text,
+  p_prompt text,
+  p_test_id uuid DEFAULT NULL,
+  p_analyte_id uuid DEFAULT NULL,
+  p_lab_id uuid DEFAULT NULL,
+  p_is_default boolean DEFAULT false,
+  p_change_note text DEFAULT NULL
+)
+RETURNS public.ai_prompts
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_prompt public.ai_prompts%ROWTYPE;
+BEGIN
+  -- One save per scope at a time, so two first saves do not create two prompts
+  PERFORM pg_advisory_xact_lock(hashtext(concat_ws('|', 'ai_prompts', p_processing_type, p_test_id, p_analyte_id, p_lab_id, p_is_default)));
+
+  SELECT * INTO v_prompt
+  FROM public.ai_prompts
+  WHERE ai_processing_type = p_processing_type
+    AND "default" = p_is_default
+    AND test_id IS NOT DISTINCT FROM p_test_id
+    AND analyte_id IS NOT DISTINCT FROM p_analyte_id
+    AND lab_id IS NOT DISTINCT FROM p_lab_id
+  LIMIT 1;
+
+  IF v_prompt.id IS NOT NULL AND v_prompt.prompt = p_prompt THEN
+    RETURN v_prompt;
+  END IF;
+
+  IF v_prompt.id IS NULL THEN
+    INSERT INTO public.ai_prompts (ai_processing_type, prompt, test_id, analyte_id, lab_id, "default")
+    VALUES (p_processing_type, p_prompt, p_test_id, p_analyte_id, p_lab_id, p_is_default)
+    RETURNING * INTO v_prompt;
+  END IF;
+
+  PERFORM public.save_ai_prompt_version(v_prompt.id, p_prompt, p_change_note, true);
+
+  SELECT * INTO v_prompt FROM public.ai_prompts WHERE id = v_prompt.id;
+  RETURN v_prompt;
+END;
+$$;
@@ -0,0 +1,242 @@
+/*
+  # Lab Isolation for Operational Tables
+
+  1. Changes
+     - `critical_value_callbacks`, `samples` (including rejections), `qc_runs`,
+       `qc_corrective_actions`, `instrument_messages`, `hl7_messages`, `ai_prompt_test_cases`,
+       `ai_extracted_values` and `ai_usage_logs` get the same lab isolation as patients and
+       orders. Rows without a lab are backfilled from their order, patient or user, or from the
+       only lab when there is just one.
+     - Inserts without a `lab_id` are stamped with the current lab; AI usage logs are written
+       by the edge functions and always carry the caller's lab
+     - `lab_row_readable(lab_id)` / `lab_row_writable(lab_id)` - lab checks for tables that
+       also hold shared rows (`lab_id` null)
+
+  2. Security
+     - A restrictive policy limits every row to the signed-in user's current lab
+     - AI usage logs become read-only for signed-in users
+     - QC materials, lots and targets, instrument test mappings, analyte synonyms, label
+       templates, AI confidence thresholds and reference ranges: shared rows and the current
+       lab's rows can be read, only the current lab's rows can be written. Shared rows can only
+       be written by administrators (`all_access`).
+     - AI usage quotas are limited to the current lab
+*/
+
+ALTER TABLE public.critical_value_callbacks ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.samples ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.qc_runs ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.qc_corrective_actions ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.instrument_messages ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.hl7_messages ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+ALTER TABLE public.ai_prompt_test_cases ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE;
+ALTER TABLE public.ai_extracted_values ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id) ON DELETE CASCADE;
+ALTER TABLE public.ai_usage_logs ADD COLUMN IF NOT EXISTS lab_id uuid REFERENCES public.labs(id);
+
+CREATE INDEX IF NOT EXISTS idx_critical_value_callbacks_lab_id ON public.critical_value_callbacks(lab_id);
+CREATE INDEX IF NOT EXISTS idx_samples_lab_id ON public.samples(lab_id);
+CREATE INDEX IF NOT EXISTS idx_qc_runs_lab_id ON public.qc_runs(lab_id);
+CREATE INDEX IF NOT EXISTS idx_instrument_messages_lab_id ON public.instrument_messages(lab_id);
+CREATE INDEX IF NOT EXISTS idx_hl7_messages_lab_id ON public.hl7_messages(lab_id);
+
+-- Backfill
+
+DO $$
+DECLARE
+  v_only_lab uuid;
+BEGIN
+  UPDATE public.critical_value_callbacks c SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE c.order_id = o.id AND c.lab_id IS NULL;
+
+  UPDATE public.samples s SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE s.order_id = o.id AND s.lab_id IS NULL;
+
+  UPDATE public.hl7_messages h SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE h.order_id = o.id AND h.lab_id IS NULL;
+
+  UPDATE public.hl7_messages h SET lab_id = p.lab_id
+  FROM public.patients p
+  WHERE h.patient_id = p.id AND h.lab_id IS NULL;
+
+  UPDATE public.ai_prompt_test_cases t SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE t.order_id = o.id AND t.lab_id IS NULL;
+
+  UPDATE public.ai_extracted_values v SET lab_id = o.lab_id
+  FROM public.orders o
+  WHERE v.order_id = o.id AND v.lab_id IS NULL;
+
+  UPDATE public.ai_usage_logs l SET lab_id = u.lab_id
+  FROM public.users u
+  WHERE l.user_id = u.auth_user_id AND l.lab_id IS NULL;
+
+  IF (SELECT count(*) FROM public.labs) = 1 THEN
+    SELECT id INTO v_only_lab FROM public.labs;
+    UPDATE public.critical_value_callbacks SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.samples SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.qc_runs SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.qc_corrective_actions SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.instrument_messages SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.hl7_messages SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.ai_prompt_test_cases SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.ai_extracted_values SET lab_id = v_only_lab WHERE lab_id IS NULL;
+    UPDATE public.ai_usage_logs SET lab_id = v_only_lab WHERE lab_id IS NULL;
+  END IF;
+END $$;
+
+-- Stamping
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'critical_value_callbacks', 'samples', 'qc_runs', 'qc_corrective_actions', 'instrument_messages',
+    'hl7_messages', 'ai_prompt_test_cases', 'ai_extracted_values'
+  ] LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS stamp_lab_id ON public.%I', t);
+    EXECUTE format(
+      'CREATE TRIGGER stamp_lab_id BEFORE INSERT ON public.%I FOR EACH ROW EXECUTE FUNCTION public.stamp_current_lab_id()',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- AI usage logs: the edge functions write them with the service role
+
+ALTER TABLE public.ai_usage_logs ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  p record;
+BEGIN
+  FOR p IN SELECT policyname FROM pg_policies WHERE schemaname = 'public' AND tablename = 'ai_usage_logs' LOOP
+    EXECUTE format('DROP POLICY %I ON public.ai_usage_logs', p.policyname);
+  END LOOP;
+END $$;
+
+CREATE POLICY "Users can read AI usage" ON public.ai_usage_logs FOR SELECT TO authenticated USING (true);
+
+-- Lab isolation; restrictive, so it applies on top of every existing policy
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'critical_value_callbacks', 'samples', 'qc_runs', 'qc_corrective_actions', 'instrument_messages',
+    'hl7_messages', 'ai_prompt_test_cases', 'ai_extracted_values', 'ai_usage_logs'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Rows are limited to the current lab" ON public.%I', t);
+    EXECUTE format(
+      'CREATE POLICY "Rows are limited to the current lab" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING (lab_id IS NOT DISTINCT FROM public.current_user_lab_id()) '
+      'WITH CHECK (lab_id IS NOT DISTINCT FROM public.current_user_lab_id())',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Configuration tables with shared rows
+
+CREATE OR REPLACE FUNCTION public.lab_row_readable(p_lab_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p_lab_id IS NULL OR p_lab_id = public.current_user_lab_id();
+$$;
+
+CREATE OR REPLACE FUNCTION public.lab_row_writable(p_lab_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p_lab_id IS NOT DISTINCT FROM public.current_user_lab_id()
+    OR (p_lab_id IS NULL AND public.has_permission('all_access'));
+$$;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'qc_materials', 'instrument_test_mappings', 'analyte_synonyms', 'label_templates',
+    'ai_confidence_thresholds', 'analyte_reference_ranges'
+  ] LOOP
+    EXECUTE format('ALTER TABLE public.%I ENABLE ROW LEVEL SECURITY', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Shared and current lab rows are readable" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Only current lab rows are insertable" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Only current lab rows are updatable" ON public.%I', t);
+    EXECUTE format('DROP POLICY IF EXISTS "Only current lab rows are deletable" ON public.%I', t);
+    EXECUTE format(
+      'CREATE POLICY "Shared and current lab rows are readable" ON public.%I AS RESTRICTIVE FOR SELECT TO authenticated '
+      'USING (public.lab_row_readable(lab_id))',
+      t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Only current lab rows are insertable" ON public.%I AS RESTRICTIVE FOR INSERT TO authenticated '
+      'WITH CHECK (public.lab_row_writable(lab_id))',
+      t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Only current lab rows are updatable" ON public.%I AS RESTRICTIVE FOR UPDATE TO authenticated '
+      'USING (public.lab_row_writable(lab_id)) WITH CHECK (public.lab_row_writable(lab_id))',
+      t
+    );
+    EXECUTE format(
+      'CREATE POLICY "Only current lab rows are deletable" ON public.%I AS RESTRICTIVE FOR DELETE TO authenticated '
+      'USING (public.lab_row_writable(lab_id))',
+      t
+    );
+  END LOOP;
+END $$;
+
+-- Lots and targets follow their material
+
+DROP POLICY IF EXISTS "QC lots follow their material" ON public.qc_lots;
+DROP POLICY IF EXISTS "QC lots are written with their material" ON public.qc_lots;
+CREATE POLICY "QC lots follow their material" ON public.qc_lots AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.qc_materials m
+    WHERE m.id = qc_lots.material_id AND public.lab_row_readable(m.lab_id)
+  ));
+CREATE POLICY "QC lots are written with their material" ON public.qc_lots AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.qc_materials m
+    WHERE m.id = qc_lots.material_id AND public.lab_row_writable(m.lab_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.qc_materials m
+    WHERE m.id = qc_lots.material_id AND public.lab_row_writable(m.lab_id)
+  ));
+
+DROP POLICY IF EXISTS "QC targets follow their lot" ON public.qc_lot_targets;
+DROP POLICY IF EXISTS "QC targets are written with their lot" ON public.qc_lot_targets;
+CREATE POLICY "QC targets follow their lot" ON public.qc_lot_targets AS RESTRICTIVE FOR SELECT TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.qc_lots l JOIN public.qc_materials m ON m.id = l.material_id
+    WHERE l.id = qc_lot_targets.lot_id AND public.lab_row_readable(m.lab_id)
+  ));
+CREATE POLICY "QC targets are written with their lot" ON public.qc_lot_targets AS RESTRICTIVE FOR ALL TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM public.qc_lots l JOIN public.qc_materials m ON m.id = l.material_id
+    WHERE l.id = qc_lot_targets.lot_id AND public.lab_row_writable(m.lab_id)
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM public.qc_lots l JOIN public.qc_materials m ON m.id = l.material_id
+    WHERE l.id = qc_lot_targets.lot_id AND public.lab_row_writable(m.lab_id)
+  ));
+
+-- Quotas have no shared rows
+
+ALTER TABLE public.ai_usage_quotas ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Rows are limited to the current lab" ON public.ai_usage_quotas;
+CREATE POLICY "Rows are limited to the current lab" ON public.ai_usage_quotas AS RESTRICTIVE FOR ALL TO authenticated
+  USING (lab_id = public.current_user_lab_id())
+  WITH CHECK (lab_id = public.current_user_lab_id());